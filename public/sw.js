@@ -0,0 +1,46 @@
+// Service worker for Web Push notifications (registered from src/components/AppLayout.tsx).
+// Payloads come from src/lib/push: { title, body, link, tag }.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let message = { title: 'Bookd', body: '', link: '/notifications' };
+  if (event.data) {
+    try {
+      message = { ...message, ...event.data.json() };
+    } catch {
+      message.body = event.data.text();
+    }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      icon: '/Logo.png',
+      data: { link: message.link || '/notifications' },
+    })
+  );
+});
+
+// Focus an open Bookd tab (navigating it to the link) or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.link || '/notifications', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.navigate(url).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
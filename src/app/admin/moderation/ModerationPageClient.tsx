@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ModerationLogEntry, ModerationQueueCard } from '@/components/moderation';
+import { createModerationService } from '@/services/client/moderation';
+import type { ModerationActionWithUsers, ModerationQueueItem } from '@/types/database';
+
+type ModerationTab = 'queue' | 'log';
+
+const PAGE_SIZE = 30;
+
+export default function ModerationPageClient() {
+  const [tab, setTab] = useState<ModerationTab>('queue');
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+  const [log, setLog] = useState<ModerationActionWithUsers[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const service = createModerationService();
+      if (tab === 'queue') {
+        const data = await service.getQueue(PAGE_SIZE);
+        setQueue(data);
+        setHasMore(data.length === PAGE_SIZE);
+      } else {
+        const data = await service.getActions({ limit: PAGE_SIZE });
+        setLog(data);
+        setHasMore(data.length === PAGE_SIZE);
+      }
+      setLoading(false);
+    };
+    load();
+  }, [tab]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    const service = createModerationService();
+    if (tab === 'queue') {
+      const data = await service.getQueue(PAGE_SIZE, queue.length);
+      setQueue(prev => [...prev, ...data]);
+      setHasMore(data.length === PAGE_SIZE);
+    } else {
+      const oldest = log[log.length - 1];
+      const data = oldest ? await service.getActions({ limit: PAGE_SIZE, before: oldest.created_at }) : [];
+      setLog(prev => [...prev, ...data]);
+      setHasMore(data.length === PAGE_SIZE);
+    }
+    setLoadingMore(false);
+  };
+
+  const handleResolved = (item: ModerationQueueItem) => {
+    setQueue(prev => prev.filter(other =>
+      !(other.target_type === item.target_type && other.target_id === item.target_id)
+    ));
+  };
+
+  const handleSuspensionLifted = (userId: string) => {
+    setLog(prev => prev.map(entry =>
+      entry.subject?.id === userId ? { ...entry, subject: { ...entry.subject, suspended_until: null } } : entry
+    ));
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="border-b border-gray-200 pb-4">
+        <h1 className="text-3xl font-bold text-gray-900">Moderation</h1>
+        <p className="text-gray-600 mt-1">Reported and flagged content, and everything moderators have done about it</p>
+      </div>
+
+      <div className="flex gap-2">
+        {([['queue', 'Queue'], ['log', 'Audit log']] as [ModerationTab, string][]).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              tab === value
+                ? 'bg-[#7823E1] text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <div key={index} className="p-4 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/2 mb-2" />
+              <div className="h-3 bg-gray-200 rounded w-3/4" />
+            </div>
+          ))}
+        </div>
+      ) : tab === 'queue' ? (
+        queue.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">The queue is empty</h3>
+              <p className="text-gray-600">New reports and flagged content will show up here.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {queue.map(item => (
+              <ModerationQueueCard
+                key={`${item.target_type}:${item.target_id}`}
+                item={item}
+                onResolved={handleResolved}
+              />
+            ))}
+          </div>
+        )
+      ) : log.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No moderation actions yet</h3>
+            <p className="text-gray-600">Every decision made from the queue is recorded here.</p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {log.map(entry => (
+            <ModerationLogEntry key={entry.id} entry={entry} onSuspensionLifted={handleSuspensionLifted} />
+          ))}
+        </div>
+      )}
+
+      {!loading && hasMore && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 text-sm font-medium text-[#7823E1] border border-[#7823E1] rounded-lg hover:bg-[#E8DFFF] disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
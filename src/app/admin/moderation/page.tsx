@@ -0,0 +1,23 @@
+import { createClient } from '@/lib/supabase/server';
+import { callRpc } from '@/lib/supabase/rpc';
+import { notFound, redirect } from 'next/navigation';
+import ModerationPageClient from './ModerationPageClient';
+
+export default async function ModerationPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  // The queue RPC returns nothing to non-admins anyway; don't reveal the console exists
+  const { data: isAdmin } = await callRpc(supabase, 'is_platform_admin', { p_user_id: user.id });
+  if (!isAdmin) {
+    notFound();
+  }
+
+  return <ModerationPageClient />;
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { createCalendarFeedService } from '@/services/calendar_feed';
+
+interface Params {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Subscribable iCalendar feed: GET /api/calendar/<token>.ics
+ * The token is the only credential, so unknown and revoked tokens get the same 404.
+ */
+export async function GET(_request: Request, { params }: Params) {
+  const { token } = await params;
+
+  try {
+    const calendar = await createCalendarFeedService().getFeed(token.replace(/\.ics$/i, ''));
+
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="bookd.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { CalendarImportError } from '@/lib/calendar/fetch';
+import { createServerCalendarImportService } from '@/services/calendar_import';
+
+/**
+ * Import busy time as availability blackouts: POST /api/calendar/import
+ * Body is { filename, content } for an uploaded .ics file, { url } for a feed fetched here,
+ * or { importId } to refresh a feed imported before; timezone is the browser's, used when
+ * the user hasn't set one for their availability.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const timezone = typeof body?.timezone === 'string' ? body.timezone : null;
+    const service = await createServerCalendarImportService();
+
+    let result;
+    if (typeof body?.importId === 'string') {
+      result = await service.refreshImport(body.importId, timezone);
+    } else if (typeof body?.url === 'string' && body.url.trim()) {
+      result = await service.importCalendar({ type: 'url', url: body.url }, timezone);
+    } else if (typeof body?.content === 'string') {
+      const filename = typeof body.filename === 'string' ? body.filename : 'calendar.ics';
+      result = await service.importCalendar({ type: 'file', filename, content: body.content }, timezone);
+    } else {
+      return NextResponse.json({ error: 'A calendar file or link is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ data: result });
+  } catch (err) {
+    if (err instanceof CalendarImportError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
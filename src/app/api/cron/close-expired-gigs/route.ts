@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { authorizeCronRequest } from '@/lib/auth/cron';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { Database } from '@/types/database';
+
+type CloseExpiredGigsSummary = Database['public']['Functions']['close_expired_gigs']['Returns'];
+
+/**
+ * Close open gigs past their application deadline, expiry or dates.
+ * Meant to be called by a scheduler (e.g. Vercel Cron or pg_cron + http) with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handle(request: Request) {
+  const unauthorized = authorizeCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.rpc('close_expired_gigs');
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: data as CloseExpiredGigsSummary }, { status: 200 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  return handle(request);
+}
+
+export async function POST(request: Request) {
+  return handle(request);
+}
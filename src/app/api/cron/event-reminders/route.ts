@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { authorizeCronRequest } from '@/lib/auth/cron';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { Database } from '@/types/database';
+
+type EventRemindersSummary = Database['public']['Functions']['send_event_reminders']['Returns'];
+
+/**
+ * Remind everyone who RSVPed to an event starting in the next 24 hours.
+ * Meant to be called hourly by a scheduler (e.g. Vercel Cron or pg_cron + http) with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handle(request: Request) {
+  const unauthorized = authorizeCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.rpc('send_event_reminders');
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: data as EventRemindersSummary }, { status: 200 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  return handle(request);
+}
+
+export async function POST(request: Request) {
+  return handle(request);
+}
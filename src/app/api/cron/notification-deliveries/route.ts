@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { authorizeCronRequest } from '@/lib/auth/cron';
+import { getEmailTransport } from '@/lib/email';
+import { getPushTransport } from '@/lib/push';
+import { createNotificationDeliveryService } from '@/services/notification_delivery';
+
+/**
+ * Send due Web Push and email notification deliveries, including hourly and daily digests.
+ * Meant to be called every few minutes by a scheduler with `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handle(request: Request) {
+  const unauthorized = authorizeCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const service = createNotificationDeliveryService();
+    const summary = await service.deliverPending(getPushTransport(), getEmailTransport());
+
+    return NextResponse.json({ data: summary }, { status: 200 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  return handle(request);
+}
+
+export async function POST(request: Request) {
+  return handle(request);
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { authorizeCronRequest } from '@/lib/auth/cron';
+import { getEmailTransport } from '@/lib/email';
+import { createSavedSearchDigestService } from '@/services/saved_searches';
+
+/**
+ * Record new saved search matches and email the daily digest.
+ * Meant to be called once a day by a scheduler with `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handle(request: Request) {
+  const unauthorized = authorizeCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const service = createSavedSearchDigestService();
+    const summary = await service.sendDailyDigests(getEmailTransport());
+
+    return NextResponse.json({ data: summary }, { status: 200 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  return handle(request);
+}
+
+export async function POST(request: Request) {
+  return handle(request);
+}
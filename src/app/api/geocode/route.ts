@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getGeocoder } from '@/lib/geocoding';
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (!body?.city || typeof body.city !== 'string') {
+      return NextResponse.json({ error: 'City is required' }, { status: 400 });
+    }
+
+    const result = await getGeocoder().geocode({
+      address: body.address,
+      city: body.city,
+      state_province: body.state_province,
+      postal_code: body.postal_code,
+      country: body.country,
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: 'Address could not be found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
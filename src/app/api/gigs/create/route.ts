@@ -18,11 +18,13 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
     }
 
+    // Drafts stay unpublished until the poster publishes them from My Gigs
+    const isDraft = body.status === 'draft';
     const payload = {
       ...body,
       posted_by_user_id: user.id,
-      status: 'open',
-      published_at: new Date().toISOString(),
+      status: isDraft ? 'draft' : 'open',
+      published_at: isDraft ? null : new Date().toISOString(),
     };
 
     const { data, error } = await supabase
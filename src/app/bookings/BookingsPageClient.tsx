@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { BookingRequestCard, formatBookingFee, formatBookingWhen, formatBookingWhere } from '@/components/bookings';
+import { AddToCalendarButton, CalendarFeedPanel } from '@/components/calendar';
+import { ScheduleView } from '@/components/schedule';
+import { engagementCalendarEvent } from '@/lib/calendar/events';
+import { bookingSideFor, createBookingsService } from '@/services/client/bookings';
+import type {
+  BookingAction,
+  BookingRequestWithParties,
+  BookingTerms,
+  EngagementWithParties
+} from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+interface BookingsPageClientProps {
+  userId: string;
+}
+
+type BookingsTab = 'requests' | 'calendar' | 'schedule';
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export default function BookingsPageClient({ userId }: BookingsPageClientProps) {
+  const [activeTab, setActiveTab] = useState<BookingsTab>('requests');
+  const [requests, setRequests] = useState<BookingRequestWithParties[]>([]);
+  const [engagements, setEngagements] = useState<EngagementWithParties[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancelError, setCancelError] = useState<{ engagementId: string; message: string } | null>(null);
+
+  const fetchBookings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const service = createBookingsService();
+      const [requestData, engagementData] = await Promise.all([
+        service.getBookingRequests(),
+        service.getEngagements(toDateInput(new Date()))
+      ]);
+      setRequests(requestData);
+      setEngagements(engagementData);
+    } catch (err) {
+      logError('Error fetching bookings', err);
+      setError('Failed to load your bookings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBookings();
+  }, []);
+
+  const groups = useMemo(() => {
+    const open = requests.filter(request => request.status === 'pending' || request.status === 'countered');
+    return [
+      {
+        title: 'Needs your response',
+        items: open.filter(request => request.awaiting_response_from === bookingSideFor(request, userId))
+      },
+      {
+        title: 'Waiting on them',
+        items: open.filter(request => request.awaiting_response_from !== bookingSideFor(request, userId))
+      },
+      {
+        title: 'Past requests',
+        items: requests.filter(request => !open.includes(request))
+      }
+    ];
+  }, [requests, userId]);
+
+  const engagementsByMonth = useMemo(() => {
+    const months = new Map<string, EngagementWithParties[]>();
+    engagements.forEach(engagement => {
+      const month = new Date(`${engagement.event_date}T00:00:00`).toLocaleDateString('en-US', {
+        month: 'long',
+        year: 'numeric'
+      });
+      months.set(month, [...(months.get(month) || []), engagement]);
+    });
+    return Array.from(months.entries());
+  }, [engagements]);
+
+  const handleRespond = async (
+    request: BookingRequestWithParties,
+    action: BookingAction,
+    terms?: Partial<BookingTerms>,
+    message?: string
+  ) => {
+    const service = createBookingsService();
+    await service.respond(request.id, action, terms, message);
+
+    // Re-read the request so the new revision (and any engagement) shows up
+    const updated = await service.getBookingRequest(request.id);
+    if (updated) {
+      setRequests(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+    }
+    if (action === 'accept') {
+      setEngagements(await service.getEngagements(toDateInput(new Date())));
+    }
+  };
+
+  const handleCancelEngagement = async (engagement: EngagementWithParties) => {
+    if (!window.confirm(`Cancel "${engagement.title}"? It will show as cancelled on both calendars.`)) return;
+
+    setCancellingId(engagement.id);
+    setCancelError(null);
+    try {
+      await createBookingsService().cancelEngagement(engagement.id);
+      setEngagements(prev => prev.filter(existing => existing.id !== engagement.id));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to cancel booking.';
+      setCancelError({ engagementId: engagement.id, message });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const needsResponse = groups[0].items.length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="border-b border-gray-200 pb-4">
+        <h1 className="text-3xl font-bold text-gray-900">Bookings</h1>
+        <p className="text-gray-600 mt-1">Negotiate direct booking offers, keep track of confirmed dates and spot clashes</p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => setActiveTab('requests')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            activeTab === 'requests'
+              ? 'bg-[#7823E1] text-white'
+              : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          Requests{needsResponse > 0 ? ` (${needsResponse})` : ''}
+        </button>
+        <button
+          onClick={() => setActiveTab('calendar')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            activeTab === 'calendar'
+              ? 'bg-[#7823E1] text-white'
+              : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          Calendar ({engagements.length})
+        </button>
+        <button
+          onClick={() => setActiveTab('schedule')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            activeTab === 'schedule'
+              ? 'bg-[#7823E1] text-white'
+              : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          Schedule
+        </button>
+      </div>
+
+      {/* Gigs, rehearsals, bookings and blackouts together, with anything that clashes */}
+      {activeTab === 'schedule' ? (
+        <ScheduleView userId={userId} />
+      ) : loading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <div key={index} className="bg-white rounded-lg shadow p-6 animate-pulse">
+              <div className="h-5 bg-gray-200 rounded w-1/3 mb-3" />
+              <div className="h-4 bg-gray-200 rounded w-1/2" />
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-red-800 mb-2">Error Loading Bookings</h3>
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={fetchBookings}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      ) : activeTab === 'requests' ? (
+        requests.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No booking requests yet</h3>
+              <p className="text-gray-600">
+                Find a musician who is available for hire in your{' '}
+                <Link href="/network" className="text-[#7823E1] hover:underline">network</Link>{' '}
+                and send them a request from their profile.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {groups.filter(group => group.items.length > 0).map(group => (
+              <section key={group.title} className="space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900">{group.title}</h2>
+                {group.items.map(request => (
+                  <BookingRequestCard
+                    key={request.id}
+                    request={request}
+                    side={bookingSideFor(request, userId)}
+                    onRespond={handleRespond}
+                  />
+                ))}
+              </section>
+            ))}
+          </div>
+        )
+      ) : (
+        <div className="space-y-8">
+          <CalendarFeedPanel />
+          {engagements.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing booked yet</h3>
+                <p className="text-gray-600">Accepted booking requests show up here as confirmed dates.</p>
+              </div>
+            </div>
+          ) : (
+            engagementsByMonth.map(([month, items]) => (
+              <section key={month} className="space-y-3">
+                <h2 className="text-lg font-semibold text-gray-900">{month}</h2>
+                <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+                  {items.map(engagement => {
+                    const isMusician = engagement.musician_user_id === userId;
+                    const withName = isMusician
+                      ? engagement.organization?.name || engagement.organizer?.full_name
+                      : engagement.musician?.full_name;
+                    const where = formatBookingWhere(engagement);
+
+                    return (
+                      <li key={engagement.id} className="p-4">
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <p className="font-medium text-gray-900">{engagement.title}</p>
+                            <p className="text-sm text-gray-600">{formatBookingWhen(engagement)}</p>
+                            {where && <p className="text-sm text-gray-500">{where}</p>}
+                            <div className="mt-1">
+                              <AddToCalendarButton
+                                events={[engagementCalendarEvent(engagement, window.location.origin, withName)]}
+                                filename={engagement.title}
+                              />
+                            </div>
+                          </div>
+                          <div className="text-right text-sm">
+                            <p className="text-gray-900">{formatBookingFee(engagement)}</p>
+                            {withName && (
+                              <p className="text-gray-500">{isMusician ? 'for ' : 'with '}{withName}</p>
+                            )}
+                            <button
+                              onClick={() => handleCancelEngagement(engagement)}
+                              disabled={cancellingId === engagement.id}
+                              className="mt-1 text-gray-600 hover:underline disabled:opacity-50"
+                              type="button"
+                            >
+                              {cancellingId === engagement.id ? 'Cancelling...' : 'Cancel booking'}
+                            </button>
+                          </div>
+                        </div>
+                        {cancelError?.engagementId === engagement.id && (
+                          <p className="mt-2 text-sm text-red-600">{cancelError.message}</p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
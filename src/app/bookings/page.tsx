@@ -0,0 +1,16 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import BookingsPageClient from './BookingsPageClient';
+
+export default async function BookingsPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  return <BookingsPageClient userId={user.id} />;
+}
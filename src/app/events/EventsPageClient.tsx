@@ -1,71 +1,130 @@
 "use client";
 
-import { useState, useCallback, useEffect } from 'react';
-import CreateEventModal from '@/components/events/CreateEventModal';
-import { createClientPerformancesService, deleteCurrentUserPastPerformance } from '@/services/client/performances';
-import { ConfirmDialog } from '@/components/profile/ConfirmDialog';
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { CreateEventModal, EventCard, EVENT_GENRES, EVENT_TYPE_LABELS } from '@/components/events';
+import type { GigSearchOrigin } from '@/components/gigs/GigFilters';
+import { getEvents, getMyEvents, type EventFilters } from '@/services/client/events';
+import { createNotificationsService } from '@/services/client/notifications';
+import { getWeekendRange } from '@/lib/utils/date';
+import type { EventListing, EventType, EventWithDetails, UserNotification } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type EventsTab = 'upcoming' | 'weekend' | 'nearby' | 'hosting';
 
 interface EventsPageClientProps {
   userId: string;
+  searchOrigin?: GigSearchOrigin | null;
 }
 
-export default function EventsPageClient({ userId }: EventsPageClientProps) {
-  const [showCreateModal, setShowCreateModal] = useState(false);
-  const [events, setEvents] = useState<Array<{
-    id: string;
-    user_id: string;
-    title: string;
-    venue: string | null;
-    performance_date: string | null;
-    genre: string | null;
-    description: string | null;
-  }>>([]);
+const TABS: { id: EventsTab; label: string }[] = [
+  { id: 'upcoming', label: 'Upcoming' },
+  { id: 'weekend', label: 'This Weekend' },
+  { id: 'nearby', label: 'Near Me' },
+  { id: 'hosting', label: 'Hosting' }
+];
+
+const RADIUS_OPTIONS = [10, 25, 50, 100, 250];
+
+const selectClassName = 'px-4 py-2 rounded-full text-sm font-medium border-2 border-[#7823E1] bg-[#E8DFFF] text-[#7823E1] focus:outline-none focus:ring-2 focus:ring-[#7823E1]';
+
+export default function EventsPageClient({ searchOrigin = null }: EventsPageClientProps) {
+  const router = useRouter();
+  const [activeTab, setActiveTab] = useState<EventsTab>('upcoming');
+  const [genre, setGenre] = useState('');
+  const [eventType, setEventType] = useState<EventType | ''>('');
+  const [freeOnly, setFreeOnly] = useState(false);
+  const [radiusKm, setRadiusKm] = useState<number>(searchOrigin?.travelDistanceKm || 50);
+  const [origin, setOrigin] = useState<{ latitude: number; longitude: number } | null>(
+    searchOrigin ? { latitude: searchOrigin.latitude, longitude: searchOrigin.longitude } : null
+  );
+  const [events, setEvents] = useState<EventWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [reminders, setReminders] = useState<UserNotification[]>([]);
 
-  const handleOpenModal = useCallback(() => setShowCreateModal(true), []);
-  const handleCloseModal = useCallback(() => setShowCreateModal(false), []);
-  const handleCreated = useCallback(() => {
-    // For now we just close and rely on future data integration for Events
-    // The UI remains as designed while enabling posting via the existing modal
+  // Day-before reminders for events the user RSVPed to, written by the event-reminders job
+  useEffect(() => {
+    createNotificationsService()
+      .getNotifications({ type: 'event_reminder', unreadOnly: true, limit: 5 })
+      .then(setReminders);
   }, []);
 
+  const dismissReminder = async (notificationId: string) => {
+    setReminders(prev => prev.filter(reminder => reminder.id !== notificationId));
+    await createNotificationsService().markRead(notificationId);
+  };
+
+  // Without a profile location, Near Me falls back to the browser's position
   useEffect(() => {
-    const fetchEvents = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        const service = createClientPerformancesService();
-        const recent = await service.getRecentPerformances({ limit: 9 });
-        setEvents((recent || []) as any);
-      } catch (e) {
-        setError('Failed to load events');
-      } finally {
+    if (activeTab !== 'nearby' || origin) return;
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setError('Add a location to your profile to find events near you.');
+      setLoading(false);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => setOrigin({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => {
+        setError('Add a location to your profile or allow location access to find events near you.');
         setLoading(false);
       }
-    };
-    fetchEvents();
-  }, []);
+    );
+  }, [activeTab, origin]);
+
+  const fetchEvents = useCallback(async () => {
+    if (activeTab === 'nearby' && !origin) return;
 
-  const handleConfirmDelete = async () => {
-    if (!confirmDeleteId) return;
     try {
-      setIsDeleting(true);
-      const ok = await deleteCurrentUserPastPerformance(confirmDeleteId);
-      if (ok) {
-        setEvents(prev => prev.filter(e => e.id !== confirmDeleteId));
-        setConfirmDeleteId(null);
-      } else {
-        setError('Failed to delete event');
+      setLoading(true);
+      setError(null);
+
+      if (activeTab === 'hosting') {
+        setEvents(await getMyEvents());
+        return;
+      }
+
+      const filters: EventFilters = {
+        genre: genre || undefined,
+        eventType: eventType || undefined,
+        freeOnly
+      };
+      if (activeTab === 'weekend') {
+        const { start, end } = getWeekendRange();
+        filters.from = start.toISOString();
+        filters.to = end.toISOString();
+      }
+      if (activeTab === 'nearby' && origin) {
+        filters.nearLatitude = origin.latitude;
+        filters.nearLongitude = origin.longitude;
+        filters.radiusKm = radiusKm;
       }
-    } catch (e) {
-      setError(e instanceof Error ? e.message : 'Failed to delete event');
+
+      setEvents(await getEvents(filters, 60, 0));
+    } catch (err) {
+      logError('Error fetching events', err);
+      setError('Failed to load events. Please try again.');
     } finally {
-      setIsDeleting(false);
+      setLoading(false);
     }
-  };
+  }, [activeTab, genre, eventType, freeOnly, origin, radiusKm]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleCreated = useCallback((event: EventListing) => {
+    router.push(`/events/${event.id}`);
+  }, [router]);
+
+  const emptyMessage = {
+    upcoming: 'No upcoming events match your filters.',
+    weekend: 'Nothing on this weekend yet.',
+    nearby: `No events within ${radiusKm} km of you.`,
+    hosting: "You haven't posted any events yet."
+  }[activeTab];
 
   return (
     <div className="space-y-6">
@@ -76,7 +135,7 @@ export default function EventsPageClient({ userId }: EventsPageClientProps) {
           <p className="text-gray-600 mt-1">Discover performances and musical events near you</p>
         </div>
         <button
-          onClick={handleOpenModal}
+          onClick={() => setShowCreateModal(true)}
           className="px-6 py-3 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors"
           style={{ backgroundColor: '#7823E1' }}
           type="button"
@@ -85,109 +144,98 @@ export default function EventsPageClient({ userId }: EventsPageClientProps) {
         </button>
       </div>
 
-      {/* Filter Section */}
-      <div className="bg-white rounded-lg shadow p-6">
-        <div className="flex flex-wrap gap-3 items-center">
-          {/* Performance Type Filter */}
-          <select
-            className="px-4 py-2 rounded-full text-sm font-medium border-2 transition-colors focus:outline-none focus:ring-2"
-            style={{ backgroundColor: '#E8DFFF', color: '#7823E1', borderColor: '#7823E1', ['--tw-ring-color' as any]: '#7823E1' }}
-          >
-            <option className="text-gray-700">Performance Type</option>
-            <option className="text-gray-700">Concert</option>
-            <option className="text-gray-700">Recital</option>
-            <option className="text-gray-700">Opera</option>
-            <option className="text-gray-700">Musical Theater</option>
-            <option className="text-gray-700">Jazz Performance</option>
-            <option className="text-gray-700">Chamber Music</option>
-            <option className="text-gray-700">Orchestra</option>
-            <option className="text-gray-700">Solo Performance</option>
-            <option className="text-gray-700">Open Mic</option>
-            <option className="text-gray-700">Festival</option>
-          </select>
+      {reminders.length > 0 && (
+        <div className="space-y-2">
+          {reminders.map(reminder => (
+            <div key={reminder.id} className="flex items-center justify-between gap-4 bg-[#E8DFFF] border border-[#7823E1] rounded-lg p-4">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-[#7823E1]">{reminder.title}</p>
+                {reminder.body && <p className="text-sm text-gray-700">{reminder.body}</p>}
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                {reminder.link && (
+                  <Link
+                    href={reminder.link}
+                    onClick={() => dismissReminder(reminder.id)}
+                    className="text-sm font-medium text-[#7823E1] hover:underline"
+                  >
+                    View event
+                  </Link>
+                )}
+                <button
+                  type="button"
+                  onClick={() => dismissReminder(reminder.id)}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
 
-          {/* Genre Filter */}
-          <select
-            className="px-4 py-2 rounded-full text-sm font-medium border-2 transition-colors focus:outline-none focus:ring-2"
-            style={{ backgroundColor: '#E8DFFF', color: '#7823E1', borderColor: '#7823E1', ['--tw-ring-color' as any]: '#7823E1' }}
+      {/* Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {TABS.map(tab => (
+          <button
+            key={tab.id}
+            type="button"
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              activeTab === tab.id
+                ? 'bg-[#7823E1] text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
           >
-            <option className="text-gray-700">Genre</option>
-            <option className="text-gray-700">Classical</option>
-            <option className="text-gray-700">Jazz</option>
-            <option className="text-gray-700">Blues</option>
-            <option className="text-gray-700">Folk</option>
-            <option className="text-gray-700">Rock</option>
-            <option className="text-gray-700">Pop</option>
-            <option className="text-gray-700">Country</option>
-            <option className="text-gray-700">Electronic</option>
-            <option className="text-gray-700">World Music</option>
-            <option className="text-gray-700">Contemporary</option>
-          </select>
+            {tab.label}
+          </button>
+        ))}
+      </div>
 
-          {/* Date Filter */}
-          <select
-            className="px-4 py-2 rounded-full text-sm font-medium border-2 transition-colors focus:outline-none focus:ring-2"
-            style={{ backgroundColor: '#E8DFFF', color: '#7823E1', borderColor: '#7823E1', ['--tw-ring-color' as any]: '#7823E1' }}
-          >
-            <option className="text-gray-700">Date</option>
-            <option className="text-gray-700">Today</option>
-            <option className="text-gray-700">This Week</option>
-            <option className="text-gray-700">This Weekend</option>
-            <option className="text-gray-700">Next Week</option>
-            <option className="text-gray-700">This Month</option>
-            <option className="text-gray-700">Next Month</option>
-            <option className="text-gray-700">Custom Date Range</option>
-          </select>
+      {/* Filter Section */}
+      {activeTab !== 'hosting' && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex flex-wrap gap-3 items-center">
+            <select value={eventType} onChange={(e) => setEventType(e.target.value as EventType | '')} className={selectClassName}>
+              <option value="" className="text-gray-700">Any performance type</option>
+              {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map(type => (
+                <option key={type} value={type} className="text-gray-700">{EVENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
 
-          {/* Location Filter */}
-          <select
-            className="px-4 py-2 rounded-full text-sm font-medium border-2 transition-colors focus:outline-none focus:ring-2"
-            style={{ backgroundColor: '#E8DFFF', color: '#7823E1', borderColor: '#7823E1', ['--tw-ring-color' as any]: '#7823E1' }}
-          >
-            <option className="text-gray-700">Location</option>
-            <option className="text-gray-700">Within 5 miles</option>
-            <option className="text-gray-700">Within 10 miles</option>
-            <option className="text-gray-700">Within 25 miles</option>
-            <option className="text-gray-700">Columbia, SC</option>
-            <option className="text-gray-700">Charleston, SC</option>
-            <option className="text-gray-700">Greenville, SC</option>
-            <option className="text-gray-700">Charlotte, NC</option>
-            <option className="text-gray-700">Atlanta, GA</option>
-            <option className="text-gray-700">Virtual/Online</option>
-          </select>
+            <select value={genre} onChange={(e) => setGenre(e.target.value)} className={selectClassName}>
+              <option value="" className="text-gray-700">Any genre</option>
+              {EVENT_GENRES.map(g => (
+                <option key={g} value={g} className="text-gray-700">{g}</option>
+              ))}
+            </select>
 
-          {/* Venue Type Filter */}
-          <select
-            className="px-4 py-2 rounded-full text-sm font-medium border-2 transition-colors focus:outline-none focus:ring-2"
-            style={{ backgroundColor: '#E8DFFF', color: '#7823E1', borderColor: '#7823E1', ['--tw-ring-color' as any]: '#7823E1' }}
-          >
-            <option className="text-gray-700">Venue Type</option>
-            <option className="text-gray-700">Concert Hall</option>
-            <option className="text-gray-700">Theater</option>
-            <option className="text-gray-700">Club/Bar</option>
-            <option className="text-gray-700">Church</option>
-            <option className="text-gray-700">University</option>
-            <option className="text-gray-700">Museum</option>
-            <option className="text-gray-700">Outdoor Venue</option>
-            <option className="text-gray-700">Private Venue</option>
-            <option className="text-gray-700">Community Center</option>
-          </select>
+            {activeTab === 'nearby' && (
+              <select value={radiusKm} onChange={(e) => setRadiusKm(Number(e.target.value))} className={selectClassName}>
+                {searchOrigin?.travelDistanceKm && !RADIUS_OPTIONS.includes(searchOrigin.travelDistanceKm) && (
+                  <option value={searchOrigin.travelDistanceKm} className="text-gray-700">
+                    Within my travel distance ({searchOrigin.travelDistanceKm} km)
+                  </option>
+                )}
+                {RADIUS_OPTIONS.map(radius => (
+                  <option key={radius} value={radius} className="text-gray-700">Within {radius} km</option>
+                ))}
+              </select>
+            )}
 
-          {/* Price Filter */}
-          <select
-            className="px-4 py-2 rounded-full text-sm font-medium border-2 transition-colors focus:outline-none focus:ring-2"
-            style={{ backgroundColor: '#E8DFFF', color: '#7823E1', borderColor: '#7823E1', ['--tw-ring-color' as any]: '#7823E1' }}
-          >
-            <option className="text-gray-700">Price</option>
-            <option className="text-gray-700">Free</option>
-            <option className="text-gray-700">Under $10</option>
-            <option className="text-gray-700">$10 - $25</option>
-            <option className="text-gray-700">$25 - $50</option>
-            <option className="text-gray-700">$50 - $100</option>
-            <option className="text-gray-700">Over $100</option>
-          </select>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={freeOnly}
+                onChange={(e) => setFreeOnly(e.target.checked)}
+                className="rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+              />
+              Free only
+            </label>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Events Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -198,91 +246,19 @@ export default function EventsPageClient({ userId }: EventsPageClientProps) {
           <div className="col-span-full text-center text-red-600">{error}</div>
         )}
         {!loading && !error && events.length === 0 && (
-          <div className="col-span-full text-center text-gray-600">No events yet.</div>
+          <div className="col-span-full text-center text-gray-600">{emptyMessage}</div>
         )}
-        {!loading && !error && events.map((ev) => (
-          <div key={ev.id} className="bg-white rounded-lg shadow-md border-2 border-[#7823E1] overflow-hidden">
-            <div className="h-48 bg-gradient-to-br from-blue-100 to-blue-200 flex items-center justify-center">
-              <div className="text-center">
-                <div className="w-16 h-16 bg-blue-500 rounded-full flex items-center justify-center mx-auto mb-2">
-                  <svg className="w-8 h-8 text-white" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM15.657 6.343a1 1 0 011.414 0A9.972 9.972 0 0119 12a9.972 9.972 0 01-1.929 5.657 1 1 0 11-1.414-1.414A7.971 7.971 0 0017 12a7.971 7.971 0 00-1.343-4.243 1 1 0 010-1.414z" clipRule="evenodd" />
-                    <path fillRule="evenodd" d="M13.243 8.757a1 1 0 011.414 0A5.978 5.978 0 0116 12a5.978 5.978 0 01-1.343 3.243 1 1 0 11-1.414-1.414A3.982 3.982 0 0014 12a3.982 3.982 0 00-.757-2.243 1 1 0 010-1.414z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <span className="text-sm font-medium text-blue-700">{ev.genre || 'Performance'}</span>
-              </div>
-            </div>
-            <div className="p-6">
-              <div className="flex items-start justify-between mb-3">
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900">{ev.title}</h3>
-                  <p className="text-sm text-gray-600">{ev.venue || 'Venue TBA'}</p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium text-green-600">{ev.performance_date ? new Date(ev.performance_date).toLocaleDateString() : ''}</span>
-                  {ev.user_id === userId && (
-                    <button
-                      type="button"
-                      onClick={() => setConfirmDeleteId(ev.id)}
-                      className="p-1.5 rounded hover:bg-red-50"
-                      title="Delete event"
-                    >
-                      <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6M9 7V5a2 2 0 012-2h2a2 2 0 012 2v2m-9 0h10" />
-                      </svg>
-                    </button>
-                  )}
-                </div>
-              </div>
-              <div className="space-y-2 mb-4">
-                <div className="flex items-center text-sm text-gray-600">
-                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                  </svg>
-                  {ev.performance_date ? new Date(ev.performance_date).toLocaleDateString() : ''}
-                </div>
-                <div className="flex items-center text-sm text-gray-600">
-                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                  </svg>
-                  {ev.venue || 'Location TBA'}
-                </div>
-              </div>
-              <p className="text-sm text-gray-700 mb-4 line-clamp-3">{ev.description || ''}</p>
-              <div className="flex items-center justify-between">
-                <span className="text-xs text-gray-500">&nbsp;</span>
-                <button className="px-4 py-2 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors" style={{ backgroundColor: '#7823E1' }}>
-                  Learn More
-                </button>
-              </div>
-            </div>
-          </div>
+        {!loading && !error && events.map(event => (
+          <EventCard key={event.id} event={event} />
         ))}
       </div>
 
       {/* Create Event Modal */}
       <CreateEventModal
         isOpen={showCreateModal}
-        onClose={handleCloseModal}
+        onClose={() => setShowCreateModal(false)}
         onSuccess={handleCreated}
       />
-
-      {/* Delete confirmation */}
-      <ConfirmDialog
-        isOpen={!!confirmDeleteId}
-        onClose={() => setConfirmDeleteId(null)}
-        onConfirm={handleConfirmDelete}
-        title="Delete event?"
-        message="This action cannot be undone. This will permanently delete the event."
-        confirmText="Delete"
-        cancelText="Cancel"
-        variant="danger"
-        isLoading={isDeleting}
-      />
     </div>
   );
 }
-
-
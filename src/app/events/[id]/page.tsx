@@ -0,0 +1,143 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { callRpc } from '@/lib/supabase/rpc';
+import { createServerEventsService } from '@/services/events';
+import { EventAttendeesPanel, EventDetail, EventManagePanel, EventRsvpPanel, formatEventWhen, formatEventWhere } from '@/components/events';
+import type { EventHostSummary } from '@/components/events/EventDetail';
+import type { EventRsvp } from '@/types/database';
+
+interface Params {
+  params: { id: string };
+}
+
+// Shared between generateMetadata and the page so the event is only fetched once per request
+const loadEvent = cache(async (eventId: string) => {
+  const service = await createServerEventsService();
+  return service.getEventById(eventId);
+});
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const event = await loadEvent(params.id);
+
+  if (!event) {
+    return {
+      title: 'Event not found | Bookd',
+      robots: { index: false, follow: false },
+    };
+  }
+
+  const summary = [formatEventWhen(event), formatEventWhere(event)].filter(Boolean).join(' · ');
+  const description = (event.description ? `${summary} · ${event.description}` : summary).slice(0, 200);
+  const title = `${event.title} | Bookd Events`;
+
+  return {
+    title,
+    description,
+    // Cancelled events stay reachable for ticket holders but shouldn't be indexed
+    robots: event.status === 'cancelled' ? { index: false, follow: false } : undefined,
+    openGraph: {
+      title: event.title,
+      description,
+      type: 'website',
+      siteName: 'Bookd',
+      url: `/events/${event.id}`,
+      images: event.image_url ? [{ url: event.image_url, alt: event.title }] : undefined,
+    },
+    twitter: {
+      card: event.image_url ? 'summary_large_image' : 'summary',
+      title: event.title,
+      description,
+    },
+  };
+}
+
+export default async function EventDetailPage({ params }: Params) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const event = await loadEvent(params.id);
+
+  if (!event) {
+    notFound();
+  }
+
+  let canManage = false;
+  if (user) {
+    const { data } = await callRpc(supabase, 'can_manage_event', {
+      p_event_id: event.id,
+      p_user_id: user.id
+    });
+    canManage = !!data;
+  }
+
+  let rsvp: EventRsvp | null = null;
+  if (user && !canManage) {
+    const { data } = await supabase
+      .from('event_rsvps')
+      .select('*')
+      .eq('event_id', event.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    rsvp = data as EventRsvp | null;
+  }
+
+  // Organizers track RSVPs against the event's capacity, falling back to the linked venue's
+  let capacity = event.capacity;
+  if (canManage && capacity == null && event.venue_organization_id) {
+    const { data } = await supabase
+      .from('organization_profiles')
+      .select('capacity')
+      .eq('id', event.venue_organization_id)
+      .maybeSingle();
+    capacity = data?.capacity ?? null;
+  }
+
+  // Events hosted by an organization credit it; otherwise the musician who posted it
+  let host: EventHostSummary | null = null;
+  if (event.organization) {
+    host = { name: event.organization.name, avatarUrl: event.organization.logo_url, profileUrl: null };
+  } else if (user) {
+    const { data } = await supabase
+      .from('users')
+      .select('full_name, avatar_url')
+      .eq('id', event.created_by_user_id)
+      .maybeSingle();
+    if (data) {
+      host = {
+        name: data.full_name || 'Bookd musician',
+        avatarUrl: data.avatar_url,
+        profileUrl: `/profile/${event.created_by_user_id}`,
+      };
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {event.status === 'cancelled' && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">This event has been cancelled.</p>
+          {event.cancellation_reason && (
+            <p className="text-red-700 text-sm mt-1">Reason: {event.cancellation_reason}</p>
+          )}
+        </div>
+      )}
+
+      <EventDetail
+        event={event}
+        host={host}
+        sidebar={canManage ? (
+          <>
+            <EventManagePanel event={event} />
+            <EventAttendeesPanel event={event} capacity={capacity} />
+          </>
+        ) : (
+          <EventRsvpPanel event={event} currentUserId={user?.id ?? null} initialRsvp={rsvp} />
+        )}
+      />
+    </div>
+  );
+}
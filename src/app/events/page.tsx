@@ -13,7 +13,18 @@ export default async function EventsPage() {
     redirect('/');
   }
 
-  return <EventsPageClient userId={user.id} />;
+  // The musician's geocoded location powers the "Near Me" tab
+  const { data: profile } = await supabase
+    .from('individual_profiles')
+    .select('latitude, longitude, travel_distance_km')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  const searchOrigin = profile?.latitude != null && profile?.longitude != null
+    ? { latitude: profile.latitude, longitude: profile.longitude, travelDistanceKm: profile.travel_distance_km }
+    : null;
+
+  return <EventsPageClient userId={user.id} searchOrigin={searchOrigin} />;
 }
 
 
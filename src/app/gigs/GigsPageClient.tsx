@@ -1,19 +1,36 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { GigCard, GigFilters, GigLoadingSkeleton, CreateGigModal } from '@/components/gigs';
-import { getGigs, type GigWithAuthor, type GigFilters as GigFiltersType } from '@/services/client/gigs';
+import Link from 'next/link';
+import { GigCard, GigFilters, GigLoadingSkeleton, CreateGigModal, RecommendedGigs, SaveSearchModal, SavedSearchesBar } from '@/components/gigs';
+import type { GigSearchOrigin } from '@/components/gigs/GigFilters';
+import { getGigs, getMyAppliedGigIds, type GigWithAuthor, type GigFilters as GigFiltersType } from '@/services/client/gigs';
+import {
+  SAVED_SEARCH_MATCHES_SEEN_EVENT,
+  createSavedSearch,
+  createSavedSearchesService,
+  deleteSavedSearch,
+  markSearchViewed,
+  updateSavedSearch
+} from '@/services/client/saved_searches';
+import type { SavedSearchWithUnread } from '@/types/database';
+import { logError } from '@/lib/utils/log';
 
 interface GigsPageClientProps {
   userId: string;
+  searchOrigin?: GigSearchOrigin | null;
 }
 
-export function GigsPageClient({ userId }: GigsPageClientProps) {
+export function GigsPageClient({ userId, searchOrigin = null }: GigsPageClientProps) {
   const [gigs, setGigs] = useState<GigWithAuthor[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<GigFiltersType>({});
+  const [appliedGigIds, setAppliedGigIds] = useState<Set<string>>(new Set());
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearchWithUnread[]>([]);
+  const [activeSearchId, setActiveSearchId] = useState<string | null>(null);
+  const [showSaveSearchModal, setShowSaveSearchModal] = useState(false);
   // Removed test modal
 
   // Debug the modal state
@@ -44,11 +61,78 @@ export function GigsPageClient({ userId }: GigsPageClientProps) {
     fetchGigs(filters);
   }, [filters]);
 
+  // Loaded once for every card rather than per gig
+  useEffect(() => {
+    getMyAppliedGigIds().then(ids => setAppliedGigIds(new Set(ids)));
+  }, []);
+
+  const fetchSavedSearches = async () => {
+    try {
+      const service = createSavedSearchesService();
+      await service.refreshMatches();
+      setSavedSearches(await service.getSavedSearches());
+    } catch (err) {
+      logError('Error fetching saved searches', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, []);
+
   const handleFiltersChange = (newFilters: GigFiltersType) => {
     setFilters(newFilters);
+    setActiveSearchId(null);
+  };
+
+  const hasActiveFilters = Object.keys(filters).some(key => filters[key as keyof GigFiltersType]);
+
+  const handleSelectSavedSearch = async (search: SavedSearchWithUnread) => {
+    setFilters(search.filters as GigFiltersType);
+    setActiveSearchId(search.id);
+
+    if (search.unread_count > 0) {
+      setSavedSearches(prev => prev.map(s => s.id === search.id ? { ...s, unread_count: 0 } : s));
+      await markSearchViewed(search.id);
+      window.dispatchEvent(new Event(SAVED_SEARCH_MATCHES_SEEN_EVENT));
+    }
+  };
+
+  const handleSaveSearch = async (name: string, emailDigest: boolean) => {
+    const saved = await createSavedSearch(name, filters, emailDigest);
+    setSavedSearches(prev => [{ ...saved, unread_count: 0 }, ...prev]);
+    setActiveSearchId(saved.id);
+  };
+
+  const handleToggleDigest = async (search: SavedSearchWithUnread) => {
+    try {
+      const updated = await updateSavedSearch(search.id, { email_digest: !search.email_digest });
+      if (updated) {
+        setSavedSearches(prev => prev.map(s => s.id === search.id ? { ...s, ...updated } : s));
+      }
+    } catch (err) {
+      logError('Error updating saved search', err);
+    }
+  };
+
+  const handleDeleteSavedSearch = async (search: SavedSearchWithUnread) => {
+    if (!window.confirm(`Delete saved search "${search.name}"?`)) return;
+    try {
+      await deleteSavedSearch(search.id);
+      setSavedSearches(prev => prev.filter(s => s.id !== search.id));
+      if (activeSearchId === search.id) {
+        setActiveSearchId(null);
+      }
+      if (search.unread_count > 0) {
+        window.dispatchEvent(new Event(SAVED_SEARCH_MATCHES_SEEN_EVENT));
+      }
+    } catch (err) {
+      logError('Error deleting saved search', err);
+    }
   };
 
   const handleGigApply = (gigId: string) => {
+    setAppliedGigIds(prev => new Set(prev).add(gigId));
     // TODO: Show success notification
     console.log('Applied to gig:', gigId);
   };
@@ -112,6 +196,12 @@ export function GigsPageClient({ userId }: GigsPageClientProps) {
           <p className="text-gray-600 mt-1">Find and post music gig opportunities</p>
         </div>
         <div className="flex space-x-2">
+          <Link
+            href="/gigs/mine"
+            className="px-6 py-3 border border-[#7823E1] text-[#7823E1] rounded-lg text-sm font-medium hover:bg-[#E8DFFF] transition-colors"
+          >
+            My Gigs
+          </Link>
           <button 
             onClick={(e) => {
               e.preventDefault();
@@ -131,10 +221,24 @@ export function GigsPageClient({ userId }: GigsPageClientProps) {
 
       {/* Debug Info removed */}
 
+      {/* Recommendations only make sense against the unfiltered list */}
+      {!hasActiveFilters && <RecommendedGigs userId={userId} limit={3} layout="grid" />}
+
       {/* Filters */}
       <GigFilters 
         filters={filters} 
         onFiltersChange={handleFiltersChange}
+        origin={searchOrigin}
+      />
+
+      <SavedSearchesBar
+        searches={savedSearches}
+        activeSearchId={activeSearchId}
+        canSave={hasActiveFilters && !activeSearchId}
+        onSelect={handleSelectSavedSearch}
+        onToggleDigest={handleToggleDigest}
+        onDelete={handleDeleteSavedSearch}
+        onSaveCurrent={() => setShowSaveSearchModal(true)}
       />
 
       {/* Gigs Grid */}
@@ -153,13 +257,13 @@ export function GigsPageClient({ userId }: GigsPageClientProps) {
               </svg>
               <h3 className="text-lg font-medium text-gray-900 mb-2">No Gigs Found</h3>
               <p className="text-gray-600 mb-4">
-                {Object.keys(filters).some(key => filters[key as keyof GigFiltersType]) 
+                {hasActiveFilters 
                   ? 'Try adjusting your filters to find more gigs.' 
                   : 'There are no gigs available at the moment.'}
               </p>
-              {Object.keys(filters).some(key => filters[key as keyof GigFiltersType]) && (
+              {hasActiveFilters && (
                 <button 
-                  onClick={() => setFilters({})}
+                  onClick={() => handleFiltersChange({})}
                   className="px-4 py-2 bg-[#7823E1] text-white rounded-lg hover:opacity-90 transition-colors"
                 >
                   Clear Filters
@@ -173,6 +277,8 @@ export function GigsPageClient({ userId }: GigsPageClientProps) {
             <GigCard 
               key={gig.id} 
               gig={gig} 
+              currentUserId={userId}
+              hasApplied={appliedGigIds.has(gig.id)}
               onApply={handleGigApply}
             />
           ))
@@ -190,6 +296,12 @@ export function GigsPageClient({ userId }: GigsPageClientProps) {
 
       {/* Test Modal removed */}
 
+      <SaveSearchModal
+        isOpen={showSaveSearchModal}
+        onClose={() => setShowSaveSearchModal(false)}
+        onSave={handleSaveSearch}
+      />
+
       {/* Create Gig Modal */}
       {(() => {
         console.log('Rendering CreateGigModal with isOpen:', showCreateModal);
@@ -0,0 +1,394 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ApplicantCard, MessageApplicantsModal } from '@/components/gigs';
+import { ConflictWarning } from '@/components/schedule';
+import {
+  addApplicationNote,
+  getApplicants,
+  messageApplicants,
+  updateApplicationStatus,
+  type ReviewStatus
+} from '@/services/client/gig_applications';
+import { checkScheduleConflicts } from '@/services/client/schedule';
+import { gigCommitments, type ScheduleConflict } from '@/lib/availability/conflicts';
+import type { Gig, GigApplicant, GigApplicationStatus } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+interface ApplicantsPageClientProps {
+  gig: Gig;
+}
+
+type StatusFilter = 'all' | GigApplicationStatus;
+
+const FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'submitted', label: 'New' },
+  { value: 'shortlisted', label: 'Shortlisted' },
+  { value: 'hired', label: 'Hired' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'withdrawn', label: 'Withdrawn' }
+];
+
+export default function ApplicantsPageClient({ gig }: ApplicantsPageClientProps) {
+  const [applications, setApplications] = useState<GigApplicant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [gigStatus, setGigStatus] = useState(gig.status);
+  const [pendingHireIds, setPendingHireIds] = useState<string[]>([]);
+  const [markGigFilled, setMarkGigFilled] = useState(true);
+  const [hireConflicts, setHireConflicts] = useState<{ id: string; name: string; conflicts: ScheduleConflict[] }[]>([]);
+  const [showMessageModal, setShowMessageModal] = useState(false);
+
+  const fetchApplicants = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await getApplicants(gig.id);
+      setApplications(data);
+    } catch (err) {
+      logError('Error fetching applicants', err);
+      setError('Failed to load applicants. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchApplicants();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gig.id]);
+
+  const filteredApplications = useMemo(
+    () => statusFilter === 'all'
+      ? applications
+      : applications.filter(application => application.status === statusFilter),
+    [applications, statusFilter]
+  );
+
+  const countFor = (filter: StatusFilter) => filter === 'all'
+    ? applications.length
+    : applications.filter(application => application.status === filter).length;
+
+  const toggleSelect = (applicationId: string) => {
+    setSelectedIds(prev => prev.includes(applicationId)
+      ? prev.filter(id => id !== applicationId)
+      : [...prev, applicationId]);
+  };
+
+  const selectableIds = filteredApplications
+    .filter(application => application.status !== 'withdrawn')
+    .map(application => application.id);
+  const allSelected = selectableIds.length > 0 && selectableIds.every(id => selectedIds.includes(id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : selectableIds);
+  };
+
+  const applyStatus = async (applicationIds: string[], status: ReviewStatus, fillGig: boolean = false) => {
+    setIsUpdating(true);
+    setActionError(null);
+    try {
+      const updated = await updateApplicationStatus(applicationIds, status, fillGig);
+      const updatedById = new Map(updated.map(application => [application.id, application]));
+      setApplications(prev => prev.map(application => {
+        const next = updatedById.get(application.id);
+        return next ? { ...application, ...next } : application;
+      }));
+      if (status === 'hired' && fillGig) {
+        setGigStatus('filled');
+      }
+      setSelectedIds([]);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to update applicants.';
+      setActionError(msg);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleStatusChange = (application: GigApplicant, status: ReviewStatus) => {
+    if (status === 'hired') {
+      setPendingHireIds([application.id]);
+      return;
+    }
+    applyStatus([application.id], status);
+  };
+
+  const handleBulkStatus = (status: ReviewStatus) => {
+    if (selectedIds.length === 0) return;
+    if (status === 'hired') {
+      setPendingHireIds(selectedIds);
+      return;
+    }
+    applyStatus(selectedIds, status);
+  };
+
+  // Check the people about to be hired for clashes with their schedules
+  useEffect(() => {
+    setHireConflicts([]);
+    if (pendingHireIds.length === 0) return;
+
+    let cancelled = false;
+    const candidates = gigCommitments(gig);
+    const pending = applications.filter(application => pendingHireIds.includes(application.id));
+
+    Promise.all(pending.map(async application => ({
+      id: application.id,
+      name: application.applicant?.individual_profile?.stage_name || application.applicant?.full_name || 'Unknown musician',
+      conflicts: await checkScheduleConflicts(application.applicant_user_id, candidates)
+    })))
+      .then(results => {
+        if (!cancelled) setHireConflicts(results.filter(result => result.conflicts.length > 0));
+      })
+      .catch(err => logError('Error checking schedule conflicts', err));
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingHireIds]);
+
+  const confirmHire = async () => {
+    const ids = pendingHireIds;
+    setPendingHireIds([]);
+    await applyStatus(ids, 'hired', markGigFilled && gigStatus !== 'filled');
+  };
+
+  const handleAddNote = async (applicationId: string, note: string) => {
+    setActionError(null);
+    try {
+      const saved = await addApplicationNote(applicationId, note);
+      if (!saved) return;
+      setApplications(prev => prev.map(application => application.id === applicationId
+        ? { ...application, notes: [saved, ...(application.notes || [])] }
+        : application));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to save note.';
+      setActionError(msg);
+    }
+  };
+
+  const handleSendMessage = async (body: string) => {
+    await messageApplicants(selectedIds, body);
+    setSelectedIds([]);
+    await fetchApplicants();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between border-b border-gray-200 pb-4">
+        <div>
+          <Link href="/gigs" className="text-sm text-gray-500 hover:text-gray-700">
+            &larr; Back to gigs
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-1">Applicants</h1>
+          <p className="text-gray-600 mt-1">
+            {gig.title}
+            <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700 capitalize">
+              {gigStatus}
+            </span>
+          </p>
+        </div>
+        <div className="text-right text-sm text-gray-600">
+          <p>{applications.filter(application => application.status !== 'withdrawn').length} active applications</p>
+          {gig.max_applications && <p>Limit: {gig.max_applications}</p>}
+        </div>
+      </div>
+
+      {/* Status filters */}
+      <div className="flex flex-wrap gap-2">
+        {FILTERS.map(filter => (
+          <button
+            key={filter.value}
+            onClick={() => {
+              setStatusFilter(filter.value);
+              setSelectedIds([]);
+            }}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              statusFilter === filter.value
+                ? 'bg-[#7823E1] text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {filter.label} ({countFor(filter.value)})
+          </button>
+        ))}
+      </div>
+
+      {/* Bulk actions */}
+      {filteredApplications.length > 0 && (
+        <div className="bg-white rounded-lg shadow px-6 py-3 flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleSelectAll}
+              className="h-4 w-4 rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+            />
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all'}
+          </label>
+          <div className="flex flex-wrap gap-2 ml-auto">
+            <button
+              onClick={() => handleBulkStatus('shortlisted')}
+              disabled={selectedIds.length === 0 || isUpdating}
+              className="px-3 py-1.5 text-sm font-medium border border-[#7823E1] text-[#7823E1] rounded-lg hover:bg-[#E8DFFF] transition-colors disabled:opacity-50"
+            >
+              Shortlist
+            </button>
+            <button
+              onClick={() => handleBulkStatus('rejected')}
+              disabled={selectedIds.length === 0 || isUpdating}
+              className="px-3 py-1.5 text-sm font-medium border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => handleBulkStatus('hired')}
+              disabled={selectedIds.length === 0 || isUpdating}
+              className="px-3 py-1.5 text-sm font-medium border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Hire
+            </button>
+            <button
+              onClick={() => setShowMessageModal(true)}
+              disabled={selectedIds.length === 0}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-[#7823E1] rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+            >
+              Message
+            </button>
+          </div>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-600">{actionError}</p>
+        </div>
+      )}
+
+      {/* Applicant list */}
+      {loading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <div key={index} className="bg-white rounded-lg shadow p-6 animate-pulse">
+              <div className="flex items-start gap-4">
+                <div className="w-12 h-12 bg-gray-200 rounded-full" />
+                <div className="flex-1 space-y-2">
+                  <div className="h-4 bg-gray-200 rounded w-1/3" />
+                  <div className="h-3 bg-gray-200 rounded w-1/2" />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-red-800 mb-2">Error Loading Applicants</h3>
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={fetchApplicants}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      ) : filteredApplications.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No applicants yet</h3>
+            <p className="text-gray-600">
+              {statusFilter === 'all'
+                ? 'Applications will show up here as musicians apply.'
+                : 'No applicants match this status.'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredApplications.map(application => (
+            <ApplicantCard
+              key={application.id}
+              application={application}
+              selected={selectedIds.includes(application.id)}
+              isUpdating={isUpdating}
+              onToggleSelect={toggleSelect}
+              onStatusChange={handleStatusChange}
+              onAddNote={handleAddNote}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Hire confirmation */}
+      {pendingHireIds.length > 0 && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                Hire {pendingHireIds.length === 1 ? 'this applicant' : `${pendingHireIds.length} applicants`}?
+              </h3>
+              <p className="text-sm text-gray-600 leading-relaxed">
+                Hired applicants can see their updated status on their application.
+              </p>
+              {hireConflicts.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {hireConflicts.map(({ id, name, conflicts }) => (
+                    <ConflictWarning
+                      key={id}
+                      conflicts={conflicts}
+                      title={pendingHireIds.length === 1 ? 'This applicant has a schedule conflict' : `${name} has a schedule conflict`}
+                    />
+                  ))}
+                  <p className="text-xs text-gray-500">You can still hire them.</p>
+                </div>
+              )}
+              {gigStatus !== 'filled' && (
+                <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={markGigFilled}
+                    onChange={(e) => setMarkGigFilled(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+                  />
+                  Mark this gig as filled and stop accepting applications
+                </label>
+              )}
+            </div>
+            <div className="bg-gray-50 px-6 py-4 flex justify-end gap-3 rounded-b-lg">
+              <button
+                type="button"
+                onClick={() => setPendingHireIds([])}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={confirmHire}
+                className="px-4 py-2 text-sm font-medium text-white bg-[#7823E1] rounded-md hover:opacity-90 transition-colors"
+              >
+                Hire
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <MessageApplicantsModal
+        isOpen={showMessageModal}
+        recipientCount={selectedIds.length}
+        onClose={() => setShowMessageModal(false)}
+        onSend={handleSendMessage}
+      />
+    </div>
+  );
+}
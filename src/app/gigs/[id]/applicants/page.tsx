@@ -0,0 +1,42 @@
+import { createClient } from '@/lib/supabase/server';
+import { callRpc } from '@/lib/supabase/rpc';
+import { notFound, redirect } from 'next/navigation';
+import type { Gig } from '@/types/database';
+import ApplicantsPageClient from './ApplicantsPageClient';
+
+interface Params {
+  params: { id: string };
+}
+
+export default async function GigApplicantsPage({ params }: Params) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  const { data: gig, error } = await supabase
+    .from('gigs')
+    .select('*')
+    .eq('id', params.id)
+    .single();
+
+  if (error || !gig) {
+    notFound();
+  }
+
+  // Only the poster or an admin of the posting organization can review applicants
+  const { data: canManage } = await callRpc(supabase, 'can_manage_gig', {
+    p_gig_id: params.id,
+    p_user_id: user.id
+  });
+
+  if (!canManage) {
+    redirect(`/gigs/${params.id}`);
+  }
+
+  return <ApplicantsPageClient gig={gig as Gig} />;
+}
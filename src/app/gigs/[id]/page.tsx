@@ -0,0 +1,182 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { callRpc } from '@/lib/supabase/rpc';
+import { createServerGigsService } from '@/services/gigs';
+import { GigApplyPanel, GigDetail, RecommendedMusicians } from '@/components/gigs';
+import { ReportButton } from '@/components/safety';
+import type { GigPosterSummary } from '@/components/gigs/GigDetail';
+import type { GigApplication, GigInvitation } from '@/types/database';
+
+interface Params {
+  params: { id: string };
+}
+
+// Shared between generateMetadata and the page so the gig is only fetched once per request
+const loadGig = cache(async (gigId: string) => {
+  const service = await createServerGigsService();
+  return service.getGigById(gigId);
+});
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const gig = await loadGig(params.id);
+
+  // Drafts and cancelled gigs should never be previewed or indexed
+  if (!gig || gig.status === 'draft' || gig.status === 'cancelled') {
+    return {
+      title: 'Gig not available | Bookd',
+      robots: { index: false, follow: false },
+    };
+  }
+
+  const location = gig.is_remote ? 'Remote' : [gig.city, gig.state_province].filter(Boolean).join(', ');
+  const summary = gig.excerpt || gig.description;
+  const description = `${location} · ${summary}`.slice(0, 200);
+  const title = `${gig.title} | Bookd Gigs`;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title: gig.title,
+      description,
+      type: 'website',
+      siteName: 'Bookd',
+      url: `/gigs/${gig.id}`,
+      images: gig.images && gig.images.length > 0 ? [{ url: gig.images[0], alt: gig.title }] : undefined,
+    },
+    twitter: {
+      card: gig.images && gig.images.length > 0 ? 'summary_large_image' : 'summary',
+      title: gig.title,
+      description,
+    },
+  };
+}
+
+export default async function GigDetailPage({ params }: Params) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const gig = await loadGig(params.id);
+
+  if (!gig) {
+    notFound();
+  }
+
+  let canManage = false;
+  if (user) {
+    const { data } = await callRpc(supabase, 'can_manage_gig', {
+      p_gig_id: gig.id,
+      p_user_id: user.id
+    });
+    canManage = !!data;
+  }
+
+  // RLS already hides drafts from everyone but the poster; double-check before rendering
+  if (gig.status === 'draft' && !canManage) {
+    notFound();
+  }
+
+  let application: GigApplication | null = null;
+  let invitation: GigInvitation | null = null;
+  if (user && !canManage) {
+    const { data } = await supabase
+      .from('gig_applications')
+      .select('*')
+      .eq('gig_id', gig.id)
+      .eq('applicant_user_id', user.id)
+      .maybeSingle();
+
+    application = data as GigApplication | null;
+
+    const { data: invitationData } = await supabase
+      .from('gig_invitations')
+      .select('*')
+      .eq('gig_id', gig.id)
+      .eq('invited_user_id', user.id)
+      .maybeSingle();
+    invitation = invitationData as GigInvitation | null;
+  }
+
+  // A few extra poster details for the sidebar (authenticated viewers only, per profile RLS)
+  let poster: GigPosterSummary | null = null;
+  if (user && gig.posted_by_organization_id) {
+    const { data } = await supabase
+      .from('organization_profiles')
+      .select('headliner, city, state_province')
+      .eq('id', gig.posted_by_organization_id)
+      .maybeSingle();
+    poster = {
+      headline: data?.headliner || null,
+      location: [data?.city, data?.state_province].filter(Boolean).join(', ') || null,
+      profileUrl: null,
+    };
+  } else if (user && gig.posted_by_user_id) {
+    const { data } = await supabase
+      .from('individual_profiles')
+      .select('headliner, location')
+      .eq('user_id', gig.posted_by_user_id)
+      .maybeSingle();
+    poster = {
+      headline: data?.headliner || null,
+      location: data?.location || null,
+      profileUrl: `/profile/${gig.posted_by_user_id}`,
+    };
+  }
+
+  return (
+    <div className="space-y-6">
+      {gig.status === 'draft' && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800 text-sm">
+            This gig is a draft. Only you and your team can see it until it is published.
+          </p>
+        </div>
+      )}
+      {gig.hidden_at && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">
+            Our moderators hid this gig because it breaks our community guidelines. Only you and your team can see it.
+          </p>
+        </div>
+      )}
+      {gig.status === 'cancelled' && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">
+            This gig has been cancelled and is no longer taking applications.
+          </p>
+          {gig.cancellation_reason && (
+            <p className="text-red-700 text-sm mt-1">Reason: {gig.cancellation_reason}</p>
+          )}
+        </div>
+      )}
+
+      <GigDetail
+        gig={gig}
+        poster={poster}
+        sidebar={
+          <GigApplyPanel
+            gig={gig}
+            currentUserId={user?.id ?? null}
+            canManage={canManage}
+            initialApplication={application}
+            initialInvitation={invitation}
+          />
+        }
+      />
+
+      {user && !canManage && (
+        <div className="flex justify-end">
+          <ReportButton targetType="gig" targetId={gig.id} label="Report this gig" />
+        </div>
+      )}
+
+      {canManage && (gig.status === 'open' || gig.status === 'draft') && (
+        <RecommendedMusicians gig={gig} />
+      )}
+    </div>
+  );
+}
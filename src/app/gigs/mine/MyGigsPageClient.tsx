@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { CancelGigModal, CreateGigModal, ManageGigCard } from '@/components/gigs';
+import { VenueLinkSuggestions } from '@/components/venues';
+import {
+  duplicateGig,
+  getMyGigs,
+  updateGigStatus,
+  type GigWithAuthor
+} from '@/services/client/gigs';
+import type { GigStatus } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type StatusFilter = 'all' | GigStatus;
+
+const FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'draft', label: 'Drafts' },
+  { value: 'open', label: 'Open' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'filled', label: 'Filled' },
+  { value: 'cancelled', label: 'Cancelled' }
+];
+
+export default function MyGigsPageClient() {
+  const [gigs, setGigs] = useState<GigWithAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [busyGigId, setBusyGigId] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingGig, setEditingGig] = useState<GigWithAuthor | null>(null);
+  const [cancellingGig, setCancellingGig] = useState<GigWithAuthor | null>(null);
+
+  const fetchGigs = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await getMyGigs();
+      setGigs(data);
+    } catch (err) {
+      logError('Error fetching my gigs', err);
+      setError('Failed to load your gigs. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchGigs();
+  }, []);
+
+  const filteredGigs = useMemo(
+    () => statusFilter === 'all' ? gigs : gigs.filter(gig => gig.status === statusFilter),
+    [gigs, statusFilter]
+  );
+
+  const replaceGig = (gigId: string, updates: Partial<GigWithAuthor>) => {
+    setGigs(prev => prev.map(gig => gig.id === gigId ? { ...gig, ...updates } : gig));
+  };
+
+  const handleStatusChange = async (gig: GigWithAuthor, status: GigStatus) => {
+    setBusyGigId(gig.id);
+    setActionError(null);
+    try {
+      const updated = await updateGigStatus(gig.id, status);
+      if (updated) {
+        replaceGig(gig.id, updated);
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to update gig.';
+      setActionError(msg);
+    } finally {
+      setBusyGigId(null);
+    }
+  };
+
+  const handleCancel = async (reason: string) => {
+    if (!cancellingGig) return;
+    const updated = await updateGigStatus(cancellingGig.id, 'cancelled', reason);
+    if (updated) {
+      replaceGig(cancellingGig.id, updated);
+    }
+  };
+
+  const handleDuplicate = async (gig: GigWithAuthor) => {
+    setBusyGigId(gig.id);
+    setActionError(null);
+    try {
+      await duplicateGig(gig.id);
+      setStatusFilter('all');
+      await fetchGigs();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to duplicate gig.';
+      setActionError(msg);
+    } finally {
+      setBusyGigId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between border-b border-gray-200 pb-4">
+        <div>
+          <Link href="/gigs" className="text-sm text-gray-500 hover:text-gray-700">
+            &larr; Back to gigs
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-1">My Gigs</h1>
+          <p className="text-gray-600 mt-1">Manage the gigs you and your organizations have posted</p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="px-6 py-3 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors"
+          style={{backgroundColor: '#7823E1'}}
+          type="button"
+        >
+          Post New Gig
+        </button>
+      </div>
+
+      {/* Status filters */}
+      <div className="flex flex-wrap gap-2">
+        {FILTERS.map(filter => (
+          <button
+            key={filter.value}
+            onClick={() => setStatusFilter(filter.value)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              statusFilter === filter.value
+                ? 'bg-[#7823E1] text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {filter.label} ({filter.value === 'all' ? gigs.length : gigs.filter(gig => gig.status === filter.value).length})
+          </button>
+        ))}
+      </div>
+
+      {!loading && (
+        <VenueLinkSuggestions
+          sourceType="gig"
+          sources={gigs.filter(gig => !gig.venue_organization_id).map(gig => ({ id: gig.id, label: gig.title }))}
+          onLinked={(gigId, venueOrganizationId) => replaceGig(gigId, { venue_organization_id: venueOrganizationId })}
+        />
+      )}
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-600">{actionError}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <div key={index} className="bg-white rounded-lg shadow p-6 animate-pulse">
+              <div className="h-5 bg-gray-200 rounded w-1/3 mb-3" />
+              <div className="h-4 bg-gray-200 rounded w-1/2" />
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-red-800 mb-2">Error Loading Gigs</h3>
+            <p className="text-red-600 mb-4">{error}</p>
+            <button
+              onClick={fetchGigs}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      ) : filteredGigs.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No gigs here</h3>
+            <p className="text-gray-600">
+              {statusFilter === 'all'
+                ? 'Gigs you post will show up here.'
+                : 'None of your gigs have this status.'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredGigs.map(gig => (
+            <ManageGigCard
+              key={gig.id}
+              gig={gig}
+              isBusy={busyGigId === gig.id}
+              onEdit={setEditingGig}
+              onStatusChange={handleStatusChange}
+              onCancel={setCancellingGig}
+              onDuplicate={handleDuplicate}
+            />
+          ))}
+        </div>
+      )}
+
+      <CreateGigModal
+        isOpen={showCreateModal || !!editingGig}
+        gig={editingGig}
+        onClose={() => {
+          setShowCreateModal(false);
+          setEditingGig(null);
+        }}
+        onSuccess={fetchGigs}
+      />
+
+      <CancelGigModal
+        isOpen={!!cancellingGig}
+        gigTitle={cancellingGig?.title || ''}
+        onClose={() => setCancellingGig(null)}
+        onConfirm={handleCancel}
+      />
+    </div>
+  );
+}
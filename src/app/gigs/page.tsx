@@ -13,5 +13,16 @@ export default async function GigsPage() {
     redirect('/');
   }
 
-  return <GigsPageClient userId={user.id} />;
+  // The musician's geocoded location powers the "within N km of me" filter
+  const { data: profile } = await supabase
+    .from('individual_profiles')
+    .select('latitude, longitude, travel_distance_km')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  const searchOrigin = profile?.latitude != null && profile?.longitude != null
+    ? { latitude: profile.latitude, longitude: profile.longitude, travelDistanceKm: profile.travel_distance_km }
+    : null;
+
+  return <GigsPageClient userId={user.id} searchOrigin={searchOrigin} />;
 }
\ No newline at end of file
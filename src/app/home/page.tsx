@@ -2,6 +2,7 @@ import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import { FeedDebug } from '@/components/feed/FeedDebug';
 import { FeedFallback } from '@/components/feed/FeedFallback';
+import { RecommendedGigs } from '@/components/gigs';
 import { getServerUserWithProfile } from '@/lib/auth/utils';
 
 export default async function HomePage() {
@@ -81,8 +82,10 @@ export default async function HomePage() {
           <FeedFallback currentUserId={userWithProfile.id} />
         </div>
 
-        {/* Right Sidebar - Events */}
-        <div className="lg:col-span-3">
+        {/* Right Sidebar - Recommended Gigs and Events */}
+        <div className="lg:col-span-3 space-y-6">
+          <RecommendedGigs userId={userWithProfile.id} />
+
           <div className="bg-white rounded-lg shadow">
             <div className="p-4 border-b border-gray-200">
               <h2 className="text-lg font-semibold text-gray-900">Nearby Events</h2>
@@ -0,0 +1,115 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ConversationListItem, NewGroupModal } from '@/components/messages';
+import { createMessagesService } from '@/services/client/messages';
+import type { ConversationSummary } from '@/types/database';
+
+const PAGE_SIZE = 30;
+
+interface MessagesPageClientProps {
+  userId: string;
+}
+
+export default function MessagesPageClient({ userId }: MessagesPageClientProps) {
+  const router = useRouter();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [showNewGroup, setShowNewGroup] = useState(false);
+
+  const load = useCallback(async () => {
+    const data = await createMessagesService().getConversations({ limit: PAGE_SIZE });
+    setConversations(data);
+    setHasMore(data.length === PAGE_SIZE);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+    // Re-sort and refresh unread counts whenever a message arrives in any thread
+    const unsubscribe = createMessagesService().subscribeToInbox(() => { load(); });
+    return unsubscribe;
+  }, [load]);
+
+  const loadMore = async () => {
+    const oldest = conversations[conversations.length - 1];
+    if (!oldest?.last_message_at) return;
+    setLoadingMore(true);
+    const data = await createMessagesService().getConversations({ limit: PAGE_SIZE, before: oldest.last_message_at });
+    setConversations(prev => [...prev, ...data]);
+    setHasMore(data.length === PAGE_SIZE);
+    setLoadingMore(false);
+  };
+
+  const handleCreateGroup = async (title: string, userIds: string[]) => {
+    const conversationId = await createMessagesService().createGroupConversation(title, userIds);
+    router.push(`/messages/${conversationId}`);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between border-b border-gray-200 pb-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Messages</h1>
+          <p className="text-gray-600 mt-1">Conversations with musicians and organizations</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowNewGroup(true)}
+          className="px-4 py-2 text-sm font-medium text-white bg-[#7823E1] rounded-lg hover:opacity-90"
+        >
+          New group
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <div key={index} className="p-4 flex items-center gap-3 animate-pulse">
+              <div className="w-11 h-11 rounded-full bg-gray-200" />
+              <div className="flex-1">
+                <div className="h-4 bg-gray-200 rounded w-1/3 mb-2" />
+                <div className="h-3 bg-gray-200 rounded w-2/3" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : conversations.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No conversations yet</h3>
+            <p className="text-gray-600">Use Connect on someone&apos;s card in Network or on their profile to start a conversation.</p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden divide-y divide-gray-100">
+          {conversations.map(conversation => (
+            <ConversationListItem key={conversation.id} conversation={conversation} currentUserId={userId} />
+          ))}
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 text-sm font-medium text-[#7823E1] border border-[#7823E1] rounded-lg hover:bg-[#E8DFFF] disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load older conversations'}
+          </button>
+        </div>
+      )}
+
+      <NewGroupModal
+        isOpen={showNewGroup}
+        onClose={() => setShowNewGroup(false)}
+        onCreate={handleCreateGroup}
+      />
+    </div>
+  );
+}
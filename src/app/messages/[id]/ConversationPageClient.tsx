@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  ApplicationContextHeader,
+  MessageBubble,
+  MessageComposer,
+  SystemMessage,
+  TypingIndicator,
+  getConversationTitle
+} from '@/components/messages';
+import { formatDate } from '@/lib/utils/date';
+import {
+  DEFAULT_APPLICATION_TEMPLATES,
+  createMessageTemplatesService,
+  type TemplateValues
+} from '@/services/client/message_templates';
+import {
+  MESSAGES_READ_EVENT,
+  TYPING_TIMEOUT_MS,
+  createMessagesService,
+  type ConversationSubscription
+} from '@/services/client/messages';
+import type { ConversationWithParticipants, Message, MessageAttachment, MessageTemplate } from '@/types/database';
+
+const PAGE_SIZE = 50;
+
+interface ConversationPageClientProps {
+  conversationId: string;
+  userId: string;
+}
+
+export default function ConversationPageClient({ conversationId, userId }: ConversationPageClientProps) {
+  const router = useRouter();
+  const [conversation, setConversation] = useState<ConversationWithParticipants | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [typingUntil, setTypingUntil] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(Date.now());
+  const [savedTemplates, setSavedTemplates] = useState<MessageTemplate[]>([]);
+  const subscriptionRef = useRef<ConversationSubscription | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const markRead = async () => {
+    if (await createMessagesService().markRead(conversationId)) {
+      window.dispatchEvent(new Event(MESSAGES_READ_EVENT));
+    }
+  };
+
+  useEffect(() => {
+    const service = createMessagesService();
+
+    const load = async () => {
+      const [conversationData, messageData] = await Promise.all([
+        service.getConversation(conversationId),
+        service.getMessages(conversationId, { limit: PAGE_SIZE })
+      ]);
+      setConversation(conversationData);
+      setMessages(messageData);
+      setHasOlder(messageData.length === PAGE_SIZE);
+      setLoading(false);
+      markRead();
+    };
+    load();
+
+    subscriptionRef.current = service.subscribeToConversation(conversationId, {
+      onMessage: (message) => {
+        setMessages(prev => prev.some(item => item.id === message.id) ? prev : [...prev, message]);
+        if (message.sender_user_id && message.sender_user_id !== userId) {
+          setTypingUntil(prev => ({ ...prev, [message.sender_user_id as string]: 0 }));
+          markRead();
+        }
+      },
+      onMessageUpdate: (message) => {
+        setMessages(prev => prev.map(item => item.id === message.id ? message : item));
+      },
+      onReadReceipt: (participant) => {
+        setConversation(prev => prev && {
+          ...prev,
+          participants: prev.participants.map(item =>
+            item.id === participant.id ? { ...item, last_read_at: participant.last_read_at, left_at: participant.left_at } : item
+          )
+        });
+      },
+      onTyping: (typingUserId) => {
+        setTypingUntil(prev => ({ ...prev, [typingUserId]: Date.now() + TYPING_TIMEOUT_MS }));
+      }
+    });
+
+    return () => {
+      subscriptionRef.current?.unsubscribe();
+      subscriptionRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversationId, userId]);
+
+  // Tick while someone is typing so the indicator clears itself
+  useEffect(() => {
+    if (!Object.values(typingUntil).some(until => until > Date.now())) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [typingUntil]);
+
+  // Applicants see the context header; only the poster's side gets templates
+  const isPoster = conversation?.kind === 'application' && !!conversation.application &&
+    conversation.application.applicant_user_id !== userId;
+
+  useEffect(() => {
+    if (!isPoster) return;
+    createMessageTemplatesService().getTemplates().then(setSavedTemplates);
+  }, [isPoster]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const activeParticipants = useMemo(
+    () => (conversation?.participants || []).filter(participant => !participant.left_at),
+    [conversation]
+  );
+  const others = activeParticipants.filter(participant => participant.user_id !== userId);
+  const namesById = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const participant of conversation?.participants || []) {
+      names[participant.user_id] = participant.user?.full_name || 'Bookd member';
+    }
+    return names;
+  }, [conversation]);
+
+  const title = conversation
+    ? getConversationTitle(
+      {
+        kind: conversation.kind,
+        title: conversation.title,
+        organization_name: conversation.organization?.name,
+        gig_title: conversation.application?.gig?.title
+      },
+      others.map(participant => ({ full_name: participant.user?.full_name ?? null }))
+    )
+    : '';
+
+  const typingNames = Object.entries(typingUntil)
+    .filter(([typingUserId, until]) => typingUserId !== userId && until > now)
+    .map(([typingUserId]) => namesById[typingUserId] || 'Someone');
+
+  // Read receipt goes under the current user's latest message only
+  const lastMine = [...messages].reverse().find(message => message.kind === 'user' && message.sender_user_id === userId && !message.deleted_at);
+  const receipt = (() => {
+    if (!lastMine) return null;
+    const seenBy = others.filter(participant => participant.last_read_at && participant.last_read_at >= lastMine.created_at);
+    if (seenBy.length === 0) return null;
+    if (conversation?.kind === 'direct' || seenBy.length === others.length) {
+      return others.length > 1 ? 'Seen by everyone' : 'Seen';
+    }
+    return `Seen by ${seenBy.map(participant => namesById[participant.user_id]).join(', ')}`;
+  })();
+
+  const loadOlder = async () => {
+    const oldest = messages[0];
+    if (!oldest) return;
+    setLoadingOlder(true);
+    const older = await createMessagesService().getMessages(conversationId, { limit: PAGE_SIZE, before: oldest.created_at });
+    setMessages(prev => [...older, ...prev]);
+    setHasOlder(older.length === PAGE_SIZE);
+    setLoadingOlder(false);
+  };
+
+  const handleSend = async (body: string, attachments: MessageAttachment[]) => {
+    const message = await createMessagesService().sendMessage(conversationId, body, attachments);
+    setMessages(prev => prev.some(item => item.id === message.id) ? prev : [...prev, message]);
+  };
+
+  const handleEdit = async (message: Message, body: string) => {
+    const updated = await createMessagesService().editMessage(message.id, body);
+    if (updated) setMessages(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const handleDelete = async (message: Message) => {
+    if (!window.confirm('Delete this message for everyone?')) return;
+    if (await createMessagesService().deleteMessage(message.id)) {
+      const deletedAt = new Date().toISOString();
+      setMessages(prev => prev.map(item => item.id === message.id ? { ...item, body: '', attachments: [], deleted_at: deletedAt } : item));
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm('Leave this group? You will stop receiving its messages.')) return;
+    if (await createMessagesService().leaveConversation(conversationId)) {
+      router.push('/messages');
+    }
+  };
+
+  const templateValues = useMemo<TemplateValues | null>(() => {
+    const application = conversation?.application;
+    if (!application) return null;
+    const applicantName = namesById[application.applicant_user_id] || 'there';
+    return {
+      first_name: applicantName.split(' ')[0],
+      applicant_name: applicantName,
+      gig_title: application.gig?.title || 'this gig',
+      gig_date: formatDate(application.gig?.start_date ?? null, 'long') || 'the gig date'
+    };
+  }, [conversation, namesById]);
+
+  const handleSaveTemplate = async (templateTitle: string, body: string) => {
+    const template = await createMessageTemplatesService().createTemplate(templateTitle, body);
+    setSavedTemplates(prev => [...prev, template].sort((a, b) => a.title.localeCompare(b.title)));
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (await createMessageTemplatesService().deleteTemplate(templateId)) {
+      setSavedTemplates(prev => prev.filter(template => template.id !== templateId));
+    }
+  };
+
+  const contextLink = conversation?.kind === 'organization' && conversation.organization
+    ? { href: `/organization/${conversation.organization.id}`, label: 'View organization' }
+    : conversation?.kind === 'direct' && others[0]
+      ? { href: `/profile/${others[0].user_id}`, label: 'View profile' }
+      : null;
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-white rounded-lg shadow flex flex-col h-[calc(100vh-10rem)]">
+        {/* Thread header */}
+        <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-200">
+          <div className="flex items-center gap-3 min-w-0">
+            <Link href="/messages" className="text-gray-500 hover:text-gray-700" aria-label="Back to messages">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <div className="min-w-0">
+              <h1 className="text-lg font-semibold text-gray-900 truncate">{loading ? 'Loading...' : title}</h1>
+              {conversation && conversation.kind !== 'direct' && (
+                <p className="text-xs text-gray-500 truncate">
+                  {others.map(participant => namesById[participant.user_id]).join(', ') || 'Just you'}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            {contextLink && (
+              <Link href={contextLink.href} className="text-sm text-[#7823E1] hover:underline">{contextLink.label}</Link>
+            )}
+            {conversation?.kind === 'group' && (
+              <button type="button" onClick={handleLeave} className="text-sm text-gray-500 hover:text-red-600">
+                Leave
+              </button>
+            )}
+          </div>
+        </div>
+
+        {conversation?.kind === 'application' && conversation.application && (
+          <ApplicationContextHeader application={conversation.application} isPoster={isPoster} />
+        )}
+
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+          {hasOlder && (
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={loadOlder}
+                disabled={loadingOlder}
+                className="text-sm text-[#7823E1] hover:underline disabled:opacity-50"
+              >
+                {loadingOlder ? 'Loading...' : 'Load earlier messages'}
+              </button>
+            </div>
+          )}
+          {!loading && messages.length === 0 && (
+            <p className="text-center text-sm text-gray-500 py-8">No messages yet. Say hello!</p>
+          )}
+          {messages.map(message => {
+            if (message.kind === 'system') {
+              return <SystemMessage key={message.id} message={message} />;
+            }
+            const mine = message.sender_user_id === userId;
+            return (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                mine={mine}
+                senderName={conversation?.kind !== 'direct' && message.sender_user_id ? namesById[message.sender_user_id] : undefined}
+                receipt={message.id === lastMine?.id ? receipt : null}
+                onEdit={mine ? handleEdit : undefined}
+                onDelete={mine ? handleDelete : undefined}
+              />
+            );
+          })}
+          <div ref={bottomRef} />
+        </div>
+
+        <TypingIndicator names={typingNames} />
+        <MessageComposer
+          conversationId={conversationId}
+          onSend={handleSend}
+          onTyping={() => subscriptionRef.current?.sendTyping()}
+          disabled={loading}
+          templates={isPoster && templateValues ? {
+            options: [...savedTemplates, ...DEFAULT_APPLICATION_TEMPLATES],
+            values: templateValues,
+            onSave: handleSaveTemplate,
+            onDelete: handleDeleteTemplate
+          } : undefined}
+        />
+      </div>
+    </div>
+  );
+}
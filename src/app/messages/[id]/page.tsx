@@ -0,0 +1,31 @@
+import { createClient } from '@/lib/supabase/server';
+import { notFound, redirect } from 'next/navigation';
+import ConversationPageClient from './ConversationPageClient';
+
+interface Params {
+  params: { id: string };
+}
+
+export default async function ConversationPage({ params }: Params) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  // RLS hides conversations the user isn't part of
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('id', params.id)
+    .maybeSingle();
+
+  if (!conversation) {
+    notFound();
+  }
+
+  return <ConversationPageClient conversationId={params.id} userId={user.id} />;
+}
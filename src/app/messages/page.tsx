@@ -0,0 +1,16 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import MessagesPageClient from './MessagesPageClient';
+
+export default async function MessagesPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  return <MessagesPageClient userId={user.id} />;
+}
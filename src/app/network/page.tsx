@@ -1,6 +1,7 @@
 'use client';
 
 import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
 import { redirect } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import type { User } from '@supabase/supabase-js';
@@ -8,6 +9,7 @@ import { createUsersService } from '@/services/client/users';
 import { createOrganizationsService } from '@/services/client/organizations';
 import type { UserWithProfile, OrganizationProfile } from '@/types/database';
 import { Avatar } from '@/components/profile/ProfilePictureUpload';
+import { MessageButton } from '@/components/messages';
 
 // Genre color mapping (inspired by demo cards)
 const GENRE_COLORS: Record<string, { bg: string; text: string }> = {
@@ -478,7 +480,6 @@ export default function NetworkPage() {
 }
 
 function ConnectButton({ targetUserId }: { targetUserId: string }) {
-  const [loading, setLoading] = useState(false);
   const [isFollowing, setIsFollowing] = useState<boolean | null>(null);
 
   useEffect(() => {
@@ -499,29 +500,19 @@ function ConnectButton({ targetUserId }: { targetUserId: string }) {
     return () => { mounted = false; };
   }, [targetUserId]);
 
-  const onToggle = async () => {
-    setLoading(true);
-    try {
-      const svc = createUsersService();
-      const nowFollowing = await svc.toggleFollowUser(targetUserId);
-      setIsFollowing(nowFollowing);
-    } catch (e) {
-      console.error('Failed to toggle follow', e);
-    } finally {
-      setLoading(false);
-    }
+  // Connecting follows them (if not already) and opens the one-to-one thread
+  const follow = async () => {
+    if (isFollowing) return;
+    const svc = createUsersService();
+    setIsFollowing(await svc.toggleFollowUser(targetUserId));
   };
 
   return (
-    <button
-      onClick={onToggle}
-      disabled={loading}
-      className={`px-4 py-2 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors disabled:opacity-60`}
-      style={{ backgroundColor: '#7823E1' }}
-      type="button"
-    >
-      {loading ? '...' : isFollowing ? 'Connected' : 'Connect'}
-    </button>
+    <MessageButton
+      userId={targetUserId}
+      label={isFollowing ? 'Message' : 'Connect'}
+      beforeOpen={follow}
+    />
   );
 }
 
@@ -679,9 +670,7 @@ function OrganizationCard({ organization }: { organization: OrganizationProfile
 
   const style = TYPE_STYLES[typeKey] || TYPE_STYLES.other;
 
-  // Follow/unfollow organization
   const [isFollowing, setIsFollowing] = useState<boolean | null>(null);
-  const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     let mounted = true;
@@ -705,18 +694,12 @@ function OrganizationCard({ organization }: { organization: OrganizationProfile
     return () => { mounted = false; };
   }, [organization.id]);
 
-  const toggleFollow = async (e: React.MouseEvent) => {
-    e.stopPropagation();
-    setLoading(true);
-    try {
-      const client = createClient();
-      const { data } = await (client as any).rpc('toggle_follow_organization', { target_org_id: organization.id });
-      setIsFollowing(Boolean(data));
-    } catch {
-      // no-op
-    } finally {
-      setLoading(false);
-    }
+  // Connecting follows the organization (if not already) and opens a thread with its admins
+  const follow = async () => {
+    if (isFollowing) return;
+    const client = createClient();
+    const { data } = await callRpc(client, 'toggle_follow_organization', { target_org_id: organization.id });
+    setIsFollowing(Boolean(data));
   };
 
   return (
@@ -770,15 +753,11 @@ function OrganizationCard({ organization }: { organization: OrganizationProfile
               <GenrePill key={g} name={g} />
             ))}
           </div>
-          <button
-            onClick={toggleFollow}
-            disabled={loading}
-            className="px-4 py-2 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors disabled:opacity-60"
-            style={{ backgroundColor: '#7823E1' }}
-            type="button"
-          >
-            {loading ? '...' : isFollowing ? 'Connected' : 'Connect'}
-          </button>
+          <MessageButton
+            organizationId={organization.id}
+            label={isFollowing ? 'Message' : 'Connect'}
+            beforeOpen={follow}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { NotificationItem } from '@/components/notifications';
+import { NOTIFICATIONS_CHANGED_EVENT, createNotificationsService } from '@/services/client/notifications';
+import type { UserNotificationWithActor } from '@/types/database';
+
+type NotificationsFilter = 'all' | 'unread';
+
+const PAGE_SIZE = 30;
+
+export default function NotificationsPageClient() {
+  const router = useRouter();
+  const [filter, setFilter] = useState<NotificationsFilter>('all');
+  const [notifications, setNotifications] = useState<UserNotificationWithActor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const data = await createNotificationsService().getNotifications({
+        unreadOnly: filter === 'unread',
+        limit: PAGE_SIZE
+      });
+      setNotifications(data);
+      setHasMore(data.length === PAGE_SIZE);
+      setLoading(false);
+    };
+    load();
+  }, [filter]);
+
+  const notifyHeader = () => window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+
+  const loadMore = async () => {
+    const oldest = notifications[notifications.length - 1];
+    if (!oldest) return;
+    setLoadingMore(true);
+    const data = await createNotificationsService().getNotifications({
+      unreadOnly: filter === 'unread',
+      limit: PAGE_SIZE,
+      before: oldest.created_at
+    });
+    setNotifications(prev => [...prev, ...data]);
+    setHasMore(data.length === PAGE_SIZE);
+    setLoadingMore(false);
+  };
+
+  const handleOpen = async (notification: UserNotificationWithActor) => {
+    if (!notification.read_at) {
+      await createNotificationsService().markRead(notification.id);
+      notifyHeader();
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    } else {
+      const now = new Date().toISOString();
+      setNotifications(prev => prev.map(item => item.id === notification.id ? { ...item, read_at: now } : item));
+    }
+  };
+
+  const handleDelete = async (notification: UserNotificationWithActor) => {
+    if (await createNotificationsService().deleteNotification(notification.id)) {
+      setNotifications(prev => prev.filter(item => item.id !== notification.id));
+      if (!notification.read_at) notifyHeader();
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (await createNotificationsService().markAllRead()) {
+      const now = new Date().toISOString();
+      setNotifications(prev => filter === 'unread' ? [] : prev.map(item => ({ ...item, read_at: item.read_at || now })));
+      notifyHeader();
+    }
+  };
+
+  const hasUnread = notifications.some(notification => !notification.read_at);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between border-b border-gray-200 pb-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Notifications</h1>
+          <p className="text-gray-600 mt-1">Follows, likes, comments and updates on your gigs</p>
+        </div>
+        {hasUnread && (
+          <button
+            type="button"
+            onClick={handleMarkAllRead}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Mark all as read
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {(['all', 'unread'] as NotificationsFilter[]).map(value => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-colors ${
+              filter === value
+                ? 'bg-[#7823E1] text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <div key={index} className="p-4 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/2 mb-2" />
+              <div className="h-3 bg-gray-200 rounded w-1/4" />
+            </div>
+          ))}
+        </div>
+      ) : notifications.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {filter === 'unread' ? 'No unread notifications' : 'No notifications yet'}
+            </h3>
+            <p className="text-gray-600">New followers, likes, replies and gig updates will show up here.</p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden divide-y divide-gray-100">
+          {notifications.map(notification => (
+            <NotificationItem
+              key={notification.id}
+              notification={notification}
+              onOpen={handleOpen}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 text-sm font-medium text-[#7823E1] border border-[#7823E1] rounded-lg hover:bg-[#E8DFFF] disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load older notifications'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
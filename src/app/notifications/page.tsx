@@ -0,0 +1,16 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import NotificationsPageClient from './NotificationsPageClient';
+
+export default async function NotificationsPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  return <NotificationsPageClient />;
+}
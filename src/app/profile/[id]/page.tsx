@@ -4,6 +4,10 @@ import { ProfileHeader } from '@/components/profile/ProfileHeader';
 import { ProfileAbout } from '@/components/profile/ProfileAbout';
 import { ExperienceSection } from '@/components/profile/ExperienceSection';
 import { PerformanceSection } from '@/components/profile/PerformanceSection';
+import { AvailabilitySection } from '@/components/profile/AvailabilitySection';
+import { RequestBookingButton } from '@/components/bookings';
+import { MessageButton } from '@/components/messages';
+import { UserSafetyMenu } from '@/components/safety';
 
 interface Params {
   params: { id: string };
@@ -36,6 +40,26 @@ export default async function PublicProfilePage({ params }: Params) {
   const initialData: any = data;
 
   const isOwner = currentUser.id === userId;
+  const individualProfile = Array.isArray(initialData.individual_profile)
+    ? initialData.individual_profile[0]
+    : initialData.individual_profile;
+  const canRequestBooking = !isOwner && !!individualProfile?.available_for_hire;
+
+  // Organization accounts can send the request on behalf of their active organization
+  let bookingOrganization: { id: string; name: string } | null = null;
+  if (canRequestBooking) {
+    const { data: viewer } = await supabase
+      .from('users')
+      .select('account_type, active_organization:active_organization_id(id, name)')
+      .eq('id', currentUser.id)
+      .single();
+    // The embedded organization can come back as an object or a one-element array
+    const embedded = viewer?.account_type === 'organization' ? viewer.active_organization : null;
+    const activeOrganization = (Array.isArray(embedded) ? embedded[0] : embedded) as { id: string; name: string } | null | undefined;
+    if (activeOrganization) {
+      bookingOrganization = { id: activeOrganization.id, name: activeOrganization.name };
+    }
+  }
 
   return (
     <div className="space-y-6">
@@ -46,6 +70,12 @@ export default async function PublicProfilePage({ params }: Params) {
             <h1 className="text-2xl font-bold text-gray-900">Profile</h1>
             <p className="text-gray-600 mt-1">Musician details and contact</p>
           </div>
+          {!isOwner && (
+            <div className="flex items-start gap-2">
+              <MessageButton userId={userId} />
+              <UserSafetyMenu userId={userId} userName={individualProfile?.stage_name || initialData.full_name || 'this user'} />
+            </div>
+          )}
         </div>
       </div>
 
@@ -53,6 +83,16 @@ export default async function PublicProfilePage({ params }: Params) {
       <ProfileHeader initialData={initialData} forceData={initialData} />
       <ProfileAbout initialData={initialData} forceData={initialData} isOwner={isOwner} />
 
+      <AvailabilitySection userId={userId} />
+
+      {canRequestBooking && (
+        <RequestBookingButton
+          musicianUserId={userId}
+          musicianName={individualProfile.stage_name || initialData.full_name || 'this musician'}
+          organization={bookingOrganization}
+        />
+      )}
+
       {/* Experience and Performances shown for target user */}
       <ExperienceSection isOwner={isOwner} userId={userId} />
       <PerformanceSection isOwner={isOwner} userId={userId} />
@@ -5,10 +5,12 @@ import { ProfilePictureUpload } from '@/components/profile/ProfilePictureUpload'
 import { 
   BasicInfoForm,
   ProfessionalInfoForm,
+  AvailabilityForm,
   SocialLinksForm,
   ExperiencePerformancesSection,
   AccountTypeSection,
   OrganizationEditForm,
+  NotificationPreferencesForm,
 } from '@/components/profile/edit';
 import { OrganizationEditPlaceholder } from '@/components/profile/edit/OrganizationEditPlaceholder';
 
@@ -49,6 +51,9 @@ export default function ProfileEditClient({ initialUser }: { initialUser: UserWi
           {/* Professional Information */}
           <ProfessionalInfoForm userWithProfile={initialUser} />
 
+          {/* Availability */}
+          <AvailabilityForm userWithProfile={initialUser} />
+
           {/* Social Media Links */}
           <SocialLinksForm userWithProfile={initialUser} />
 
@@ -57,6 +62,9 @@ export default function ProfileEditClient({ initialUser }: { initialUser: UserWi
         </>
       )}
 
+      {/* Notification channels, quiet hours and digests */}
+      <NotificationPreferencesForm />
+
       {/* Bottom Spacing */}
       <div className="h-8" />
     </div>
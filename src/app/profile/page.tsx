@@ -8,6 +8,8 @@ import { EmptyProfileSection } from '@/components/profile/ProfilePlaceholder';
 import { ProfileCompletion } from '@/components/profile/ProfileCompletion';
 import { ExperienceSection } from '@/components/profile/ExperienceSection';
 import { PerformanceSection } from '@/components/profile/PerformanceSection';
+import { PendingCreditsSection } from '@/components/profile/PendingCreditsSection';
+import type { OrganizationPerformance, PerformanceCredit } from '@/types/database';
 
 export default async function ProfilePage() {
   // Get authenticated user with profile (auto-creates profile if needed)
@@ -142,6 +144,8 @@ export default async function ProfilePage() {
             </div>
           </div>
 
+          <PendingCreditsSection organizationId={activeOrganization.id} />
+
           {/* Organization Performances */}
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Major Performances</h2>
@@ -158,6 +162,7 @@ export default async function ProfilePage() {
           <ProfileAbout initialData={userWithProfile} />
           <EmptyProfileSection type="featured" />
           <ExperienceSection isOwner={true} userId={userWithProfile.id} />
+          <PendingCreditsSection />
           <PerformanceSection isOwner={true} userId={userWithProfile.id} />
         </>
       )}
@@ -165,6 +170,13 @@ export default async function ProfilePage() {
   );
 }
 
+type ListedPerformanceFields = Pick<OrganizationPerformance, 'title' | 'venue' | 'performance_date' | 'description'>;
+type ListedPerformance = ListedPerformanceFields & { id: string; credited_role?: string | null };
+type CreditRow = Pick<PerformanceCredit, 'id' | 'role'> & {
+  past_performance: ListedPerformanceFields | null;
+  organization_performance: ListedPerformanceFields | null;
+};
+
 // Minimal server component to render organization performances list
 async function OrgPerformancesServer({ orgId }: { orgId: string }) {
   try {
@@ -175,7 +187,21 @@ async function OrgPerformancesServer({ orgId }: { orgId: string }) {
       .eq('organization_id', orgId)
       .order('performance_date', { ascending: false });
     if (error) throw error;
-    const perfs = (data || []) as any[];
+
+    // Performances by others where the organization has confirmed a credit
+    const { data: credits } = await supabase
+      .from('performance_credits')
+      .select('id, role, past_performance:past_performance_id(title, venue, performance_date, description), organization_performance:organization_performance_id(title, venue, performance_date, description)')
+      .eq('credited_organization_id', orgId)
+      .eq('status', 'confirmed');
+    const credited = ((credits || []) as unknown as CreditRow[]).map((c): ListedPerformance => ({
+      ...(c.past_performance || c.organization_performance || { title: '', venue: null, performance_date: null, description: null }),
+      id: c.id,
+      credited_role: c.role
+    }));
+
+    const perfs: ListedPerformance[] = [...((data || []) as OrganizationPerformance[]), ...credited]
+      .sort((a, b) => (b.performance_date || '').localeCompare(a.performance_date || ''));
     if (perfs.length === 0) {
       return <div className="text-sm text-gray-600">No performances published yet.</div> as any;
     }
@@ -184,6 +210,7 @@ async function OrgPerformancesServer({ orgId }: { orgId: string }) {
         perfs.map((p) => (
           <li key={p.id} className="py-3">
             <div className="font-medium text-gray-900">{p.title}</div>
+            {p.credited_role && <div className="text-sm text-gray-600">Credited as {p.credited_role}</div>}
             <div className="text-sm text-gray-600">{
               [p.performance_date ? new Date(p.performance_date).toLocaleDateString() : null, p.venue]
                 .filter(Boolean)
@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatTimeAgo } from '@/services/utils';
+import {
+  REPORT_OUTCOME_LABELS,
+  REPORT_REASON_OPTIONS,
+  REPORT_STATUS_LABELS,
+  REPORT_TARGET_LABELS,
+  createReportsService
+} from '@/services/client/reports';
+import type { Report, ReportStatus } from '@/types/database';
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  open: 'bg-gray-100 text-gray-700',
+  reviewing: 'bg-yellow-100 text-yellow-800',
+  actioned: 'bg-green-100 text-green-800',
+  dismissed: 'bg-gray-100 text-gray-700'
+};
+
+export default function ReportsPageClient() {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    createReportsService().getMyReports().then(data => {
+      setReports(data);
+      setLoading(false);
+    });
+  }, []);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="border-b border-gray-200 pb-4">
+        <h1 className="text-3xl font-bold text-gray-900">Your reports</h1>
+        <p className="text-gray-600 mt-1">What you&apos;ve reported and what our moderators decided</p>
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <div key={index} className="p-4 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/2 mb-2" />
+              <div className="h-3 bg-gray-200 rounded w-1/4" />
+            </div>
+          ))}
+        </div>
+      ) : reports.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg p-8 max-w-md mx-auto">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No reports</h3>
+            <p className="text-gray-600">
+              If you report a post, comment, gig, message or account, you can follow it here.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden divide-y divide-gray-100">
+          {reports.map(report => (
+            <div key={report.id} className="px-4 py-3 space-y-1">
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-sm text-gray-900">
+                  <span className="font-semibold capitalize">{REPORT_TARGET_LABELS[report.target_type]}</span>
+                  {' · '}
+                  {REPORT_REASON_OPTIONS.find(option => option.reason === report.reason)?.label || report.reason}
+                </p>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full shrink-0 ${STATUS_STYLES[report.status]}`}>
+                  {REPORT_STATUS_LABELS[report.status]}
+                </span>
+              </div>
+              {report.content_snapshot && (
+                <p className="text-sm text-gray-600 line-clamp-2">{report.content_snapshot}</p>
+              )}
+              {report.outcome && (
+                <p className="text-sm text-gray-800">{REPORT_OUTCOME_LABELS[report.outcome]}.</p>
+              )}
+              <p className="text-xs text-gray-500">
+                Reported {formatTimeAgo(report.created_at)}
+                {report.resolved_at && <> · reviewed {formatTimeAgo(report.resolved_at)}</>}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import ReportsPageClient from './ReportsPageClient';
+
+export default async function ReportsPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  return <ReportsPageClient />;
+}
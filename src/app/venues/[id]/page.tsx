@@ -0,0 +1,154 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { createServerVenuesService, type VenuePerformance } from '@/services/venues';
+import { createServerGigsService, type GigWithAuthor } from '@/services/gigs';
+import { GigCard } from '@/components/gigs';
+
+interface Params {
+  params: { id: string };
+}
+
+// Shared between generateMetadata and the page so the venue is only fetched once per request
+const loadVenue = cache(async (venueId: string) => {
+  const service = await createServerVenuesService();
+  return service.getVenue(venueId);
+});
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const venue = await loadVenue(params.id);
+
+  if (!venue) {
+    return {
+      title: 'Venue not found | Bookd',
+      robots: { index: false, follow: false },
+    };
+  }
+
+  const where = [venue.city, venue.state_province].filter(Boolean).join(', ');
+  const description = (venue.description || `Performances and gigs at ${venue.name}${where ? ` in ${where}` : ''}.`).slice(0, 200);
+
+  return {
+    title: `${venue.name} | Bookd Venues`,
+    description,
+    openGraph: {
+      title: venue.name,
+      description,
+      type: 'website',
+      siteName: 'Bookd',
+      url: `/venues/${venue.id}`,
+      images: venue.banner_image_url ? [{ url: venue.banner_image_url, alt: venue.name }] : undefined,
+    },
+  };
+}
+
+function PerformanceList({ performances, emptyText }: { performances: VenuePerformance[]; emptyText: string }) {
+  if (performances.length === 0) {
+    return <p className="text-sm text-gray-600">{emptyText}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {performances.map(performance => (
+        <li key={performance.key} className="py-3">
+          <div className="font-medium text-gray-900">
+            {performance.href ? (
+              <Link href={performance.href} className="hover:text-[#7823E1]">{performance.title}</Link>
+            ) : (
+              performance.title
+            )}
+          </div>
+          <div className="text-sm text-gray-600">
+            {[
+              performance.date ? new Date(performance.date).toLocaleDateString() : null,
+              performance.performer,
+              performance.kind === 'event' ? 'Event' : null
+            ].filter(Boolean).join(' • ')}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default async function VenuePage({ params }: Params) {
+  const venue = await loadVenue(params.id);
+
+  if (!venue) {
+    notFound();
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const venuesService = await createServerVenuesService();
+  const gigsService = await createServerGigsService();
+  const [performances, gigs, appliedGigIds] = await Promise.all([
+    venuesService.getVenuePerformances(venue.id),
+    gigsService.getGigsAtVenue(venue.id).catch((): GigWithAuthor[] => []),
+    user ? gigsService.getAppliedGigIds(user.id) : Promise.resolve<string[]>([])
+  ]);
+
+  // Performances are dated by day and events by instant; anything from today on is upcoming
+  const today = new Date().toISOString().slice(0, 10);
+  const upcoming = performances.filter(performance => performance.date && performance.date.slice(0, 10) >= today).reverse();
+  const past = performances.filter(performance => !performance.date || performance.date.slice(0, 10) < today);
+
+  const address = [venue.address, venue.city, venue.state_province, venue.postal_code, venue.country].filter(Boolean).join(', ');
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-start gap-4">
+          {venue.logo_url ? (
+            <Image src={venue.logo_url} alt={venue.name} width={64} height={64} unoptimized className="w-16 h-16 rounded-lg object-cover" />
+          ) : (
+            <div className="w-16 h-16 rounded-lg bg-[#E8DFFF] text-[#7823E1] flex items-center justify-center text-2xl font-bold">
+              {venue.name.charAt(0).toUpperCase()}
+            </div>
+          )}
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold text-gray-900">{venue.name}</h1>
+            {venue.venue_type && <p className="text-sm text-gray-600 capitalize">{venue.venue_type}</p>}
+            {address && <p className="text-sm text-gray-600 mt-1">{address}</p>}
+            <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-600">
+              {venue.capacity && <span>Capacity {venue.capacity}</span>}
+              {venue.website_url && (
+                <a href={venue.website_url} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800">
+                  {venue.website_url.replace(/^https?:\/\//, '')}
+                </a>
+              )}
+            </div>
+          </div>
+        </div>
+        {venue.description && <p className="text-gray-700 mt-4">{venue.description}</p>}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Upcoming</h2>
+        <PerformanceList performances={upcoming} emptyText="Nothing scheduled here yet." />
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Past Performances</h2>
+        <PerformanceList performances={past} emptyText="No performances have been linked to this venue yet." />
+      </div>
+
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Gigs</h2>
+        {gigs.length === 0 ? (
+          <p className="text-sm text-gray-600">No gigs posted for this venue.</p>
+        ) : (
+          gigs.map(gig => (
+            <GigCard key={gig.id} gig={gig} currentUserId={user?.id} hasApplied={appliedGigIds.includes(gig.id)} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
+import { useEffect } from 'react';
 import { usePathname } from 'next/navigation';
+import { registerServiceWorker } from '@/lib/push/browser';
 import Header from './Header';
 
 interface AppLayoutProps {
@@ -9,7 +11,12 @@ interface AppLayoutProps {
 
 export default function AppLayout({ children }: AppLayoutProps) {
   const pathname = usePathname();
-  
+
+  // Service worker for Web Push; subscribing happens from the notification settings on /profile/edit
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
   // Pages that should not show the header (unauthenticated pages)
   const noHeaderPages = ['/', '/auth/callback'];
   const shouldShowHeader = !noHeaderPages.includes(pathname);
@@ -5,18 +5,27 @@ import { usePathname } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { useEffect, useState } from 'react';
 import type { User } from '@supabase/supabase-js';
+import { SAVED_SEARCH_MATCHES_SEEN_EVENT, createSavedSearchesService } from '@/services/client/saved_searches';
+import { MESSAGES_READ_EVENT, createMessagesService } from '@/services/client/messages';
+import { isPlatformAdmin } from '@/services/client/moderation';
+import { NotificationBell } from '@/components/notifications';
 
   const tabs = [
     { name: 'Home', href: '/home' },
     { name: 'Network', href: '/network' },
     { name: 'Gigs', href: '/gigs' },
     { name: 'Events', href: '/events' },
+    { name: 'Bookings', href: '/bookings' },
+    { name: 'Messages', href: '/messages' },
     { name: 'Profile', href: '/profile' },
   ];
 
 export default function Header() {
   const pathname = usePathname();
   const [user, setUser] = useState<User | null>(null);
+  const [unreadMatches, setUnreadMatches] = useState(0);
+  const [unreadConversations, setUnreadConversations] = useState(0);
+  const [isAdmin, setIsAdmin] = useState(false);
   const supabase = createClient();
 
   useEffect(() => {
@@ -36,6 +45,58 @@ export default function Header() {
     return () => subscription.unsubscribe();
   }, [supabase.auth]);
 
+  // Record new saved search matches once per sign-in; the count is re-read on navigation
+  useEffect(() => {
+    if (!user) {
+      setUnreadMatches(0);
+      return;
+    }
+    const service = createSavedSearchesService();
+    service.refreshMatches().then(() => service.getUnreadMatchCount().then(setUnreadMatches));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    const service = createSavedSearchesService();
+    const updateCount = () => {
+      service.getUnreadMatchCount().then(setUnreadMatches);
+    };
+
+    updateCount();
+    window.addEventListener(SAVED_SEARCH_MATCHES_SEEN_EVENT, updateCount);
+    return () => window.removeEventListener(SAVED_SEARCH_MATCHES_SEEN_EVENT, updateCount);
+  }, [user, pathname]);
+
+  // Unread conversations: re-read on navigation, after a thread is read, and when a message arrives
+  useEffect(() => {
+    if (!user) {
+      setUnreadConversations(0);
+      return;
+    }
+    const service = createMessagesService();
+    const updateCount = () => {
+      service.getUnreadConversationCount().then(setUnreadConversations);
+    };
+
+    updateCount();
+    const unsubscribe = service.subscribeToInbox(message => {
+      if (message.sender_user_id !== user.id) updateCount();
+    });
+    window.addEventListener(MESSAGES_READ_EVENT, updateCount);
+    return () => {
+      unsubscribe();
+      window.removeEventListener(MESSAGES_READ_EVENT, updateCount);
+    };
+  }, [user, pathname]);
+
+  useEffect(() => {
+    if (!user) {
+      setIsAdmin(false);
+      return;
+    }
+    isPlatformAdmin().then(setIsAdmin);
+  }, [user]);
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
   };
@@ -76,6 +137,24 @@ export default function Header() {
                   style={isActive ? {color: '#7823E1'} : {}}
                 >
                   {tab.name}
+                  {tab.href === '/gigs' && unreadMatches > 0 && (
+                    <span
+                      className="ml-1.5 px-1.5 py-0.5 text-xs font-semibold text-white rounded-full"
+                      style={{backgroundColor: '#7823E1'}}
+                      title={`${unreadMatches} new gig${unreadMatches === 1 ? '' : 's'} match your saved searches`}
+                    >
+                      {unreadMatches > 99 ? '99+' : unreadMatches}
+                    </span>
+                  )}
+                  {tab.href === '/messages' && unreadConversations > 0 && (
+                    <span
+                      className="ml-1.5 px-1.5 py-0.5 text-xs font-semibold text-white rounded-full"
+                      style={{backgroundColor: '#7823E1'}}
+                      title={`${unreadConversations} unread conversation${unreadConversations === 1 ? '' : 's'}`}
+                    >
+                      {unreadConversations > 99 ? '99+' : unreadConversations}
+                    </span>
+                  )}
                 </Link>
               );
             })}
@@ -85,6 +164,17 @@ export default function Header() {
           <div className="flex items-center space-x-4">
             {user && (
               <>
+                {isAdmin && (
+                  <Link
+                    href="/admin/moderation"
+                    className={`text-sm font-medium ${
+                      pathname.startsWith('/admin') ? 'text-[#7823E1]' : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    Moderation
+                  </Link>
+                )}
+                <NotificationBell />
                 <span className="text-sm text-gray-600 hidden sm:block">
                   {user.email}
                 </span>
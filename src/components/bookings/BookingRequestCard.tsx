@@ -0,0 +1,252 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import type {
+  BookingAction,
+  BookingRequestRevision,
+  BookingRequestStatus,
+  BookingRequestWithParties,
+  BookingSide,
+  BookingTerms
+} from '@/types/database';
+import { bookingCommitment } from '@/lib/availability/conflicts';
+import { useScheduleConflicts } from '@/hooks/useScheduleConflicts';
+import { ConflictWarning } from '@/components/schedule';
+import BookingRequestModal, { type BookingRequestFormValues } from './BookingRequestModal';
+import { formatBookingFee, formatBookingWhen, formatBookingWhere } from './bookingFormat';
+
+interface BookingRequestCardProps {
+  request: BookingRequestWithParties;
+  side: BookingSide;
+  onRespond: (
+    request: BookingRequestWithParties,
+    action: BookingAction,
+    terms?: Partial<BookingTerms>,
+    message?: string
+  ) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<BookingRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  countered: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700'
+};
+
+const TERM_KEYS: (keyof BookingTerms)[] = [
+  'title', 'event_date', 'start_time', 'end_time', 'venue_name', 'venue_address',
+  'city', 'fee_amount', 'currency', 'pay_rate_type', 'terms'
+];
+
+// Postgres returns times as HH:MM:SS while time inputs use HH:MM
+const comparable = (key: keyof BookingTerms, value: unknown) =>
+  (key === 'start_time' || key === 'end_time') && typeof value === 'string' ? value.slice(0, 5) : value ?? null;
+
+function changedTerms(before: BookingTerms, after: BookingTerms): Partial<BookingTerms> {
+  return TERM_KEYS.reduce((changes, key) => {
+    if (comparable(key, before[key]) !== comparable(key, after[key])) {
+      (changes as Record<string, unknown>)[key] = after[key];
+    }
+    return changes;
+  }, {} as Partial<BookingTerms>);
+}
+
+function pickTerms(source: BookingTerms): BookingTerms {
+  return TERM_KEYS.reduce((terms, key) => ({ ...terms, [key]: source[key] }), {} as BookingTerms);
+}
+
+export default function BookingRequestCard({ request, side, onRespond }: BookingRequestCardProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCounter, setShowCounter] = useState(false);
+  const [busyAction, setBusyAction] = useState<BookingAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const counterpart = side === 'musician'
+    ? request.requester_organization?.name || request.requester?.full_name || 'Requester'
+    : request.musician?.full_name || 'Musician';
+  const counterpartUrl = side === 'musician'
+    ? (request.requester_organization ? null : `/profile/${request.requester_user_id}`)
+    : `/profile/${request.musician_user_id}`;
+
+  const isOpen = request.status === 'pending' || request.status === 'countered';
+  const isMyTurn = isOpen && request.awaiting_response_from === side;
+  const where = formatBookingWhere(request);
+  const currentTerms = useMemo(() => pickTerms(request), [request]);
+  const candidates = useMemo(() => [bookingCommitment(request.id, request)], [request]);
+  // Whoever accepts, it's the musician's schedule that matters
+  const { conflicts } = useScheduleConflicts(isMyTurn ? request.musician_user_id : null, candidates);
+
+  const run = async (action: BookingAction) => {
+    if (action === 'decline' && !window.confirm('Decline this booking request?')) return;
+    if (action === 'cancel' && !window.confirm('Cancel this booking request?')) return;
+    if (action === 'accept' && conflicts.length > 0 && !window.confirm('This booking clashes with the schedule. Accept anyway?')) return;
+
+    setBusyAction(action);
+    setError(null);
+    try {
+      await onRespond(request, action);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to update booking request.';
+      setError(msg);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleCounter = async ({ terms, message }: BookingRequestFormValues) => {
+    const changes = changedTerms(request, terms);
+    if (Object.keys(changes).length === 0) {
+      throw new Error('Change at least one term to make a counter offer.');
+    }
+    await onRespond(request, 'counter', changes, message);
+  };
+
+  const describeRevision = (revision: BookingRequestRevision) => {
+    const who = revision.proposed_by === side ? 'You' : counterpart;
+    return revision.revision_number === 1 ? `${who} sent the offer` : `${who} countered`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{request.title}</h3>
+          <p className="text-sm text-gray-600">
+            {side === 'musician' ? 'From ' : 'To '}
+            {counterpartUrl ? (
+              <Link href={counterpartUrl} className="font-medium hover:text-[#7823E1]">{counterpart}</Link>
+            ) : (
+              <span className="font-medium">{counterpart}</span>
+            )}
+          </p>
+        </div>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[request.status]}`}>
+          {request.status}
+        </span>
+      </div>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div>
+          <dt className="text-gray-500">When</dt>
+          <dd className="text-gray-900">{formatBookingWhen(request)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Fee</dt>
+          <dd className="text-gray-900">{formatBookingFee(request)}</dd>
+        </div>
+        {where && (
+          <div className="sm:col-span-2">
+            <dt className="text-gray-500">Where</dt>
+            <dd className="text-gray-900">{where}</dd>
+          </div>
+        )}
+        {request.terms && (
+          <div className="sm:col-span-2">
+            <dt className="text-gray-500">Terms</dt>
+            <dd className="text-gray-900 whitespace-pre-line">{request.terms}</dd>
+          </div>
+        )}
+      </dl>
+
+      {request.message && (
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-sm text-gray-700 whitespace-pre-line">{request.message}</p>
+        </div>
+      )}
+
+      {isOpen && !isMyTurn && (
+        <p className="text-sm text-gray-500">Waiting for {counterpart} to respond.</p>
+      )}
+
+      {isMyTurn && (
+        <ConflictWarning
+          conflicts={conflicts}
+          title={side === 'musician' ? 'This booking clashes with your schedule' : `This booking clashes with ${counterpart}'s schedule`}
+        />
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isMyTurn && (
+          <>
+            <button
+              onClick={() => run('accept')}
+              disabled={!!busyAction}
+              className="px-4 py-2 text-sm font-medium text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+              style={{backgroundColor: '#7823E1'}}
+              type="button"
+            >
+              {busyAction === 'accept' ? 'Accepting...' : 'Accept'}
+            </button>
+            <button
+              onClick={() => setShowCounter(true)}
+              disabled={!!busyAction}
+              className="px-4 py-2 text-sm font-medium border border-[#7823E1] text-[#7823E1] rounded-lg hover:bg-[#E8DFFF] transition-colors disabled:opacity-50"
+              type="button"
+            >
+              Counter
+            </button>
+            <button
+              onClick={() => run('decline')}
+              disabled={!!busyAction}
+              className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              type="button"
+            >
+              {busyAction === 'decline' ? 'Declining...' : 'Decline'}
+            </button>
+          </>
+        )}
+        {isOpen && side === 'requester' && (
+          <button
+            onClick={() => run('cancel')}
+            disabled={!!busyAction}
+            className="px-4 py-2 text-sm text-gray-600 hover:underline disabled:opacity-50"
+            type="button"
+          >
+            {busyAction === 'cancel' ? 'Cancelling...' : 'Cancel request'}
+          </button>
+        )}
+        {request.revisions.length > 1 && (
+          <button
+            onClick={() => setShowHistory(prev => !prev)}
+            className="ml-auto text-sm text-[#7823E1] hover:underline"
+            type="button"
+          >
+            {showHistory ? 'Hide history' : `History (${request.revisions.length} offers)`}
+          </button>
+        )}
+      </div>
+
+      {showHistory && (
+        <ol className="border-t border-gray-200 pt-4 space-y-3">
+          {request.revisions.map(revision => (
+            <li key={revision.id} className="text-sm">
+              <p className="font-medium text-gray-900">
+                {describeRevision(revision)}
+                <span className="text-gray-400 font-normal"> · {new Date(revision.created_at).toLocaleString()}</span>
+              </p>
+              <p className="text-gray-600">
+                {formatBookingWhen(revision)} · {formatBookingFee(revision)}
+                {formatBookingWhere(revision) ? ` · ${formatBookingWhere(revision)}` : ''}
+              </p>
+              {revision.message && <p className="text-gray-500 italic">&ldquo;{revision.message}&rdquo;</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <BookingRequestModal
+        isOpen={showCounter}
+        mode="counter"
+        counterpartName={counterpart}
+        initialTerms={currentTerms}
+        musicianUserId={side === 'requester' ? request.musician_user_id : undefined}
+        onClose={() => setShowCounter(false)}
+        onSubmit={handleCounter}
+      />
+    </div>
+  );
+}
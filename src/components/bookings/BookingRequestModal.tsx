@@ -0,0 +1,323 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getAvailabilityStatus } from '@/services/client/availability';
+import { AVAILABILITY_STATUS_LABELS } from '@/lib/availability/schedule';
+import type { AvailabilityStatus, BookingTerms, PayRateType } from '@/types/database';
+import { PAY_RATE_LABELS } from './bookingFormat';
+
+export interface BookingRequestFormValues {
+  terms: BookingTerms;
+  message: string;
+  sendAsOrganization: boolean;
+}
+
+interface BookingRequestModalProps {
+  isOpen: boolean;
+  mode: 'new' | 'counter';
+  counterpartName: string;
+  initialTerms?: BookingTerms;
+  organization?: { id: string; name: string } | null; // Offer to send on behalf of this organization
+  musicianUserId?: string; // Warn when the chosen date clashes with this musician's availability
+  onClose: () => void;
+  onSubmit: (values: BookingRequestFormValues) => Promise<void>;
+}
+
+const EMPTY_TERMS: BookingTerms = {
+  title: '',
+  event_date: '',
+  start_time: null,
+  end_time: null,
+  venue_name: null,
+  venue_address: null,
+  city: null,
+  fee_amount: null,
+  currency: 'USD',
+  pay_rate_type: 'flat_fee',
+  terms: null
+};
+
+export default function BookingRequestModal({
+  isOpen,
+  mode,
+  counterpartName,
+  initialTerms,
+  organization = null,
+  musicianUserId,
+  onClose,
+  onSubmit
+}: BookingRequestModalProps) {
+  const [terms, setTerms] = useState<BookingTerms>(initialTerms || EMPTY_TERMS);
+  const [message, setMessage] = useState('');
+  const [sendAsOrganization, setSendAsOrganization] = useState(!!organization);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [availability, setAvailability] = useState<AvailabilityStatus | null>(null);
+
+  // Counter offers start from the terms currently on the table
+  useEffect(() => {
+    if (isOpen) {
+      setTerms(initialTerms || EMPTY_TERMS);
+      setMessage('');
+      setError(null);
+    }
+  }, [isOpen, initialTerms]);
+
+  useEffect(() => {
+    if (!isOpen || !musicianUserId || !terms.event_date) {
+      setAvailability(null);
+      return;
+    }
+
+    let cancelled = false;
+    getAvailabilityStatus(musicianUserId, {
+      date: terms.event_date,
+      startTime: terms.start_time,
+      endTime: terms.end_time
+    })
+      .then(status => {
+        if (!cancelled) setAvailability(status);
+      })
+      .catch(() => {
+        if (!cancelled) setAvailability(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, musicianUserId, terms.event_date, terms.start_time, terms.end_time]);
+
+  const update = <K extends keyof BookingTerms>(field: K, value: BookingTerms[K]) => {
+    setTerms(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!terms.title.trim() || !terms.event_date) {
+      setError('Please add a title and date.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSubmit({ terms, message, sendAsOrganization: !!organization && sendAsOrganization });
+      onClose();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to send. Please try again.';
+      setError(msg);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">
+                {mode === 'new' ? `Request a booking with ${counterpartName}` : 'Make a counter offer'}
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {mode === 'new'
+                  ? 'They can accept, decline or come back with a counter offer.'
+                  : `${counterpartName} can accept, decline or counter again.`}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+            <input
+              type="text"
+              value={terms.title}
+              onChange={(e) => update('title', e.target.value)}
+              className={inputClass}
+              placeholder="e.g., Friday night jazz set"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+              <input
+                type="date"
+                value={terms.event_date}
+                onChange={(e) => update('event_date', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Set starts</label>
+              <input
+                type="time"
+                value={terms.start_time?.slice(0, 5) || ''}
+                onChange={(e) => update('start_time', e.target.value || null)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Set ends</label>
+              <input
+                type="time"
+                value={terms.end_time?.slice(0, 5) || ''}
+                onChange={(e) => update('end_time', e.target.value || null)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {availability && availability !== 'free' && availability !== 'unscheduled' && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <p className="text-sm text-amber-800">
+                {AVAILABILITY_STATUS_LABELS[availability]} at this time. {counterpartName} can still accept or counter.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Venue</label>
+              <input
+                type="text"
+                value={terms.venue_name || ''}
+                onChange={(e) => update('venue_name', e.target.value || null)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+              <input
+                type="text"
+                value={terms.city || ''}
+                onChange={(e) => update('city', e.target.value || null)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Venue address</label>
+            <input
+              type="text"
+              value={terms.venue_address || ''}
+              onChange={(e) => update('venue_address', e.target.value || null)}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Fee</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={terms.fee_amount ?? ''}
+                onChange={(e) => update('fee_amount', e.target.value === '' ? null : parseFloat(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <input
+                type="text"
+                maxLength={3}
+                value={terms.currency}
+                onChange={(e) => update('currency', e.target.value.toUpperCase())}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Pay Rate Type</label>
+              <select
+                value={terms.pay_rate_type || ''}
+                onChange={(e) => update('pay_rate_type', (e.target.value || null) as PayRateType | null)}
+                className={inputClass}
+              >
+                {(Object.keys(PAY_RATE_LABELS) as PayRateType[]).map(rate => (
+                  <option key={rate} value={rate}>{PAY_RATE_LABELS[rate]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Terms</label>
+            <textarea
+              rows={3}
+              value={terms.terms || ''}
+              onChange={(e) => update('terms', e.target.value || null)}
+              className={inputClass}
+              placeholder="Sound check, backline, meals, payment schedule, cancellation policy..."
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+            <textarea
+              rows={2}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className={inputClass}
+              placeholder={mode === 'new' ? 'Introduce yourself and the event...' : 'Explain what you changed...'}
+            />
+          </div>
+
+          {mode === 'new' && organization && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={sendAsOrganization}
+                onChange={(e) => setSendAsOrganization(e.target.checked)}
+                className="rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+              />
+              Send on behalf of {organization.name}
+            </label>
+          )}
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-[#7823E1] text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Sending...' : mode === 'new' ? 'Send Request' : 'Send Counter Offer'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
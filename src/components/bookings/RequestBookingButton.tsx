@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { createBookingRequest } from '@/services/client/bookings';
+import BookingRequestModal, { type BookingRequestFormValues } from './BookingRequestModal';
+
+interface RequestBookingButtonProps {
+  musicianUserId: string;
+  musicianName: string;
+  organization?: { id: string; name: string } | null; // Viewer's active organization, if any
+}
+
+export default function RequestBookingButton({ musicianUserId, musicianName, organization = null }: RequestBookingButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async ({ terms, message, sendAsOrganization }: BookingRequestFormValues) => {
+    await createBookingRequest({
+      ...terms,
+      musician_user_id: musicianUserId,
+      organization_id: sendAsOrganization && organization ? organization.id : null,
+      message
+    });
+    setSent(true);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 flex items-center justify-between gap-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Available for hire</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          {sent ? (
+            <>
+              Request sent. Follow its progress in{' '}
+              <Link href="/bookings" className="text-[#7823E1] hover:underline">Bookings</Link>.
+            </>
+          ) : (
+            `Send ${musicianName} a dated offer with your fee and terms.`
+          )}
+        </p>
+      </div>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="px-4 py-2 text-sm font-medium text-white rounded-lg hover:opacity-90 transition-colors flex-shrink-0"
+        style={{backgroundColor: '#7823E1'}}
+        type="button"
+      >
+        Request Booking
+      </button>
+
+      <BookingRequestModal
+        isOpen={isOpen}
+        mode="new"
+        counterpartName={musicianName}
+        organization={organization}
+        musicianUserId={musicianUserId}
+        onClose={() => setIsOpen(false)}
+        onSubmit={handleSubmit}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import type { BookingTerms, PayRateType } from '@/types/database';
+
+export const PAY_RATE_LABELS: Record<PayRateType, string> = {
+  hourly: 'Hourly',
+  daily: 'Daily',
+  per_gig: 'Per Gig',
+  flat_fee: 'Flat Fee',
+  percentage: 'Percentage'
+};
+
+const PAY_RATE_SUFFIXES: Record<PayRateType, string> = {
+  hourly: '/hr',
+  daily: '/day',
+  per_gig: ' per gig',
+  flat_fee: ' flat',
+  percentage: '%'
+};
+
+export function formatBookingFee(terms: Pick<BookingTerms, 'fee_amount' | 'currency' | 'pay_rate_type'>): string {
+  if (terms.fee_amount == null) return 'Fee to be agreed';
+  if (terms.pay_rate_type === 'percentage') return `${terms.fee_amount}%`;
+
+  const amount = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: terms.currency || 'USD',
+    maximumFractionDigits: 2
+  }).format(terms.fee_amount);
+
+  return terms.pay_rate_type ? `${amount}${PAY_RATE_SUFFIXES[terms.pay_rate_type]}` : amount;
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':');
+  const date = new Date();
+  date.setHours(parseInt(hours), parseInt(minutes));
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+}
+
+export function formatBookingWhen(terms: Pick<BookingTerms, 'event_date' | 'start_time' | 'end_time'>): string {
+  const date = new Date(`${terms.event_date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+
+  if (!terms.start_time) return date;
+  return terms.end_time
+    ? `${date}, ${formatTime(terms.start_time)} – ${formatTime(terms.end_time)}`
+    : `${date}, ${formatTime(terms.start_time)}`;
+}
+
+export function formatBookingWhere(terms: Pick<BookingTerms, 'venue_name' | 'venue_address' | 'city'>): string | null {
+  return [terms.venue_name, terms.venue_address, terms.city].filter(Boolean).join(', ') || null;
+}
@@ -0,0 +1,4 @@
+export { default as BookingRequestModal } from './BookingRequestModal';
+export { default as BookingRequestCard } from './BookingRequestCard';
+export { default as RequestBookingButton } from './RequestBookingButton';
+export * from './bookingFormat';
@@ -0,0 +1,44 @@
+'use client';
+
+import { buildCalendar, type CalendarEvent } from '@/lib/calendar/ics';
+import { browserTimeZone } from '@/lib/availability/schedule';
+
+interface AddToCalendarButtonProps {
+  events: CalendarEvent[];
+  filename: string; // Without the .ics extension
+  calendarName?: string;
+  timezone?: string; // Zone the events' wall-clock times are in; defaults to the viewer's
+  className?: string;
+}
+
+/**
+ * Downloads an .ics file for the given events; wall-clock times are read in the viewer's timezone
+ * unless another is given
+ */
+export default function AddToCalendarButton({ events, filename, calendarName = 'Bookd', timezone, className }: AddToCalendarButtonProps) {
+  const handleDownload = () => {
+    const calendar = buildCalendar(events, { name: calendarName, timezone: timezone || browserTimeZone() });
+    const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename.replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'event'}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <button
+      onClick={handleDownload}
+      className={className || 'inline-flex items-center gap-1 text-sm font-medium text-[#7823E1] hover:underline'}
+      type="button"
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+      </svg>
+      Add to calendar
+    </button>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { calendarFeedUrl, createCalendarFeedsService } from '@/services/client/calendar_feeds';
+import type { CalendarFeed } from '@/types/database';
+
+export default function CalendarFeedPanel() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFeed = async () => {
+    try {
+      setFeed(await createCalendarFeedsService().getFeed());
+    } catch {
+      setError('Failed to load your calendar link.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadFeed();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    setCopied(false);
+    try {
+      await action();
+      await loadFeed();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(() => createCalendarFeedsService().rotateToken());
+
+  const handleReset = () => {
+    if (!window.confirm('Reset your calendar link? Calendars subscribed to the old link will stop updating.')) return;
+    run(() => createCalendarFeedsService().rotateToken());
+  };
+
+  const handleRevoke = () => {
+    if (!window.confirm('Turn off your calendar link? Subscribed calendars will stop updating.')) return;
+    run(() => createCalendarFeedsService().revoke());
+  };
+
+  const feedUrl = feed ? calendarFeedUrl(feed.token, window.location.origin) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Copy failed. Select the link and copy it manually.');
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Sync with your calendar</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Subscribe from Google Calendar, Apple Calendar or Outlook to see your bookings, hired gigs,
+          rehearsals and upcoming performances. Anyone with the link can see these events.
+        </p>
+      </div>
+
+      {feed ? (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-gray-50 text-gray-700"
+            />
+            <button
+              onClick={handleCopy}
+              className="px-4 py-2 text-sm font-medium text-white rounded-lg hover:opacity-90 transition-colors"
+              style={{backgroundColor: '#7823E1'}}
+              type="button"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-500">
+              {feed.last_accessed_at
+                ? `Last synced ${new Date(feed.last_accessed_at).toLocaleString()}`
+                : 'Not synced yet'}
+            </span>
+            <div className="flex gap-4">
+              <button onClick={handleReset} disabled={busy} className="text-gray-600 hover:underline disabled:opacity-50" type="button">
+                Reset link
+              </button>
+              <button onClick={handleRevoke} disabled={busy} className="text-red-600 hover:underline disabled:opacity-50" type="button">
+                Turn off
+              </button>
+            </div>
+          </div>
+        </>
+      ) : (
+        <button
+          onClick={handleCreate}
+          disabled={busy}
+          className="px-4 py-2 text-sm font-medium border border-[#7823E1] text-[#7823E1] rounded-lg hover:bg-[#E8DFFF] transition-colors disabled:opacity-50"
+          type="button"
+        >
+          {busy ? 'Creating...' : 'Create calendar link'}
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
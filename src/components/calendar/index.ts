@@ -0,0 +1,2 @@
+export { default as AddToCalendarButton } from './AddToCalendarButton';
+export { default as CalendarFeedPanel } from './CalendarFeedPanel';
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import type { EventAttendee, EventListing } from '@/types/database';
+import { getEventAttendees } from '@/services/client/event_rsvps';
+
+interface EventAttendeesPanelProps {
+  event: EventListing;
+  capacity: number | null; // The event's own capacity, else the linked venue's
+}
+
+export default function EventAttendeesPanel({ event, capacity }: EventAttendeesPanelProps) {
+  const [attendees, setAttendees] = useState<EventAttendee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setAttendees(await getEventAttendees(event.id));
+      } catch {
+        setError('Failed to load attendees');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [event.id]);
+
+  const going = attendees.filter(a => a.status === 'going');
+  const interested = attendees.filter(a => a.status === 'interested');
+  const goingCount = loading ? event.going_count : going.length;
+  const fillPercent = capacity ? Math.min(100, Math.round((goingCount / capacity) * 100)) : 0;
+
+  const renderList = (list: EventAttendee[]) => (
+    <ul className="space-y-2">
+      {list.map(attendee => (
+        <li key={attendee.id} className="flex items-center gap-3">
+          {attendee.user?.avatar_url ? (
+            <Image src={attendee.user.avatar_url} alt={attendee.user.full_name || 'Attendee'} width={32} height={32} className="w-8 h-8 rounded-full object-cover" />
+          ) : (
+            <div className="w-8 h-8 rounded-full bg-[#E8DFFF] text-[#7823E1] flex items-center justify-center text-sm font-semibold">
+              {(attendee.user?.full_name || '?').charAt(0).toUpperCase()}
+            </div>
+          )}
+          <Link href={`/profile/${attendee.user_id}`} className="text-sm text-gray-900 hover:text-[#7823E1] truncate">
+            {attendee.user?.full_name || 'Bookd member'}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Attendees</h2>
+
+      <div>
+        <div className="flex items-baseline justify-between">
+          <span className="text-2xl font-semibold text-gray-900">{goingCount}</span>
+          <span className="text-sm text-gray-600">
+            {capacity ? `of ${capacity} capacity` : 'going'}
+          </span>
+        </div>
+        {capacity && (
+          <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${goingCount >= capacity ? 'bg-red-500' : 'bg-[#7823E1]'}`}
+              style={{ width: `${fillPercent}%` }}
+            />
+          </div>
+        )}
+        <p className="text-sm text-gray-600 mt-2">
+          {loading ? event.interested_count : interested.length} interested
+        </p>
+      </div>
+
+      {capacity && goingCount >= capacity && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <p className="text-sm text-amber-800">RSVPs have reached the venue&apos;s capacity.</p>
+        </div>
+      )}
+
+      {loading && <p className="text-sm text-gray-600">Loading attendees...</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!loading && !error && attendees.length === 0 && (
+        <p className="text-sm text-gray-600">No RSVPs yet.</p>
+      )}
+
+      {going.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Going</h3>
+          {renderList(going)}
+        </div>
+      )}
+
+      {interested.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Interested</h3>
+          {renderList(interested)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import type { EventWithDetails } from '@/types/database';
+import { EVENT_TYPE_LABELS, formatEventPrice, formatEventWhen, formatEventWhere } from './eventFormat';
+
+interface EventCardProps {
+  event: EventWithDetails;
+}
+
+// Names shown on the card before "+N more"
+const LINEUP_PREVIEW = 3;
+
+export default function EventCard({ event }: EventCardProps) {
+  const price = formatEventPrice(event);
+  const where = formatEventWhere(event);
+  const label = event.event_type ? EVENT_TYPE_LABELS[event.event_type] : event.genres?.[0] || 'Performance';
+  const lineup = event.lineup.slice(0, LINEUP_PREVIEW).map(performer => performer.name);
+  const moreCount = event.lineup.length - lineup.length;
+
+  return (
+    <Link
+      href={`/events/${event.id}`}
+      className="block bg-white rounded-lg shadow-md border-2 border-[#7823E1] overflow-hidden hover:shadow-lg transition-shadow"
+    >
+      {event.image_url ? (
+        <Image src={event.image_url} alt={event.title} width={600} height={300} unoptimized className="h-48 w-full object-cover" />
+      ) : (
+        <div className="h-48 bg-gradient-to-br from-blue-100 to-blue-200 flex items-center justify-center">
+          <div className="text-center">
+            <div className="w-16 h-16 bg-blue-500 rounded-full flex items-center justify-center mx-auto mb-2">
+              <svg className="w-8 h-8 text-white" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM15.657 6.343a1 1 0 011.414 0A9.972 9.972 0 0119 12a9.972 9.972 0 01-1.929 5.657 1 1 0 11-1.414-1.414A7.971 7.971 0 0017 12a7.971 7.971 0 00-1.343-4.243 1 1 0 010-1.414z" clipRule="evenodd" />
+                <path fillRule="evenodd" d="M13.243 8.757a1 1 0 011.414 0A5.978 5.978 0 0116 12a5.978 5.978 0 01-1.343 3.243 1 1 0 11-1.414-1.414A3.982 3.982 0 0014 12a3.982 3.982 0 00-.757-2.243 1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </div>
+            <span className="text-sm font-medium text-blue-700">{label}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="p-6 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900">{event.title}</h3>
+            {event.organization && (
+              <p className="text-sm text-gray-600">Hosted by {event.organization.name}</p>
+            )}
+          </div>
+          {event.status === 'cancelled' ? (
+            <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-700 shrink-0">Cancelled</span>
+          ) : price && (
+            <span className="text-sm font-medium text-green-600 shrink-0">{price}</span>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center text-sm text-gray-600">
+            <svg className="w-4 h-4 mr-2 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+            </svg>
+            {formatEventWhen(event)}
+          </div>
+          <div className="flex items-center text-sm text-gray-600">
+            <svg className="w-4 h-4 mr-2 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+            <span className="truncate">{where || 'Location TBA'}</span>
+            {event.distance_km != null && (
+              <span className="ml-2 text-xs text-gray-500 shrink-0">{Math.round(event.distance_km)} km away</span>
+            )}
+          </div>
+        </div>
+
+        {lineup.length > 0 && (
+          <p className="text-sm text-gray-700">
+            <span className="font-medium">Featuring </span>
+            {lineup.join(', ')}
+            {moreCount > 0 && ` +${moreCount} more`}
+          </p>
+        )}
+
+        {event.description && (
+          <p className="text-sm text-gray-700 line-clamp-3">{event.description}</p>
+        )}
+
+        {(event.going_count > 0 || event.interested_count > 0) && (
+          <p className="text-xs text-gray-500">
+            {event.going_count} going · {event.interested_count} interested
+          </p>
+        )}
+      </div>
+    </Link>
+  );
+}
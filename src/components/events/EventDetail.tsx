@@ -0,0 +1,199 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import type { EventWithDetails } from '@/types/database';
+import { eventListingCalendarEvent } from '@/lib/calendar/events';
+import { AddToCalendarButton } from '@/components/calendar';
+import { EVENT_TYPE_LABELS, formatEventPrice, formatEventWhen } from './eventFormat';
+
+export interface EventHostSummary {
+  name: string;
+  avatarUrl: string | null;
+  profileUrl: string | null;
+}
+
+interface EventDetailProps {
+  event: EventWithDetails;
+  host?: EventHostSummary | null;
+  sidebar?: React.ReactNode;
+}
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  if (value === null || value === undefined || value === '') return null;
+  return (
+    <div>
+      <dt className="text-sm font-medium text-gray-500">{label}</dt>
+      <dd className="mt-1 text-gray-900">{value}</dd>
+    </div>
+  );
+}
+
+export default function EventDetail({ event, host, sidebar }: EventDetailProps) {
+  const when = formatEventWhen(event);
+  const price = formatEventPrice(event);
+  const address = [event.venue_address, event.city, event.state_province, event.country].filter(Boolean).join(', ');
+  const isCancelled = event.status === 'cancelled';
+  const isPast = new Date(event.ends_at || event.starts_at) < new Date();
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <Link href="/events" className="text-sm text-gray-500 hover:text-gray-700">
+            &larr; Back to events
+          </Link>
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            {event.event_type && (
+              <span className="px-2 py-1 text-xs font-medium rounded-full bg-[#E8DFFF] text-[#7823E1]">
+                {EVENT_TYPE_LABELS[event.event_type]}
+              </span>
+            )}
+            {isCancelled && (
+              <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-700">Cancelled</span>
+            )}
+            {!isCancelled && isPast && (
+              <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">Ended</span>
+            )}
+            {event.genres?.map(genre => (
+              <span key={genre} className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-700">{genre}</span>
+            ))}
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mt-3">{event.title}</h1>
+          <p className="text-gray-600 mt-2">{when}</p>
+          <p className="text-gray-600">
+            {event.venue_name || 'Venue TBA'}{event.city ? ` · ${[event.city, event.state_province].filter(Boolean).join(', ')}` : ''}
+          </p>
+        </div>
+
+        {event.image_url && (
+          <Image src={event.image_url} alt={event.title} width={1200} height={600} unoptimized className="w-full max-h-96 object-cover rounded-lg" />
+        )}
+
+        {/* Description */}
+        {event.description && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">About this event</h2>
+            <p className="text-gray-700 whitespace-pre-line">{event.description}</p>
+          </div>
+        )}
+
+        {/* Lineup */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Lineup</h2>
+          {event.lineup.length === 0 ? (
+            <p className="text-sm text-gray-600">The lineup hasn&apos;t been announced yet.</p>
+          ) : (
+            <ol className="divide-y divide-gray-100">
+              {event.lineup.map(performer => (
+                <li key={performer.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {performer.performer_user?.avatar_url ? (
+                      <Image src={performer.performer_user.avatar_url} alt={performer.name} width={40} height={40} className="w-10 h-10 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-10 h-10 rounded-full bg-[#E8DFFF] text-[#7823E1] flex items-center justify-center font-semibold shrink-0">
+                        {performer.name.charAt(0).toUpperCase()}
+                      </div>
+                    )}
+                    {performer.performer_user_id ? (
+                      <Link href={`/profile/${performer.performer_user_id}`} className="font-medium text-gray-900 hover:text-[#7823E1] truncate">
+                        {performer.name}
+                      </Link>
+                    ) : (
+                      <span className="font-medium text-gray-900 truncate">{performer.name}</span>
+                    )}
+                  </div>
+                  {performer.role && <span className="text-sm text-gray-600 shrink-0">{performer.role}</span>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Schedule and venue */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">When &amp; Where</h2>
+            {!isCancelled && !isPast && (
+              <AddToCalendarButton
+                events={[eventListingCalendarEvent(event, (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, ''))]}
+                filename={event.title}
+                timezone={event.timezone}
+              />
+            )}
+          </div>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <DetailRow label="When" value={when} />
+            <DetailRow
+              label="Venue"
+              value={event.venue_name ? (
+                <span>
+                  {event.venue_name}
+                  {event.venue_organization && (
+                    <Link href={`/venues/${event.venue_organization.id}`} className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-[#E8DFFF] text-[#7823E1] hover:opacity-80">On Bookd</Link>
+                  )}
+                </span>
+              ) : null}
+            />
+            <DetailRow label="Address" value={address} />
+            <DetailRow label="Capacity" value={event.capacity ? `${event.capacity} people` : null} />
+          </dl>
+        </div>
+      </div>
+
+      {/* Sidebar */}
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Tickets</h2>
+          {isCancelled ? (
+            <div>
+              <p className="text-red-700 font-medium">This event has been cancelled.</p>
+              {event.cancellation_reason && (
+                <p className="text-sm text-red-700 mt-1">Reason: {event.cancellation_reason}</p>
+              )}
+            </div>
+          ) : (
+            <>
+              <p className="text-2xl font-semibold text-green-600">{price || 'See ticket link'}</p>
+              {event.ticket_url && !isPast && (
+                <a
+                  href={event.ticket_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block w-full text-center px-4 py-2 text-white rounded-lg text-sm font-medium bg-[#7823E1] hover:opacity-90 transition-colors"
+                >
+                  Get Tickets
+                </a>
+              )}
+            </>
+          )}
+        </div>
+
+        {sidebar}
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-4">Hosted by</h2>
+          {host ? (
+            <div className="flex items-center gap-3">
+              {host.avatarUrl ? (
+                <Image src={host.avatarUrl} alt={host.name} width={48} height={48} className="w-12 h-12 rounded-full object-cover" />
+              ) : (
+                <div className="w-12 h-12 rounded-full bg-[#E8DFFF] text-[#7823E1] flex items-center justify-center font-semibold">
+                  {host.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+              {host.profileUrl ? (
+                <Link href={host.profileUrl} className="font-semibold text-gray-900 hover:text-[#7823E1]">
+                  {host.name}
+                </Link>
+              ) : (
+                <p className="font-semibold text-gray-900">{host.name}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">Sign in to see who is hosting this event.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createEventsService, type EventInput, type EventPerformerInput } from '@/services/client/events';
+import type { VenueSuggestion } from '@/services/client/venues';
+import { createOrganizationsService } from '@/services/client/organizations';
+import { geocodeAddress } from '@/services/client/geocoding';
+import { browserTimeZone } from '@/lib/availability/schedule';
+import { addDays, utcToZonedTime, zonedTimeToUtc } from '@/lib/calendar/ics';
+import type { EventListing, EventType, EventWithDetails, OrganizationProfile } from '@/types/database';
+import { VenueInput } from '@/components/venues';
+import LineupEditor from './LineupEditor';
+import { EVENT_GENRES, EVENT_TYPE_LABELS } from './eventFormat';
+import { logError } from '@/lib/utils/log';
+
+interface EventFormProps {
+  event?: EventWithDetails | null; // Edit this event instead of creating one
+  onSaved: (event: EventListing) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+// <input type="date"> and <input type="time"> values for a timestamp, in the event's time zone
+const toZonedInputs = (iso: string | null, timeZone: string) => {
+  if (!iso) return { date: '', time: '' };
+  const { date, time } = utcToZonedTime(new Date(iso), timeZone);
+  return { date, time: time.slice(0, 5) };
+};
+
+const parseAmount = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+export default function EventForm({ event = null, onSaved, onCancel }: EventFormProps) {
+  const isEditing = !!event;
+  // New events happen where the organizer is; edits keep the event's own zone
+  const timeZone = event?.timezone || browserTimeZone();
+  const start = toZonedInputs(event?.starts_at ?? null, timeZone);
+  const end = toZonedInputs(event?.ends_at ?? null, timeZone);
+
+  const [formData, setFormData] = useState({
+    title: event?.title || '',
+    description: event?.description || '',
+    event_type: event?.event_type || '',
+    genres: event?.genres || [] as string[],
+    organization_id: event?.organization_id || '',
+    venue_name: event?.venue_name || '',
+    venue_address: event?.venue_address || '',
+    city: event?.city || '',
+    state_province: event?.state_province || '',
+    country: event?.country || 'United States',
+    date: start.date,
+    start_time: start.time,
+    end_time: end.time,
+    ticket_url: event?.ticket_url || '',
+    price_min: event?.price_min != null ? String(event.price_min) : '',
+    price_max: event?.price_max != null ? String(event.price_max) : '',
+    capacity: event?.capacity != null ? String(event.capacity) : ''
+  });
+  const [venue, setVenue] = useState<VenueSuggestion | null>(
+    event?.venue_organization
+      ? {
+        id: event.venue_organization.id,
+        name: event.venue_organization.name,
+        address: event.venue_address,
+        city: event.city,
+        state_province: event.state_province,
+        country: event.country,
+        latitude: event.latitude,
+        longitude: event.longitude,
+        capacity: event.capacity
+      }
+      : null
+  );
+  const [lineup, setLineup] = useState<EventPerformerInput[]>(
+    (event?.lineup || []).map(({ name, role, performer_user_id, performer_organization_id }) => ({
+      name,
+      role,
+      performer_user_id,
+      performer_organization_id
+    }))
+  );
+  const [organizations, setOrganizations] = useState<OrganizationProfile[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    createOrganizationsService().listMyOrganizationsAdmin().then(setOrganizations);
+  }, []);
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleGenre = (genre: string) => {
+    setFormData(prev => ({
+      ...prev,
+      genres: prev.genres.includes(genre) ? prev.genres.filter(g => g !== genre) : [...prev.genres, genre]
+    }));
+  };
+
+  const handleVenueNameChange = (value: string) => {
+    // Renaming the venue unlinks it; the address stays so it can be corrected by hand
+    setVenue(null);
+    handleInputChange('venue_name', value);
+  };
+
+  const selectVenue = (suggestion: VenueSuggestion) => {
+    setVenue(suggestion);
+    setFormData(prev => ({
+      ...prev,
+      venue_name: suggestion.name,
+      venue_address: suggestion.address || prev.venue_address,
+      city: suggestion.city || prev.city,
+      state_province: suggestion.state_province || prev.state_province,
+      country: suggestion.country || prev.country,
+      capacity: prev.capacity || (suggestion.capacity != null ? String(suggestion.capacity) : '')
+    }));
+  };
+
+  // Linked venues already have coordinates; otherwise geocode so the event shows up near people.
+  // Edits only re-geocode when the address changed, and a failed lookup never blocks saving.
+  const resolveCoordinates = async (): Promise<{ latitude: number | null; longitude: number | null }> => {
+    if (venue?.latitude != null && venue.longitude != null &&
+      venue.address === formData.venue_address && venue.city === formData.city) {
+      return { latitude: venue.latitude, longitude: venue.longitude };
+    }
+
+    const addressUnchanged = !!event &&
+      event.latitude != null &&
+      event.venue_address === formData.venue_address &&
+      event.city === formData.city &&
+      event.state_province === formData.state_province &&
+      event.country === formData.country;
+    if (addressUnchanged) {
+      return { latitude: event.latitude, longitude: event.longitude };
+    }
+
+    if (!formData.city.trim()) return { latitude: null, longitude: null };
+    const result = await geocodeAddress({
+      address: formData.venue_address,
+      city: formData.city,
+      state_province: formData.state_province,
+      country: formData.country
+    });
+    return { latitude: result?.latitude ?? null, longitude: result?.longitude ?? null };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title.trim() || !formData.date || !formData.start_time) {
+      setError('Please fill in the title, date and start time.');
+      return;
+    }
+
+    const priceMin = parseAmount(formData.price_min);
+    const priceMax = parseAmount(formData.price_max);
+    if (priceMin != null && priceMax != null && priceMin > priceMax) {
+      setError('The lowest ticket price must not be more than the highest.');
+      return;
+    }
+
+    const startsAt = zonedTimeToUtc(formData.date, formData.start_time, timeZone).toISOString();
+    let endsAt: string | null = null;
+    if (formData.end_time) {
+      // An end time at or before the start means the show runs past midnight
+      const endDate = formData.end_time > formData.start_time ? formData.date : addDays(formData.date, 1);
+      endsAt = zonedTimeToUtc(endDate, formData.end_time, timeZone).toISOString();
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const coordinates = await resolveCoordinates();
+      const input: EventInput = {
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        event_type: (formData.event_type || null) as EventType | null,
+        genres: formData.genres.length > 0 ? formData.genres : null,
+        image_url: event?.image_url ?? null,
+        organization_id: formData.organization_id || null,
+        venue_name: formData.venue_name.trim() || null,
+        venue_organization_id: venue?.id ?? null,
+        venue_address: formData.venue_address.trim() || null,
+        city: formData.city.trim() || null,
+        state_province: formData.state_province.trim() || null,
+        country: formData.country.trim() || null,
+        ...coordinates,
+        starts_at: startsAt,
+        ends_at: endsAt,
+        timezone: timeZone,
+        ticket_url: formData.ticket_url.trim() || null,
+        price_min: priceMin,
+        price_max: priceMax,
+        currency: event?.currency || 'USD',
+        capacity: formData.capacity ? parseInt(formData.capacity, 10) : null,
+        lineup
+      };
+
+      const service = createEventsService();
+      const saved = isEditing && event
+        ? await service.updateEvent(event.id, input)
+        : await service.createEvent(input);
+      onSaved(saved);
+    } catch (err) {
+      logError('Error saving event', err);
+      const message = err instanceof Error ? err.message : 'Failed to save event. Please try again.';
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Basic Information</h3>
+        <div>
+          <label className={labelClass}>Title *</label>
+          <input type="text" required value={formData.title} onChange={(e) => handleInputChange('title', e.target.value)} className={inputClass} placeholder="e.g., Jazz Night at Blue Moon" />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Performance Type</label>
+            <select value={formData.event_type} onChange={(e) => handleInputChange('event_type', e.target.value)} className={inputClass}>
+              <option value="">Select type</option>
+              {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map(type => (
+                <option key={type} value={type}>{EVENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          {organizations.length > 0 && (
+            <div>
+              <label className={labelClass}>Hosted by</label>
+              <select value={formData.organization_id} onChange={(e) => handleInputChange('organization_id', e.target.value)} className={inputClass}>
+                <option value="">Just me</option>
+                {organizations.map(org => (
+                  <option key={org.id} value={org.id}>{org.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        <div>
+          <label className={labelClass}>Genres</label>
+          <div className="flex flex-wrap gap-2">
+            {EVENT_GENRES.map(genre => (
+              <button
+                key={genre}
+                type="button"
+                onClick={() => toggleGenre(genre)}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${formData.genres.includes(genre)
+                  ? 'bg-[#7823E1] text-white border-[#7823E1]'
+                  : 'bg-white text-gray-700 border-gray-300 hover:border-[#7823E1]'}`}
+              >
+                {genre}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Description</label>
+          <textarea rows={4} value={formData.description} onChange={(e) => handleInputChange('description', e.target.value)} className={inputClass} placeholder="Event details..." />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Venue</h3>
+        <div>
+          <label className={labelClass}>Venue Name</label>
+          <VenueInput
+            value={formData.venue_name}
+            linkedVenue={venue}
+            onTextChange={handleVenueNameChange}
+            onSelect={selectVenue}
+            className={inputClass}
+            placeholder="e.g., Koger Center"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Address</label>
+          <input type="text" value={formData.venue_address} onChange={(e) => handleInputChange('venue_address', e.target.value)} className={inputClass} placeholder="Street address" />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>City</label>
+            <input type="text" value={formData.city} onChange={(e) => handleInputChange('city', e.target.value)} className={inputClass} placeholder="e.g., Columbia" />
+          </div>
+          <div>
+            <label className={labelClass}>State / Province</label>
+            <input type="text" value={formData.state_province} onChange={(e) => handleInputChange('state_province', e.target.value)} className={inputClass} placeholder="e.g., SC" />
+          </div>
+          <div>
+            <label className={labelClass}>Country</label>
+            <input type="text" value={formData.country} onChange={(e) => handleInputChange('country', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Schedule</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Date *</label>
+            <input type="date" required value={formData.date} onChange={(e) => handleInputChange('date', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Start Time *</label>
+            <input type="time" required value={formData.start_time} onChange={(e) => handleInputChange('start_time', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>End Time</label>
+            <input type="time" value={formData.end_time} onChange={(e) => handleInputChange('end_time', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Lineup</h3>
+        <LineupEditor lineup={lineup} onChange={setLineup} />
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Tickets</h3>
+        <div>
+          <label className={labelClass}>Ticket Link</label>
+          <input type="url" value={formData.ticket_url} onChange={(e) => handleInputChange('ticket_url', e.target.value)} className={inputClass} placeholder="https://" />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Price From ($)</label>
+            <input type="number" min={0} step="0.01" value={formData.price_min} onChange={(e) => handleInputChange('price_min', e.target.value)} className={inputClass} placeholder="0 for free" />
+          </div>
+          <div>
+            <label className={labelClass}>Price To ($)</label>
+            <input type="number" min={0} step="0.01" value={formData.price_max} onChange={(e) => handleInputChange('price_max', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Capacity</label>
+            <input type="number" min={1} value={formData.capacity} onChange={(e) => handleInputChange('capacity', e.target.value)} className={inputClass} placeholder="e.g., 200" />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+        <button type="button" onClick={onCancel} className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors">Cancel</button>
+        <button type="submit" disabled={isSubmitting} className="px-6 py-2 bg-[#7823E1] text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50">
+          {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Post Event'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { EventWithDetails } from '@/types/database';
+import { createEventsService } from '@/services/client/events';
+import { ConfirmDialog } from '@/components/profile/ConfirmDialog';
+import CreateEventModal from './CreateEventModal';
+
+interface EventManagePanelProps {
+  event: EventWithDetails;
+}
+
+export default function EventManagePanel({ event }: EventManagePanelProps) {
+  const router = useRouter();
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showCancelForm, setShowCancelForm] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCancelled = event.status === 'cancelled';
+
+  const handleCancelEvent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCancelling(true);
+    setError(null);
+    try {
+      await createEventsService().cancelEvent(event.id, cancelReason);
+      setShowCancelForm(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel event');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await createEventsService().deleteEvent(event.id);
+      router.push('/events');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete event');
+      setIsDeleting(false);
+      setConfirmDelete(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-3">
+      <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Manage event</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!isCancelled && (
+        <button
+          type="button"
+          onClick={() => setShowEditModal(true)}
+          className="block w-full px-4 py-2 text-white rounded-lg text-sm font-medium bg-[#7823E1] hover:opacity-90 transition-colors"
+        >
+          Edit Event
+        </button>
+      )}
+
+      {!isCancelled && !showCancelForm && (
+        <button
+          type="button"
+          onClick={() => setShowCancelForm(true)}
+          className="block w-full px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          Cancel Event
+        </button>
+      )}
+
+      {showCancelForm && (
+        <form onSubmit={handleCancelEvent} className="space-y-3">
+          <textarea
+            rows={3}
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+            placeholder="Reason (shown on the event page)"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setShowCancelForm(false)}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Keep Event
+            </button>
+            <button
+              type="submit"
+              disabled={isCancelling}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {isCancelling ? 'Cancelling...' : 'Cancel Event'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setConfirmDelete(true)}
+        className="block w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+      >
+        Delete Event
+      </button>
+
+      <CreateEventModal
+        isOpen={showEditModal}
+        event={event}
+        onClose={() => setShowEditModal(false)}
+        onSuccess={() => router.refresh()}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Delete event?"
+        message="This action cannot be undone. This will permanently delete the event and its lineup."
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
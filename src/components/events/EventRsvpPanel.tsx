@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { EventListing, EventRsvp, EventRsvpStatus } from '@/types/database';
+import { createEventRsvpsService } from '@/services/client/event_rsvps';
+
+interface EventRsvpPanelProps {
+  event: EventListing;
+  currentUserId: string | null;
+  initialRsvp: EventRsvp | null;
+}
+
+const RSVP_OPTIONS: { status: EventRsvpStatus; label: string }[] = [
+  { status: 'going', label: 'Going' },
+  { status: 'interested', label: 'Interested' }
+];
+
+export default function EventRsvpPanel({ event, currentUserId, initialRsvp }: EventRsvpPanelProps) {
+  const [rsvpStatus, setRsvpStatus] = useState<EventRsvpStatus | null>(initialRsvp?.status ?? null);
+  const [counts, setCounts] = useState({ going: event.going_count, interested: event.interested_count });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpen = event.status === 'scheduled' &&
+    new Date(event.ends_at || new Date(event.starts_at).getTime() + 3 * 60 * 60 * 1000) > new Date();
+
+  // Clicking the current choice again withdraws the RSVP
+  const handleSelect = async (status: EventRsvpStatus) => {
+    const previous = rsvpStatus;
+    const next = previous === status ? null : status;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const service = createEventRsvpsService();
+      if (next) {
+        await service.setRsvp(event.id, next);
+      } else {
+        await service.removeRsvp(event.id);
+      }
+
+      setRsvpStatus(next);
+      setCounts(prev => {
+        const updated = { ...prev };
+        if (previous) updated[previous] -= 1;
+        if (next) updated[next] += 1;
+        return updated;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your RSVP');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Are you going?</h2>
+        <span className="text-sm text-gray-600">{counts.going} going · {counts.interested} interested</span>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!currentUserId ? (
+        <Link
+          href="/"
+          className="block w-full text-center px-4 py-2 text-white rounded-lg text-sm font-medium bg-[#7823E1] hover:opacity-90 transition-colors"
+        >
+          Sign in to RSVP
+        </Link>
+      ) : !isOpen ? (
+        <p className="text-sm text-gray-600">
+          {event.status === 'cancelled' ? 'RSVPs are closed for this cancelled event.' : 'This event has ended.'}
+        </p>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            {RSVP_OPTIONS.map(option => (
+              <button
+                key={option.status}
+                type="button"
+                disabled={isSaving}
+                onClick={() => handleSelect(option.status)}
+                className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                  rsvpStatus === option.status
+                    ? 'bg-[#7823E1] text-white'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {rsvpStatus && (
+            <p className="text-xs text-gray-500">We&apos;ll remind you the day before.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
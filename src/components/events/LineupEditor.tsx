@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createUsersService } from '@/services/client/users';
+import type { EventPerformerInput } from '@/services/client/events';
+import type { UserWithProfile } from '@/types/database';
+
+interface LineupEditorProps {
+  lineup: EventPerformerInput[]; // In billing order
+  onChange: (lineup: EventPerformerInput[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent';
+
+const displayName = (user: UserWithProfile) => user.individual_profile?.stage_name || user.full_name || 'Unnamed musician';
+
+export default function LineupEditor({ lineup, onChange }: LineupEditorProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserWithProfile[]>([]);
+
+  // Search Bookd musicians as the organizer types (debounced)
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const users = await createUsersService().searchUsers(trimmed, 5, 0);
+      setResults(users.filter(user => user.account_type !== 'organization'));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const update = (index: number, changes: Partial<EventPerformerInput>) =>
+    onChange(lineup.map((performer, i) => (i === index ? { ...performer, ...changes } : performer)));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= lineup.length) return;
+    const next = [...lineup];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addMusician = (user: UserWithProfile) => {
+    if (!lineup.some(performer => performer.performer_user_id === user.id)) {
+      onChange([...lineup, { name: displayName(user), role: null, performer_user_id: user.id, performer_organization_id: null }]);
+    }
+    setQuery('');
+    setResults([]);
+  };
+
+  const addUnlisted = () => {
+    onChange([...lineup, { name: query.trim(), role: null, performer_user_id: null, performer_organization_id: null }]);
+    setQuery('');
+    setResults([]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {lineup.length > 0 && (
+        <ol className="space-y-2">
+          {lineup.map((performer, index) => (
+            <li key={`${performer.performer_user_id || 'name'}-${index}`} className="flex flex-col md:flex-row md:items-center gap-2">
+              <div className="flex-1 flex items-center gap-2">
+                <span className="text-sm text-gray-500 w-5 shrink-0">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={performer.name}
+                  onChange={(e) => update(index, { name: e.target.value })}
+                  className={inputClass}
+                  placeholder="Performer name"
+                />
+                {performer.performer_user_id && (
+                  <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-[#E8DFFF] text-[#7823E1] shrink-0">On Bookd</span>
+                )}
+              </div>
+              <input
+                type="text"
+                value={performer.role || ''}
+                onChange={(e) => update(index, { role: e.target.value })}
+                className={`md:w-40 ${inputClass}`}
+                placeholder="Role, e.g. Headliner"
+              />
+              <div className="flex gap-1 shrink-0">
+                <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-30" title="Move up">↑</button>
+                <button type="button" onClick={() => move(index, 1)} disabled={index === lineup.length - 1} className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-30" title="Move down">↓</button>
+                <button type="button" onClick={() => onChange(lineup.filter((_, i) => i !== index))} className="px-2 py-1 text-sm text-gray-500 hover:text-red-600">Remove</button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="relative">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={inputClass}
+            placeholder="Search Bookd musicians or type a performer's name"
+          />
+          <button
+            type="button"
+            onClick={addUnlisted}
+            disabled={!query.trim()}
+            className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 shrink-0"
+          >
+            Add
+          </button>
+        </div>
+        {results.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg divide-y divide-gray-100">
+            {results.map(user => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  onClick={() => addMusician(user)}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                >
+                  <span className="font-medium text-gray-900">{displayName(user)}</span>
+                  {user.individual_profile?.stage_name && user.full_name && (
+                    <span className="text-gray-500"> · {user.full_name}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { EventListing, EventType } from '@/types/database';
+
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  concert: 'Concert',
+  recital: 'Recital',
+  opera: 'Opera',
+  musical_theater: 'Musical Theater',
+  jazz: 'Jazz Performance',
+  chamber: 'Chamber Music',
+  orchestra: 'Orchestra',
+  solo: 'Solo Performance',
+  open_mic: 'Open Mic',
+  festival: 'Festival',
+  other: 'Other'
+};
+
+export const EVENT_GENRES = [
+  'Classical', 'Jazz', 'Blues', 'Folk', 'Rock', 'Pop',
+  'Country', 'Electronic', 'Hip-Hop', 'R&B', 'Gospel', 'Latin'
+];
+
+/**
+ * When an event happens, in the venue's time zone, e.g. "Sat, Oct 24, 2026, 8:00 PM – 11:00 PM EDT"
+ */
+export function formatEventWhen(event: Pick<EventListing, 'starts_at' | 'ends_at' | 'timezone'>): string {
+  const timeZone = event.timezone || 'UTC';
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone });
+  const formatTime = (date: Date, withZone: boolean) =>
+    date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone, ...(withZone ? { timeZoneName: 'short' } : {}) });
+
+  const start = new Date(event.starts_at);
+  if (!event.ends_at) return `${formatDay(start)}, ${formatTime(start, true)}`;
+
+  const end = new Date(event.ends_at);
+  const when = `${formatDay(start)}, ${formatTime(start, false)}`;
+  // Shows that run past midnight still read as one evening
+  const sameEvening = end.getTime() - start.getTime() < 24 * 60 * 60 * 1000;
+  return sameEvening
+    ? `${when} – ${formatTime(end, true)}`
+    : `${when} – ${formatDay(end)}, ${formatTime(end, true)}`;
+}
+
+export function formatEventWhere(event: Pick<EventListing, 'venue_name' | 'city' | 'state_province'>): string | null {
+  return [event.venue_name, event.city, event.state_province].filter(Boolean).join(', ') || null;
+}
+
+export function formatEventPrice(event: Pick<EventListing, 'price_min' | 'price_max' | 'currency'>): string | null {
+  const format = (amount: number) => new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: event.currency || 'USD',
+    maximumFractionDigits: 2
+  }).format(amount);
+
+  const { price_min: min, price_max: max } = event;
+  if (min == null && max == null) return null;
+  if ((max ?? min) === 0) return 'Free';
+  if (min != null && max != null && min !== max) return `${min === 0 ? 'Free' : format(min)} – ${format(max)}`;
+  return format((min ?? max) as number);
+}
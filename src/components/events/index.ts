@@ -0,0 +1,9 @@
+export { default as EventCard } from './EventCard';
+export { default as EventForm } from './EventForm';
+export { default as LineupEditor } from './LineupEditor';
+export { default as CreateEventModal } from './CreateEventModal';
+export { default as EventDetail } from './EventDetail';
+export { default as EventManagePanel } from './EventManagePanel';
+export { default as EventRsvpPanel } from './EventRsvpPanel';
+export { default as EventAttendeesPanel } from './EventAttendeesPanel';
+export * from './eventFormat';
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import Image from 'next/image';
 import { createCommentsService } from '@/services/client/comments';
 import { createUsersService } from '@/services/client/users';
+import { ReportButton } from '@/components/safety';
 import type { CommentThread, User } from '@/types/database';
 import { 
   formatTimeAgo, 
@@ -109,6 +110,10 @@ function CommentItem({ comment, currentUser, onReply, level = 0 }: CommentItemPr
             {comment.replies_count > 0 && (
               <span>{comment.replies_count} {comment.replies_count === 1 ? 'reply' : 'replies'}</span>
             )}
+
+            {currentUser && comment.user_id !== currentUser.id && (
+              <ReportButton targetType="comment" targetId={comment.id} className="hover:text-red-600 transition-colors" />
+            )}
           </div>
 
           {/* Reply Form */}
@@ -14,6 +14,7 @@ import {
   isImageUrl,
   isVideoUrl 
 } from '@/services/utils';
+import { ReportButton } from '@/components/safety';
 import { LikeButton } from './LikeButton';
 import { CommentSection } from './CommentSection';
 
@@ -127,6 +128,10 @@ export function PostCard({ post, currentUserId, onPostUpdate }: PostCardProps) {
               </div>
             )}
           </div>
+
+          {currentUserId && post.user_id !== currentUserId && (
+            <ReportButton targetType="post" targetId={post.id} />
+          )}
         </div>
       </div>
 
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { MessageButton } from '@/components/messages';
+import type { GigApplicant, GigApplicationStatus } from '@/types/database';
+import type { ReviewStatus } from '@/services/client/gig_applications';
+
+interface ApplicantCardProps {
+  application: GigApplicant;
+  selected: boolean;
+  isUpdating?: boolean;
+  onToggleSelect: (applicationId: string) => void;
+  onStatusChange: (application: GigApplicant, status: ReviewStatus) => void;
+  onAddNote: (applicationId: string, note: string) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<GigApplicationStatus, string> = {
+  submitted: 'bg-gray-100 text-gray-700',
+  shortlisted: 'bg-[#E8DFFF] text-[#7823E1]',
+  rejected: 'bg-red-100 text-red-700',
+  hired: 'bg-green-100 text-green-700',
+  withdrawn: 'bg-yellow-100 text-yellow-700'
+};
+
+export default function ApplicantCard({
+  application,
+  selected,
+  isUpdating = false,
+  onToggleSelect,
+  onStatusChange,
+  onAddNote
+}: ApplicantCardProps) {
+  const [noteDraft, setNoteDraft] = useState('');
+  const [isSavingNote, setIsSavingNote] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+
+  const applicant = application.applicant;
+  const profile = applicant?.individual_profile;
+  const displayName = profile?.stage_name || applicant?.full_name || 'Unknown musician';
+  const isWithdrawn = application.status === 'withdrawn';
+  const notes = application.notes || [];
+
+  const handleSaveNote = async () => {
+    if (!noteDraft.trim()) return;
+    setIsSavingNote(true);
+    try {
+      await onAddNote(application.id, noteDraft);
+      setNoteDraft('');
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-6 ${isWithdrawn ? 'opacity-60' : ''}`}>
+      <div className="flex items-start gap-4">
+        <input
+          type="checkbox"
+          checked={selected}
+          disabled={isWithdrawn}
+          onChange={() => onToggleSelect(application.id)}
+          className="mt-1 h-4 w-4 rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+          aria-label={`Select ${displayName}`}
+        />
+
+        {applicant?.avatar_url ? (
+          <Image
+            src={applicant.avatar_url}
+            alt={displayName}
+            width={48}
+            height={48}
+            className="w-12 h-12 rounded-full object-cover"
+          />
+        ) : (
+          <div className="w-12 h-12 rounded-full bg-[#E8DFFF] text-[#7823E1] flex items-center justify-center font-semibold">
+            {displayName.charAt(0).toUpperCase()}
+          </div>
+        )}
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Link
+                href={`/profile/${application.applicant_user_id}`}
+                className="text-lg font-semibold text-gray-900 hover:text-[#7823E1]"
+              >
+                {displayName}
+              </Link>
+              {profile?.headliner && (
+                <p className="text-sm text-gray-600">{profile.headliner}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-1">
+                {[
+                  profile?.primary_instrument,
+                  profile?.location,
+                  profile?.years_experience != null ? `${profile.years_experience} yrs experience` : null
+                ].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[application.status]}`}>
+              {application.status}
+            </span>
+          </div>
+
+          {profile?.genres && profile.genres.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {profile.genres.slice(0, 4).map((genre) => (
+                <span key={genre} className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">
+                  {genre}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {application.message && (
+            <p className="text-sm text-gray-700 mt-4 whitespace-pre-line">{application.message}</p>
+          )}
+
+          {application.portfolio_urls && application.portfolio_urls.length > 0 && (
+            <div className="mt-3 space-y-1">
+              {application.portfolio_urls.map((url) => (
+                <a
+                  key={url}
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-sm text-[#7823E1] hover:underline truncate"
+                >
+                  {url}
+                </a>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-400 mt-3">
+            Applied {new Date(application.created_at).toLocaleDateString()}
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <MessageButton
+              applicationId={application.id}
+              label="Message"
+              className="px-3 py-1.5 text-sm font-medium border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            />
+            {!isWithdrawn && (
+              <>
+                {application.status !== 'shortlisted' && application.status !== 'hired' && (
+                  <button
+                    onClick={() => onStatusChange(application, 'shortlisted')}
+                    disabled={isUpdating}
+                    className="px-3 py-1.5 text-sm font-medium border border-[#7823E1] text-[#7823E1] rounded-lg hover:bg-[#E8DFFF] transition-colors disabled:opacity-50"
+                  >
+                    Shortlist
+                  </button>
+                )}
+                {application.status !== 'hired' && (
+                  <button
+                    onClick={() => onStatusChange(application, 'hired')}
+                    disabled={isUpdating}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-[#7823E1] rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+                  >
+                    Hire
+                  </button>
+                )}
+                {application.status !== 'rejected' && (
+                  <button
+                    onClick={() => onStatusChange(application, 'rejected')}
+                    disabled={isUpdating}
+                    className="px-3 py-1.5 text-sm font-medium border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                )}
+                {application.status !== 'submitted' && (
+                  <button
+                    onClick={() => onStatusChange(application, 'submitted')}
+                    disabled={isUpdating}
+                    className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 transition-colors disabled:opacity-50"
+                  >
+                    Move back to new
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="mt-4 border-t border-gray-100 pt-3">
+            <button
+              onClick={() => setShowNotes(!showNotes)}
+              className="text-sm font-medium text-gray-600 hover:text-gray-900"
+            >
+              Private notes ({notes.length})
+            </button>
+
+            {showNotes && (
+              <div className="mt-3 space-y-3">
+                {notes.map((note) => (
+                  <div key={note.id} className="bg-gray-50 rounded-lg p-3">
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{note.note}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {new Date(note.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                ))}
+                <div className="flex items-start gap-2">
+                  <textarea
+                    rows={2}
+                    value={noteDraft}
+                    onChange={(e) => setNoteDraft(e.target.value)}
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+                    placeholder="Only you and your team can see this note"
+                  />
+                  <button
+                    onClick={handleSaveNote}
+                    disabled={isSavingNote || !noteDraft.trim()}
+                    className="px-3 py-2 text-sm font-medium text-white bg-[#7823E1] rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+                  >
+                    {isSavingNote ? 'Saving...' : 'Add'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
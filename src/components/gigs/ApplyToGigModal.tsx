@@ -0,0 +1,174 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { applyToGig, type GigWithAuthor } from '@/services/client/gigs';
+import { gigCommitments } from '@/lib/availability/conflicts';
+import { useScheduleConflicts } from '@/hooks/useScheduleConflicts';
+import { ConflictWarning } from '@/components/schedule';
+import type { GigApplication } from '@/types/database';
+
+interface ApplyToGigModalProps {
+  gig: GigWithAuthor;
+  applicantUserId?: string | null; // Checked for clashes with the gig and its rehearsals
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (application: GigApplication) => void;
+}
+
+export default function ApplyToGigModal({ gig, applicantUserId = null, isOpen, onClose, onSuccess }: ApplyToGigModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [portfolioUrls, setPortfolioUrls] = useState<string[]>(['']);
+  const candidates = useMemo(() => gigCommitments(gig), [gig]);
+  const { conflicts } = useScheduleConflicts(isOpen ? applicantUserId : null, candidates);
+
+  const handleUrlChange = (index: number, value: string) => {
+    setPortfolioUrls(prev => prev.map((url, i) => (i === index ? value : url)));
+  };
+
+  const addUrlField = () => {
+    setPortfolioUrls(prev => [...prev, '']);
+  };
+
+  const removeUrlField = (index: number) => {
+    setPortfolioUrls(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const urls = portfolioUrls.map(url => url.trim()).filter(Boolean);
+    if (gig.portfolio_required && urls.length === 0) {
+      setError('This gig requires at least one portfolio link.');
+      return;
+    }
+
+    const invalidUrl = urls.find(url => !/^https?:\/\//i.test(url));
+    if (invalidUrl) {
+      setError(`"${invalidUrl}" is not a valid link. Links must start with http:// or https://`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const application = await applyToGig(gig.id, { message, portfolio_urls: urls });
+      if (!application) {
+        throw new Error('Failed to submit application');
+      }
+      onSuccess(application);
+      onClose();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to submit application. Please try again.';
+      setError(msg);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Apply to Gig</h2>
+              <p className="text-sm text-gray-600 mt-1">{gig.title}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          <ConflictWarning
+            conflicts={conflicts}
+            title="This gig clashes with your schedule"
+            note="You can still apply."
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Message to the poster
+            </label>
+            <textarea
+              rows={5}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+              placeholder="Introduce yourself and explain why you're a good fit..."
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Portfolio Links {gig.portfolio_required && '*'}
+            </label>
+            <div className="space-y-2">
+              {portfolioUrls.map((url, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => handleUrlChange(index, e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+                    placeholder="https://youtube.com/..."
+                  />
+                  {portfolioUrls.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removeUrlField(index)}
+                      className="text-sm text-gray-500 hover:text-red-600 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={addUrlField}
+              className="mt-2 text-sm font-medium text-[#7823E1] hover:opacity-80"
+            >
+              + Add another link
+            </button>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-[#7823E1] text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Submitting...' : 'Submit Application'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+
+interface CancelGigModalProps {
+  isOpen: boolean;
+  gigTitle: string;
+  onClose: () => void;
+  onConfirm: (reason: string) => Promise<void>;
+}
+
+export default function CancelGigModal({ isOpen, gigTitle, onClose, onConfirm }: CancelGigModalProps) {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      setError('Please let applicants know why the gig is cancelled.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onConfirm(reason);
+      setReason('');
+      onClose();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to cancel gig. Please try again.';
+      setError(msg);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">Cancel Gig</h2>
+          <p className="text-sm text-gray-600 mt-1">{gigTitle}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason for cancelling *
+            </label>
+            <textarea
+              rows={4}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+              placeholder="Applicants will see this reason on the gig page"
+            />
+            <p className="text-xs text-gray-500 mt-1">Cancelled gigs cannot be reopened, but you can duplicate them.</p>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Keep Gig
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Cancelling...' : 'Cancel Gig'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
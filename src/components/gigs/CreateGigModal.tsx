@@ -1,47 +1,64 @@
 'use client';
 
-import { useState } from 'react';
-import { createGig } from '@/services/client/gigs';
+import { useEffect, useState } from 'react';
+import { createGig, updateGig } from '@/services/client/gigs';
+import { geocodeAddress } from '@/services/client/geocoding';
+import type { VenueSuggestion } from '@/services/client/venues';
+import { VenueInput } from '@/components/venues';
+import type { Gig } from '@/types/database';
 
 interface CreateGigModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  gig?: Gig | null;
 }
 
-export default function CreateGigModal({ isOpen, onClose, onSuccess }: CreateGigModalProps) {
+const getInitialFormData = (gig?: Gig | null) => ({
+  title: gig?.title || '',
+  description: gig?.description || '',
+  gig_type: gig?.gig_type || 'one_time',
+  instruments_needed: gig?.instruments_needed || [] as string[],
+  genres: gig?.genres || [] as string[],
+  experience_level: gig?.experience_level || 'any',
+  venue_name: gig?.venue_name || '',
+  venue_organization_id: gig?.venue_organization_id || null,
+  venue_address: gig?.venue_address || '',
+  city: gig?.city || '',
+  state_province: gig?.state_province || '',
+  country: gig?.country || 'United States',
+  start_date: gig?.start_date || '',
+  end_date: gig?.end_date || '',
+  start_time: gig?.start_time?.slice(0, 5) || '',
+  end_time: gig?.end_time?.slice(0, 5) || '',
+  compensation_type: gig?.compensation_type || 'paid',
+  pay_rate_type: gig?.pay_rate_type || 'flat_fee',
+  pay_amount_min: gig?.pay_amount_min != null ? String(gig.pay_amount_min) : '',
+  pay_amount_max: gig?.pay_amount_max != null ? String(gig.pay_amount_max) : '',
+  currency: gig?.currency || 'USD',
+  application_method: gig?.application_method || 'email',
+  contact_email: gig?.contact_email || '',
+  contact_phone: gig?.contact_phone || '',
+  website_url: gig?.website_url || '',
+  audition_required: gig?.audition_required || false,
+  portfolio_required: gig?.portfolio_required || false,
+  special_requirements: gig?.special_requirements || '',
+  tags: gig?.tags || [] as string[],
+});
+
+export default function CreateGigModal({ isOpen, onClose, onSuccess, gig }: CreateGigModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    gig_type: 'one_time',
-    instruments_needed: [] as string[],
-    genres: [] as string[],
-    experience_level: 'any',
-    venue_name: '',
-    venue_address: '',
-    city: '',
-    state_province: '',
-    country: 'United States',
-    start_date: '',
-    end_date: '',
-    start_time: '',
-    end_time: '',
-    compensation_type: 'paid',
-    pay_rate_type: 'flat_fee',
-    pay_amount_min: '',
-    pay_amount_max: '',
-    currency: 'USD',
-    application_method: 'email',
-    contact_email: '',
-    contact_phone: '',
-    website_url: '',
-    audition_required: false,
-    portfolio_required: false,
-    special_requirements: '',
-    tags: [] as string[],
-  });
+  const [formData, setFormData] = useState(getInitialFormData(gig));
+  const isEditing = !!gig;
+
+  // Reload the form whenever the modal opens for a different gig
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(getInitialFormData(gig));
+      setError(null);
+    }
+  }, [isOpen, gig]);
 
   const instruments = [
     'Guitar', 'Piano', 'Violin', 'Drums', 'Saxophone', 'Trumpet', 
@@ -66,9 +83,48 @@ export default function CreateGigModal({ isOpen, onClose, onSuccess }: CreateGig
     }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const handleVenueNameChange = (value: string) => {
+    // Renaming the venue unlinks it; the address stays so it can be corrected by hand
+    setFormData(prev => ({ ...prev, venue_name: value, venue_organization_id: null }));
+  };
+
+  const selectVenue = (venue: VenueSuggestion) => {
+    setFormData(prev => ({
+      ...prev,
+      venue_name: venue.name,
+      venue_organization_id: venue.id,
+      venue_address: venue.address || prev.venue_address,
+      city: venue.city || prev.city,
+      state_province: venue.state_province || prev.state_province,
+      country: venue.country || prev.country
+    }));
+  };
+
+  // Geocode the venue so the gig shows up in radius searches. Edits only re-geocode when the
+  // address changed, and a failed lookup never blocks saving.
+  const resolveCoordinates = async (): Promise<{ latitude: number | null; longitude: number | null }> => {
+    const addressUnchanged = !!gig &&
+      gig.latitude != null &&
+      gig.venue_address === formData.venue_address &&
+      gig.city === formData.city &&
+      gig.state_province === formData.state_province &&
+      gig.country === formData.country;
+
+    if (addressUnchanged) {
+      return { latitude: gig.latitude, longitude: gig.longitude };
+    }
+
+    const result = await geocodeAddress({
+      address: formData.venue_address,
+      city: formData.city,
+      state_province: formData.state_province,
+      country: formData.country
+    });
+
+    return { latitude: result?.latitude ?? null, longitude: result?.longitude ?? null };
+  };
+
+  const submitGig = async (status?: 'draft' | 'open') => {
     if (!formData.title || !formData.description || !formData.city || formData.instruments_needed.length === 0) {
       setError('Please fill in all required fields.');
       return;
@@ -78,24 +134,52 @@ export default function CreateGigModal({ isOpen, onClose, onSuccess }: CreateGig
     setError(null);
 
     try {
-      const gigData = {
-        ...formData,
-        pay_amount_min: formData.pay_amount_min ? parseFloat(formData.pay_amount_min) : undefined,
-        pay_amount_max: formData.pay_amount_max ? parseFloat(formData.pay_amount_max) : undefined,
-      };
-
-      await createGig(gigData);
+      const coordinates = await resolveCoordinates();
+
+      if (isEditing && gig) {
+        // Status changes go through updateGig so handle_gig_status_change sets published_at
+        await updateGig(gig.id, {
+          ...formData,
+          gig_type: formData.gig_type as Gig['gig_type'],
+          experience_level: formData.experience_level as Gig['experience_level'],
+          compensation_type: formData.compensation_type as Gig['compensation_type'],
+          pay_rate_type: formData.pay_rate_type as Gig['pay_rate_type'],
+          application_method: formData.application_method as Gig['application_method'],
+          end_date: formData.end_date || null,
+          start_time: formData.start_time || null,
+          end_time: formData.end_time || null,
+          pay_amount_min: formData.pay_amount_min ? parseFloat(formData.pay_amount_min) : null,
+          pay_amount_max: formData.pay_amount_max ? parseFloat(formData.pay_amount_max) : null,
+          ...coordinates,
+          ...(status ? { status } : {}),
+        });
+      } else {
+        const gigData = {
+          ...formData,
+          pay_amount_min: formData.pay_amount_min ? parseFloat(formData.pay_amount_min) : undefined,
+          pay_amount_max: formData.pay_amount_max ? parseFloat(formData.pay_amount_max) : undefined,
+          ...coordinates,
+          status,
+        };
+
+        await createGig(gigData);
+      }
       onSuccess();
       onClose();
     } catch (err) {
-      console.error('Error creating gig:', err);
-      const message = err instanceof Error ? err.message : 'Failed to create gig. Please try again.';
+      console.error('Error saving gig:', err);
+      const message = err instanceof Error ? err.message : 'Failed to save gig. Please try again.';
       setError(message);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await submitGig(isEditing ? undefined : 'open');
+  };
+
   console.log('CreateGigModal render - isOpen:', isOpen);
   if (!isOpen) return null;
 
@@ -104,7 +188,7 @@ export default function CreateGigModal({ isOpen, onClose, onSuccess }: CreateGig
       <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6 border-b border-gray-200">
           <div className="flex items-center justify-between">
-            <h2 className="text-2xl font-bold text-gray-900">Post a New Gig</h2>
+            <h2 className="text-2xl font-bold text-gray-900">{isEditing ? 'Edit Gig' : 'Post a New Gig'}</h2>
             <button 
               onClick={onClose}
               className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -244,17 +328,23 @@ export default function CreateGigModal({ isOpen, onClose, onSuccess }: CreateGig
 
           {/* Location */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-gray-900">Location</h3>
-            
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Location</h3>
+              <p className="text-sm text-gray-500">
+                We look up this address so musicians can find your gig by distance.
+              </p>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Venue Name
                 </label>
-                <input
-                  type="text"
+                <VenueInput
                   value={formData.venue_name}
-                  onChange={(e) => handleInputChange('venue_name', e.target.value)}
+                  linkedVenue={formData.venue_organization_id ? { id: formData.venue_organization_id, name: formData.venue_name } : null}
+                  onTextChange={handleVenueNameChange}
+                  onSelect={selectVenue}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
                   placeholder="e.g., Columbia Metropolitan Convention Center"
                 />
@@ -545,12 +635,22 @@ export default function CreateGigModal({ isOpen, onClose, onSuccess }: CreateGig
             >
               Cancel
             </button>
+            {(!isEditing || gig?.status === 'draft') && (
+              <button
+                type="button"
+                onClick={() => submitGig(isEditing ? 'open' : 'draft')}
+                disabled={isSubmitting}
+                className="px-6 py-2 border border-[#7823E1] text-[#7823E1] rounded-lg hover:bg-[#E8DFFF] transition-colors disabled:opacity-50"
+              >
+                {isEditing ? 'Save & Publish' : 'Save as Draft'}
+              </button>
+            )}
             <button
               type="submit"
               disabled={isSubmitting}
               className="px-6 py-2 bg-[#7823E1] text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
             >
-              {isSubmitting ? 'Creating...' : 'Post Gig'}
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Post Gig'}
             </button>
           </div>
         </form>
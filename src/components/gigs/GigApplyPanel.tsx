@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { MessageButton } from '@/components/messages';
+import { declineInvitation, withdrawApplication, type GigWithAuthor } from '@/services/client/gigs';
+import type { GigApplication, GigInvitation } from '@/types/database';
+import ApplyToGigModal from './ApplyToGigModal';
+
+interface GigApplyPanelProps {
+  gig: GigWithAuthor;
+  currentUserId: string | null;
+  canManage: boolean;
+  initialApplication: GigApplication | null;
+  initialInvitation?: GigInvitation | null;
+}
+
+const STATUS_LABELS: Record<GigApplication['status'], string> = {
+  submitted: 'Application submitted',
+  shortlisted: 'You have been shortlisted',
+  rejected: 'Not selected this time',
+  hired: 'You have been hired',
+  withdrawn: 'Application withdrawn'
+};
+
+export default function GigApplyPanel({
+  gig,
+  currentUserId,
+  canManage,
+  initialApplication,
+  initialInvitation = null
+}: GigApplyPanelProps) {
+  const [application, setApplication] = useState<GigApplication | null>(initialApplication);
+  const [invitation, setInvitation] = useState<GigInvitation | null>(initialInvitation);
+  const [isDeclining, setIsDeclining] = useState(false);
+  const [showApplyModal, setShowApplyModal] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const deadlinePassed = !!gig.application_deadline &&
+    new Date(`${gig.application_deadline}T23:59:59`) < new Date();
+  const applicationsFull = gig.max_applications != null &&
+    (gig.applications_count || 0) >= gig.max_applications;
+
+  const handleWithdraw = async () => {
+    if (!application) return;
+    setIsWithdrawing(true);
+    setError(null);
+    try {
+      const updated = await withdrawApplication(application.id);
+      setApplication(updated);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to withdraw application.';
+      setError(msg);
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const handleDeclineInvitation = async () => {
+    if (!invitation) return;
+    setIsDeclining(true);
+    setError(null);
+    try {
+      const updated = await declineInvitation(invitation.id);
+      setInvitation(updated);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to decline invitation.';
+      setError(msg);
+    } finally {
+      setIsDeclining(false);
+    }
+  };
+
+  // Only worth showing while the musician hasn't answered it either way
+  const showInvitation = invitation?.status === 'pending' && gig.status === 'open' &&
+    (!application || application.status === 'withdrawn');
+
+  const renderAction = () => {
+    if (canManage) {
+      return (
+        <Link
+          href={`/gigs/${gig.id}/applicants`}
+          className="block w-full text-center px-4 py-3 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors"
+          style={{backgroundColor: '#7823E1'}}
+        >
+          Review Applicants ({gig.applications_count || 0})
+        </Link>
+      );
+    }
+
+    if (!currentUserId) {
+      return (
+        <Link
+          href="/"
+          className="block w-full text-center px-4 py-3 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors"
+          style={{backgroundColor: '#7823E1'}}
+        >
+          Sign in to apply
+        </Link>
+      );
+    }
+
+    if (application && application.status !== 'withdrawn') {
+      const canWithdraw = application.status === 'submitted' || application.status === 'shortlisted';
+      return (
+        <div className="space-y-3">
+          <div className="bg-[#E8DFFF] text-[#7823E1] rounded-lg px-4 py-3 text-sm font-medium text-center">
+            {STATUS_LABELS[application.status]}
+          </div>
+          {canWithdraw && gig.status === 'open' && (
+            <button
+              onClick={handleWithdraw}
+              disabled={isWithdrawing}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {isWithdrawing ? 'Withdrawing...' : 'Withdraw Application'}
+            </button>
+          )}
+          <MessageButton
+            applicationId={application.id}
+            label="Message the poster"
+            className="w-full px-4 py-2 border border-[#7823E1] rounded-lg text-sm font-medium text-[#7823E1] hover:bg-[#E8DFFF] transition-colors disabled:opacity-50"
+          />
+        </div>
+      );
+    }
+
+    if (gig.status !== 'open') {
+      return (
+        <div className="bg-gray-100 text-gray-700 rounded-lg px-4 py-3 text-sm font-medium text-center">
+          This gig is no longer accepting applications
+        </div>
+      );
+    }
+
+    if (gig.application_method !== 'in_app') {
+      return (
+        <p className="text-sm text-gray-600 text-center">
+          Apply using the contact details below.
+        </p>
+      );
+    }
+
+    return (
+      <button
+        onClick={() => setShowApplyModal(true)}
+        disabled={deadlinePassed || applicationsFull}
+        className="w-full px-4 py-3 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors disabled:opacity-50"
+        style={{backgroundColor: '#7823E1'}}
+      >
+        {deadlinePassed || applicationsFull
+          ? 'Applications Closed'
+          : application?.status === 'withdrawn' ? 'Apply Again' : 'Apply Now'}
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      {showInvitation && invitation && (
+        <div className="bg-[#E8DFFF] rounded-lg p-4 space-y-2">
+          <p className="text-sm font-semibold text-[#7823E1]">
+            {gig.author?.name ? `${gig.author.name} invited you to apply` : 'You have been invited to apply'}
+          </p>
+          {invitation.message && (
+            <p className="text-sm text-gray-700 whitespace-pre-line">{invitation.message}</p>
+          )}
+          <button
+            onClick={handleDeclineInvitation}
+            disabled={isDeclining}
+            className="text-xs text-gray-600 hover:underline disabled:opacity-50"
+            type="button"
+          >
+            {isDeclining ? 'Declining...' : 'Not interested'}
+          </button>
+        </div>
+      )}
+
+      {renderAction()}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <ApplyToGigModal
+        gig={gig}
+        applicantUserId={currentUserId}
+        isOpen={showApplyModal}
+        onClose={() => setShowApplyModal(false)}
+        onSuccess={setApplication}
+      />
+    </div>
+  );
+}
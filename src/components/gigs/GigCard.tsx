@@ -1,31 +1,33 @@
 'use client';
 
 import { GigWithAuthor } from '@/services/client/gigs';
-import { applyToGig } from '@/services/client/gigs';
 import { useState } from 'react';
+import Link from 'next/link';
+import ApplyToGigModal from './ApplyToGigModal';
+import HighlightedText from './HighlightedText';
 
 interface GigCardProps {
   gig: GigWithAuthor;
+  currentUserId?: string;
+  hasApplied?: boolean; // The current user has an application that isn't withdrawn
   onApply?: (gigId: string) => void;
 }
 
-export default function GigCard({ gig, onApply }: GigCardProps) {
-  const [isApplying, setIsApplying] = useState(false);
+export default function GigCard({ gig, currentUserId, hasApplied = false, onApply }: GigCardProps) {
+  const [showApplyModal, setShowApplyModal] = useState(false);
+  const [appliedHere, setAppliedHere] = useState(false);
+  const applied = hasApplied || appliedHere;
 
-  const handleApply = async () => {
-    if (isApplying) return;
-    
-    setIsApplying(true);
-    try {
-      await applyToGig(gig.id);
-      onApply?.(gig.id);
-      // TODO: Show success notification
-    } catch (error) {
-      console.error('Error applying to gig:', error);
-      // TODO: Show error notification
-    } finally {
-      setIsApplying(false);
-    }
+  const deadlinePassed = !!gig.application_deadline &&
+    new Date(`${gig.application_deadline}T23:59:59`) < new Date();
+  const applicationsFull = gig.max_applications != null &&
+    (gig.applications_count || 0) >= gig.max_applications;
+  const applicationsClosed = gig.status !== 'open' || deadlinePassed || applicationsFull;
+  const isPoster = !!currentUserId && gig.posted_by_user_id === currentUserId;
+
+  const handleApplied = () => {
+    setAppliedHere(true);
+    onApply?.(gig.id);
   };
 
   const formatDate = (dateString: string, timeString?: string | null) => {
@@ -213,7 +215,9 @@ export default function GigCard({ gig, onApply }: GigCardProps) {
       <div className="p-6">
         <div className="flex items-start justify-between mb-3">
           <div>
-            <h3 className="text-lg font-semibold text-gray-900">{gig.title}</h3>
+            <Link href={`/gigs/${gig.id}`} className="text-lg font-semibold text-gray-900 hover:text-[#7823E1]">
+              {gig.title_highlight ? <HighlightedText text={gig.title_highlight} /> : gig.title}
+            </Link>
             <p className="text-sm text-gray-600">{gig.author?.name || 'Anonymous'}</p>
           </div>
           <span className="text-sm font-medium text-green-600">{formatPayRange()}</span>
@@ -231,6 +235,9 @@ export default function GigCard({ gig, onApply }: GigCardProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
             </svg>
             {gig.venue_name ? `${gig.venue_name}, ${gig.city} ${gig.state_province || ''}` : `${gig.city}, ${gig.state_province || ''}`}
+            {gig.distance_km != null && (
+              <span className="ml-1 text-gray-500">· {gig.distance_km < 10 ? gig.distance_km.toFixed(1) : Math.round(gig.distance_km)} km away</span>
+            )}
           </div>
           <div className="flex items-center text-sm text-gray-600">
             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -240,7 +247,7 @@ export default function GigCard({ gig, onApply }: GigCardProps) {
           </div>
         </div>
         <p className="text-sm text-gray-700 mb-4 line-clamp-3">
-          {gig.description}
+          {gig.search_snippet ? <HighlightedText text={gig.search_snippet} /> : gig.description}
         </p>
         <div className="flex items-center justify-between">
           <div className="flex space-x-2 flex-wrap">
@@ -260,16 +267,33 @@ export default function GigCard({ gig, onApply }: GigCardProps) {
               </span>
             )}
           </div>
-          <button 
-            onClick={handleApply}
-            disabled={isApplying}
-            className="px-4 py-2 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors disabled:opacity-50" 
-            style={{backgroundColor: '#7823E1'}}
-          >
-            {isApplying ? 'Applying...' : 'Apply Now'}
-          </button>
+          {isPoster ? (
+            <Link
+              href={`/gigs/${gig.id}/applicants`}
+              className="px-4 py-2 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors whitespace-nowrap"
+              style={{backgroundColor: '#7823E1'}}
+            >
+              Applicants ({gig.applications_count || 0})
+            </Link>
+          ) : (
+            <button 
+              onClick={() => setShowApplyModal(true)}
+              disabled={applied || applicationsClosed}
+              className="px-4 py-2 text-white rounded-lg text-sm font-medium hover:opacity-90 transition-colors disabled:opacity-50" 
+              style={{backgroundColor: '#7823E1'}}
+            >
+              {applied ? 'Applied' : applicationsClosed ? 'Applications Closed' : 'Apply Now'}
+            </button>
+          )}
         </div>
       </div>
+
+      <ApplyToGigModal
+        gig={gig}
+        isOpen={showApplyModal}
+        onClose={() => setShowApplyModal(false)}
+        onSuccess={handleApplied}
+      />
     </div>
   );
 }
@@ -0,0 +1,372 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import type { GigWithAuthor } from '@/services/gigs';
+import { formatDate } from '@/lib/utils/date';
+import { gigCalendarEvents } from '@/lib/calendar/events';
+import { AddToCalendarButton } from '@/components/calendar';
+
+export interface GigPosterSummary {
+  headline: string | null;
+  location: string | null;
+  profileUrl: string | null;
+}
+
+interface GigDetailProps {
+  gig: GigWithAuthor;
+  poster?: GigPosterSummary | null;
+  sidebar?: React.ReactNode;
+}
+
+const GIG_TYPE_LABELS: Record<string, string> = {
+  one_time: 'One-time Gig',
+  recurring: 'Recurring Gig',
+  residency: 'Residency',
+  tour: 'Tour',
+  session: 'Recording Session',
+  teaching: 'Teaching',
+  other: 'Gig'
+};
+
+const PAY_RATE_LABELS: Record<string, string> = {
+  hourly: 'per hour',
+  daily: 'per day',
+  per_gig: 'per gig',
+  flat_fee: 'flat fee',
+  percentage: 'percent'
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  open: 'bg-green-100 text-green-700',
+  closed: 'bg-gray-100 text-gray-700',
+  filled: 'bg-blue-100 text-blue-700',
+  cancelled: 'bg-red-100 text-red-700'
+};
+
+function formatTime(timeString: string | null) {
+  if (!timeString) return null;
+  const [hours, minutes] = timeString.split(':');
+  const time = new Date();
+  time.setHours(parseInt(hours), parseInt(minutes));
+  return time.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+}
+
+function formatPay(gig: GigWithAuthor) {
+  if (gig.compensation_type === 'volunteer') return 'Volunteer';
+  if (gig.compensation_type === 'exposure') return 'For Exposure';
+  if (gig.compensation_type === 'profit_share') return 'Profit Share';
+
+  const currency = gig.currency || 'USD';
+  let amount = 'Negotiable';
+  if (gig.pay_amount_min && gig.pay_amount_max) {
+    amount = `${gig.pay_amount_min}-${gig.pay_amount_max} ${currency}`;
+  } else if (gig.pay_amount_min) {
+    amount = `${gig.pay_amount_min}+ ${currency}`;
+  } else if (gig.pay_amount_max) {
+    amount = `Up to ${gig.pay_amount_max} ${currency}`;
+  }
+
+  return gig.pay_rate_type ? `${amount} ${PAY_RATE_LABELS[gig.pay_rate_type] || ''}`.trim() : amount;
+}
+
+function fileNameFromUrl(url: string) {
+  try {
+    const path = new URL(url).pathname;
+    return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1)) || url;
+  } catch {
+    return url;
+  }
+}
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  if (value === null || value === undefined || value === '') return null;
+  return (
+    <div>
+      <dt className="text-sm font-medium text-gray-500">{label}</dt>
+      <dd className="text-sm text-gray-900 mt-1">{value}</dd>
+    </div>
+  );
+}
+
+function TagList({ items, className }: { items: string[] | null; className: string }) {
+  if (!items || items.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2">
+      {items.map((item) => (
+        <span key={item} className={`px-2 py-1 text-xs rounded-full ${className}`}>
+          {item}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function GigDetail({ gig, poster, sidebar }: GigDetailProps) {
+  const startTime = formatTime(gig.start_time);
+  const endTime = formatTime(gig.end_time);
+  const dateRange = gig.end_date && gig.end_date !== gig.start_date
+    ? `${formatDate(gig.start_date, 'long')} - ${formatDate(gig.end_date, 'long')}`
+    : formatDate(gig.start_date, 'long');
+  const timeRange = startTime && endTime ? `${startTime} - ${endTime}` : startTime;
+  const location = gig.is_remote
+    ? 'Remote'
+    : [gig.venue_name, gig.venue_address, gig.city, gig.state_province, gig.postal_code, gig.country]
+        .filter(Boolean)
+        .join(', ');
+  const ensembleSize = gig.ensemble_size_min && gig.ensemble_size_max
+    ? `${gig.ensemble_size_min}-${gig.ensemble_size_max} musicians`
+    : gig.ensemble_size_min
+      ? `${gig.ensemble_size_min}+ musicians`
+      : gig.ensemble_size_max ? `Up to ${gig.ensemble_size_max} musicians` : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <Link href="/gigs" className="text-sm text-gray-500 hover:text-gray-700">
+            &larr; Back to gigs
+          </Link>
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <span className="px-2 py-1 text-xs font-medium rounded-full bg-[#E8DFFF] text-[#7823E1]">
+              {GIG_TYPE_LABELS[gig.gig_type] || 'Gig'}
+            </span>
+            <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[gig.status] || ''}`}>
+              {gig.status}
+            </span>
+            {gig.urgent && (
+              <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-700">Urgent</span>
+            )}
+            {gig.featured && (
+              <span className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">Featured</span>
+            )}
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mt-3">{gig.title}</h1>
+          <p className="text-lg font-medium text-green-600 mt-2">{formatPay(gig)}</p>
+          <p className="text-gray-600 mt-1">
+            {dateRange}{timeRange ? ` · ${timeRange}` : ''}
+          </p>
+          <p className="text-gray-600">{location}</p>
+        </div>
+
+        {/* Images */}
+        {gig.images && gig.images.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {gig.images.map((image, index) => (
+              <Image
+                key={image}
+                src={image}
+                alt={`${gig.title} image ${index + 1}`}
+                width={400}
+                height={300}
+                unoptimized
+                className="w-full h-40 object-cover rounded-lg"
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Description */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">About this gig</h2>
+          <p className="text-gray-700 whitespace-pre-line">{gig.description}</p>
+          {gig.notes && (
+            <p className="text-sm text-gray-600 whitespace-pre-line mt-4">{gig.notes}</p>
+          )}
+        </div>
+
+        {/* Schedule and location */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Schedule &amp; Location</h2>
+            {gig.status !== 'cancelled' && (
+              <AddToCalendarButton
+                events={gigCalendarEvents(gig, (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, ''))}
+                filename={gig.title}
+              />
+            )}
+          </div>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <DetailRow label="Dates" value={dateRange} />
+            <DetailRow label="Time" value={timeRange} />
+            <DetailRow
+              label="Rehearsals"
+              value={gig.rehearsal_dates && gig.rehearsal_dates.length > 0
+                ? gig.rehearsal_dates.map(date => formatDate(date, 'long')).join(', ')
+                : null}
+            />
+            <DetailRow label="Apply by" value={formatDate(gig.application_deadline, 'long')} />
+            <DetailRow label="Location" value={location} />
+            <DetailRow
+              label="Venue"
+              value={gig.venue_organization_id && gig.venue_name ? (
+                <Link href={`/venues/${gig.venue_organization_id}`} className="text-[#7823E1] hover:underline">
+                  {gig.venue_name} on Bookd
+                </Link>
+              ) : null}
+            />
+            <DetailRow
+              label="Travel"
+              value={gig.travel_required
+                ? `Travel required${gig.travel_distance_km ? ` (up to ${gig.travel_distance_km} km)` : ''}`
+                : null}
+            />
+          </dl>
+        </div>
+
+        {/* Requirements */}
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-900">Requirements</h2>
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 mb-2">Instruments needed</h3>
+            <TagList items={gig.instruments_needed} className="bg-purple-100 text-purple-700" />
+          </div>
+          {gig.genres && gig.genres.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">Genres</h3>
+              <TagList items={gig.genres} className="bg-blue-100 text-blue-700" />
+            </div>
+          )}
+          {gig.required_skills && gig.required_skills.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">Required skills</h3>
+              <TagList items={gig.required_skills} className="bg-gray-100 text-gray-700" />
+            </div>
+          )}
+          {gig.preferred_skills && gig.preferred_skills.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">Preferred skills</h3>
+              <TagList items={gig.preferred_skills} className="bg-gray-100 text-gray-700" />
+            </div>
+          )}
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <DetailRow label="Experience level" value={gig.experience_level ? <span className="capitalize">{gig.experience_level}</span> : null} />
+            <DetailRow label="Ensemble size" value={ensembleSize} />
+            <DetailRow label="Equipment provided" value={gig.equipment_provided?.join(', ')} />
+            <DetailRow label="Equipment required" value={gig.equipment_required?.join(', ')} />
+            <DetailRow label="Dress code" value={gig.dress_code} />
+            <DetailRow label="Age requirements" value={gig.age_requirements} />
+          </dl>
+          {gig.special_requirements && (
+            <DetailRow label="Special requirements" value={<span className="whitespace-pre-line">{gig.special_requirements}</span>} />
+          )}
+        </div>
+
+        {/* Compensation */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Compensation</h2>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <DetailRow label="Pay" value={formatPay(gig)} />
+            <DetailRow label="Payment terms" value={gig.payment_terms} />
+            <DetailRow label="Additional benefits" value={gig.additional_benefits} />
+          </dl>
+        </div>
+
+        {/* Audition and application */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">How to apply</h2>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <DetailRow label="Audition" value={gig.audition_required ? 'Required' : 'Not required'} />
+            <DetailRow label="Portfolio" value={gig.portfolio_required ? 'Required' : 'Optional'} />
+            <DetailRow label="Audition details" value={gig.audition_details ? <span className="whitespace-pre-line">{gig.audition_details}</span> : null} />
+            <DetailRow
+              label="Applications"
+              value={gig.max_applications
+                ? `${gig.applications_count || 0} of ${gig.max_applications}`
+                : `${gig.applications_count || 0} received`}
+            />
+            {gig.application_method !== 'in_app' && (
+              <>
+                <DetailRow
+                  label="Email"
+                  value={gig.contact_email ? <a href={`mailto:${gig.contact_email}`} className="text-[#7823E1] hover:underline">{gig.contact_email}</a> : null}
+                />
+                <DetailRow
+                  label="Phone"
+                  value={gig.contact_phone ? <a href={`tel:${gig.contact_phone}`} className="text-[#7823E1] hover:underline">{gig.contact_phone}</a> : null}
+                />
+                <DetailRow
+                  label="Website"
+                  value={gig.website_url ? <a href={gig.website_url} target="_blank" rel="noopener noreferrer" className="text-[#7823E1] hover:underline break-all">{gig.website_url}</a> : null}
+                />
+              </>
+            )}
+          </dl>
+        </div>
+
+        {/* Attachments */}
+        {gig.attachments && gig.attachments.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Attachments</h2>
+            <ul className="space-y-2">
+              {gig.attachments.map((attachment) => (
+                <li key={attachment}>
+                  <a
+                    href={attachment}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-[#7823E1] hover:underline break-all"
+                  >
+                    {fileNameFromUrl(attachment)}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {gig.tags && gig.tags.length > 0 && (
+          <TagList items={gig.tags} className="bg-gray-100 text-gray-700" />
+        )}
+      </div>
+
+      {/* Sidebar */}
+      <div className="space-y-6">
+        {sidebar}
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-4">Posted by</h2>
+          {gig.author ? (
+            <div className="flex items-center gap-3">
+              {gig.author.avatar_url ? (
+                <Image
+                  src={gig.author.avatar_url}
+                  alt={gig.author.name}
+                  width={48}
+                  height={48}
+                  className="w-12 h-12 rounded-full object-cover"
+                />
+              ) : (
+                <div className="w-12 h-12 rounded-full bg-[#E8DFFF] text-[#7823E1] flex items-center justify-center font-semibold">
+                  {gig.author.name?.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div className="min-w-0">
+                {poster?.profileUrl ? (
+                  <Link href={poster.profileUrl} className="font-semibold text-gray-900 hover:text-[#7823E1]">
+                    {gig.author.name}
+                  </Link>
+                ) : (
+                  <p className="font-semibold text-gray-900">{gig.author.name}</p>
+                )}
+                {poster?.headline && <p className="text-sm text-gray-600">{poster.headline}</p>}
+                {poster?.location && <p className="text-sm text-gray-500">{poster.location}</p>}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">Sign in to see who posted this gig.</p>
+          )}
+          {gig.published_at && (
+            <p className="text-xs text-gray-400 mt-4">
+              Posted {formatDate(gig.published_at, 'long')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
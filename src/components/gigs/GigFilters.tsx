@@ -1,25 +1,70 @@
 'use client';
 
 import { GigFilters as GigFiltersType } from '@/services/client/gigs';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+
+// Where "within N km of me" is measured from: the viewer's geocoded profile location
+export interface GigSearchOrigin {
+  latitude: number;
+  longitude: number;
+  travelDistanceKm: number | null;
+}
 
 interface GigFiltersProps {
   filters: GigFiltersType;
   onFiltersChange: (filters: GigFiltersType) => void;
+  origin?: GigSearchOrigin | null;
   className?: string;
 }
 
-export default function GigFilters({ filters, onFiltersChange, className = '' }: GigFiltersProps) {
+export default function GigFilters({ filters, onFiltersChange, origin = null, className = '' }: GigFiltersProps) {
   const [localFilters, setLocalFilters] = useState(filters);
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  // Follow filters applied from outside (saved searches, "Clear Filters" in the empty state)
+  useEffect(() => {
+    setLocalFilters(filters);
+  }, [filters]);
 
-  const handleFilterChange = (key: keyof GigFiltersType, value: any) => {
-    const newFilters = { ...localFilters, [key]: value };
+  const applyFilterChanges = (changes: Partial<GigFiltersType>) => {
+    const newFilters = { ...localFilters, ...changes };
     setLocalFilters(newFilters);
     onFiltersChange(newFilters);
   };
 
+  const handleFilterChange = <K extends keyof GigFiltersType>(key: K, value: GigFiltersType[K]) => {
+    applyFilterChanges({ [key]: value });
+  };
+
+  // Without a geocoded profile location, fall back to the browser's current position
+  const handleRadiusChange = (value: string) => {
+    setLocationError(null);
+
+    if (!value) {
+      applyFilterChanges({ nearLatitude: undefined, nearLongitude: undefined, radiusKm: undefined });
+      return;
+    }
+
+    const radiusKm = Number(value);
+    if (origin) {
+      applyFilterChanges({ nearLatitude: origin.latitude, nearLongitude: origin.longitude, radiusKm });
+    } else if (typeof navigator !== 'undefined' && navigator.geolocation) {
+      navigator.geolocation.getCurrentPosition(
+        (position) => applyFilterChanges({
+          nearLatitude: position.coords.latitude,
+          nearLongitude: position.coords.longitude,
+          radiusKm
+        }),
+        () => setLocationError('Add a location to your profile or allow location access to search by distance.')
+      );
+    } else {
+      setLocationError('Add a location to your profile to search by distance.');
+    }
+  };
+
   const clearFilters = () => {
     const emptyFilters: GigFiltersType = {};
+    setLocationError(null);
     setLocalFilters(emptyFilters);
     onFiltersChange(emptyFilters);
   };
@@ -50,6 +95,8 @@ export default function GigFilters({ filters, onFiltersChange, className = '' }:
     { value: 'exposure', label: 'For Exposure' }
   ];
 
+  const radiusOptions = [10, 25, 50, 100, 250];
+
   const payRanges = [
     { min: 0, max: 100, label: '$0-100' },
     { min: 100, max: 250, label: '$100-250' },
@@ -201,6 +248,42 @@ export default function GigFilters({ filters, onFiltersChange, className = '' }:
           } as React.CSSProperties}
         />
 
+        {/* Distance Filter */}
+        <select
+          value={localFilters.radiusKm ?? ''}
+          onChange={(e) => handleRadiusChange(e.target.value)}
+          className="px-4 py-2 rounded-full text-sm font-medium border-2 transition-colors focus:outline-none focus:ring-2"
+          style={{
+            backgroundColor: '#E8DFFF',
+            color: '#7823E1',
+            borderColor: '#7823E1',
+            '--tw-ring-color': '#7823E1'
+          } as React.CSSProperties}
+        >
+          <option value="" className="text-gray-700">Any Distance</option>
+          {origin?.travelDistanceKm && !radiusOptions.includes(origin.travelDistanceKm) && (
+            <option value={origin.travelDistanceKm} className="text-gray-700">
+              Within my travel distance ({origin.travelDistanceKm} km)
+            </option>
+          )}
+          {radiusOptions.map(radius => (
+            <option key={radius} value={radius} className="text-gray-700">
+              Within {radius} km of me{origin?.travelDistanceKm === radius ? ' (my travel distance)' : ''}
+            </option>
+          ))}
+        </select>
+
+        {/* Include Expired Toggle */}
+        <label className="flex items-center gap-2 px-2 text-sm font-medium text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!localFilters.includeExpired}
+            onChange={(e) => handleFilterChange('includeExpired', e.target.checked || undefined)}
+            className="rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+          />
+          Include expired
+        </label>
+
         {/* Clear Filters Button */}
         {Object.keys(localFilters).some(key => localFilters[key as keyof GigFiltersType]) && (
           <button
@@ -211,6 +294,9 @@ export default function GigFilters({ filters, onFiltersChange, className = '' }:
           </button>
         )}
       </div>
+      {locationError && (
+        <p className="text-sm text-red-600 mt-3">{locationError}</p>
+      )}
     </div>
   );
 }
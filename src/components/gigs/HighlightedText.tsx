@@ -0,0 +1,27 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Render search_gigs highlights (<mark>…</mark>) as React nodes.
+ * Everything else stays plain text, so gig content is never injected as HTML.
+ */
+export default function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        // split() with a capture group puts the matched terms at odd indexes
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-[#E8DFFF] text-gray-900 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
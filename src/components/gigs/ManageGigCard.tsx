@@ -0,0 +1,111 @@
+'use client';
+
+import Link from 'next/link';
+import type { GigWithAuthor } from '@/services/client/gigs';
+import type { GigStatus } from '@/types/database';
+
+interface ManageGigCardProps {
+  gig: GigWithAuthor;
+  isBusy?: boolean;
+  onEdit: (gig: GigWithAuthor) => void;
+  onStatusChange: (gig: GigWithAuthor, status: GigStatus) => void;
+  onCancel: (gig: GigWithAuthor) => void;
+  onDuplicate: (gig: GigWithAuthor) => void;
+}
+
+const STATUS_STYLES: Record<GigStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  open: 'bg-green-100 text-green-700',
+  closed: 'bg-gray-100 text-gray-700',
+  filled: 'bg-blue-100 text-blue-700',
+  cancelled: 'bg-red-100 text-red-700'
+};
+
+export default function ManageGigCard({
+  gig,
+  isBusy = false,
+  onEdit,
+  onStatusChange,
+  onCancel,
+  onDuplicate
+}: ManageGigCardProps) {
+  const actionClass = 'px-3 py-1.5 text-sm font-medium border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <Link
+            href={`/gigs/${gig.id}`}
+            className="text-lg font-semibold text-gray-900 hover:text-[#7823E1]"
+          >
+            {gig.title}
+          </Link>
+          <p className="text-sm text-gray-600 mt-1">
+            {new Date(gig.start_date).toLocaleDateString()} · {gig.city}
+            {gig.author?.type === 'organization' && ` · ${gig.author.name}`}
+          </p>
+          {gig.status === 'cancelled' && gig.cancellation_reason && (
+            <p className="text-sm text-red-600 mt-2">Cancelled: {gig.cancellation_reason}</p>
+          )}
+        </div>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize whitespace-nowrap ${STATUS_STYLES[gig.status]}`}>
+          {gig.status}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        {gig.status !== 'draft' && (
+          <Link
+            href={`/gigs/${gig.id}/applicants`}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-[#7823E1] rounded-lg hover:opacity-90 transition-colors"
+          >
+            Applicants ({gig.applications_count || 0})
+          </Link>
+        )}
+        {gig.status !== 'cancelled' && (
+          <button onClick={() => onEdit(gig)} disabled={isBusy} className={actionClass}>
+            Edit
+          </button>
+        )}
+        {gig.status === 'draft' && (
+          <button onClick={() => onStatusChange(gig, 'open')} disabled={isBusy} className={actionClass}>
+            Publish
+          </button>
+        )}
+        {(gig.status === 'closed' || gig.status === 'filled') && (
+          <button onClick={() => onStatusChange(gig, 'open')} disabled={isBusy} className={actionClass}>
+            Reopen
+          </button>
+        )}
+        {gig.status === 'open' && (
+          <button onClick={() => onStatusChange(gig, 'closed')} disabled={isBusy} className={actionClass}>
+            Close
+          </button>
+        )}
+        {(gig.status === 'open' || gig.status === 'closed') && (
+          <button onClick={() => onStatusChange(gig, 'filled')} disabled={isBusy} className={actionClass}>
+            Mark Filled
+          </button>
+        )}
+        {gig.status === 'open' && (gig.applications_count || 0) === 0 && (
+          <button onClick={() => onStatusChange(gig, 'draft')} disabled={isBusy} className={actionClass}>
+            Unpublish
+          </button>
+        )}
+        <button onClick={() => onDuplicate(gig)} disabled={isBusy} className={actionClass}>
+          Duplicate
+        </button>
+        {gig.status !== 'cancelled' && (
+          <button
+            onClick={() => onCancel(gig)}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-700 transition-colors disabled:opacity-50"
+          >
+            Cancel Gig
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
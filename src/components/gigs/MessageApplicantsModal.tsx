@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+
+interface MessageApplicantsModalProps {
+  isOpen: boolean;
+  recipientCount: number;
+  onClose: () => void;
+  onSend: (body: string) => Promise<void>;
+}
+
+export default function MessageApplicantsModal({
+  isOpen,
+  recipientCount,
+  onClose,
+  onSend
+}: MessageApplicantsModalProps) {
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) {
+      setError('Please write a message.');
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      await onSend(body);
+      setBody('');
+      onClose();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to send message. Please try again.';
+      setError(msg);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Message Applicants</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Sending to {recipientCount} applicant{recipientCount === 1 ? '' : 's'}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          <textarea
+            rows={6}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+            placeholder="Each applicant receives this in their own thread with you..."
+          />
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSending || recipientCount === 0}
+              className="px-6 py-2 bg-[#7823E1] text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+            >
+              {isSending ? 'Sending...' : 'Send Message'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
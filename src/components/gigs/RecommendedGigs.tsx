@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getRecommendedGigs, type RecommendedGig } from '@/services/client/recommendations';
+import { logError } from '@/lib/utils/log';
+
+interface RecommendedGigsProps {
+  userId: string;
+  limit?: number;
+  layout?: 'list' | 'grid'; // Sidebar list on /home, horizontal grid above the /gigs results
+}
+
+export default function RecommendedGigs({ userId, limit = 5, layout = 'list' }: RecommendedGigsProps) {
+  const [recommendations, setRecommendations] = useState<RecommendedGig[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const data = await getRecommendedGigs(userId, limit);
+        if (!cancelled) setRecommendations(data);
+      } catch (err) {
+        logError('Error loading recommended gigs', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, limit]);
+
+  const formatDate = (dateString: string) =>
+    new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  // The /gigs page already lists everything; only take up space there when there's something to show
+  if (layout === 'grid' && (loading || recommendations.length === 0)) return null;
+
+  const items = recommendations.map(({ gig, score, explanation }) => (
+    <Link
+      key={gig.id}
+      href={`/gigs/${gig.id}`}
+      className="block border border-gray-200 rounded-lg p-3 hover:border-[#7823E1] hover:bg-gray-50 transition-colors"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-900 line-clamp-2">{gig.title}</h3>
+        <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded-full bg-[#E8DFFF] text-[#7823E1]">
+          {score}% match
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {gig.is_remote ? 'Remote' : gig.city} · {formatDate(gig.start_date)}
+      </p>
+      {explanation && (
+        <p className="text-xs text-[#7823E1] mt-1" title="Why this matched">
+          {explanation}
+        </p>
+      )}
+    </Link>
+  ));
+
+  if (layout === 'grid') {
+    return (
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Recommended for you</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">{items}</div>
+      </section>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Recommended for you</h2>
+      </div>
+      <div className="p-4 space-y-3">
+        {loading ? (
+          Array.from({ length: 3 }).map((_, index) => (
+            <div key={index} className="h-16 bg-gray-100 rounded-lg animate-pulse" />
+          ))
+        ) : recommendations.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No matches right now.{' '}
+            <Link href="/profile/edit" className="text-[#7823E1] hover:underline">
+              Add your instruments, genres and rate
+            </Link>{' '}
+            to get better recommendations.
+          </p>
+        ) : (
+          items
+        )}
+
+        <div className="pt-2">
+          <Link
+            href="/gigs"
+            className="block text-center text-sm font-medium hover:text-gray-900 transition-colors"
+            style={{color: '#7823E1'}}
+          >
+            Browse All Gigs →
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
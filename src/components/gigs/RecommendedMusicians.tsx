@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import type { GigWithAuthor } from '@/services/client/gigs';
+import { createGigApplicationsService } from '@/services/client/gig_applications';
+import { getRecommendedMusicians, type RecommendedMusician } from '@/services/client/recommendations';
+import type { GigInvitation } from '@/types/database';
+import InviteMusicianModal from './InviteMusicianModal';
+import { logError } from '@/lib/utils/log';
+
+interface RecommendedMusiciansProps {
+  gig: GigWithAuthor;
+}
+
+const INVITATION_LABELS: Record<GigInvitation['status'], string> = {
+  pending: 'Invited',
+  applied: 'Applied',
+  declined: 'Declined'
+};
+
+export default function RecommendedMusicians({ gig }: RecommendedMusiciansProps) {
+  const [recommendations, setRecommendations] = useState<RecommendedMusician[]>([]);
+  const [invitations, setInvitations] = useState<GigInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [inviting, setInviting] = useState<RecommendedMusician | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [musicians, sent] = await Promise.all([
+          getRecommendedMusicians(gig),
+          createGigApplicationsService().getInvitations(gig.id)
+        ]);
+        if (!cancelled) {
+          setRecommendations(musicians);
+          setInvitations(sent);
+        }
+      } catch (err) {
+        logError('Error loading recommended musicians', err);
+        if (!cancelled) setError('Failed to load recommendations.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [gig]);
+
+  const handleInvite = async (message: string) => {
+    if (!inviting) return;
+    const invitation = await createGigApplicationsService().inviteToGig(gig.id, inviting.profile.user_id, message);
+    setInvitations(prev => [invitation, ...prev]);
+  };
+
+  const canInvite = gig.status === 'open' || gig.status === 'draft';
+  const invitationFor = (userId: string) => invitations.find(invitation => invitation.invited_user_id === userId);
+  const displayName = (musician: RecommendedMusician) =>
+    musician.profile.stage_name || musician.profile.user?.full_name || 'Musician';
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Find players for this gig</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Musicians open to work and free on the gig date who match the instruments, genres, experience and location
+        </p>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <div key={index} className="h-16 bg-gray-100 rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : recommendations.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No matching musicians yet. Try widening the instruments or genres on this gig.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {recommendations.map(musician => {
+              const name = displayName(musician);
+              const invitation = invitationFor(musician.profile.user_id);
+
+              return (
+                <li key={musician.profile.id} className="flex items-center gap-4 py-3">
+                  {musician.profile.user?.avatar_url ? (
+                    <Image
+                      src={musician.profile.user.avatar_url}
+                      alt={name}
+                      width={40}
+                      height={40}
+                      className="w-10 h-10 rounded-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded-full bg-[#E8DFFF] text-[#7823E1] flex items-center justify-center font-semibold">
+                      {name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Link
+                        href={`/profile/${musician.profile.user_id}`}
+                        className="text-sm font-semibold text-gray-900 hover:text-[#7823E1] truncate"
+                      >
+                        {name}
+                      </Link>
+                      <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded-full bg-[#E8DFFF] text-[#7823E1]">
+                        {musician.score}% match
+                      </span>
+                      {musician.availability === 'free' && (
+                        <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                          Free that day
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-[#7823E1] mt-0.5">{musician.explanation}</p>
+                  </div>
+
+                  {invitation ? (
+                    <span className="px-3 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                      {INVITATION_LABELS[invitation.status]}
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => setInviting(musician)}
+                      disabled={!canInvite}
+                      className="px-3 py-1.5 text-sm font-medium text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+                      style={{backgroundColor: '#7823E1'}}
+                      type="button"
+                    >
+                      Invite to apply
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <InviteMusicianModal
+        isOpen={!!inviting}
+        musicianName={inviting ? displayName(inviting) : ''}
+        gigTitle={gig.title}
+        onClose={() => setInviting(null)}
+        onInvite={handleInvite}
+      />
+    </div>
+  );
+}
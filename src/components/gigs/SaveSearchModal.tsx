@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+
+interface SaveSearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (name: string, emailDigest: boolean) => Promise<void>;
+}
+
+export default function SaveSearchModal({ isOpen, onClose, onSave }: SaveSearchModalProps) {
+  const [name, setName] = useState('');
+  const [emailDigest, setEmailDigest] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Please give this search a name.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSave(name, emailDigest);
+      setName('');
+      setEmailDigest(false);
+      onClose();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to save search. Please try again.';
+      setError(msg);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">Save Search</h2>
+          <p className="text-sm text-gray-600 mt-1">We&apos;ll let you know when new gigs match these filters.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <input
+              type="text"
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+              placeholder="e.g., Paid jazz gigs near me"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={emailDigest}
+              onChange={(e) => setEmailDigest(e.target.checked)}
+              className="rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+            />
+            Email me a daily digest of new matches
+          </label>
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-[#7823E1] text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save Search'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import type { SavedSearchWithUnread } from '@/types/database';
+
+interface SavedSearchesBarProps {
+  searches: SavedSearchWithUnread[];
+  activeSearchId: string | null;
+  canSave: boolean;
+  onSelect: (search: SavedSearchWithUnread) => void;
+  onToggleDigest: (search: SavedSearchWithUnread) => void;
+  onDelete: (search: SavedSearchWithUnread) => void;
+  onSaveCurrent: () => void;
+}
+
+export default function SavedSearchesBar({
+  searches,
+  activeSearchId,
+  canSave,
+  onSelect,
+  onToggleDigest,
+  onDelete,
+  onSaveCurrent
+}: SavedSearchesBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-gray-700 mr-1">Saved searches:</span>
+
+      {searches.length === 0 && (
+        <span className="text-sm text-gray-500">None yet</span>
+      )}
+
+      {searches.map(search => {
+        const isActive = search.id === activeSearchId;
+        return (
+          <div
+            key={search.id}
+            className={`flex items-center rounded-full border text-sm transition-colors ${
+              isActive ? 'bg-[#7823E1] border-[#7823E1] text-white' : 'bg-white border-gray-300 text-gray-700'
+            }`}
+          >
+            <button
+              onClick={() => onSelect(search)}
+              className="pl-3 pr-2 py-1 font-medium"
+              type="button"
+            >
+              {search.name}
+              {search.unread_count > 0 && (
+                <span className={`ml-2 px-1.5 py-0.5 text-xs rounded-full ${
+                  isActive ? 'bg-white text-[#7823E1]' : 'bg-[#E8DFFF] text-[#7823E1]'
+                }`}>
+                  {search.unread_count} new
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => onToggleDigest(search)}
+              className={`px-1.5 py-1 text-xs ${search.email_digest ? '' : 'opacity-50'}`}
+              title={search.email_digest ? 'Daily email digest on' : 'Daily email digest off'}
+              aria-label={search.email_digest ? 'Turn off email digest' : 'Turn on email digest'}
+              type="button"
+            >
+              ✉
+            </button>
+            <button
+              onClick={() => onDelete(search)}
+              className="pl-1 pr-3 py-1 text-xs"
+              aria-label={`Delete saved search ${search.name}`}
+              type="button"
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={onSaveCurrent}
+        disabled={!canSave}
+        className="px-3 py-1 text-sm font-medium text-[#7823E1] hover:underline disabled:opacity-50 disabled:no-underline"
+        type="button"
+      >
+        + Save current filters
+      </button>
+    </div>
+  );
+}
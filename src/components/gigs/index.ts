@@ -1,5 +1,18 @@
 export { default as GigCard } from './GigCard';
 export { default as GigFilters } from './GigFilters';
+export { default as HighlightedText } from './HighlightedText';
 export { default as GigLoadingSkeleton } from './GigLoadingSkeleton';
 export { default as CreateGigModal } from './CreateGigModal';
+export { default as ApplyToGigModal } from './ApplyToGigModal';
+export { default as GigApplyPanel } from './GigApplyPanel';
+export { default as GigDetail } from './GigDetail';
+export { default as ApplicantCard } from './ApplicantCard';
+export { default as MessageApplicantsModal } from './MessageApplicantsModal';
+export { default as ManageGigCard } from './ManageGigCard';
+export { default as CancelGigModal } from './CancelGigModal';
+export { default as SaveSearchModal } from './SaveSearchModal';
+export { default as SavedSearchesBar } from './SavedSearchesBar';
+export { default as RecommendedGigs } from './RecommendedGigs';
+export { default as RecommendedMusicians } from './RecommendedMusicians';
+export { default as InviteMusicianModal } from './InviteMusicianModal';
 export { default as TestModal } from './TestModal';
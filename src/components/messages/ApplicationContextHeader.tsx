@@ -0,0 +1,92 @@
+'use client';
+
+import Link from 'next/link';
+import { formatDate } from '@/lib/utils/date';
+import type { ConversationApplication, GigApplicationStatus } from '@/types/database';
+
+interface ApplicationContextHeaderProps {
+  application: ConversationApplication;
+  isPoster: boolean; // Reviewers get a link to the applicants page instead of the public gig page
+}
+
+const APPLICATION_STATUS_LABELS: Record<GigApplicationStatus, string> = {
+  submitted: 'Applied',
+  shortlisted: 'Shortlisted',
+  rejected: 'Not selected',
+  hired: 'Hired',
+  withdrawn: 'Withdrawn'
+};
+
+const APPLICATION_STATUS_STYLES: Record<GigApplicationStatus, string> = {
+  submitted: 'bg-gray-100 text-gray-700',
+  shortlisted: 'bg-[#E8DFFF] text-[#7823E1]',
+  rejected: 'bg-red-100 text-red-700',
+  hired: 'bg-green-100 text-green-700',
+  withdrawn: 'bg-yellow-100 text-yellow-700'
+};
+
+const PAY_RATE_SUFFIXES: Record<string, string> = {
+  hourly: '/hr',
+  daily: '/day',
+  per_gig: ' per gig',
+  flat_fee: ' flat',
+  percentage: '%'
+};
+
+function formatGigPay(gig: NonNullable<ConversationApplication['gig']>): string {
+  if (gig.compensation_type === 'volunteer') return 'Volunteer';
+  if (gig.compensation_type === 'exposure') return 'For Exposure';
+  if (gig.compensation_type === 'profit_share') return 'Profit Share';
+
+  const currency = gig.currency || 'USD';
+  let amount = 'Pay negotiable';
+  if (gig.pay_amount_min && gig.pay_amount_max) {
+    amount = `${gig.pay_amount_min}-${gig.pay_amount_max} ${currency}`;
+  } else if (gig.pay_amount_min) {
+    amount = `${gig.pay_amount_min}+ ${currency}`;
+  } else if (gig.pay_amount_max) {
+    amount = `Up to ${gig.pay_amount_max} ${currency}`;
+  }
+
+  return gig.pay_rate_type && amount !== 'Pay negotiable' ? `${amount}${PAY_RATE_SUFFIXES[gig.pay_rate_type] || ''}` : amount;
+}
+
+export default function ApplicationContextHeader({ application, isPoster }: ApplicationContextHeaderProps) {
+  const gig = application.gig;
+  if (!gig) return null;
+
+  const location = gig.is_remote
+    ? 'Remote'
+    : [gig.venue_name, gig.city, gig.state_province].filter(Boolean).join(', ');
+  const details = [
+    formatDate(gig.start_date, 'long'),
+    gig.start_time ? gig.start_time.slice(0, 5) : null,
+    location,
+    formatGigPay(gig)
+  ].filter(Boolean);
+
+  return (
+    <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Application for</p>
+        <Link href={`/gigs/${gig.id}`} className="block text-sm font-semibold text-gray-900 hover:text-[#7823E1] truncate">
+          {gig.title}
+        </Link>
+        <p className="text-xs text-gray-600 mt-0.5">{details.join(' · ')}</p>
+      </div>
+      <div className="flex flex-col items-end gap-1 shrink-0">
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${APPLICATION_STATUS_STYLES[application.status]}`}>
+          {APPLICATION_STATUS_LABELS[application.status]}
+        </span>
+        {gig.status !== 'open' && (
+          <span className="text-xs text-gray-500 capitalize">Gig {gig.status}</span>
+        )}
+        {isPoster && (
+          <Link href={`/gigs/${gig.id}/applicants`} className="text-xs text-[#7823E1] hover:underline">
+            Review applicants
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
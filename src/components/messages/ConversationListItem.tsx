@@ -0,0 +1,58 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { formatTimeAgo } from '@/services/utils';
+import type { ConversationSummary } from '@/types/database';
+import { formatMessagePreview, getConversationTitle } from './messageFormat';
+
+interface ConversationListItemProps {
+  conversation: ConversationSummary;
+  currentUserId: string;
+}
+
+export default function ConversationListItem({ conversation, currentUserId }: ConversationListItemProps) {
+  const title = getConversationTitle(conversation, conversation.participants);
+  const unread = conversation.unread_count > 0;
+  const avatar = conversation.kind === 'organization'
+    ? conversation.organization_logo_url
+    : conversation.kind === 'direct' ? conversation.participants[0]?.avatar_url : null;
+  const preview = formatMessagePreview(conversation.last_message_body, conversation.last_message_has_attachments);
+  const sentByMe = conversation.last_message_sender_id === currentUserId;
+
+  return (
+    <Link
+      href={`/messages/${conversation.id}`}
+      className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 ${unread ? 'bg-[#E8DFFF]/40' : 'bg-white'}`}
+    >
+      {avatar ? (
+        <Image src={avatar} alt={title} width={44} height={44} className="w-11 h-11 rounded-full object-cover shrink-0" />
+      ) : (
+        <span className="w-11 h-11 rounded-full bg-[#E8DFFF] text-[#7823E1] flex items-center justify-center font-semibold shrink-0">
+          {conversation.kind === 'group' ? conversation.participants.length + 1 : title.charAt(0).toUpperCase()}
+        </span>
+      )}
+      <span className="flex-1 min-w-0">
+        <span className="flex items-baseline justify-between gap-2">
+          <span className={`truncate text-sm ${unread ? 'font-semibold text-gray-900' : 'font-medium text-gray-800'}`}>{title}</span>
+          {conversation.last_message_at && (
+            <span className="text-xs text-gray-500 shrink-0">{formatTimeAgo(conversation.last_message_at)}</span>
+          )}
+        </span>
+        {(conversation.kind === 'organization' || conversation.kind === 'application') && conversation.participants.length > 0 && (
+          <span className="block truncate text-xs text-gray-500">
+            with {conversation.participants.map(person => person.full_name || 'Bookd member').join(', ')}
+          </span>
+        )}
+        <span className={`block truncate text-sm ${unread ? 'text-gray-900' : 'text-gray-600'}`}>
+          {sentByMe && conversation.last_message_body !== null ? `You: ${preview}` : preview}
+        </span>
+      </span>
+      {unread && (
+        <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-[#7823E1] text-white text-xs font-medium flex items-center justify-center shrink-0">
+          {conversation.unread_count > 99 ? '99+' : conversation.unread_count}
+        </span>
+      )}
+    </Link>
+  );
+}
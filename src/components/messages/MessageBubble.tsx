@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { ReportButton } from '@/components/safety';
+import type { Message } from '@/types/database';
+import { formatAttachmentSize } from './messageFormat';
+
+interface MessageBubbleProps {
+  message: Message;
+  mine: boolean;
+  senderName?: string; // Shown above other people's messages in groups
+  receipt?: string | null; // e.g. "Seen" or "Seen by Ana, Joe", under the user's latest message
+  onEdit?: (message: Message, body: string) => Promise<void>;
+  onDelete?: (message: Message) => Promise<void>;
+}
+
+function formatMessageTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+export default function MessageBubble({ message, mine, senderName, receipt, onEdit, onDelete }: MessageBubbleProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.body);
+  const [saving, setSaving] = useState(false);
+  const deleted = Boolean(message.deleted_at);
+
+  const saveEdit = async () => {
+    if (!onEdit || !draft.trim()) return;
+    setSaving(true);
+    try {
+      await onEdit(message, draft);
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={`group flex flex-col ${mine ? 'items-end' : 'items-start'}`}>
+      {senderName && !mine && <span className="text-xs text-gray-500 mb-0.5 ml-1">{senderName}</span>}
+
+      <div className={`flex items-center gap-2 max-w-[80%] ${mine ? 'flex-row-reverse' : ''}`}>
+        <div
+          className={`rounded-2xl px-4 py-2 text-sm ${
+            deleted
+              ? 'bg-gray-50 border border-gray-200 text-gray-400 italic'
+              : mine ? 'bg-[#7823E1] text-white' : 'bg-gray-100 text-gray-900'
+          }`}
+        >
+          {deleted ? (
+            'Message deleted'
+          ) : editing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={2}
+                className="w-64 px-2 py-1 text-sm text-gray-900 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-[#7823E1]"
+              />
+              <div className="flex justify-end gap-2 text-xs">
+                <button type="button" onClick={() => { setEditing(false); setDraft(message.body); }} className="underline">
+                  Cancel
+                </button>
+                <button type="button" onClick={saveEdit} disabled={saving} className="font-semibold underline disabled:opacity-50">
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+              {message.attachments.length > 0 && (
+                <div className={`space-y-2 ${message.body ? 'mt-2' : ''}`}>
+                  {message.attachments.map(attachment => (
+                    attachment.resource_type === 'image' ? (
+                      <a key={attachment.public_id} href={attachment.url} target="_blank" rel="noopener noreferrer">
+                        <Image src={attachment.url} alt={attachment.original_filename} width={480} height={360} unoptimized className="max-h-60 w-auto h-auto rounded-lg" />
+                      </a>
+                    ) : attachment.resource_type === 'video' && attachment.format && ['mp3', 'wav', 'm4a', 'ogg', 'aac'].includes(attachment.format) ? (
+                      <audio key={attachment.public_id} controls src={attachment.url} className="max-w-full" />
+                    ) : (
+                      <a
+                        key={attachment.public_id}
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg ${mine ? 'bg-white/15' : 'bg-white border border-gray-200'}`}
+                      >
+                        <span aria-hidden>📎</span>
+                        <span className="truncate underline">{attachment.original_filename}</span>
+                        <span className="text-xs opacity-75 shrink-0">{formatAttachmentSize(attachment.bytes)}</span>
+                      </a>
+                    )
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {mine && !deleted && !editing && (onEdit || onDelete) && (
+          <div className="hidden group-hover:flex gap-2 text-xs text-gray-400">
+            {onEdit && message.body && (
+              <button type="button" onClick={() => setEditing(true)} className="hover:text-gray-700">Edit</button>
+            )}
+            {onDelete && (
+              <button type="button" onClick={() => onDelete(message)} className="hover:text-red-600">Delete</button>
+            )}
+          </div>
+        )}
+
+        {!mine && !deleted && message.sender_user_id && (
+          <ReportButton
+            targetType="message"
+            targetId={message.id}
+            className="hidden group-hover:inline text-xs text-gray-400 hover:text-red-600"
+          />
+        )}
+      </div>
+
+      <span className="text-xs text-gray-400 mt-0.5 mx-1">
+        {formatMessageTime(message.created_at)}
+        {message.edited_at && !deleted && ' · edited'}
+        {receipt && ` · ${receipt}`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createMessagesService } from '@/services/client/messages';
+
+interface MessageButtonProps {
+  userId?: string; // Opens the one-to-one thread with this user
+  organizationId?: string; // Or the thread with this organization's admins
+  applicationId?: string; // Or the thread about a gig application
+  label?: string;
+  className?: string;
+  beforeOpen?: () => Promise<void>; // e.g. follow first when the button doubles as "Connect"
+}
+
+export default function MessageButton({
+  userId,
+  organizationId,
+  applicationId,
+  label = 'Message',
+  className = 'px-4 py-2 text-sm font-medium text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-60 bg-[#7823E1]',
+  beforeOpen
+}: MessageButtonProps) {
+  const router = useRouter();
+  const [opening, setOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards on /network navigate on click, so keep this from bubbling up to them
+    e.stopPropagation();
+    setOpening(true);
+    setError(null);
+    try {
+      if (beforeOpen) await beforeOpen();
+      const service = createMessagesService();
+      const conversationId = applicationId
+        ? await service.openApplicationConversation(applicationId)
+        : organizationId
+          ? await service.startOrganizationConversation(organizationId)
+          : await service.startDirectConversation(userId as string);
+      router.push(`/messages/${conversationId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the conversation');
+      setOpening(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex flex-col items-end">
+      <button type="button" onClick={handleClick} disabled={opening || (!userId && !organizationId && !applicationId)} className={className}>
+        {opening ? '...' : label}
+      </button>
+      {error && <span className="text-xs text-red-600 mt-1 max-w-[12rem] text-right">{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { MAX_ATTACHMENT_BYTES, UploadError, uploadMessageAttachment } from '@/lib/cloudinary';
+import type { TemplateOption, TemplateValues } from '@/services/client/message_templates';
+import type { MessageAttachment } from '@/types/database';
+import { formatAttachmentSize, toMessageAttachment } from './messageFormat';
+import TemplatePicker from './TemplatePicker';
+
+// Matches the messages.attachments check in migration 47
+const MAX_ATTACHMENTS = 10;
+
+interface ComposerTemplates {
+  options: TemplateOption[];
+  values: TemplateValues;
+  onSave: (title: string, body: string) => Promise<void>;
+  onDelete: (templateId: string) => Promise<void>;
+}
+
+interface MessageComposerProps {
+  conversationId: string;
+  onSend: (body: string, attachments: MessageAttachment[]) => Promise<void>;
+  onTyping?: () => void;
+  disabled?: boolean;
+  templates?: ComposerTemplates; // Posters replying in application threads
+}
+
+export default function MessageComposer({ conversationId, onSend, onTyping, disabled = false, templates }: MessageComposerProps) {
+  const [body, setBody] = useState('');
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canSend = !disabled && !sending && uploadProgress === null && (body.trim().length > 0 || attachments.length > 0);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError(null);
+
+    for (const file of Array.from(files)) {
+      if (attachments.length >= MAX_ATTACHMENTS) {
+        setError(`You can attach up to ${MAX_ATTACHMENTS} files to one message`);
+        break;
+      }
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        setError(`${file.name} is larger than ${formatAttachmentSize(MAX_ATTACHMENT_BYTES)}`);
+        continue;
+      }
+
+      try {
+        setUploadProgress(0);
+        const upload = await uploadMessageAttachment(file, { conversationId, onProgress: setUploadProgress });
+        setAttachments(prev => [...prev, toMessageAttachment(upload, file.name)]);
+      } catch (err) {
+        setError(err instanceof UploadError ? err.message : `Could not upload ${file.name}`);
+      } finally {
+        setUploadProgress(null);
+      }
+    }
+
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSend = async () => {
+    if (!canSend) return;
+    setSending(true);
+    setError(null);
+    try {
+      await onSend(body, attachments);
+      setBody('');
+      setAttachments([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a new line
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 p-3 space-y-2">
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map(attachment => (
+            <span key={attachment.public_id} className="inline-flex items-center gap-2 px-2 py-1 text-xs bg-gray-100 rounded-full">
+              <span className="truncate max-w-[10rem]">{attachment.original_filename}</span>
+              <button
+                type="button"
+                onClick={() => setAttachments(prev => prev.filter(item => item.public_id !== attachment.public_id))}
+                className="text-gray-500 hover:text-red-600"
+                aria-label={`Remove ${attachment.original_filename}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {uploadProgress !== null && (
+        <div className="h-1 bg-gray-200 rounded-full overflow-hidden">
+          <div className="h-full bg-[#7823E1] transition-all" style={{ width: `${uploadProgress}%` }} />
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-end gap-2">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || uploadProgress !== null}
+          className="p-2 text-gray-500 hover:text-[#7823E1] disabled:opacity-50"
+          title="Attach a file"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+          </svg>
+        </button>
+        {templates && !disabled && (
+          <TemplatePicker
+            templates={templates.options}
+            values={templates.values}
+            draft={body}
+            onInsert={setBody}
+            onSave={templates.onSave}
+            onDelete={templates.onDelete}
+          />
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="image/*,audio/*,video/*,application/pdf"
+          onChange={(e) => handleFiles(e.target.files)}
+          className="hidden"
+        />
+        <textarea
+          value={body}
+          onChange={(e) => { setBody(e.target.value); onTyping?.(); }}
+          onKeyDown={handleKeyDown}
+          rows={1}
+          maxLength={5000}
+          disabled={disabled}
+          placeholder={disabled ? 'You can no longer send messages here' : 'Write a message...'}
+          className="flex-1 resize-none px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#7823E1] disabled:bg-gray-50"
+        />
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={!canSend}
+          className="px-4 py-2 text-sm font-medium text-white bg-[#7823E1] rounded-lg hover:opacity-90 disabled:opacity-50"
+        >
+          {sending ? 'Sending...' : 'Send'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createUsersService } from '@/services/client/users';
+import { MAX_GROUP_PARTICIPANTS } from '@/services/client/messages';
+import type { UserWithProfile } from '@/types/database';
+
+interface NewGroupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreate: (title: string, userIds: string[]) => Promise<void>;
+}
+
+export default function NewGroupModal({ isOpen, onClose, onCreate }: NewGroupModalProps) {
+  const [title, setTitle] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserWithProfile[]>([]);
+  const [selected, setSelected] = useState<UserWithProfile[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Suggest connections until the user types, then search everyone
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const service = createUsersService();
+      const people = query.trim()
+        ? await service.searchUsers(query.trim(), 10)
+        : await service.listMyConnections(10);
+      if (!cancelled) setResults(people);
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [isOpen, query]);
+
+  const toggle = (person: UserWithProfile) => {
+    setSelected(prev => prev.some(item => item.id === person.id)
+      ? prev.filter(item => item.id !== person.id)
+      : prev.length + 1 >= MAX_GROUP_PARTICIPANTS ? prev : [...prev, person]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected.length < 2) {
+      setError('Pick at least two people for a group');
+      return;
+    }
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      await onCreate(title.trim(), selected.map(person => person.id));
+      setTitle('');
+      setSelected([]);
+      setQuery('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create group. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">New group</h2>
+              <p className="text-sm text-gray-600 mt-1">Up to {MAX_GROUP_PARTICIPANTS} people, including you</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Group name (optional)
+            </label>
+            <input
+              type="text"
+              maxLength={100}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+              placeholder="e.g. Friday night trio"
+            />
+          </div>
+
+          {selected.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {selected.map(person => (
+                <button
+                  key={person.id}
+                  type="button"
+                  onClick={() => toggle(person)}
+                  className="inline-flex items-center gap-1 px-3 py-1 text-sm bg-[#E8DFFF] text-[#7823E1] rounded-full"
+                >
+                  {person.full_name || 'Bookd member'} <span aria-hidden>×</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Add people
+            </label>
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+              placeholder="Search by name"
+            />
+            <ul className="mt-2 max-h-56 overflow-y-auto divide-y divide-gray-100">
+              {results.map(person => {
+                const isSelected = selected.some(item => item.id === person.id);
+                return (
+                  <li key={person.id}>
+                    <button
+                      type="button"
+                      onClick={() => toggle(person)}
+                      className="w-full flex items-center justify-between px-2 py-2 text-left text-sm hover:bg-gray-50"
+                    >
+                      <span>{person.full_name || 'Bookd member'}</span>
+                      {isSelected && <span className="text-[#7823E1]">✓</span>}
+                    </button>
+                  </li>
+                );
+              })}
+              {results.length === 0 && (
+                <li className="px-2 py-2 text-sm text-gray-500">{query ? 'No one found' : 'Search for people to add'}</li>
+              )}
+            </ul>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isCreating}
+              className="px-6 py-2 bg-[#7823E1] text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+            >
+              {isCreating ? 'Creating...' : 'Create Group'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
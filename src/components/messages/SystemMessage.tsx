@@ -0,0 +1,30 @@
+'use client';
+
+import type { Message } from '@/types/database';
+
+interface SystemMessageProps {
+  message: Message;
+}
+
+const EVENT_ICONS: Record<string, string> = {
+  applied: '📨',
+  shortlisted: '⭐',
+  hired: '✅',
+  rejected: '✖️',
+  withdrawn: '↩️',
+  submitted: '📨'
+};
+
+export default function SystemMessage({ message }: SystemMessageProps) {
+  return (
+    <div className="flex justify-center">
+      <span className="inline-flex items-center gap-1.5 px-3 py-1 text-xs text-gray-600 bg-gray-100 rounded-full">
+        <span aria-hidden>{EVENT_ICONS[message.system_event || ''] || 'ℹ️'}</span>
+        {message.body}
+        <span className="text-gray-400">
+          · {new Date(message.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+        </span>
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { fillTemplate, type TemplateOption, type TemplateValues } from '@/services/client/message_templates';
+
+interface TemplatePickerProps {
+  templates: TemplateOption[];
+  values: TemplateValues;
+  draft: string; // What's in the composer, offered as a new template
+  onInsert: (text: string) => void;
+  onSave: (title: string, body: string) => Promise<void>;
+  onDelete: (templateId: string) => Promise<void>;
+}
+
+export default function TemplatePicker({ templates, values, draft, onInsert, onSave, onDelete }: TemplatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!newTitle.trim() || !draft.trim()) return;
+    setSaving(true);
+    try {
+      await onSave(newTitle, draft);
+      setNewTitle('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-gray-500 hover:text-[#7823E1]"
+        title="Templates"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+          <div className="px-3 py-2 border-b border-gray-100 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+            Templates
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+            {templates.map(template => (
+              <li key={template.id ?? template.title} className="flex items-start gap-2 px-3 py-2 hover:bg-gray-50">
+                <button
+                  type="button"
+                  onClick={() => { onInsert(fillTemplate(template.body, values)); setIsOpen(false); }}
+                  className="flex-1 text-left min-w-0"
+                >
+                  <span className="block text-sm font-medium text-gray-900">{template.title}</span>
+                  <span className="block text-xs text-gray-500 truncate">{fillTemplate(template.body, values)}</span>
+                </button>
+                {template.id && (
+                  <button
+                    type="button"
+                    onClick={() => onDelete(template.id as string)}
+                    className="text-xs text-gray-400 hover:text-red-600"
+                    title="Delete template"
+                  >
+                    ×
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="p-3 border-t border-gray-100 space-y-2">
+            <p className="text-xs text-gray-500">
+              Save what you&apos;ve written as a template. Use {'{first_name}'}, {'{gig_title}'} or {'{gig_date}'} to fill in details.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                maxLength={80}
+                placeholder="Template name"
+                className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-[#7823E1]"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || !newTitle.trim() || !draft.trim()}
+                className="px-3 py-1 text-sm font-medium text-[#7823E1] border border-[#7823E1] rounded hover:bg-[#E8DFFF] disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
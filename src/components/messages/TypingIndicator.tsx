@@ -0,0 +1,24 @@
+'use client';
+
+interface TypingIndicatorProps {
+  names: string[];
+}
+
+export default function TypingIndicator({ names }: TypingIndicatorProps) {
+  if (names.length === 0) return null;
+
+  const label = names.length === 1
+    ? `${names[0]} is typing`
+    : names.length === 2 ? `${names[0]} and ${names[1]} are typing` : 'Several people are typing';
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-1 text-xs text-gray-500" aria-live="polite">
+      <span className="flex gap-0.5">
+        <span className="w-1.5 h-1.5 rounded-full bg-gray-400 animate-bounce" />
+        <span className="w-1.5 h-1.5 rounded-full bg-gray-400 animate-bounce [animation-delay:150ms]" />
+        <span className="w-1.5 h-1.5 rounded-full bg-gray-400 animate-bounce [animation-delay:300ms]" />
+      </span>
+      {label}...
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+export { default as ApplicationContextHeader } from './ApplicationContextHeader';
+export { default as ConversationListItem } from './ConversationListItem';
+export { default as MessageBubble } from './MessageBubble';
+export { default as MessageButton } from './MessageButton';
+export { default as MessageComposer } from './MessageComposer';
+export { default as NewGroupModal } from './NewGroupModal';
+export { default as SystemMessage } from './SystemMessage';
+export { default as TemplatePicker } from './TemplatePicker';
+export { default as TypingIndicator } from './TypingIndicator';
+export * from './messageFormat';
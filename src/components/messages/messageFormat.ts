@@ -0,0 +1,53 @@
+import type { CloudinaryUploadResponse } from '@/lib/cloudinary';
+import type { ConversationKind, MessageAttachment, User } from '@/types/database';
+
+type ConversationPerson = Pick<User, 'full_name'>;
+
+interface TitledConversation {
+  kind: ConversationKind;
+  title: string | null;
+  organization_name?: string | null;
+  gig_title?: string | null;
+}
+
+// What a thread is called from the current user's side; `others` excludes the current user
+export function getConversationTitle(conversation: TitledConversation, others: ConversationPerson[]): string {
+  const names = others.map(person => person.full_name || 'Bookd member');
+
+  if (conversation.kind === 'group') {
+    if (conversation.title) return conversation.title;
+    return names.length > 0 ? names.join(', ') : 'Group';
+  }
+  if (conversation.kind === 'organization' && conversation.organization_name) {
+    return conversation.organization_name;
+  }
+  if (conversation.kind === 'application' && conversation.gig_title) {
+    return conversation.gig_title;
+  }
+  return names[0] || 'Bookd member';
+}
+
+// One-line summary of the latest message for the inbox
+export function formatMessagePreview(body: string | null, hasAttachments: boolean): string {
+  if (body) return body;
+  return hasAttachments ? 'Sent an attachment' : 'No messages yet';
+}
+
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Keep only what a message needs from Cloudinary's upload response
+export function toMessageAttachment(upload: CloudinaryUploadResponse, fileName: string): MessageAttachment {
+  return {
+    url: upload.secure_url,
+    public_id: upload.public_id,
+    resource_type: upload.resource_type,
+    format: upload.format || null,
+    bytes: upload.bytes,
+    original_filename: fileName,
+    ...(upload.width ? { width: upload.width, height: upload.height } : {})
+  };
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { formatTimeAgo } from '@/services/utils';
+import { formatDate } from '@/lib/utils/date';
+import { REPORT_TARGET_LABELS } from '@/services/client/reports';
+import { MODERATION_ACTION_VERBS, createModerationService } from '@/services/client/moderation';
+import type { ModerationActionWithUsers } from '@/types/database';
+
+interface ModerationLogEntryProps {
+  entry: ModerationActionWithUsers;
+  onSuspensionLifted: (userId: string) => void;
+}
+
+export default function ModerationLogEntry({ entry, onSuspensionLifted }: ModerationLogEntryProps) {
+  const [showSnapshot, setShowSnapshot] = useState(false);
+  const [isLifting, setIsLifting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const moderatorName = entry.moderator?.full_name || 'A moderator';
+  const subjectName = entry.subject?.full_name || 'a deleted account';
+  const target = entry.target_type === 'user' || entry.action === 'unsuspend'
+    ? subjectName
+    : `a ${REPORT_TARGET_LABELS[entry.target_type]} by ${subjectName}`;
+
+  // Only the latest suspension can be lifted, and only while it is running
+  const canLift = entry.action === 'suspend' &&
+    !!entry.subject?.suspended_until &&
+    entry.subject.suspended_until === entry.suspended_until &&
+    new Date(entry.subject.suspended_until) > new Date();
+
+  const handleLift = async () => {
+    if (!entry.subject || !window.confirm(`Lift ${subjectName}'s suspension now?`)) return;
+
+    setIsLifting(true);
+    setError(null);
+    try {
+      await createModerationService().liftSuspension(entry.subject.id);
+      onSuspensionLifted(entry.subject.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to lift this suspension');
+    } finally {
+      setIsLifting(false);
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 space-y-1">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-gray-800">
+          <span className="font-semibold">{moderatorName}</span>{' '}
+          {MODERATION_ACTION_VERBS[entry.action]}{' '}
+          {entry.subject ? (
+            <Link href={`/profile/${entry.subject.id}`} className="hover:underline">{target}</Link>
+          ) : (
+            target
+          )}
+          {entry.action === 'suspend' && entry.suspended_until && (
+            <> until {formatDate(entry.suspended_until, 'long')}</>
+          )}
+        </p>
+        <span className="text-xs text-gray-500 shrink-0">{formatTimeAgo(entry.created_at)}</span>
+      </div>
+
+      {entry.note && <p className="text-sm text-gray-600">&ldquo;{entry.note}&rdquo;</p>}
+
+      <div className="flex items-center gap-4">
+        {entry.content_snapshot && (
+          <button
+            type="button"
+            onClick={() => setShowSnapshot(!showSnapshot)}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            {showSnapshot ? 'Hide content' : 'Show content'}
+          </button>
+        )}
+        {canLift && (
+          <button
+            type="button"
+            disabled={isLifting}
+            onClick={handleLift}
+            className="text-xs text-[#7823E1] hover:underline disabled:opacity-50"
+          >
+            {isLifting ? 'Lifting...' : 'Lift suspension'}
+          </button>
+        )}
+      </div>
+
+      {showSnapshot && entry.content_snapshot && (
+        <p className="text-sm text-gray-700 bg-gray-50 rounded px-3 py-2 whitespace-pre-wrap break-words">
+          {entry.content_snapshot}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { formatTimeAgo } from '@/services/utils';
+import { formatDate } from '@/lib/utils/date';
+import { REPORT_REASON_OPTIONS, REPORT_TARGET_LABELS } from '@/services/client/reports';
+import {
+  MODERATION_CONTENT_ACTIONS,
+  MODERATION_CONTENT_ACTION_LABELS,
+  SUSPENSION_DAY_OPTIONS,
+  createModerationService
+} from '@/services/client/moderation';
+import type { ModerationAuthorAction, ModerationContentAction, ModerationQueueItem } from '@/types/database';
+
+interface ModerationQueueCardProps {
+  item: ModerationQueueItem;
+  onResolved: (item: ModerationQueueItem) => void;
+}
+
+const CONTEXT_LABELS: Record<string, string> = {
+  comment: 'On the post',
+  message: 'Earlier in the conversation',
+  user: 'Bio'
+};
+
+const reasonLabel = (reason: string) =>
+  REPORT_REASON_OPTIONS.find(option => option.reason === reason)?.label || reason;
+
+// Where an admin can see the content in place, when it has a page of its own
+const viewLink = (item: ModerationQueueItem): string | null => {
+  if (item.target_type === 'gig' && !item.is_removed) return `/gigs/${item.target_id}`;
+  if (item.target_type === 'user') return `/profile/${item.target_id}`;
+  return null;
+};
+
+export default function ModerationQueueCard({ item, onResolved }: ModerationQueueCardProps) {
+  const actions = MODERATION_CONTENT_ACTIONS[item.target_type];
+  const [action, setAction] = useState<ModerationContentAction>('dismiss');
+  const [authorAction, setAuthorAction] = useState<ModerationAuthorAction | ''>('');
+  const [suspendDays, setSuspendDays] = useState(SUSPENSION_DAY_OPTIONS[2]);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const label = REPORT_TARGET_LABELS[item.target_type];
+  const link = viewLink(item);
+  const suspendedUntil = item.author_suspended_until && new Date(item.author_suspended_until) > new Date()
+    ? formatDate(item.author_suspended_until, 'long')
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (action === 'delete' && !window.confirm(`Delete this ${label}? This can't be undone.`)) return;
+    if (authorAction === 'suspend' && !window.confirm(
+      `Suspend ${item.author_name || 'this account'} for ${suspendDays} day${suspendDays === 1 ? '' : 's'}?`
+    )) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await createModerationService().moderate(item.target_type, item.target_id, {
+        action,
+        authorAction: authorAction || null,
+        suspendDays,
+        note
+      });
+      onResolved(item);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save this decision');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          {item.author_avatar_url ? (
+            <Image src={item.author_avatar_url} alt={item.author_name || ''} width={40} height={40} className="w-10 h-10 rounded-full object-cover shrink-0" />
+          ) : (
+            <span className="w-10 h-10 rounded-full bg-gray-200 shrink-0" />
+          )}
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              {item.author_user_id ? (
+                <Link href={`/profile/${item.author_user_id}`} className="font-semibold text-gray-900 hover:underline truncate">
+                  {item.author_name || 'Unknown user'}
+                </Link>
+              ) : (
+                <span className="font-semibold text-gray-500">Deleted account</span>
+              )}
+              {suspendedUntil && (
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">
+                  Suspended until {suspendedUntil}
+                </span>
+              )}
+              {item.author_prior_actions > 0 && (
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                  {item.author_prior_actions} earlier action{item.author_prior_actions === 1 ? '' : 's'}
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-gray-500">
+              <span className="capitalize">{label}</span>
+              {item.first_flagged_at && <> · flagged {formatTimeAgo(item.first_flagged_at)}</>}
+              {link && (
+                <> · <Link href={link} className="text-[#7823E1] hover:underline">View</Link></>
+              )}
+            </p>
+          </div>
+        </div>
+        {item.report_count > 0 && (
+          <span className="px-2.5 py-1 text-sm font-semibold rounded-full bg-[#E8DFFF] text-[#7823E1] shrink-0">
+            {item.report_count} report{item.report_count === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {item.report_reasons.map(reason => (
+          <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+            {reasonLabel(reason)}
+          </span>
+        ))}
+        {item.flagged_reason && (
+          <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+            Flagged: {item.flagged_reason}
+          </span>
+        )}
+        {item.is_hidden && (
+          <span className="px-2 py-0.5 text-xs rounded-full bg-red-50 text-red-700">Hidden</span>
+        )}
+        {item.is_removed && (
+          <span className="px-2 py-0.5 text-xs rounded-full bg-red-50 text-red-700">Since deleted</span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {item.context && (
+          <div className="border-l-4 border-gray-200 pl-3">
+            <p className="text-xs font-medium text-gray-500 mb-1">{CONTEXT_LABELS[item.target_type] || 'Context'}</p>
+            <p className="text-sm text-gray-600 whitespace-pre-wrap">{item.context}</p>
+          </div>
+        )}
+        <p className="text-gray-900 whitespace-pre-wrap break-words">
+          {item.content || <span className="italic text-gray-500">No text</span>}
+        </p>
+      </div>
+
+      {item.report_details.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">What reporters said</p>
+          <ul className="space-y-1">
+            {item.report_details.map((details, index) => (
+              <li key={index} className="text-sm text-gray-700 bg-gray-50 rounded px-3 py-2">{details}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="border-t border-gray-200 pt-4 space-y-3">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">The {label}</span>
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as ModerationContentAction)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+            >
+              {actions.map(value => (
+                <option key={value} value={value}>{MODERATION_CONTENT_ACTION_LABELS[value]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">The author</span>
+            <div className="flex gap-2">
+              <select
+                value={authorAction}
+                disabled={!item.author_user_id}
+                onChange={(e) => setAuthorAction(e.target.value as ModerationAuthorAction | '')}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent disabled:bg-gray-50"
+              >
+                <option value="">No action</option>
+                <option value="warn">Warn</option>
+                <option value="suspend">Suspend</option>
+              </select>
+              {authorAction === 'suspend' && (
+                <select
+                  value={suspendDays}
+                  onChange={(e) => setSuspendDays(Number(e.target.value))}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+                  aria-label="Suspension length"
+                >
+                  {SUSPENSION_DAY_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days} day{days === 1 ? '' : 's'}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </label>
+        </div>
+
+        <textarea
+          rows={2}
+          value={note}
+          maxLength={2000}
+          onChange={(e) => setNote(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+          placeholder="Note for the log. The author sees it if you hide, delete, warn or suspend. (optional)"
+        />
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+            style={{backgroundColor: '#7823E1'}}
+          >
+            {isSubmitting ? 'Saving...' : 'Save decision'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { default as ModerationLogEntry } from './ModerationLogEntry';
+export { default as ModerationQueueCard } from './ModerationQueueCard';
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { NOTIFICATIONS_CHANGED_EVENT, createNotificationsService } from '@/services/client/notifications';
+import type { UserNotificationWithActor } from '@/types/database';
+import NotificationItem from './NotificationItem';
+
+// How often the badge re-checks for new notifications while the tab is open
+const POLL_INTERVAL_MS = 60_000;
+
+export default function NotificationBell() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [open, setOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<UserNotificationWithActor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the badge current: on navigation, on focus, when another view reads notifications, and on a timer
+  useEffect(() => {
+    const service = createNotificationsService();
+    const updateCount = () => {
+      service.getUnreadCount().then(setUnreadCount);
+    };
+
+    updateCount();
+    const timer = setInterval(updateCount, POLL_INTERVAL_MS);
+    window.addEventListener('focus', updateCount);
+    window.addEventListener(NOTIFICATIONS_CHANGED_EVENT, updateCount);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', updateCount);
+      window.removeEventListener(NOTIFICATIONS_CHANGED_EVENT, updateCount);
+    };
+  }, [pathname]);
+
+  // Close the dropdown on navigation and on clicks outside it
+  useEffect(() => {
+    setOpen(false);
+  }, [pathname]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggle = async () => {
+    const next = !open;
+    setOpen(next);
+    if (next) {
+      setLoading(true);
+      setNotifications(await createNotificationsService().getNotifications({ limit: 8 }));
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = async (notification: UserNotificationWithActor) => {
+    if (!notification.read_at) {
+      await createNotificationsService().markRead(notification.id);
+      window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+    }
+    setOpen(false);
+    if (notification.link) router.push(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    if (await createNotificationsService().markAllRead()) {
+      const now = new Date().toISOString();
+      setNotifications(prev => prev.map(notification => ({ ...notification, read_at: notification.read_at || now })));
+      setUnreadCount(0);
+      window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={toggle}
+        className="relative p-2 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span
+            className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] px-1 py-0.5 text-xs font-semibold text-white rounded-full text-center"
+            style={{backgroundColor: '#7823E1'}}
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h2 className="text-sm font-semibold text-gray-900">Notifications</h2>
+            {unreadCount > 0 && (
+              <button type="button" onClick={handleMarkAllRead} className="text-xs font-medium text-[#7823E1] hover:underline">
+                Mark all as read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {loading ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">You&apos;re all caught up.</p>
+            ) : (
+              notifications.map(notification => (
+                <NotificationItem key={notification.id} notification={notification} onOpen={handleOpen} compact />
+              ))
+            )}
+          </div>
+          <Link href="/notifications" className="block px-4 py-3 text-sm font-medium text-center text-[#7823E1] border-t border-gray-200 hover:bg-gray-50">
+            See all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import Image from 'next/image';
+import { formatTimeAgo } from '@/services/utils';
+import type { UserNotificationWithActor } from '@/types/database';
+
+interface NotificationItemProps {
+  notification: UserNotificationWithActor;
+  onOpen: (notification: UserNotificationWithActor) => void;
+  onDelete?: (notification: UserNotificationWithActor) => void;
+  compact?: boolean; // Bell dropdown: one-line body, no delete button
+}
+
+// Emoji shown when there is no actor avatar to display
+const TYPE_ICONS: Record<string, string> = {
+  new_follower: '👋',
+  post_like: '❤️',
+  post_comment: '💬',
+  comment_reply: '💬',
+  followed_post: '📝',
+  followed_gig: '🎵',
+  followed_event: '🎟️',
+  gig_updated: '📅',
+  gig_application: '📨',
+  application_status: '✅',
+  event_reminder: '⏰',
+  performance_credit: '🎼',
+  new_message: '✉️',
+  moderation_notice: '⚠️',
+  report_update: '🛡️'
+};
+
+export default function NotificationItem({ notification, onOpen, onDelete, compact = false }: NotificationItemProps) {
+  const unread = !notification.read_at;
+  const actorName = notification.actor?.full_name || '';
+
+  return (
+    <div className={`flex items-start gap-3 px-4 py-3 ${unread ? 'bg-[#E8DFFF]/40' : 'bg-white'} hover:bg-gray-50`}>
+      <button type="button" onClick={() => onOpen(notification)} className="flex flex-1 items-start gap-3 text-left min-w-0">
+        {notification.actor?.avatar_url ? (
+          <Image src={notification.actor.avatar_url} alt={actorName} width={36} height={36} className="w-9 h-9 rounded-full object-cover shrink-0" />
+        ) : (
+          <span className="w-9 h-9 rounded-full bg-gray-100 flex items-center justify-center text-lg shrink-0">
+            {TYPE_ICONS[notification.type] || '🔔'}
+          </span>
+        )}
+        <span className="flex-1 min-w-0">
+          <span className={`block text-sm ${unread ? 'font-semibold text-gray-900' : 'text-gray-800'}`}>{notification.title}</span>
+          {notification.body && (
+            <span className={`block text-sm text-gray-600 ${compact ? 'truncate' : ''}`}>{notification.body}</span>
+          )}
+          <span className="block text-xs text-gray-500 mt-0.5">{formatTimeAgo(notification.created_at)}</span>
+        </span>
+        {unread && <span className="w-2 h-2 mt-1.5 rounded-full bg-[#7823E1] shrink-0" aria-label="Unread" />}
+      </button>
+      {!compact && onDelete && (
+        <button
+          type="button"
+          onClick={() => onDelete(notification)}
+          className="text-gray-400 hover:text-red-600 shrink-0"
+          title="Remove notification"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { default as NotificationBell } from './NotificationBell';
+export { default as NotificationItem } from './NotificationItem';
@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createAvailabilityService } from '@/services/client/availability';
+import { formatBlackout, formatSlot, groupSlotsByDay } from '@/lib/availability/schedule';
+import type { Availability, AvailabilityBlackout } from '@/types/database';
+import { logWarning } from '@/lib/utils/log';
+
+interface AvailabilitySectionProps {
+  userId: string;
+}
+
+// Upcoming blackouts beyond this are summarised as "+N more"
+const MAX_BLACKOUTS = 5;
+
+export function AvailabilitySection({ userId }: AvailabilitySectionProps) {
+  const [availability, setAvailability] = useState<Required<Availability> | null>(null);
+  const [blackouts, setBlackouts] = useState<AvailabilityBlackout[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const loadAvailability = async () => {
+      try {
+        const service = createAvailabilityService();
+        const today = new Date();
+        const todayString = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+        const [weekly, upcoming] = await Promise.all([
+          service.getAvailability(userId),
+          service.getBlackouts(userId, todayString)
+        ]);
+        if (mounted) {
+          setAvailability(weekly);
+          setBlackouts(upcoming);
+        }
+      } catch (err) {
+        logWarning('Could not load availability', err);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    loadAvailability();
+    return () => { mounted = false; };
+  }, [userId]);
+
+  const days = availability ? groupSlotsByDay(availability.weekly) : [];
+
+  // Nothing to show until the musician has shared some availability
+  if (loading || (days.length === 0 && blackouts.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Availability</h2>
+        {availability?.timezone && (
+          <p className="text-sm text-gray-500 mt-1">Times in {availability.timezone.replace(/_/g, ' ')}</p>
+        )}
+      </div>
+
+      <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Usually available</h3>
+          {days.length === 0 ? (
+            <p className="text-sm text-gray-500">No regular hours set</p>
+          ) : (
+            <dl className="space-y-1 text-sm">
+              {days.map(day => (
+                <div key={day.day} className="flex gap-3">
+                  <dt className="w-24 text-gray-500">{day.label}</dt>
+                  <dd className="text-gray-900">{day.slots.map(formatSlot).join(', ')}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Unavailable</h3>
+          {blackouts.length === 0 ? (
+            <p className="text-sm text-gray-500">No upcoming blackout dates</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {blackouts.slice(0, MAX_BLACKOUTS).map(blackout => (
+                <li key={blackout.id} className="text-gray-900">
+                  {formatBlackout(blackout)}
+                  {blackout.note && <span className="text-gray-500"> · {blackout.note}</span>}
+                </li>
+              ))}
+              {blackouts.length > MAX_BLACKOUTS && (
+                <li className="text-gray-500">+{blackouts.length - MAX_BLACKOUTS} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
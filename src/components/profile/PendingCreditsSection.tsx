@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getPendingPerformanceCredits, respondToPerformanceCredit } from '@/services/client/performances';
+import type { CreditedPerformance } from '@/types/database';
+
+interface PendingCreditsSectionProps {
+  organizationId?: string; // Credits for this organization instead of the current user
+}
+
+// Who added the credit: the performance owner's stage name or full name, or the organization
+const creditedBy = (credit: CreditedPerformance) =>
+  credit.past_performance?.owner?.stage_name ||
+  credit.past_performance?.owner?.user?.full_name ||
+  credit.organization_performance?.organization?.name ||
+  'Someone';
+
+export function PendingCreditsSection({ organizationId }: PendingCreditsSectionProps) {
+  const [credits, setCredits] = useState<CreditedPerformance[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPendingPerformanceCredits(organizationId)
+      .then(setCredits)
+      .catch(() => setCredits([]));
+  }, [organizationId]);
+
+  const handleRespond = async (creditId: string, status: 'confirmed' | 'declined') => {
+    setRespondingId(creditId);
+    if (await respondToPerformanceCredit(creditId, status)) {
+      setCredits(prev => prev.filter(credit => credit.id !== creditId));
+    }
+    setRespondingId(null);
+  };
+
+  if (credits.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Performance Credits to Review</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Confirmed credits appear in {organizationId ? "the organization's" : 'your'} performances.
+        </p>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {credits.map(credit => {
+          const performance = credit.past_performance || credit.organization_performance;
+          return (
+            <li key={credit.id} className="p-6 flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium text-gray-900">{performance?.title || 'Untitled performance'}</p>
+                <p className="text-sm text-gray-600">
+                  Credited by {creditedBy(credit)}
+                  {credit.role && <> as <span className="font-medium">{credit.role}</span></>}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {[
+                    performance?.performance_date ? new Date(performance.performance_date).toLocaleDateString() : null,
+                    performance?.venue
+                  ].filter(Boolean).join(' • ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  type="button"
+                  disabled={respondingId === credit.id}
+                  onClick={() => handleRespond(credit.id, 'declined')}
+                  className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Decline
+                </button>
+                <button
+                  type="button"
+                  disabled={respondingId === credit.id}
+                  onClick={() => handleRespond(credit.id, 'confirmed')}
+                  className="px-3 py-1.5 text-sm font-medium text-white rounded-md hover:opacity-90 disabled:opacity-50"
+                  style={{ backgroundColor: '#7823E1' }}
+                >
+                  Confirm
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
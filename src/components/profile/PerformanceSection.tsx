@@ -3,16 +3,33 @@
 import { useState, useEffect } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import Link from 'next/link';
-import { getCurrentUserPastPerformances, getUserPastPerformances } from '@/services/client/performances';
-import type { PastPerformance } from '@/types/database';
+import {
+  getCreditedPerformances,
+  getPerformanceCredits,
+  getUserPastPerformances
+} from '@/services/client/performances';
+import type { PerformanceCreditWithParty } from '@/types/database';
 
 interface PerformanceSectionProps {
   isOwner?: boolean;
   userId?: string;
 }
 
+// A performance on this profile: one of the musician's own entries, or a confirmed credit on someone else's
+interface PerformanceEntry {
+  key: string;
+  title: string;
+  role: string | null;
+  venue: string | null;
+  venueId: string | null; // Linked venue organization
+  performance_date: string | null;
+  description: string | null;
+  creditedBy: string | null; // Set for credits; whose performance it is
+  lineup: PerformanceCreditWithParty[]; // Confirmed credits, excluding this profile's own
+}
+
 export function PerformanceSection({ isOwner = false, userId }: PerformanceSectionProps) {
-  const [performances, setPerformances] = useState<PastPerformance[]>([]);
+  const [performances, setPerformances] = useState<PerformanceEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [effectiveIsOwner, setEffectiveIsOwner] = useState<boolean>(isOwner);
@@ -42,12 +59,65 @@ export function PerformanceSection({ isOwner = false, userId }: PerformanceSecti
         setLoading(true);
         setError(null);
         
-        const data = effectiveIsOwner && !userId
-          ? await getCurrentUserPastPerformances()
-          : userId
-          ? await getUserPastPerformances(userId)
-          : [];
-        setPerformances(data);
+        const profileUserId = userId ?? (effectiveIsOwner ? (await supabase.auth.getUser()).data.user?.id : undefined);
+        if (!profileUserId) {
+          setPerformances([]);
+          return;
+        }
+
+        const [own, credited] = await Promise.all([
+          getUserPastPerformances(profileUserId),
+          getCreditedPerformances({ userId: profileUserId })
+        ]);
+
+        // Lineups for every performance shown, so each participant sees who else took part
+        const lineups = await getPerformanceCredits({
+          pastPerformanceIds: [
+            ...own.map(performance => performance.id),
+            ...credited.map(credit => credit.past_performance_id).filter((id): id is string => !!id)
+          ],
+          organizationPerformanceIds: credited
+            .map(credit => credit.organization_performance_id)
+            .filter((id): id is string => !!id)
+        });
+        const lineupFor = (pastId: string | null, orgPerformanceId: string | null) => lineups.filter(credit =>
+          credit.status === 'confirmed' &&
+          credit.credited_user_id !== profileUserId &&
+          (pastId ? credit.past_performance_id === pastId : credit.organization_performance_id === orgPerformanceId)
+        );
+
+        const entries: PerformanceEntry[] = [
+          ...own.map(performance => ({
+            key: performance.id,
+            title: performance.title,
+            role: performance.role,
+            venue: performance.venue,
+            venueId: performance.venue_organization_id,
+            performance_date: performance.performance_date,
+            description: performance.description,
+            creditedBy: null,
+            lineup: lineupFor(performance.id, null)
+          })),
+          ...credited.map(credit => {
+            const performance = credit.past_performance || credit.organization_performance;
+            return {
+              key: credit.id,
+              title: performance?.title || 'Untitled performance',
+              role: credit.role,
+              venue: performance?.venue ?? null,
+              venueId: performance?.venue_organization_id ?? null,
+              performance_date: performance?.performance_date ?? null,
+              description: performance?.description ?? null,
+              creditedBy: credit.past_performance?.owner?.stage_name ||
+                credit.past_performance?.owner?.user?.full_name ||
+                credit.organization_performance?.organization?.name ||
+                null,
+              lineup: lineupFor(credit.past_performance_id, credit.organization_performance_id)
+            };
+          })
+        ];
+        entries.sort((a, b) => (b.performance_date || '').localeCompare(a.performance_date || ''));
+        setPerformances(entries);
       } catch (err) {
         console.warn('Could not load performances:', err);
         setError('Failed to load performances');
@@ -58,7 +128,7 @@ export function PerformanceSection({ isOwner = false, userId }: PerformanceSecti
     };
 
     loadPerformances();
-  }, [effectiveIsOwner, userId]);
+  }, [effectiveIsOwner, userId, supabase.auth]);
 
   const formatDate = (dateString: string | null) => {
     if (!dateString) return '';
@@ -160,7 +230,7 @@ export function PerformanceSection({ isOwner = false, userId }: PerformanceSecti
         <div className="space-y-4">
           {performances.map((performance) => (
             <div 
-              key={performance.id} 
+              key={performance.key} 
               className="p-4 border border-gray-200 rounded-lg hover:border-gray-300 transition-colors duration-200"
             >
               <div className="flex items-start justify-between">
@@ -178,7 +248,39 @@ export function PerformanceSection({ isOwner = false, userId }: PerformanceSecti
                     
                     {performance.venue && (
                       <p className="text-gray-700">
-                        <span className="font-medium">Venue:</span> {performance.venue}
+                        <span className="font-medium">Venue:</span>{' '}
+                        {performance.venueId ? (
+                          <Link href={`/venues/${performance.venueId}`} className="text-blue-600 hover:text-blue-800">
+                            {performance.venue}
+                          </Link>
+                        ) : (
+                          performance.venue
+                        )}
+                      </p>
+                    )}
+
+                    {performance.creditedBy && (
+                      <p className="text-gray-700">
+                        <span className="font-medium">With:</span> {performance.creditedBy}
+                      </p>
+                    )}
+
+                    {performance.lineup.length > 0 && (
+                      <p className="text-gray-700">
+                        <span className="font-medium">Lineup:</span>{' '}
+                        {performance.lineup.map((credit, index) => (
+                          <span key={credit.id}>
+                            {index > 0 && ', '}
+                            {credit.credited_user ? (
+                              <Link href={`/profile/${credit.credited_user.id}`} className="text-blue-600 hover:text-blue-800">
+                                {credit.credited_user.full_name || 'Bookd musician'}
+                              </Link>
+                            ) : (
+                              credit.credited_organization?.name
+                            )}
+                            {credit.role && ` (${credit.role})`}
+                          </span>
+                        ))}
                       </p>
                     )}
                     
@@ -0,0 +1,420 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { createAvailabilityService } from '@/services/client/availability';
+import { CalendarImportSection } from './CalendarImportSection';
+import {
+  WEEKDAYS,
+  browserTimeZone,
+  formatBlackout,
+  isValidTimeZone,
+  normalizeAvailability,
+  prepareWeeklySlots
+} from '@/lib/availability/schedule';
+import type { AvailabilityBlackout, UserWithProfile, Weekday, WeeklySlot } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+interface AvailabilityFormProps {
+  userWithProfile: UserWithProfile;
+}
+
+const DEFAULT_SLOT = { start: '18:00', end: '23:00' };
+
+const EMPTY_BLACKOUT = { starts_on: '', ends_on: '', start_time: '', end_time: '', note: '' };
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black';
+
+// Time inputs can't show 24:00, so midnight is entered (and displayed) as 00:00 in the end field
+const toEndInput = (time: string) => (time === '24:00' ? '00:00' : time);
+const fromEndInput = (time: string) => (time === '00:00' ? '24:00' : time);
+
+const todayString = () => {
+  const today = new Date();
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+};
+
+export function AvailabilityForm({ userWithProfile }: AvailabilityFormProps) {
+  const initial = normalizeAvailability(userWithProfile.individual_profile?.availability);
+
+  const [timezone, setTimezone] = useState(initial.timezone || 'UTC');
+  const [slots, setSlots] = useState<WeeklySlot[]>(initial.weekly);
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const [blackouts, setBlackouts] = useState<AvailabilityBlackout[]>([]);
+  const [blackoutForm, setBlackoutForm] = useState(EMPTY_BLACKOUT);
+  const [blackoutError, setBlackoutError] = useState<string | null>(null);
+  const [savingBlackout, setSavingBlackout] = useState(false);
+
+  const timeZones = useMemo(() => {
+    const supported = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+    return supported.includes(timezone) ? supported : [timezone, ...supported];
+  }, [timezone]);
+
+  // Default to the browser's timezone; read after mount so server and client renders match
+  useEffect(() => {
+    if (!initial.timezone) {
+      setTimezone(browserTimeZone());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadBlackouts = () => {
+    createAvailabilityService()
+      .getBlackouts(userWithProfile.id, todayString())
+      .then(setBlackouts)
+      .catch(err => logError('Error loading blackouts', err));
+  };
+
+  useEffect(() => {
+    loadBlackouts();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userWithProfile.id]);
+
+  const updateSlots = (next: WeeklySlot[]) => {
+    setSlots(next);
+    setHasChanges(true);
+  };
+
+  const addSlot = (day: Weekday) => updateSlots([...slots, { day, ...DEFAULT_SLOT }]);
+
+  const changeSlot = (index: number, field: 'start' | 'end', value: string) => {
+    updateSlots(slots.map((slot, i) => (i === index ? { ...slot, [field]: value } : slot)));
+  };
+
+  const removeSlot = (index: number) => updateSlots(slots.filter((_, i) => i !== index));
+
+  // Copy Monday's hours to the rest of the working week
+  const copyMondayToWeekdays = () => {
+    const monday = slots.filter(slot => slot.day === 1);
+    const others = slots.filter(slot => slot.day === 0 || slot.day === 6 || slot.day === 1);
+    const copies = ([2, 3, 4, 5] as Weekday[]).flatMap(day => monday.map(slot => ({ ...slot, day })));
+    updateSlots([...others, ...copies]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidTimeZone(timezone)) {
+      setError('Please choose a valid timezone.');
+      return;
+    }
+
+    const prepared = prepareWeeklySlots(slots);
+    if (prepared.errors.length > 0) {
+      setError(prepared.errors.join(' '));
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      const saved = await createAvailabilityService().updateAvailability({ timezone, weekly: prepared.slots });
+      setSlots(saved.weekly);
+      setSuccess(true);
+      setHasChanges(false);
+      // Clear success message after 3 seconds
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      logError('Error updating availability', err);
+      setError(err instanceof Error ? err.message : 'Failed to update availability');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddBlackout = async () => {
+    if (!blackoutForm.starts_on) {
+      setBlackoutError('Please choose a start date.');
+      return;
+    }
+
+    setSavingBlackout(true);
+    setBlackoutError(null);
+
+    try {
+      const blackout = await createAvailabilityService().addBlackout({
+        ...blackoutForm,
+        ends_on: blackoutForm.ends_on || blackoutForm.starts_on
+      });
+      setBlackouts(prev =>
+        [...prev, blackout].sort((a, b) => a.starts_on.localeCompare(b.starts_on))
+      );
+      setBlackoutForm(EMPTY_BLACKOUT);
+    } catch (err) {
+      setBlackoutError(err instanceof Error ? err.message : 'Failed to add blackout');
+    } finally {
+      setSavingBlackout(false);
+    }
+  };
+
+  const handleDeleteBlackout = async (blackoutId: string) => {
+    try {
+      await createAvailabilityService().deleteBlackout(blackoutId);
+      setBlackouts(prev => prev.filter(blackout => blackout.id !== blackoutId));
+    } catch (err) {
+      logError('Error deleting blackout', err);
+      setBlackoutError('Failed to remove blackout');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Availability</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            When you can usually play, and dates you&apos;re away. Shown on your public profile.
+          </p>
+        </div>
+        {success && (
+          <div className="text-sm text-green-600 font-medium">
+            ✓ Changes saved successfully
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Timezone */}
+        <div>
+          <label htmlFor="availability_timezone" className="block text-sm font-medium text-gray-700 mb-2">
+            Timezone
+          </label>
+          {timeZones.length > 1 ? (
+            <select
+              id="availability_timezone"
+              value={timezone}
+              onChange={(e) => {
+                setTimezone(e.target.value);
+                setHasChanges(true);
+              }}
+              className={`w-full ${inputClass}`}
+              disabled={loading}
+            >
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              id="availability_timezone"
+              value={timezone}
+              onChange={(e) => {
+                setTimezone(e.target.value);
+                setHasChanges(true);
+              }}
+              className={`w-full ${inputClass}`}
+              placeholder="e.g. America/New_York"
+              disabled={loading}
+            />
+          )}
+        </div>
+
+        {/* Weekly hours */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">Weekly Hours</label>
+            {slots.some(slot => slot.day === 1) && (
+              <button
+                type="button"
+                onClick={copyMondayToWeekdays}
+                className="text-sm text-blue-600 hover:text-blue-700"
+                disabled={loading}
+              >
+                Copy Monday to Tue–Fri
+              </button>
+            )}
+          </div>
+          <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+            {WEEKDAYS.map(({ day, label }) => {
+              const daySlots = slots
+                .map((slot, index) => ({ slot, index }))
+                .filter(({ slot }) => slot.day === day);
+
+              return (
+                <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 p-3">
+                  <span className="w-28 pt-2 text-sm font-medium text-gray-900">{label}</span>
+                  <div className="flex-1 space-y-2">
+                    {daySlots.length === 0 && (
+                      <p className="pt-2 text-sm text-gray-400">Unavailable</p>
+                    )}
+                    {daySlots.map(({ slot, index }) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input
+                          type="time"
+                          value={slot.start}
+                          onChange={(e) => changeSlot(index, 'start', e.target.value)}
+                          className={inputClass}
+                          aria-label={`${label} start`}
+                          disabled={loading}
+                        />
+                        <span className="text-gray-500">to</span>
+                        <input
+                          type="time"
+                          value={toEndInput(slot.end)}
+                          onChange={(e) => changeSlot(index, 'end', fromEndInput(e.target.value))}
+                          className={inputClass}
+                          aria-label={`${label} end`}
+                          disabled={loading}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeSlot(index)}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label={`Remove ${label} hours`}
+                          disabled={loading}
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => addSlot(day)}
+                    className="pt-2 text-sm text-blue-600 hover:text-blue-700"
+                    disabled={loading}
+                  >
+                    + Add hours
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            Use 12:00 AM as the end time for midnight. Late sets that run past midnight need hours on both days.
+          </p>
+        </div>
+
+        {/* Submit Button */}
+        <div className="flex items-center justify-end gap-4 pt-4 border-t border-gray-200">
+          {hasChanges && (
+            <p className="text-sm text-amber-600">You have unsaved changes</p>
+          )}
+          <button
+            type="submit"
+            disabled={loading || !hasChanges}
+            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {loading ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+      </form>
+
+      {/* Blackout dates save immediately, independent of the weekly hours form */}
+      <div className="mt-6 pt-6 border-t border-gray-200 space-y-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Blackout Dates</h3>
+          <p className="text-sm text-gray-500 mt-1">Dates you can&apos;t take bookings, e.g. holidays or other commitments</p>
+        </div>
+
+        {blackouts.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {blackouts.map(blackout => (
+              <li key={blackout.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {formatBlackout(blackout)}
+                    {blackout.import_id && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-normal bg-gray-100 text-gray-600 rounded-full">Imported</span>
+                    )}
+                  </p>
+                  {blackout.note && <p className="text-gray-500">{blackout.note}</p>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteBlackout(blackout.id)}
+                  className="text-sm text-gray-500 hover:text-red-600"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From *</label>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={blackoutForm.starts_on}
+                min={todayString()}
+                onChange={(e) => setBlackoutForm(prev => ({ ...prev, starts_on: e.target.value }))}
+                className={`flex-1 ${inputClass}`}
+              />
+              <input
+                type="time"
+                value={blackoutForm.start_time}
+                onChange={(e) => setBlackoutForm(prev => ({ ...prev, start_time: e.target.value }))}
+                className={inputClass}
+                aria-label="Blackout start time (optional)"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={blackoutForm.ends_on}
+                min={blackoutForm.starts_on || todayString()}
+                onChange={(e) => setBlackoutForm(prev => ({ ...prev, ends_on: e.target.value }))}
+                className={`flex-1 ${inputClass}`}
+              />
+              <input
+                type="time"
+                value={blackoutForm.end_time}
+                onChange={(e) => setBlackoutForm(prev => ({ ...prev, end_time: e.target.value }))}
+                className={inputClass}
+                aria-label="Blackout end time (optional)"
+              />
+            </div>
+          </div>
+        </div>
+        <input
+          type="text"
+          value={blackoutForm.note}
+          maxLength={200}
+          onChange={(e) => setBlackoutForm(prev => ({ ...prev, note: e.target.value }))}
+          className={`w-full ${inputClass}`}
+          placeholder="Note (optional, visible on your profile)"
+        />
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-gray-500">Leave the times empty to block whole days.</p>
+          <button
+            type="button"
+            onClick={handleAddBlackout}
+            disabled={savingBlackout}
+            className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors duration-200"
+          >
+            {savingBlackout ? 'Adding...' : 'Add Blackout'}
+          </button>
+        </div>
+        {blackoutError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{blackoutError}</p>
+          </div>
+        )}
+
+        <div className="pt-4 border-t border-gray-100">
+          <CalendarImportSection onImported={loadBlackouts} />
+        </div>
+      </div>
+    </div>
+  );
+}
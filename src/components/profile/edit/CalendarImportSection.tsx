@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createCalendarImportsService, type CalendarImportResult } from '@/services/client/calendar_imports';
+import type { CalendarImport } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+interface CalendarImportSectionProps {
+  onImported: () => void; // Blackouts changed; reload them
+}
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black';
+
+const describeResult = ({ import: calendarImport, truncated }: CalendarImportResult) => {
+  const count = calendarImport.blackout_count;
+  const summary = `Imported ${count} busy ${count === 1 ? 'period' : 'periods'} from ${calendarImport.name}.`;
+  return truncated ? `${summary} Only the soonest were kept.` : summary;
+};
+
+export function CalendarImportSection({ onImported }: CalendarImportSectionProps) {
+  const [imports, setImports] = useState<CalendarImport[]>([]);
+  const [url, setUrl] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadImports = async () => {
+    try {
+      setImports(await createCalendarImportsService().getImports());
+    } catch (err) {
+      logError('Error loading calendar imports', err);
+    }
+  };
+
+  useEffect(() => {
+    loadImports();
+  }, []);
+
+  const run = async (action: () => Promise<CalendarImportResult | void>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (result) setMessage(describeResult(result));
+      await loadImports();
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import calendar');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => createCalendarImportsService().importFile(file));
+  };
+
+  const handleImportUrl = () => {
+    if (!url.trim()) {
+      setError('Please paste a calendar link.');
+      return;
+    }
+    run(async () => {
+      const result = await createCalendarImportsService().importUrl(url);
+      setUrl('');
+      return result;
+    });
+  };
+
+  const handleRemove = (calendarImport: CalendarImport) => {
+    if (!window.confirm(`Remove ${calendarImport.name} and the blackouts imported from it?`)) return;
+    run(() => createCalendarImportsService().deleteImport(calendarImport.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-900">Import from another calendar</h4>
+        <p className="text-xs text-gray-500 mt-1">
+          Busy events for the next year become blackouts; free, cancelled and past events are skipped.
+          Importing the same file or link again replaces what it added before.
+        </p>
+      </div>
+
+      {imports.length > 0 && (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {imports.map(calendarImport => (
+            <li key={calendarImport.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{calendarImport.name}</p>
+                <p className="text-gray-500">
+                  {calendarImport.blackout_count} busy {calendarImport.blackout_count === 1 ? 'period' : 'periods'}
+                  {calendarImport.last_imported_at && ` · imported ${new Date(calendarImport.last_imported_at).toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex gap-4 shrink-0">
+                {calendarImport.source_url && (
+                  <button
+                    type="button"
+                    onClick={() => run(() => createCalendarImportsService().refreshImport(calendarImport.id))}
+                    disabled={busy}
+                    className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    Refresh
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(calendarImport)}
+                  disabled={busy}
+                  className="text-sm text-gray-500 hover:text-red-600 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className={`flex-1 ${inputClass}`}
+          placeholder="Calendar link (https:// or webcal://)"
+        />
+        <button
+          type="button"
+          onClick={handleImportUrl}
+          disabled={busy}
+          className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors duration-200"
+        >
+          Import Link
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          disabled={busy}
+          className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors duration-200"
+        >
+          {busy ? 'Importing...' : 'Upload .ics File'}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {message && <p className="text-sm text-green-600">✓ {message}</p>}
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPE_OPTIONS,
+  createNotificationPreferencesService,
+  type ChannelPreferenceKey
+} from '@/services/client/notification_preferences';
+import { getBrowserPushSubscription, isPushSupported, subscribeBrowserToPush } from '@/lib/push/browser';
+import type { NotificationChannel, NotificationDigestFrequency } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type PushState = 'loading' | 'unsupported' | 'blocked' | 'off' | 'on';
+
+const DIGEST_OPTIONS: { value: NotificationDigestFrequency; label: string }[] = [
+  { value: 'immediate', label: 'As they happen' },
+  { value: 'hourly', label: 'Hourly digest' },
+  { value: 'daily', label: 'Daily digest' }
+];
+
+// "HH:MM:SS" from Postgres to "HH:MM" for <input type="time">
+const toInputTime = (value: string | null | undefined, fallback: string) => (value ? value.slice(0, 5) : fallback);
+
+export function NotificationPreferencesForm() {
+  const [matrix, setMatrix] = useState<Record<ChannelPreferenceKey, boolean> | null>(null);
+  const [pushState, setPushState] = useState<PushState>('loading');
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState('22:00');
+  const [quietEnd, setQuietEnd] = useState('07:00');
+  const [timezone, setTimezone] = useState('UTC');
+  const [digestFrequency, setDigestFrequency] = useState<NotificationDigestFrequency>('immediate');
+  const [dailyDigestTime, setDailyDigestTime] = useState('08:00');
+  const [hasChanges, setHasChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const service = createNotificationPreferencesService();
+      const [preferences, settings] = await Promise.all([service.getChannelPreferences(), service.getSettings()]);
+      setMatrix(preferences);
+
+      const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+      if (settings) {
+        setQuietHoursEnabled(Boolean(settings.quiet_hours_start && settings.quiet_hours_end));
+        setQuietStart(toInputTime(settings.quiet_hours_start, '22:00'));
+        setQuietEnd(toInputTime(settings.quiet_hours_end, '07:00'));
+        setTimezone(settings.timezone);
+        setDigestFrequency(settings.digest_frequency);
+        setDailyDigestTime(toInputTime(settings.daily_digest_time, '08:00'));
+      } else {
+        setTimezone(browserTimezone);
+      }
+
+      if (!isPushSupported() || !process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY) {
+        setPushState('unsupported');
+      } else if (Notification.permission === 'denied') {
+        setPushState('blocked');
+      } else {
+        setPushState((await getBrowserPushSubscription()) ? 'on' : 'off');
+      }
+    };
+    load();
+  }, []);
+
+  const toggleCell = async (type: string, channel: NotificationChannel) => {
+    if (!matrix) return;
+    const key: ChannelPreferenceKey = `${type}:${channel}`;
+    const enabled = !matrix[key];
+
+    setMatrix(prev => prev && { ...prev, [key]: enabled });
+    const saved = await createNotificationPreferencesService().setChannelPreference(type, channel, enabled);
+    if (!saved) {
+      setMatrix(prev => prev && { ...prev, [key]: !enabled });
+      setError('Could not save that preference. Please try again.');
+    }
+  };
+
+  const enablePush = async () => {
+    setError(null);
+    try {
+      const subscription = await subscribeBrowserToPush();
+      if (!subscription) {
+        setPushState(Notification.permission === 'denied' ? 'blocked' : 'off');
+        return;
+      }
+
+      const service = createNotificationPreferencesService();
+      let registered = await service.registerPushSubscription(subscription.toJSON());
+      if (!registered) {
+        // This browser may still hold a subscription registered to another account
+        await subscription.unsubscribe();
+        const fresh = await subscribeBrowserToPush();
+        registered = !!fresh && await service.registerPushSubscription(fresh.toJSON());
+      }
+      setPushState(registered ? 'on' : 'off');
+      if (!registered) setError('Could not turn on push notifications for this device.');
+    } catch (err) {
+      logError('Error enabling push notifications', err);
+      setError('Could not turn on push notifications for this device.');
+    }
+  };
+
+  const disablePush = async () => {
+    const subscription = await getBrowserPushSubscription();
+    if (subscription) {
+      await createNotificationPreferencesService().removePushSubscription(subscription.endpoint);
+      await subscription.unsubscribe();
+    }
+    setPushState('off');
+  };
+
+  const markChanged = () => {
+    setHasChanges(true);
+    setSuccess(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      await createNotificationPreferencesService().saveSettings({
+        quiet_hours_start: quietHoursEnabled ? quietStart : null,
+        quiet_hours_end: quietHoursEnabled ? quietEnd : null,
+        timezone,
+        digest_frequency: digestFrequency,
+        daily_digest_time: dailyDigestTime
+      });
+      setHasChanges(false);
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notification settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Notifications</h2>
+          <p className="text-sm text-gray-500 mt-1">Choose how Bookd lets you know about activity</p>
+        </div>
+        {success && (
+          <div className="text-sm text-green-600 font-medium">
+            ✓ Changes saved successfully
+          </div>
+        )}
+      </div>
+
+      {/* Push on this device */}
+      <div className="flex items-center justify-between p-4 mb-6 bg-gray-50 border border-gray-200 rounded-md">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">Push notifications on this device</h3>
+          <p className="text-sm text-gray-500">
+            {pushState === 'unsupported' && 'This browser does not support push notifications.'}
+            {pushState === 'blocked' && 'Notifications are blocked for Bookd in your browser settings.'}
+            {pushState === 'off' && 'Get a system notification even when Bookd is closed.'}
+            {pushState === 'on' && 'This device receives push notifications.'}
+            {pushState === 'loading' && 'Checking...'}
+          </p>
+        </div>
+        {pushState === 'off' && (
+          <button
+            type="button"
+            onClick={enablePush}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#7823E1] rounded-md hover:bg-[#6a1fc7]"
+          >
+            Turn on
+          </button>
+        )}
+        {pushState === 'on' && (
+          <button
+            type="button"
+            onClick={disablePush}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Turn off
+          </button>
+        )}
+      </div>
+
+      {/* Type x channel matrix; each checkbox saves immediately */}
+      {matrix === null ? (
+        <div className="space-y-2 animate-pulse">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <div key={index} className="h-6 bg-gray-200 rounded" />
+          ))}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="py-2 text-left font-medium text-gray-700">Activity</th>
+                {NOTIFICATION_CHANNELS.map(({ channel, label }) => (
+                  <th key={channel} className="py-2 px-3 text-center font-medium text-gray-700 w-20">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {NOTIFICATION_TYPE_OPTIONS.map(({ type, label }) => (
+                <tr key={type}>
+                  <td className="py-2 text-gray-900">{label}</td>
+                  {NOTIFICATION_CHANNELS.map(({ channel, label: channelLabel }) => (
+                    <td key={channel} className="py-2 px-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={matrix[`${type}:${channel}`]}
+                        onChange={() => toggleCell(type, channel)}
+                        aria-label={`${label}: ${channelLabel}`}
+                        className="h-4 w-4 rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Quiet hours and digests */}
+      <form onSubmit={handleSubmit} className="space-y-4 mt-6 pt-6 border-t border-gray-200">
+        <div>
+          <label className="inline-flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={quietHoursEnabled}
+              onChange={(e) => { setQuietHoursEnabled(e.target.checked); markChanged(); }}
+              className="h-4 w-4 rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+            />
+            Quiet hours
+          </label>
+          <p className="text-sm text-gray-500 mt-1">Push and email wait until quiet hours end. In-app notifications still arrive.</p>
+          {quietHoursEnabled && (
+            <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-gray-700">
+              <span>From</span>
+              <input
+                type="time"
+                value={quietStart}
+                onChange={(e) => { setQuietStart(e.target.value); markChanged(); }}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+              <span>to</span>
+              <input
+                type="time"
+                value={quietEnd}
+                onChange={(e) => { setQuietEnd(e.target.value); markChanged(); }}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="digest_frequency" className="block text-sm font-medium text-gray-700 mb-2">
+              Email delivery
+            </label>
+            <select
+              id="digest_frequency"
+              value={digestFrequency}
+              onChange={(e) => { setDigestFrequency(e.target.value as NotificationDigestFrequency); markChanged(); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {DIGEST_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {digestFrequency === 'daily' && (
+            <div>
+              <label htmlFor="daily_digest_time" className="block text-sm font-medium text-gray-700 mb-2">
+                Send the daily digest at
+              </label>
+              <input
+                type="time"
+                id="daily_digest_time"
+                value={dailyDigestTime}
+                onChange={(e) => { setDailyDigestTime(e.target.value); markChanged(); }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500">Times are in {timezone}.</p>
+
+        <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+          <div>
+            {hasChanges && (
+              <p className="text-sm text-amber-600">You have unsaved changes</p>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !hasChanges}
+            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
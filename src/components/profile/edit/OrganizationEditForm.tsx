@@ -2,6 +2,8 @@
 import { useEffect, useState } from 'react';
 import type { OrganizationProfile, UserWithProfile, OrganizationPerformance } from '@/types/database';
 import { createOrganizationsService } from '@/services/client/organizations';
+import { VenueInput, VenueLinkSuggestions } from '@/components/venues';
+import { PerformanceCreditsEditor } from './PerformanceCreditsEditor';
 
 type Props = {
   userWithProfile: UserWithProfile;
@@ -13,7 +15,8 @@ export function OrganizationEditForm({ userWithProfile }: Props) {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [performances, setPerformances] = useState<OrganizationPerformance[]>([]);
-  const [newPerf, setNewPerf] = useState<{ title: string; performance_date: string; venue: string; description: string }>({ title: '', performance_date: '', venue: '', description: '' });
+  const [lineupOpenId, setLineupOpenId] = useState<string | null>(null);
+  const [newPerf, setNewPerf] = useState<{ title: string; performance_date: string; venue: string; venue_organization_id: string | null; description: string }>({ title: '', performance_date: '', venue: '', venue_organization_id: null, description: '' });
 
   useEffect(() => {
     async function ensureOrg() {
@@ -88,11 +91,12 @@ export function OrganizationEditForm({ userWithProfile }: Props) {
         title: newPerf.title.trim(),
         performance_date: newPerf.performance_date ? newPerf.performance_date : null,
         venue: newPerf.venue || null,
+        venue_organization_id: newPerf.venue ? newPerf.venue_organization_id : null,
         description: newPerf.description || null,
       });
       if (created) {
         setPerformances((prev) => [created, ...prev]);
-        setNewPerf({ title: '', performance_date: '', venue: '', description: '' });
+        setNewPerf({ title: '', performance_date: '', venue: '', venue_organization_id: null, description: '' });
       }
     } catch (e) {
       console.error('Failed to add performance', e);
@@ -221,12 +225,13 @@ export function OrganizationEditForm({ userWithProfile }: Props) {
             value={newPerf.performance_date}
             onChange={(e) => setNewPerf({ ...newPerf, performance_date: e.target.value })}
           />
-          <input
-            type="text"
+          <VenueInput
             placeholder="Venue"
-            className="border rounded px-3 py-2"
+            className="w-full border rounded px-3 py-2"
             value={newPerf.venue}
-            onChange={(e) => setNewPerf({ ...newPerf, venue: e.target.value })}
+            linkedVenue={newPerf.venue_organization_id ? { id: newPerf.venue_organization_id, name: newPerf.venue } : null}
+            onTextChange={(value) => setNewPerf({ ...newPerf, venue: value, venue_organization_id: null })}
+            onSelect={(venue) => setNewPerf({ ...newPerf, venue: venue.name, venue_organization_id: venue.id })}
           />
           <div className="flex gap-2">
             <input
@@ -240,22 +245,45 @@ export function OrganizationEditForm({ userWithProfile }: Props) {
           </div>
         </form>
 
+        <VenueLinkSuggestions
+          sourceType="organization_performance"
+          sources={performances.filter((p) => !p.venue_organization_id).map((p) => ({ id: p.id, label: p.title }))}
+          onLinked={(performanceId, venueOrganizationId) => setPerformances((prev) => prev.map((p) =>
+            p.id === performanceId ? { ...p, venue_organization_id: venueOrganizationId } : p
+          ))}
+        />
+
         {performances.length === 0 ? (
           <p className="text-sm text-gray-600">No performances yet.</p>
         ) : (
           <ul className="divide-y">
             {performances.map((p) => (
-              <li key={p.id} className="py-3 flex items-center justify-between">
-                <div>
-                  <div className="font-medium text-gray-900">{p.title}</div>
-                  <div className="text-sm text-gray-600">
-                    {[p.performance_date ? new Date(p.performance_date).toLocaleDateString() : null, p.venue]
-                      .filter(Boolean)
-                      .join(' • ')}
+              <li key={p.id} className="py-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-900">{p.title}</div>
+                    <div className="text-sm text-gray-600">
+                      {[p.performance_date ? new Date(p.performance_date).toLocaleDateString() : null, p.venue]
+                        .filter(Boolean)
+                        .join(' • ')}
+                    </div>
+                    {p.description && <div className="text-sm text-gray-600">{p.description}</div>}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => setLineupOpenId(lineupOpenId === p.id ? null : p.id)}
+                      className="text-gray-600 hover:text-gray-800 text-sm"
+                    >
+                      {lineupOpenId === p.id ? 'Hide lineup' : 'Lineup'}
+                    </button>
+                    <button onClick={() => deletePerformance(p.id)} className="text-red-600 hover:text-red-700 text-sm">Delete</button>
                   </div>
-                  {p.description && <div className="text-sm text-gray-600">{p.description}</div>}
                 </div>
-                <button onClick={() => deletePerformance(p.id)} className="text-red-600 hover:text-red-700 text-sm">Delete</button>
+                {lineupOpenId === p.id && (
+                  <div className="mt-3">
+                    <PerformanceCreditsEditor organizationPerformanceId={p.id} />
+                  </div>
+                )}
               </li>
             ))}
           </ul>
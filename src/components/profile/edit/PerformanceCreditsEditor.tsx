@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createUsersService } from '@/services/client/users';
+import { createOrganizationsService } from '@/services/client/organizations';
+import {
+  addPerformanceCredit,
+  getPerformanceCredits,
+  removePerformanceCredit
+} from '@/services/client/performances';
+import type { OrganizationProfile, PerformanceCreditStatus, PerformanceCreditWithParty, UserWithProfile } from '@/types/database';
+
+interface PerformanceCreditsEditorProps {
+  // Exactly one of these identifies the performance being credited
+  pastPerformanceId?: string;
+  organizationPerformanceId?: string;
+}
+
+type CreditCandidate =
+  | { kind: 'user'; id: string; name: string }
+  | { kind: 'organization'; id: string; name: string };
+
+const STATUS_STYLES: Record<PerformanceCreditStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-100 text-gray-600'
+};
+
+const creditName = (credit: PerformanceCreditWithParty) =>
+  credit.credited_user?.full_name || credit.credited_organization?.name || 'Bookd member';
+
+export function PerformanceCreditsEditor({ pastPerformanceId, organizationPerformanceId }: PerformanceCreditsEditorProps) {
+  const [credits, setCredits] = useState<PerformanceCreditWithParty[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CreditCandidate[]>([]);
+  const [selected, setSelected] = useState<CreditCandidate | null>(null);
+  const [role, setRole] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const data = await getPerformanceCredits({
+        pastPerformanceIds: pastPerformanceId ? [pastPerformanceId] : [],
+        organizationPerformanceIds: organizationPerformanceId ? [organizationPerformanceId] : []
+      });
+      setCredits(data);
+      setLoading(false);
+    };
+    load();
+  }, [pastPerformanceId, organizationPerformanceId]);
+
+  // Search musicians and organizations as the owner types (debounced)
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2 || selected) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const [users, organizations] = await Promise.all([
+        createUsersService().searchUsers(trimmed, 5, 0),
+        createOrganizationsService().searchOrganizations(trimmed, 5, 0)
+      ]);
+      setResults([
+        ...users
+          .filter((user: UserWithProfile) => user.account_type !== 'organization')
+          .map((user: UserWithProfile): CreditCandidate => ({
+            kind: 'user',
+            id: user.id,
+            name: user.individual_profile?.stage_name || user.full_name || 'Unnamed musician'
+          })),
+        ...organizations.map((org: OrganizationProfile): CreditCandidate => ({ kind: 'organization', id: org.id, name: org.name }))
+      ]);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query, selected]);
+
+  const isCredited = (candidate: CreditCandidate) => credits.some(credit =>
+    candidate.kind === 'user' ? credit.credited_user_id === candidate.id : credit.credited_organization_id === candidate.id
+  );
+
+  const handleAdd = async () => {
+    if (!selected) return;
+    setSaving(true);
+    setError(null);
+    const created = await addPerformanceCredit({
+      past_performance_id: pastPerformanceId ?? null,
+      organization_performance_id: organizationPerformanceId ?? null,
+      credited_user_id: selected.kind === 'user' ? selected.id : null,
+      credited_organization_id: selected.kind === 'organization' ? selected.id : null,
+      role: role.trim() || null,
+      position: credits.length
+    });
+    setSaving(false);
+
+    if (!created) {
+      setError('Could not add this credit. Please try again.');
+      return;
+    }
+    setCredits(prev => [...prev, created]);
+    setSelected(null);
+    setQuery('');
+    setRole('');
+  };
+
+  const handleRemove = async (creditId: string) => {
+    if (await removePerformanceCredit(creditId)) {
+      setCredits(prev => prev.filter(credit => credit.id !== creditId));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-gray-700">Lineup</p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading lineup...</p>
+      ) : credits.length === 0 ? (
+        <p className="text-sm text-gray-500">Tag the other musicians and organizations who took part.</p>
+      ) : (
+        <ul className="space-y-2">
+          {credits.map(credit => (
+            <li key={credit.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-900">
+                {creditName(credit)}
+                {credit.role && <span className="text-gray-600"> · {credit.role}</span>}
+              </span>
+              <span className="flex items-center gap-2 shrink-0">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${STATUS_STYLES[credit.status]}`}>
+                  {credit.status}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(credit.id)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove credit"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <div className="relative md:col-span-2">
+          <input
+            type="text"
+            value={selected ? selected.name : query}
+            onChange={(e) => {
+              setSelected(null);
+              setQuery(e.target.value);
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Search musicians or organizations"
+          />
+          {results.length > 0 && (
+            <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg">
+              {results.map(candidate => (
+                <li key={`${candidate.kind}-${candidate.id}`}>
+                  <button
+                    type="button"
+                    disabled={isCredited(candidate)}
+                    onClick={() => setSelected(candidate)}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {candidate.name}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {isCredited(candidate) ? 'Already credited' : candidate.kind === 'organization' ? 'Organization' : 'Musician'}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <input
+          type="text"
+          value={role}
+          onChange={(e) => setRole(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Role, e.g. Principal Cello"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        {error ? <p className="text-sm text-red-600">{error}</p> : <span />}
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!selected || saving}
+          className="px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Adding...' : 'Add to lineup'}
+        </button>
+      </div>
+    </div>
+  );
+}
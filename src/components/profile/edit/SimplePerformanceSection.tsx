@@ -8,6 +8,8 @@ import {
   deleteCurrentUserPastPerformance 
 } from '@/services/client/performances';
 import type { UserWithProfile, PastPerformance } from '@/types/database';
+import { VenueInput, VenueLinkSuggestions } from '@/components/venues';
+import { PerformanceCreditsEditor } from './PerformanceCreditsEditor';
 
 interface SimplePerformanceSectionProps {
   userWithProfile: UserWithProfile;
@@ -16,6 +18,7 @@ interface SimplePerformanceSectionProps {
 interface PerformanceFormData {
   title: string;
   venue: string;
+  venue_organization_id: string | null;
   role: string;
   performance_date: string;
 }
@@ -24,11 +27,13 @@ export function SimplePerformanceSection({ userWithProfile }: SimplePerformanceS
   const [performances, setPerformances] = useState<PastPerformance[]>([]);
   const [isFormVisible, setIsFormVisible] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [lineupOpenId, setLineupOpenId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [formData, setFormData] = useState<PerformanceFormData>({
     title: '',
     venue: '',
+    venue_organization_id: null,
     role: '',
     performance_date: ''
   });
@@ -55,6 +60,7 @@ export function SimplePerformanceSection({ userWithProfile }: SimplePerformanceS
     setFormData({
       title: '',
       venue: '',
+      venue_organization_id: null,
       role: '',
       performance_date: ''
     });
@@ -66,6 +72,7 @@ export function SimplePerformanceSection({ userWithProfile }: SimplePerformanceS
     setFormData({
       title: performance.title,
       venue: performance.venue || '',
+      venue_organization_id: performance.venue_organization_id,
       role: performance.role || '',
       performance_date: performance.performance_date || ''
     });
@@ -87,6 +94,7 @@ export function SimplePerformanceSection({ userWithProfile }: SimplePerformanceS
       const performanceData = {
         title: formData.title,
         venue: formData.venue || null,
+        venue_organization_id: formData.venue ? formData.venue_organization_id : null,
         role: formData.role || null,
         performance_date: formData.performance_date || null, // Already in YYYY-MM-DD format from date input
         description: null // Not used in simple form
@@ -159,6 +167,14 @@ export function SimplePerformanceSection({ userWithProfile }: SimplePerformanceS
         </button>
       </div>
 
+      <VenueLinkSuggestions
+        sourceType="past_performance"
+        sources={performances.filter(perf => !perf.venue_organization_id).map(perf => ({ id: perf.id, label: perf.title }))}
+        onLinked={(performanceId, venueOrganizationId) => setPerformances(prev => prev.map(perf =>
+          perf.id === performanceId ? { ...perf, venue_organization_id: venueOrganizationId } : perf
+        ))}
+      />
+
       {/* Performance List */}
       {loading ? (
         <div className="text-center py-8">
@@ -195,6 +211,12 @@ export function SimplePerformanceSection({ userWithProfile }: SimplePerformanceS
                   </p>
                 </div>
                 <div className="flex items-center gap-2 ml-4">
+                  <button
+                    onClick={() => setLineupOpenId(lineupOpenId === performance.id ? null : performance.id)}
+                    className="px-2 py-1 text-xs font-medium text-gray-500 hover:text-blue-600 transition-colors duration-200"
+                  >
+                    {lineupOpenId === performance.id ? 'Hide lineup' : 'Lineup'}
+                  </button>
                   <button
                     onClick={() => handleEdit(performance)}
                     className="p-1 text-gray-400 hover:text-blue-600 transition-colors duration-200"
@@ -213,6 +235,11 @@ export function SimplePerformanceSection({ userWithProfile }: SimplePerformanceS
                   </button>
                 </div>
               </div>
+              {lineupOpenId === performance.id && (
+                <div className="mt-4 pt-4 border-t border-gray-100">
+                  <PerformanceCreditsEditor pastPerformanceId={performance.id} />
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -241,13 +268,13 @@ export function SimplePerformanceSection({ userWithProfile }: SimplePerformanceS
                 <label htmlFor="venue" className="block text-sm font-medium text-gray-700 mb-1">
                   Venue
                 </label>
-                <input
-                  type="text"
+                <VenueInput
                   id="venue"
                   value={formData.venue}
-                  onChange={(e) => setFormData(prev => ({ ...prev, venue: e.target.value }))}
+                  linkedVenue={formData.venue_organization_id ? { id: formData.venue_organization_id, name: formData.venue } : null}
+                  onTextChange={(value) => setFormData(prev => ({ ...prev, venue: value, venue_organization_id: null }))}
+                  onSelect={(venue) => setFormData(prev => ({ ...prev, venue: venue.name, venue_organization_id: venue.id }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
-                  placeholder="e.g., Carnegie Hall"
                 />
               </div>
             </div>
@@ -2,8 +2,12 @@
 export { BasicInfoForm } from './BasicInfoForm';
 export { ProfessionalInfoForm } from './ProfessionalInfoForm';
 export { SocialLinksForm } from './SocialLinksForm';
+export { AvailabilityForm } from './AvailabilityForm';
+export { CalendarImportSection } from './CalendarImportSection';
 export { ExperiencePerformancesSection } from './ExperiencePerformancesSection';
 export { SimpleExperienceSection } from './SimpleExperienceSection';
 export { SimplePerformanceSection } from './SimplePerformanceSection';
+export { PerformanceCreditsEditor } from './PerformanceCreditsEditor';
 export { AccountTypeSection } from './AccountTypeSection';
 export { OrganizationEditForm } from './OrganizationEditForm';
+export { NotificationPreferencesForm } from './NotificationPreferencesForm';
@@ -12,4 +12,8 @@ export { ExperienceForm } from './ExperienceForm';
 export { ConfirmDialog } from './ConfirmDialog';
 
 // Performance display components
-export { PerformanceSection } from './PerformanceSection';
\ No newline at end of file
+export { PerformanceSection } from './PerformanceSection';
+export { PendingCreditsSection } from './PendingCreditsSection';
+
+// Availability display
+export { AvailabilitySection } from './AvailabilitySection';
@@ -0,0 +1,35 @@
+'use client';
+
+import { useState } from 'react';
+import type { ReportTargetType } from '@/types/database';
+import ReportModal from './ReportModal';
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  label?: string;
+  className?: string;
+}
+
+export default function ReportButton({
+  targetType,
+  targetId,
+  label = 'Report',
+  className = 'text-xs text-gray-500 hover:text-red-600 transition-colors'
+}: ReportButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      <button type="button" onClick={() => setIsOpen(true)} className={className}>
+        {label}
+      </button>
+      <ReportModal
+        isOpen={isOpen}
+        targetType={targetType}
+        targetId={targetId}
+        onClose={() => setIsOpen(false)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { REPORT_REASON_OPTIONS, REPORT_TARGET_LABELS, reportContent } from '@/services/client/reports';
+import type { ReportReason, ReportTargetType } from '@/types/database';
+
+interface ReportModalProps {
+  isOpen: boolean;
+  targetType: ReportTargetType;
+  targetId: string;
+  onClose: () => void;
+}
+
+export default function ReportModal({ isOpen, targetType, targetId, onClose }: ReportModalProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setReason(null);
+    setDetails('');
+    setSubmitted(false);
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) {
+      setError('Please choose a reason.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await reportContent(targetType, targetId, reason, details);
+      setSubmitted(true);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Failed to send report. Please try again.';
+      setError(msg);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Report {REPORT_TARGET_LABELS[targetType]}</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Reports are private. The person you report won&apos;t know it was you.
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {submitted ? (
+          <div className="p-6 space-y-4">
+            <p className="text-gray-700">
+              Thanks for letting us know. Our moderators will review this {REPORT_TARGET_LABELS[targetType]} and
+              we&apos;ll tell you what we decide. You can also follow it in{' '}
+              <Link href="/reports" className="text-[#7823E1] hover:underline">your reports</Link>.
+            </p>
+            <div className="flex justify-end">
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 text-white rounded-lg hover:opacity-90 transition-colors"
+                style={{backgroundColor: '#7823E1'}}
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-600">{error}</p>
+              </div>
+            )}
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-gray-700 mb-2">What&apos;s wrong with it?</legend>
+              {REPORT_REASON_OPTIONS.map(option => (
+                <label key={option.reason} className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    value={option.reason}
+                    checked={reason === option.reason}
+                    onChange={() => setReason(option.reason)}
+                    className="text-[#7823E1] focus:ring-[#7823E1]"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </fieldset>
+
+            <textarea
+              rows={3}
+              value={details}
+              maxLength={2000}
+              onChange={(e) => setDetails(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#7823E1] focus:border-transparent"
+              placeholder="Anything else our moderators should know? (optional)"
+            />
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !reason}
+                className="px-4 py-2 text-white rounded-lg hover:opacity-90 transition-colors disabled:opacity-50"
+                style={{backgroundColor: '#7823E1'}}
+              >
+                {isSubmitting ? 'Sending...' : 'Send report'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createSafetyService, type UserRelationship } from '@/services/client/safety';
+import ReportModal from './ReportModal';
+
+interface UserSafetyMenuProps {
+  userId: string;
+  userName: string;
+}
+
+export default function UserSafetyMenu({ userId, userName }: UserSafetyMenuProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [relationship, setRelationship] = useState<UserRelationship | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    createSafetyService().getRelationship(userId).then(setRelationship);
+  }, [userId]);
+
+  const run = async (action: () => Promise<void>, next: UserRelationship) => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      await action();
+      setRelationship(next);
+      setIsOpen(false);
+      // Posts, follow buttons and message threads on the page all depend on this
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const service = createSafetyService();
+
+  const handleBlock = () => {
+    if (!window.confirm(
+      `Block ${userName}? Neither of you will see the other's posts or comments, and you won't be able to follow or message each other.`
+    )) return;
+    run(() => service.blockUser(userId), { following: false, blocked: true, muted: false });
+  };
+
+  const handleMute = () => {
+    if (!window.confirm(`Mute ${userName}? Their posts and comments will be hidden from you, and you will stop following them. They won't be told.`)) return;
+    run(() => service.muteUser(userId), { following: false, blocked: false, muted: true });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-gray-500 hover:text-gray-700 rounded-lg hover:bg-gray-100"
+        aria-label="More options"
+      >
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <path d="M6 10a2 2 0 11-4 0 2 2 0 014 0zM12 10a2 2 0 11-4 0 2 2 0 014 0zM16 12a2 2 0 100-4 2 2 0 000 4z" />
+        </svg>
+      </button>
+
+      {isOpen && relationship && (
+        <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1">
+          {!relationship.blocked && (
+            relationship.muted ? (
+              <button
+                type="button"
+                disabled={isUpdating}
+                onClick={() => run(() => service.unmuteUser(userId), { following: false, blocked: false, muted: false })}
+                className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Unmute
+              </button>
+            ) : (
+              <button
+                type="button"
+                disabled={isUpdating}
+                onClick={handleMute}
+                className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Mute
+              </button>
+            )
+          )}
+          {relationship.blocked ? (
+            <button
+              type="button"
+              disabled={isUpdating}
+              onClick={() => run(() => service.unblockUser(userId), { following: false, blocked: false, muted: false })}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Unblock
+            </button>
+          ) : (
+            <button
+              type="button"
+              disabled={isUpdating}
+              onClick={handleBlock}
+              className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              Block
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => { setShowReport(true); setIsOpen(false); }}
+            className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+          >
+            Report
+          </button>
+          {error && <p className="px-4 py-2 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+
+      <ReportModal
+        isOpen={showReport}
+        targetType="user"
+        targetId={userId}
+        onClose={() => setShowReport(false)}
+      />
+    </div>
+  );
+}
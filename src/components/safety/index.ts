@@ -0,0 +1,3 @@
+export { default as ReportButton } from './ReportButton';
+export { default as ReportModal } from './ReportModal';
+export { default as UserSafetyMenu } from './UserSafetyMenu';
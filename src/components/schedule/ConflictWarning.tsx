@@ -0,0 +1,25 @@
+'use client';
+
+import { describeConflict, type ScheduleConflict } from '@/lib/availability/conflicts';
+
+interface ConflictWarningProps {
+  conflicts: ScheduleConflict[];
+  title?: string;
+  note?: string; // What the user can still do, e.g. "You can still apply."
+}
+
+export default function ConflictWarning({ conflicts, title = 'Schedule conflict', note }: ConflictWarningProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+      <p className="font-medium">{title}</p>
+      <ul className="mt-1 list-disc list-inside space-y-0.5">
+        {conflicts.map(conflict => (
+          <li key={`${conflict.type}-${conflict.commitment.key}-${conflict.other.key}`}>{describeConflict(conflict)}</li>
+        ))}
+      </ul>
+      {note && <p className="mt-1">{note}</p>}
+    </div>
+  );
+}
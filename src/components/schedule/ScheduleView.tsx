@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { createScheduleService } from '@/services/client/schedule';
+import { addDaysToDateString } from '@/lib/utils/date';
+import {
+  describeConflict,
+  formatCommitmentWhen,
+  scheduleConflicts,
+  type Commitment
+} from '@/lib/availability/conflicts';
+import { logError } from '@/lib/utils/log';
+
+interface ScheduleViewProps {
+  userId: string;
+}
+
+// How far ahead the schedule looks
+const SCHEDULE_DAYS = 90;
+
+const KIND_STYLES: Record<Commitment['kind'], { label: string; className: string }> = {
+  engagement: { label: 'Booking', className: 'bg-[#E8DFFF] text-[#7823E1]' },
+  gig: { label: 'Gig', className: 'bg-blue-100 text-blue-800' },
+  rehearsal: { label: 'Rehearsal', className: 'bg-teal-100 text-teal-800' },
+  blackout: { label: 'Unavailable', className: 'bg-gray-100 text-gray-700' },
+  booking: { label: 'Request', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const commitmentHref = (commitment: Commitment) => {
+  if (!commitment.sourceId) return null;
+  if (commitment.kind === 'gig' || commitment.kind === 'rehearsal') return `/gigs/${commitment.sourceId}`;
+  if (commitment.kind === 'engagement') return '/bookings';
+  return null;
+};
+
+const commitmentTitle = (commitment: Commitment) => {
+  if (commitment.kind === 'rehearsal') return `Rehearsal: ${commitment.title || 'Gig'}`;
+  if (commitment.kind === 'blackout') return commitment.title || 'Unavailable';
+  return commitment.title || KIND_STYLES[commitment.kind].label;
+};
+
+export default function ScheduleView({ userId }: ScheduleViewProps) {
+  const [commitments, setCommitments] = useState<Commitment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyConflicts, setOnlyConflicts] = useState(false);
+
+  useEffect(() => {
+    const today = toDateInput(new Date());
+    createScheduleService()
+      .getCommitments(userId, today, addDaysToDateString(today, SCHEDULE_DAYS))
+      .then(setCommitments)
+      .catch(err => {
+        logError('Error loading schedule', err);
+        setError('Failed to load your schedule. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const conflicts = useMemo(() => scheduleConflicts(commitments), [commitments]);
+
+  const months = useMemo(() => {
+    const grouped = new Map<string, Commitment[]>();
+    commitments
+      .filter(commitment => !onlyConflicts || conflicts.has(commitment.key))
+      .forEach(commitment => {
+        const month = new Date(`${commitment.startDate}T00:00:00`).toLocaleDateString('en-US', {
+          month: 'long',
+          year: 'numeric'
+        });
+        grouped.set(month, [...(grouped.get(month) || []), commitment]);
+      });
+    return Array.from(grouped.entries());
+  }, [commitments, conflicts, onlyConflicts]);
+
+  // Blackouts are listed with the bookings they clash with, so count the others
+  const conflictCount = commitments.filter(commitment => commitment.kind !== 'blackout' && conflicts.has(commitment.key)).length;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#7823E1]"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className={`text-sm ${conflictCount > 0 ? 'text-amber-800' : 'text-gray-600'}`}>
+          {conflictCount > 0
+            ? `${conflictCount} ${conflictCount === 1 ? 'item clashes' : 'items clash'} with something else in the next ${SCHEDULE_DAYS} days.`
+            : `No conflicts in the next ${SCHEDULE_DAYS} days.`}
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={onlyConflicts}
+            onChange={(e) => setOnlyConflicts(e.target.checked)}
+            className="rounded border-gray-300 text-[#7823E1] focus:ring-[#7823E1]"
+          />
+          Only show conflicts
+        </label>
+      </div>
+
+      {months.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          {onlyConflicts ? 'Nothing clashes.' : 'Nothing on your schedule yet.'}
+        </div>
+      ) : (
+        months.map(([month, items]) => (
+          <section key={month}>
+            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">{month}</h2>
+            <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+              {items.map(commitment => {
+                const href = commitmentHref(commitment);
+                const itemConflicts = conflicts.get(commitment.key) || [];
+                const style = KIND_STYLES[commitment.kind];
+
+                return (
+                  <li key={commitment.key} className="p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        {href ? (
+                          <Link href={href} className="font-medium text-gray-900 hover:text-[#7823E1]">
+                            {commitmentTitle(commitment)}
+                          </Link>
+                        ) : (
+                          <p className="font-medium text-gray-900">{commitmentTitle(commitment)}</p>
+                        )}
+                        <p className="text-sm text-gray-600">{formatCommitmentWhen(commitment)}</p>
+                      </div>
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full shrink-0 ${style.className}`}>
+                        {style.label}
+                      </span>
+                    </div>
+                    {itemConflicts.length > 0 && (
+                      <ul className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 list-disc list-inside space-y-0.5">
+                        {itemConflicts.map(conflict => (
+                          <li key={`${conflict.type}-${conflict.other.key}`}>{describeConflict(conflict)}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
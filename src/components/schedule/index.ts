@@ -0,0 +1,2 @@
+export { default as ConflictWarning } from './ConflictWarning';
+export { default as ScheduleView } from './ScheduleView';
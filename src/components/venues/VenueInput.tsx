@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { searchVenues, type VenueSuggestion } from '@/services/client/venues';
+
+interface VenueInputProps {
+  value: string; // The venue as typed
+  linkedVenue: Pick<VenueSuggestion, 'id' | 'name'> | null;
+  onTextChange: (value: string) => void; // Typing unlinks the venue; the caller clears its link
+  onSelect: (venue: VenueSuggestion) => void;
+  id?: string;
+  className?: string;
+  placeholder?: string;
+}
+
+// Free-text venue field that suggests venues on Bookd as you type and shows when one is linked
+export default function VenueInput({
+  value,
+  linkedVenue,
+  onTextChange,
+  onSelect,
+  id,
+  className,
+  placeholder = 'e.g., Carnegie Hall'
+}: VenueInputProps) {
+  const [query, setQuery] = useState(''); // What was last typed; cleared once a venue is picked
+  const [suggestions, setSuggestions] = useState<VenueSuggestion[]>([]);
+
+  // Suggest venues as the user types (debounced)
+  useEffect(() => {
+    if (!query.trim()) {
+      setSuggestions([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      setSuggestions(await searchVenues(query));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const handleChange = (text: string) => {
+    setQuery(text);
+    onTextChange(text);
+  };
+
+  const handleSelect = (suggestion: VenueSuggestion) => {
+    setQuery('');
+    setSuggestions([]);
+    onSelect(suggestion);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        id={id}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        className={className}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      {linkedVenue && (
+        <p className="text-xs text-[#7823E1] mt-1">Linked to {linkedVenue.name} on Bookd</p>
+      )}
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg divide-y divide-gray-100">
+          {suggestions.map(suggestion => (
+            <li key={suggestion.id}>
+              <button type="button" onClick={() => handleSelect(suggestion)} className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50">
+                <span className="font-medium text-gray-900">{suggestion.name}</span>
+                {suggestion.city && <span className="text-gray-500"> · {[suggestion.city, suggestion.state_province].filter(Boolean).join(', ')}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
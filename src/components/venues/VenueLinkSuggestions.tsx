@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getVenueLinkSuggestions, resolveVenueLinkSuggestion } from '@/services/client/venues';
+import type { VenueLinkSourceType, VenueLinkSuggestionWithVenue } from '@/types/database';
+
+interface VenueLinkSuggestionsProps {
+  sourceType: VenueLinkSourceType;
+  sources: { id: string; label: string }[]; // Rows the viewer owns, labelled for display
+  onLinked?: (sourceId: string, venueOrganizationId: string) => void;
+}
+
+// Venues on Bookd that match what was typed on older performances or gigs, for the owner to link or dismiss
+export default function VenueLinkSuggestions({ sourceType, sources, onLinked }: VenueLinkSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<VenueLinkSuggestionWithVenue[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const sourceKey = sources.map(source => source.id).join(',');
+
+  useEffect(() => {
+    getVenueLinkSuggestions(sourceType, sourceKey ? sourceKey.split(',') : []).then(setSuggestions);
+  }, [sourceType, sourceKey]);
+
+  const handleResolve = async (suggestion: VenueLinkSuggestionWithVenue, accept: boolean) => {
+    setResolvingId(suggestion.id);
+    if (await resolveVenueLinkSuggestion(suggestion.id, accept)) {
+      // Accepting settles the row, so drop every suggestion for it
+      setSuggestions(prev => prev.filter(item =>
+        item.id !== suggestion.id && !(accept && item.source_id === suggestion.source_id)
+      ));
+      if (accept) onLinked?.(suggestion.source_id, suggestion.venue_organization_id);
+    }
+    setResolvingId(null);
+  };
+
+  // One suggestion per row at a time, best match first
+  const visible = suggestions.filter((suggestion, index) =>
+    suggestions.findIndex(item => item.source_id === suggestion.source_id) === index
+  );
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="bg-[#E8DFFF] rounded-lg p-4 space-y-3">
+      <p className="text-sm font-medium text-[#7823E1]">These venues are on Bookd. Link them so they show on the venue&apos;s page.</p>
+      <ul className="space-y-2">
+        {visible.map(suggestion => (
+          <li key={suggestion.id} className="flex items-center justify-between gap-3 text-sm">
+            <span className="text-gray-800">
+              <span className="font-medium">{sources.find(source => source.id === suggestion.source_id)?.label}</span>
+              {': '}&ldquo;{suggestion.venue_text}&rdquo; &rarr; {suggestion.venue?.name}
+              {suggestion.venue?.city && <span className="text-gray-500"> · {[suggestion.venue.city, suggestion.venue.state_province].filter(Boolean).join(', ')}</span>}
+            </span>
+            <span className="flex items-center gap-2 shrink-0">
+              <button
+                type="button"
+                disabled={resolvingId === suggestion.id}
+                onClick={() => handleResolve(suggestion, false)}
+                className="px-3 py-1 text-xs text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Not this venue
+              </button>
+              <button
+                type="button"
+                disabled={resolvingId === suggestion.id}
+                onClick={() => handleResolve(suggestion, true)}
+                className="px-3 py-1 text-xs font-medium text-white bg-[#7823E1] rounded-md hover:opacity-90 disabled:opacity-50"
+              >
+                Link
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
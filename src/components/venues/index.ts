@@ -0,0 +1,2 @@
+export { default as VenueInput } from './VenueInput';
+export { default as VenueLinkSuggestions } from './VenueLinkSuggestions';
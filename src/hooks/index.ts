@@ -6,6 +6,7 @@ export * from './useProfilePictureUpload';
 
 // Utility hooks
 export * from './useNotifications';
+export * from './useScheduleConflicts';
 
 // Re-export common types for convenience
 export type {
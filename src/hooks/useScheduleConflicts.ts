@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { checkScheduleConflicts } from '@/services/client/schedule';
+import type { Commitment, ScheduleConflict } from '@/lib/availability/conflicts';
+import { logError } from '@/lib/utils/log';
+
+/**
+ * Hook for checking gigs or bookings against a musician's schedule
+ * Pass a null userId to skip the check; failures leave the list empty rather than blocking the caller
+ */
+export function useScheduleConflicts(userId: string | null, candidates: Commitment[]) {
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Re-check when the candidates' times change, not on every new array
+  const candidatesKey = JSON.stringify(candidates);
+
+  useEffect(() => {
+    if (!userId || candidates.length === 0) {
+      setConflicts([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    checkScheduleConflicts(userId, candidates)
+      .then(result => {
+        if (!cancelled) setConflicts(result);
+      })
+      .catch(err => {
+        logError('Error checking schedule conflicts', err);
+        if (!cancelled) setConflicts([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, candidatesKey]);
+
+  return { conflicts, loading };
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Check a scheduler request for `Authorization: Bearer $CRON_SECRET`
+ * Returns the error response to send back, or null when the request may run
+ */
+export function authorizeCronRequest(request: Request): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 500 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,213 @@
+/**
+ * Schedule conflict tests
+ * Covers overlaps, blackouts, travel buffers between venues and conflict descriptions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bookingCommitment,
+  describeConflict,
+  findConflicts,
+  gigCommitments,
+  scheduleCommitment,
+  scheduleConflicts,
+  travelBufferMinutes,
+  type Commitment
+} from '../conflicts';
+
+// Central London and Oxford, about 83 km apart
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const OXFORD = { latitude: 51.752, longitude: -1.2577 };
+
+const commitment = (key: string, overrides: Partial<Commitment> = {}): Commitment => ({
+  key,
+  kind: 'engagement',
+  sourceId: key,
+  title: key,
+  startDate: '2025-06-14',
+  endDate: null,
+  startTime: null,
+  endTime: null,
+  latitude: null,
+  longitude: null,
+  ...overrides
+});
+
+const gig = {
+  id: 'gig-1',
+  title: 'Jazz Night',
+  start_date: '2025-06-14',
+  end_date: null,
+  start_time: '20:00',
+  end_time: '23:00',
+  rehearsal_dates: ['2025-06-10', '2025-06-12'],
+  is_remote: false,
+  ...LONDON
+};
+
+describe('findConflicts', () => {
+  it('finds overlapping commitments', () => {
+    const candidate = commitment('new', { startTime: '20:00', endTime: '23:00' });
+    const existing = commitment('booked', { startTime: '22:00', endTime: '23:30' });
+
+    expect(findConflicts([candidate], [existing])).toEqual([{ type: 'overlap', commitment: candidate, other: existing }]);
+  });
+
+  it('lets back-to-back sets at the same place through', () => {
+    const candidate = commitment('new', { startTime: '18:00', endTime: '20:00', ...LONDON });
+    const existing = commitment('booked', { startTime: '20:00', endTime: '22:00', ...LONDON });
+
+    expect(findConflicts([candidate], [existing])).toEqual([]);
+  });
+
+  it('assumes a three hour set when there is no end time', () => {
+    const candidate = commitment('new', { startTime: '20:00' });
+
+    expect(findConflicts([candidate], [commitment('late', { startTime: '22:30', endTime: '23:30' })])).toHaveLength(1);
+    expect(findConflicts([candidate], [commitment('later', { startTime: '23:00', endTime: '23:30' })])).toEqual([]);
+  });
+
+  it('treats a set ending before it starts as running past midnight', () => {
+    const candidate = commitment('new', { startTime: '22:00', endTime: '02:00' });
+    const nextDay = commitment('brunch', { startDate: '2025-06-15', startTime: '01:00', endTime: '03:00' });
+
+    expect(findConflicts([candidate], [nextDay])).toHaveLength(1);
+  });
+
+  it('blocks whole days for commitments without times', () => {
+    const candidate = commitment('new', { startTime: '20:00', endTime: '23:00' });
+    const festival = commitment('festival', { startDate: '2025-06-13', endDate: '2025-06-15' });
+
+    expect(findConflicts([candidate], [festival])[0].type).toBe('overlap');
+    expect(findConflicts([commitment('other', { startDate: '2025-06-16' })], [festival])).toEqual([]);
+  });
+
+  it('reports commitments in time marked unavailable as blackout conflicts', () => {
+    const candidate = bookingCommitment('request-1', {
+      title: 'Wedding',
+      event_date: '2025-06-14',
+      start_time: '15:00',
+      end_time: '18:00'
+    });
+    const blackout = commitment('away', { kind: 'blackout', startTime: '12:00', endTime: '16:00' });
+
+    expect(findConflicts([candidate], [blackout])).toEqual([{ type: 'blackout', commitment: candidate, other: blackout }]);
+  });
+
+  it('flags too little time to travel between venues', () => {
+    const candidate = commitment('new', { startTime: '20:30', endTime: '22:00', ...OXFORD });
+    const existing = commitment('booked', { startTime: '18:00', endTime: '20:00', ...LONDON });
+
+    const [conflict] = findConflicts([candidate], [existing]);
+    expect(conflict.type).toBe('travel');
+    expect(conflict.travel).toEqual({ distanceKm: 83, neededMinutes: 130, gapMinutes: 30 });
+  });
+
+  it('ignores travel when there is enough time or a venue is unknown', () => {
+    const existing = commitment('booked', { startTime: '14:00', endTime: '16:00', ...LONDON });
+
+    expect(findConflicts([commitment('new', { startTime: '20:00', endTime: '22:00', ...OXFORD })], [existing])).toEqual([]);
+    expect(findConflicts([commitment('new', { startTime: '16:30', endTime: '18:00' })], [existing])).toEqual([]);
+  });
+
+  it('never reports a gig against its own rehearsals or booking', () => {
+    const hired = scheduleCommitment({
+      kind: 'gig',
+      source_id: gig.id,
+      title: gig.title,
+      starts_on: gig.start_date,
+      ends_on: gig.start_date,
+      start_time: gig.start_time,
+      end_time: gig.end_time,
+      latitude: gig.latitude,
+      longitude: gig.longitude
+    }, 0);
+
+    expect(findConflicts(gigCommitments(gig), [hired])).toEqual([]);
+  });
+
+  it('still reports a blackout that shares an id with the candidate', () => {
+    const candidate = commitment('new', { sourceId: 'shared', startTime: '20:00', endTime: '22:00' });
+    const blackout = commitment('away', { kind: 'blackout', sourceId: 'shared' });
+
+    expect(findConflicts([candidate], [blackout])).toHaveLength(1);
+  });
+});
+
+describe('scheduleConflicts', () => {
+  it('lists each clash under both commitments', () => {
+    const first = commitment('first', { startTime: '20:00', endTime: '22:00' });
+    const second = commitment('second', { startTime: '21:00', endTime: '23:00' });
+    const third = commitment('third', { startDate: '2025-06-20' });
+
+    const conflicts = scheduleConflicts([first, second, third]);
+
+    expect(conflicts.get('first')).toEqual([{ type: 'overlap', commitment: first, other: second }]);
+    expect(conflicts.get('second')).toEqual([{ type: 'overlap', commitment: second, other: first }]);
+    expect(conflicts.has('third')).toBe(false);
+  });
+
+  it('does not list overlapping blackouts against each other', () => {
+    const conflicts = scheduleConflicts([
+      commitment('away', { kind: 'blackout' }),
+      commitment('holiday', { kind: 'blackout', endDate: '2025-06-20' })
+    ]);
+
+    expect(conflicts.size).toBe(0);
+  });
+});
+
+describe('travelBufferMinutes', () => {
+  it('needs no buffer within the same venue', () => {
+    expect(travelBufferMinutes(0)).toBe(0);
+    expect(travelBufferMinutes(0.9)).toBe(0);
+  });
+
+  it('adds setup time to the drive and rounds up to 5 minutes', () => {
+    expect(travelBufferMinutes(1)).toBe(35);
+    expect(travelBufferMinutes(10)).toBe(45);
+    expect(travelBufferMinutes(50)).toBe(90);
+  });
+});
+
+describe('gigCommitments', () => {
+  it('adds an all-day commitment for each rehearsal', () => {
+    const [main, ...rehearsals] = gigCommitments(gig);
+
+    expect(main).toMatchObject({ key: 'gig-gig-1', kind: 'gig', startTime: '20:00', ...LONDON });
+    expect(rehearsals.map(rehearsal => [rehearsal.kind, rehearsal.startDate, rehearsal.startTime])).toEqual([
+      ['rehearsal', '2025-06-10', null],
+      ['rehearsal', '2025-06-12', null]
+    ]);
+  });
+
+  it('drops the venue of remote gigs', () => {
+    const [main] = gigCommitments({ ...gig, is_remote: true });
+
+    expect(main.latitude).toBeNull();
+    expect(main.longitude).toBeNull();
+  });
+});
+
+describe('describeConflict', () => {
+  it('describes overlaps and blackouts', () => {
+    const candidate = commitment('new', { startTime: '20:00', endTime: '23:00' });
+    const existing = commitment('booked', { title: 'Wedding', startTime: '19:00', endTime: '21:30' });
+    const blackout = commitment('away', { kind: 'blackout', title: 'Holiday' });
+
+    expect(describeConflict({ type: 'overlap', commitment: candidate, other: existing }))
+      .toBe('Overlaps the booking Wedding (Sat, Jun 14, 7pm – 9:30pm)');
+    expect(describeConflict({ type: 'blackout', commitment: candidate, other: blackout }))
+      .toBe('Falls in time marked unavailable (Sat, Jun 14: Holiday)');
+  });
+
+  it('describes travel conflicts', () => {
+    const candidate = commitment('new', { startTime: '20:30', endTime: '22:00', ...OXFORD });
+    const existing = commitment('booked', { kind: 'gig', title: null, startTime: '18:00', endTime: '20:00', ...LONDON });
+
+    const [conflict] = findConflicts([candidate], [existing]);
+    expect(describeConflict(conflict)).toBe(
+      'Only 30 min to get to or from a gig (Sat, Jun 14, 6pm – 8pm), about 83 km away; allow 130 min'
+    );
+  });
+});
@@ -0,0 +1,261 @@
+import {
+  minutesBetween,
+  rangesOverlap,
+  toTimeRange,
+  type TimeRange
+} from '@/lib/utils/date';
+import { formatClockTime } from './schedule';
+import type { BookingTerms, Gig, ScheduleCommitment, ScheduleCommitmentKind } from '@/types/database';
+
+// Anything on a musician's schedule, or a gig or booking they're about to take on
+export interface Commitment {
+  key: string; // Unique within a schedule
+  kind: ScheduleCommitmentKind | 'booking';
+  sourceId: string | null; // Gig, engagement, booking request or blackout id; null when hidden
+  title: string | null; // Null when the schedule belongs to someone else
+  startDate: string;
+  endDate: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export type ConflictType = 'overlap' | 'blackout' | 'travel';
+
+export interface ScheduleConflict {
+  type: ConflictType;
+  commitment: Commitment; // The item being checked
+  other: Commitment; // What it clashes with
+  travel?: { distanceKm: number; neededMinutes: number; gapMinutes: number };
+}
+
+// A gig with a start time but no end time is assumed to run this long
+const DEFAULT_SET_MINUTES = 180;
+// Door-to-door estimate for travel buffers: average speed plus time to pack down and load in
+const TRAVEL_SPEED_KMH = 50;
+const TRAVEL_SETUP_MINUTES = 30;
+// Venues closer than this are treated as the same place
+const SAME_VENUE_KM = 1;
+
+const KIND_LABELS: Record<Commitment['kind'], string> = {
+  engagement: 'booking',
+  gig: 'gig',
+  rehearsal: 'rehearsal',
+  blackout: 'time marked unavailable',
+  booking: 'booking request'
+};
+
+const rangeOf = (commitment: Commitment): TimeRange =>
+  toTimeRange(commitment, commitment.kind === 'blackout' ? undefined : DEFAULT_SET_MINUTES);
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+function distanceKm(a: Commitment, b: Commitment): number | null {
+  if (a.latitude == null || a.longitude == null || b.latitude == null || b.longitude == null) return null;
+
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Minutes to allow between two venues, rounded up to 5 minutes
+ */
+export function travelBufferMinutes(km: number): number {
+  if (km < SAME_VENUE_KM) return 0;
+  return Math.ceil(((km / TRAVEL_SPEED_KMH) * 60 + TRAVEL_SETUP_MINUTES) / 5) * 5;
+}
+
+/**
+ * A gig and its rehearsals as commitments
+ */
+export function gigCommitments(
+  gig: Pick<Gig, 'id' | 'title' | 'start_date' | 'end_date' | 'start_time' | 'end_time' | 'rehearsal_dates' | 'latitude' | 'longitude' | 'is_remote'>
+): Commitment[] {
+  const latitude = gig.is_remote ? null : gig.latitude;
+  const longitude = gig.is_remote ? null : gig.longitude;
+
+  return [
+    {
+      key: `gig-${gig.id}`,
+      kind: 'gig',
+      sourceId: gig.id,
+      title: gig.title,
+      startDate: gig.start_date,
+      endDate: gig.end_date,
+      startTime: gig.start_time,
+      endTime: gig.end_time,
+      latitude,
+      longitude
+    },
+    ...(gig.rehearsal_dates || []).map(date => ({
+      key: `rehearsal-${gig.id}-${date}`,
+      kind: 'rehearsal' as const,
+      sourceId: gig.id,
+      title: gig.title,
+      startDate: date,
+      endDate: date,
+      startTime: null,
+      endTime: null,
+      latitude: null,
+      longitude: null
+    }))
+  ];
+}
+
+/**
+ * The terms of a booking request as a commitment
+ */
+export function bookingCommitment(
+  id: string,
+  terms: Pick<BookingTerms, 'title' | 'event_date' | 'start_time' | 'end_time'>
+): Commitment {
+  return {
+    key: `booking-${id}`,
+    kind: 'booking',
+    sourceId: id,
+    title: terms.title,
+    startDate: terms.event_date,
+    endDate: terms.event_date,
+    startTime: terms.start_time,
+    endTime: terms.end_time,
+    latitude: null,
+    longitude: null
+  };
+}
+
+/**
+ * A row from get_schedule_commitments as a commitment
+ */
+export function scheduleCommitment(row: ScheduleCommitment, index: number): Commitment {
+  return {
+    key: `${row.kind}-${row.source_id || index}-${row.starts_on}`,
+    kind: row.kind,
+    sourceId: row.source_id,
+    title: row.title,
+    startDate: row.starts_on,
+    endDate: row.ends_on,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    latitude: row.latitude != null ? Number(row.latitude) : null,
+    longitude: row.longitude != null ? Number(row.longitude) : null
+  };
+}
+
+/**
+ * How two commitments clash, if they do: overlapping time, or too little time to travel between venues
+ */
+function checkPair(commitment: Commitment, other: Commitment): ScheduleConflict | null {
+  const a = rangeOf(commitment);
+  const b = rangeOf(other);
+
+  if (rangesOverlap(a, b)) {
+    const type = commitment.kind === 'blackout' || other.kind === 'blackout' ? 'blackout' : 'overlap';
+    return { type, commitment, other };
+  }
+
+  // Travel only matters between timed items at known venues
+  if (!commitment.startTime || !other.startTime) return null;
+  const km = distanceKm(commitment, other);
+  if (km === null) return null;
+
+  const neededMinutes = travelBufferMinutes(km);
+  const gapMinutes = minutesBetween(a, b);
+  if (gapMinutes >= neededMinutes) return null;
+
+  return { type: 'travel', commitment, other, travel: { distanceKm: Math.round(km), neededMinutes, gapMinutes } };
+}
+
+// A gig's own rehearsals (or a gig the musician is already hired for) never conflict with it
+const isSameSource = (a: Commitment, b: Commitment) =>
+  a.key === b.key || (!!a.sourceId && a.sourceId === b.sourceId && a.kind !== 'blackout' && b.kind !== 'blackout');
+
+/**
+ * Conflicts between items a musician is about to take on and their existing schedule
+ */
+export function findConflicts(candidates: Commitment[], schedule: Commitment[]): ScheduleConflict[] {
+  return candidates.flatMap(candidate =>
+    schedule
+      .filter(existing => !isSameSource(candidate, existing))
+      .map(existing => checkPair(candidate, existing))
+      .filter((conflict): conflict is ScheduleConflict => conflict !== null)
+  );
+}
+
+/**
+ * Conflicts within a schedule, keyed by commitment; each clash is listed under both items
+ * Blackouts are only listed against the bookings and gigs that fall in them
+ */
+export function scheduleConflicts(schedule: Commitment[]): Map<string, ScheduleConflict[]> {
+  const conflicts = new Map<string, ScheduleConflict[]>();
+  const add = (conflict: ScheduleConflict) =>
+    conflicts.set(conflict.commitment.key, [...(conflicts.get(conflict.commitment.key) || []), conflict]);
+
+  schedule.forEach((commitment, i) => {
+    schedule.slice(i + 1).forEach(other => {
+      if (commitment.kind === 'blackout' && other.kind === 'blackout') return;
+      if (isSameSource(commitment, other)) return;
+
+      const conflict = checkPair(commitment, other);
+      if (!conflict) return;
+      add(conflict);
+      add({ ...conflict, commitment: other, other: commitment });
+    });
+  });
+
+  return conflicts;
+}
+
+/**
+ * When a commitment happens, e.g. "Sat, Nov 7, 8pm – 11pm"
+ */
+export function formatCommitmentWhen(commitment: Commitment): string {
+  const formatDay = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const multiDay = !!commitment.endDate && commitment.endDate > commitment.startDate;
+  const days = multiDay ? `${formatDay(commitment.startDate)} – ${formatDay(commitment.endDate as string)}` : formatDay(commitment.startDate);
+
+  if (!commitment.startTime) {
+    return commitment.endTime ? `${days}, until ${formatClockTime(commitment.endTime)}` : days;
+  }
+  const start = formatClockTime(commitment.startTime);
+  return commitment.endTime ? `${days}, ${start} – ${formatClockTime(commitment.endTime)}` : `${days}, from ${start}`;
+}
+
+/**
+ * Name of a commitment for conflict messages, e.g. "the gig Jazz Night" or "a booking"
+ */
+export function describeCommitment(commitment: Commitment): string {
+  const label = KIND_LABELS[commitment.kind];
+  if (commitment.kind === 'blackout') return label;
+  if (commitment.kind === 'rehearsal') return commitment.title ? `the rehearsal for ${commitment.title}` : 'a rehearsal';
+  return commitment.title ? `the ${label} ${commitment.title}` : `a ${label}`;
+}
+
+/**
+ * One-line explanation of a conflict, from the point of view of conflict.commitment
+ */
+export function describeConflict(conflict: ScheduleConflict): string {
+  const { other, travel } = conflict;
+  const when = formatCommitmentWhen(other);
+
+  switch (conflict.type) {
+    case 'blackout':
+      if (other.kind === 'blackout') {
+        return `Falls in time marked unavailable (${when}${other.title ? `: ${other.title}` : ''})`;
+      }
+      return `Overlaps ${describeCommitment(other)} (${when})`;
+    case 'travel':
+      return `Only ${Math.max(travel?.gapMinutes ?? 0, 0)} min to get to or from ${describeCommitment(other)} ` +
+        `(${when}), about ${travel?.distanceKm} km away; allow ${travel?.neededMinutes} min`;
+    case 'overlap':
+    default:
+      return `Overlaps ${describeCommitment(other)} (${when})`;
+  }
+}
@@ -0,0 +1,134 @@
+import type { Availability, AvailabilityBlackout, AvailabilityStatus, Weekday, WeeklySlot } from '@/types/database';
+
+export const WEEKDAYS: { day: Weekday; label: string; short: string }[] = [
+  { day: 1, label: 'Monday', short: 'Mon' },
+  { day: 2, label: 'Tuesday', short: 'Tue' },
+  { day: 3, label: 'Wednesday', short: 'Wed' },
+  { day: 4, label: 'Thursday', short: 'Thu' },
+  { day: 5, label: 'Friday', short: 'Fri' },
+  { day: 6, label: 'Saturday', short: 'Sat' },
+  { day: 0, label: 'Sunday', short: 'Sun' }
+];
+
+// User-facing wording for the statuses returned by musician_availability_status
+export const AVAILABILITY_STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  free: 'Available',
+  unscheduled: 'No availability set',
+  outside_hours: 'Outside their usual hours',
+  blackout: 'Marked unavailable',
+  booked: 'Already booked'
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * The viewer's IANA timezone, used as the default for a new schedule
+ */
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a stored availability value; profiles created before the typed model hold {}
+ */
+export function normalizeAvailability(raw: unknown): Required<Availability> {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Availability;
+  return {
+    timezone: value.timezone || null,
+    weekly: Array.isArray(value.weekly) ? sortSlots(value.weekly) : []
+  };
+}
+
+export function sortSlots(slots: WeeklySlot[]): WeeklySlot[] {
+  const order = (day: Weekday) => (day + 6) % 7; // Monday first
+  return [...slots].sort((a, b) => order(a.day) - order(b.day) || a.start.localeCompare(b.start));
+}
+
+/**
+ * Check slots are well formed, then merge overlapping or touching slots on the same day
+ * so a set spanning two of them still counts as covered
+ */
+export function prepareWeeklySlots(slots: WeeklySlot[]): { slots: WeeklySlot[]; errors: string[] } {
+  const errors: string[] = [];
+  const dayLabel = (day: Weekday) => WEEKDAYS.find(weekday => weekday.day === day)?.label;
+
+  slots.forEach(slot => {
+    const endValid = slot.end === '24:00' || TIME_PATTERN.test(slot.end);
+    if (!TIME_PATTERN.test(slot.start) || !endValid) {
+      errors.push(`${dayLabel(slot.day)}: enter a start and end time.`);
+    } else if (toMinutes(slot.end) <= toMinutes(slot.start)) {
+      errors.push(`${dayLabel(slot.day)}: end time must be after the start. Split late sets across two days.`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { slots, errors };
+  }
+
+  const merged: WeeklySlot[] = [];
+  sortSlots(slots).forEach(slot => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.day === slot.day && toMinutes(slot.start) <= toMinutes(previous.end)) {
+      if (toMinutes(slot.end) > toMinutes(previous.end)) {
+        previous.end = slot.end;
+      }
+    } else {
+      merged.push({ ...slot });
+    }
+  });
+
+  return { slots: merged, errors };
+}
+
+export function formatClockTime(time: string): string {
+  if (time.startsWith('24:')) return 'midnight';
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'pm' : 'am';
+  const hour = hours % 12 || 12;
+  return minutes === 0 ? `${hour}${suffix}` : `${hour}:${String(minutes).padStart(2, '0')}${suffix}`;
+}
+
+export function formatSlot(slot: Pick<WeeklySlot, 'start' | 'end'>): string {
+  return `${formatClockTime(slot.start)} – ${formatClockTime(slot.end)}`;
+}
+
+/**
+ * Weekly hours grouped by weekday, Monday first, skipping days without slots
+ */
+export function groupSlotsByDay(slots: WeeklySlot[]): { day: Weekday; label: string; slots: WeeklySlot[] }[] {
+  return WEEKDAYS
+    .map(({ day, label }) => ({ day, label, slots: sortSlots(slots.filter(slot => slot.day === day)) }))
+    .filter(group => group.slots.length > 0);
+}
+
+export function formatBlackout(blackout: Pick<AvailabilityBlackout, 'starts_on' | 'ends_on' | 'start_time' | 'end_time'>): string {
+  const formatDay = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const start = blackout.start_time ? `${formatDay(blackout.starts_on)} ${formatClockTime(blackout.start_time)}` : formatDay(blackout.starts_on);
+  const end = blackout.end_time ? `${formatDay(blackout.ends_on)} ${formatClockTime(blackout.end_time)}` : formatDay(blackout.ends_on);
+
+  if (blackout.starts_on === blackout.ends_on) {
+    const day = formatDay(blackout.starts_on);
+    if (blackout.start_time && blackout.end_time) {
+      return `${day}, ${formatSlot({ start: blackout.start_time, end: blackout.end_time })}`;
+    }
+    if (blackout.start_time) return `${day} from ${formatClockTime(blackout.start_time)}`;
+    if (blackout.end_time) return `${day} until ${formatClockTime(blackout.end_time)}`;
+    return day;
+  }
+  return `${start} – ${end}`;
+}
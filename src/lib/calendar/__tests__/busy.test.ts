@@ -0,0 +1,265 @@
+/**
+ * Busy time tests
+ * Covers timezone conversion, recurrence expansion, exceptions, merging and blackout rows
+ */
+
+import { describe, it, expect } from 'vitest';
+import { busyPeriods, busyPeriodsToBlackouts, type BusyOptions } from '../busy';
+import { parseCalendar } from '../parse';
+
+const JUNE: BusyOptions = { timezone: 'UTC', from: '2025-06-01', until: '2025-07-01' };
+
+const busy = (events: string[][], options: BusyOptions = JUNE) =>
+  busyPeriods(
+    parseCalendar(['BEGIN:VCALENDAR', ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n')),
+    options
+  );
+
+describe('busyPeriods', () => {
+  describe('single events', () => {
+    it('returns the wall-clock period of a timed event', () => {
+      expect(busy([['UID:a', 'DTSTART:20250614T200000Z', 'DTEND:20250614T230000Z']])).toEqual([
+        { start: '2025-06-14T20:00', end: '2025-06-14T23:00' }
+      ]);
+    });
+
+    it('converts between the event and target timezones', () => {
+      // 8pm in New York (UTC-4) is 1am the next day in London (UTC+1)
+      const periods = busy(
+        [['UID:a', 'DTSTART;TZID=America/New_York:20250614T200000', 'DTEND;TZID=America/New_York:20250614T230000']],
+        { ...JUNE, timezone: 'Europe/London' }
+      );
+
+      expect(periods).toEqual([{ start: '2025-06-15T01:00', end: '2025-06-15T04:00' }]);
+    });
+
+    it('reads floating times and unknown TZIDs in the target timezone', () => {
+      const options = { ...JUNE, timezone: 'Europe/Paris' };
+
+      expect(busy([['UID:a', 'DTSTART:20250614T200000', 'DTEND:20250614T210000']], options)).toEqual([
+        { start: '2025-06-14T20:00', end: '2025-06-14T21:00' }
+      ]);
+      expect(busy([['UID:a', 'DTSTART;TZID=Custom Zone:20250614T200000', 'DTEND;TZID=Custom Zone:20250614T210000']], options)).toEqual([
+        { start: '2025-06-14T20:00', end: '2025-06-14T21:00' }
+      ]);
+    });
+
+    it('resolves TZIDs prefixed with a path', () => {
+      const periods = busy([[
+        'UID:a',
+        'DTSTART;TZID=/freeassociation.sourceforge.net/Europe/London:20250614T200000',
+        'DURATION:PT1H'
+      ]]);
+
+      expect(periods).toEqual([{ start: '2025-06-14T19:00', end: '2025-06-14T20:00' }]);
+    });
+
+    it('uses DURATION when there is no DTEND', () => {
+      expect(busy([['UID:a', 'DTSTART:20250614T200000Z', 'DURATION:PT2H30M']])).toEqual([
+        { start: '2025-06-14T20:00', end: '2025-06-14T22:30' }
+      ]);
+    });
+
+    it('blocks whole days for all-day events, one day when there is no end', () => {
+      expect(busy([
+        ['UID:a', 'DTSTART;VALUE=DATE:20250614', 'DTEND;VALUE=DATE:20250616'],
+        ['UID:b', 'DTSTART;VALUE=DATE:20250620']
+      ])).toEqual([
+        { start: '2025-06-14T00:00', end: '2025-06-16T00:00' },
+        { start: '2025-06-20T00:00', end: '2025-06-21T00:00' }
+      ]);
+    });
+
+    it('skips events with no length', () => {
+      expect(busy([
+        ['UID:a', 'DTSTART:20250614T200000Z'],
+        ['UID:b', 'DTSTART:20250614T200000Z', 'DTEND:20250614T200000Z']
+      ])).toEqual([]);
+    });
+
+    it('ignores cancelled and free events', () => {
+      expect(busy([
+        ['UID:a', 'DTSTART:20250614T200000Z', 'DTEND:20250614T230000Z', 'STATUS:CANCELLED'],
+        ['UID:b', 'DTSTART:20250615T200000Z', 'DTEND:20250615T230000Z', 'TRANSP:TRANSPARENT'],
+        ['UID:c', 'DTSTART:20250616T200000Z', 'DTEND:20250616T230000Z', 'X-MICROSOFT-CDO-BUSYSTATUS:FREE']
+      ])).toEqual([]);
+    });
+  });
+
+  describe('merging and clipping', () => {
+    it('merges overlapping and touching periods', () => {
+      expect(busy([
+        ['UID:a', 'DTSTART:20250614T180000Z', 'DTEND:20250614T200000Z'],
+        ['UID:b', 'DTSTART:20250614T200000Z', 'DTEND:20250614T220000Z'],
+        ['UID:c', 'DTSTART:20250614T210000Z', 'DTEND:20250614T230000Z'],
+        ['UID:d', 'DTSTART:20250614T190000Z', 'DTEND:20250614T193000Z'],
+        ['UID:e', 'DTSTART:20250614T233000Z', 'DTEND:20250615T010000Z']
+      ])).toEqual([
+        { start: '2025-06-14T18:00', end: '2025-06-14T23:00' },
+        { start: '2025-06-14T23:30', end: '2025-06-15T01:00' }
+      ]);
+    });
+
+    it('clips periods to the horizon and drops those outside it', () => {
+      expect(busy([
+        ['UID:a', 'DTSTART:20250531T220000Z', 'DTEND:20250601T020000Z'],
+        ['UID:b', 'DTSTART:20250630T230000Z', 'DTEND:20250701T010000Z'],
+        ['UID:c', 'DTSTART:20250520T200000Z', 'DTEND:20250520T230000Z'],
+        ['UID:d', 'DTSTART:20250710T200000Z', 'DTEND:20250710T230000Z']
+      ])).toEqual([
+        { start: '2025-06-01T00:00', end: '2025-06-01T02:00' },
+        { start: '2025-06-30T23:00', end: '2025-07-01T00:00' }
+      ]);
+    });
+
+    it('rounds periods out to whole minutes', () => {
+      expect(busy([['UID:a', 'DTSTART:20250614T200030Z', 'DTEND:20250614T210010Z']])).toEqual([
+        { start: '2025-06-14T20:00', end: '2025-06-14T21:01' }
+      ]);
+    });
+  });
+
+  describe('recurrence', () => {
+    const weekly = (...rule: string[]) => [
+      'UID:series',
+      'DTSTART:20250602T190000Z',
+      'DTEND:20250602T210000Z',
+      ...rule
+    ];
+    const starts = (periods: { start: string }[]) => periods.map(period => period.start);
+
+    it('repeats weekly up to COUNT', () => {
+      expect(starts(busy([weekly('RRULE:FREQ=WEEKLY;COUNT=3')]))).toEqual([
+        '2025-06-02T19:00',
+        '2025-06-09T19:00',
+        '2025-06-16T19:00'
+      ]);
+    });
+
+    it('repeats on BYDAY days every INTERVAL weeks until a date', () => {
+      expect(starts(busy([weekly('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250620')]))).toEqual([
+        '2025-06-02T19:00',
+        '2025-06-04T19:00',
+        '2025-06-16T19:00',
+        '2025-06-18T19:00'
+      ]);
+    });
+
+    it('includes an occurrence starting exactly at a timed UNTIL', () => {
+      expect(starts(busy([weekly('RRULE:FREQ=DAILY;UNTIL=20250604T190000Z')]))).toEqual([
+        '2025-06-02T19:00',
+        '2025-06-03T19:00',
+        '2025-06-04T19:00'
+      ]);
+    });
+
+    it('stops open-ended rules at the horizon', () => {
+      expect(busy([weekly('RRULE:FREQ=WEEKLY')])).toHaveLength(5);
+    });
+
+    it('expands rules that started long before the horizon', () => {
+      const periods = busy(
+        [['UID:a', 'DTSTART;VALUE=DATE:20100105', 'RRULE:FREQ=YEARLY;BYMONTH=6;BYMONTHDAY=14']],
+        JUNE
+      );
+
+      expect(periods).toEqual([{ start: '2025-06-14T00:00', end: '2025-06-15T00:00' }]);
+    });
+
+    it('repeats monthly on the last Friday', () => {
+      const periods = busy(
+        [['UID:a', 'DTSTART:20250627T200000Z', 'DURATION:PT3H', 'RRULE:FREQ=MONTHLY;BYDAY=-1FR']],
+        { timezone: 'UTC', from: '2025-06-01', until: '2025-09-01' }
+      );
+
+      expect(starts(periods)).toEqual(['2025-06-27T20:00', '2025-07-25T20:00', '2025-08-29T20:00']);
+    });
+
+    it('skips months without the series day', () => {
+      const periods = busy(
+        [['UID:a', 'DTSTART;VALUE=DATE:20250531', 'RRULE:FREQ=MONTHLY']],
+        { timezone: 'UTC', from: '2025-05-01', until: '2025-09-01' }
+      );
+
+      expect(starts(periods)).toEqual(['2025-05-31T00:00', '2025-07-31T00:00', '2025-08-31T00:00']);
+    });
+
+    it('keeps wall-clock times across a DST change in the event timezone', () => {
+      // London moves from UTC+1 to UTC+0 on 26 October 2025
+      const periods = busy(
+        [['UID:a', 'DTSTART;TZID=Europe/London:20251020T190000', 'DURATION:PT1H', 'RRULE:FREQ=WEEKLY;COUNT=2']],
+        { timezone: 'UTC', from: '2025-10-01', until: '2025-11-01' }
+      );
+
+      expect(periods).toEqual([
+        { start: '2025-10-20T18:00', end: '2025-10-20T19:00' },
+        { start: '2025-10-27T19:00', end: '2025-10-27T20:00' }
+      ]);
+    });
+
+    it('leaves out EXDATEs and replaces edited occurrences', () => {
+      const periods = busy([
+        weekly('RRULE:FREQ=WEEKLY;COUNT=4', 'EXDATE:20250609T190000Z'),
+        ['UID:series', 'RECURRENCE-ID:20250616T190000Z', 'DTSTART:20250617T200000Z', 'DTEND:20250617T220000Z']
+      ]);
+
+      expect(periods).toEqual([
+        { start: '2025-06-02T19:00', end: '2025-06-02T21:00' },
+        { start: '2025-06-17T20:00', end: '2025-06-17T22:00' },
+        { start: '2025-06-23T19:00', end: '2025-06-23T21:00' }
+      ]);
+    });
+
+    it('removes a timed occurrence with a date-only EXDATE', () => {
+      expect(starts(busy([weekly('RRULE:FREQ=WEEKLY;COUNT=3', 'EXDATE;VALUE=DATE:20250609')]))).toEqual([
+        '2025-06-02T19:00',
+        '2025-06-16T19:00'
+      ]);
+    });
+
+    it('drops a cancelled edited occurrence without bringing back the original', () => {
+      const periods = busy([
+        weekly('RRULE:FREQ=WEEKLY;COUNT=2'),
+        ['UID:series', 'RECURRENCE-ID:20250609T190000Z', 'DTSTART:20250609T190000Z', 'DTEND:20250609T210000Z', 'STATUS:CANCELLED']
+      ]);
+
+      expect(starts(periods)).toEqual(['2025-06-02T19:00']);
+    });
+  });
+});
+
+describe('busyPeriodsToBlackouts', () => {
+  it('turns timed periods into blackout rows', () => {
+    expect(busyPeriodsToBlackouts([{ start: '2025-06-14T20:00', end: '2025-06-15T01:30' }])).toEqual([
+      {
+        external_uid: '2025-06-14T20:00/2025-06-15T01:30',
+        starts_on: '2025-06-14',
+        start_time: '20:00',
+        ends_on: '2025-06-15',
+        end_time: '01:30'
+      }
+    ]);
+  });
+
+  it('blocks the rest of the last day when a period ends at midnight', () => {
+    expect(busyPeriodsToBlackouts([
+      { start: '2025-06-14T00:00', end: '2025-06-16T00:00' },
+      { start: '2025-06-20T22:00', end: '2025-06-21T00:00' }
+    ])).toEqual([
+      {
+        external_uid: '2025-06-14T00:00/2025-06-16T00:00',
+        starts_on: '2025-06-14',
+        start_time: null,
+        ends_on: '2025-06-15',
+        end_time: null
+      },
+      {
+        external_uid: '2025-06-20T22:00/2025-06-21T00:00',
+        starts_on: '2025-06-20',
+        start_time: '22:00',
+        ends_on: '2025-06-20',
+        end_time: null
+      }
+    ]);
+  });
+});
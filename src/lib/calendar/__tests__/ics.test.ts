@@ -0,0 +1,170 @@
+/**
+ * iCalendar writer tests
+ * Covers line folding, text escaping, timezone conversion and event timing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addDays, buildCalendar, utcToZonedTime, zonedTimeToUtc, type CalendarEvent } from '../ics';
+
+const OPTIONS = { name: 'Test', timezone: 'UTC' };
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  uid: 'event-1@bookd',
+  title: 'Jazz Night',
+  start: { date: '2025-06-14', time: '20:00' },
+  ...overrides
+});
+
+// Logical content lines, with folding undone
+const unfoldedLines = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n');
+
+const lineFor = (calendar: string, name: string) =>
+  unfoldedLines(calendar).find(line => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+
+describe('buildCalendar', () => {
+  it('wraps events in a VCALENDAR with CRLF line endings', () => {
+    const calendar = buildCalendar([event()], OPTIONS);
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    expect(lineFor(calendar, 'UID')).toBe('UID:event-1@bookd');
+    expect(lineFor(calendar, 'STATUS')).toBe('STATUS:CONFIRMED');
+  });
+
+  it('adds refresh hints for subscribed feeds', () => {
+    const calendar = buildCalendar([], { ...OPTIONS, refreshMinutes: 60 });
+
+    expect(lineFor(calendar, 'REFRESH-INTERVAL')).toBe('REFRESH-INTERVAL;VALUE=DURATION:PT60M');
+    expect(lineFor(calendar, 'X-PUBLISHED-TTL')).toBe('X-PUBLISHED-TTL:PT60M');
+  });
+
+  describe('escaping', () => {
+    it('escapes backslashes, semicolons, commas and newlines in text values', () => {
+      const calendar = buildCalendar([
+        event({ title: 'Rock; Roll, Blues\\Soul', description: 'Line one\nLine two\r\nLine three' })
+      ], OPTIONS);
+
+      expect(lineFor(calendar, 'SUMMARY')).toBe('SUMMARY:Rock\\; Roll\\, Blues\\\\Soul');
+      expect(lineFor(calendar, 'DESCRIPTION')).toBe('DESCRIPTION:Line one\\nLine two\\nLine three');
+    });
+
+    it('escapes the calendar name', () => {
+      const calendar = buildCalendar([], { ...OPTIONS, name: 'Bookd, gigs; and more' });
+
+      expect(lineFor(calendar, 'X-WR-CALNAME')).toBe('X-WR-CALNAME:Bookd\\, gigs\\; and more');
+    });
+
+    it('leaves URLs unescaped', () => {
+      const calendar = buildCalendar([event({ url: 'https://bookd.test/gigs/1?a=1,2' })], OPTIONS);
+
+      expect(lineFor(calendar, 'URL')).toBe('URL:https://bookd.test/gigs/1?a=1,2');
+    });
+  });
+
+  describe('line folding', () => {
+    const octets = (line: string) => new TextEncoder().encode(line).length;
+
+    it('folds long lines at 75 octets with CRLF and a space', () => {
+      const description = 'a'.repeat(200);
+      const calendar = buildCalendar([event({ description })], OPTIONS);
+      const physical = calendar.split('\r\n');
+
+      physical.forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+      const start = physical.findIndex(line => line.startsWith('DESCRIPTION:'));
+      expect(physical[start]).toHaveLength(75);
+      expect(physical[start + 1].startsWith(' ')).toBe(true);
+      expect(lineFor(calendar, 'DESCRIPTION')).toBe(`DESCRIPTION:${description}`);
+    });
+
+    it('does not fold lines of exactly 75 octets', () => {
+      const title = 'x'.repeat(75 - 'SUMMARY:'.length);
+      const calendar = buildCalendar([event({ title })], OPTIONS);
+
+      expect(calendar).toContain(`\r\nSUMMARY:${title}\r\n`);
+    });
+
+    it('never splits a multi-byte character across lines', () => {
+      const description = 'é'.repeat(100) + '🎷'.repeat(30);
+      const calendar = buildCalendar([event({ description })], OPTIONS);
+      const physical = calendar.split('\r\n');
+
+      physical.forEach(line => {
+        expect(octets(line)).toBeLessThanOrEqual(75);
+        expect(line).not.toContain('�');
+      });
+      expect(lineFor(calendar, 'DESCRIPTION')).toBe(`DESCRIPTION:${description}`);
+    });
+  });
+
+  describe('event times', () => {
+    it('writes timed events in UTC', () => {
+      const calendar = buildCalendar([
+        event({ start: { date: '2025-06-14', time: '20:00' }, end: { date: '2025-06-14', time: '23:30' } })
+      ], { ...OPTIONS, timezone: 'America/New_York' });
+
+      expect(lineFor(calendar, 'DTSTART')).toBe('DTSTART:20250615T000000Z');
+      expect(lineFor(calendar, 'DTEND')).toBe('DTEND:20250615T033000Z');
+    });
+
+    it('runs an end at or before a same-day start past midnight', () => {
+      const calendar = buildCalendar([
+        event({ start: { date: '2025-06-14', time: '22:00' }, end: { date: '2025-06-14', time: '02:00' } })
+      ], OPTIONS);
+
+      expect(lineFor(calendar, 'DTSTART')).toBe('DTSTART:20250614T220000Z');
+      expect(lineFor(calendar, 'DTEND')).toBe('DTEND:20250615T020000Z');
+    });
+
+    it('leaves out DTEND when a timed event has no end time', () => {
+      const calendar = buildCalendar([event({ end: { date: '2025-06-14' } })], OPTIONS);
+
+      expect(lineFor(calendar, 'DTEND')).toBeUndefined();
+    });
+
+    it('writes all-day events as DATE values with an exclusive end', () => {
+      const calendar = buildCalendar([
+        event({ start: { date: '2025-06-14' }, end: { date: '2025-06-16' } })
+      ], OPTIONS);
+
+      expect(lineFor(calendar, 'DTSTART')).toBe('DTSTART;VALUE=DATE:20250614');
+      expect(lineFor(calendar, 'DTEND')).toBe('DTEND;VALUE=DATE:20250617');
+    });
+
+    it('ends a single all-day event the next day', () => {
+      const calendar = buildCalendar([event({ start: { date: '2025-12-31' } })], OPTIONS);
+
+      expect(lineFor(calendar, 'DTEND')).toBe('DTEND;VALUE=DATE:20260101');
+    });
+  });
+});
+
+describe('zonedTimeToUtc / utcToZonedTime', () => {
+  it('converts wall-clock times on either side of a DST change', () => {
+    // London is UTC+0 in winter and UTC+1 in summer
+    expect(zonedTimeToUtc('2025-01-15', '12:00', 'Europe/London').toISOString()).toBe('2025-01-15T12:00:00.000Z');
+    expect(zonedTimeToUtc('2025-07-15', '12:00', 'Europe/London').toISOString()).toBe('2025-07-15T11:00:00.000Z');
+  });
+
+  it('converts the first hour after clocks go forward', () => {
+    // New York skips 02:00-03:00 on 9 March 2025
+    expect(zonedTimeToUtc('2025-03-09', '03:30', 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('round-trips through the wall clock', () => {
+    const instant = new Date('2025-11-02T15:45:00Z');
+    const local = utcToZonedTime(instant, 'Australia/Sydney');
+
+    expect(local).toEqual({ date: '2025-11-03', time: '02:45:00' });
+    expect(zonedTimeToUtc(local.date, local.time, 'Australia/Sydney').getTime()).toBe(instant.getTime());
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month, year and leap day boundaries', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+});
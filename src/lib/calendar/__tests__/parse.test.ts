@@ -0,0 +1,222 @@
+/**
+ * iCalendar reader tests
+ * Covers unfolding, date/time values, durations, recurrence rules and event flags
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCalendar, parseCalendarName } from '../parse';
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const vevent = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+
+describe('parseCalendar', () => {
+  it('reads UTC, zoned and floating date-times and DATE values', () => {
+    const [utc, zoned, floating, allDay] = parseCalendar(calendar(
+      ...vevent('UID:utc', 'DTSTART:20250614T200000Z'),
+      ...vevent('UID:zoned', 'DTSTART;TZID=Europe/London:20250614T2000'),
+      ...vevent('UID:floating', 'DTSTART:20250614T200000'),
+      ...vevent('UID:all-day', 'DTSTART;VALUE=DATE:20250614')
+    ));
+
+    expect(utc.start).toEqual({ date: '2025-06-14', time: '20:00:00', utc: true, tzid: null });
+    expect(zoned.start).toEqual({ date: '2025-06-14', time: '20:00:00', utc: false, tzid: 'Europe/London' });
+    expect(floating.start).toEqual({ date: '2025-06-14', time: '20:00:00', utc: false, tzid: null });
+    expect(allDay.start).toEqual({ date: '2025-06-14', time: null, utc: false, tzid: null });
+  });
+
+  it('unfolds continuation lines starting with a space or tab', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:long-',
+      ' folded-',
+      '\tuid',
+      'DTSTART:20250614T',
+      ' 200000Z',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    const [event] = parseCalendar(text);
+    expect(event.uid).toBe('long-folded-uid');
+    expect(event.start.time).toBe('20:00:00');
+  });
+
+  it('accepts LF-only line endings', () => {
+    const events = parseCalendar(['BEGIN:VCALENDAR', ...vevent('UID:lf', 'DTSTART:20250614'), 'END:VCALENDAR'].join('\n'));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].uid).toBe('lf');
+  });
+
+  it('finds the value after a colon inside a quoted parameter', () => {
+    const [event] = parseCalendar(calendar(
+      ...vevent('UID:quoted', 'DTSTART;TZID="America/New_York":20250614T200000')
+    ));
+
+    expect(event.start.tzid).toBe('America/New_York');
+    expect(event.start.time).toBe('20:00:00');
+  });
+
+  it('reads DTEND or DURATION', () => {
+    const [withEnd, withDuration, negative] = parseCalendar(calendar(
+      ...vevent('UID:end', 'DTSTART:20250614T200000Z', 'DTEND:20250614T230000Z'),
+      ...vevent('UID:duration', 'DTSTART:20250614T200000Z', 'DURATION:P1DT2H30M15S'),
+      ...vevent('UID:negative', 'DTSTART:20250614T200000Z', 'DURATION:-PT15M')
+    ));
+
+    expect(withEnd.end?.time).toBe('23:00:00');
+    expect(withEnd.duration).toBeNull();
+    expect(withDuration.end).toBeNull();
+    expect(withDuration.duration).toBe(86400 + 2 * 3600 + 30 * 60 + 15);
+    expect(negative.duration).toBe(-900);
+  });
+
+  it('reads a week DURATION', () => {
+    const [event] = parseCalendar(calendar(...vevent('UID:week', 'DTSTART;VALUE=DATE:20250614', 'DURATION:P2W')));
+
+    expect(event.duration).toBe(14 * 86400);
+  });
+
+  it('skips events without a start and numbers events without a UID', () => {
+    const events = parseCalendar(calendar(
+      ...vevent('UID:no-start', 'SUMMARY:Nothing'),
+      ...vevent('DTSTART:20250614')
+    ));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].uid).toBe('event-0');
+  });
+
+  it('ignores properties of nested components', () => {
+    const [event] = parseCalendar(calendar(
+      ...vevent(
+        'UID:with-alarm',
+        'DTSTART:20250614T200000Z',
+        'BEGIN:VALARM',
+        'UID:alarm',
+        'DURATION:PT15M',
+        'END:VALARM',
+        'STATUS:CONFIRMED'
+      )
+    ));
+
+    expect(event.uid).toBe('with-alarm');
+    expect(event.duration).toBeNull();
+  });
+
+  it('ignores components other than VEVENT', () => {
+    const events = parseCalendar(calendar(
+      'BEGIN:VTODO',
+      'UID:todo',
+      'DTSTART:20250614',
+      'END:VTODO'
+    ));
+
+    expect(events).toEqual([]);
+  });
+
+  it('reads cancelled, transparent and Outlook free events', () => {
+    const [cancelled, transparent, outlookFree, busy] = parseCalendar(calendar(
+      ...vevent('UID:cancelled', 'DTSTART:20250614', 'STATUS:CANCELLED'),
+      ...vevent('UID:transparent', 'DTSTART:20250614', 'TRANSP:TRANSPARENT'),
+      ...vevent('UID:outlook', 'DTSTART:20250614', 'X-MICROSOFT-CDO-BUSYSTATUS:FREE'),
+      ...vevent('UID:busy', 'DTSTART:20250614', 'TRANSP:OPAQUE', 'STATUS:CONFIRMED')
+    ));
+
+    expect(cancelled.cancelled).toBe(true);
+    expect(transparent.transparent).toBe(true);
+    expect(outlookFree.transparent).toBe(true);
+    expect(busy.cancelled).toBe(false);
+    expect(busy.transparent).toBe(false);
+  });
+
+  it('reads EXDATE lists and RECURRENCE-ID', () => {
+    const [series, edited] = parseCalendar(calendar(
+      ...vevent(
+        'UID:series',
+        'DTSTART;TZID=Europe/London:20250602T190000',
+        'RRULE:FREQ=WEEKLY',
+        'EXDATE;TZID=Europe/London:20250609T190000,20250616T190000',
+        'EXDATE;VALUE=DATE:20250623'
+      ),
+      ...vevent('UID:series', 'RECURRENCE-ID;TZID=Europe/London:20250630T190000', 'DTSTART;TZID=Europe/London:20250630T200000')
+    ));
+
+    expect(series.exdates).toEqual([
+      { date: '2025-06-09', time: '19:00:00', utc: false, tzid: 'Europe/London' },
+      { date: '2025-06-16', time: '19:00:00', utc: false, tzid: 'Europe/London' },
+      { date: '2025-06-23', time: null, utc: false, tzid: null }
+    ]);
+    expect(series.recurrenceId).toBeNull();
+    expect(edited.recurrenceId).toEqual({ date: '2025-06-30', time: '19:00:00', utc: false, tzid: 'Europe/London' });
+  });
+
+  describe('recurrence rules', () => {
+    const ruleOf = (rrule: string) => parseCalendar(calendar(...vevent('UID:r', 'DTSTART:20250602T190000Z', `RRULE:${rrule}`)))[0].rrule;
+
+    it('reads frequency, interval, count and until', () => {
+      expect(ruleOf('FREQ=WEEKLY;INTERVAL=2;COUNT=10')).toEqual({
+        freq: 'WEEKLY',
+        interval: 2,
+        count: 10,
+        until: null,
+        byDay: [],
+        byMonthDay: [],
+        byMonth: []
+      });
+      expect(ruleOf('FREQ=DAILY;UNTIL=20250630T235959Z')?.until).toEqual({
+        date: '2025-06-30',
+        time: '23:59:59',
+        utc: true,
+        tzid: null
+      });
+      expect(ruleOf('FREQ=DAILY;UNTIL=20250630')?.until?.time).toBeNull();
+    });
+
+    it('reads BYDAY with and without ordinals', () => {
+      expect(ruleOf('FREQ=MONTHLY;BYDAY=2TU,-1FR,+1MO,SA')?.byDay).toEqual([
+        { weekday: 'TU', ordinal: 2 },
+        { weekday: 'FR', ordinal: -1 },
+        { weekday: 'MO', ordinal: 1 },
+        { weekday: 'SA', ordinal: null }
+      ]);
+    });
+
+    it('reads BYMONTHDAY and BYMONTH, dropping invalid values', () => {
+      const rule = ruleOf('FREQ=YEARLY;BYMONTHDAY=1,-1,0,x;BYMONTH=6,13,12');
+
+      expect(rule?.byMonthDay).toEqual([1, -1]);
+      expect(rule?.byMonth).toEqual([6, 12]);
+    });
+
+    it('is case-insensitive and defaults a bad interval to 1', () => {
+      expect(ruleOf('freq=weekly;interval=0;byday=mo')).toMatchObject({
+        freq: 'WEEKLY',
+        interval: 1,
+        byDay: [{ weekday: 'MO', ordinal: null }]
+      });
+    });
+
+    it('ignores unsupported frequencies', () => {
+      expect(ruleOf('FREQ=HOURLY;INTERVAL=2')).toBeNull();
+      expect(ruleOf('INTERVAL=2')).toBeNull();
+    });
+  });
+});
+
+describe('parseCalendarName', () => {
+  it('reads and unescapes X-WR-CALNAME', () => {
+    expect(parseCalendarName(calendar('X-WR-CALNAME:Gigs\\, rehearsals\\; more'))).toBe('Gigs, rehearsals; more');
+  });
+
+  it('reads a folded name with parameters', () => {
+    expect(parseCalendarName(calendar('X-WR-CALNAME;VALUE=TEXT:My ', ' Calendar'))).toBe('My Calendar');
+  });
+
+  it('returns null when there is no name', () => {
+    expect(parseCalendarName(calendar())).toBeNull();
+    expect(parseCalendarName(calendar('X-WR-CALNAME:  '))).toBeNull();
+  });
+});
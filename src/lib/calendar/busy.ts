@@ -0,0 +1,314 @@
+import { isValidTimeZone } from '@/lib/availability/schedule';
+import { addDays, utcToZonedTime, zonedTimeToUtc } from './ics';
+import { ICS_WEEKDAYS, type IcsDateTime, type IcsEvent, type IcsRecurrenceRule } from './parse';
+
+/**
+ * Busy time from imported calendar events, as merged wall-clock periods in the musician's timezone
+ */
+
+export interface BusyPeriod {
+  start: string; // YYYY-MM-DDTHH:MM wall-clock time in the target timezone
+  end: string; // Exclusive
+}
+
+export interface BusyOptions {
+  timezone: string; // IANA zone periods are expressed in; also used for floating times and unknown TZIDs
+  from: string; // YYYY-MM-DD, first day of the horizon
+  until: string; // YYYY-MM-DD, first day after the horizon
+}
+
+// An imported busy period in availability_blackouts form
+export interface ImportedBlackout {
+  external_uid: string;
+  starts_on: string;
+  ends_on: string;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+// Recurrence periods walked per event, so open-ended rules starting long ago stay cheap
+const MAX_RECURRENCE_STEPS = 10000;
+const MINUTE_MS = 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+const dateParts = (date: string) => date.split('-').map(Number) as [number, number, number];
+
+const weekdayOf = (date: string) => {
+  const [year, month, day] = dateParts(date);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const daysBetween = (from: string, to: string) => {
+  const [fromYear, fromMonth, fromDay] = dateParts(from);
+  const [toYear, toMonth, toDay] = dateParts(to);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86400000);
+};
+
+/**
+ * An IANA zone for a TZID; some exporters prefix the name with a path
+ * (e.g. /freeassociation.sourceforge.net/Europe/London), so trailing segments are tried too
+ */
+function resolveTimeZone(tzid: string): string | null {
+  const segments = tzid.split('/').filter(Boolean);
+  for (let i = 0; i < segments.length; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (isValidTimeZone(candidate)) return candidate;
+  }
+  return null;
+}
+
+function zoneFor(value: IcsDateTime, fallback: string): string {
+  if (value.utc) return 'UTC';
+  return (value.tzid && resolveTimeZone(value.tzid)) || fallback;
+}
+
+function instantOf(value: IcsDateTime, fallback: string): number {
+  return zonedTimeToUtc(value.date, value.time || '00:00', zoneFor(value, fallback)).getTime();
+}
+
+/**
+ * Days of a month matching BYMONTHDAY / BYDAY, or the series' own day of the month
+ */
+function monthDates(year: number, month: number, rule: IcsRecurrenceRule, defaultDay: number): string[] {
+  const lastDay = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map(day => (day > 0 ? day : lastDay + 1 + day));
+    if (rule.byDay.length > 0) {
+      const weekdays = rule.byDay.map(byDay => ICS_WEEKDAYS.indexOf(byDay.weekday));
+      days = days.filter(day => day >= 1 && day <= lastDay && weekdays.includes(weekdayOf(toDate(year, month, day))));
+    }
+  } else if (rule.byDay.length > 0) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const matching: number[] = [];
+      for (let day = 1; day <= lastDay; day++) {
+        if (ICS_WEEKDAYS[weekdayOf(toDate(year, month, day))] === weekday) matching.push(day);
+      }
+      if (ordinal === null) return matching;
+      const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      return picked ? [picked] : [];
+    });
+  } else {
+    days = [defaultDay];
+  }
+
+  return Array.from(new Set(days))
+    .filter(day => day >= 1 && day <= lastDay)
+    .sort((a, b) => a - b)
+    .map(day => toDate(year, month, day));
+}
+
+/**
+ * Candidate dates of one recurrence period (a day, week, month or year) and the period's first day
+ */
+function periodDates(start: string, rule: IcsRecurrenceRule, step: number): { first: string; dates: string[] } {
+  const [year, month, day] = dateParts(start);
+  const offset = step * rule.interval;
+  const weekdays = rule.byDay.map(byDay => ICS_WEEKDAYS.indexOf(byDay.weekday));
+  const inMonths = (date: string) => rule.byMonth.length === 0 || rule.byMonth.includes(dateParts(date)[1]);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = addDays(start, offset);
+      const [dateYear, dateMonth, dateDay] = dateParts(date);
+      const lastDay = daysInMonth(dateYear, dateMonth);
+      const matches = inMonths(date) &&
+        (weekdays.length === 0 || weekdays.includes(weekdayOf(date))) &&
+        (rule.byMonthDay.length === 0 || rule.byMonthDay.some(byMonthDay =>
+          (byMonthDay > 0 ? byMonthDay : lastDay + 1 + byMonthDay) === dateDay));
+      return { first: date, dates: matches ? [date] : [] };
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (the RFC 5545 default WKST)
+      const monday = addDays(start, offset * 7 - ((weekdayOf(start) + 6) % 7));
+      const days = weekdays.length > 0 ? weekdays : [weekdayOf(start)];
+      const dates = Array.from({ length: 7 }, (_, i) => addDays(monday, i))
+        .filter(date => days.includes(weekdayOf(date)) && inMonths(date));
+      return { first: monday, dates };
+    }
+    case 'MONTHLY': {
+      const monthIndex = month - 1 + offset;
+      const periodYear = year + Math.floor(monthIndex / 12);
+      const periodMonth = (monthIndex % 12) + 1;
+      const dates = rule.byMonth.length === 0 || rule.byMonth.includes(periodMonth)
+        ? monthDates(periodYear, periodMonth, rule, day)
+        : [];
+      return { first: toDate(periodYear, periodMonth, 1), dates };
+    }
+    case 'YEARLY': {
+      const periodYear = year + offset;
+      const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [month];
+      return {
+        first: toDate(periodYear, 1, 1),
+        dates: months.flatMap(periodMonth => monthDates(periodYear, periodMonth, rule, day))
+      };
+    }
+  }
+}
+
+/**
+ * Start dates of a recurring event up to (but excluding) lastDate, honouring COUNT and UNTIL
+ */
+function occurrenceDates(event: IcsEvent, rule: IcsRecurrenceRule, lastDate: string, timezone: string): string[] {
+  const dates: string[] = [];
+  const { until } = rule;
+  const startTime = event.start.time;
+  const zone = zoneFor(event.start, timezone);
+  const untilInstant = until?.time && startTime ? instantOf(until, zone) : null;
+  let count = 0;
+
+  for (let step = 0; step < MAX_RECURRENCE_STEPS; step++) {
+    const { first, dates: candidates } = periodDates(event.start.date, rule, step);
+    if (first >= lastDate) break;
+
+    for (const date of candidates) {
+      if (date < event.start.date) continue;
+      if (until) {
+        const beyond = untilInstant !== null && startTime
+          ? zonedTimeToUtc(date, startTime, zone).getTime() > untilInstant
+          : date > until.date;
+        if (beyond) return dates;
+      }
+      count++;
+      if (rule.count !== null && count > rule.count) return dates;
+      if (date < lastDate) dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+const minuteKey = (instant: number, timezone: string) => {
+  const local = utcToZonedTime(new Date(instant), timezone);
+  return `${local.date}T${local.time.slice(0, 5)}`;
+};
+
+/**
+ * The busy period of one occurrence starting on date, or null when it has no length
+ */
+function occurrencePeriod(event: IcsEvent, date: string, timezone: string): BusyPeriod | null {
+  if (!event.start.time) {
+    const days = event.end?.date
+      ? daysBetween(event.start.date, event.end.date)
+      : Math.ceil((event.duration ?? 86400) / 86400);
+    if (days <= 0) return null;
+    return { start: `${date}T00:00`, end: `${addDays(date, days)}T00:00` };
+  }
+
+  const durationMs = event.end
+    ? instantOf(event.end, timezone) - instantOf(event.start, timezone)
+    : (event.duration ?? 0) * 1000;
+  if (durationMs <= 0) return null;
+
+  const start = zonedTimeToUtc(date, event.start.time, zoneFor(event.start, timezone)).getTime();
+  return {
+    start: minuteKey(Math.floor(start / MINUTE_MS) * MINUTE_MS, timezone),
+    end: minuteKey(Math.ceil((start + durationMs) / MINUTE_MS) * MINUTE_MS, timezone)
+  };
+}
+
+const isBusy = (event: IcsEvent) => !event.cancelled && !event.transparent;
+
+/**
+ * Expand events (recurrences included) into busy periods within the horizon, merging any that
+ * overlap or touch. Cancelled and free (transparent) events are ignored, as are occurrences removed
+ * with EXDATE; edited occurrences (RECURRENCE-ID) replace the ones they were generated from.
+ */
+export function busyPeriods(events: IcsEvent[], options: BusyOptions): BusyPeriod[] {
+  const { timezone, from, until } = options;
+  // Events in other zones may start a day either side of the horizon in the target zone
+  const firstDate = addDays(from, -1);
+  const lastDate = addDays(until, 1);
+  const periods: BusyPeriod[] = [];
+
+  const occurrenceKey = (value: IcsDateTime, zone: string) =>
+    value.time ? String(instantOf(value, zone)) : value.date;
+
+  // Occurrences replaced by edited copies, per series
+  const replaced = new Map<string, Set<string>>();
+  events.forEach(event => {
+    if (!event.recurrenceId) return;
+    const keys = replaced.get(event.uid) || new Set<string>();
+    keys.add(occurrenceKey(event.recurrenceId, zoneFor(event.start, timezone)));
+    replaced.set(event.uid, keys);
+  });
+
+  events.forEach(event => {
+    if (!isBusy(event)) return;
+
+    if (!event.rrule || event.recurrenceId) {
+      if (event.start.date >= lastDate) return;
+      if ((event.end?.date || event.start.date) < firstDate && !event.duration) return;
+      const period = occurrencePeriod(event, event.start.date, timezone);
+      if (period) periods.push(period);
+      return;
+    }
+
+    const zone = zoneFor(event.start, timezone);
+    const excluded = new Set(replaced.get(event.uid) || []);
+    event.exdates.forEach(exdate => excluded.add(occurrenceKey(exdate, zone)));
+    const startTime = event.start.time;
+    // A date-only EXDATE on a timed series removes that day's occurrence
+    const isExcluded = (date: string) => excluded.has(date) ||
+      (!!startTime && excluded.has(String(zonedTimeToUtc(date, startTime, zone).getTime())));
+
+    occurrenceDates(event, event.rrule, lastDate, timezone)
+      .filter(date => !isExcluded(date))
+      .forEach(date => {
+        const period = occurrencePeriod(event, date, timezone);
+        if (period) periods.push(period);
+      });
+  });
+
+  return mergePeriods(periods, `${from}T00:00`, `${until}T00:00`);
+}
+
+/**
+ * Clip periods to [horizonStart, horizonEnd) and merge any that overlap or touch
+ */
+function mergePeriods(periods: BusyPeriod[], horizonStart: string, horizonEnd: string): BusyPeriod[] {
+  const merged: BusyPeriod[] = [];
+
+  periods
+    .filter(period => period.end > horizonStart && period.start < horizonEnd)
+    .map(period => ({
+      start: period.start < horizonStart ? horizonStart : period.start,
+      end: period.end > horizonEnd ? horizonEnd : period.end
+    }))
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .forEach(period => {
+      const last = merged[merged.length - 1];
+      if (last && period.start <= last.end) {
+        if (period.end > last.end) last.end = period.end;
+      } else {
+        merged.push({ ...period });
+      }
+    });
+
+  return merged;
+}
+
+/**
+ * Busy periods as blackout rows; a period ending at midnight blocks the rest of its last day
+ */
+export function busyPeriodsToBlackouts(periods: BusyPeriod[]): ImportedBlackout[] {
+  return periods.map(period => {
+    const [startDate, startTime] = period.start.split('T');
+    const [endDate, endTime] = period.end.split('T');
+    const endsAtMidnight = endTime === '00:00';
+
+    return {
+      external_uid: `${period.start}/${period.end}`,
+      starts_on: startDate,
+      start_time: startTime === '00:00' ? null : startTime,
+      ends_on: endsAtMidnight ? addDays(endDate, -1) : endDate,
+      end_time: endsAtMidnight ? null : endTime
+    };
+  });
+}
@@ -0,0 +1,128 @@
+import type { Engagement, EventListing, Gig, OrganizationPerformance, PastPerformance } from '@/types/database';
+import { utcToZonedTime, type CalendarEvent } from './ics';
+
+// Domain part of event UIDs; must never change or subscribers see duplicates
+const UID_DOMAIN = 'bookd.app';
+
+type CalendarGig = Pick<
+  Gig,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'start_date'
+  | 'end_date'
+  | 'start_time'
+  | 'end_time'
+  | 'rehearsal_dates'
+  | 'venue_name'
+  | 'venue_address'
+  | 'city'
+  | 'state_province'
+  | 'is_remote'
+  | 'updated_at'
+>;
+
+const joinLocation = (...parts: (string | null | undefined)[]) => parts.filter(Boolean).join(', ') || null;
+
+/**
+ * A gig and its rehearsals; a multi-day gig runs from its start date and time to its end date and time
+ */
+export function gigCalendarEvents(gig: CalendarGig, appUrl: string): CalendarEvent[] {
+  const url = `${appUrl}/gigs/${gig.id}`;
+  const location = gig.is_remote ? 'Remote' : joinLocation(gig.venue_name, gig.venue_address, gig.city, gig.state_province);
+  const status = gig.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED';
+
+  const events: CalendarEvent[] = [{
+    uid: `gig-${gig.id}@${UID_DOMAIN}`,
+    title: gig.title,
+    start: { date: gig.start_date, time: gig.start_time },
+    end: { date: gig.end_date || gig.start_date, time: gig.end_time },
+    description: `${gig.description}\n\n${url}`,
+    location,
+    url,
+    status,
+    updatedAt: gig.updated_at
+  }];
+
+  (gig.rehearsal_dates || []).forEach(date => {
+    events.push({
+      uid: `rehearsal-${gig.id}-${date}@${UID_DOMAIN}`,
+      title: `Rehearsal: ${gig.title}`,
+      start: { date },
+      location,
+      url,
+      status,
+      updatedAt: gig.updated_at
+    });
+  });
+
+  return events;
+}
+
+/**
+ * A confirmed (or since cancelled) booking
+ */
+export function engagementCalendarEvent(
+  engagement: Engagement,
+  appUrl: string,
+  withName?: string | null
+): CalendarEvent {
+  const details = [withName ? `With ${withName}` : null, engagement.terms].filter(Boolean).join('\n\n');
+
+  return {
+    uid: `engagement-${engagement.id}@${UID_DOMAIN}`,
+    title: engagement.title,
+    start: { date: engagement.event_date, time: engagement.start_time },
+    end: { date: engagement.event_date, time: engagement.end_time },
+    description: details || null,
+    location: joinLocation(engagement.venue_name, engagement.venue_address, engagement.city),
+    url: `${appUrl}/bookings`,
+    status: engagement.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    updatedAt: engagement.updated_at
+  };
+}
+
+/**
+ * A dated performance from a musician's or organization's profile, as an all-day event
+ */
+export function performanceCalendarEvent(
+  performance: PastPerformance | OrganizationPerformance,
+  appUrl: string
+): CalendarEvent | null {
+  if (!performance.performance_date) return null;
+
+  const profileUrl = 'organization_id' in performance ? null : `${appUrl}/profile/${performance.user_id}`;
+
+  return {
+    uid: `performance-${performance.id}@${UID_DOMAIN}`,
+    title: performance.title,
+    start: { date: performance.performance_date },
+    description: performance.description,
+    location: performance.venue,
+    url: profileUrl,
+    updatedAt: performance.updated_at
+  };
+}
+
+/**
+ * A public event, with wall-clock times in the event's own timezone (build the calendar in event.timezone)
+ */
+export function eventListingCalendarEvent(
+  event: Pick<EventListing, 'id' | 'title' | 'description' | 'status' | 'starts_at' | 'ends_at' | 'timezone' | 'venue_name' | 'venue_address' | 'city' | 'state_province' | 'updated_at'>,
+  appUrl: string
+): CalendarEvent {
+  const url = `${appUrl}/events/${event.id}`;
+
+  return {
+    uid: `event-${event.id}@${UID_DOMAIN}`,
+    title: event.title,
+    start: utcToZonedTime(new Date(event.starts_at), event.timezone),
+    end: event.ends_at ? utcToZonedTime(new Date(event.ends_at), event.timezone) : null,
+    description: [event.description, url].filter(Boolean).join('\n\n'),
+    location: joinLocation(event.venue_name, event.venue_address, event.city, event.state_province),
+    url,
+    status: event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    updatedAt: event.updated_at
+  };
+}
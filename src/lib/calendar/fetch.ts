@@ -0,0 +1,125 @@
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { assertPublicHost, publicLookup, PrivateAddressError } from '@/lib/net/address';
+import { logError } from '@/lib/utils/log';
+
+// Server-only: fetches a user-supplied calendar URL, refusing addresses on private networks
+
+export const MAX_CALENDAR_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 3;
+
+// Error types for import failures; messages are shown to the user
+export class CalendarImportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CalendarImportError';
+  }
+}
+
+function assertCalendarUrl(url: URL): void {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new CalendarImportError('Calendar links must start with https://, http:// or webcal://');
+  }
+  assertPublicHost(url);
+}
+
+/**
+ * GET a URL through publicLookup, so the connection goes to the address that was checked
+ */
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, {
+      headers: { Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.5', 'User-Agent': 'Bookd/1.0' },
+      lookup: publicLookup,
+      signal
+    }, resolve);
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Read a response body as text, giving up once it passes MAX_CALENDAR_BYTES
+ */
+async function readLimited(response: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_CALENDAR_BYTES) {
+      response.destroy();
+      throw new CalendarImportError('That calendar is too large to import.', 413);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Normalize a pasted calendar link; webcal:// is the subscription form of http(s)
+ */
+export function normalizeCalendarUrl(input: string): URL {
+  const trimmed = input.trim().replace(/^webcals?:\/\//i, 'https://');
+  try {
+    return new URL(trimmed);
+  } catch {
+    throw new CalendarImportError('Please enter a valid calendar link.');
+  }
+}
+
+/**
+ * Download a calendar feed, checking the host of every redirect, within size and time limits
+ */
+export async function fetchCalendar(input: string): Promise<string> {
+  let url = normalizeCalendarUrl(input);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      assertCalendarUrl(url);
+
+      const response = await get(url, controller.signal);
+      const status = response.statusCode || 0;
+
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.destroy();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new CalendarImportError('That calendar link redirects too many times.');
+        }
+        url = new URL(location, url);
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.destroy();
+        throw new CalendarImportError(`The calendar server responded with status ${status}.`, 502);
+      }
+
+      if (Number(response.headers['content-length']) > MAX_CALENDAR_BYTES) {
+        response.destroy();
+        throw new CalendarImportError('That calendar is too large to import.', 413);
+      }
+
+      return await readLimited(response);
+    }
+  } catch (error) {
+    if (error instanceof CalendarImportError) throw error;
+    if (error instanceof PrivateAddressError) {
+      throw new CalendarImportError('That calendar link points to a private network address.');
+    }
+    if (controller.signal.aborted) {
+      throw new CalendarImportError('The calendar server took too long to respond.', 504);
+    }
+    logError('Error fetching calendar', error);
+    throw new CalendarImportError('That calendar link could not be reached.', 502);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer
+ * Timed events are written in UTC (no VTIMEZONE needed); all-day events use DATE values
+ */
+
+export interface CalendarEventTime {
+  date: string; // YYYY-MM-DD
+  time?: string | null; // HH:MM or HH:MM:SS wall-clock time; all-day when missing
+}
+
+export type CalendarEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface CalendarEvent {
+  uid: string; // Stable across exports so calendar apps update rather than duplicate
+  title: string;
+  start: CalendarEventTime;
+  end?: CalendarEventTime | null; // An end at or before a same-day start runs past midnight
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: CalendarEventStatus;
+  updatedAt?: string | null; // ISO timestamp
+}
+
+export interface CalendarOptions {
+  name: string;
+  timezone: string; // IANA zone the events' wall-clock times are in
+  refreshMinutes?: number; // Suggested polling interval for subscribed feeds
+}
+
+const PRODUCT_ID = '-//Bookd//Bookd Calendar//EN';
+const MAX_LINE_OCTETS = 75;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Creating formatters is slow; imports convert thousands of times in a handful of zones
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(instant));
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The UTC instant of a wall-clock date and time in a timezone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Two passes settle the offset when the first guess lands on the other side of a DST change
+  const firstOffset = timeZoneOffset(wallClock, timeZone);
+  const secondOffset = timeZoneOffset(wallClock - firstOffset, timeZone);
+  return new Date(wallClock - secondOffset);
+}
+
+/**
+ * The wall-clock date and time (HH:MM:SS) of a UTC instant in a timezone
+ */
+export function utcToZonedTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const local = new Date(instant.getTime() + timeZoneOffset(instant.getTime(), timeZone));
+  return {
+    date: `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}`,
+    time: `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())}`
+  };
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + days));
+  return `${next.getUTCFullYear()}-${pad(next.getUTCMonth() + 1)}-${pad(next.getUTCDate())}`;
+}
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+const formatDate = (date: string) => date.replace(/-/g, '');
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, continuing with CRLF + space, without splitting characters
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+function eventLines(event: CalendarEvent, timezone: string, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (!event.start.time) {
+    // DTEND is exclusive for all-day events
+    const lastDay = event.end?.date && event.end.date > event.start.date ? event.end.date : event.start.date;
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start.date)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatDate(addDays(lastDay, 1))}`);
+  } else {
+    const start = zonedTimeToUtc(event.start.date, event.start.time, timezone);
+    lines.push(`DTSTART:${formatUtc(start)}`);
+
+    if (event.end?.time) {
+      let end = zonedTimeToUtc(event.end.date, event.end.time, timezone);
+      if (end <= start && event.end.date === event.start.date) {
+        end = zonedTimeToUtc(addDays(event.end.date, 1), event.end.time, timezone);
+      }
+      if (end > start) {
+        lines.push(`DTEND:${formatUtc(end)}`);
+      }
+    }
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(`STATUS:${event.status || 'CONFIRMED'}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Render a VCALENDAR document with CRLF line endings
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${options.timezone}`
+  ];
+
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+
+  events.forEach(event => lines.push(...eventLines(event, options.timezone, stamp)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,230 @@
+/**
+ * Minimal RFC 5545 (iCalendar) reader for importing busy time
+ * Only VEVENTs are read. VTIMEZONE definitions are not interpreted: TZID parameters must name
+ * IANA zones (as Google, Apple and most other exports do), otherwise the caller's default applies.
+ */
+
+export interface IcsDateTime {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM:SS; null for DATE values (all-day)
+  utc: boolean; // Written with a trailing Z
+  tzid: string | null;
+}
+
+export type IcsWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface IcsRecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count: number | null;
+  until: IcsDateTime | null;
+  byDay: { weekday: IcsWeekday; ordinal: number | null }[]; // ordinal: 2 for 2TU, -1 for -1FR
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+export interface IcsEvent {
+  uid: string;
+  start: IcsDateTime;
+  end: IcsDateTime | null;
+  duration: number | null; // Seconds, from DURATION when there is no DTEND
+  rrule: IcsRecurrenceRule | null;
+  exdates: IcsDateTime[];
+  recurrenceId: IcsDateTime | null; // Set on an edited occurrence of a recurring event
+  cancelled: boolean;
+  transparent: boolean; // Shown as free
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export const ICS_WEEKDAYS: IcsWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Undo line folding: a line starting with a space or tab continues the previous one
+ */
+function unfold(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const separator = param.indexOf('=');
+    if (separator > 0) {
+      params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseDateTime(value: string, params: Record<string, string>): IcsDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, zulu] = match;
+  const isDate = params.VALUE === 'DATE' || hours === undefined;
+
+  return {
+    date: `${year}-${month}-${day}`,
+    time: isDate ? null : `${hours}:${minutes}:${seconds || '00'}`,
+    utc: !isDate && !!zulu,
+    tzid: !isDate && !zulu && params.TZID ? params.TZID : null
+  };
+}
+
+/**
+ * A DURATION value (e.g. PT1H30M, P1D, -P1W) in seconds
+ */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks || 0) * 604800 + Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+  return sign === '-' ? -total : total;
+}
+
+function parseRecurrenceRule(value: string): IcsRecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue.toUpperCase();
+  });
+
+  const freq = parts.FREQ;
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    return null;
+  }
+
+  const numbers = (list?: string) => (list ? list.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0) : []);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Math.max(0, Number(parts.COUNT) || 0) : null,
+    until: parts.UNTIL ? parseDateTime(parts.UNTIL, {}) : null,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(',') : [])
+      .map(day => day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map(match => ({ weekday: match[2] as IcsWeekday, ordinal: match[1] ? Number(match[1]) : null })),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH).filter(month => month >= 1 && month <= 12)
+  };
+}
+
+/**
+ * The calendar's display name (X-WR-CALNAME), if it has one
+ */
+export function parseCalendarName(text: string): string | null {
+  const line = unfold(text).find(content => /^X-WR-CALNAME[;:]/i.test(content));
+  const name = line ? parseContentLine(line)?.value.replace(/\\([,;\\])/g, '$1').trim() : null;
+  return name || null;
+}
+
+/**
+ * Read the events of an iCalendar document; events without a start date are skipped
+ */
+export function parseCalendar(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  // Nested components (e.g. VALARM) have properties that must not land on the event
+  let nested = 0;
+
+  for (const line of unfold(text)) {
+    const content = parseContentLine(line);
+    if (!content) continue;
+
+    const { name, params, value } = content;
+
+    if (name === 'BEGIN') {
+      if (value.trim().toUpperCase() === 'VEVENT' && !current) {
+        current = { exdates: [], cancelled: false, transparent: false };
+      } else if (current) {
+        nested++;
+      }
+      continue;
+    }
+
+    if (name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && value.trim().toUpperCase() === 'VEVENT') {
+        if (current.start) {
+          events.push({
+            uid: current.uid || `event-${events.length}`,
+            start: current.start,
+            end: current.end || null,
+            duration: current.duration ?? null,
+            rrule: current.rrule || null,
+            exdates: current.exdates || [],
+            recurrenceId: current.recurrenceId || null,
+            cancelled: !!current.cancelled,
+            transparent: !!current.transparent
+          });
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    if (!current || nested > 0) continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'DTSTART':
+        current.start = parseDateTime(value, params) || undefined;
+        break;
+      case 'DTEND':
+        current.end = parseDateTime(value, params);
+        break;
+      case 'DURATION':
+        current.duration = parseDuration(value);
+        break;
+      case 'RRULE':
+        current.rrule = parseRecurrenceRule(value);
+        break;
+      case 'EXDATE':
+        value.split(',').forEach(part => {
+          const exdate = parseDateTime(part, params);
+          if (exdate) current!.exdates!.push(exdate);
+        });
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateTime(value, params);
+        break;
+      case 'STATUS':
+        current.cancelled = value.trim().toUpperCase() === 'CANCELLED';
+        break;
+      case 'TRANSP':
+        current.transparent = value.trim().toUpperCase() === 'TRANSPARENT';
+        break;
+      case 'X-MICROSOFT-CDO-BUSYSTATUS':
+        // Outlook marks free time here as well as (or instead of) TRANSP
+        if (value.trim().toUpperCase() === 'FREE') current.transparent = true;
+        break;
+    }
+  }
+
+  return events;
+}
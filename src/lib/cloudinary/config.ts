@@ -51,6 +51,12 @@ export const UPLOAD_PRESETS = {
       format: 'webp',
     },
   },
+
+  // Direct message attachments - any file type, stored as uploaded
+  MESSAGE_ATTACHMENT: {
+    preset: 'message_attachments',
+    transformation: {},
+  },
 } as const;
 
 // Upload options type
@@ -8,6 +8,8 @@ export {
 } from './config';
 export {
   uploadProfilePicture,
+  uploadMessageAttachment,
+  MAX_ATTACHMENT_BYTES,
   deleteProfilePicture,
   generateProfileImageUrl,
   validateImageFile,
@@ -16,6 +18,7 @@ export {
   UploadError,
   type CloudinaryUploadResponse,
   type ProfilePictureUploadOptions,
+  type MessageAttachmentUploadOptions,
 } from './upload';
 
 // Note: For server-side cloudinary usage, import from './server'
\ No newline at end of file
@@ -1,5 +1,6 @@
 // Client-side Cloudinary upload utilities
 // Safe to import in client components
+import { UPLOAD_PRESETS } from './config';
 
 // Upload response from Cloudinary
 export interface CloudinaryUploadResponse {
@@ -89,6 +90,56 @@ export async function uploadProfilePicture(
     formData.append('public_id', public_id);
   }
 
+  return sendUpload(uploadUrl, formData, onProgress);
+}
+
+// Upload options for direct message attachments
+export interface MessageAttachmentUploadOptions {
+  conversationId: string;
+  onProgress?: (progress: number) => void;
+}
+
+// Images, PDFs, audio and video up to this size can be attached to a message
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024; // 20MB
+
+/**
+ * Upload a direct message attachment to Cloudinary
+ * Uses the auto endpoint so images, audio/video and documents (charts, riders, contracts) all work
+ */
+export async function uploadMessageAttachment(
+  file: File,
+  { conversationId, onProgress }: MessageAttachmentUploadOptions
+): Promise<CloudinaryUploadResponse> {
+  if (!file) {
+    throw new UploadError('No file provided');
+  }
+
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new UploadError('Attachments must be smaller than 20MB');
+  }
+
+  const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME;
+  if (!cloudName) {
+    throw new UploadError('Cloudinary cloud name is not configured');
+  }
+
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('upload_preset', UPLOAD_PRESETS.MESSAGE_ATTACHMENT.preset);
+  formData.append('folder', `bookd/messages/${conversationId}`);
+  formData.append('tags', 'message,attachment');
+
+  // Larger files than profile pictures, so allow longer than the default timeout
+  return sendUpload(`https://api.cloudinary.com/v1_1/${cloudName}/auto/upload`, formData, onProgress, 120000);
+}
+
+// POST an unsigned upload with XMLHttpRequest so progress can be reported
+function sendUpload(
+  uploadUrl: string,
+  formData: FormData,
+  onProgress?: (progress: number) => void,
+  timeoutMs: number = 30000
+): Promise<CloudinaryUploadResponse> {
   try {
     // Create XMLHttpRequest for progress tracking
     return new Promise<CloudinaryUploadResponse>((resolve, reject) => {
@@ -138,7 +189,7 @@ export async function uploadProfilePicture(
       });
 
       // Configure request
-      xhr.timeout = 30000; // 30 seconds
+      xhr.timeout = timeoutMs;
       xhr.open('POST', uploadUrl);
       xhr.send(formData);
     });
@@ -0,0 +1,12 @@
+import type { EmailMessage, EmailTransport } from './types';
+
+// Logs emails instead of sending them (default for local development)
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    // Logging is the whole point of this transport
+    // eslint-disable-next-line no-console
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,51 @@
+// Server-side email transport selection. Pick one with EMAIL_TRANSPORT ("console", "smtp" or "resend").
+import { ConsoleTransport } from './console';
+import { ResendTransport } from './resend';
+import { SmtpTransport } from './smtp';
+import type { EmailTransport } from './types';
+
+export { ConsoleTransport } from './console';
+export { ResendTransport } from './resend';
+export { SmtpTransport, type SmtpOptions } from './smtp';
+export type { EmailMessage, EmailTransport } from './types';
+
+let transport: EmailTransport | null = null;
+
+// Returns the configured transport; defaults to logging so local setups never send real mail
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    const kind = process.env.EMAIL_TRANSPORT || 'console';
+    const from = process.env.EMAIL_FROM || 'Bookd <no-reply@localhost>';
+
+    switch (kind) {
+      case 'smtp':
+        transport = new SmtpTransport({
+          host: process.env.SMTP_HOST || 'localhost',
+          port: parseInt(process.env.SMTP_PORT || '1025', 10),
+          secure: process.env.SMTP_SECURE === 'true',
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+          from,
+        });
+        break;
+      case 'resend':
+        if (!process.env.RESEND_API_KEY) {
+          throw new Error('RESEND_API_KEY is required when EMAIL_TRANSPORT=resend');
+        }
+        transport = new ResendTransport({ apiKey: process.env.RESEND_API_KEY, from });
+        break;
+      case 'console':
+        transport = new ConsoleTransport();
+        break;
+      default:
+        throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+    }
+  }
+
+  return transport;
+}
+
+// Swap in a different implementation (e.g. a test double that records messages)
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next;
+}
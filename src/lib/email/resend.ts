@@ -0,0 +1,34 @@
+import type { EmailMessage, EmailTransport } from './types';
+
+// Resend HTTP API (https://resend.com/docs/api-reference/emails/send-email)
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+  private apiKey: string;
+  private from: string;
+
+  constructor(options: { apiKey: string; from: string }) {
+    this.apiKey = options.apiKey;
+    this.from = options.from;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend request failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+}
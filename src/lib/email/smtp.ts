@@ -0,0 +1,47 @@
+// Server-side only: sends through nodemailer's SMTP transport
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { EmailMessage, EmailTransport } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // Implicit TLS (usually port 465); local stand-ins like Mailpit use plain SMTP
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+// Delivers plain text/HTML mail to a relay or to a local SMTP stand-in (Mailpit, MailHog, smtp4dev).
+// Credentials are never sent in cleartext: without implicit TLS the server must offer STARTTLS.
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private from: string;
+  private transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    const { host, port, secure, user, pass, from } = options;
+    const auth = user && pass ? { user, pass } : undefined;
+
+    this.from = from;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: !!secure,
+      requireTLS: !!auth && !secure,
+      auth,
+      connectionTimeout: 30000,
+      greetingTimeout: 30000,
+      socketTimeout: 30000,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
@@ -0,0 +1,14 @@
+// Shared email types for the pluggable transports in this directory
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver an email. Throw on failure so callers can retry later.
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,38 @@
+// Server-side geocoder selection. Pick a provider with GEOCODER_PROVIDER ("stub" or "nominatim").
+import { NominatimGeocoder } from './nominatim';
+import { StubGeocoder } from './stub';
+import type { Geocoder } from './types';
+
+export { NominatimGeocoder } from './nominatim';
+export { StubGeocoder } from './stub';
+export { formatGeocodeQuery, type GeocodeQuery, type GeocodeResult, type Geocoder } from './types';
+
+let geocoder: Geocoder | null = null;
+
+// Returns the configured geocoder; defaults to the offline stub so local setups need no API access
+export function getGeocoder(): Geocoder {
+  if (!geocoder) {
+    const provider = process.env.GEOCODER_PROVIDER || 'stub';
+
+    switch (provider) {
+      case 'nominatim':
+        geocoder = new NominatimGeocoder({
+          baseUrl: process.env.GEOCODER_BASE_URL,
+          userAgent: process.env.GEOCODER_USER_AGENT,
+        });
+        break;
+      case 'stub':
+        geocoder = new StubGeocoder();
+        break;
+      default:
+        throw new Error(`Unknown GEOCODER_PROVIDER "${provider}"`);
+    }
+  }
+
+  return geocoder;
+}
+
+// Swap in a different implementation (e.g. a paid provider or a test double)
+export function setGeocoder(next: Geocoder | null) {
+  geocoder = next;
+}
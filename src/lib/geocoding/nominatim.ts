@@ -0,0 +1,44 @@
+import { formatGeocodeQuery, type GeocodeQuery, type GeocodeResult, type Geocoder } from './types';
+
+const DEFAULT_BASE_URL = 'https://nominatim.openstreetmap.org';
+
+// OpenStreetMap Nominatim. The public instance requires an identifying User-Agent and at most
+// one request per second, so point GEOCODER_BASE_URL at a self-hosted instance for heavy use.
+export class NominatimGeocoder implements Geocoder {
+  readonly name = 'nominatim';
+  private baseUrl: string;
+  private userAgent: string;
+
+  constructor(options: { baseUrl?: string; userAgent?: string } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.userAgent = options.userAgent || 'Bookd/1.0';
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const params = new URLSearchParams({
+      q: formatGeocodeQuery(query),
+      format: 'jsonv2',
+      limit: '1',
+    });
+
+    const response = await fetch(`${this.baseUrl}/search?${params.toString()}`, {
+      headers: { 'User-Agent': this.userAgent, Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim request failed with status ${response.status}`);
+    }
+
+    const results = (await response.json()) as Array<{ lat: string; lon: string; display_name?: string }>;
+    if (!results.length) {
+      return null;
+    }
+
+    return {
+      latitude: parseFloat(results[0].lat),
+      longitude: parseFloat(results[0].lon),
+      formatted_address: results[0].display_name || null,
+      provider: this.name,
+    };
+  }
+}
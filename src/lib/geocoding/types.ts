@@ -0,0 +1,30 @@
+// Shared geocoding types (no Node.js imports, safe for client code)
+
+export interface GeocodeQuery {
+  address?: string | null;
+  city: string;
+  state_province?: string | null;
+  postal_code?: string | null;
+  country?: string | null;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  formatted_address: string | null;
+  provider: string;
+}
+
+// Anything that can turn an address into coordinates. Return null when nothing matches.
+export interface Geocoder {
+  readonly name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+// Join the non-empty parts of a query into a single-line address
+export function formatGeocodeQuery(query: GeocodeQuery): string {
+  return [query.address, query.city, query.state_province, query.postal_code, query.country]
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,56 @@
+/**
+ * Private address guard tests
+ * Covers address ranges, IP literal hosts and the connection lookup
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assertPublicHost, isPrivateAddress, PrivateAddressError, publicLookup } from '../address';
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and multicast IPv4 addresses', () => {
+    ['0.0.0.0', '10.1.2.3', '127.0.0.1', '100.64.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255', '192.168.1.1', '224.0.0.1']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(true));
+  });
+
+  it('passes public IPv4 addresses', () => {
+    ['8.8.8.8', '100.128.0.1', '172.32.0.1', '192.169.0.1']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(false));
+  });
+
+  it('checks IPv6, IPv4-mapped and NAT64 addresses', () => {
+    ['::', '::1', 'fc00::1', 'fd12::1', 'fe80::1', 'ff02::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '64:ff9b::808:808']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(true));
+    ['2001:4860:4860::8888', '::ffff:8.8.8.8', '::ffff:808:808']
+      .forEach(address => expect(isPrivateAddress(address)).toBe(false));
+  });
+});
+
+describe('assertPublicHost', () => {
+  it('refuses private IP literal hosts', () => {
+    expect(() => assertPublicHost(new URL('http://127.0.0.1/feed.ics'))).toThrow(PrivateAddressError);
+    expect(() => assertPublicHost(new URL('http://[::1]:8080/feed.ics'))).toThrow(PrivateAddressError);
+  });
+
+  it('refuses IPv4-mapped and NAT64 hosts that URL parsing rewrites to hex', () => {
+    ['http://[::ffff:127.0.0.1]/feed.ics', 'http://[::ffff:169.254.169.254]/', 'http://[64:ff9b::10.0.0.1]/', 'http://[::127.0.0.1]/']
+      .forEach(url => expect(() => assertPublicHost(new URL(url))).toThrow(PrivateAddressError));
+  });
+
+  it('refuses IPv4 hosts written in shorthand', () => {
+    ['http://127.1/', 'http://2130706433/', 'http://0x7f.0.0.1/']
+      .forEach(url => expect(() => assertPublicHost(new URL(url))).toThrow(PrivateAddressError));
+  });
+
+  it('leaves public literals and hostnames to the connection', () => {
+    expect(() => assertPublicHost(new URL('https://8.8.8.8/feed.ics'))).not.toThrow();
+    expect(() => assertPublicHost(new URL('https://localhost/feed.ics'))).not.toThrow();
+  });
+});
+
+describe('publicLookup', () => {
+  it('fails when a hostname resolves to a private address', async () => {
+    const error = await new Promise(resolve => publicLookup('localhost', {}, resolve));
+
+    expect(error).toBeInstanceOf(PrivateAddressError);
+  });
+});
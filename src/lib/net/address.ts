@@ -0,0 +1,73 @@
+import { lookup } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// Server-only: guards for requests to user-supplied URLs, refusing hosts on private networks
+
+export class PrivateAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} is a private network address`);
+    this.name = 'PrivateAddressError';
+  }
+}
+
+// Loopback, private, link-local, shared, multicast and reserved ranges. IPv4-mapped IPv6 addresses
+// (::ffff:a.b.c.d, which URL parsing rewrites to hex) are checked against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64 reaches any IPv4 address, private ones included
+  ['64:ff9b:1::', 48],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an address is loopback, private, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Refuse a URL host written as a private IP address. Connections skip DNS for IP literals,
+ * so publicLookup never sees them
+ */
+export function assertPublicHost(url: URL): void {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw new PrivateAddressError(host);
+  }
+}
+
+/**
+ * DNS lookup for http(s) requests that fails when a host resolves to any private address.
+ * Checking inside the connection means the address we check is the one we connect to,
+ * so a host can't pass with a public record and then be re-resolved to a private one
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new PrivateAddressError(hostname), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
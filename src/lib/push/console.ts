@@ -0,0 +1,13 @@
+import type { PushMessage, PushResult, PushTarget, PushTransport } from './types';
+
+// Logs push messages instead of sending them (default for local development)
+export class ConsolePushTransport implements PushTransport {
+  readonly name = 'console';
+
+  async send(target: PushTarget, message: PushMessage): Promise<PushResult> {
+    // Logging is the whole point of this transport
+    // eslint-disable-next-line no-console
+    console.log(`[push] To: ${target.endpoint}\n[push] ${message.title}${message.body ? `\n${message.body}` : ''}`);
+    return 'sent';
+  }
+}
@@ -0,0 +1,42 @@
+// Server-side Web Push transport selection. Pick one with PUSH_TRANSPORT ("console" or "webpush").
+import { ConsolePushTransport } from './console';
+import { WebPushTransport } from './webpush';
+import type { PushTransport } from './types';
+
+export { ConsolePushTransport } from './console';
+export { WebPushTransport, type WebPushOptions } from './webpush';
+export type { PushMessage, PushResult, PushTarget, PushTransport } from './types';
+
+let transport: PushTransport | null = null;
+
+// Returns the configured transport; defaults to logging so local setups never hit real push services
+export function getPushTransport(): PushTransport {
+  if (!transport) {
+    const kind = process.env.PUSH_TRANSPORT || 'console';
+
+    switch (kind) {
+      case 'webpush':
+        if (!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || !process.env.VAPID_PRIVATE_KEY) {
+          throw new Error('NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are required when PUSH_TRANSPORT=webpush');
+        }
+        transport = new WebPushTransport({
+          publicKey: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY,
+          privateKey: process.env.VAPID_PRIVATE_KEY,
+          subject: process.env.VAPID_SUBJECT || 'mailto:no-reply@localhost',
+        });
+        break;
+      case 'console':
+        transport = new ConsolePushTransport();
+        break;
+      default:
+        throw new Error(`Unknown PUSH_TRANSPORT "${kind}"`);
+    }
+  }
+
+  return transport;
+}
+
+// Swap in a different implementation (e.g. a test double that records messages)
+export function setPushTransport(next: PushTransport | null) {
+  transport = next;
+}
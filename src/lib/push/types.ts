@@ -0,0 +1,25 @@
+// Shared Web Push types for the pluggable transports in this directory
+
+// What the browser hands over from PushSubscription.toJSON()
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string; // base64url
+  auth: string; // base64url
+}
+
+// Shown by public/sw.js as a system notification
+export interface PushMessage {
+  title: string;
+  body?: string;
+  link?: string; // In-app path to open when the notification is clicked
+  tag?: string; // Notifications with the same tag replace each other
+}
+
+// "gone" means the push service no longer knows the subscription and it should be deleted
+export type PushResult = 'sent' | 'gone';
+
+// Anything that can deliver a push message. Throw on failure so callers can retry later.
+export interface PushTransport {
+  readonly name: string;
+  send(target: PushTarget, message: PushMessage): Promise<PushResult>;
+}
@@ -0,0 +1,77 @@
+// Server-side only: sends through the web-push library
+import https from 'https';
+import webpush, { WebPushError } from 'web-push';
+import { assertPublicHost, PrivateAddressError, publicLookup } from '@/lib/net/address';
+import type { PushMessage, PushResult, PushTarget, PushTransport } from './types';
+
+export interface WebPushOptions {
+  publicKey: string; // base64url uncompressed P-256 point (NEXT_PUBLIC_VAPID_PUBLIC_KEY)
+  privateKey: string; // base64url 32-byte private scalar
+  subject: string; // mailto: or https: contact for push services
+  ttlSeconds?: number;
+}
+
+const SEND_TIMEOUT_MS = 10000;
+
+// Endpoints come from the browser, so connections only go to public addresses
+const agent = new https.Agent({ lookup: publicLookup });
+
+// Delivers to the browser push services with VAPID (RFC 8292) authentication and
+// aes128gcm payload encryption (RFC 8291).
+export class WebPushTransport implements PushTransport {
+  readonly name = 'webpush';
+  private options: WebPushOptions;
+
+  constructor(options: WebPushOptions) {
+    this.options = options;
+  }
+
+  async send(target: PushTarget, message: PushMessage): Promise<PushResult> {
+    // Never deliverable; drop the subscription like an expired one
+    if (!isPublicHttpsUrl(target.endpoint)) {
+      return 'gone';
+    }
+
+    try {
+      await webpush.sendNotification(
+        { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+        JSON.stringify(message),
+        {
+          vapidDetails: {
+            subject: this.options.subject,
+            publicKey: this.options.publicKey,
+            privateKey: this.options.privateKey,
+          },
+          TTL: this.options.ttlSeconds ?? 24 * 60 * 60,
+          urgency: 'normal',
+          agent,
+          timeout: SEND_TIMEOUT_MS,
+        }
+      );
+    } catch (error) {
+      if (error instanceof PrivateAddressError) {
+        return 'gone';
+      }
+      // 404/410: the browser unsubscribed or the subscription expired
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        return 'gone';
+      }
+      if (error instanceof WebPushError) {
+        throw new Error(`Push service responded with status ${error.statusCode}: ${error.body}`);
+      }
+      throw error;
+    }
+
+    return 'sent';
+  }
+}
+
+function isPublicHttpsUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    assertPublicHost(url);
+    return url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
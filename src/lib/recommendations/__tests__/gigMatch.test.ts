@@ -0,0 +1,226 @@
+/**
+ * Gig match scoring tests
+ * Covers each factor's points and labels, the total score and both perspectives
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MATCH_WEIGHTS,
+  describeGigMatch,
+  estimateHourlyRate,
+  experienceLevelForYears,
+  scoreGigMatch,
+  type MatchableGig,
+  type MatchableProfile,
+  type MatchFactor
+} from '../gigMatch';
+
+const GIG: MatchableGig = {
+  instruments_needed: ['Trumpet'],
+  genres: ['Jazz'],
+  experience_level: 'intermediate',
+  is_remote: false,
+  compensation_type: 'paid',
+  pay_rate_type: 'hourly',
+  pay_amount_min: 40,
+  pay_amount_max: 60,
+  start_time: '20:00',
+  end_time: '23:00'
+};
+
+const PROFILE: MatchableProfile = {
+  primary_instrument: 'trumpet',
+  instruments: ['Flugelhorn'],
+  genres: ['jazz'],
+  years_experience: 6,
+  travel_distance_km: 50,
+  base_rate_per_hour: 50
+};
+
+const gig = (overrides: Partial<MatchableGig> = {}): MatchableGig => ({ ...GIG, ...overrides });
+const profile = (overrides: Partial<MatchableProfile> = {}): MatchableProfile => ({ ...PROFILE, ...overrides });
+
+const reasonFor = (match: ReturnType<typeof scoreGigMatch>, factor: MatchFactor) =>
+  match.reasons.find(reason => reason.factor === factor);
+
+describe('scoreGigMatch', () => {
+  it('weights add up to 100', () => {
+    expect(Object.values(MATCH_WEIGHTS).reduce((total, weight) => total + weight, 0)).toBe(100);
+  });
+
+  it('scores a strong match on every factor, strongest reason first', () => {
+    const match = scoreGigMatch(GIG, PROFILE, 10);
+
+    // Distance scores 15 * (1 - 0.5 * 10/50) = 13.5
+    expect(match.score).toBe(99);
+    expect(match.reasons.map(reason => [reason.factor, reason.points, reason.label])).toEqual([
+      ['instruments', 35, 'Needs Trumpet'],
+      ['genres', 20, 'Jazz'],
+      ['experience', 15, 'Fits your 6 yrs experience'],
+      ['pay', 15, '~$60/hr, at or above your rate'],
+      ['distance', 13.5, '10 km away']
+    ]);
+  });
+
+  it('scores nothing and gives no reasons when nothing matches', () => {
+    const match = scoreGigMatch(
+      gig({ instruments_needed: ['Drums'], genres: ['Metal'], experience_level: 'professional', compensation_type: 'volunteer' }),
+      profile({ years_experience: 1 }),
+      200
+    );
+
+    expect(match).toEqual({ score: 0, reasons: [] });
+  });
+
+  describe('instruments', () => {
+    it('counts another instrument the musician plays most of the way', () => {
+      const match = scoreGigMatch(gig({ instruments_needed: ['flugelhorn'] }), PROFILE);
+
+      expect(reasonFor(match, 'instruments')).toEqual({ factor: 'instruments', points: 28, label: 'Needs flugelhorn' });
+    });
+
+    it('matches case-insensitively and lists several instruments', () => {
+      const match = scoreGigMatch(
+        gig({ instruments_needed: ['Trumpet', 'FLUGELHORN', 'Cornet'] }),
+        profile({ instruments: ['flugelhorn', 'cornet'] })
+      );
+
+      expect(reasonFor(match, 'instruments')).toMatchObject({ points: 35, label: 'Needs Trumpet, FLUGELHORN +1' });
+    });
+  });
+
+  describe('genres', () => {
+    it('scores the share of the gig genres the musician plays', () => {
+      const match = scoreGigMatch(gig({ genres: ['Jazz', 'Funk', 'Soul', 'Blues'] }), profile({ genres: ['jazz', 'soul'] }));
+
+      expect(reasonFor(match, 'genres')).toEqual({ factor: 'genres', points: 10, label: 'Jazz & Soul' });
+    });
+
+    it('ignores duplicate gig genres', () => {
+      const match = scoreGigMatch(gig({ genres: ['Jazz', 'jazz'] }), PROFILE);
+
+      expect(reasonFor(match, 'genres')?.points).toBe(20);
+    });
+  });
+
+  describe('experience', () => {
+    it('gives half points when the gig is open to all levels', () => {
+      const match = scoreGigMatch(gig({ experience_level: 'any' }), PROFILE);
+
+      expect(reasonFor(match, 'experience')).toEqual({ factor: 'experience', points: 7.5, label: 'Open to all levels' });
+    });
+
+    it('gives some points to musicians one level short', () => {
+      const match = scoreGigMatch(gig({ experience_level: 'professional' }), PROFILE);
+
+      expect(reasonFor(match, 'experience')).toEqual({ factor: 'experience', points: 6, label: 'Looking for professional' });
+    });
+
+    it('gives nothing when two levels short or years are unknown', () => {
+      expect(reasonFor(scoreGigMatch(gig({ experience_level: 'professional' }), profile({ years_experience: 3 })), 'experience'))
+        .toBeUndefined();
+      expect(reasonFor(scoreGigMatch(GIG, profile({ years_experience: null })), 'experience')).toBeUndefined();
+    });
+  });
+
+  describe('pay', () => {
+    it('gives half points for a rate close to the musician\'s', () => {
+      // $300 for a three hour set is $100/hr
+      const match = scoreGigMatch(
+        gig({ pay_rate_type: 'per_gig', pay_amount_min: 300, pay_amount_max: null }),
+        profile({ base_rate_per_hour: 120 })
+      );
+
+      expect(reasonFor(match, 'pay')).toEqual({ factor: 'pay', points: 7.5, label: '~$100/hr, close to your rate' });
+    });
+
+    it('gives nothing for a rate well below the musician\'s', () => {
+      expect(reasonFor(scoreGigMatch(GIG, profile({ base_rate_per_hour: 100 })), 'pay')).toBeUndefined();
+    });
+
+    it('gives half points to paid gigs that can\'t be compared', () => {
+      const match = scoreGigMatch(gig({ pay_rate_type: null }), PROFILE);
+
+      expect(reasonFor(match, 'pay')).toEqual({ factor: 'pay', points: 7.5, label: 'Paid gig' });
+      expect(reasonFor(scoreGigMatch(GIG, profile({ base_rate_per_hour: null })), 'pay')?.label).toBe('Paid gig');
+    });
+
+    it('gives nothing to unpaid gigs', () => {
+      expect(reasonFor(scoreGigMatch(gig({ compensation_type: 'exposure' }), PROFILE), 'pay')).toBeUndefined();
+    });
+  });
+
+  describe('distance', () => {
+    it('gives full points to remote gigs', () => {
+      expect(reasonFor(scoreGigMatch(gig({ is_remote: true }), PROFILE), 'distance'))
+        .toEqual({ factor: 'distance', points: 15, label: 'Remote' });
+    });
+
+    it('gives at least half points within the travel range and nothing beyond it', () => {
+      expect(reasonFor(scoreGigMatch(GIG, PROFILE, 50), 'distance')?.points).toBe(7.5);
+      expect(reasonFor(scoreGigMatch(GIG, PROFILE, 51), 'distance')).toBeUndefined();
+    });
+
+    it('favours closer gigs when the musician has no travel limit', () => {
+      const open = profile({ travel_distance_km: null });
+
+      expect(reasonFor(scoreGigMatch(GIG, open, 2.5), 'distance')).toEqual({
+        factor: 'distance',
+        points: 15 * 0.975,
+        label: '2.5 km away'
+      });
+      expect(reasonFor(scoreGigMatch(GIG, open, 20), 'distance')?.points).toBe(12);
+      expect(reasonFor(scoreGigMatch(GIG, open, 60), 'distance')).toBeUndefined();
+    });
+
+    it('gives nothing when the distance is unknown', () => {
+      expect(reasonFor(scoreGigMatch(GIG, PROFILE), 'distance')).toBeUndefined();
+    });
+  });
+
+  it('words reasons for the gig poster', () => {
+    const match = scoreGigMatch(GIG, PROFILE, null, 'poster');
+
+    expect(reasonFor(match, 'instruments')?.label).toBe('Plays Trumpet');
+    expect(reasonFor(match, 'experience')?.label).toBe('6 yrs experience');
+    expect(reasonFor(match, 'pay')?.label).toBe('$50/hr rate fits your pay');
+  });
+});
+
+describe('describeGigMatch', () => {
+  it('joins the strongest reasons', () => {
+    const match = scoreGigMatch(GIG, PROFILE, 10);
+
+    expect(describeGigMatch(match)).toBe('Needs Trumpet · Jazz · Fits your 6 yrs experience');
+    expect(describeGigMatch(match, 1)).toBe('Needs Trumpet');
+  });
+});
+
+describe('estimateHourlyRate', () => {
+  it('converts daily and per-gig pay to an hourly rate', () => {
+    expect(estimateHourlyRate(gig({ pay_rate_type: 'daily', pay_amount_max: 400 }))).toBe(50);
+    expect(estimateHourlyRate(gig({ pay_rate_type: 'flat_fee', pay_amount_max: 240, start_time: '22:00', end_time: '02:00' })))
+      .toBe(60);
+  });
+
+  it('returns null when the rate can\'t be worked out', () => {
+    expect(estimateHourlyRate(gig({ pay_rate_type: 'per_gig', end_time: null }))).toBeNull();
+    expect(estimateHourlyRate(gig({ pay_amount_min: null, pay_amount_max: null }))).toBeNull();
+    expect(estimateHourlyRate(gig({ compensation_type: 'profit_share' }))).toBeNull();
+  });
+});
+
+describe('experienceLevelForYears', () => {
+  it('maps years playing to a level', () => {
+    expect([0, 1, 2, 4, 5, 9, 10, 30].map(experienceLevelForYears)).toEqual([
+      'beginner',
+      'beginner',
+      'intermediate',
+      'intermediate',
+      'advanced',
+      'advanced',
+      'professional',
+      'professional'
+    ]);
+  });
+});
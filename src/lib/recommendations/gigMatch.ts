@@ -0,0 +1,266 @@
+import type { ExperienceLevel, Gig, IndividualProfile } from '@/types/database';
+
+export type MatchFactor = 'instruments' | 'genres' | 'experience' | 'pay' | 'distance';
+
+export interface MatchReason {
+  factor: MatchFactor;
+  points: number;
+  label: string; // Short, user-facing, e.g. "Needs trumpet"
+}
+
+// Whose point of view the reason labels are written from
+export type MatchPerspective = 'musician' | 'poster';
+
+export interface GigMatch {
+  score: number; // 0-100
+  reasons: MatchReason[]; // Strongest first, only factors that actually matched
+}
+
+// The profile and gig fields the ranking looks at
+export type MatchableProfile = Pick<
+  IndividualProfile,
+  'primary_instrument' | 'instruments' | 'genres' | 'years_experience' | 'travel_distance_km' | 'base_rate_per_hour'
+>;
+
+export type MatchableGig = Pick<
+  Gig,
+  | 'instruments_needed'
+  | 'genres'
+  | 'experience_level'
+  | 'is_remote'
+  | 'compensation_type'
+  | 'pay_rate_type'
+  | 'pay_amount_min'
+  | 'pay_amount_max'
+  | 'start_time'
+  | 'end_time'
+>;
+
+// Maximum points per factor; they add up to 100
+export const MATCH_WEIGHTS: Record<MatchFactor, number> = {
+  instruments: 35,
+  genres: 20,
+  experience: 15,
+  pay: 15,
+  distance: 15
+};
+
+const EXPERIENCE_ORDER: ExperienceLevel[] = ['beginner', 'intermediate', 'advanced', 'professional'];
+
+/**
+ * Rough experience level for a number of years playing
+ */
+export function experienceLevelForYears(years: number): ExperienceLevel {
+  if (years >= 10) return 'professional';
+  if (years >= 5) return 'advanced';
+  if (years >= 2) return 'intermediate';
+  return 'beginner';
+}
+
+/**
+ * Score how well a gig fits a musician's profile
+ * distanceKm is the distance between the gig and the musician, when both are geocoded
+ */
+export function scoreGigMatch(
+  gig: MatchableGig,
+  profile: MatchableProfile,
+  distanceKm?: number | null,
+  perspective: MatchPerspective = 'musician'
+): GigMatch {
+  const forPoster = perspective === 'poster';
+  const reasons = [
+    matchInstruments(gig, profile, forPoster),
+    matchGenres(gig, profile),
+    matchExperience(gig, profile, forPoster),
+    matchPay(gig, profile, forPoster),
+    matchDistance(gig, profile, distanceKm)
+  ].filter((reason): reason is MatchReason => reason !== null && reason.points > 0);
+
+  return {
+    score: Math.round(reasons.reduce((total, reason) => total + reason.points, 0)),
+    reasons: reasons.sort((a, b) => b.points - a.points)
+  };
+}
+
+/**
+ * One-line "why this matched" text built from the strongest reasons
+ */
+export function describeGigMatch(match: GigMatch, maxReasons: number = 3): string {
+  return match.reasons.slice(0, maxReasons).map(reason => reason.label).join(' · ');
+}
+
+function normalize(values: (string | null | undefined)[] | null | undefined): string[] {
+  return Array.from(new Set((values || []).filter(Boolean).map(value => value!.trim().toLowerCase())));
+}
+
+// Values from the gig that the profile also lists, keeping the gig's own spelling for display
+function overlapping(gigValues: string[] | null | undefined, profileValues: string[]): string[] {
+  const seen = new Set<string>();
+  return (gigValues || []).filter(value => {
+    const key = value.trim().toLowerCase();
+    if (!profileValues.includes(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function formatList(values: string[]): string {
+  return values.length <= 2 ? values.join(' & ') : `${values.slice(0, 2).join(', ')} +${values.length - 2}`;
+}
+
+function matchInstruments(gig: MatchableGig, profile: MatchableProfile, forPoster: boolean): MatchReason | null {
+  const plays = normalize([profile.primary_instrument, ...(profile.instruments || [])]);
+  const overlap = overlapping(gig.instruments_needed, plays);
+  if (overlap.length === 0) return null;
+
+  // Being asked for your main instrument counts fully, any other one you play counts most of the way
+  const primary = profile.primary_instrument?.trim().toLowerCase();
+  const fraction = primary && overlap.some(instrument => instrument.trim().toLowerCase() === primary) ? 1 : 0.8;
+
+  return {
+    factor: 'instruments',
+    points: MATCH_WEIGHTS.instruments * fraction,
+    label: `${forPoster ? 'Plays' : 'Needs'} ${formatList(overlap)}`
+  };
+}
+
+function matchGenres(gig: MatchableGig, profile: MatchableProfile): MatchReason | null {
+  const gigGenres = normalize(gig.genres);
+  const overlap = overlapping(gig.genres, normalize(profile.genres));
+  if (overlap.length === 0) return null;
+
+  return {
+    factor: 'genres',
+    points: MATCH_WEIGHTS.genres * (overlap.length / gigGenres.length),
+    label: formatList(overlap)
+  };
+}
+
+function matchExperience(gig: MatchableGig, profile: MatchableProfile, forPoster: boolean): MatchReason | null {
+  if (profile.years_experience == null) return null;
+
+  if (!gig.experience_level || gig.experience_level === 'any') {
+    return { factor: 'experience', points: MATCH_WEIGHTS.experience * 0.5, label: 'Open to all levels' };
+  }
+
+  const required = EXPERIENCE_ORDER.indexOf(gig.experience_level);
+  const actual = EXPERIENCE_ORDER.indexOf(experienceLevelForYears(profile.years_experience));
+
+  if (actual >= required) {
+    return {
+      factor: 'experience',
+      points: MATCH_WEIGHTS.experience,
+      label: forPoster
+        ? `${profile.years_experience} yrs experience`
+        : `Fits your ${profile.years_experience} yrs experience`
+    };
+  }
+
+  // One level short is still worth a look
+  if (actual === required - 1) {
+    return {
+      factor: 'experience',
+      points: MATCH_WEIGHTS.experience * 0.4,
+      label: forPoster ? `Nearly ${gig.experience_level}` : `Looking for ${gig.experience_level}`
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Best-effort hourly rate for a gig, or null when it can't be compared to an hourly rate
+ */
+export function estimateHourlyRate(gig: MatchableGig): number | null {
+  const amount = gig.pay_amount_max ?? gig.pay_amount_min;
+  if (gig.compensation_type !== 'paid' || amount == null) return null;
+
+  switch (gig.pay_rate_type) {
+    case 'hourly':
+      return amount;
+    case 'daily':
+      return amount / 8;
+    case 'per_gig':
+    case 'flat_fee': {
+      const hours = gigDurationHours(gig.start_time, gig.end_time);
+      return hours ? amount / hours : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function gigDurationHours(startTime: string | null, endTime: string | null): number | null {
+  if (!startTime || !endTime) return null;
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+    return hours * 60 + (minutes || 0);
+  };
+
+  let minutes = toMinutes(endTime) - toMinutes(startTime);
+  if (minutes <= 0) minutes += 24 * 60; // Runs past midnight
+  return minutes / 60;
+}
+
+function matchPay(gig: MatchableGig, profile: MatchableProfile, forPoster: boolean): MatchReason | null {
+  if (gig.compensation_type !== 'paid') return null;
+
+  const hourly = estimateHourlyRate(gig);
+  if (!profile.base_rate_per_hour || hourly == null) {
+    return { factor: 'pay', points: MATCH_WEIGHTS.pay * 0.5, label: 'Paid gig' };
+  }
+
+  const ratio = hourly / profile.base_rate_per_hour;
+  if (ratio >= 1) {
+    return {
+      factor: 'pay',
+      points: MATCH_WEIGHTS.pay,
+      label: forPoster
+        ? `$${profile.base_rate_per_hour}/hr rate fits your pay`
+        : `~$${Math.round(hourly)}/hr, at or above your rate`
+    };
+  }
+
+  if (ratio >= 0.8) {
+    return {
+      factor: 'pay',
+      points: MATCH_WEIGHTS.pay * 0.5,
+      label: forPoster
+        ? `$${profile.base_rate_per_hour}/hr rate, close to your pay`
+        : `~$${Math.round(hourly)}/hr, close to your rate`
+    };
+  }
+
+  return null;
+}
+
+function matchDistance(
+  gig: MatchableGig,
+  profile: MatchableProfile,
+  distanceKm?: number | null
+): MatchReason | null {
+  if (gig.is_remote) {
+    return { factor: 'distance', points: MATCH_WEIGHTS.distance, label: 'Remote' };
+  }
+
+  if (distanceKm == null) return null;
+
+  const label = `${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km away`;
+
+  if (!profile.travel_distance_km) {
+    // No travel limit set: just favour closer gigs
+    return distanceKm <= 50
+      ? { factor: 'distance', points: MATCH_WEIGHTS.distance * (1 - distanceKm / 100), label }
+      : null;
+  }
+
+  if (distanceKm > profile.travel_distance_km) return null;
+
+  // Anywhere within range scores at least half, nearer scores more
+  return {
+    factor: 'distance',
+    points: MATCH_WEIGHTS.distance * (1 - 0.5 * (distanceKm / profile.travel_distance_km)),
+    label
+  };
+}
@@ -0,0 +1,30 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+
+type Functions = Database['public']['Functions'];
+export type RpcName = keyof Functions;
+export type RpcArgs<Name extends RpcName> = Functions[Name]['Args'];
+export type RpcReturns<Name extends RpcName> = Functions[Name]['Returns'];
+
+export interface RpcResult<Name extends RpcName> {
+  data: RpcReturns<Name> | null;
+  error: PostgrestError | null;
+}
+
+// Functions without arguments can be called without an args object
+type RpcArgsParam<Name extends RpcName> = Record<string, never> extends RpcArgs<Name>
+  ? [args?: RpcArgs<Name>]
+  : [args: RpcArgs<Name>];
+
+/**
+ * Call a database function with the argument and return types declared in
+ * Database['public']['Functions'], for both the browser and server clients
+ */
+export async function callRpc<Name extends RpcName>(
+  supabase: SupabaseClient,
+  fn: Name,
+  ...[args]: RpcArgsParam<Name>
+): Promise<RpcResult<Name>> {
+  const { data, error } = await supabase.rpc(fn, args);
+  return { data: (data ?? null) as RpcReturns<Name> | null, error };
+}
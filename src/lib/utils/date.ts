@@ -243,3 +243,82 @@ export function getFirstDayOfMonth(year: number, month: number): Date {
 export function getLastDayOfMonth(year: number, month: number): Date {
   return new Date(year, month + 1, 0);
 }
+
+/**
+ * A span of wall-clock time in minutes (see toWallClockMinutes); end is exclusive
+ */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Minutes since the epoch for a YYYY-MM-DD date and optional HH:MM(:SS) time, read as wall-clock
+ * time without a timezone, so items in the same local time can be compared
+ */
+export function toWallClockMinutes(dateString: string, time?: string | null): number {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes) / 60000;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export function addDaysToDateString(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Wall-clock range of a dated item (gig, booking, blackout)
+ * A missing start time starts the first day at midnight; a missing end time runs to the end of the
+ * last day, or for a single-day item with a start time, defaultMinutes past the start when given.
+ * An end time at or before the start time on the same day runs past midnight.
+ */
+export function toTimeRange(
+  item: { startDate: string; endDate?: string | null; startTime?: string | null; endTime?: string | null },
+  defaultMinutes?: number
+): TimeRange {
+  const lastDate = item.endDate && item.endDate > item.startDate ? item.endDate : item.startDate;
+  const start = toWallClockMinutes(item.startDate, item.startTime);
+
+  if (item.endTime) {
+    const end = toWallClockMinutes(lastDate, item.endTime);
+    return { start, end: end > start ? end : end + 24 * 60 };
+  }
+
+  if (item.startTime && defaultMinutes && lastDate === item.startDate) {
+    return { start, end: start + defaultMinutes };
+  }
+
+  return { start, end: toWallClockMinutes(addDaysToDateString(lastDate, 1)) };
+}
+
+/**
+ * Check if two time ranges overlap (touching ranges don't)
+ */
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Minutes between the end of the earlier range and the start of the later one; negative when they overlap
+ */
+export function minutesBetween(a: TimeRange, b: TimeRange): number {
+  return a.start <= b.start ? b.start - a.end : a.start - b.end;
+}
+
+/**
+ * The coming weekend in local time, Friday 5pm to Monday midnight; during the weekend, from now
+ */
+export function getWeekendRange(now: Date = new Date()): { start: Date; end: Date } {
+  const day = now.getDay();
+  // Days until Monday: Sunday is 1 away, Saturday 2, ... Monday itself is a whole week away
+  const daysToMonday = ((8 - day) % 7) || 7;
+
+  const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() + daysToMonday);
+  const friday = new Date(end.getFullYear(), end.getMonth(), end.getDate() - 3, 17);
+
+  return { start: now > friday ? now : friday, end };
+}
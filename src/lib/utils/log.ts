@@ -0,0 +1,27 @@
+/**
+ * Error logging, kept in one place so it can move to an error tracker later
+ */
+
+/* eslint-disable no-console */
+
+/**
+ * Log a failure that the caller has handled, e.g. by returning null or showing a message
+ */
+export function logError(context: string, error?: unknown): void {
+  if (error === undefined) {
+    console.error(context);
+  } else {
+    console.error(`${context}:`, error);
+  }
+}
+
+/**
+ * Log something unexpected that didn't stop the caller
+ */
+export function logWarning(context: string, error?: unknown): void {
+  if (error === undefined) {
+    console.warn(context);
+  } else {
+    console.warn(`${context}:`, error);
+  }
+}
@@ -0,0 +1,191 @@
+import { createAdminClient } from '@/lib/supabase/admin';
+import { buildCalendar, type CalendarEvent } from '@/lib/calendar/ics';
+import { engagementCalendarEvent, gigCalendarEvents, performanceCalendarEvent } from '@/lib/calendar/events';
+import { isValidTimeZone, normalizeAvailability } from '@/lib/availability/schedule';
+import type {
+  EngagementWithParties,
+  Gig,
+  IndividualProfile,
+  OrganizationPerformance,
+  PastPerformance,
+  User
+} from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// The feed owner as embedded by getFeed's select; the profile comes back as an array or an object
+type FeedOwner = Pick<User, 'full_name'> & {
+  individual_profiles: Pick<IndividualProfile, 'availability'> | Pick<IndividualProfile, 'availability'>[] | null;
+};
+
+// Feed tokens are 64 hex characters (see rotate_calendar_feed_token)
+const TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+// Past events kept in the feed so recent history doesn't vanish from subscribed calendars
+const FEED_HISTORY_DAYS = 90;
+// Suggested polling interval for calendar apps
+const FEED_REFRESH_MINUTES = 60;
+
+export class CalendarFeedService {
+  private supabase: AdminClient;
+
+  constructor(supabase: AdminClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Render the iCalendar feed for a feed token, or null when the token is unknown or revoked
+   * Includes engagements, gigs the user was hired for (with rehearsals) and upcoming performances
+   * of the user and of organizations they administer
+   */
+  async getFeed(token: string): Promise<string | null> {
+    try {
+      if (!TOKEN_PATTERN.test(token)) return null;
+
+      const { data: feed, error } = await this.supabase
+        .from('calendar_feeds')
+        .select('id, user_id, user:user_id(full_name, individual_profiles(availability))')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error looking up calendar feed', error);
+        throw error;
+      }
+
+      if (!feed) return null;
+
+      const userId = feed.user_id as string;
+      const user = feed.user as unknown as FeedOwner | null;
+      const profile = Array.isArray(user?.individual_profiles) ? user.individual_profiles[0] : user?.individual_profiles;
+      // Wall-clock times are read in the user's availability timezone
+      const availability = normalizeAvailability(profile?.availability);
+      const timezone = availability.timezone && isValidTimeZone(availability.timezone) ? availability.timezone : 'UTC';
+
+      const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+      const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const today = new Date().toISOString().split('T')[0];
+
+      const [engagements, hiredGigs, performances, organizationPerformances] = await Promise.all([
+        this.getEngagements(userId, since),
+        this.getHiredGigs(userId, since),
+        this.getPerformances(userId, today),
+        this.getOrganizationPerformances(userId, today)
+      ]);
+
+      const events: CalendarEvent[] = [
+        ...engagements.map(engagement => {
+          const isMusician = engagement.musician_user_id === userId;
+          const withName = isMusician
+            ? engagement.organization?.name || engagement.organizer?.full_name
+            : engagement.musician?.full_name;
+          return engagementCalendarEvent(engagement, appUrl, withName);
+        }),
+        ...hiredGigs.flatMap(gig => gigCalendarEvents(gig, appUrl)),
+        ...[...performances, ...organizationPerformances]
+          .map(performance => performanceCalendarEvent(performance, appUrl))
+          .filter((event): event is CalendarEvent => event !== null)
+      ];
+
+      await this.supabase
+        .from('calendar_feeds')
+        .update({ last_accessed_at: new Date().toISOString() })
+        .eq('id', feed.id);
+
+      return buildCalendar(events, {
+        name: user?.full_name ? `Bookd – ${user.full_name}` : 'Bookd',
+        timezone,
+        refreshMinutes: FEED_REFRESH_MINUTES
+      });
+    } catch (error) {
+      logError('Error in getFeed', error);
+      throw error;
+    }
+  }
+
+  private async getEngagements(userId: string, since: string): Promise<EngagementWithParties[]> {
+    const { data, error } = await this.supabase
+      .from('engagements')
+      .select(`
+        *,
+        musician:musician_user_id(id, full_name, avatar_url),
+        organizer:organizer_user_id(id, full_name, avatar_url),
+        organization:organization_id(id, name, logo_url)
+      `)
+      .or(`musician_user_id.eq.${userId},organizer_user_id.eq.${userId}`)
+      .gte('event_date', since);
+
+    if (error) {
+      logError('Error fetching engagements for feed', error);
+      throw error;
+    }
+
+    return (data || []) as EngagementWithParties[];
+  }
+
+  private async getHiredGigs(userId: string, since: string): Promise<Gig[]> {
+    const { data, error } = await this.supabase
+      .from('gig_applications')
+      .select('gig:gig_id(*)')
+      .eq('applicant_user_id', userId)
+      .eq('status', 'hired');
+
+    if (error) {
+      logError('Error fetching hired gigs for feed', error);
+      throw error;
+    }
+
+    return ((data || []) as unknown as { gig: Gig | null }[])
+      .map(row => row.gig)
+      .filter((gig): gig is Gig => !!gig && (gig.end_date || gig.start_date) >= since);
+  }
+
+  private async getPerformances(userId: string, from: string): Promise<PastPerformance[]> {
+    const { data, error } = await this.supabase
+      .from('past_performances')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('performance_date', from);
+
+    if (error) {
+      logError('Error fetching performances for feed', error);
+      throw error;
+    }
+
+    return (data || []) as PastPerformance[];
+  }
+
+  private async getOrganizationPerformances(userId: string, from: string): Promise<OrganizationPerformance[]> {
+    const { data: admins, error: adminsError } = await this.supabase
+      .from('org_admins')
+      .select('organization_id')
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (adminsError) {
+      logError('Error fetching organizations for feed', adminsError);
+      throw adminsError;
+    }
+
+    const organizationIds = (admins || []).map(admin => admin.organization_id as string);
+    if (organizationIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('organization_performances')
+      .select('*')
+      .in('organization_id', organizationIds)
+      .gte('performance_date', from);
+
+    if (error) {
+      logError('Error fetching organization performances for feed', error);
+      throw error;
+    }
+
+    return (data || []) as OrganizationPerformance[];
+  }
+}
+
+// Factory function for the feed route (service role, bypasses RLS; the token is the credential)
+export function createCalendarFeedService() {
+  return new CalendarFeedService(createAdminClient());
+}
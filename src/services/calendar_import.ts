@@ -0,0 +1,166 @@
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { callRpc } from '@/lib/supabase/rpc';
+import { isValidTimeZone, normalizeAvailability } from '@/lib/availability/schedule';
+import { addDays, utcToZonedTime } from '@/lib/calendar/ics';
+import { parseCalendar, parseCalendarName } from '@/lib/calendar/parse';
+import { busyPeriods, busyPeriodsToBlackouts } from '@/lib/calendar/busy';
+import { CalendarImportError, MAX_CALENDAR_BYTES, fetchCalendar, normalizeCalendarUrl } from '@/lib/calendar/fetch';
+import type { CalendarImport } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type ServerClient = Awaited<ReturnType<typeof createServerClient>>;
+
+export type CalendarImportSource =
+  | { type: 'file'; filename: string; content: string }
+  | { type: 'url'; url: string };
+
+export interface CalendarImportResult {
+  import: CalendarImport;
+  truncated: boolean; // More busy periods than MAX_IMPORTED_BLACKOUTS; the soonest were kept
+}
+
+// How far ahead recurring events are expanded
+const IMPORT_HORIZON_DAYS = 365;
+const MAX_IMPORTED_BLACKOUTS = 1000;
+
+export class CalendarImportService {
+  private supabase: ServerClient;
+
+  constructor(supabase: ServerClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Import busy time from an uploaded file or a feed URL as blackouts for the current user
+   * Re-importing the same file name or URL replaces the blackouts from the previous run
+   * fallbackTimezone is used (and saved) when the user hasn't chosen a timezone for their availability
+   */
+  async importCalendar(source: CalendarImportSource, fallbackTimezone?: string | null): Promise<CalendarImportResult> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new CalendarImportError('You must be signed in to import a calendar.', 401);
+      }
+
+      let content: string;
+      let sourceKey: string;
+      let sourceUrl: string | null = null;
+      let defaultName: string;
+
+      if (source.type === 'url') {
+        const url = normalizeCalendarUrl(source.url);
+        content = await fetchCalendar(url.href);
+        sourceKey = url.href;
+        sourceUrl = url.href;
+        defaultName = url.hostname;
+      } else {
+        if (source.content.length > MAX_CALENDAR_BYTES) {
+          throw new CalendarImportError('That calendar is too large to import.', 413);
+        }
+        content = source.content;
+        const filename = source.filename.trim().slice(0, 200) || 'calendar.ics';
+        sourceKey = `file:${filename}`;
+        defaultName = filename.replace(/\.ics$/i, '');
+      }
+
+      if (!/BEGIN:VCALENDAR/i.test(content)) {
+        throw new CalendarImportError("That doesn't look like an iCalendar (.ics) file.");
+      }
+
+      const timezone = await this.getTimezone(user.id, fallbackTimezone);
+      const from = utcToZonedTime(new Date(), timezone).date;
+      const blackouts = busyPeriodsToBlackouts(
+        busyPeriods(parseCalendar(content), { timezone, from, until: addDays(from, IMPORT_HORIZON_DAYS) })
+      );
+
+      const { data: importId, error } = await callRpc(this.supabase, 'replace_calendar_import', {
+        p_source_key: sourceKey,
+        p_name: (parseCalendarName(content) || defaultName).slice(0, 200),
+        p_source_url: sourceUrl,
+        p_blackouts: blackouts.slice(0, MAX_IMPORTED_BLACKOUTS)
+      });
+
+      if (error) {
+        logError('Error saving calendar import', error);
+        throw new Error(error.message || 'Failed to save calendar import');
+      }
+
+      const { data, error: fetchError } = await this.supabase
+        .from('calendar_imports')
+        .select('*')
+        .eq('id', importId)
+        .single();
+
+      if (fetchError) {
+        logError('Error fetching calendar import', fetchError);
+        throw fetchError;
+      }
+
+      return {
+        import: data as CalendarImport,
+        truncated: blackouts.length > MAX_IMPORTED_BLACKOUTS
+      };
+    } catch (error) {
+      logError('Error in importCalendar', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a feed import's URL again and replace its blackouts
+   */
+  async refreshImport(importId: string, fallbackTimezone?: string | null): Promise<CalendarImportResult> {
+    try {
+      const { data, error } = await this.supabase
+        .from('calendar_imports')
+        .select('source_url')
+        .eq('id', importId)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching calendar import', error);
+        throw error;
+      }
+
+      if (!data?.source_url) {
+        throw new CalendarImportError('Only calendars imported from a link can be refreshed.', 404);
+      }
+
+      return this.importCalendar({ type: 'url', url: data.source_url as string }, fallbackTimezone);
+    } catch (error) {
+      logError('Error in refreshImport', error);
+      throw error;
+    }
+  }
+
+  // Blackouts are read in the musician's availability timezone (UTC when unset), so a fallback
+  // timezone is saved to the profile before anything is imported in it
+  private async getTimezone(userId: string, fallbackTimezone?: string | null): Promise<string> {
+    const { data } = await this.supabase
+      .from('individual_profiles')
+      .select('availability')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const availability = normalizeAvailability(data?.availability);
+    if (availability.timezone && isValidTimeZone(availability.timezone)) return availability.timezone;
+    if (!data || !fallbackTimezone || !isValidTimeZone(fallbackTimezone)) return 'UTC';
+
+    const { error } = await this.supabase
+      .from('individual_profiles')
+      .update({ availability: { ...availability, timezone: fallbackTimezone } })
+      .eq('user_id', userId);
+
+    if (error) {
+      logError('Error saving availability timezone', error);
+      return 'UTC';
+    }
+
+    return fallbackTimezone;
+  }
+}
+
+export async function createServerCalendarImportService() {
+  const supabase = await createServerClient();
+  return new CalendarImportService(supabase);
+}
@@ -0,0 +1,255 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import { normalizeAvailability } from '@/lib/availability/schedule';
+import type { Availability, AvailabilityBlackout, AvailabilityStatus } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface NewAvailabilityBlackout {
+  starts_on: string;
+  ends_on: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  note?: string | null;
+}
+
+// A set to check availability for; times are wall-clock in timezone (default: each musician's own)
+export interface AvailabilityQuery {
+  date: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  timezone?: string | null;
+}
+
+export interface FreeMusiciansQuery extends AvailabilityQuery {
+  userIds?: string[]; // Only consider these musicians
+  includeUnscheduled?: boolean; // Include musicians who haven't set weekly hours (default true)
+  limit?: number;
+}
+
+export interface FreeMusician {
+  user_id: string;
+  status: Extract<AvailabilityStatus, 'free' | 'unscheduled'>;
+}
+
+export class AvailabilityService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get a musician's weekly hours and timezone
+   */
+  async getAvailability(userId: string): Promise<Required<Availability>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('individual_profiles')
+        .select('availability')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching availability', error);
+        throw error;
+      }
+
+      return normalizeAvailability(data?.availability);
+    } catch (error) {
+      logError('Error in getAvailability', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the current user's weekly hours and timezone
+   */
+  async updateAvailability(availability: Availability): Promise<Required<Availability>> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to update your availability.');
+      }
+
+      const { data, error } = await this.supabase
+        .from('individual_profiles')
+        .update({ availability: normalizeAvailability(availability) })
+        .eq('user_id', user.id)
+        .select('availability')
+        .single();
+
+      if (error) {
+        logError('Error updating availability', error);
+        throw new Error(error.message || 'Failed to update availability');
+      }
+
+      return normalizeAvailability(data?.availability);
+    } catch (error) {
+      logError('Error in updateAvailability', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a musician's blackouts that haven't ended before fromDate, soonest first
+   */
+  async getBlackouts(userId: string, fromDate?: string): Promise<AvailabilityBlackout[]> {
+    try {
+      let query = this.supabase
+        .from('availability_blackouts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('starts_on', { ascending: true })
+        .order('start_time', { ascending: true, nullsFirst: true });
+
+      if (fromDate) {
+        query = query.gte('ends_on', fromDate);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        logError('Error fetching blackouts', error);
+        throw error;
+      }
+
+      return (data || []) as AvailabilityBlackout[];
+    } catch (error) {
+      logError('Error in getBlackouts', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the current user unavailable for a date or period
+   */
+  async addBlackout(input: NewAvailabilityBlackout): Promise<AvailabilityBlackout> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to update your availability.');
+      }
+
+      const { data, error } = await this.supabase
+        .from('availability_blackouts')
+        .insert({
+          user_id: user.id,
+          starts_on: input.starts_on,
+          ends_on: input.ends_on,
+          start_time: input.start_time || null,
+          end_time: input.end_time || null,
+          note: input.note?.trim() || null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error adding blackout', error);
+        if (error.code === '23514') {
+          throw new Error('The blackout must end after it starts.');
+        }
+        throw new Error(error.message || 'Failed to add blackout');
+      }
+
+      return data as AvailabilityBlackout;
+    } catch (error) {
+      logError('Error in addBlackout', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove one of the current user's blackouts
+   */
+  async deleteBlackout(blackoutId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('availability_blackouts')
+        .delete()
+        .eq('id', blackoutId);
+
+      if (error) {
+        logError('Error deleting blackout', error);
+        throw error;
+      }
+    } catch (error) {
+      logError('Error in deleteBlackout', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a musician is free for a set, and if not, why
+   */
+  async getAvailabilityStatus(userId: string, query: AvailabilityQuery): Promise<AvailabilityStatus> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'musician_availability_status', {
+        p_user_id: userId,
+        p_date: query.date,
+        p_start_time: query.startTime || null,
+        p_end_time: query.endTime || null,
+        p_timezone: query.timezone || null
+      });
+
+      if (error) {
+        logError('Error checking availability', error);
+        throw error;
+      }
+
+      return data as AvailabilityStatus;
+    } catch (error) {
+      logError('Error in getAvailabilityStatus', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Musicians free for a set, those whose weekly hours cover it first
+   */
+  async findFreeMusicians(query: FreeMusiciansQuery): Promise<FreeMusician[]> {
+    try {
+      if (query.userIds && query.userIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await callRpc(this.supabase, 'find_free_musicians', {
+        p_date: query.date,
+        p_start_time: query.startTime || null,
+        p_end_time: query.endTime || null,
+        p_timezone: query.timezone || null,
+        p_user_ids: query.userIds || null,
+        p_include_unscheduled: query.includeUnscheduled ?? true,
+        p_limit: query.limit ?? 100
+      });
+
+      if (error) {
+        logError('Error finding free musicians', error);
+        throw error;
+      }
+
+      return (data || []) as FreeMusician[];
+    } catch (error) {
+      logError('Error in findFreeMusicians', error);
+      throw error;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createAvailabilityService() {
+  const supabase = createClient();
+  return new AvailabilityService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getAvailabilityStatus(userId: string, query: AvailabilityQuery) {
+  const service = createAvailabilityService();
+  return service.getAvailabilityStatus(userId, query);
+}
+
+export async function findFreeMusicians(query: FreeMusiciansQuery) {
+  const service = createAvailabilityService();
+  return service.findFreeMusicians(query);
+}
@@ -0,0 +1,273 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type {
+  BookingAction,
+  BookingRequest,
+  BookingRequestWithParties,
+  BookingSide,
+  BookingTerms,
+  Engagement,
+  EngagementWithParties
+} from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface NewBookingRequest extends Partial<BookingTerms> {
+  musician_user_id: string;
+  title: string;
+  event_date: string;
+  organization_id?: string | null; // Send on behalf of an organization the user administers
+  message?: string;
+}
+
+const BOOKING_REQUEST_SELECT = `
+  *,
+  requester:requester_user_id(id, full_name, avatar_url),
+  requester_organization:requester_organization_id(id, name, logo_url),
+  musician:musician_user_id(id, full_name, avatar_url),
+  revisions:booking_request_revisions(*)
+`;
+
+const ENGAGEMENT_SELECT = `
+  *,
+  musician:musician_user_id(id, full_name, avatar_url),
+  organizer:organizer_user_id(id, full_name, avatar_url),
+  organization:organization_id(id, name, logo_url)
+`;
+
+export class BookingsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get booking requests the current user sent, received or can act on for an organization, newest first
+   */
+  async getBookingRequests(): Promise<BookingRequestWithParties[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('booking_requests')
+        .select(BOOKING_REQUEST_SELECT)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        logError('Error fetching booking requests', error);
+        throw error;
+      }
+
+      return ((data || []) as BookingRequestWithParties[]).map(request => this.sortRevisions(request));
+    } catch (error) {
+      logError('Error in getBookingRequests', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single booking request with its full revision history
+   */
+  async getBookingRequest(requestId: string): Promise<BookingRequestWithParties | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('booking_requests')
+        .select(BOOKING_REQUEST_SELECT)
+        .eq('id', requestId)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching booking request', error);
+        return null;
+      }
+
+      return data ? this.sortRevisions(data) : null;
+    } catch (error) {
+      logError('Error in getBookingRequest', error);
+      return null;
+    }
+  }
+
+  /**
+   * Send a booking offer to a musician who is available for hire
+   * The offer (and optional message) is recorded as revision 1
+   */
+  async createBookingRequest(input: NewBookingRequest): Promise<BookingRequest> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to send a booking request.');
+      }
+
+      const { message, organization_id, ...terms } = input;
+
+      const { data, error } = await this.supabase
+        .from('booking_requests')
+        .insert([{
+          ...this.cleanTerms(terms),
+          musician_user_id: input.musician_user_id,
+          requester_user_id: user.id,
+          requester_organization_id: organization_id || null,
+          message: message?.trim() || null
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error creating booking request', error);
+        if (error.code === '42501') {
+          throw new Error('This musician is not taking booking requests right now.');
+        }
+        throw new Error(error.message || 'Failed to send booking request');
+      }
+
+      return data as BookingRequest;
+    } catch (error) {
+      logError('Error in createBookingRequest', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Accept, decline, counter or cancel a booking request
+   * Counter offers pass only the terms that changed
+   */
+  async respond(
+    requestId: string,
+    action: BookingAction,
+    terms?: Partial<BookingTerms>,
+    message?: string
+  ): Promise<BookingRequest> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'respond_to_booking_request', {
+        p_request_id: requestId,
+        p_action: action,
+        p_terms: terms ? this.cleanTerms(terms) : null,
+        p_message: message?.trim() || null
+      });
+
+      if (error) {
+        logError('Error responding to booking request', error);
+        throw new Error(error.message || 'Failed to update booking request');
+      }
+
+      return data as BookingRequest;
+    } catch (error) {
+      logError('Error in respond', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get confirmed engagements on the current user's calendar (as musician, organizer or org admin)
+   */
+  async getEngagements(fromDate?: string): Promise<EngagementWithParties[]> {
+    try {
+      let query = this.supabase
+        .from('engagements')
+        .select(ENGAGEMENT_SELECT)
+        .eq('status', 'confirmed')
+        .order('event_date', { ascending: true })
+        .order('start_time', { ascending: true, nullsFirst: true });
+
+      if (fromDate) {
+        query = query.gte('event_date', fromDate);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        logError('Error fetching engagements', error);
+        throw error;
+      }
+
+      return (data || []) as EngagementWithParties[];
+    } catch (error) {
+      logError('Error in getEngagements', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Call off a confirmed engagement; either party can
+   */
+  async cancelEngagement(engagementId: string): Promise<Engagement> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'cancel_engagement', {
+        p_engagement_id: engagementId
+      });
+
+      if (error) {
+        logError('Error cancelling engagement', error);
+        throw new Error(error.message || 'Failed to cancel booking');
+      }
+
+      return data as Engagement;
+    } catch (error) {
+      logError('Error in cancelEngagement', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop empty strings so optional columns are stored as NULL
+   */
+  private cleanTerms(terms: Partial<BookingTerms>): Partial<BookingTerms> {
+    return Object.fromEntries(
+      Object.entries(terms).map(([key, value]) => [key, value === '' ? null : value])
+    ) as Partial<BookingTerms>;
+  }
+
+  private sortRevisions(request: BookingRequestWithParties): BookingRequestWithParties {
+    return {
+      ...request,
+      revisions: [...(request.revisions || [])]
+        .sort((a, b) => a.revision_number - b.revision_number)
+    };
+  }
+}
+
+/**
+ * Which side of a booking request a user is on
+ * Anyone who can see a request and isn't the musician acts for the requester (sender or org admin)
+ */
+export function bookingSideFor(request: BookingRequest, userId: string): BookingSide {
+  return request.musician_user_id === userId ? 'musician' : 'requester';
+}
+
+// Factory function for client-side usage
+export function createBookingsService() {
+  const supabase = createClient();
+  return new BookingsService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getBookingRequests() {
+  const service = createBookingsService();
+  return service.getBookingRequests();
+}
+
+export async function createBookingRequest(input: NewBookingRequest) {
+  const service = createBookingsService();
+  return service.createBookingRequest(input);
+}
+
+export async function respondToBookingRequest(
+  requestId: string,
+  action: BookingAction,
+  terms?: Partial<BookingTerms>,
+  message?: string
+) {
+  const service = createBookingsService();
+  return service.respond(requestId, action, terms, message);
+}
+
+export async function getEngagements(fromDate?: string) {
+  const service = createBookingsService();
+  return service.getEngagements(fromDate);
+}
+
+export async function cancelEngagement(engagementId: string) {
+  const service = createBookingsService();
+  return service.cancelEngagement(engagementId);
+}
@@ -0,0 +1,93 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type { CalendarFeed } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export class CalendarFeedsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the current user's calendar feed, if they've created one
+   */
+  async getFeed(): Promise<CalendarFeed | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('calendar_feeds')
+        .select('*')
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching calendar feed', error);
+        throw error;
+      }
+
+      return data as CalendarFeed | null;
+    } catch (error) {
+      logError('Error in getFeed', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the feed, or replace its token so the old URL stops working
+   */
+  async rotateToken(): Promise<string> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'rotate_calendar_feed_token');
+
+      if (error) {
+        logError('Error rotating calendar feed token', error);
+        throw new Error(error.message || 'Failed to create calendar link');
+      }
+
+      return data as string;
+    } catch (error) {
+      logError('Error in rotateToken', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn the feed off; subscribed calendars stop updating
+   */
+  async revoke(): Promise<void> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to manage your calendar link.');
+      }
+
+      const { error } = await this.supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) {
+        logError('Error revoking calendar feed', error);
+        throw error;
+      }
+    } catch (error) {
+      logError('Error in revoke', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Public URL of a feed token, for pasting into a calendar app's "subscribe by URL"
+ */
+export function calendarFeedUrl(token: string, origin: string): string {
+  return `${origin.replace(/\/$/, '')}/api/calendar/${token}.ics`;
+}
+
+// Factory function for client-side usage
+export function createCalendarFeedsService() {
+  const supabase = createClient();
+  return new CalendarFeedsService(supabase);
+}
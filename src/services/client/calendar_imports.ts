@@ -0,0 +1,106 @@
+import { createClient } from '@/lib/supabase/client';
+import { browserTimeZone } from '@/lib/availability/schedule';
+import type { CalendarImport } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface CalendarImportResult {
+  import: CalendarImport;
+  truncated: boolean; // Only the soonest busy periods were kept
+}
+
+export class CalendarImportsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the current user's imported calendars, most recently imported first
+   */
+  async getImports(): Promise<CalendarImport[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('calendar_imports')
+        .select('*')
+        .order('last_imported_at', { ascending: false, nullsFirst: false });
+
+      if (error) {
+        logError('Error fetching calendar imports', error);
+        throw error;
+      }
+
+      return (data || []) as CalendarImport[];
+    } catch (error) {
+      logError('Error in getImports', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import busy time from an .ics file; uploading a file with the same name again replaces it
+   */
+  async importFile(file: File): Promise<CalendarImportResult> {
+    return this.runImport({ filename: file.name, content: await file.text() });
+  }
+
+  /**
+   * Import busy time from a calendar feed URL (https:// or webcal://), fetched by the server
+   */
+  async importUrl(url: string): Promise<CalendarImportResult> {
+    return this.runImport({ url });
+  }
+
+  /**
+   * Fetch a feed import again to pick up changes
+   */
+  async refreshImport(importId: string): Promise<CalendarImportResult> {
+    return this.runImport({ importId });
+  }
+
+  /**
+   * Remove an import along with the blackouts it created
+   */
+  async deleteImport(importId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('calendar_imports')
+        .delete()
+        .eq('id', importId);
+
+      if (error) {
+        logError('Error deleting calendar import', error);
+        throw error;
+      }
+    } catch (error) {
+      logError('Error in deleteImport', error);
+      throw error;
+    }
+  }
+
+  private async runImport(body: Record<string, string>): Promise<CalendarImportResult> {
+    try {
+      const response = await fetch('/api/calendar/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, timezone: browserTimeZone() }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        throw new Error(json?.error || 'Failed to import calendar');
+      }
+      return json.data as CalendarImportResult;
+    } catch (error) {
+      logError('Error in runImport', error);
+      throw error;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createCalendarImportsService() {
+  const supabase = createClient();
+  return new CalendarImportsService(supabase);
+}
@@ -70,7 +70,10 @@ export class CommentsService {
 
       if (error) {
         console.error('Error adding comment:', error);
-        throw error;
+        // RLS turns the insert away when the post's author has blocked you or you them (migration 49)
+        throw new Error(error.code === '42501'
+          ? "You can't comment on this post"
+          : error.message || 'Failed to post comment');
       }
 
       return data;
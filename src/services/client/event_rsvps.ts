@@ -0,0 +1,153 @@
+import { createClient } from '@/lib/supabase/client';
+import type { EventAttendee, EventRsvp, EventRsvpStatus } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export class EventRsvpsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the current user's RSVP to an event, if any
+   */
+  async getMyRsvp(eventId: string): Promise<EventRsvp | null> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await this.supabase
+        .from('event_rsvps')
+        .select('*')
+        .eq('event_id', eventId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching RSVP', error);
+        return null;
+      }
+
+      return data as EventRsvp | null;
+    } catch (error) {
+      logError('Error in getMyRsvp', error);
+      return null;
+    }
+  }
+
+  /**
+   * Mark the current user as going or interested, switching an existing RSVP if there is one
+   */
+  async setRsvp(eventId: string, status: EventRsvpStatus): Promise<EventRsvp> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) throw new Error('You must be signed in to RSVP');
+
+      // Not an upsert: its conflict update would also write event_id and user_id, and only
+      // status is granted for UPDATE
+      const { data: updated, error: updateError } = await this.supabase
+        .from('event_rsvps')
+        .update({ status })
+        .eq('event_id', eventId)
+        .eq('user_id', user.id)
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        logError('Error saving RSVP', updateError);
+        throw updateError;
+      }
+      if (updated) return updated as EventRsvp;
+
+      const { data, error } = await this.supabase
+        .from('event_rsvps')
+        .insert({ event_id: eventId, user_id: user.id, status })
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error saving RSVP', error);
+        throw error;
+      }
+
+      return data as EventRsvp;
+    } catch (error) {
+      logError('Error in setRsvp', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw the current user's RSVP
+   */
+  async removeRsvp(eventId: string): Promise<boolean> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return false;
+
+      const { error } = await this.supabase
+        .from('event_rsvps')
+        .delete()
+        .eq('event_id', eventId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        logError('Error removing RSVP', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in removeRsvp', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get everyone who has RSVPed to an event (organizers only, per RLS), earliest first
+   */
+  async getAttendees(eventId: string): Promise<EventAttendee[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('event_rsvps')
+        .select('*, user:user_id(id, full_name, avatar_url)')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logError('Error fetching attendees', error);
+        throw error;
+      }
+
+      return (data || []) as unknown as EventAttendee[];
+    } catch (error) {
+      logError('Error in getAttendees', error);
+      throw error;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createEventRsvpsService() {
+  const supabase = createClient();
+  return new EventRsvpsService(supabase);
+}
+
+// Convenience functions for common operations
+export async function setEventRsvp(eventId: string, status: EventRsvpStatus) {
+  const service = createEventRsvpsService();
+  return service.setRsvp(eventId, status);
+}
+
+export async function removeEventRsvp(eventId: string) {
+  const service = createEventRsvpsService();
+  return service.removeRsvp(eventId);
+}
+
+export async function getEventAttendees(eventId: string) {
+  const service = createEventRsvpsService();
+  return service.getAttendees(eventId);
+}
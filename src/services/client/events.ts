@@ -0,0 +1,318 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type { EventListing, EventPerformer, EventWithDetails } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface EventFilters {
+  from?: string; // ISO timestamp; defaults to now, so finished events are hidden
+  to?: string; // ISO timestamp; events starting before this
+  genre?: string;
+  eventType?: string;
+  freeOnly?: boolean;
+  // "Within radiusKm of me" – results are sorted nearest first
+  nearLatitude?: number;
+  nearLongitude?: number;
+  radiusKm?: number;
+}
+
+export type EventPerformerInput = Pick<EventPerformer, 'name' | 'role' | 'performer_user_id' | 'performer_organization_id'>;
+
+export type EventInput = Omit<EventListing, 'id' | 'created_by_user_id' | 'status' | 'cancellation_reason' | 'going_count' | 'interested_count' | 'created_at' | 'updated_at'> & {
+  lineup: EventPerformerInput[]; // In billing order
+};
+
+const EVENT_SELECT = `
+  *,
+  organization:organization_id(id, name, logo_url),
+  venue_organization:venue_organization_id(id, name, logo_url),
+  lineup:event_performers(
+    *,
+    performer_user:performer_user_id(id, full_name, avatar_url),
+    performer_organization:performer_organization_id(id, name, logo_url)
+  )
+`;
+
+export class EventsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get upcoming scheduled events, soonest first (nearest first for radius searches)
+   */
+  async getEvents(filters: EventFilters = {}, limit: number = 20, offset: number = 0): Promise<EventWithDetails[]> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'search_events', {
+        p_from: filters.from || null,
+        p_to: filters.to || null,
+        p_genre: filters.genre || null,
+        p_event_type: filters.eventType || null,
+        p_free_only: !!filters.freeOnly,
+        p_latitude: filters.nearLatitude ?? null,
+        p_longitude: filters.nearLongitude ?? null,
+        p_radius_km: filters.radiusKm ?? null,
+        p_limit: limit,
+        p_offset: offset
+      });
+
+      if (error) {
+        logError('Error fetching events', error);
+        throw error;
+      }
+
+      return (data || []).map(row => ({
+        ...row.event,
+        distance_km: row.distance_km ?? undefined
+      }));
+    } catch (error) {
+      logError('Error in getEvents', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single event with its venue, host and lineup
+   */
+  async getEventById(eventId: string): Promise<EventWithDetails | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('events')
+        .select(EVENT_SELECT)
+        .eq('id', eventId)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching event', error);
+        return null;
+      }
+
+      return data ? this.transformEvent(data) : null;
+    } catch (error) {
+      logError('Error in getEventById', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get every event the current user can manage, past and cancelled included, newest first
+   */
+  async getMyEvents(limit: number = 100): Promise<EventWithDetails[]> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data: orgs, error: orgsError } = await callRpc(this.supabase, 'get_my_organizations_admin');
+      if (orgsError) {
+        logError('Error fetching admin organizations', orgsError);
+      }
+
+      const orgIds = ((orgs || []) as { id: string }[]).map(org => org.id);
+      const ownership = orgIds.length > 0
+        ? `created_by_user_id.eq.${user.id},organization_id.in.(${orgIds.join(',')})`
+        : `created_by_user_id.eq.${user.id}`;
+
+      const { data, error } = await this.supabase
+        .from('events')
+        .select(EVENT_SELECT)
+        .or(ownership)
+        .order('starts_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        logError('Error fetching my events', error);
+        throw error;
+      }
+
+      return (data || []).map(event => this.transformEvent(event));
+    } catch (error) {
+      logError('Error in getMyEvents', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create an event and its lineup
+   */
+  async createEvent(input: EventInput): Promise<EventListing> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to post an event.');
+      }
+
+      const { lineup, ...details } = input;
+      const { data, error } = await this.supabase
+        .from('events')
+        .insert({ ...details, created_by_user_id: user.id })
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error creating event', error);
+        throw error;
+      }
+
+      await this.replaceLineup(data.id, lineup);
+      return data as EventListing;
+    } catch (error) {
+      logError('Error in createEvent', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an event's details and replace its lineup
+   */
+  async updateEvent(eventId: string, input: EventInput): Promise<EventListing> {
+    try {
+      const { lineup, ...details } = input;
+      const { data, error } = await this.supabase
+        .from('events')
+        .update(details)
+        .eq('id', eventId)
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error updating event', error);
+        throw error;
+      }
+
+      await this.replaceLineup(eventId, lineup);
+      return data as EventListing;
+    } catch (error) {
+      logError('Error in updateEvent', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an event's lineup; performers are billed in the order given
+   */
+  async replaceLineup(eventId: string, lineup: EventPerformerInput[]): Promise<void> {
+    const { error: deleteError } = await this.supabase
+      .from('event_performers')
+      .delete()
+      .eq('event_id', eventId);
+
+    if (deleteError) {
+      logError('Error clearing event lineup', deleteError);
+      throw deleteError;
+    }
+
+    const rows = lineup
+      .filter(performer => performer.name.trim())
+      .map((performer, position) => ({
+        event_id: eventId,
+        name: performer.name.trim(),
+        role: performer.role?.trim() || null,
+        performer_user_id: performer.performer_user_id,
+        performer_organization_id: performer.performer_organization_id,
+        position
+      }));
+    if (rows.length === 0) return;
+
+    const { error } = await this.supabase.from('event_performers').insert(rows);
+    if (error) {
+      logError('Error saving event lineup', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an event; it stays visible with the reason so ticket holders know
+   */
+  async cancelEvent(eventId: string, reason?: string): Promise<EventListing | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('events')
+        .update({ status: 'cancelled', cancellation_reason: reason?.trim() || null })
+        .eq('id', eventId)
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error cancelling event', error);
+        throw error;
+      }
+
+      return data as EventListing;
+    } catch (error) {
+      logError('Error in cancelEvent', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an event and its lineup
+   */
+  async deleteEvent(eventId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('events')
+        .delete()
+        .eq('id', eventId);
+
+      if (error) {
+        logError('Error deleting event', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in deleteEvent', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the lineup in billing order
+   */
+  private transformEvent(event: EventWithDetails): EventWithDetails {
+    return {
+      ...event,
+      lineup: [...(event.lineup || [])].sort((a, b) => a.position - b.position)
+    };
+  }
+}
+
+// Factory function for client-side usage
+export function createEventsService() {
+  const supabase = createClient();
+  return new EventsService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getEvents(filters?: EventFilters, limit?: number, offset?: number) {
+  const service = createEventsService();
+  return service.getEvents(filters, limit, offset);
+}
+
+export async function getMyEvents(limit?: number) {
+  const service = createEventsService();
+  return service.getMyEvents(limit);
+}
+
+export async function createEvent(input: EventInput) {
+  const service = createEventsService();
+  return service.createEvent(input);
+}
+
+export async function updateEvent(eventId: string, input: EventInput) {
+  const service = createEventsService();
+  return service.updateEvent(eventId, input);
+}
+
+export async function cancelEvent(eventId: string, reason?: string) {
+  const service = createEventsService();
+  return service.cancelEvent(eventId, reason);
+}
+
+export async function deleteEvent(eventId: string) {
+  const service = createEventsService();
+  return service.deleteEvent(eventId);
+}
@@ -0,0 +1,30 @@
+import type { GeocodeQuery, GeocodeResult } from '@/lib/geocoding/types';
+import { logError } from '@/lib/utils/log';
+
+/**
+ * Geocode an address through /api/geocode, which uses the server's configured geocoder.
+ * Returns null when the address can't be found so callers can save without coordinates.
+ */
+export async function geocodeAddress(query: GeocodeQuery): Promise<GeocodeResult | null> {
+  try {
+    const response = await fetch('/api/geocode', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(query),
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const json = await response.json();
+    if (!response.ok) {
+      throw new Error(json?.error || 'Failed to geocode address');
+    }
+
+    return json.data as GeocodeResult;
+  } catch (error) {
+    logError('Error in geocodeAddress', error);
+    return null;
+  }
+}
@@ -0,0 +1,303 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type {
+  GigApplication,
+  GigApplicant,
+  GigInvitation,
+  GigApplicationNote,
+  GigApplicationStatus
+} from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type ReviewStatus = Exclude<GigApplicationStatus, 'withdrawn'>;
+
+export class GigApplicationsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Check whether the current user can review applications for a gig
+   * (the poster, or an admin of the posting organization)
+   */
+  async canManageGig(gigId: string): Promise<boolean> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'can_manage_gig', {
+        p_gig_id: gigId
+      });
+
+      if (error) {
+        logError('Error checking gig permissions', error);
+        return false;
+      }
+
+      return !!data;
+    } catch (error) {
+      logError('Error in canManageGig', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get all applications to a gig with the applicant's profile and private notes
+   */
+  async getApplicants(gigId: string): Promise<GigApplicant[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('gig_applications')
+        .select(`
+          *,
+          applicant:applicant_user_id(
+            *,
+            individual_profile:individual_profiles(*)
+          ),
+          notes:gig_application_notes(*)
+        `)
+        .eq('gig_id', gigId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logError('Error fetching applicants', error);
+        throw error;
+      }
+
+      return ((data || []) as GigApplicant[]).map(application => ({
+        ...application,
+        notes: [...(application.notes || [])].sort((a, b) => b.created_at.localeCompare(a.created_at))
+      }));
+    } catch (error) {
+      logError('Error in getApplicants', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Shortlist, reject or hire one or more applicants to the same gig
+   * When hiring, markGigFilled also moves the gig to 'filled'
+   */
+  async updateStatus(
+    applicationIds: string[],
+    status: ReviewStatus,
+    markGigFilled: boolean = false
+  ): Promise<GigApplication[]> {
+    try {
+      if (applicationIds.length === 0) return [];
+
+      const { data, error } = await callRpc(this.supabase, 'review_gig_applications', {
+        p_application_ids: applicationIds,
+        p_status: status,
+        p_mark_gig_filled: markGigFilled
+      });
+
+      if (error) {
+        logError('Error updating application status', error);
+        throw new Error(error.message || 'Failed to update applications');
+      }
+
+      return (data || []) as GigApplication[];
+    } catch (error) {
+      logError('Error in updateStatus', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a private note to an application (only visible to the gig's reviewers)
+   */
+  async addNote(applicationId: string, note: string): Promise<GigApplicationNote | null> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to add notes.');
+      }
+
+      const { data, error } = await this.supabase
+        .from('gig_application_notes')
+        .insert([{
+          application_id: applicationId,
+          author_user_id: user.id,
+          note: note.trim()
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error adding application note', error);
+        throw error;
+      }
+
+      return data as GigApplicationNote;
+    } catch (error) {
+      logError('Error in addNote', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete one of the current user's notes
+   */
+  async deleteNote(noteId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('gig_application_notes')
+        .delete()
+        .eq('id', noteId);
+
+      if (error) {
+        logError('Error deleting application note', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in deleteNote', error);
+      return false;
+    }
+  }
+
+  /**
+   * Send the same message to several applicants, into each one's application thread
+   * Returns the number of applicants the message was delivered to
+   */
+  async messageApplicants(applicationIds: string[], body: string): Promise<number> {
+    try {
+      if (applicationIds.length === 0) return 0;
+
+      const { data, error } = await callRpc(this.supabase, 'message_gig_applicants', {
+        p_application_ids: applicationIds,
+        p_body: body
+      });
+
+      if (error) {
+        logError('Error messaging applicants', error);
+        throw new Error(error.message || 'Failed to send message');
+      }
+
+      return (data as number) || 0;
+    } catch (error) {
+      logError('Error in messageApplicants', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the invitations sent for a gig
+   */
+  async getInvitations(gigId: string): Promise<GigInvitation[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('gig_invitations')
+        .select('*')
+        .eq('gig_id', gigId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logError('Error fetching gig invitations', error);
+        throw error;
+      }
+
+      return (data || []) as GigInvitation[];
+    } catch (error) {
+      logError('Error in getInvitations', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invite a musician to apply to a gig
+   */
+  async inviteToGig(gigId: string, invitedUserId: string, message?: string): Promise<GigInvitation> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to invite musicians.');
+      }
+
+      const { data, error } = await this.supabase
+        .from('gig_invitations')
+        .insert([{
+          gig_id: gigId,
+          invited_user_id: invitedUserId,
+          invited_by_user_id: user.id,
+          message: message?.trim() || null
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error inviting musician', error);
+        if (error.code === '23505') {
+          throw new Error('This musician has already been invited.');
+        }
+        throw new Error(error.message || 'Failed to send invitation');
+      }
+
+      return data as GigInvitation;
+    } catch (error) {
+      logError('Error in inviteToGig', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw an invitation the musician hasn't answered yet
+   */
+  async withdrawInvitation(invitationId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('gig_invitations')
+        .delete()
+        .eq('id', invitationId);
+
+      if (error) {
+        logError('Error withdrawing invitation', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in withdrawInvitation', error);
+      return false;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createGigApplicationsService() {
+  const supabase = createClient();
+  return new GigApplicationsService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getApplicants(gigId: string) {
+  const service = createGigApplicationsService();
+  return service.getApplicants(gigId);
+}
+
+export async function updateApplicationStatus(
+  applicationIds: string[],
+  status: ReviewStatus,
+  markGigFilled?: boolean
+) {
+  const service = createGigApplicationsService();
+  return service.updateStatus(applicationIds, status, markGigFilled);
+}
+
+export async function addApplicationNote(applicationId: string, note: string) {
+  const service = createGigApplicationsService();
+  return service.addNote(applicationId, note);
+}
+
+export async function messageApplicants(applicationIds: string[], body: string) {
+  const service = createGigApplicationsService();
+  return service.messageApplicants(applicationIds, body);
+}
+
+export async function inviteToGig(gigId: string, invitedUserId: string, message?: string) {
+  const service = createGigApplicationsService();
+  return service.inviteToGig(gigId, invitedUserId, message);
+}
@@ -1,5 +1,7 @@
 import { createClient } from '@/lib/supabase/client';
-import type { Database, Gig } from '@/types/database';
+import { callRpc } from '@/lib/supabase/rpc';
+import type { Database, Gig, GigApplication, GigApplicationWithGig, GigInvitation, GigStatus } from '@/types/database';
+import { logError } from '@/lib/utils/log';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -10,6 +12,12 @@ export interface GigWithAuthor extends Gig {
     avatar_url?: string;
     type: 'user' | 'organization';
   } | null;
+  // Only set when results come from a full-text search
+  relevance_score?: number;
+  title_highlight?: string; // Title with matches wrapped in <mark></mark>
+  search_snippet?: string; // Description fragments with matches wrapped in <mark></mark>
+  // Only set for radius searches on geocoded gigs
+  distance_km?: number;
 }
 
 export interface GigFilters {
@@ -24,6 +32,11 @@ export interface GigFilters {
   endDate?: string;
   status?: string;
   searchQuery?: string;
+  includeExpired?: boolean;
+  // "Within radiusKm of me" – results are sorted nearest first
+  nearLatitude?: number;
+  nearLongitude?: number;
+  radiusKm?: number;
 }
 
 export class GigsService {
@@ -34,7 +47,7 @@ export class GigsService {
   }
 
   /**
-   * Get gigs with optional filtering and pagination
+   * Get gigs with optional filtering and pagination, ranked by relevance when searching
    */
   async getGigs(
     filters: GigFilters = {},
@@ -42,118 +55,39 @@ export class GigsService {
     offset: number = 0
   ): Promise<GigWithAuthor[]> {
     try {
-      console.log('Fetching gigs with filters:', filters);
-      
-      // Simple query first to test basic connectivity
-      const { data: simpleData, error: simpleError } = await this.supabase
-        .from('gigs')
-        .select('id, title, status, published_at')
-        .limit(5);
-      
-      console.log('Simple query result:', { simpleData, simpleError });
-      
-      if (simpleError) {
-        throw simpleError;
-      }
-      
-      // If simple query works, proceed with full query
-      let query = this.supabase
-        .from('gigs')
-        .select(`
-          id,
-          title,
-          description,
-          gig_type,
-          instruments_needed,
-          genres,
-          experience_level,
-          venue_name,
-          venue_address,
-          city,
-          state_province,
-          country,
-          start_date,
-          end_date,
-          start_time,
-          end_time,
-          compensation_type,
-          pay_rate_type,
-          pay_amount_min,
-          pay_amount_max,
-          currency,
-          application_method,
-          contact_email,
-          contact_phone,
-          website_url,
-          audition_required,
-          portfolio_required,
-          special_requirements,
-          tags,
-          status,
-          published_at,
-          created_at,
-          updated_at,
-          posted_by_user_id,
-          posted_by_organization_id,
-          posted_by_user:posted_by_user_id(id, full_name, avatar_url),
-          posted_by_organization:posted_by_organization_id(id, name, logo_url)
-        `)
-        .eq('status', filters.status || 'open')
-        .not('published_at', 'is', null)
-        .order('created_at', { ascending: false });
-
-      // Apply filters
-      if (filters.instruments && filters.instruments.length > 0) {
-        query = query.overlaps('instruments_needed', filters.instruments);
-      }
-
-      if (filters.genres && filters.genres.length > 0) {
-        query = query.overlaps('genres', filters.genres);
-      }
-
-      if (filters.compensationType) {
-        query = query.eq('compensation_type', filters.compensationType);
-      }
-
-      if (filters.payRateMin !== undefined) {
-        query = query.gte('pay_amount_min', filters.payRateMin);
-      }
-
-      if (filters.payRateMax !== undefined) {
-        query = query.lte('pay_amount_max', filters.payRateMax);
-      }
-
-      if (filters.location) {
-        query = query.ilike('city', `%${filters.location}%`);
-      }
-
-      if (filters.gigType) {
-        query = query.eq('gig_type', filters.gigType);
-      }
-
-      if (filters.startDate) {
-        query = query.gte('start_date', filters.startDate);
-      }
-
-      if (filters.endDate) {
-        query = query.lte('start_date', filters.endDate);
-      }
-
-      // Apply search query
-      if (filters.searchQuery) {
-        query = query.or(`title.ilike.%${filters.searchQuery}%,description.ilike.%${filters.searchQuery}%,venue_name.ilike.%${filters.searchQuery}%`);
-      }
-
-      const { data, error } = await query.range(offset, offset + limit - 1);
-
-      console.log('Full query result:', { data, error });
+      // Filtering, ranking and hiding stale gigs (unless includeExpired) all happen in search_gigs
+      const { data, error } = await callRpc(this.supabase, 'search_gigs', {
+        p_query: filters.searchQuery?.trim() || null,
+        p_instruments: filters.instruments && filters.instruments.length > 0 ? filters.instruments : null,
+        p_genres: filters.genres && filters.genres.length > 0 ? filters.genres : null,
+        p_compensation_type: filters.compensationType || null,
+        p_pay_min: filters.payRateMin ?? null,
+        p_pay_max: filters.payRateMax ?? null,
+        p_location: filters.location || null,
+        p_gig_type: filters.gigType || null,
+        p_start_date: filters.startDate || null,
+        p_end_date: filters.endDate || null,
+        p_status: filters.status || null,
+        p_include_expired: !!filters.includeExpired,
+        p_latitude: filters.nearLatitude ?? null,
+        p_longitude: filters.nearLongitude ?? null,
+        p_radius_km: filters.radiusKm ?? null,
+        p_limit: limit,
+        p_offset: offset
+      });
 
       if (error) {
         console.error('Error fetching gigs:', error);
         throw error;
       }
 
-      return this.transformGigsData(data || []);
+      return (data || []).map(row => ({
+        ...this.transformSingleGig(row.gig),
+        relevance_score: row.relevance_score ?? undefined,
+        title_highlight: row.title_highlight ?? undefined,
+        search_snippet: row.snippet ?? undefined,
+        distance_km: row.distance_km ?? undefined
+      }));
     } catch (error) {
       console.error('Error in getGigs:', error);
       throw error;
@@ -200,10 +134,13 @@ export class GigsService {
     genres?: string[];
     experience_level?: string;
     venue_name?: string;
+    venue_organization_id?: string | null;
     venue_address?: string;
     city: string;
     state_province?: string;
     country: string;
+    latitude?: number | null;
+    longitude?: number | null;
     start_date: string;
     end_date?: string;
     start_time?: string;
@@ -222,6 +159,7 @@ export class GigsService {
     special_requirements?: string;
     tags?: string[];
     images?: string[];
+    status?: 'draft' | 'open';
   }): Promise<Gig | null> {
     try {
       // Ensure the insert passes RLS: include the posting user id
@@ -257,25 +195,437 @@ export class GigsService {
   }
 
   /**
-   * Apply to a gig (placeholder for future implementation)
+   * Get open gigs within radiusKm of a point, nearest first
+   */
+  async getGigsNearLocation(
+    latitude: number,
+    longitude: number,
+    radiusKm: number,
+    filters: GigFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<GigWithAuthor[]> {
+    return this.getGigs(
+      { ...filters, nearLatitude: latitude, nearLongitude: longitude, radiusKm },
+      limit,
+      offset
+    );
+  }
+
+  /**
+   * Get open gigs within a musician's travel distance of their geocoded location
+   * Returns an empty list when the profile has no coordinates or travel distance yet
+   */
+  async getGigsWithinTravelDistance(
+    userId: string,
+    filters: GigFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<GigWithAuthor[]> {
+    try {
+      const { data: profile, error } = await this.supabase
+        .from('individual_profiles')
+        .select('latitude, longitude, travel_distance_km')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching travel distance', error);
+        throw error;
+      }
+
+      if (profile?.latitude == null || profile?.longitude == null || !profile?.travel_distance_km) {
+        return [];
+      }
+
+      return this.getGigsNearLocation(
+        profile.latitude,
+        profile.longitude,
+        profile.travel_distance_km,
+        filters,
+        limit,
+        offset
+      );
+    } catch (error) {
+      logError('Error in getGigsWithinTravelDistance', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get gigs posted by a specific user, including drafts when viewing your own
+   */
+  async getGigsByUser(userId: string, limit: number = 20, offset: number = 0): Promise<GigWithAuthor[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('gigs')
+        .select(`
+          *,
+          posted_by_user:posted_by_user_id(id, full_name, avatar_url),
+          posted_by_organization:posted_by_organization_id(id, name, logo_url)
+        `)
+        .eq('posted_by_user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        logError('Error fetching user gigs', error);
+        throw error;
+      }
+
+      return this.transformGigsData(data || []);
+    } catch (error) {
+      logError('Error in getGigsByUser', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get gigs posted by a specific organization
+   */
+  async getGigsByOrganization(orgId: string, limit: number = 20, offset: number = 0): Promise<GigWithAuthor[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('gigs')
+        .select(`
+          *,
+          posted_by_user:posted_by_user_id(id, full_name, avatar_url),
+          posted_by_organization:posted_by_organization_id(id, name, logo_url)
+        `)
+        .eq('posted_by_organization_id', orgId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        logError('Error fetching organization gigs', error);
+        throw error;
+      }
+
+      return this.transformGigsData(data || []);
+    } catch (error) {
+      logError('Error in getGigsByOrganization', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every gig the current user can manage: their own plus those of organizations they admin
+   */
+  async getMyGigs(limit: number = 100): Promise<GigWithAuthor[]> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data: orgs, error: orgsError } = await callRpc(this.supabase, 'get_my_organizations_admin');
+      if (orgsError) {
+        logError('Error fetching admin organizations', orgsError);
+      }
+
+      const results = await Promise.all([
+        this.getGigsByUser(user.id, limit),
+        ...((orgs || []) as { id: string }[]).map(org => this.getGigsByOrganization(org.id, limit))
+      ]);
+
+      // A gig posted by the user on behalf of an organization shows up in both lists
+      const gigsById = new Map<string, GigWithAuthor>();
+      results.flat().forEach(gig => gigsById.set(gig.id, gig));
+
+      return Array.from(gigsById.values())
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    } catch (error) {
+      logError('Error in getMyGigs', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a gig's details
+   */
+  async updateGig(gigId: string, updates: Partial<Gig>): Promise<Gig | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('gigs')
+        .update(updates)
+        .eq('id', gigId)
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error updating gig', error);
+        throw new Error(error.message || 'Failed to update gig');
+      }
+
+      return data as Gig;
+    } catch (error) {
+      logError('Error in updateGig', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a gig to a new status (publish, close, mark filled, cancel or back to draft)
+   * published_at, closed_at and cancelled_at are maintained by the handle_gig_status_change trigger.
+   */
+  async updateGigStatus(gigId: string, status: GigStatus, cancellationReason?: string): Promise<Gig | null> {
+    const updates: Partial<Gig> = { status };
+    if (status === 'cancelled') {
+      updates.cancellation_reason = cancellationReason?.trim() || null;
+    }
+    return this.updateGig(gigId, updates);
+  }
+
+  /**
+   * Create a new draft gig copied from an existing one
+   */
+  async duplicateGig(gigId: string): Promise<Gig | null> {
+    try {
+      const { data: original, error } = await this.supabase
+        .from('gigs')
+        .select('*')
+        .eq('id', gigId)
+        .single();
+
+      if (error || !original) {
+        logError('Error fetching gig to duplicate', error);
+        throw new Error('Gig not found');
+      }
+
+      // Drop identity, lifecycle and moderation fields so the copy starts fresh
+      const copy: Record<string, unknown> = { ...original };
+      [
+        'id',
+        'created_at',
+        'updated_at',
+        'published_at',
+        'expires_at',
+        'applications_count',
+        'cancellation_reason',
+        'cancelled_at',
+        'closed_at',
+        'is_flagged',
+        'flagged_reason',
+        'moderator_id',
+        'moderated_at',
+        'search_vector'
+      ].forEach(field => delete copy[field]);
+
+      const response = await fetch('/api/gigs/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...copy,
+          title: `${original.title} (copy)`,
+          featured: false,
+          status: 'draft'
+        }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        logError('Server duplicate gig error', json);
+        throw new Error(json?.error || 'Failed to duplicate gig');
+      }
+
+      return json.data as Gig;
+    } catch (error) {
+      logError('Error in duplicateGig', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply to a gig as the current user
+   * The database refuses applications once the gig is closed, past its
+   * application deadline or at its max_applications limit.
    */
   async applyToGig(gigId: string, applicationData?: {
     message?: string;
     portfolio_urls?: string[];
-  }): Promise<boolean> {
+  }): Promise<GigApplication | null> {
     try {
-      // This would create an application record when the applications table is implemented
-      console.log('Applying to gig:', gigId, applicationData);
-      
-      // For now, just return success
-      // TODO: Implement actual application logic when gig_applications table is created
-      return true;
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to apply to a gig.');
+      }
+
+      const message = applicationData?.message?.trim() || null;
+      const portfolioUrls = (applicationData?.portfolio_urls || [])
+        .map(url => url.trim())
+        .filter(Boolean);
+
+      // A previously withdrawn application is resubmitted instead of duplicated
+      const existing = await this.getMyApplication(gigId);
+      if (existing && existing.status !== 'withdrawn') {
+        throw new Error('You have already applied to this gig.');
+      }
+
+      const query = existing
+        ? this.supabase
+            .from('gig_applications')
+            .update({
+              status: 'submitted',
+              message,
+              portfolio_urls: portfolioUrls.length > 0 ? portfolioUrls : null
+            })
+            .eq('id', existing.id)
+        : this.supabase
+            .from('gig_applications')
+            .insert([{
+              gig_id: gigId,
+              applicant_user_id: user.id,
+              status: 'submitted',
+              message,
+              portfolio_urls: portfolioUrls.length > 0 ? portfolioUrls : null
+            }]);
+
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        logError('Error applying to gig', error);
+        if (error.code === '23505') {
+          throw new Error('You have already applied to this gig.');
+        }
+        throw new Error(error.message || 'Failed to apply to gig');
+      }
+
+      return data as GigApplication;
     } catch (error) {
       console.error('Error in applyToGig:', error);
       throw error;
     }
   }
 
+  /**
+   * Get the current user's application to a gig, if any
+   */
+  async getMyApplication(gigId: string): Promise<GigApplication | null> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await this.supabase
+        .from('gig_applications')
+        .select('*')
+        .eq('gig_id', gigId)
+        .eq('applicant_user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching application', error);
+        return null;
+      }
+
+      return data as GigApplication | null;
+    } catch (error) {
+      logError('Error in getMyApplication', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the ids of gigs the current user has applied to. A withdrawn application can be
+   * resubmitted, so it doesn't count as applied
+   */
+  async getMyAppliedGigIds(): Promise<string[]> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await this.supabase
+        .from('gig_applications')
+        .select('gig_id')
+        .eq('applicant_user_id', user.id)
+        .neq('status', 'withdrawn');
+
+      if (error) {
+        logError('Error fetching applied gig ids', error);
+        return [];
+      }
+
+      return (data || []).map(application => application.gig_id);
+    } catch (error) {
+      logError('Error in getMyAppliedGigIds', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get all applications submitted by the current user, newest first
+   */
+  async getMyApplications(limit: number = 50, offset: number = 0): Promise<GigApplicationWithGig[]> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await this.supabase
+        .from('gig_applications')
+        .select(`
+          *,
+          gig:gig_id(*)
+        `)
+        .eq('applicant_user_id', user.id)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        logError('Error fetching my applications', error);
+        throw error;
+      }
+
+      return (data || []) as GigApplicationWithGig[];
+    } catch (error) {
+      logError('Error in getMyApplications', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw one of the current user's applications
+   */
+  async withdrawApplication(applicationId: string): Promise<GigApplication | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('gig_applications')
+        .update({ status: 'withdrawn' })
+        .eq('id', applicationId)
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error withdrawing application', error);
+        throw error;
+      }
+
+      return data as GigApplication;
+    } catch (error) {
+      logError('Error in withdrawApplication', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Decline an invitation to apply to a gig
+   */
+  async declineInvitation(invitationId: string): Promise<GigInvitation | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('gig_invitations')
+        .update({ status: 'declined' })
+        .eq('id', invitationId)
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error declining invitation', error);
+        throw error;
+      }
+
+      return data as GigInvitation;
+    } catch (error) {
+      logError('Error in declineInvitation', error);
+      throw error;
+    }
+  }
+
   /**
    * Helper method to transform a single gig
    */
@@ -343,3 +693,48 @@ export async function applyToGig(gigId: string, applicationData?: Parameters<Gig
   const service = createGigsService();
   return service.applyToGig(gigId, applicationData);
 }
+
+export async function getMyApplication(gigId: string) {
+  const service = createGigsService();
+  return service.getMyApplication(gigId);
+}
+
+export async function getMyAppliedGigIds() {
+  const service = createGigsService();
+  return service.getMyAppliedGigIds();
+}
+
+export async function withdrawApplication(applicationId: string) {
+  const service = createGigsService();
+  return service.withdrawApplication(applicationId);
+}
+
+export async function declineInvitation(invitationId: string) {
+  const service = createGigsService();
+  return service.declineInvitation(invitationId);
+}
+
+export async function getGigsWithinTravelDistance(userId: string, filters?: GigFilters, limit?: number, offset?: number) {
+  const service = createGigsService();
+  return service.getGigsWithinTravelDistance(userId, filters, limit, offset);
+}
+
+export async function getMyGigs(limit?: number) {
+  const service = createGigsService();
+  return service.getMyGigs(limit);
+}
+
+export async function updateGig(gigId: string, updates: Partial<Gig>) {
+  const service = createGigsService();
+  return service.updateGig(gigId, updates);
+}
+
+export async function updateGigStatus(gigId: string, status: GigStatus, cancellationReason?: string) {
+  const service = createGigsService();
+  return service.updateGigStatus(gigId, status, cancellationReason);
+}
+
+export async function duplicateGig(gigId: string) {
+  const service = createGigsService();
+  return service.duplicateGig(gigId);
+}
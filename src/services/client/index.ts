@@ -6,6 +6,26 @@ export { createIndividualProfilesService } from './individual_profiles';
 export { createClientExperienceService } from './experience';
 export { createClientPerformancesService } from './performances';
 export { createOrganizationsService } from './organizations';
+export { createGigsService } from './gigs';
+export { createGigApplicationsService } from './gig_applications';
+export { createSavedSearchesService } from './saved_searches';
+export { createRecommendationsService } from './recommendations';
+export { createBookingsService } from './bookings';
+export { createAvailabilityService } from './availability';
+export { createCalendarFeedsService } from './calendar_feeds';
+export { createCalendarImportsService } from './calendar_imports';
+export { createScheduleService } from './schedule';
+export { createEventsService } from './events';
+export { createEventRsvpsService } from './event_rsvps';
+export { createNotificationsService } from './notifications';
+export { createNotificationPreferencesService } from './notification_preferences';
+export { createVenuesService } from './venues';
+export { createMessagesService } from './messages';
+export { createMessageTemplatesService } from './message_templates';
+export { createSafetyService } from './safety';
+export { createReportsService } from './reports';
+export { createModerationService } from './moderation';
+export { geocodeAddress } from './geocoding';
 export { updateCompleteProfile, validateProfileUpdate } from './profileUpdate';
 export type { CompleteProfileUpdate, UpdateResult } from './profileUpdate';
 
@@ -0,0 +1,140 @@
+import { createClient } from '@/lib/supabase/client';
+import type { MessageTemplate } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Values substituted into {placeholders} when a template is used
+export interface TemplateValues {
+  first_name: string;
+  applicant_name: string;
+  gig_title: string;
+  gig_date: string;
+}
+
+export type TemplateOption = Pick<MessageTemplate, 'title' | 'body'> & { id: string | null }; // id is null for built-ins
+
+// Offered to every poster alongside the templates they save
+export const DEFAULT_APPLICATION_TEMPLATES: TemplateOption[] = [
+  {
+    id: null,
+    title: 'Thanks for applying',
+    body: 'Hi {first_name}, thanks for applying to {gig_title}! We are reviewing applications and will be in touch soon.'
+  },
+  {
+    id: null,
+    title: 'Shortlisted: next steps',
+    body: 'Hi {first_name}, you are on our shortlist for {gig_title} on {gig_date}. Are you still available, and could you share a recent live recording?'
+  },
+  {
+    id: null,
+    title: 'Ask for details',
+    body: 'Hi {first_name}, before we decide on {gig_title}, could you confirm your rate and what gear you would bring?'
+  },
+  {
+    id: null,
+    title: 'Not selected',
+    body: 'Hi {first_name}, thank you for your interest in {gig_title}. We have gone with another musician this time, but we would love to keep you in mind for future gigs.'
+  }
+];
+
+/**
+ * Replace {placeholders} in a template; unknown placeholders are left as typed
+ */
+export function fillTemplate(body: string, values: TemplateValues): string {
+  return body.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key as keyof TemplateValues] : match
+  );
+}
+
+export class MessageTemplatesService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the current user's saved templates, alphabetically
+   */
+  async getTemplates(): Promise<MessageTemplate[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('message_templates')
+        .select('*')
+        .order('title', { ascending: true });
+
+      if (error) {
+        logError('Error fetching message templates', error);
+        return [];
+      }
+
+      return (data || []) as MessageTemplate[];
+    } catch (error) {
+      logError('Error in getTemplates', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a new template for the current user
+   */
+  async createTemplate(title: string, body: string): Promise<MessageTemplate> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await this.supabase
+        .from('message_templates')
+        .insert({ user_id: user.id, title: title.trim(), body: body.trim() })
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error creating message template', error);
+        throw new Error(error.message || 'Failed to save template');
+      }
+
+      return data as MessageTemplate;
+    } catch (error) {
+      logError('Error in createTemplate', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete one of the current user's templates
+   */
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('message_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) {
+        logError('Error deleting message template', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in deleteTemplate', error);
+      return false;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createMessageTemplatesService() {
+  const supabase = createClient();
+  return new MessageTemplatesService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getMessageTemplates() {
+  const service = createMessageTemplatesService();
+  return service.getTemplates();
+}
@@ -0,0 +1,453 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type {
+  ConversationParticipant,
+  ConversationSummary,
+  ConversationWithParticipants,
+  Message,
+  MessageAttachment
+} from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Window event fired after a conversation is read, so Header can refresh its Messages badge
+export const MESSAGES_READ_EVENT = 'messages-read';
+
+// Largest group, including the person creating it (matches create_group_conversation)
+export const MAX_GROUP_PARTICIPANTS = 20;
+
+// How long a typing indicator stays up without another keystroke
+export const TYPING_TIMEOUT_MS = 4000;
+
+// Header and the inbox page both listen at once, and each listener needs its own channel topic
+let inboxChannelCount = 0;
+
+export interface MessageQuery {
+  limit?: number;
+  before?: string; // ISO timestamp; for paging back through older messages
+}
+
+export interface ConversationSubscriptionHandlers {
+  onMessage?: (message: Message) => void; // New message from anyone, including this user's other tabs
+  onMessageUpdate?: (message: Message) => void; // Edited or deleted
+  onReadReceipt?: (participant: ConversationParticipant) => void; // Someone's last_read_at moved
+  onTyping?: (userId: string) => void;
+}
+
+export interface ConversationSubscription {
+  sendTyping: () => void;
+  unsubscribe: () => void;
+}
+
+export class MessagesService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the current user's conversations, most recent activity first
+   */
+  async getConversations({ limit = 50, before }: MessageQuery = {}): Promise<ConversationSummary[]> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'get_my_conversations', {
+        p_limit: limit,
+        p_before: before ?? null
+      });
+
+      if (error) {
+        logError('Error fetching conversations', error);
+        return [];
+      }
+
+      return (data || []) as ConversationSummary[];
+    } catch (error) {
+      logError('Error in getConversations', error);
+      return [];
+    }
+  }
+
+  /**
+   * Count conversations with messages the current user hasn't read
+   */
+  async getUnreadConversationCount(): Promise<number> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'count_unread_conversations');
+
+      if (error) {
+        logError('Error counting unread conversations', error);
+        return 0;
+      }
+
+      return data || 0;
+    } catch (error) {
+      logError('Error in getUnreadConversationCount', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get a conversation with its participants; null if it doesn't exist or the user isn't in it
+   */
+  async getConversation(conversationId: string): Promise<ConversationWithParticipants | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('conversations')
+        .select(`
+          *,
+          participants:conversation_participants(*, user:user_id(id, full_name, avatar_url)),
+          organization:organization_id(id, name, logo_url),
+          application:gig_application_id(
+            id, status, applicant_user_id, created_at,
+            gig:gig_id(
+              id, title, status, start_date, start_time, venue_name, city, state_province, is_remote,
+              compensation_type, pay_rate_type, pay_amount_min, pay_amount_max, currency
+            )
+          )
+        `)
+        .eq('id', conversationId)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching conversation', error);
+        return null;
+      }
+
+      return data as unknown as ConversationWithParticipants | null;
+    } catch (error) {
+      logError('Error in getConversation', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a page of messages in chronological order (the newest page unless `before` is given)
+   */
+  async getMessages(conversationId: string, { limit = 50, before }: MessageQuery = {}): Promise<Message[]> {
+    try {
+      let query = this.supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (before) query = query.lt('created_at', before);
+
+      const { data, error } = await query;
+
+      if (error) {
+        logError('Error fetching messages', error);
+        return [];
+      }
+
+      return ((data || []) as Message[]).reverse();
+    } catch (error) {
+      logError('Error in getMessages', error);
+      return [];
+    }
+  }
+
+  /**
+   * Send a message with optional Cloudinary attachments
+   */
+  async sendMessage(conversationId: string, body: string, attachments: MessageAttachment[] = []): Promise<Message> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await this.supabase
+        .from('messages')
+        .insert({
+          conversation_id: conversationId,
+          sender_user_id: user.id,
+          body: body.trim(),
+          attachments
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error sending message', error);
+        // RLS turns the insert away when a block stands between the two people (migration 49)
+        throw new Error(error.code === '42501'
+          ? "You can't send messages in this conversation"
+          : error.message || 'Failed to send message');
+      }
+
+      return data as Message;
+    } catch (error) {
+      logError('Error in sendMessage', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the text of one of the current user's messages
+   */
+  async editMessage(messageId: string, body: string): Promise<Message | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('messages')
+        .update({ body: body.trim() })
+        .eq('id', messageId)
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error editing message', error);
+        return null;
+      }
+
+      return data as Message;
+    } catch (error) {
+      logError('Error in editMessage', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete one of the current user's messages (it stays in the thread as "deleted")
+   */
+  async deleteMessage(messageId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('messages')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', messageId);
+
+      if (error) {
+        logError('Error deleting message', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in deleteMessage', error);
+      return false;
+    }
+  }
+
+  /**
+   * Open the one-to-one thread with another user, creating it the first time
+   */
+  async startDirectConversation(otherUserId: string): Promise<string> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'start_direct_conversation', {
+        p_other_user_id: otherUserId
+      });
+
+      if (error) {
+        logError('Error starting conversation', error);
+        throw new Error(error.message || 'Failed to start conversation');
+      }
+
+      return data as string;
+    } catch (error) {
+      logError('Error in startDirectConversation', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open the current user's thread with an organization's admins
+   */
+  async startOrganizationConversation(organizationId: string): Promise<string> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'start_organization_conversation', {
+        p_organization_id: organizationId
+      });
+
+      if (error) {
+        logError('Error starting organization conversation', error);
+        throw new Error(error.message || 'Failed to start conversation');
+      }
+
+      return data as string;
+    } catch (error) {
+      logError('Error in startOrganizationConversation', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open the thread between an applicant and the gig's poster (either side can call this)
+   */
+  async openApplicationConversation(applicationId: string): Promise<string> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'open_application_conversation', {
+        p_application_id: applicationId
+      });
+
+      if (error) {
+        logError('Error opening application conversation', error);
+        throw new Error(error.message || 'Failed to open conversation');
+      }
+
+      return data as string;
+    } catch (error) {
+      logError('Error in openApplicationConversation', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start a group conversation with the current user as owner
+   */
+  async createGroupConversation(title: string, userIds: string[]): Promise<string> {
+    try {
+      if (userIds.length + 1 > MAX_GROUP_PARTICIPANTS) {
+        throw new Error(`Groups can have at most ${MAX_GROUP_PARTICIPANTS} people`);
+      }
+
+      const { data, error } = await callRpc(this.supabase, 'create_group_conversation', {
+        p_title: title,
+        p_user_ids: userIds
+      });
+
+      if (error) {
+        logError('Error creating group conversation', error);
+        throw new Error(error.message || 'Failed to create group');
+      }
+
+      return data as string;
+    } catch (error) {
+      logError('Error in createGroupConversation', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Leave a group conversation
+   */
+  async leaveConversation(conversationId: string): Promise<boolean> {
+    try {
+      const { error } = await callRpc(this.supabase, 'leave_conversation', {
+        p_conversation_id: conversationId
+      });
+
+      if (error) {
+        logError('Error leaving conversation', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in leaveConversation', error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark everything in a conversation as read (this is what others see as a read receipt)
+   */
+  async markRead(conversationId: string): Promise<boolean> {
+    try {
+      const { error } = await callRpc(this.supabase, 'mark_conversation_read', {
+        p_conversation_id: conversationId
+      });
+
+      if (error) {
+        logError('Error marking conversation read', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in markRead', error);
+      return false;
+    }
+  }
+
+  /**
+   * Listen for new and edited messages, read receipts and typing in one conversation.
+   * Messages and receipts come from Postgres changes (filtered by RLS); typing is broadcast only.
+   */
+  subscribeToConversation(conversationId: string, handlers: ConversationSubscriptionHandlers): ConversationSubscription {
+    const channel = this.supabase
+      .channel(`conversation:${conversationId}`, { config: { broadcast: { self: false } } })
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` },
+        payload => handlers.onMessage?.(payload.new as Message)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` },
+        payload => handlers.onMessageUpdate?.(payload.new as Message)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversation_participants', filter: `conversation_id=eq.${conversationId}` },
+        payload => handlers.onReadReceipt?.(payload.new as ConversationParticipant)
+      )
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (payload?.user_id) handlers.onTyping?.(payload.user_id as string);
+      })
+      .subscribe();
+
+    let currentUserId: string | null = null;
+    this.supabase.auth.getUser().then(({ data: { user } }) => {
+      currentUserId = user?.id ?? null;
+    });
+
+    // At most one typing broadcast every couple of seconds
+    let lastTypingSentAt = 0;
+
+    return {
+      sendTyping: () => {
+        const now = Date.now();
+        if (!currentUserId || now - lastTypingSentAt < TYPING_TIMEOUT_MS / 2) return;
+        lastTypingSentAt = now;
+        channel.send({ type: 'broadcast', event: 'typing', payload: { user_id: currentUserId } });
+      },
+      unsubscribe: () => {
+        this.supabase.removeChannel(channel);
+      }
+    };
+  }
+
+  /**
+   * Listen for new messages in any of the current user's conversations (for the inbox list)
+   */
+  subscribeToInbox(onMessage: (message: Message) => void): () => void {
+    const channel = this.supabase
+      .channel(`inbox:${++inboxChannelCount}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        payload => onMessage(payload.new as Message)
+      )
+      .subscribe();
+
+    return () => {
+      this.supabase.removeChannel(channel);
+    };
+  }
+}
+
+// Factory function for client-side usage
+export function createMessagesService() {
+  const supabase = createClient();
+  return new MessagesService(supabase);
+}
+
+// Convenience functions for common operations
+export async function startDirectConversation(otherUserId: string) {
+  const service = createMessagesService();
+  return service.startDirectConversation(otherUserId);
+}
+
+export async function startOrganizationConversation(organizationId: string) {
+  const service = createMessagesService();
+  return service.startOrganizationConversation(organizationId);
+}
+
+export async function getUnreadConversationCount() {
+  const service = createMessagesService();
+  return service.getUnreadConversationCount();
+}
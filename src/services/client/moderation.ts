@@ -0,0 +1,183 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type {
+  ModerationActionType,
+  ModerationActionWithUsers,
+  ModerationAuthorAction,
+  ModerationContentAction,
+  ModerationQueueItem,
+  ReportTargetType
+} from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// What a moderator decides about one queue item
+export interface ModerationDecision {
+  action: ModerationContentAction;
+  authorAction?: ModerationAuthorAction | null;
+  suspendDays?: number | null;
+  note?: string;
+}
+
+// Content actions each kind of target allows (mirrors the checks in moderate_content)
+export const MODERATION_CONTENT_ACTIONS: Record<ReportTargetType, ModerationContentAction[]> = {
+  post: ['dismiss', 'hide', 'delete'],
+  comment: ['dismiss', 'hide', 'delete'],
+  gig: ['dismiss', 'hide', 'delete'],
+  message: ['dismiss', 'delete'],
+  user: ['dismiss']
+};
+
+export const MODERATION_CONTENT_ACTION_LABELS: Record<ModerationContentAction, string> = {
+  dismiss: 'Dismiss: leave it up',
+  hide: 'Hide from everyone but the author',
+  delete: 'Delete'
+};
+
+// Verbs for audit log entries, e.g. "Sam hid a post by Alex"
+export const MODERATION_ACTION_VERBS: Record<ModerationActionType, string> = {
+  dismiss: 'dismissed reports on',
+  hide: 'hid',
+  delete: 'deleted',
+  warn: 'warned the author of',
+  suspend: 'suspended the author of',
+  unsuspend: 'lifted the suspension on'
+};
+
+export const SUSPENSION_DAY_OPTIONS = [1, 3, 7, 30, 365];
+
+export class ModerationService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Whether the current user is a platform admin
+   */
+  async isPlatformAdmin(): Promise<boolean> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'is_platform_admin');
+
+      if (error) {
+        logError('Error checking platform admin', error);
+        return false;
+      }
+
+      return data === true;
+    } catch (error) {
+      logError('Error in isPlatformAdmin', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get flagged and reported content awaiting a decision, most reported first
+   */
+  async getQueue(limit: number = 50, offset: number = 0): Promise<ModerationQueueItem[]> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'get_moderation_queue', {
+        p_limit: limit,
+        p_offset: offset
+      });
+
+      if (error) {
+        logError('Error fetching moderation queue', error);
+        return [];
+      }
+
+      return (data || []) as ModerationQueueItem[];
+    } catch (error) {
+      logError('Error in getQueue', error);
+      return [];
+    }
+  }
+
+  /**
+   * Act on a queue item. Logs the decision, closes its reports and notifies the author and reporters.
+   */
+  async moderate(targetType: ReportTargetType, targetId: string, decision: ModerationDecision): Promise<string> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'moderate_content', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_action: decision.action,
+        p_author_action: decision.authorAction || null,
+        p_suspend_days: decision.authorAction === 'suspend' ? decision.suspendDays : null,
+        p_note: decision.note?.trim() || null
+      });
+
+      if (error) {
+        logError('Error moderating content', error);
+        throw new Error(error.message || 'Failed to save this decision');
+      }
+
+      return data as string;
+    } catch (error) {
+      logError('Error in moderate', error);
+      throw error;
+    }
+  }
+
+  /**
+   * End a user's suspension early
+   */
+  async liftSuspension(userId: string, note?: string): Promise<void> {
+    const { error } = await callRpc(this.supabase, 'lift_suspension', {
+      p_user_id: userId,
+      p_note: note?.trim() || null
+    });
+
+    if (error) {
+      logError('Error lifting suspension', error);
+      throw new Error(error.message || 'Failed to lift this suspension');
+    }
+  }
+
+  /**
+   * Get the audit log, newest first
+   */
+  async getActions(options: { limit?: number; before?: string } = {}): Promise<ModerationActionWithUsers[]> {
+    try {
+      let query = this.supabase
+        .from('moderation_actions')
+        .select(`
+          *,
+          moderator:moderator_user_id(id, full_name, avatar_url),
+          subject:subject_user_id(id, full_name, avatar_url, suspended_until)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(options.limit ?? 50);
+
+      if (options.before) {
+        query = query.lt('created_at', options.before);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        logError('Error fetching moderation actions', error);
+        return [];
+      }
+
+      return (data || []) as unknown as ModerationActionWithUsers[];
+    } catch (error) {
+      logError('Error in getActions', error);
+      return [];
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createModerationService() {
+  const supabase = createClient();
+  return new ModerationService(supabase);
+}
+
+// Convenience functions for common operations
+export async function isPlatformAdmin() {
+  const service = createModerationService();
+  return service.isPlatformAdmin();
+}
@@ -0,0 +1,245 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type {
+  NotificationChannel,
+  NotificationChannelPreference,
+  NotificationSettings,
+  UserNotificationType
+} from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Rows of the preference matrix on /profile/edit, in display order
+export const NOTIFICATION_TYPE_OPTIONS: { type: UserNotificationType; label: string }[] = [
+  { type: 'new_message', label: 'Direct messages' },
+  { type: 'gig_application', label: 'Applications to my gigs' },
+  { type: 'application_status', label: 'Updates on my applications' },
+  { type: 'gig_updated', label: 'Changes to gigs I applied to' },
+  { type: 'performance_credit', label: 'Performance credits' },
+  { type: 'event_reminder', label: 'Event reminders' },
+  { type: 'post_comment', label: 'Comments on my posts' },
+  { type: 'comment_reply', label: 'Replies to my comments' },
+  { type: 'post_like', label: 'Likes' },
+  { type: 'new_follower', label: 'New followers' },
+  { type: 'followed_post', label: 'Posts from people I follow' },
+  { type: 'followed_gig', label: 'Gigs from people I follow' },
+  { type: 'followed_event', label: 'Events from people I follow' },
+  { type: 'report_update', label: 'Updates on my reports' }
+];
+
+export const NOTIFICATION_CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'in_app', label: 'In-app' },
+  { channel: 'push', label: 'Push' },
+  { channel: 'email', label: 'Email' }
+];
+
+// Mirrors notification_channel_default() (migration 46, extended in 47 and 50); used for cells the user hasn't set
+const PUSH_BY_DEFAULT: string[] = [
+  'post_comment', 'comment_reply', 'gig_updated', 'gig_application',
+  'application_status', 'event_reminder', 'performance_credit', 'new_message',
+  'moderation_notice', 'report_update'
+];
+const EMAIL_BY_DEFAULT: string[] = [
+  'gig_updated', 'gig_application', 'application_status', 'event_reminder', 'performance_credit',
+  'moderation_notice'
+];
+
+export function getDefaultChannelPreference(type: string, channel: NotificationChannel): boolean {
+  if (channel === 'in_app') return true;
+  if (channel === 'push') return PUSH_BY_DEFAULT.includes(type);
+  return EMAIL_BY_DEFAULT.includes(type);
+}
+
+// Key for a cell in the matrix, e.g. "gig_application:email"
+export type ChannelPreferenceKey = `${string}:${NotificationChannel}`;
+
+export type NotificationSettingsUpdate = Partial<Pick<NotificationSettings,
+  'quiet_hours_start' | 'quiet_hours_end' | 'timezone' | 'digest_frequency' | 'daily_digest_time'
+>>;
+
+export class NotificationPreferencesService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the current user's full type x channel matrix, with defaults filled in
+   */
+  async getChannelPreferences(): Promise<Record<ChannelPreferenceKey, boolean>> {
+    const matrix = {} as Record<ChannelPreferenceKey, boolean>;
+    for (const { type } of NOTIFICATION_TYPE_OPTIONS) {
+      for (const { channel } of NOTIFICATION_CHANNELS) {
+        matrix[`${type}:${channel}`] = getDefaultChannelPreference(type, channel);
+      }
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from('notification_channel_preferences')
+        .select('*');
+
+      if (error) {
+        logError('Error fetching notification channel preferences', error);
+        return matrix;
+      }
+
+      for (const preference of (data || []) as NotificationChannelPreference[]) {
+        matrix[`${preference.notification_type}:${preference.channel}`] = preference.enabled;
+      }
+
+      return matrix;
+    } catch (error) {
+      logError('Error in getChannelPreferences', error);
+      return matrix;
+    }
+  }
+
+  /**
+   * Turn one notification type on or off for one channel
+   */
+  async setChannelPreference(type: string, channel: NotificationChannel, enabled: boolean): Promise<boolean> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await this.supabase
+        .from('notification_channel_preferences')
+        .upsert(
+          { user_id: user.id, notification_type: type, channel, enabled },
+          { onConflict: 'user_id,notification_type,channel' }
+        );
+
+      if (error) {
+        logError('Error saving notification channel preference', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in setChannelPreference', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the current user's quiet hours and digest settings, if they've saved any
+   */
+  async getSettings(): Promise<NotificationSettings | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('notification_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching notification settings', error);
+        return null;
+      }
+
+      return data as NotificationSettings | null;
+    } catch (error) {
+      logError('Error in getSettings', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save quiet hours and digest settings
+   */
+  async saveSettings(settings: NotificationSettingsUpdate): Promise<NotificationSettings> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await this.supabase
+        .from('notification_settings')
+        .upsert({ user_id: user.id, ...settings }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error saving notification settings', error);
+        throw new Error(error.message || 'Failed to save notification settings');
+      }
+
+      return data as NotificationSettings;
+    } catch (error) {
+      logError('Error in saveSettings', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save this browser's push subscription for the current user
+   */
+  async registerPushSubscription(subscription: PushSubscriptionJSON): Promise<boolean> {
+    try {
+      if (!subscription.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+        throw new Error('Incomplete push subscription');
+      }
+
+      const { error } = await callRpc(this.supabase, 'register_push_subscription', {
+        p_endpoint: subscription.endpoint,
+        p_p256dh: subscription.keys.p256dh,
+        p_auth: subscription.keys.auth,
+        p_user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null
+      });
+
+      if (error) {
+        logError('Error registering push subscription', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in registerPushSubscription', error);
+      return false;
+    }
+  }
+
+  /**
+   * Forget a browser's push subscription
+   */
+  async removePushSubscription(endpoint: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', endpoint);
+
+      if (error) {
+        logError('Error removing push subscription', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in removePushSubscription', error);
+      return false;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createNotificationPreferencesService() {
+  const supabase = createClient();
+  return new NotificationPreferencesService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getNotificationChannelPreferences() {
+  const service = createNotificationPreferencesService();
+  return service.getChannelPreferences();
+}
+
+export async function setNotificationChannelPreference(type: string, channel: NotificationChannel, enabled: boolean) {
+  const service = createNotificationPreferencesService();
+  return service.setChannelPreference(type, channel, enabled);
+}
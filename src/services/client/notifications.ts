@@ -0,0 +1,162 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type { UserNotificationWithActor } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Window event fired after notifications are read or removed, so Header can refresh its bell badge
+export const NOTIFICATIONS_CHANGED_EVENT = 'notifications-changed';
+
+export interface NotificationQuery {
+  type?: string;
+  unreadOnly?: boolean;
+  limit?: number;
+  before?: string; // ISO timestamp; for paging back through older notifications
+}
+
+export class NotificationsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the current user's notifications, newest first
+   */
+  async getNotifications({ type, unreadOnly = false, limit = 20, before }: NotificationQuery = {}): Promise<UserNotificationWithActor[]> {
+    try {
+      let query = this.supabase
+        .from('notifications')
+        .select('*, actor:actor_user_id(id, full_name, avatar_url)')
+        .eq('in_app', true)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (type) query = query.eq('type', type);
+      if (unreadOnly) query = query.is('read_at', null);
+      if (before) query = query.lt('created_at', before);
+
+      const { data, error } = await query;
+
+      if (error) {
+        logError('Error fetching notifications', error);
+        return [];
+      }
+
+      return (data || []) as unknown as UserNotificationWithActor[];
+    } catch (error) {
+      logError('Error in getNotifications', error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  async markRead(notificationId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notificationId);
+
+      if (error) {
+        logError('Error marking notification read', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in markRead', error);
+      return false;
+    }
+  }
+
+  /**
+   * Count the current user's unread notifications
+   */
+  async getUnreadCount(): Promise<number> {
+    try {
+      const { count, error } = await this.supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('in_app', true)
+        .is('read_at', null);
+
+      if (error) {
+        logError('Error counting unread notifications', error);
+        return 0;
+      }
+
+      return count || 0;
+    } catch (error) {
+      logError('Error in getUnreadCount', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Mark every unread notification as read
+   */
+  async markAllRead(): Promise<boolean> {
+    try {
+      const { error } = await callRpc(this.supabase, 'mark_all_notifications_read');
+
+      if (error) {
+        logError('Error marking all notifications read', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in markAllRead', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a notification
+   */
+  async deleteNotification(notificationId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('notifications')
+        .delete()
+        .eq('id', notificationId);
+
+      if (error) {
+        logError('Error deleting notification', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in deleteNotification', error);
+      return false;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createNotificationsService() {
+  const supabase = createClient();
+  return new NotificationsService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getUnreadNotificationCount() {
+  const service = createNotificationsService();
+  return service.getUnreadCount();
+}
+
+export async function markNotificationRead(notificationId: string) {
+  const service = createNotificationsService();
+  return service.markRead(notificationId);
+}
+
+export async function markAllNotificationsRead() {
+  const service = createNotificationsService();
+  return service.markAllRead();
+}
@@ -166,6 +166,7 @@ export class OrganizationsService {
     title: string;
     performance_date?: string | null;
     venue?: string | null;
+    venue_organization_id?: string | null;
     description?: string | null;
   }): Promise<OrganizationPerformance | null> {
     const { data, error } = await this.supabase
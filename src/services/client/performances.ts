@@ -1,6 +1,12 @@
 import { createClient } from '@/lib/supabase/client';
-import { PerformancesService, type CreatePastPerformance, type UpdatePastPerformance } from '@/services/performances-base';
-import type { PastPerformance } from '@/types/database';
+import {
+  PerformancesService,
+  type CreatePastPerformance,
+  type UpdatePastPerformance,
+  type CreatePerformanceCredit,
+  type CreditedParty
+} from '@/services/performances-base';
+import type { CreditedPerformance, PastPerformance, PerformanceCreditWithParty } from '@/types/database';
 
 /**
  * Client-side Performances Service
@@ -135,6 +141,55 @@ export async function getCurrentUserPerformanceStats(): Promise<{
   return performancesService.getPerformanceStats(user.id);
 }
 
+/**
+ * Get the confirmed credits a musician or organization has on other people's performances
+ */
+export async function getCreditedPerformances(party: CreditedParty): Promise<CreditedPerformance[]> {
+  return performancesService.getCreditedPerformances(party, 'confirmed');
+}
+
+/**
+ * Get credits waiting for the current user to confirm, or for an organization they administer
+ */
+export async function getPendingPerformanceCredits(organizationId?: string): Promise<CreditedPerformance[]> {
+  if (organizationId) {
+    return performancesService.getCreditedPerformances({ organizationId }, 'pending');
+  }
+  const user = await getCurrentUser();
+  return performancesService.getCreditedPerformances({ userId: user.id }, 'pending');
+}
+
+/**
+ * Get the lineup credits on some of the current user's (or their organization's) performances
+ */
+export async function getPerformanceCredits(performances: {
+  pastPerformanceIds?: string[];
+  organizationPerformanceIds?: string[];
+}): Promise<PerformanceCreditWithParty[]> {
+  return performancesService.getPerformanceCredits(performances);
+}
+
+/**
+ * Credit a musician or organization on one of the current user's performances
+ */
+export async function addPerformanceCredit(credit: CreatePerformanceCredit): Promise<PerformanceCreditWithParty | null> {
+  return performancesService.addPerformanceCredit(credit);
+}
+
+/**
+ * Confirm or decline a credit addressed to the current user (or an organization they administer)
+ */
+export async function respondToPerformanceCredit(creditId: string, status: 'confirmed' | 'declined'): Promise<boolean> {
+  return performancesService.respondToPerformanceCredit(creditId, status);
+}
+
+/**
+ * Remove a credit from either side
+ */
+export async function removePerformanceCredit(creditId: string): Promise<boolean> {
+  return performancesService.removePerformanceCredit(creditId);
+}
+
 /**
  * Factory function to create performances service with client context
  */
@@ -146,5 +201,5 @@ export function createClientPerformancesService() {
 export { performancesService };
 
 // Re-export types for convenience
-export type { PastPerformance };
-export type { CreatePastPerformance, UpdatePastPerformance };
+export type { PastPerformance, CreditedPerformance, PerformanceCreditWithParty };
+export type { CreatePastPerformance, UpdatePastPerformance, CreatePerformanceCredit };
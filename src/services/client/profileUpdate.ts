@@ -1,6 +1,7 @@
 import { updateCurrentUser } from './users';
 import { updateCurrentUserProfile } from './individual_profiles';
-import type { User, IndividualProfile, UserWithProfile } from '@/types/database';
+import { geocodeAddress } from './geocoding';
+import type { Availability, User, IndividualProfile, UserWithProfile } from '@/types/database';
 
 /**
  * Combined update type that spans both users and individual_profiles tables
@@ -27,7 +28,7 @@ export interface CompleteProfileUpdate {
   preferred_contact_method?: 'email' | 'phone' | 'app' | null;
   phone_number?: string | null;
   social_links?: Record<string, string>;
-  availability?: Record<string, any>;
+  availability?: Availability;
 }
 
 export interface UpdateResult {
@@ -58,6 +59,15 @@ export async function updateCompleteProfile(updates: CompleteProfileUpdate): Pro
       }
     });
 
+    // Keep the profile's coordinates in step with its location so radius searches can find it
+    if (profileUpdates.location !== undefined) {
+      const coordinates = profileUpdates.location
+        ? await geocodeAddress({ city: profileUpdates.location })
+        : null;
+      profileUpdates.latitude = coordinates?.latitude ?? null;
+      profileUpdates.longitude = coordinates?.longitude ?? null;
+    }
+
     console.log('User table updates:', userUpdates);
     console.log('Profile table updates:', profileUpdates);
 
@@ -0,0 +1,181 @@
+import { createClient } from '@/lib/supabase/client';
+import { GigsService, type GigWithAuthor } from './gigs';
+import { IndividualProfilesService } from './individual_profiles';
+import { AvailabilityService, type FreeMusician } from './availability';
+import { describeGigMatch, scoreGigMatch, type MatchReason } from '@/lib/recommendations/gigMatch';
+import type { Gig, IndividualProfileWithUser } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface RecommendedGig {
+  gig: GigWithAuthor;
+  score: number; // 0-100
+  reasons: MatchReason[];
+  explanation: string; // Short "why this matched" line
+}
+
+export interface RecommendedMusician {
+  profile: IndividualProfileWithUser;
+  score: number; // 0-100
+  reasons: MatchReason[];
+  explanation: string; // Short "why this matched" line
+  distance_km?: number;
+  availability?: FreeMusician['status']; // Set when the gig has a date; musicians busy that day are left out
+}
+
+// How many open gigs (or musicians) to score before picking the best ones
+const CANDIDATE_POOL_SIZE = 100;
+// Matches scoring below this don't fit well enough to recommend
+const MIN_MATCH_SCORE = 30;
+
+export class RecommendationsService {
+  private supabase: SupabaseClient;
+  private gigs: GigsService;
+  private profiles: IndividualProfilesService;
+  private availability: AvailabilityService;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+    this.gigs = new GigsService(supabase);
+    this.profiles = new IndividualProfilesService(supabase);
+    this.availability = new AvailabilityService(supabase);
+  }
+
+  /**
+   * Get open gigs ranked by how well they fit the musician's profile, best first
+   * Skips the user's own gigs and gigs they've already applied to
+   */
+  async getRecommendedGigs(userId: string, limit: number = 6): Promise<RecommendedGig[]> {
+    try {
+      const { data: profile, error } = await this.supabase
+        .from('individual_profiles')
+        .select('primary_instrument, instruments, genres, years_experience, travel_distance_km, base_rate_per_hour, latitude, longitude')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching profile for recommendations', error);
+        throw error;
+      }
+
+      if (!profile) return [];
+
+      // With coordinates the pool comes back nearest first with distances; without, newest first
+      const [candidates, applications] = await Promise.all([
+        this.gigs.getGigs(
+          profile.latitude != null && profile.longitude != null
+            ? { nearLatitude: profile.latitude, nearLongitude: profile.longitude }
+            : {},
+          CANDIDATE_POOL_SIZE,
+          0
+        ),
+        this.supabase
+          .from('gig_applications')
+          .select('gig_id')
+          .eq('applicant_user_id', userId)
+      ]);
+
+      if (applications.error) {
+        logError('Error fetching applications for recommendations', applications.error);
+      }
+
+      const appliedGigIds = new Set((applications.data || []).map(application => application.gig_id));
+
+      return candidates
+        .filter(gig => gig.posted_by_user_id !== userId && !appliedGigIds.has(gig.id))
+        .map(gig => {
+          const match = scoreGigMatch(gig, profile, gig.distance_km);
+          return { gig, score: match.score, reasons: match.reasons, explanation: describeGigMatch(match) };
+        })
+        .filter(recommendation => recommendation.score >= MIN_MATCH_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    } catch (error) {
+      logError('Error in getRecommendedGigs', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get musicians open to work who fit a gig, best first
+   * For in-person geocoded gigs, musicians whose own travel distance doesn't reach the gig are left out
+   */
+  async getRecommendedMusicians(gig: Gig, limit: number = 10): Promise<RecommendedMusician[]> {
+    try {
+      const candidates = (await this.profiles.searchIndividualProfiles({
+        instruments: gig.instruments_needed,
+        openToWork: true,
+        limit: CANDIDATE_POOL_SIZE
+      })) as IndividualProfileWithUser[];
+
+      // Distances for everyone whose travel distance reaches the gig
+      let reachable: Map<string, number> | null = null;
+      if (!gig.is_remote && gig.latitude != null && gig.longitude != null) {
+        const nearby = await this.profiles.searchIndividualProfilesNear({
+          latitude: gig.latitude,
+          longitude: gig.longitude,
+          instruments: gig.instruments_needed,
+          limit: CANDIDATE_POOL_SIZE
+        });
+        reachable = new Map(nearby.map(profile => [profile.user_id, profile.distance_km]));
+      }
+
+      const eligible = candidates
+        .filter(profile => profile.user_id !== gig.posted_by_user_id)
+        // Musicians without a geocoded location can't be ruled out by distance
+        .filter(profile => !reachable || profile.latitude == null || profile.longitude == null || reachable.has(profile.user_id));
+
+      // Leave out anyone booked, blacked out or outside their weekly hours for the first date
+      let free: Map<string, FreeMusician['status']> | null = null;
+      if (gig.start_date) {
+        const available = await this.availability.findFreeMusicians({
+          date: gig.start_date,
+          startTime: gig.start_time,
+          endTime: gig.end_time,
+          userIds: eligible.map(profile => profile.user_id),
+          limit: CANDIDATE_POOL_SIZE
+        });
+        free = new Map(available.map(musician => [musician.user_id, musician.status]));
+      }
+
+      return eligible
+        .filter(profile => !free || free.has(profile.user_id))
+        .map(profile => {
+          const distanceKm = reachable?.get(profile.user_id);
+          const match = scoreGigMatch(gig, profile, distanceKm, 'poster');
+          return {
+            profile,
+            score: match.score,
+            reasons: match.reasons,
+            explanation: describeGigMatch(match),
+            distance_km: distanceKm,
+            availability: free?.get(profile.user_id)
+          };
+        })
+        .filter(recommendation => recommendation.score >= MIN_MATCH_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    } catch (error) {
+      logError('Error in getRecommendedMusicians', error);
+      throw error;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createRecommendationsService() {
+  const supabase = createClient();
+  return new RecommendationsService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getRecommendedGigs(userId: string, limit?: number) {
+  const service = createRecommendationsService();
+  return service.getRecommendedGigs(userId, limit);
+}
+
+export async function getRecommendedMusicians(gig: Gig, limit?: number) {
+  const service = createRecommendationsService();
+  return service.getRecommendedMusicians(gig, limit);
+}
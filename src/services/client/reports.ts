@@ -0,0 +1,118 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type { Report, ReportOutcome, ReportReason, ReportStatus, ReportTargetType } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Choices in the report dialog, in display order
+export const REPORT_REASON_OPTIONS: { reason: ReportReason; label: string }[] = [
+  { reason: 'spam', label: 'Spam or fake engagement' },
+  { reason: 'harassment', label: 'Harassment or bullying' },
+  { reason: 'hate', label: 'Hate speech' },
+  { reason: 'inappropriate', label: 'Nudity or inappropriate content' },
+  { reason: 'impersonation', label: 'Pretending to be someone else' },
+  { reason: 'scam', label: 'Scam or fraud' },
+  { reason: 'other', label: 'Something else' }
+];
+
+// What each kind of target is called in copy
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  user: 'account',
+  post: 'post',
+  comment: 'comment',
+  gig: 'gig',
+  message: 'message'
+};
+
+// How a report's progress reads to the person who filed it
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: 'Waiting for review',
+  reviewing: 'Being reviewed',
+  actioned: 'Action taken',
+  dismissed: 'No action needed'
+};
+
+export const REPORT_OUTCOME_LABELS: Record<ReportOutcome, string> = {
+  no_violation: "We didn't find anything against our community guidelines",
+  content_hidden: 'We hid it from everyone but its author',
+  content_removed: 'We removed it',
+  author_warned: 'We warned the account responsible',
+  author_suspended: 'We suspended the account responsible'
+};
+
+export class ReportsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Report a user, post, comment, gig or message for moderators to review
+   */
+  async reportContent(
+    targetType: ReportTargetType,
+    targetId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<string> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'report_content', {
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_reason: reason,
+        p_details: details?.trim() || null
+      });
+
+      if (error) {
+        logError('Error reporting content', error);
+        throw new Error(error.message || 'Failed to send report');
+      }
+
+      return data as string;
+    } catch (error) {
+      logError('Error in reportContent', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the reports the current user has filed, newest first, with any outcome
+   */
+  async getMyReports(): Promise<Report[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('reports')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logError('Error fetching reports', error);
+        return [];
+      }
+
+      return (data || []) as Report[];
+    } catch (error) {
+      logError('Error in getMyReports', error);
+      return [];
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createReportsService() {
+  const supabase = createClient();
+  return new ReportsService(supabase);
+}
+
+// Convenience functions for common operations
+export async function reportContent(
+  targetType: ReportTargetType,
+  targetId: string,
+  reason: ReportReason,
+  details?: string
+) {
+  const service = createReportsService();
+  return service.reportContent(targetType, targetId, reason, details);
+}
@@ -0,0 +1,125 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// How the current user has chosen to treat another account
+export interface UserRelationship {
+  following: boolean;
+  blocked: boolean;
+  muted: boolean;
+}
+
+const NO_RELATIONSHIP: UserRelationship = { following: false, blocked: false, muted: false };
+
+export class SafetyService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Whether the current user follows, blocked or muted another user
+   */
+  async getRelationship(userId: string): Promise<UserRelationship> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return NO_RELATIONSHIP;
+
+      const { data, error } = await this.supabase
+        .from('follows')
+        .select('status')
+        .eq('follower_user_id', user.id)
+        .eq('followed_user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching relationship', error);
+        return NO_RELATIONSHIP;
+      }
+
+      return {
+        following: data?.status === 'active',
+        blocked: data?.status === 'blocked',
+        muted: data?.status === 'muted'
+      };
+    } catch (error) {
+      logError('Error in getRelationship', error);
+      return NO_RELATIONSHIP;
+    }
+  }
+
+  /**
+   * Block a user. Either of you stops seeing the other's posts and comments, and neither can
+   * follow or message the other.
+   */
+  async blockUser(userId: string): Promise<void> {
+    await this.callRelationshipFunction('block_user', userId, 'Failed to block this account');
+  }
+
+  /**
+   * Lift a block; the user is not followed again automatically
+   */
+  async unblockUser(userId: string): Promise<void> {
+    await this.callRelationshipFunction('unblock_user', userId, 'Failed to unblock this account');
+  }
+
+  /**
+   * Mute a user, hiding their posts and comments from the current user only
+   */
+  async muteUser(userId: string): Promise<void> {
+    await this.callRelationshipFunction('mute_user', userId, 'Failed to mute this account');
+  }
+
+  /**
+   * Unmute a user
+   */
+  async unmuteUser(userId: string): Promise<void> {
+    await this.callRelationshipFunction('unmute_user', userId, 'Failed to unmute this account');
+  }
+
+  /**
+   * Everyone the current user has blocked or been blocked by
+   */
+  async getBlockedUserIds(): Promise<string[]> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'get_blocked_user_ids');
+
+      if (error) {
+        logError('Error fetching blocked users', error);
+        return [];
+      }
+
+      return (data || []) as string[];
+    } catch (error) {
+      logError('Error in getBlockedUserIds', error);
+      return [];
+    }
+  }
+
+  private async callRelationshipFunction(
+    name: 'block_user' | 'unblock_user' | 'mute_user' | 'unmute_user',
+    userId: string,
+    fallbackMessage: string
+  ): Promise<void> {
+    const { error } = await callRpc(this.supabase, name, { p_user_id: userId });
+    if (error) {
+      logError(`Error in ${name}`, error);
+      throw new Error(error.message || fallbackMessage);
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createSafetyService() {
+  const supabase = createClient();
+  return new SafetyService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getBlockedUserIds() {
+  const service = createSafetyService();
+  return service.getBlockedUserIds();
+}
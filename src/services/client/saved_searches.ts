@@ -0,0 +1,255 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type { SavedSearch, SavedSearchWithUnread } from '@/types/database';
+import type { GigFilters } from './gigs';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Window event fired after matches are marked seen, so Header can refresh its unread badge
+export const SAVED_SEARCH_MATCHES_SEEN_EVENT = 'saved-search-matches-seen';
+
+export class SavedSearchesService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the current user's saved searches with their unseen match counts
+   */
+  async getSavedSearches(): Promise<SavedSearchWithUnread[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('saved_searches')
+        .select('*, unread:saved_search_matches(count)')
+        .is('saved_search_matches.seen_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logError('Error fetching saved searches', error);
+        throw error;
+      }
+
+      return (data || []).map((row: SavedSearch & { unread?: { count: number }[] }) => {
+        const { unread, ...search } = row;
+        return {
+          ...search,
+          unread_count: unread?.[0]?.count || 0
+        } as SavedSearchWithUnread;
+      });
+    } catch (error) {
+      logError('Error in getSavedSearches', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a named set of gig filters for the current user
+   */
+  async createSavedSearch(name: string, filters: GigFilters, emailDigest: boolean = false): Promise<SavedSearch> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) {
+        throw new Error('You must be signed in to save a search.');
+      }
+
+      const { data, error } = await this.supabase
+        .from('saved_searches')
+        .insert({
+          user_id: user.id,
+          name: name.trim(),
+          filters: this.cleanFilters(filters),
+          email_digest: emailDigest
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error creating saved search', error);
+        if (error.code === '23505') {
+          throw new Error('You already have a saved search with that name.');
+        }
+        throw error;
+      }
+
+      return data as SavedSearch;
+    } catch (error) {
+      logError('Error in createSavedSearch', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a saved search, change its filters or toggle the email digest
+   */
+  async updateSavedSearch(
+    searchId: string,
+    updates: { name?: string; filters?: GigFilters; email_digest?: boolean }
+  ): Promise<SavedSearch | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('saved_searches')
+        .update({
+          ...updates,
+          ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+          ...(updates.filters ? { filters: this.cleanFilters(updates.filters) } : {})
+        })
+        .eq('id', searchId)
+        .select()
+        .single();
+
+      if (error) {
+        logError('Error updating saved search', error);
+        throw error;
+      }
+
+      return data as SavedSearch;
+    } catch (error) {
+      logError('Error in updateSavedSearch', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a saved search and its recorded matches
+   */
+  async deleteSavedSearch(searchId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', searchId);
+
+      if (error) {
+        logError('Error deleting saved search', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in deleteSavedSearch', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record gigs published since the current user's searches were last checked
+   */
+  async refreshMatches(): Promise<number> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'refresh_saved_search_matches');
+
+      if (error) {
+        logError('Error refreshing saved search matches', error);
+        return 0;
+      }
+
+      return data || 0;
+    } catch (error) {
+      logError('Error in refreshMatches', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Count matches across all saved searches the user hasn't looked at yet
+   */
+  async getUnreadMatchCount(): Promise<number> {
+    try {
+      const { count, error } = await this.supabase
+        .from('saved_search_matches')
+        .select('id', { count: 'exact', head: true })
+        .is('seen_at', null);
+
+      if (error) {
+        logError('Error counting saved search matches', error);
+        return 0;
+      }
+
+      return count || 0;
+    } catch (error) {
+      logError('Error in getUnreadMatchCount', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Mark every match of a saved search as seen (called when the search is opened on /gigs)
+   */
+  async markSearchViewed(searchId: string): Promise<boolean> {
+    try {
+      const now = new Date().toISOString();
+
+      const { error: matchesError } = await this.supabase
+        .from('saved_search_matches')
+        .update({ seen_at: now })
+        .eq('saved_search_id', searchId)
+        .is('seen_at', null);
+
+      if (matchesError) {
+        logError('Error marking saved search matches seen', matchesError);
+        throw matchesError;
+      }
+
+      const { error } = await this.supabase
+        .from('saved_searches')
+        .update({ last_viewed_at: now })
+        .eq('id', searchId);
+
+      if (error) {
+        logError('Error updating saved search', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in markSearchViewed', error);
+      return false;
+    }
+  }
+
+  /**
+   * Drop empty values so saved filters stay small and compare cleanly
+   */
+  private cleanFilters(filters: GigFilters): GigFilters {
+    return Object.fromEntries(
+      Object.entries(filters).filter(([, value]) =>
+        value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+      )
+    ) as GigFilters;
+  }
+}
+
+// Factory function for client-side usage
+export function createSavedSearchesService() {
+  const supabase = createClient();
+  return new SavedSearchesService(supabase);
+}
+
+// Convenience functions for common operations
+export async function getSavedSearches() {
+  const service = createSavedSearchesService();
+  return service.getSavedSearches();
+}
+
+export async function createSavedSearch(name: string, filters: GigFilters, emailDigest?: boolean) {
+  const service = createSavedSearchesService();
+  return service.createSavedSearch(name, filters, emailDigest);
+}
+
+export async function updateSavedSearch(searchId: string, updates: Parameters<SavedSearchesService['updateSavedSearch']>[1]) {
+  const service = createSavedSearchesService();
+  return service.updateSavedSearch(searchId, updates);
+}
+
+export async function deleteSavedSearch(searchId: string) {
+  const service = createSavedSearchesService();
+  return service.deleteSavedSearch(searchId);
+}
+
+export async function markSearchViewed(searchId: string) {
+  const service = createSavedSearchesService();
+  return service.markSearchViewed(searchId);
+}
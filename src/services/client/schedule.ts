@@ -0,0 +1,79 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import { addDaysToDateString } from '@/lib/utils/date';
+import {
+  findConflicts,
+  scheduleCommitment,
+  type Commitment,
+  type ScheduleConflict
+} from '@/lib/availability/conflicts';
+import type { ScheduleCommitment } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export class ScheduleService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * A musician's engagements, hired gigs, rehearsals and blackouts between two dates
+   * Titles and venues are only included for the current user's own schedule
+   */
+  async getCommitments(userId: string, fromDate: string, toDate: string): Promise<Commitment[]> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'get_schedule_commitments', {
+        p_user_id: userId,
+        p_from: fromDate,
+        p_to: toDate
+      });
+
+      if (error) {
+        logError('Error fetching schedule', error);
+        throw error;
+      }
+
+      return ((data || []) as ScheduleCommitment[]).map(scheduleCommitment);
+    } catch (error) {
+      logError('Error in getCommitments', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Conflicts between gigs or bookings a musician is about to take on and their schedule
+   */
+  async checkConflicts(userId: string, candidates: Commitment[]): Promise<ScheduleConflict[]> {
+    try {
+      if (candidates.length === 0) return [];
+
+      // A day either side catches overnight sets and travel to neighbouring days
+      const dates = candidates.flatMap(candidate => [candidate.startDate, candidate.endDate || candidate.startDate]).sort();
+      const schedule = await this.getCommitments(
+        userId,
+        addDaysToDateString(dates[0], -1),
+        addDaysToDateString(dates[dates.length - 1], 1)
+      );
+
+      return findConflicts(candidates, schedule);
+    } catch (error) {
+      logError('Error in checkConflicts', error);
+      throw error;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createScheduleService() {
+  const supabase = createClient();
+  return new ScheduleService(supabase);
+}
+
+// Convenience functions for common operations
+export async function checkScheduleConflicts(userId: string, candidates: Commitment[]) {
+  const service = createScheduleService();
+  return service.checkConflicts(userId, candidates);
+}
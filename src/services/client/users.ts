@@ -113,7 +113,7 @@ export class UsersService {
     });
     if (error) {
       console.error('toggleFollowUser error:', error);
-      throw error;
+      throw new Error(error.message || 'Failed to update follow');
     }
     return Boolean(data);
   }
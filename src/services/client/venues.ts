@@ -0,0 +1,222 @@
+import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
+import type {
+  EventListing,
+  OrganizationPerformance,
+  OrganizationProfile,
+  PastPerformance,
+  User,
+  VenueLinkSourceType,
+  VenueLinkSuggestionWithVenue,
+  VenueSummary
+} from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type VenueSuggestion = VenueSummary;
+
+// A performance or event at a venue, flattened for listing on the venue page
+export interface VenuePerformance {
+  key: string;
+  kind: 'performance' | 'organization_performance' | 'event';
+  title: string;
+  date: string | null; // ISO date, or timestamp for events
+  performer: string | null; // Musician or organization that performed or hosted
+  href: string | null;
+}
+
+// Row shapes of the three selects in getVenuePerformances
+type VenueHostSummary = Pick<OrganizationProfile, 'id' | 'name'> | null;
+type PastPerformanceRow = Pick<PastPerformance, 'id' | 'title' | 'performance_date' | 'user_id'> & {
+  owner: { stage_name: string | null; user: Pick<User, 'full_name'> | null } | null;
+};
+type OrganizationPerformanceRow = Pick<OrganizationPerformance, 'id' | 'title' | 'performance_date'> & {
+  organization: VenueHostSummary;
+};
+type VenueEventRow = Pick<EventListing, 'id' | 'title' | 'starts_at'> & {
+  organization: VenueHostSummary;
+};
+
+export class VenuesService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Venue organizations whose name resembles the query (trigram match), best match first
+   */
+  async searchVenues(query: string, limit: number = 5): Promise<VenueSuggestion[]> {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) return [];
+
+    const { data, error } = await callRpc(this.supabase, 'search_venues', {
+      p_query: trimmed,
+      p_limit: limit
+    });
+
+    if (error) {
+      logError('Error searching venues', error);
+      return [];
+    }
+
+    return (data || []) as VenueSuggestion[];
+  }
+
+  /**
+   * Get a venue organization by id; null if it doesn't exist or isn't a venue
+   */
+  async getVenue(venueId: string): Promise<OrganizationProfile | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('organization_profiles')
+        .select('*')
+        .eq('id', venueId)
+        .eq('organization_type', 'venue')
+        .maybeSingle();
+
+      if (error) {
+        logError('Error fetching venue', error);
+        return null;
+      }
+
+      return data as OrganizationProfile | null;
+    } catch (error) {
+      logError('Error in getVenue', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get everything linked to a venue: musicians' and organizations' performances plus events, newest first
+   */
+  async getVenuePerformances(venueId: string): Promise<VenuePerformance[]> {
+    try {
+      const [pastResult, orgResult, eventsResult] = await Promise.all([
+        this.supabase
+          .from('past_performances')
+          .select('id, title, performance_date, user_id, owner:user_id(stage_name, user:user_id(full_name))')
+          .eq('venue_organization_id', venueId),
+        this.supabase
+          .from('organization_performances')
+          .select('id, title, performance_date, organization:organization_id(id, name)')
+          .eq('venue_organization_id', venueId),
+        this.supabase
+          .from('events')
+          .select('id, title, starts_at, organization:organization_id(id, name)')
+          .eq('venue_organization_id', venueId)
+          .eq('status', 'scheduled')
+      ]);
+
+      const firstError = pastResult.error || orgResult.error || eventsResult.error;
+      if (firstError) {
+        logError('Error fetching venue performances', firstError);
+      }
+
+      const performances: VenuePerformance[] = [
+        ...((pastResult.data || []) as unknown as PastPerformanceRow[]).map((row): VenuePerformance => ({
+          key: `performance-${row.id}`,
+          kind: 'performance',
+          title: row.title,
+          date: row.performance_date,
+          performer: row.owner?.stage_name || row.owner?.user?.full_name || null,
+          href: `/profile/${row.user_id}`
+        })),
+        ...((orgResult.data || []) as unknown as OrganizationPerformanceRow[]).map((row): VenuePerformance => ({
+          key: `organization-performance-${row.id}`,
+          kind: 'organization_performance',
+          title: row.title,
+          date: row.performance_date,
+          performer: row.organization?.name || null,
+          href: null
+        })),
+        ...((eventsResult.data || []) as unknown as VenueEventRow[]).map((row): VenuePerformance => ({
+          key: `event-${row.id}`,
+          kind: 'event',
+          title: row.title,
+          date: row.starts_at,
+          performer: row.organization?.name || null,
+          href: `/events/${row.id}`
+        }))
+      ];
+
+      return performances.sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+    } catch (error) {
+      logError('Error in getVenuePerformances', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get pending venue link suggestions for rows the current user owns
+   */
+  async getLinkSuggestions(sourceType: VenueLinkSourceType, sourceIds: string[]): Promise<VenueLinkSuggestionWithVenue[]> {
+    if (sourceIds.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from('venue_link_suggestions')
+        .select('*, venue:venue_organization_id(id, name, city, state_province)')
+        .eq('source_type', sourceType)
+        .in('source_id', sourceIds)
+        .eq('status', 'pending')
+        .order('similarity', { ascending: false });
+
+      if (error) {
+        logError('Error fetching venue link suggestions', error);
+        return [];
+      }
+
+      return (data || []) as unknown as VenueLinkSuggestionWithVenue[];
+    } catch (error) {
+      logError('Error in getLinkSuggestions', error);
+      return [];
+    }
+  }
+
+  /**
+   * Accept (link the row to the venue) or dismiss a suggestion
+   */
+  async resolveLinkSuggestion(suggestionId: string, accept: boolean): Promise<boolean> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'resolve_venue_link_suggestion', {
+        p_suggestion_id: suggestionId,
+        p_accept: accept
+      });
+
+      if (error) {
+        logError('Error resolving venue link suggestion', error);
+        return false;
+      }
+
+      return !!data;
+    } catch (error) {
+      logError('Error in resolveLinkSuggestion', error);
+      return false;
+    }
+  }
+}
+
+// Factory function for client-side usage
+export function createVenuesService() {
+  const supabase = createClient();
+  return new VenuesService(supabase);
+}
+
+// Convenience functions for common operations
+export async function searchVenues(query: string, limit?: number) {
+  const service = createVenuesService();
+  return service.searchVenues(query, limit);
+}
+
+export async function getVenueLinkSuggestions(sourceType: VenueLinkSourceType, sourceIds: string[]) {
+  const service = createVenuesService();
+  return service.getLinkSuggestions(sourceType, sourceIds);
+}
+
+export async function resolveVenueLinkSuggestion(suggestionId: string, accept: boolean) {
+  const service = createVenuesService();
+  return service.resolveLinkSuggestion(suggestionId, accept);
+}
@@ -0,0 +1,12 @@
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { EventsService } from '@/services/client/events';
+
+// Re-export the service class and types
+export { EventsService } from '@/services/client/events';
+export type { EventFilters, EventInput, EventPerformerInput } from '@/services/client/events';
+
+// Factory function for server components and route handlers
+export async function createServerEventsService(): Promise<EventsService> {
+  const supabase = await createServerClient();
+  return new EventsService(supabase);
+}
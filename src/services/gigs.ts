@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
 import { createClient as createServerClient } from '@/lib/supabase/server';
 import type { Database, Gig } from '@/types/database';
+import { logError } from '@/lib/utils/log';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -11,6 +13,12 @@ export interface GigWithAuthor extends Gig {
     avatar_url?: string;
     type: 'user' | 'organization';
   } | null;
+  // Only set when results come from a full-text search
+  relevance_score?: number;
+  title_highlight?: string; // Title with matches wrapped in <mark></mark>
+  search_snippet?: string; // Description fragments with matches wrapped in <mark></mark>
+  // Only set for radius searches on geocoded gigs
+  distance_km?: number;
 }
 
 export interface GigFilters {
@@ -25,6 +33,11 @@ export interface GigFilters {
   endDate?: string;
   status?: string;
   searchQuery?: string;
+  includeExpired?: boolean;
+  // "Within radiusKm of me" – results are sorted nearest first
+  nearLatitude?: number;
+  nearLongitude?: number;
+  radiusKm?: number;
 }
 
 export class GigsService {
@@ -35,7 +48,7 @@ export class GigsService {
   }
 
   /**
-   * Get gigs with optional filtering and pagination
+   * Get gigs with optional filtering and pagination, ranked by relevance when searching
    */
   async getGigs(
     filters: GigFilters = {},
@@ -43,98 +56,39 @@ export class GigsService {
     offset: number = 0
   ): Promise<GigWithAuthor[]> {
     try {
-      let query = this.supabase
-        .from('gigs')
-        .select(`
-          *,
-          posted_by_user:posted_by_user_id(id, full_name, avatar_url),
-          posted_by_organization:posted_by_organization_id(id, name, logo_url)
-        `)
-        .eq('status', filters.status || 'open')
-        .eq('is_published', true)
-        .order('created_at', { ascending: false });
-
-      // Apply filters
-      if (filters.instruments && filters.instruments.length > 0) {
-        query = query.overlaps('instruments_needed', filters.instruments);
-      }
-
-      if (filters.genres && filters.genres.length > 0) {
-        query = query.overlaps('genres', filters.genres);
-      }
-
-      if (filters.compensationType) {
-        query = query.eq('compensation_type', filters.compensationType);
-      }
-
-      if (filters.payRateMin !== undefined) {
-        query = query.gte('pay_amount_min', filters.payRateMin);
-      }
-
-      if (filters.payRateMax !== undefined) {
-        query = query.lte('pay_amount_max', filters.payRateMax);
-      }
-
-      if (filters.location) {
-        query = query.ilike('city', `%${filters.location}%`);
-      }
-
-      if (filters.gigType) {
-        query = query.eq('gig_type', filters.gigType);
-      }
-
-      if (filters.startDate) {
-        query = query.gte('start_date', filters.startDate);
-      }
-
-      if (filters.endDate) {
-        query = query.lte('start_date', filters.endDate);
-      }
-
-      // Apply search query
-      if (filters.searchQuery) {
-        query = query.or(`title.ilike.%${filters.searchQuery}%,description.ilike.%${filters.searchQuery}%,venue_name.ilike.%${filters.searchQuery}%`);
-      }
-
-      const { data, error } = await query.range(offset, offset + limit - 1);
+      // Filtering, ranking and hiding stale gigs (unless includeExpired) all happen in search_gigs
+      const { data, error } = await callRpc(this.supabase, 'search_gigs', {
+        p_query: filters.searchQuery?.trim() || null,
+        p_instruments: filters.instruments && filters.instruments.length > 0 ? filters.instruments : null,
+        p_genres: filters.genres && filters.genres.length > 0 ? filters.genres : null,
+        p_compensation_type: filters.compensationType || null,
+        p_pay_min: filters.payRateMin ?? null,
+        p_pay_max: filters.payRateMax ?? null,
+        p_location: filters.location || null,
+        p_gig_type: filters.gigType || null,
+        p_start_date: filters.startDate || null,
+        p_end_date: filters.endDate || null,
+        p_status: filters.status || null,
+        p_include_expired: !!filters.includeExpired,
+        p_latitude: filters.nearLatitude ?? null,
+        p_longitude: filters.nearLongitude ?? null,
+        p_radius_km: filters.radiusKm ?? null,
+        p_limit: limit,
+        p_offset: offset
+      });
 
       if (error) {
         console.error('Error fetching gigs:', error);
         throw error;
       }
 
-      // Transform the data to include proper author information
-      const gigsWithAuthor = (data || []).map((gig: any) => {
-        let author = null;
-
-        if (gig.posted_by_user) {
-          author = {
-            id: gig.posted_by_user.id,
-            name: gig.posted_by_user.full_name,
-            avatar_url: gig.posted_by_user.avatar_url,
-            type: 'user' as const
-          };
-        } else if (gig.posted_by_organization) {
-          author = {
-            id: gig.posted_by_organization.id,
-            name: gig.posted_by_organization.name,
-            avatar_url: gig.posted_by_organization.logo_url,
-            type: 'organization' as const
-          };
-        }
-
-        // Remove the nested objects to clean up the response
-        const cleanGig = { ...gig };
-        delete cleanGig.posted_by_user;
-        delete cleanGig.posted_by_organization;
-
-        return {
-          ...cleanGig,
-          author
-        } as GigWithAuthor;
-      });
-
-      return gigsWithAuthor;
+      return (data || []).map(row => ({
+        ...this.transformGigsData([row.gig])[0],
+        relevance_score: row.relevance_score ?? undefined,
+        title_highlight: row.title_highlight ?? undefined,
+        search_snippet: row.snippet ?? undefined,
+        distance_km: row.distance_km ?? undefined
+      }));
     } catch (error) {
       console.error('Error in getGigs:', error);
       throw error;
@@ -207,6 +161,7 @@ export class GigsService {
     genres?: string[];
     experience_level?: string;
     venue_name?: string;
+    venue_organization_id?: string | null;
     venue_address?: string;
     city: string;
     state_province?: string;
@@ -360,42 +315,106 @@ export class GigsService {
   }
 
   /**
-   * Get gigs near a location (basic city-based search for now)
+   * Get gigs a venue has posted or that are linked to it as their venue
    */
-  async getGigsNearLocation(
-    city: string,
-    radiusKm?: number,
-    limit: number = 20,
-    offset: number = 0
-  ): Promise<GigWithAuthor[]> {
+  async getGigsAtVenue(venueId: string, limit: number = 20): Promise<GigWithAuthor[]> {
     try {
-      let query = this.supabase
+      const { data, error } = await this.supabase
         .from('gigs')
         .select(`
           *,
           posted_by_user:posted_by_user_id(id, full_name, avatar_url),
           posted_by_organization:posted_by_organization_id(id, name, logo_url)
         `)
-        .eq('status', 'open')
-        .eq('is_published', true);
+        .or(`posted_by_organization_id.eq.${venueId},venue_organization_id.eq.${venueId}`)
+        .neq('status', 'draft')
+        .order('start_date', { ascending: false })
+        .limit(limit);
 
-      // For now, do a simple city match. Later this could be enhanced with geographic distance calculations
-      if (city) {
-        query = query.ilike('city', `%${city}%`);
+      if (error) {
+        logError('Error fetching venue gigs', error);
+        throw error;
       }
 
-      const { data, error } = await query
-        .order('created_at', { ascending: false })
-        .range(offset, offset + limit - 1);
+      return this.transformGigsData(data || []);
+    } catch (error) {
+      logError('Error in getGigsAtVenue', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the ids of gigs a user has applied to, leaving out withdrawn applications
+   */
+  async getAppliedGigIds(userId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('gig_applications')
+      .select('gig_id')
+      .eq('applicant_user_id', userId)
+      .neq('status', 'withdrawn');
+
+    if (error) {
+      logError('Error fetching applied gig ids', error);
+      return [];
+    }
+
+    return (data || []).map(application => application.gig_id);
+  }
+
+  /**
+   * Get open gigs within radiusKm of a point, nearest first
+   */
+  async getGigsNearLocation(
+    latitude: number,
+    longitude: number,
+    radiusKm: number,
+    filters: GigFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<GigWithAuthor[]> {
+    return this.getGigs(
+      { ...filters, nearLatitude: latitude, nearLongitude: longitude, radiusKm },
+      limit,
+      offset
+    );
+  }
+
+  /**
+   * Get open gigs within a musician's travel distance of their geocoded location
+   * Returns an empty list when the profile has no coordinates or travel distance yet
+   */
+  async getGigsWithinTravelDistance(
+    userId: string,
+    filters: GigFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<GigWithAuthor[]> {
+    try {
+      const { data: profile, error } = await this.supabase
+        .from('individual_profiles')
+        .select('latitude, longitude, travel_distance_km')
+        .eq('user_id', userId)
+        .maybeSingle();
 
       if (error) {
-        console.error('Error fetching gigs near location:', error);
+        logError('Error fetching travel distance', error);
         throw error;
       }
 
-      return this.transformGigsData(data || []);
+      if (profile?.latitude == null || profile?.longitude == null || !profile?.travel_distance_km) {
+        return [];
+      }
+
+      return this.getGigsNearLocation(
+        profile.latitude,
+        profile.longitude,
+        profile.travel_distance_km,
+        filters,
+        limit,
+        offset
+      );
     } catch (error) {
-      console.error('Error in getGigsNearLocation:', error);
+      logError('Error in getGigsWithinTravelDistance', error);
       throw error;
     }
   }
@@ -1,10 +1,13 @@
 import { createClient } from '@/lib/supabase/client';
+import { callRpc } from '@/lib/supabase/rpc';
 import { createClient as createServerClient } from '@/lib/supabase/server';
 import type { 
   Database, 
   IndividualProfile, 
+  IndividualProfileWithDistance,
   User
 } from '@/types/database';
+import { logError } from '@/lib/utils/log';
 
 type SupabaseClient = ReturnType<typeof createClient>;
 
@@ -136,6 +139,7 @@ export class IndividualProfilesService {
     location?: string;
     lookingForGigs?: boolean;
     availableForHire?: boolean;
+    openToWork?: boolean; // Either looking for gigs or available for hire
     verified?: boolean;
     limit?: number;
     offset?: number;
@@ -179,6 +183,10 @@ export class IndividualProfilesService {
         queryBuilder = queryBuilder.eq('available_for_hire', options.availableForHire);
       }
 
+      if (options.openToWork) {
+        queryBuilder = queryBuilder.or('looking_for_gigs.eq.true,available_for_hire.eq.true');
+      }
+
       if (options.verified !== undefined) {
         queryBuilder = queryBuilder.eq('verified', options.verified);
       }
@@ -204,6 +212,47 @@ export class IndividualProfilesService {
     }
   }
 
+  /**
+   * Find musicians near a point, nearest first
+   * Without radiusKm, only musicians whose own travel distance reaches the point are returned
+   */
+  async searchIndividualProfilesNear(options: {
+    latitude: number;
+    longitude: number;
+    radiusKm?: number;
+    instruments?: string[];
+    genres?: string[];
+    lookingForGigs?: boolean;
+    limit?: number;
+    offset?: number;
+  }): Promise<IndividualProfileWithDistance[]> {
+    try {
+      const { data, error } = await callRpc(this.supabase, 'search_musicians_near', {
+        p_latitude: options.latitude,
+        p_longitude: options.longitude,
+        p_radius_km: options.radiusKm ?? null,
+        p_instruments: options.instruments && options.instruments.length > 0 ? options.instruments : null,
+        p_genres: options.genres && options.genres.length > 0 ? options.genres : null,
+        p_looking_for_gigs: options.lookingForGigs ?? null,
+        p_limit: options.limit || 20,
+        p_offset: options.offset || 0
+      });
+
+      if (error) {
+        logError('Error searching individual profiles near location', error);
+        return [];
+      }
+
+      return (data || []).map(row => ({
+        ...row.profile,
+        distance_km: row.distance_km
+      }));
+    } catch (error) {
+      logError('Error in searchIndividualProfilesNear', error);
+      return [];
+    }
+  }
+
   /**
    * Delete individual profile
    */
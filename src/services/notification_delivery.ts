@@ -0,0 +1,343 @@
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { EmailMessage, EmailTransport } from '@/lib/email';
+import type { PushTransport } from '@/lib/push';
+import type { NotificationDelivery, PushSubscriptionRecord, UserNotification } from '@/types/database';
+import { logError } from '@/lib/utils/log';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export interface NotificationDeliverySummary {
+  claimed: number;
+  pushed: number;
+  emails_sent: number;
+  digests_sent: number;
+  skipped: number;
+  retried: number;
+  failed: number;
+  subscriptions_removed: number;
+}
+
+type ClaimedDelivery = NotificationDelivery & {
+  notification: Pick<UserNotification, 'id' | 'type' | 'title' | 'body' | 'link' | 'read_at' | 'created_at'> | null;
+  user: { id: string; email: string | null; full_name: string | null } | null;
+};
+
+// Upper bound per run; anything left over goes out with the next run
+const DELIVERY_BATCH_SIZE = 200;
+
+// Give up on a delivery after this many tries; retries back off 5, 10, 20, 40 minutes
+const MAX_ATTEMPTS = 5;
+
+export class NotificationDeliveryService {
+  private supabase: AdminClient;
+
+  constructor(supabase: AdminClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Send every push and email delivery that is due. Several emails due for the same person at
+   * once (an hourly or daily digest, or the end of quiet hours) go out as one digest email.
+   */
+  async deliverPending(push: PushTransport, email: EmailTransport): Promise<NotificationDeliverySummary> {
+    try {
+      const { data: claimed, error: claimError } = await this.supabase.rpc('claim_notification_deliveries', {
+        p_limit: DELIVERY_BATCH_SIZE
+      });
+
+      if (claimError) {
+        logError('Error claiming notification deliveries', claimError);
+        throw claimError;
+      }
+
+      const summary: NotificationDeliverySummary = {
+        claimed: (claimed || []).length,
+        pushed: 0,
+        emails_sent: 0,
+        digests_sent: 0,
+        skipped: 0,
+        retried: 0,
+        failed: 0,
+        subscriptions_removed: 0
+      };
+
+      if (summary.claimed === 0) return summary;
+
+      const { data, error } = await this.supabase
+        .from('notification_deliveries')
+        .select(`
+          *,
+          notification:notification_id(id, type, title, body, link, read_at, created_at),
+          user:user_id(id, email, full_name)
+        `)
+        .in('id', (claimed as NotificationDelivery[]).map(delivery => delivery.id));
+
+      if (error) {
+        logError('Error fetching claimed deliveries', error);
+        throw error;
+      }
+
+      const deliveries = (data || []) as unknown as ClaimedDelivery[];
+
+      // Nothing to send if the notification is gone or was already read in the app meanwhile
+      const due: ClaimedDelivery[] = [];
+      const skipped: ClaimedDelivery[] = [];
+      for (const delivery of deliveries) {
+        if (!delivery.notification || delivery.notification.read_at) {
+          skipped.push(delivery);
+        } else {
+          due.push(delivery);
+        }
+      }
+
+      await this.sendPush(push, due.filter(delivery => delivery.channel === 'push'), summary, skipped);
+      await this.sendEmail(email, due.filter(delivery => delivery.channel === 'email'), summary, skipped);
+
+      await this.markFinished(skipped, 'skipped');
+      summary.skipped = skipped.length;
+
+      return summary;
+    } catch (error) {
+      logError('Error in deliverPending', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Push each notification to every browser the recipient subscribed, dropping subscriptions
+   * the push service has forgotten
+   */
+  private async sendPush(
+    transport: PushTransport,
+    deliveries: ClaimedDelivery[],
+    summary: NotificationDeliverySummary,
+    skipped: ClaimedDelivery[]
+  ) {
+    if (deliveries.length === 0) return;
+
+    const { data, error } = await this.supabase
+      .from('push_subscriptions')
+      .select('*')
+      .in('user_id', Array.from(new Set(deliveries.map(delivery => delivery.user_id))));
+
+    if (error) {
+      logError('Error fetching push subscriptions', error);
+      await this.markRetry(deliveries, error.message, summary);
+      return;
+    }
+
+    const subscriptionsByUser = new Map<string, PushSubscriptionRecord[]>();
+    for (const subscription of (data || []) as PushSubscriptionRecord[]) {
+      subscriptionsByUser.set(subscription.user_id, [...(subscriptionsByUser.get(subscription.user_id) || []), subscription]);
+    }
+
+    for (const delivery of deliveries) {
+      const subscriptions = subscriptionsByUser.get(delivery.user_id) || [];
+      if (subscriptions.length === 0) {
+        skipped.push(delivery);
+        continue;
+      }
+
+      const notification = delivery.notification!;
+      const message = {
+        title: notification.title,
+        body: notification.body || undefined,
+        link: notification.link || '/notifications',
+        tag: notification.id
+      };
+
+      let delivered = false;
+      let lastError: string | null = null;
+
+      for (const subscription of subscriptions) {
+        try {
+          const result = await transport.send(subscription, message);
+
+          if (result === 'gone') {
+            await this.supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+            summary.subscriptions_removed += 1;
+          } else {
+            delivered = true;
+            await this.supabase
+              .from('push_subscriptions')
+              .update({ last_used_at: new Date().toISOString(), failure_count: 0 })
+              .eq('id', subscription.id);
+          }
+        } catch (sendError) {
+          logError('Error sending push notification', sendError);
+          lastError = sendError instanceof Error ? sendError.message : String(sendError);
+          await this.supabase
+            .from('push_subscriptions')
+            .update({ failure_count: subscription.failure_count + 1 })
+            .eq('id', subscription.id);
+        }
+      }
+
+      if (delivered) {
+        await this.markFinished([delivery], 'sent');
+        summary.pushed += 1;
+      } else if (lastError) {
+        await this.markRetry([delivery], lastError, summary);
+      } else {
+        // Every subscription was gone
+        skipped.push(delivery);
+      }
+    }
+  }
+
+  /**
+   * Email each recipient once: a single notification as-is, several as a digest
+   */
+  private async sendEmail(
+    transport: EmailTransport,
+    deliveries: ClaimedDelivery[],
+    summary: NotificationDeliverySummary,
+    skipped: ClaimedDelivery[]
+  ) {
+    const byUser = new Map<string, ClaimedDelivery[]>();
+    for (const delivery of deliveries) {
+      if (!delivery.user?.email) {
+        skipped.push(delivery);
+        continue;
+      }
+      byUser.set(delivery.user_id, [...(byUser.get(delivery.user_id) || []), delivery]);
+    }
+
+    for (const userDeliveries of byUser.values()) {
+      try {
+        await transport.send(this.buildEmail(userDeliveries));
+        await this.markFinished(userDeliveries, 'sent');
+
+        if (userDeliveries.length === 1) {
+          summary.emails_sent += 1;
+        } else {
+          summary.digests_sent += 1;
+        }
+      } catch (sendError) {
+        logError('Error sending notification email', sendError);
+        await this.markRetry(userDeliveries, sendError instanceof Error ? sendError.message : String(sendError), summary);
+      }
+    }
+  }
+
+  private async markFinished(deliveries: ClaimedDelivery[], status: 'sent' | 'skipped') {
+    if (deliveries.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('notification_deliveries')
+      .update({ status, sent_at: status === 'sent' ? new Date().toISOString() : null, last_error: null })
+      .in('id', deliveries.map(delivery => delivery.id));
+
+    if (error) {
+      logError(`Error marking deliveries ${status}`, error);
+    }
+  }
+
+  // Put deliveries back in the queue with exponential backoff, or give up after MAX_ATTEMPTS
+  private async markRetry(deliveries: ClaimedDelivery[], lastError: string, summary: NotificationDeliverySummary) {
+    for (const delivery of deliveries) {
+      const giveUp = delivery.attempts >= MAX_ATTEMPTS;
+      const retryAt = new Date(Date.now() + 5 * 60 * 1000 * 2 ** (delivery.attempts - 1));
+
+      const { error } = await this.supabase
+        .from('notification_deliveries')
+        .update(giveUp
+          ? { status: 'failed', last_error: lastError }
+          : { status: 'pending', last_error: lastError, deliver_after: retryAt.toISOString() })
+        .eq('id', delivery.id);
+
+      if (error) {
+        logError('Error rescheduling delivery', error);
+      }
+
+      if (giveUp) {
+        summary.failed += 1;
+      } else {
+        summary.retried += 1;
+      }
+    }
+  }
+
+  /**
+   * Build the plain text and HTML email for one recipient
+   */
+  private buildEmail(deliveries: ClaimedDelivery[]): EmailMessage {
+    const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+    const user = deliveries[0].user!;
+    const notifications = deliveries
+      .map(delivery => delivery.notification!)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    const url = (link: string | null) => `${appUrl}${link || '/notifications'}`;
+    const footerText = `Choose what we email you at ${appUrl}/profile/edit`;
+    const footerHtml = `<p style="color:#6b7280;font-size:12px"><a href="${appUrl}/profile/edit">Choose what we email you</a></p>`;
+
+    if (notifications.length === 1) {
+      const [notification] = notifications;
+      return {
+        to: user.email!,
+        subject: notification.title,
+        text: [
+          `Hi ${user.full_name || 'there'},`,
+          '',
+          notification.title,
+          ...(notification.body ? [notification.body] : []),
+          '',
+          url(notification.link),
+          '',
+          footerText
+        ].join('\n'),
+        html: `
+          <p>Hi ${escapeHtml(user.full_name || 'there')},</p>
+          <p><a href="${url(notification.link)}"><strong>${escapeHtml(notification.title)}</strong></a></p>
+          ${notification.body ? `<p>${escapeHtml(notification.body)}</p>` : ''}
+          ${footerHtml}
+        `
+      };
+    }
+
+    return {
+      to: user.email!,
+      subject: `${notifications.length} new notifications on Bookd`,
+      text: [
+        `Hi ${user.full_name || 'there'},`,
+        '',
+        `Here's what you missed:`,
+        '',
+        ...notifications.map(notification =>
+          `- ${notification.title}${notification.body ? `: ${notification.body}` : ''} (${url(notification.link)})`
+        ),
+        '',
+        `See everything at ${appUrl}/notifications`,
+        footerText
+      ].join('\n'),
+      html: `
+        <p>Hi ${escapeHtml(user.full_name || 'there')},</p>
+        <p>Here's what you missed:</p>
+        <ul>
+          ${notifications.map(notification => `
+            <li>
+              <a href="${url(notification.link)}">${escapeHtml(notification.title)}</a>
+              ${notification.body ? `<br /><span style="color:#4b5563">${escapeHtml(notification.body)}</span>` : ''}
+            </li>
+          `).join('')}
+        </ul>
+        <p><a href="${appUrl}/notifications">See all notifications</a></p>
+        ${footerHtml}
+      `
+    };
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Factory function for scheduled jobs (service role, bypasses RLS)
+export function createNotificationDeliveryService() {
+  return new NotificationDeliveryService(createAdminClient());
+}
@@ -1,10 +1,36 @@
 import type { 
   Database, 
-  PastPerformance
+  PastPerformance,
+  PerformanceCreditStatus,
+  PerformanceCreditWithParty,
+  CreditedPerformance
 } from '@/types/database';
+import { logError } from '@/lib/utils/log';
 
 type CreatePastPerformance = Database['public']['Tables']['past_performances']['Insert'];
 type UpdatePastPerformance = Database['public']['Tables']['past_performances']['Update'];
+type CreatePerformanceCredit = Omit<Database['public']['Tables']['performance_credits']['Insert'], 'added_by_user_id'>;
+
+// Identifies a credited party: a musician or an organization
+export type CreditedParty = { userId: string; organizationId?: never } | { organizationId: string; userId?: never };
+
+const CREDIT_PARTY_SELECT = `
+  *,
+  credited_user:credited_user_id(id, full_name, avatar_url),
+  credited_organization:credited_organization_id(id, name, logo_url)
+`;
+
+const CREDITED_PERFORMANCE_SELECT = `
+  *,
+  past_performance:past_performance_id(
+    *,
+    owner:user_id(user_id, stage_name, user:user_id(full_name))
+  ),
+  organization_performance:organization_performance_id(
+    *,
+    organization:organization_id(id, name, logo_url)
+  )
+`;
 
 // Generic Supabase client type that works for both client and server
 type SupabaseClient = any;
@@ -318,7 +344,171 @@ export class PerformancesService {
   }
 
   /**
-   * Get performance statistics for a user
+   * Get the lineup credits on a set of past and/or organization performances, in lineup order
+   */
+  async getPerformanceCredits(performances: {
+    pastPerformanceIds?: string[];
+    organizationPerformanceIds?: string[];
+  }): Promise<PerformanceCreditWithParty[]> {
+    try {
+      const { pastPerformanceIds = [], organizationPerformanceIds = [] } = performances;
+      if (pastPerformanceIds.length === 0 && organizationPerformanceIds.length === 0) return [];
+
+      const filters = [
+        pastPerformanceIds.length > 0 ? `past_performance_id.in.(${pastPerformanceIds.join(',')})` : null,
+        organizationPerformanceIds.length > 0 ? `organization_performance_id.in.(${organizationPerformanceIds.join(',')})` : null
+      ].filter(Boolean);
+
+      const { data, error } = await this.supabase
+        .from('performance_credits')
+        .select(CREDIT_PARTY_SELECT)
+        .or(filters.join(','))
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logError('Error fetching performance credits', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      logError('Error in getPerformanceCredits', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the performances a musician or organization is credited on, most recent first
+   */
+  async getCreditedPerformances(
+    party: CreditedParty,
+    status: PerformanceCreditStatus = 'confirmed'
+  ): Promise<CreditedPerformance[]> {
+    try {
+      let query = this.supabase
+        .from('performance_credits')
+        .select(CREDITED_PERFORMANCE_SELECT)
+        .eq('status', status);
+
+      query = party.userId
+        ? query.eq('credited_user_id', party.userId)
+        : query.eq('credited_organization_id', party.organizationId);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) {
+        logError('Error fetching credited performances', error);
+        return [];
+      }
+
+      const credits = (data || []) as CreditedPerformance[];
+      const dateOf = (credit: CreditedPerformance) =>
+        credit.past_performance?.performance_date || credit.organization_performance?.performance_date || '';
+      return credits.sort((a, b) => dateOf(b).localeCompare(dateOf(a)));
+    } catch (error) {
+      logError('Error in getCreditedPerformances', error);
+      return [];
+    }
+  }
+
+  /**
+   * Credit a musician or organization on a performance; it stays pending until they confirm
+   */
+  async addPerformanceCredit(credit: CreatePerformanceCredit): Promise<PerformanceCreditWithParty | null> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await this.supabase
+        .from('performance_credits')
+        .insert([{ ...credit, added_by_user_id: user.id }])
+        .select(CREDIT_PARTY_SELECT)
+        .single();
+
+      if (error) {
+        logError('Error adding performance credit', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      logError('Error in addPerformanceCredit', error);
+      return null;
+    }
+  }
+
+  /**
+   * Change the role on a credit (performance owner only)
+   */
+  async updatePerformanceCreditRole(creditId: string, role: string | null): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('performance_credits')
+        .update({ role })
+        .eq('id', creditId);
+
+      if (error) {
+        logError('Error updating performance credit', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in updatePerformanceCreditRole', error);
+      return false;
+    }
+  }
+
+  /**
+   * Confirm or decline a credit (the credited musician, or an admin of the credited organization)
+   */
+  async respondToPerformanceCredit(
+    creditId: string,
+    status: Exclude<PerformanceCreditStatus, 'pending'>
+  ): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('performance_credits')
+        .update({ status })
+        .eq('id', creditId);
+
+      if (error) {
+        logError('Error responding to performance credit', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in respondToPerformanceCredit', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a credit (either the performance owner or the credited party)
+   */
+  async removePerformanceCredit(creditId: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from('performance_credits')
+        .delete()
+        .eq('id', creditId);
+
+      if (error) {
+        logError('Error removing performance credit', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      logError('Error in removePerformanceCredit', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get performance statistics for a user, counting confirmed credits on other people's performances
    */
   async getPerformanceStats(userId: string): Promise<{
     totalPerformances: number;
@@ -327,7 +517,20 @@ export class PerformancesService {
     venueCount: number;
   }> {
     try {
-      const performances = await this.getPastPerformances(userId);
+      const [ownPerformances, credits] = await Promise.all([
+        this.getPastPerformances(userId),
+        this.getCreditedPerformances({ userId })
+      ]);
+
+      // Credited performances count the same as the musician's own entries
+      const performances: Pick<PastPerformance, 'venue' | 'genre' | 'performance_date'>[] = [
+        ...ownPerformances,
+        ...credits.map(credit => ({
+          venue: credit.past_performance?.venue ?? credit.organization_performance?.venue ?? null,
+          genre: credit.past_performance?.genre ?? null,
+          performance_date: credit.past_performance?.performance_date ?? credit.organization_performance?.performance_date ?? null
+        }))
+      ];
 
       const stats = {
         totalPerformances: performances.length,
@@ -365,4 +568,4 @@ export class PerformancesService {
   }
 }
 
-export type { CreatePastPerformance, UpdatePastPerformance };
+export type { CreatePastPerformance, UpdatePastPerformance, CreatePerformanceCredit };
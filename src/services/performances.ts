@@ -4,7 +4,7 @@ import { PerformancesService } from '@/services/performances-base';
 
 // Re-export the service class and types
 export { PerformancesService } from '@/services/performances-base';
-export type { CreatePastPerformance, UpdatePastPerformance } from '@/services/performances-base';
+export type { CreatePastPerformance, UpdatePastPerformance, CreatePerformanceCredit, CreditedParty } from '@/services/performances-base';
 
 // Factory functions for different contexts
 export function createPerformancesService(): PerformancesService {
@@ -0,0 +1,176 @@
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { EmailMessage, EmailTransport } from '@/lib/email';
+import { logError } from '@/lib/utils/log';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+export interface SavedSearchDigestSummary {
+  new_matches: number;
+  users_emailed: number;
+  matches_emailed: number;
+  failures: number;
+}
+
+interface DigestMatch {
+  id: string;
+  gig: { id: string; title: string; city: string; state_province: string | null; start_date: string };
+  saved_search: {
+    id: string;
+    name: string;
+    user: { id: string; email: string; full_name: string | null };
+  };
+}
+
+// Upper bound per run; anything left over goes out with the next run
+const DIGEST_BATCH_SIZE = 1000;
+
+export class SavedSearchDigestService {
+  private supabase: AdminClient;
+
+  constructor(supabase: AdminClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Record new matches for every saved search, then email each user with digest-enabled searches
+   * the matches they haven't seen or been sent yet
+   */
+  async sendDailyDigests(transport: EmailTransport): Promise<SavedSearchDigestSummary> {
+    try {
+      const { data: newMatches, error: refreshError } = await this.supabase.rpc('refresh_saved_search_matches');
+
+      if (refreshError) {
+        logError('Error refreshing saved search matches', refreshError);
+        throw refreshError;
+      }
+
+      const { data, error } = await this.supabase
+        .from('saved_search_matches')
+        .select(`
+          id,
+          gig:gig_id!inner(id, title, city, state_province, start_date),
+          saved_search:saved_search_id!inner(id, name, email_digest, user:user_id(id, email, full_name))
+        `)
+        .is('seen_at', null)
+        .is('emailed_at', null)
+        .eq('saved_search.email_digest', true)
+        // Gigs hidden by a moderator after they matched stay out of the digest
+        .is('gig.hidden_at', null)
+        .order('created_at', { ascending: true })
+        .limit(DIGEST_BATCH_SIZE);
+
+      if (error) {
+        logError('Error fetching digest matches', error);
+        throw error;
+      }
+
+      // One email per user, grouped by saved search
+      const byUser = new Map<string, DigestMatch[]>();
+      for (const match of (data || []) as unknown as DigestMatch[]) {
+        if (!match.gig || !match.saved_search?.user?.email) continue;
+        const userId = match.saved_search.user.id;
+        byUser.set(userId, [...(byUser.get(userId) || []), match]);
+      }
+
+      const summary: SavedSearchDigestSummary = {
+        new_matches: newMatches || 0,
+        users_emailed: 0,
+        matches_emailed: 0,
+        failures: 0
+      };
+
+      for (const matches of byUser.values()) {
+        try {
+          await transport.send(this.buildDigest(matches));
+
+          const { error: updateError } = await this.supabase
+            .from('saved_search_matches')
+            .update({ emailed_at: new Date().toISOString() })
+            .in('id', matches.map(match => match.id));
+
+          if (updateError) {
+            logError('Error marking digest matches emailed', updateError);
+          }
+
+          summary.users_emailed += 1;
+          summary.matches_emailed += matches.length;
+        } catch (sendError) {
+          logError('Error sending saved search digest', sendError);
+          summary.failures += 1;
+        }
+      }
+
+      return summary;
+    } catch (error) {
+      logError('Error in sendDailyDigests', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the plain text and HTML digest for one user
+   */
+  private buildDigest(matches: DigestMatch[]): EmailMessage {
+    const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+    const user = matches[0].saved_search.user;
+
+    const searches = new Map<string, { name: string; matches: DigestMatch[] }>();
+    for (const match of matches) {
+      const entry = searches.get(match.saved_search.id) || { name: match.saved_search.name, matches: [] };
+      entry.matches.push(match);
+      searches.set(match.saved_search.id, entry);
+    }
+
+    const describe = (match: DigestMatch) => {
+      const location = [match.gig.city, match.gig.state_province].filter(Boolean).join(', ');
+      return `${location} · ${new Date(`${match.gig.start_date}T00:00:00`).toLocaleDateString('en-US')}`;
+    };
+
+    const text = [
+      `Hi ${user.full_name || 'there'},`,
+      '',
+      `${matches.length} new gig${matches.length === 1 ? '' : 's'} matched your saved searches:`,
+      ...Array.from(searches.values()).flatMap(search => [
+        '',
+        `${search.name}`,
+        ...search.matches.map(match => `- ${match.gig.title} (${describe(match)}): ${appUrl}/gigs/${match.gig.id}`)
+      ]),
+      '',
+      `Manage your saved searches at ${appUrl}/gigs`
+    ].join('\n');
+
+    const html = `
+      <p>Hi ${escapeHtml(user.full_name || 'there')},</p>
+      <p>${matches.length} new gig${matches.length === 1 ? '' : 's'} matched your saved searches:</p>
+      ${Array.from(searches.values()).map(search => `
+        <h3>${escapeHtml(search.name)}</h3>
+        <ul>
+          ${search.matches.map(match => `
+            <li><a href="${appUrl}/gigs/${match.gig.id}">${escapeHtml(match.gig.title)}</a> – ${escapeHtml(describe(match))}</li>
+          `).join('')}
+        </ul>
+      `).join('')}
+      <p><a href="${appUrl}/gigs">Manage your saved searches</a></p>
+    `;
+
+    return {
+      to: user.email,
+      subject: `${matches.length} new gig${matches.length === 1 ? '' : 's'} for your saved searches`,
+      text,
+      html
+    };
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Factory function for scheduled jobs (service role, bypasses RLS)
+export function createSavedSearchDigestService() {
+  return new SavedSearchDigestService(createAdminClient());
+}
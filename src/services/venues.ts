@@ -0,0 +1,12 @@
+import { createClient as createServerClient } from '@/lib/supabase/server';
+import { VenuesService } from '@/services/client/venues';
+
+// Re-export the service class and types
+export { VenuesService } from '@/services/client/venues';
+export type { VenuePerformance, VenueSuggestion } from '@/services/client/venues';
+
+// Factory function for server components and route handlers
+export async function createServerVenuesService(): Promise<VenuesService> {
+  const supabase = await createServerClient();
+  return new VenuesService(supabase);
+}
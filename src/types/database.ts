@@ -9,6 +9,7 @@ export interface User {
   google_id: string | null;
   account_type?: 'artist' | 'organization';
   active_organization_id?: string | null;
+  suspended_until?: string | null; // ISO timestamp; set by moderators
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
@@ -22,6 +23,8 @@ export interface IndividualProfile {
   bio: string | null;
   headliner: string | null;
   location: string | null;
+  latitude: number | null; // Decimal, geocoded from location
+  longitude: number | null; // Decimal, geocoded from location
   website_url: string | null;
   
   // Professional information
@@ -48,7 +51,7 @@ export interface IndividualProfile {
   average_rating: number; // Decimal
   
   // Availability calendar
-  availability: Record<string, any>; // JSONB
+  availability: Availability; // JSONB, recurring weekly hours (see availability_blackouts for time off)
   
   // Profile completion and verification
   profile_complete: boolean;
@@ -60,6 +63,35 @@ export interface IndividualProfile {
   updated_at: string; // ISO timestamp
 }
 
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday, matching Date.getDay()
+
+export interface WeeklySlot {
+  day: Weekday;
+  start: string; // Local time, HH:MM
+  end: string; // Local time, HH:MM (24:00 for midnight), after start
+}
+
+export interface Availability {
+  timezone?: string | null; // IANA zone name, e.g. America/New_York
+  weekly?: WeeklySlot[];
+}
+
+export interface AvailabilityBlackout {
+  id: string; // UUID
+  user_id: string; // UUID, FK to users
+  starts_on: string; // Date
+  ends_on: string; // Date, inclusive
+  start_time: string | null; // Time on starts_on; null for the whole day
+  end_time: string | null; // Time on ends_on; null for the whole day
+  note: string | null;
+  import_id: string | null; // UUID, FK to calendar_imports; null when added by hand
+  external_uid: string | null; // Key of the imported busy period within its import
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type AvailabilityStatus = 'free' | 'unscheduled' | 'outside_hours' | 'blackout' | 'booked';
+
 export interface FeaturedPerformance {
   id: string; // UUID
   user_id: string; // UUID, FK to individual_profiles.user_id
@@ -108,6 +140,7 @@ export interface PastPerformance {
   // Performance details
   title: string;
   venue: string | null;
+  venue_organization_id: string | null; // UUID, FK to organization_profiles (a venue)
   role: string | null;
   performance_date: string | null; // ISO date
   description: string | null;
@@ -201,7 +234,7 @@ export interface OrganizationProfile {
   
   // Availability and scheduling
   operating_hours: Record<string, any>; // JSONB
-  availability: Record<string, any>; // JSONB
+  availability: Availability; // JSONB
   
   // Timestamps
   created_at: string; // ISO timestamp
@@ -214,11 +247,46 @@ export interface OrganizationPerformance {
   title: string;
   performance_date: string | null; // ISO date
   venue: string | null;
+  venue_organization_id: string | null; // UUID, FK to organization_profiles (a venue)
   description: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type PerformanceCreditStatus = 'pending' | 'confirmed' | 'declined';
+
+// A musician or organization credited on someone else's past or organization performance
+export interface PerformanceCredit {
+  id: string; // UUID
+  past_performance_id: string | null; // UUID, FK to past_performances
+  organization_performance_id: string | null; // UUID, FK to organization_performances
+  credited_user_id: string | null; // UUID, FK to users
+  credited_organization_id: string | null; // UUID, FK to organization_profiles
+  role: string | null; // e.g. 'Principal Cello', 'Sound Engineer'
+  position: number; // Lineup order, 0 first
+  status: PerformanceCreditStatus;
+  added_by_user_id: string | null; // UUID, FK to users
+  responded_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type VenueLinkSourceType = 'past_performance' | 'organization_performance' | 'gig';
+export type VenueLinkSuggestionStatus = 'pending' | 'accepted' | 'dismissed';
+
+// A fuzzy match between a row's free-text venue and a venue organization, awaiting the owner's review
+export interface VenueLinkSuggestion {
+  id: string; // UUID
+  source_type: VenueLinkSourceType;
+  source_id: string; // UUID of the past performance, organization performance or gig
+  venue_text: string; // The venue as typed when matched
+  venue_organization_id: string; // UUID, FK to organization_profiles
+  similarity: number; // Trigram similarity, 0-1
+  status: VenueLinkSuggestionStatus;
+  resolved_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+}
+
 export type AdminRole = 'owner' | 'admin' | 'manager' | 'editor';
 
 export interface OrgAdmin {
@@ -300,6 +368,7 @@ export interface Post {
   flagged_reason: string | null;
   moderator_id: string | null; // UUID, FK to users
   moderated_at: string | null; // ISO timestamp
+  hidden_at: string | null; // ISO timestamp; hidden by a moderator, visible to the author only
   
   // Post status
   is_published: boolean;
@@ -342,6 +411,7 @@ export interface Gig {
   
   // Location and venue information
   venue_name: string | null;
+  venue_organization_id: string | null; // UUID, FK to organization_profiles (a venue)
   venue_address: string | null;
   city: string;
   state_province: string | null;
@@ -393,6 +463,9 @@ export interface Gig {
   max_applications: number | null;
   featured: boolean;
   urgent: boolean;
+  cancellation_reason: string | null;
+  cancelled_at: string | null; // ISO timestamp
+  closed_at: string | null; // ISO timestamp
   
   // Additional details
   special_requirements: string | null;
@@ -411,6 +484,7 @@ export interface Gig {
   flagged_reason: string | null;
   moderator_id: string | null; // UUID, FK to users
   moderated_at: string | null; // ISO timestamp
+  hidden_at: string | null; // ISO timestamp; hidden by a moderator, visible to the poster only
   
   // Timestamps
   created_at: string; // ISO timestamp
@@ -419,6 +493,489 @@ export interface Gig {
   expires_at: string | null; // ISO timestamp
 }
 
+export type GigApplicationStatus = 'submitted' | 'shortlisted' | 'rejected' | 'hired' | 'withdrawn';
+
+export interface GigApplication {
+  id: string; // UUID
+  gig_id: string; // UUID, FK to gigs
+  applicant_user_id: string; // UUID, FK to users
+  
+  // Application content
+  message: string | null;
+  portfolio_urls: string[] | null;
+  
+  // Application status
+  status: GigApplicationStatus;
+  status_changed_at: string; // ISO timestamp
+  withdrawn_at: string | null; // ISO timestamp
+  reviewed_at: string | null; // ISO timestamp, set when the poster shortlists, rejects or hires
+  
+  // Timestamps
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export interface GigApplicationNote {
+  id: string; // UUID
+  application_id: string; // UUID, FK to gig_applications
+  author_user_id: string; // UUID, FK to users
+  note: string;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+// Superseded by application threads (messages in 'application' conversations); kept for history
+export interface GigApplicationMessage {
+  id: string; // UUID
+  application_id: string; // UUID, FK to gig_applications
+  sender_user_id: string; // UUID, FK to users
+  body: string;
+  read_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+}
+
+export type GigInvitationStatus = 'pending' | 'applied' | 'declined';
+
+export interface GigInvitation {
+  id: string; // UUID
+  gig_id: string; // UUID, FK to gigs
+  invited_user_id: string; // UUID, FK to users
+  invited_by_user_id: string | null; // UUID, FK to users
+  message: string | null;
+  status: GigInvitationStatus;
+  responded_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type BookingRequestStatus = 'pending' | 'countered' | 'accepted' | 'declined' | 'cancelled';
+export type BookingSide = 'musician' | 'requester';
+export type BookingAction = 'accept' | 'decline' | 'counter' | 'cancel';
+
+// Terms shared by booking requests, their revisions and engagements
+export interface BookingTerms {
+  title: string;
+  event_date: string; // Date
+  start_time: string | null; // Time
+  end_time: string | null; // Time
+  venue_name: string | null;
+  venue_address: string | null;
+  city: string | null;
+  fee_amount: number | null; // Decimal
+  currency: string;
+  pay_rate_type: PayRateType | null;
+  terms: string | null;
+}
+
+export interface BookingRequest extends BookingTerms {
+  id: string; // UUID
+  requester_user_id: string; // UUID, FK to users
+  requester_organization_id: string | null; // UUID, FK to organization_profiles
+  musician_user_id: string; // UUID, FK to users
+  message: string | null; // Note from whoever proposed the current terms
+  status: BookingRequestStatus;
+  awaiting_response_from: BookingSide;
+  current_revision: number;
+  responded_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export interface BookingRequestRevision extends BookingTerms {
+  id: string; // UUID
+  booking_request_id: string; // UUID, FK to booking_requests
+  proposed_by_user_id: string | null; // UUID, FK to users
+  proposed_by: BookingSide;
+  revision_number: number;
+  message: string | null;
+  created_at: string; // ISO timestamp
+}
+
+export type EngagementStatus = 'confirmed' | 'cancelled';
+
+export interface Engagement extends BookingTerms {
+  id: string; // UUID
+  booking_request_id: string; // UUID, FK to booking_requests
+  musician_user_id: string; // UUID, FK to users
+  organizer_user_id: string; // UUID, FK to users
+  organization_id: string | null; // UUID, FK to organization_profiles
+  status: EngagementStatus;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type ScheduleCommitmentKind = 'engagement' | 'gig' | 'rehearsal' | 'blackout';
+
+// A row from get_schedule_commitments
+export interface ScheduleCommitment {
+  kind: ScheduleCommitmentKind;
+  source_id: string | null; // UUID; null on someone else's engagements and gigs
+  title: string | null; // Null on someone else's engagements and gigs; a blackout's note
+  starts_on: string; // Date
+  ends_on: string; // Date, inclusive
+  start_time: string | null; // Time
+  end_time: string | null; // Time
+  latitude: number | null; // Venue of the musician's own in-person gigs
+  longitude: number | null;
+}
+
+export interface CalendarFeed {
+  id: string; // UUID
+  user_id: string; // UUID, FK to users
+  token: string; // Secret part of /api/calendar/<token>.ics
+  last_accessed_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export interface CalendarImport {
+  id: string; // UUID
+  user_id: string; // UUID, FK to users
+  source_key: string; // The feed URL, or 'file:' + the uploaded file name
+  name: string;
+  source_url: string | null; // Set for feeds, which can be refreshed
+  last_imported_at: string | null; // ISO timestamp
+  blackout_count: number;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type EventType = 'concert' | 'recital' | 'opera' | 'musical_theater' | 'jazz' | 'chamber' | 'orchestra' | 'solo' | 'open_mic' | 'festival' | 'other';
+export type EventStatus = 'scheduled' | 'cancelled';
+
+// A row in events (named to avoid clashing with the DOM Event type)
+export interface EventListing {
+  id: string; // UUID
+  created_by_user_id: string; // UUID, FK to users
+  organization_id: string | null; // UUID, FK to organization_profiles; the hosting organization
+
+  // Basic event information
+  title: string;
+  description: string | null;
+  event_type: EventType | null;
+  genres: string[] | null;
+  image_url: string | null;
+
+  // Venue
+  venue_name: string | null;
+  venue_organization_id: string | null; // UUID, FK to organization_profiles
+  venue_address: string | null;
+  city: string | null;
+  state_province: string | null;
+  country: string | null;
+  latitude: number | null; // Decimal
+  longitude: number | null; // Decimal
+
+  // Date and time
+  starts_at: string; // ISO timestamp
+  ends_at: string | null; // ISO timestamp
+  timezone: string; // IANA zone of the venue; times are shown in it
+
+  // Tickets
+  ticket_url: string | null;
+  price_min: number | null; // Decimal
+  price_max: number | null; // Decimal
+  currency: string;
+  capacity: number | null;
+
+  // RSVP counts (maintained by triggers)
+  going_count: number;
+  interested_count: number;
+
+  // Event status
+  status: EventStatus;
+  cancellation_reason: string | null;
+
+  // Timestamps
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export interface EventPerformer {
+  id: string; // UUID
+  event_id: string; // UUID, FK to events
+  performer_user_id: string | null; // UUID, FK to users
+  performer_organization_id: string | null; // UUID, FK to organization_profiles
+  name: string;
+  role: string | null;
+  position: number; // Billing order, 0 first
+  created_at: string; // ISO timestamp
+}
+
+export type EventRsvpStatus = 'going' | 'interested';
+
+export interface EventRsvp {
+  id: string; // UUID
+  event_id: string; // UUID, FK to events
+  user_id: string; // UUID, FK to users
+  status: EventRsvpStatus;
+  reminder_sent_at: string | null; // ISO timestamp, set once the day-before reminder is written
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+// Kinds of notification written by triggers and jobs
+export type UserNotificationType =
+  | 'new_follower'
+  | 'post_like'
+  | 'post_comment'
+  | 'comment_reply'
+  | 'followed_post'
+  | 'followed_gig'
+  | 'followed_event'
+  | 'gig_updated'
+  | 'gig_application'
+  | 'application_status'
+  | 'event_reminder'
+  | 'performance_credit'
+  | 'new_message'
+  | 'moderation_notice'
+  | 'report_update';
+
+// A persistent in-app notification (named to avoid clashing with the DOM Notification type)
+export interface UserNotification {
+  id: string; // UUID
+  user_id: string; // UUID, FK to users (the recipient)
+  type: string; // Usually a UserNotificationType; stored as text so older clients render new kinds
+  title: string;
+  body: string | null;
+  link: string | null; // In-app path to open
+  data: Record<string, unknown>; // JSONB
+  actor_user_id: string | null; // UUID, FK to users; whose action caused it
+  in_app: boolean; // False when the recipient had this type switched off in-app (push/email only)
+  read_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+}
+
+// Where a notification can reach someone
+export type NotificationChannel = 'in_app' | 'push' | 'email';
+
+export type NotificationDigestFrequency = 'immediate' | 'hourly' | 'daily';
+
+// One cell of a user's type x channel matrix; missing cells use the defaults
+export interface NotificationChannelPreference {
+  id: string; // UUID
+  user_id: string; // UUID, FK to users
+  notification_type: string; // A UserNotificationType
+  channel: NotificationChannel;
+  enabled: boolean;
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+// Quiet hours and email batching (no row means deliver immediately, any time)
+export interface NotificationSettings {
+  user_id: string; // UUID, PK and FK to users
+  quiet_hours_start: string | null; // Local time "HH:MM:SS"
+  quiet_hours_end: string | null; // Local time "HH:MM:SS"; may be earlier than start to wrap midnight
+  timezone: string; // IANA name, e.g. 'America/Chicago'
+  digest_frequency: NotificationDigestFrequency; // Email only
+  daily_digest_time: string; // Local time "HH:MM:SS" for daily digests
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+// A browser that accepted Web Push (named to avoid clashing with the DOM PushSubscription type)
+export interface PushSubscriptionRecord {
+  id: string; // UUID
+  user_id: string; // UUID, FK to users
+  endpoint: string;
+  p256dh: string; // base64url
+  auth: string; // base64url
+  user_agent: string | null;
+  failure_count: number;
+  last_used_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type ConversationKind = 'direct' | 'group' | 'organization' | 'application';
+
+// A direct message thread (one-to-one, a small group, a member talking to an organization, or
+// an applicant talking to a gig's poster)
+export interface Conversation {
+  id: string; // UUID
+  kind: ConversationKind;
+  title: string | null; // Groups only
+  organization_id: string | null; // UUID, FK to organization_profiles; 'organization' threads
+  gig_application_id: string | null; // UUID, FK to gig_applications; 'application' threads
+  created_by: string | null; // UUID, FK to users
+  direct_key: string | null; // Dedupe key for one-to-one and organization threads
+  last_message_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export interface ConversationParticipant {
+  id: string; // UUID
+  conversation_id: string; // UUID, FK to conversations
+  user_id: string; // UUID, FK to users
+  role: 'owner' | 'member';
+  last_read_at: string | null; // ISO timestamp; read receipts
+  left_at: string | null; // ISO timestamp; set when leaving a group
+  joined_at: string; // ISO timestamp
+}
+
+// Cloudinary upload metadata stored on a message
+export interface MessageAttachment {
+  url: string; // secure_url
+  public_id: string;
+  resource_type: string; // 'image', 'video' or 'raw'
+  format: string | null;
+  bytes: number;
+  original_filename: string;
+  width?: number;
+  height?: number;
+}
+
+export type MessageKind = 'user' | 'system';
+
+export interface Message {
+  id: string; // UUID
+  conversation_id: string; // UUID, FK to conversations
+  sender_user_id: string | null; // UUID, FK to users; null for system messages
+  kind: MessageKind;
+  system_event: string | null; // System messages: 'applied' or the application's new status
+  body: string;
+  attachments: MessageAttachment[]; // JSONB
+  edited_at: string | null; // ISO timestamp
+  deleted_at: string | null; // ISO timestamp; soft delete clears body and attachments
+  created_at: string; // ISO timestamp
+}
+
+// Reusable text posters can drop into application threads
+export interface MessageTemplate {
+  id: string; // UUID
+  user_id: string; // UUID, FK to users
+  title: string;
+  body: string; // May use {first_name}, {applicant_name}, {gig_title}, {gig_date}
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export type ReportTargetType = 'user' | 'post' | 'comment' | 'gig' | 'message';
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'inappropriate' | 'impersonation' | 'scam' | 'other';
+export type ReportStatus = 'open' | 'reviewing' | 'actioned' | 'dismissed';
+export type ReportOutcome = 'no_violation' | 'content_hidden' | 'content_removed' | 'author_warned' | 'author_suspended';
+
+// A report of a user or something they wrote, filed through report_content
+export interface Report {
+  id: string; // UUID
+  reporter_user_id: string | null; // UUID, FK to users
+  target_type: ReportTargetType;
+  target_id: string; // UUID of the user, post, comment, gig or message
+  reported_user_id: string | null; // UUID, FK to users; who is behind the target
+  content_snapshot: string | null; // The reported text when the report was filed
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  outcome: ReportOutcome | null; // Set with status once a moderator decides
+  moderation_action_id: string | null; // UUID, FK to moderation_actions
+  resolved_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+// A user who can work the moderation queue (granted by the service role)
+export interface PlatformAdmin {
+  user_id: string; // UUID, PK and FK to users
+  granted_by: string | null; // UUID, FK to users
+  created_at: string; // ISO timestamp
+}
+
+export type ModerationContentAction = 'dismiss' | 'hide' | 'delete';
+export type ModerationAuthorAction = 'warn' | 'suspend';
+export type ModerationActionType = ModerationContentAction | ModerationAuthorAction | 'unsuspend';
+
+// One entry in the moderation audit log, written by moderate_content and lift_suspension
+export interface ModerationAction {
+  id: string; // UUID
+  moderator_user_id: string | null; // UUID, FK to users
+  target_type: ReportTargetType;
+  target_id: string; // UUID of the user, post, comment, gig or message
+  subject_user_id: string | null; // UUID, FK to users; the author of the target
+  content_snapshot: string | null; // The text when the action was taken
+  action: ModerationActionType;
+  note: string | null; // Shown to the author
+  suspended_until: string | null; // ISO timestamp; 'suspend' only
+  created_at: string; // ISO timestamp
+}
+
+export interface ModerationActionWithUsers extends ModerationAction {
+  moderator: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null;
+  subject: Pick<User, 'id' | 'full_name' | 'avatar_url' | 'suspended_until'> | null;
+}
+
+// A row of get_moderation_queue: one piece of content with everything reported or flagged about it
+export interface ModerationQueueItem {
+  target_type: ReportTargetType;
+  target_id: string; // UUID
+  author_user_id: string | null; // UUID, FK to users
+  author_name: string | null;
+  author_avatar_url: string | null;
+  author_suspended_until: string | null; // ISO timestamp
+  author_prior_actions: number; // Earlier hides, deletions, warnings and suspensions
+  content: string | null; // Current text, or the last report's snapshot once it is gone
+  context: string | null; // The post under a comment, the messages before a message, a user's bio
+  is_hidden: boolean;
+  is_removed: boolean; // Deleted since it was reported
+  flagged_reason: string | null;
+  report_count: number;
+  report_reasons: ReportReason[];
+  report_details: string[];
+  first_flagged_at: string | null; // ISO timestamp
+}
+
+export type NotificationDeliveryStatus = 'pending' | 'sending' | 'sent' | 'skipped' | 'failed';
+
+// A queued push or email for one notification
+export interface NotificationDelivery {
+  id: string; // UUID
+  notification_id: string; // UUID, FK to notifications
+  user_id: string; // UUID, FK to users
+  channel: Exclude<NotificationChannel, 'in_app'>;
+  status: NotificationDeliveryStatus;
+  deliver_after: string; // ISO timestamp; pushed back by quiet hours and digests
+  attempts: number;
+  last_error: string | null;
+  claimed_at: string | null; // ISO timestamp
+  sent_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+}
+
+export type GigStatusAuditReason = 'application_deadline' | 'expires_at' | 'end_date' | 'manual';
+
+export interface GigStatusAudit {
+  id: string; // UUID
+  gig_id: string; // UUID, FK to gigs
+  changed_by_user_id: string | null; // UUID, FK to users (null for automated changes)
+  previous_status: GigStatus;
+  new_status: GigStatus;
+  reason: GigStatusAuditReason;
+  created_at: string; // ISO timestamp
+}
+
+export interface SavedSearch {
+  id: string; // UUID
+  user_id: string; // UUID, FK to users
+  name: string;
+  filters: Record<string, unknown>; // JSONB, same shape as GigFilters
+  email_digest: boolean;
+  last_checked_at: string; // ISO timestamp
+  last_viewed_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export interface SavedSearchMatch {
+  id: string; // UUID
+  saved_search_id: string; // UUID, FK to saved_searches
+  gig_id: string; // UUID, FK to gigs
+  seen_at: string | null; // ISO timestamp
+  emailed_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+}
+
 export type ReactionType = 'like' | 'love' | 'laugh' | 'wow' | 'sad' | 'angry';
 
 export interface PostLike {
@@ -443,6 +1000,7 @@ export interface PostComment {
   flagged_reason: string | null;
   moderator_id: string | null; // UUID, FK to users
   moderated_at: string | null; // ISO timestamp
+  hidden_at: string | null; // ISO timestamp; hidden by a moderator, visible to the author only
   is_deleted: boolean;
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
@@ -499,9 +1057,169 @@ export interface Database {
       };
       gigs: {
         Row: Gig;
-        Insert: Omit<Gig, 'id' | 'created_at' | 'updated_at' | 'applications_count'>;
+        Insert: Omit<Gig, 'id' | 'created_at' | 'updated_at' | 'applications_count' | 'venue_organization_id'> &
+          Partial<Pick<Gig, 'venue_organization_id'>>;
         Update: Partial<Omit<Gig, 'id' | 'created_at' | 'updated_at'>>;
       };
+      gig_applications: {
+        Row: GigApplication;
+        Insert: Omit<GigApplication, 'id' | 'created_at' | 'updated_at' | 'status_changed_at' | 'withdrawn_at' | 'reviewed_at'>;
+        Update: Partial<Omit<GigApplication, 'id' | 'gig_id' | 'applicant_user_id' | 'created_at' | 'updated_at'>>;
+      };
+      gig_application_notes: {
+        Row: GigApplicationNote;
+        Insert: Omit<GigApplicationNote, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Pick<GigApplicationNote, 'note'>>;
+      };
+      gig_status_audit: {
+        Row: GigStatusAudit;
+        Insert: Omit<GigStatusAudit, 'id' | 'created_at'>;
+        Update: Partial<Omit<GigStatusAudit, 'id' | 'created_at'>>;
+      };
+      saved_searches: {
+        Row: SavedSearch;
+        Insert: Omit<SavedSearch, 'id' | 'created_at' | 'updated_at' | 'last_checked_at' | 'last_viewed_at'>;
+        Update: Partial<Pick<SavedSearch, 'name' | 'filters' | 'email_digest' | 'last_viewed_at'>>;
+      };
+      saved_search_matches: {
+        Row: SavedSearchMatch;
+        Insert: Pick<SavedSearchMatch, 'saved_search_id' | 'gig_id'>;
+        Update: Partial<Pick<SavedSearchMatch, 'seen_at' | 'emailed_at'>>;
+      };
+      gig_application_messages: {
+        Row: GigApplicationMessage;
+        Insert: Omit<GigApplicationMessage, 'id' | 'created_at' | 'read_at'>;
+        Update: Partial<Pick<GigApplicationMessage, 'read_at'>>;
+      };
+      gig_invitations: {
+        Row: GigInvitation;
+        Insert: Pick<GigInvitation, 'gig_id' | 'invited_user_id' | 'invited_by_user_id' | 'message'>;
+        Update: Partial<Pick<GigInvitation, 'status'>>;
+      };
+      booking_requests: {
+        Row: BookingRequest;
+        Insert: BookingTerms & Pick<BookingRequest, 'requester_user_id' | 'requester_organization_id' | 'musician_user_id' | 'message'>;
+        Update: Partial<Pick<BookingRequest, 'status' | 'awaiting_response_from' | 'current_revision' | 'responded_at'> & BookingTerms>; // Via respond_to_booking_request
+      };
+      booking_request_revisions: {
+        Row: BookingRequestRevision;
+        Insert: Omit<BookingRequestRevision, 'id' | 'created_at'>; // Written by triggers and respond_to_booking_request
+        Update: Partial<Omit<BookingRequestRevision, 'id' | 'created_at'>>;
+      };
+      availability_blackouts: {
+        Row: AvailabilityBlackout;
+        Insert: Omit<AvailabilityBlackout, 'id' | 'created_at' | 'updated_at' | 'import_id' | 'external_uid'> &
+          Partial<Pick<AvailabilityBlackout, 'import_id' | 'external_uid'>>;
+        Update: Partial<Omit<AvailabilityBlackout, 'id' | 'user_id' | 'import_id' | 'external_uid' | 'created_at' | 'updated_at'>>;
+      };
+      calendar_imports: {
+        Row: CalendarImport;
+        Insert: Pick<CalendarImport, 'user_id' | 'source_key' | 'name' | 'source_url'>; // Written by replace_calendar_import
+        Update: Partial<Pick<CalendarImport, 'name'>>;
+      };
+      engagements: {
+        Row: Engagement;
+        Insert: Omit<Engagement, 'id' | 'created_at' | 'updated_at' | 'status'>; // Created when a booking request is accepted
+        Update: Partial<Pick<Engagement, 'status'>>;
+      };
+      events: {
+        Row: EventListing;
+        Insert: Omit<EventListing, 'id' | 'created_at' | 'updated_at' | 'status' | 'cancellation_reason' | 'currency' | 'going_count' | 'interested_count'> &
+          Partial<Pick<EventListing, 'currency'>>;
+        Update: Partial<Omit<EventListing, 'id' | 'created_by_user_id' | 'created_at' | 'updated_at' | 'going_count' | 'interested_count'>>;
+      };
+      event_performers: {
+        Row: EventPerformer;
+        Insert: Omit<EventPerformer, 'id' | 'created_at'>;
+        Update: Partial<Pick<EventPerformer, 'name' | 'role' | 'position'>>;
+      };
+      performance_credits: {
+        Row: PerformanceCredit;
+        Insert: Pick<PerformanceCredit, 'past_performance_id' | 'organization_performance_id' | 'credited_user_id' | 'credited_organization_id' | 'role' | 'added_by_user_id'> &
+          Partial<Pick<PerformanceCredit, 'position'>>;
+        Update: Partial<Pick<PerformanceCredit, 'role' | 'position' | 'status'>>;
+      };
+      venue_link_suggestions: {
+        Row: VenueLinkSuggestion;
+        Insert: Omit<VenueLinkSuggestion, 'id' | 'created_at' | 'status' | 'resolved_at'>; // Written by suggest_venue_links
+        Update: Pick<VenueLinkSuggestion, 'status' | 'resolved_at'>; // Via resolve_venue_link_suggestion
+      };
+      event_rsvps: {
+        Row: EventRsvp;
+        Insert: Pick<EventRsvp, 'event_id' | 'user_id' | 'status'>;
+        Update: Pick<EventRsvp, 'status'>;
+      };
+      notifications: {
+        Row: UserNotification;
+        Insert: Omit<UserNotification, 'id' | 'created_at' | 'read_at' | 'data' | 'body' | 'link' | 'actor_user_id' | 'in_app'> &
+          Partial<Pick<UserNotification, 'body' | 'link' | 'data' | 'actor_user_id'>>; // Written by triggers and jobs
+        Update: Pick<UserNotification, 'read_at'>;
+      };
+      conversations: {
+        Row: Conversation;
+        Insert: Pick<Conversation, 'kind' | 'created_by'> &
+          Partial<Pick<Conversation, 'title' | 'organization_id' | 'gig_application_id' | 'direct_key'>>; // Via the start_*, create_group_ and open_application_conversation functions
+        Update: Pick<Conversation, 'last_message_at'>; // Bumped by the new message trigger
+      };
+      conversation_participants: {
+        Row: ConversationParticipant;
+        Insert: Pick<ConversationParticipant, 'conversation_id' | 'user_id'> &
+          Partial<Pick<ConversationParticipant, 'role'>>; // Added by the conversation functions
+        Update: Pick<ConversationParticipant, 'last_read_at'>;
+      };
+      messages: {
+        Row: Message;
+        Insert: Pick<Message, 'conversation_id' | 'sender_user_id'> & Partial<Pick<Message, 'body' | 'attachments'>>;
+        Update: Partial<Pick<Message, 'body' | 'deleted_at'>>;
+      };
+      message_templates: {
+        Row: MessageTemplate;
+        Insert: Omit<MessageTemplate, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Pick<MessageTemplate, 'title' | 'body'>>;
+      };
+      notification_channel_preferences: {
+        Row: NotificationChannelPreference;
+        Insert: Pick<NotificationChannelPreference, 'user_id' | 'notification_type' | 'channel' | 'enabled'>;
+        Update: Pick<NotificationChannelPreference, 'enabled'>;
+      };
+      notification_settings: {
+        Row: NotificationSettings;
+        Insert: Pick<NotificationSettings, 'user_id'> &
+          Partial<Omit<NotificationSettings, 'user_id' | 'created_at' | 'updated_at'>>;
+        Update: Partial<Omit<NotificationSettings, 'user_id' | 'created_at' | 'updated_at'>>;
+      };
+      push_subscriptions: {
+        Row: PushSubscriptionRecord;
+        Insert: Pick<PushSubscriptionRecord, 'user_id' | 'endpoint' | 'p256dh' | 'auth'> &
+          Partial<Pick<PushSubscriptionRecord, 'user_agent'>>; // Via register_push_subscription
+        Update: Partial<Pick<PushSubscriptionRecord, 'failure_count' | 'last_used_at'>>;
+      };
+      notification_deliveries: {
+        Row: NotificationDelivery;
+        Insert: Pick<NotificationDelivery, 'notification_id' | 'user_id' | 'channel' | 'deliver_after'>; // Queued by trigger
+        Update: Partial<Pick<NotificationDelivery, 'status' | 'deliver_after' | 'last_error' | 'sent_at'>>;
+      };
+      reports: {
+        Row: Report;
+        Insert: Pick<Report, 'reporter_user_id' | 'target_type' | 'target_id' | 'reason'> &
+          Partial<Pick<Report, 'reported_user_id' | 'content_snapshot' | 'details'>>; // Via report_content
+        Update: Partial<Pick<Report, 'status' | 'outcome' | 'moderation_action_id' | 'resolved_at'>>; // Via moderate_content
+      };
+      platform_admins: {
+        Row: PlatformAdmin;
+        Insert: Pick<PlatformAdmin, 'user_id'> & Partial<Pick<PlatformAdmin, 'granted_by'>>; // Service role only
+        Update: Partial<Pick<PlatformAdmin, 'granted_by'>>; // Service role only
+      };
+      moderation_actions: {
+        Row: ModerationAction;
+        Insert: Omit<ModerationAction, 'id' | 'created_at'>; // Via moderate_content
+        Update: never; // Append-only
+      };
+      calendar_feeds: {
+        Row: CalendarFeed;
+        Insert: Pick<CalendarFeed, 'user_id' | 'token'>; // Issued by rotate_calendar_feed_token
+        Update: Partial<Pick<CalendarFeed, 'token' | 'last_accessed_at'>>;
+      };
       post_likes: {
         Row: PostLike;
         Insert: Omit<PostLike, 'id' | 'created_at'>;
@@ -529,7 +1247,8 @@ export interface Database {
       };
       past_performances: {
         Row: PastPerformance;
-        Insert: Omit<PastPerformance, 'id' | 'created_at' | 'updated_at'>;
+        Insert: Omit<PastPerformance, 'id' | 'created_at' | 'updated_at' | 'venue_organization_id'> &
+          Partial<Pick<PastPerformance, 'venue_organization_id'>>;
         Update: Partial<Omit<PastPerformance, 'id' | 'created_at' | 'updated_at'>>;
       };
     };
@@ -613,6 +1332,281 @@ export interface Database {
         Args: { comment_id: string };
         Returns: boolean;
       };
+      get_my_organizations_admin: {
+        Args: Record<string, never>;
+        Returns: OrganizationProfile[];
+      };
+      can_manage_gig: {
+        Args: { p_gig_id: string; p_user_id?: string };
+        Returns: boolean;
+      };
+      close_expired_gigs: {
+        Args: Record<string, never>;
+        Returns: {
+          run_at: string;
+          closed_count: number;
+          by_reason: Partial<Record<GigStatusAuditReason, number>>;
+          gig_ids: string[];
+        };
+      };
+      has_applied_to_gig: {
+        Args: { p_gig_id: string; p_user_id?: string };
+        Returns: boolean;
+      };
+      review_gig_applications: {
+        Args: { p_application_ids: string[]; p_status: GigApplicationStatus; p_mark_gig_filled?: boolean };
+        Returns: GigApplication[];
+      };
+      message_gig_applicants: {
+        Args: { p_application_ids: string[]; p_body: string };
+        Returns: number;
+      };
+      search_events: {
+        Args: {
+          p_from?: string | null; // Defaults to now
+          p_to?: string | null;
+          p_genre?: string | null;
+          p_event_type?: string | null;
+          p_free_only?: boolean;
+          p_latitude?: number | null;
+          p_longitude?: number | null;
+          p_radius_km?: number | null;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: Array<{
+          event: EventListing & {
+            organization: EventOrganizationSummary | null;
+            venue_organization: EventOrganizationSummary | null;
+            lineup: EventPerformerWithProfile[];
+          };
+          distance_km: number | null; // Only set when an origin is given and the event is geocoded
+        }>;
+      };
+      can_manage_event: {
+        Args: { p_event_id: string; p_user_id?: string };
+        Returns: boolean;
+      };
+      search_venues: {
+        Args: { p_query: string; p_limit?: number };
+        Returns: (VenueSummary & { similarity: number })[];
+      };
+      suggest_venue_links: {
+        Args: { p_min_similarity?: number };
+        Returns: {
+          run_at: string;
+          suggested_count: number;
+        };
+      };
+      resolve_venue_link_suggestion: {
+        Args: { p_suggestion_id: string; p_accept: boolean };
+        Returns: boolean;
+      };
+      mark_all_notifications_read: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      start_direct_conversation: {
+        Args: { p_other_user_id: string };
+        Returns: string;
+      };
+      start_organization_conversation: {
+        Args: { p_organization_id: string };
+        Returns: string;
+      };
+      create_group_conversation: {
+        Args: { p_title: string | null; p_user_ids: string[] };
+        Returns: string;
+      };
+      leave_conversation: {
+        Args: { p_conversation_id: string };
+        Returns: boolean;
+      };
+      mark_conversation_read: {
+        Args: { p_conversation_id: string };
+        Returns: undefined;
+      };
+      open_application_conversation: {
+        Args: { p_application_id: string };
+        Returns: string;
+      };
+      get_my_conversations: {
+        Args: { p_limit?: number; p_before?: string | null };
+        Returns: ConversationSummary[];
+      };
+      count_unread_conversations: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      block_user: {
+        Args: { p_user_id: string };
+        Returns: boolean;
+      };
+      unblock_user: {
+        Args: { p_user_id: string };
+        Returns: boolean;
+      };
+      mute_user: {
+        Args: { p_user_id: string };
+        Returns: boolean;
+      };
+      unmute_user: {
+        Args: { p_user_id: string };
+        Returns: boolean;
+      };
+      get_blocked_user_ids: {
+        Args: Record<string, never>;
+        Returns: string[];
+      };
+      report_content: {
+        Args: { p_target_type: ReportTargetType; p_target_id: string; p_reason: ReportReason; p_details?: string | null };
+        Returns: string;
+      };
+      is_platform_admin: {
+        Args: { p_user_id?: string };
+        Returns: boolean;
+      };
+      get_moderation_queue: {
+        Args: { p_limit?: number; p_offset?: number };
+        Returns: ModerationQueueItem[];
+      };
+      moderate_content: {
+        Args: {
+          p_target_type: ReportTargetType;
+          p_target_id: string;
+          p_action: ModerationContentAction;
+          p_author_action?: ModerationAuthorAction | null;
+          p_suspend_days?: number | null;
+          p_note?: string | null;
+        };
+        Returns: string;
+      };
+      lift_suspension: {
+        Args: { p_user_id: string; p_note?: string | null };
+        Returns: string;
+      };
+      register_push_subscription: {
+        Args: { p_endpoint: string; p_p256dh: string; p_auth: string; p_user_agent?: string | null };
+        Returns: string;
+      };
+      claim_notification_deliveries: {
+        Args: { p_limit?: number };
+        Returns: NotificationDelivery[];
+      };
+      send_event_reminders: {
+        Args: Record<string, never>;
+        Returns: {
+          run_at: string;
+          reminded_count: number;
+        };
+      };
+      search_gigs: {
+        Args: {
+          p_query?: string | null;
+          p_instruments?: string[] | null;
+          p_genres?: string[] | null;
+          p_compensation_type?: string | null;
+          p_pay_min?: number | null;
+          p_pay_max?: number | null;
+          p_location?: string | null;
+          p_gig_type?: string | null;
+          p_start_date?: string | null;
+          p_end_date?: string | null;
+          p_status?: string | null;
+          p_include_expired?: boolean;
+          p_latitude?: number | null;
+          p_longitude?: number | null;
+          p_radius_km?: number | null;
+          p_published_after?: string | null;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: Array<{
+          gig: Gig & {
+            posted_by_user: { id: string; full_name: string; avatar_url: string | null } | null;
+            posted_by_organization: { id: string; name: string; logo_url: string | null } | null;
+          };
+          relevance_score: number | null;
+          title_highlight: string | null; // Title with matches wrapped in <mark></mark>
+          snippet: string | null; // Description fragments with matches wrapped in <mark></mark>
+          distance_km: number | null; // Only set when an origin is given and the gig is geocoded
+        }>;
+      };
+      booking_request_side: {
+        Args: { p_request_id: string; p_user_id?: string };
+        Returns: BookingSide | null;
+      };
+      respond_to_booking_request: {
+        Args: { p_request_id: string; p_action: BookingAction; p_terms?: Partial<BookingTerms> | null; p_message?: string | null };
+        Returns: BookingRequest;
+      };
+      cancel_engagement: {
+        Args: { p_engagement_id: string };
+        Returns: Engagement;
+      };
+      musician_availability_status: {
+        Args: {
+          p_user_id: string;
+          p_date: string;
+          p_start_time?: string | null; // Whole day when omitted
+          p_end_time?: string | null; // At or before start means the set runs past midnight
+          p_timezone?: string | null; // Defaults to the musician's timezone
+        };
+        Returns: AvailabilityStatus;
+      };
+      find_free_musicians: {
+        Args: {
+          p_date: string;
+          p_start_time?: string | null;
+          p_end_time?: string | null;
+          p_timezone?: string | null;
+          p_user_ids?: string[] | null;
+          p_include_unscheduled?: boolean;
+          p_limit?: number;
+        };
+        Returns: Array<{ user_id: string; status: Extract<AvailabilityStatus, 'free' | 'unscheduled'> }>;
+      };
+      rotate_calendar_feed_token: {
+        Args: Record<string, never>;
+        Returns: string; // The new token
+      };
+      get_schedule_commitments: {
+        Args: {
+          p_user_id: string;
+          p_from: string;
+          p_to: string;
+        };
+        Returns: ScheduleCommitment[];
+      };
+      replace_calendar_import: {
+        Args: {
+          p_source_key: string;
+          p_name: string;
+          p_source_url: string | null;
+          p_blackouts: Array<Pick<AvailabilityBlackout, 'external_uid' | 'starts_on' | 'ends_on' | 'start_time' | 'end_time'>>;
+        };
+        Returns: string; // The import's id
+      };
+      refresh_saved_search_matches: {
+        Args: Record<string, never>;
+        Returns: number; // New matches recorded
+      };
+      search_musicians_near: {
+        Args: {
+          p_latitude: number;
+          p_longitude: number;
+          p_radius_km?: number | null; // Defaults to each musician's travel_distance_km
+          p_instruments?: string[] | null;
+          p_genres?: string[] | null;
+          p_looking_for_gigs?: boolean | null;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: Array<{
+          profile: IndividualProfile & { user: Pick<User, 'id' | 'full_name' | 'avatar_url'> };
+          distance_km: number;
+        }>;
+      };
     };
   };
 }
@@ -622,6 +1616,119 @@ export type UserWithProfile = User & {
   individual_profile: IndividualProfile | null;
 };
 
+// Result of search_musicians_near
+export type IndividualProfileWithDistance = IndividualProfile & {
+  user: Pick<User, 'id' | 'full_name' | 'avatar_url'>;
+  distance_km: number;
+};
+
+// Base profile search rows embed the user
+export type IndividualProfileWithUser = IndividualProfile & {
+  user: Pick<User, 'id' | 'full_name' | 'avatar_url'>;
+};
+
+type BookingParty = Pick<User, 'id' | 'full_name' | 'avatar_url'>;
+
+export type BookingRequestWithParties = BookingRequest & {
+  requester: BookingParty | null;
+  requester_organization: Pick<OrganizationProfile, 'id' | 'name' | 'logo_url'> | null;
+  musician: BookingParty | null;
+  revisions: BookingRequestRevision[];
+};
+
+export type EngagementWithParties = Engagement & {
+  musician: BookingParty | null;
+  organizer: BookingParty | null;
+  organization: Pick<OrganizationProfile, 'id' | 'name' | 'logo_url'> | null;
+};
+
+type EventOrganizationSummary = Pick<OrganizationProfile, 'id' | 'name' | 'logo_url'>;
+
+export type EventPerformerWithProfile = EventPerformer & {
+  performer_user: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null;
+  performer_organization: EventOrganizationSummary | null;
+};
+
+export type EventWithDetails = EventListing & {
+  organization: EventOrganizationSummary | null;
+  venue_organization: EventOrganizationSummary | null;
+  lineup: EventPerformerWithProfile[];
+  distance_km?: number; // Only set for radius searches on geocoded events
+};
+
+// A credit with the musician or organization it names, as shown in a performance's lineup
+export type PerformanceCreditWithParty = PerformanceCredit & {
+  credited_user: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null;
+  credited_organization: Pick<OrganizationProfile, 'id' | 'name' | 'logo_url'> | null;
+};
+
+// A credit with the performance it is on, as shown on the credited party's profile
+export type CreditedPerformance = PerformanceCredit & {
+  past_performance: (PastPerformance & {
+    owner: { user_id: string; stage_name: string | null; user: Pick<User, 'full_name'> | null } | null;
+  }) | null;
+  organization_performance: (OrganizationPerformance & {
+    organization: Pick<OrganizationProfile, 'id' | 'name' | 'logo_url'> | null;
+  }) | null;
+};
+
+// Venue fields used when suggesting or linking a venue organization
+export type VenueSummary = Pick<OrganizationProfile, 'id' | 'name' | 'address' | 'city' | 'state_province' | 'country' | 'latitude' | 'longitude' | 'capacity'>;
+
+export type VenueLinkSuggestionWithVenue = VenueLinkSuggestion & {
+  venue: Pick<OrganizationProfile, 'id' | 'name' | 'city' | 'state_province'> | null;
+};
+
+export type UserNotificationWithActor = UserNotification & {
+  actor: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null;
+};
+
+// One row of the inbox (get_my_conversations)
+export interface ConversationSummary {
+  id: string; // UUID
+  kind: ConversationKind;
+  title: string | null;
+  organization_id: string | null;
+  organization_name: string | null;
+  organization_logo_url: string | null;
+  gig_application_id: string | null;
+  gig_id: string | null;
+  gig_title: string | null;
+  application_status: GigApplicationStatus | null;
+  last_message_at: string | null;
+  last_message_body: string | null;
+  last_message_sender_id: string | null;
+  last_message_has_attachments: boolean;
+  unread_count: number;
+  participants: ConversationMember[]; // Everyone except the current user
+}
+
+export type ConversationMember = Pick<User, 'id' | 'full_name' | 'avatar_url'> & {
+  last_read_at: string | null;
+};
+
+export type ConversationWithParticipants = Conversation & {
+  participants: (ConversationParticipant & { user: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null })[];
+  organization: Pick<OrganizationProfile, 'id' | 'name' | 'logo_url'> | null;
+  application: ConversationApplication | null;
+};
+
+// The application and gig shown at the top of an application thread
+export type ConversationApplication = Pick<GigApplication, 'id' | 'status' | 'applicant_user_id' | 'created_at'> & {
+  gig: Pick<Gig,
+    'id' | 'title' | 'status' | 'start_date' | 'start_time' | 'venue_name' | 'city' | 'state_province' | 'is_remote' |
+    'compensation_type' | 'pay_rate_type' | 'pay_amount_min' | 'pay_amount_max' | 'currency'
+  > | null;
+};
+
+export type EventAttendee = EventRsvp & {
+  user: Pick<User, 'id' | 'full_name' | 'avatar_url'> | null;
+};
+
+export type SavedSearchWithUnread = SavedSearch & {
+  unread_count: number;
+};
+
 export type OrganizationWithAdmins = OrganizationProfile & {
   org_admins?: (OrgAdmin & { users?: User })[];
 };
@@ -653,6 +1760,15 @@ export type GigWithPoster = Gig & {
   posted_by_organization?: OrganizationProfile;
 };
 
+export type GigApplicationWithGig = GigApplication & {
+  gig?: Gig;
+};
+
+export type GigApplicant = GigApplication & {
+  applicant?: UserWithProfile;
+  notes?: GigApplicationNote[];
+};
+
 export type CommentWithAuthor = PostComment & {
   users?: User;
   replies?: CommentWithAuthor[];
@@ -0,0 +1,201 @@
+-- Create gig_applications table for in-app applications to gigs
+-- Keeps gigs.applications_count accurate and enforces max_applications / application_deadline
+
+CREATE TABLE IF NOT EXISTS public.gig_applications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  gig_id UUID REFERENCES public.gigs(id) ON DELETE CASCADE NOT NULL,
+  applicant_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Application content
+  message TEXT,
+  portfolio_urls TEXT[],
+
+  -- Application status
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'shortlisted', 'rejected', 'hired', 'withdrawn')),
+  status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  withdrawn_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  -- One application per musician per gig (withdrawn applications can be resubmitted)
+  CONSTRAINT unique_gig_application UNIQUE (gig_id, applicant_user_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_gig_applications_gig_id ON public.gig_applications(gig_id);
+CREATE INDEX IF NOT EXISTS idx_gig_applications_applicant ON public.gig_applications(applicant_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gig_applications_gig_status ON public.gig_applications(gig_id, status);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.gig_applications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for gig_applications table
+-- Applicants can view their own applications
+CREATE POLICY "Applicants can view own applications" ON public.gig_applications
+  FOR SELECT
+  USING (auth.uid() = applicant_user_id);
+
+-- Gig posters (user or organization admins) can view applications to their gigs
+CREATE POLICY "Gig posters can view applications" ON public.gig_applications
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.gigs g
+      WHERE g.id = gig_applications.gig_id
+      AND (
+        auth.uid() = g.posted_by_user_id OR
+        (g.posted_by_organization_id IS NOT NULL AND public.is_organization_admin(g.posted_by_organization_id, auth.uid()))
+      )
+    )
+  );
+
+-- Users can apply as themselves
+CREATE POLICY "Users can apply to gigs" ON public.gig_applications
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = applicant_user_id AND
+    status = 'submitted'
+  );
+
+-- Applicants can edit, withdraw or resubmit their own applications (only the columns granted below)
+CREATE POLICY "Applicants can update own applications" ON public.gig_applications
+  FOR UPDATE
+  USING (auth.uid() = applicant_user_id)
+  WITH CHECK (
+    auth.uid() = applicant_user_id AND
+    status IN ('submitted', 'withdrawn')
+  );
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_gig_applications
+  BEFORE UPDATE ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to refuse applications once a gig stops accepting them
+CREATE OR REPLACE FUNCTION public.enforce_gig_application_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_gig RECORD;
+BEGIN
+  -- An application stays with its gig and applicant; counts and checks depend on it
+  IF TG_OP = 'UPDATE' AND (NEW.gig_id IS DISTINCT FROM OLD.gig_id OR NEW.applicant_user_id IS DISTINCT FROM OLD.applicant_user_id) THEN
+    RAISE EXCEPTION 'An application cannot be moved to another gig or applicant';
+  END IF;
+
+  -- Track when the status last changed
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at = timezone('utc'::text, now());
+    NEW.withdrawn_at = CASE WHEN NEW.status = 'withdrawn' THEN timezone('utc'::text, now()) ELSE NULL END;
+  END IF;
+
+  -- Only new submissions (or resubmissions after withdrawal) are checked
+  IF NOT (NEW.status = 'submitted' AND (TG_OP = 'INSERT' OR OLD.status = 'withdrawn')) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the gig row so concurrent applications see a consistent count
+  SELECT * INTO target_gig
+  FROM public.gigs
+  WHERE id = NEW.gig_id
+  FOR UPDATE;
+
+  IF target_gig.id IS NULL THEN
+    RAISE EXCEPTION 'Gig not found';
+  END IF;
+
+  IF target_gig.posted_by_user_id = NEW.applicant_user_id THEN
+    RAISE EXCEPTION 'You cannot apply to your own gig';
+  END IF;
+
+  IF target_gig.status != 'open' OR target_gig.published_at IS NULL THEN
+    RAISE EXCEPTION 'This gig is not accepting applications';
+  END IF;
+
+  IF target_gig.application_deadline IS NOT NULL AND target_gig.application_deadline < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The application deadline for this gig has passed';
+  END IF;
+
+  IF target_gig.max_applications IS NOT NULL AND COALESCE(target_gig.applications_count, 0) >= target_gig.max_applications THEN
+    RAISE EXCEPTION 'This gig has reached its maximum number of applications';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_gig_application_rules_trigger
+  BEFORE INSERT OR UPDATE ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_gig_application_rules();
+
+-- Function to keep gigs.applications_count in sync (withdrawn applications are not counted)
+-- SECURITY DEFINER because applicants cannot update gigs they did not post
+CREATE OR REPLACE FUNCTION public.update_gig_applications_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status != 'withdrawn' THEN
+      UPDATE public.gigs
+      SET applications_count = COALESCE(applications_count, 0) + 1
+      WHERE id = NEW.gig_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.status != 'withdrawn' AND NEW.status = 'withdrawn' THEN
+      UPDATE public.gigs
+      SET applications_count = GREATEST(COALESCE(applications_count, 0) - 1, 0)
+      WHERE id = NEW.gig_id;
+    ELSIF OLD.status = 'withdrawn' AND NEW.status != 'withdrawn' THEN
+      UPDATE public.gigs
+      SET applications_count = COALESCE(applications_count, 0) + 1
+      WHERE id = NEW.gig_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.status != 'withdrawn' THEN
+      UPDATE public.gigs
+      SET applications_count = GREATEST(COALESCE(applications_count, 0) - 1, 0)
+      WHERE id = OLD.gig_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_gig_applications_count_on_insert
+  AFTER INSERT ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_gig_applications_count();
+
+CREATE TRIGGER update_gig_applications_count_on_update
+  AFTER UPDATE OF status ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_gig_applications_count();
+
+CREATE TRIGGER update_gig_applications_count_on_delete
+  AFTER DELETE ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_gig_applications_count();
+
+-- Recalculate existing counts so they start out accurate
+UPDATE public.gigs g
+SET applications_count = (
+  SELECT COUNT(*)::INTEGER
+  FROM public.gig_applications ga
+  WHERE ga.gig_id = g.id
+  AND ga.status != 'withdrawn'
+);
+
+-- Grant permissions
+GRANT SELECT, INSERT ON public.gig_applications TO authenticated;
+-- Column grants only narrow UPDATE once the default table-wide grant is gone
+REVOKE UPDATE ON public.gig_applications FROM authenticated;
+GRANT UPDATE (message, portfolio_urls, status) ON public.gig_applications TO authenticated;
+
+COMMENT ON TABLE public.gig_applications IS 'In-app applications from musicians to gigs';
@@ -0,0 +1,270 @@
+-- Applicant review for gig posters
+-- Lets the poster (or any org admin of the posting organization) shortlist, reject or hire
+-- applicants, keep private notes and message applicants in bulk
+
+-- Helper to check whether a user can manage a gig (poster or org admin)
+CREATE OR REPLACE FUNCTION public.can_manage_gig(p_gig_id UUID, p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.gigs g
+    WHERE g.id = p_gig_id
+    AND (
+      g.posted_by_user_id = p_user_id OR
+      (g.posted_by_organization_id IS NOT NULL AND public.is_organization_admin(g.posted_by_organization_id, p_user_id))
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Set when a reviewer shortlists, rejects or hires; applicants cannot resubmit after that
+ALTER TABLE public.gig_applications
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Private notes posters keep about applicants (never visible to the applicant)
+CREATE TABLE IF NOT EXISTS public.gig_application_notes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  application_id UUID REFERENCES public.gig_applications(id) ON DELETE CASCADE NOT NULL,
+  author_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Note content
+  note TEXT NOT NULL CHECK (length(trim(note)) > 0),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Messages sent by posters to applicants (visible to the poster side and the applicant)
+CREATE TABLE IF NOT EXISTS public.gig_application_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  application_id UUID REFERENCES public.gig_applications(id) ON DELETE CASCADE NOT NULL,
+  sender_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Message content
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+
+  -- Timestamps
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_gig_application_notes_application ON public.gig_application_notes(application_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gig_application_messages_application ON public.gig_application_messages(application_id, created_at);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.gig_application_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gig_application_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for gig_applications table
+-- Posters can move applications through the review stages (applicants keep control of withdrawals)
+CREATE POLICY "Gig posters can review applications" ON public.gig_applications
+  FOR UPDATE
+  USING (public.can_manage_gig(gig_id, auth.uid()))
+  WITH CHECK (
+    public.can_manage_gig(gig_id, auth.uid()) AND
+    status IN ('submitted', 'shortlisted', 'rejected', 'hired')
+  );
+
+-- RLS Policies for gig_application_notes table
+CREATE POLICY "Gig posters can view application notes" ON public.gig_application_notes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.gig_applications ga
+      WHERE ga.id = gig_application_notes.application_id
+      AND public.can_manage_gig(ga.gig_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Gig posters can add application notes" ON public.gig_application_notes
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_user_id AND
+    EXISTS (
+      SELECT 1 FROM public.gig_applications ga
+      WHERE ga.id = gig_application_notes.application_id
+      AND public.can_manage_gig(ga.gig_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Authors can update own application notes" ON public.gig_application_notes
+  FOR UPDATE
+  USING (auth.uid() = author_user_id);
+
+CREATE POLICY "Authors can delete own application notes" ON public.gig_application_notes
+  FOR DELETE
+  USING (auth.uid() = author_user_id);
+
+-- RLS Policies for gig_application_messages table
+CREATE POLICY "Participants can view application messages" ON public.gig_application_messages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.gig_applications ga
+      WHERE ga.id = gig_application_messages.application_id
+      AND (
+        ga.applicant_user_id = auth.uid() OR
+        public.can_manage_gig(ga.gig_id, auth.uid())
+      )
+    )
+  );
+
+CREATE POLICY "Gig posters can message applicants" ON public.gig_application_messages
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_user_id AND
+    EXISTS (
+      SELECT 1 FROM public.gig_applications ga
+      WHERE ga.id = gig_application_messages.application_id
+      AND public.can_manage_gig(ga.gig_id, auth.uid())
+    )
+  );
+
+-- Applicants mark messages as read
+CREATE POLICY "Applicants can mark application messages read" ON public.gig_application_messages
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.gig_applications ga
+      WHERE ga.id = gig_application_messages.application_id
+      AND ga.applicant_user_id = auth.uid()
+    )
+  );
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_gig_application_notes
+  BEFORE UPDATE ON public.gig_application_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to keep applicants and reviewers within their own lanes
+-- Applicants cannot undo a review decision, even by withdrawing and reapplying;
+-- reviewers cannot edit what the applicant wrote
+CREATE OR REPLACE FUNCTION public.guard_gig_application_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() = OLD.applicant_user_id THEN
+    NEW.reviewed_at := OLD.reviewed_at;
+    IF NEW.status = 'submitted' AND OLD.status != 'submitted' AND OLD.reviewed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'This application has already been reviewed';
+    END IF;
+  ELSE
+    IF NEW.message IS DISTINCT FROM OLD.message OR NEW.portfolio_urls IS DISTINCT FROM OLD.portfolio_urls THEN
+      RAISE EXCEPTION 'Only the applicant can edit an application';
+    END IF;
+
+    -- Moving an application back to 'submitted' takes the decision back
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.reviewed_at := CASE
+        WHEN NEW.status IN ('shortlisted', 'rejected', 'hired') THEN timezone('utc'::text, now())
+        WHEN NEW.status = 'submitted' THEN NULL
+        ELSE OLD.reviewed_at
+      END;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_gig_application_review_trigger
+  BEFORE UPDATE ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_gig_application_review();
+
+-- Function to update the status of one or more applications to the same gig
+-- Hiring can optionally mark the gig as filled in the same transaction
+CREATE OR REPLACE FUNCTION public.review_gig_applications(
+  p_application_ids UUID[],
+  p_status TEXT,
+  p_mark_gig_filled BOOLEAN DEFAULT false
+)
+RETURNS SETOF public.gig_applications AS $$
+DECLARE
+  target_gig_id UUID;
+BEGIN
+  IF p_status NOT IN ('submitted', 'shortlisted', 'rejected', 'hired') THEN
+    RAISE EXCEPTION 'Invalid application status: %', p_status;
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT gig_id) FROM public.gig_applications WHERE id = ANY(p_application_ids)) > 1 THEN
+    RAISE EXCEPTION 'Applications must belong to the same gig';
+  END IF;
+
+  SELECT gig_id INTO target_gig_id
+  FROM public.gig_applications
+  WHERE id = ANY(p_application_ids)
+  LIMIT 1;
+
+  IF target_gig_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF NOT public.can_manage_gig(target_gig_id, auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to review applications for this gig';
+  END IF;
+
+  -- Withdrawn applications stay withdrawn
+  RETURN QUERY
+  UPDATE public.gig_applications
+  SET status = p_status
+  WHERE id = ANY(p_application_ids)
+  AND status != 'withdrawn'
+  RETURNING *;
+
+  IF p_status = 'hired' AND p_mark_gig_filled THEN
+    UPDATE public.gigs
+    SET status = 'filled'
+    WHERE id = target_gig_id
+    AND status IN ('open', 'closed');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to send the same message to several applicants of a gig
+CREATE OR REPLACE FUNCTION public.message_gig_applicants(
+  p_application_ids UUID[],
+  p_body TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  sent_count INTEGER;
+BEGIN
+  IF p_body IS NULL OR length(trim(p_body)) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.gig_applications ga
+    WHERE ga.id = ANY(p_application_ids)
+    AND NOT public.can_manage_gig(ga.gig_id, auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to message these applicants';
+  END IF;
+
+  INSERT INTO public.gig_application_messages (application_id, sender_user_id, body)
+  SELECT ga.id, auth.uid(), trim(p_body)
+  FROM public.gig_applications ga
+  WHERE ga.id = ANY(p_application_ids)
+  AND ga.status != 'withdrawn';
+
+  GET DIAGNOSTICS sent_count = ROW_COUNT;
+  RETURN sent_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions
+GRANT ALL ON public.gig_application_notes TO authenticated;
+GRANT ALL ON public.gig_application_messages TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_manage_gig(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_gig_applications(UUID[], TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.message_gig_applicants(UUID[], TEXT) TO authenticated;
+
+COMMENT ON TABLE public.gig_application_notes IS 'Private notes gig posters keep about applicants';
+COMMENT ON TABLE public.gig_application_messages IS 'Messages from gig posters to applicants';
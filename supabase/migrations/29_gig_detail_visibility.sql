@@ -0,0 +1,25 @@
+-- Let applicants keep seeing gigs they applied to after they are cancelled
+-- so the gig detail page can tell them what happened instead of returning 404
+
+-- SECURITY DEFINER so the gigs policy does not recurse through gig_applications policies
+CREATE OR REPLACE FUNCTION public.has_applied_to_gig(p_gig_id UUID, p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.gig_applications
+    WHERE gig_id = p_gig_id
+    AND applicant_user_id = p_user_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Applicants can view non-draft gigs they applied to (including cancelled ones)
+CREATE POLICY "Applicants can view gigs they applied to" ON public.gigs
+  FOR SELECT
+  USING (
+    status != 'draft' AND
+    public.has_applied_to_gig(id, auth.uid())
+  );
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.has_applied_to_gig(UUID, UUID) TO authenticated;
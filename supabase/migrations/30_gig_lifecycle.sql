@@ -0,0 +1,57 @@
+-- Gig lifecycle management for posters
+-- Adds cancellation details and extends handle_gig_status_change so every status
+-- change made from "My Gigs" goes through the same trigger
+
+ALTER TABLE public.gigs
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE;
+
+-- Function to keep status-related fields consistent when a gig changes status
+CREATE OR REPLACE FUNCTION public.handle_gig_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Cancelled gigs are final; posters duplicate them instead of reopening
+  IF OLD.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled gigs cannot be reopened';
+  END IF;
+
+  -- Published gigs cannot go back to draft once musicians have applied
+  IF NEW.status = 'draft' AND COALESCE(OLD.applications_count, 0) > 0 THEN
+    RAISE EXCEPTION 'Gigs with applications cannot be moved back to draft';
+  END IF;
+
+  -- Set published_at when status changes to open (if not already set)
+  IF NEW.status = 'open' AND NEW.published_at IS NULL THEN
+    NEW.published_at = timezone('utc'::text, now());
+  END IF;
+
+  -- Clear published_at when status changes to draft
+  IF NEW.status = 'draft' THEN
+    NEW.published_at = NULL;
+  END IF;
+
+  -- Track when the gig stopped taking applications
+  IF NEW.status IN ('closed', 'filled') THEN
+    NEW.closed_at = timezone('utc'::text, now());
+  ELSIF NEW.status = 'open' THEN
+    NEW.closed_at = NULL;
+  END IF;
+
+  -- Cancelling requires a reason so applicants know what happened
+  IF NEW.status = 'cancelled' THEN
+    IF NEW.cancellation_reason IS NULL OR length(trim(NEW.cancellation_reason)) = 0 THEN
+      RAISE EXCEPTION 'A reason is required to cancel a gig';
+    END IF;
+    NEW.cancelled_at = timezone('utc'::text, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN public.gigs.cancellation_reason IS 'Reason shown to applicants when a gig is cancelled';
@@ -0,0 +1,97 @@
+-- Automatic gig expiry
+-- Closes open gigs once their application deadline, expiry time or performance dates have passed,
+-- recording an audit row for every gig it closes. Called on a schedule from /api/cron/close-expired-gigs.
+
+CREATE TABLE IF NOT EXISTS public.gig_status_audit (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  gig_id UUID REFERENCES public.gigs(id) ON DELETE CASCADE NOT NULL,
+  changed_by_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL, -- NULL for automated changes
+
+  -- Status change
+  previous_status TEXT NOT NULL,
+  new_status TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('application_deadline', 'expires_at', 'end_date', 'manual')),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_gig_status_audit_gig_id ON public.gig_status_audit(gig_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gigs_open_expiry ON public.gigs(application_deadline, expires_at, end_date, start_date)
+  WHERE status = 'open';
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.gig_status_audit ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for gig_status_audit table
+-- Posters can see the history of their own gigs; rows are only written by close_expired_gigs()
+CREATE POLICY "Gig posters can view status audit" ON public.gig_status_audit
+  FOR SELECT
+  USING (public.can_manage_gig(gig_id, auth.uid()));
+
+-- Function to close every open gig that is past its deadline, expiry or dates
+-- Status changes go through handle_gig_status_change, which stamps closed_at
+CREATE OR REPLACE FUNCTION public.close_expired_gigs()
+RETURNS JSONB AS $$
+DECLARE
+  run_started_at TIMESTAMP WITH TIME ZONE := timezone('utc'::text, now());
+  expired RECORD;
+  closed_count INTEGER := 0;
+  by_reason JSONB := '{}'::jsonb;
+  closed_ids UUID[] := ARRAY[]::UUID[];
+BEGIN
+  FOR expired IN
+    SELECT
+      g.id,
+      g.status,
+      CASE
+        WHEN g.expires_at IS NOT NULL AND g.expires_at <= run_started_at THEN 'expires_at'
+        WHEN g.application_deadline IS NOT NULL AND g.application_deadline < CURRENT_DATE THEN 'application_deadline'
+        ELSE 'end_date'
+      END AS reason
+    FROM public.gigs g
+    WHERE g.status = 'open'
+    AND (
+      (g.expires_at IS NOT NULL AND g.expires_at <= run_started_at) OR
+      (g.application_deadline IS NOT NULL AND g.application_deadline < CURRENT_DATE) OR
+      COALESCE(g.end_date, g.start_date) < CURRENT_DATE
+    )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.gigs
+    SET status = 'closed'
+    WHERE id = expired.id;
+
+    INSERT INTO public.gig_status_audit (gig_id, previous_status, new_status, reason)
+    VALUES (expired.id, expired.status, 'closed', expired.reason);
+
+    closed_count := closed_count + 1;
+    closed_ids := array_append(closed_ids, expired.id);
+    by_reason := jsonb_set(
+      by_reason,
+      ARRAY[expired.reason],
+      to_jsonb(COALESCE((by_reason ->> expired.reason)::INTEGER, 0) + 1)
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'run_at', run_started_at,
+    'closed_count', closed_count,
+    'by_reason', by_reason,
+    'gig_ids', to_jsonb(closed_ids)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the scheduler (service role) may run the job
+REVOKE ALL ON FUNCTION public.close_expired_gigs() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.close_expired_gigs() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.close_expired_gigs() TO service_role;
+
+-- Grant permissions
+GRANT SELECT ON public.gig_status_audit TO authenticated;
+
+COMMENT ON TABLE public.gig_status_audit IS 'Audit trail of automated gig status changes';
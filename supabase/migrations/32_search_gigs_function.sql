@@ -0,0 +1,87 @@
+-- Ranked full-text gig search
+-- Uses the weighted search_vector column (migration 07) with websearch_to_tsquery so user input
+-- like quotes, commas, parentheses or "-exclude" is parsed safely, and applies every GigFilters
+-- option server-side. Runs as the caller so gig/user/organization RLS still applies.
+
+CREATE OR REPLACE FUNCTION public.search_gigs(
+  p_query TEXT DEFAULT NULL,
+  p_instruments TEXT[] DEFAULT NULL,
+  p_genres TEXT[] DEFAULT NULL,
+  p_compensation_type TEXT DEFAULT NULL,
+  p_pay_min NUMERIC DEFAULT NULL,
+  p_pay_max NUMERIC DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_gig_type TEXT DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_include_expired BOOLEAN DEFAULT false,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  gig JSONB,
+  relevance_score REAL,
+  title_highlight TEXT,
+  snippet TEXT
+) AS $$
+DECLARE
+  search_query tsquery;
+BEGIN
+  -- Queries made only of stop words parse to an empty tsquery; treat them as no query
+  IF p_query IS NOT NULL AND length(trim(p_query)) > 0 THEN
+    search_query := websearch_to_tsquery('english', p_query);
+    IF numnode(search_query) = 0 THEN
+      search_query := NULL;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (to_jsonb(g) - 'search_vector') || jsonb_build_object(
+      'posted_by_user', CASE WHEN u.id IS NULL THEN NULL ELSE jsonb_build_object('id', u.id, 'full_name', u.full_name, 'avatar_url', u.avatar_url) END,
+      'posted_by_organization', CASE WHEN o.id IS NULL THEN NULL ELSE jsonb_build_object('id', o.id, 'name', o.name, 'logo_url', o.logo_url) END
+    ) AS gig,
+    CASE WHEN search_query IS NULL THEN NULL ELSE ts_rank(g.search_vector, search_query) END AS relevance_score,
+    CASE WHEN search_query IS NULL THEN NULL
+      ELSE ts_headline('english', g.title, search_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE WHEN search_query IS NULL THEN NULL
+      ELSE ts_headline('english', g.description, search_query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END AS snippet
+  FROM public.gigs g
+  LEFT JOIN public.users u ON u.id = g.posted_by_user_id
+  LEFT JOIN public.organization_profiles o ON o.id = g.posted_by_organization_id
+  WHERE g.published_at IS NOT NULL
+  AND (search_query IS NULL OR g.search_vector @@ search_query)
+  AND (
+    CASE
+      WHEN p_status IS NOT NULL THEN g.status = p_status
+      WHEN p_include_expired THEN g.status IN ('open', 'closed')
+      ELSE (
+        g.status = 'open' AND
+        (g.application_deadline IS NULL OR g.application_deadline >= CURRENT_DATE) AND
+        (g.expires_at IS NULL OR g.expires_at > timezone('utc'::text, now())) AND
+        COALESCE(g.end_date, g.start_date) >= CURRENT_DATE
+      )
+    END
+  )
+  AND (p_instruments IS NULL OR cardinality(p_instruments) = 0 OR g.instruments_needed && p_instruments)
+  AND (p_genres IS NULL OR cardinality(p_genres) = 0 OR g.genres && p_genres)
+  AND (p_compensation_type IS NULL OR g.compensation_type = p_compensation_type)
+  AND (p_pay_min IS NULL OR g.pay_amount_min >= p_pay_min)
+  AND (p_pay_max IS NULL OR g.pay_amount_max <= p_pay_max)
+  AND (p_location IS NULL OR g.city ILIKE '%' || p_location || '%')
+  AND (p_gig_type IS NULL OR g.gig_type = p_gig_type)
+  AND (p_start_date IS NULL OR g.start_date >= p_start_date)
+  AND (p_end_date IS NULL OR g.start_date <= p_end_date)
+  ORDER BY
+    CASE WHEN search_query IS NULL THEN 0 ELSE ts_rank(g.search_vector, search_query) END DESC,
+    g.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.search_gigs(TEXT, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, TEXT, TEXT, DATE, DATE, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated, anon;
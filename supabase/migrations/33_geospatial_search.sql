@@ -0,0 +1,179 @@
+-- Geospatial radius search for gigs and musicians
+-- Adds PostGIS geography points (generated from latitude/longitude) to gigs and individual profiles,
+-- replaces the (latitude, longitude) b-tree with GiST indexes, and teaches search_gigs to filter and
+-- sort by distance. Coordinates are written by the app after geocoding (see src/lib/geocoding).
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- Musicians need coordinates to be matched against their travel_distance_km
+ALTER TABLE public.individual_profiles
+  ADD COLUMN IF NOT EXISTS latitude DECIMAL(10, 8),
+  ADD COLUMN IF NOT EXISTS longitude DECIMAL(11, 8);
+
+ALTER TABLE public.gigs
+  ADD COLUMN IF NOT EXISTS geo_point extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+      THEN extensions.ST_SetSRID(extensions.ST_MakePoint(longitude::DOUBLE PRECISION, latitude::DOUBLE PRECISION), 4326)::extensions.geography
+    END
+  ) STORED;
+
+ALTER TABLE public.individual_profiles
+  ADD COLUMN IF NOT EXISTS geo_point extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+      THEN extensions.ST_SetSRID(extensions.ST_MakePoint(longitude::DOUBLE PRECISION, latitude::DOUBLE PRECISION), 4326)::extensions.geography
+    END
+  ) STORED;
+
+-- The b-tree on (latitude, longitude) can't answer distance queries
+DROP INDEX IF EXISTS public.idx_gigs_coordinates;
+CREATE INDEX IF NOT EXISTS idx_gigs_geo_point ON public.gigs USING GIST(geo_point);
+CREATE INDEX IF NOT EXISTS idx_individual_profiles_geo_point ON public.individual_profiles USING GIST(geo_point);
+
+-- search_gigs gains an origin + radius and returns distance_km, so the old signature has to go
+DROP FUNCTION IF EXISTS public.search_gigs(TEXT, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, TEXT, TEXT, DATE, DATE, TEXT, BOOLEAN, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_gigs(
+  p_query TEXT DEFAULT NULL,
+  p_instruments TEXT[] DEFAULT NULL,
+  p_genres TEXT[] DEFAULT NULL,
+  p_compensation_type TEXT DEFAULT NULL,
+  p_pay_min NUMERIC DEFAULT NULL,
+  p_pay_max NUMERIC DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_gig_type TEXT DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_include_expired BOOLEAN DEFAULT false,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  gig JSONB,
+  relevance_score REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  distance_km DOUBLE PRECISION
+) AS $$
+DECLARE
+  search_query tsquery;
+  origin extensions.geography;
+BEGIN
+  -- Queries made only of stop words parse to an empty tsquery; treat them as no query
+  IF p_query IS NOT NULL AND length(trim(p_query)) > 0 THEN
+    search_query := websearch_to_tsquery('english', p_query);
+    IF numnode(search_query) = 0 THEN
+      search_query := NULL;
+    END IF;
+  END IF;
+
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    origin := extensions.ST_SetSRID(extensions.ST_MakePoint(p_longitude, p_latitude), 4326)::extensions.geography;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (to_jsonb(g) - 'search_vector' - 'geo_point') || jsonb_build_object(
+      'posted_by_user', CASE WHEN u.id IS NULL THEN NULL ELSE jsonb_build_object('id', u.id, 'full_name', u.full_name, 'avatar_url', u.avatar_url) END,
+      'posted_by_organization', CASE WHEN o.id IS NULL THEN NULL ELSE jsonb_build_object('id', o.id, 'name', o.name, 'logo_url', o.logo_url) END
+    ) AS gig,
+    CASE WHEN search_query IS NULL THEN NULL ELSE ts_rank(g.search_vector, search_query) END AS relevance_score,
+    CASE WHEN search_query IS NULL THEN NULL
+      ELSE ts_headline('english', g.title, search_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE WHEN search_query IS NULL THEN NULL
+      ELSE ts_headline('english', g.description, search_query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END AS snippet,
+    CASE WHEN origin IS NULL OR g.geo_point IS NULL THEN NULL
+      ELSE extensions.ST_Distance(g.geo_point, origin) / 1000
+    END AS distance_km
+  FROM public.gigs g
+  LEFT JOIN public.users u ON u.id = g.posted_by_user_id
+  LEFT JOIN public.organization_profiles o ON o.id = g.posted_by_organization_id
+  WHERE g.published_at IS NOT NULL
+  AND (search_query IS NULL OR g.search_vector @@ search_query)
+  AND (
+    CASE
+      WHEN p_status IS NOT NULL THEN g.status = p_status
+      WHEN p_include_expired THEN g.status IN ('open', 'closed')
+      ELSE (
+        g.status = 'open' AND
+        (g.application_deadline IS NULL OR g.application_deadline >= CURRENT_DATE) AND
+        (g.expires_at IS NULL OR g.expires_at > timezone('utc'::text, now())) AND
+        COALESCE(g.end_date, g.start_date) >= CURRENT_DATE
+      )
+    END
+  )
+  -- Radius search only matches gigs that have been geocoded
+  AND (origin IS NULL OR p_radius_km IS NULL OR extensions.ST_DWithin(g.geo_point, origin, p_radius_km * 1000))
+  AND (p_instruments IS NULL OR cardinality(p_instruments) = 0 OR g.instruments_needed && p_instruments)
+  AND (p_genres IS NULL OR cardinality(p_genres) = 0 OR g.genres && p_genres)
+  AND (p_compensation_type IS NULL OR g.compensation_type = p_compensation_type)
+  AND (p_pay_min IS NULL OR g.pay_amount_min >= p_pay_min)
+  AND (p_pay_max IS NULL OR g.pay_amount_max <= p_pay_max)
+  AND (p_location IS NULL OR g.city ILIKE '%' || p_location || '%')
+  AND (p_gig_type IS NULL OR g.gig_type = p_gig_type)
+  AND (p_start_date IS NULL OR g.start_date >= p_start_date)
+  AND (p_end_date IS NULL OR g.start_date <= p_end_date)
+  ORDER BY
+    CASE WHEN origin IS NULL OR g.geo_point IS NULL THEN NULL ELSE extensions.ST_Distance(g.geo_point, origin) END ASC NULLS LAST,
+    CASE WHEN search_query IS NULL THEN 0 ELSE ts_rank(g.search_vector, search_query) END DESC,
+    g.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to find musicians near a point, sorted by distance
+-- With no radius, a musician matches when the point is within their own travel_distance_km
+CREATE OR REPLACE FUNCTION public.search_musicians_near(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km NUMERIC DEFAULT NULL,
+  p_instruments TEXT[] DEFAULT NULL,
+  p_genres TEXT[] DEFAULT NULL,
+  p_looking_for_gigs BOOLEAN DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  profile JSONB,
+  distance_km DOUBLE PRECISION
+) AS $$
+DECLARE
+  origin extensions.geography := extensions.ST_SetSRID(extensions.ST_MakePoint(p_longitude, p_latitude), 4326)::extensions.geography;
+BEGIN
+  RETURN QUERY
+  SELECT
+    (to_jsonb(ip) - 'geo_point') || jsonb_build_object(
+      'user', jsonb_build_object('id', u.id, 'full_name', u.full_name, 'avatar_url', u.avatar_url)
+    ) AS profile,
+    extensions.ST_Distance(ip.geo_point, origin) / 1000 AS distance_km
+  FROM public.individual_profiles ip
+  JOIN public.users u ON u.id = ip.user_id
+  WHERE ip.geo_point IS NOT NULL
+  AND (
+    CASE
+      WHEN p_radius_km IS NOT NULL THEN extensions.ST_DWithin(ip.geo_point, origin, p_radius_km * 1000)
+      ELSE ip.travel_distance_km IS NOT NULL AND extensions.ST_DWithin(ip.geo_point, origin, ip.travel_distance_km * 1000)
+    END
+  )
+  AND (p_instruments IS NULL OR cardinality(p_instruments) = 0 OR ip.instruments && p_instruments)
+  AND (p_genres IS NULL OR cardinality(p_genres) = 0 OR ip.genres && p_genres)
+  AND (p_looking_for_gigs IS NULL OR ip.looking_for_gigs = p_looking_for_gigs)
+  ORDER BY extensions.ST_Distance(ip.geo_point, origin) ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.search_gigs(TEXT, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, TEXT, TEXT, DATE, DATE, TEXT, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, INTEGER, INTEGER) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.search_musicians_near(DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, TEXT[], TEXT[], BOOLEAN, INTEGER, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.search_musicians_near IS 'Musicians within a radius of a point (or within their own travel distance), nearest first';
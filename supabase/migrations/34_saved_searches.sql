@@ -0,0 +1,304 @@
+-- Saved gig searches with new-match alerts
+-- Musicians save a named GigFilters combination; refresh_saved_search_matches() records gigs published
+-- since each search was last checked. Unseen matches drive the Header badge, and searches with
+-- email_digest enabled are mailed once a day by /api/cron/saved-search-digest.
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Search definition
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 100),
+  filters JSONB NOT NULL DEFAULT '{}', -- Same shape as GigFilters in src/services/client/gigs.ts
+
+  -- Alerts
+  email_digest BOOLEAN NOT NULL DEFAULT false,
+  last_checked_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CONSTRAINT unique_saved_search_name UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  saved_search_id UUID REFERENCES public.saved_searches(id) ON DELETE CASCADE NOT NULL,
+  gig_id UUID REFERENCES public.gigs(id) ON DELETE CASCADE NOT NULL,
+
+  -- Delivery state
+  seen_at TIMESTAMP WITH TIME ZONE,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CONSTRAINT unique_saved_search_match UNIQUE (saved_search_id, gig_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON public.saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_email_digest ON public.saved_searches(email_digest) WHERE email_digest = true;
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_unseen ON public.saved_search_matches(saved_search_id) WHERE seen_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_unemailed ON public.saved_search_matches(saved_search_id) WHERE emailed_at IS NULL AND seen_at IS NULL;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for saved_searches table
+CREATE POLICY "Users can view own saved searches" ON public.saved_searches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own saved searches" ON public.saved_searches
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved searches" ON public.saved_searches
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved searches" ON public.saved_searches
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for saved_search_matches table
+-- Matches belong to whoever owns the saved search
+CREATE POLICY "Users can view own saved search matches" ON public.saved_search_matches
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.saved_searches s
+      WHERE s.id = saved_search_matches.saved_search_id
+      AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record own saved search matches" ON public.saved_search_matches
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.saved_searches s
+      WHERE s.id = saved_search_matches.saved_search_id
+      AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can mark own saved search matches seen" ON public.saved_search_matches
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.saved_searches s
+      WHERE s.id = saved_search_matches.saved_search_id
+      AND s.user_id = auth.uid()
+    )
+  );
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_saved_searches
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- search_gigs gains p_published_after so saved searches only pick up newly published gigs
+DROP FUNCTION IF EXISTS public.search_gigs(TEXT, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, TEXT, TEXT, DATE, DATE, TEXT, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_gigs(
+  p_query TEXT DEFAULT NULL,
+  p_instruments TEXT[] DEFAULT NULL,
+  p_genres TEXT[] DEFAULT NULL,
+  p_compensation_type TEXT DEFAULT NULL,
+  p_pay_min NUMERIC DEFAULT NULL,
+  p_pay_max NUMERIC DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_gig_type TEXT DEFAULT NULL,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_include_expired BOOLEAN DEFAULT false,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km NUMERIC DEFAULT NULL,
+  p_published_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  gig JSONB,
+  relevance_score REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  distance_km DOUBLE PRECISION
+) AS $$
+DECLARE
+  search_query tsquery;
+  origin extensions.geography;
+BEGIN
+  -- Queries made only of stop words parse to an empty tsquery; treat them as no query
+  IF p_query IS NOT NULL AND length(trim(p_query)) > 0 THEN
+    search_query := websearch_to_tsquery('english', p_query);
+    IF numnode(search_query) = 0 THEN
+      search_query := NULL;
+    END IF;
+  END IF;
+
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    origin := extensions.ST_SetSRID(extensions.ST_MakePoint(p_longitude, p_latitude), 4326)::extensions.geography;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (to_jsonb(g) - 'search_vector' - 'geo_point') || jsonb_build_object(
+      'posted_by_user', CASE WHEN u.id IS NULL THEN NULL ELSE jsonb_build_object('id', u.id, 'full_name', u.full_name, 'avatar_url', u.avatar_url) END,
+      'posted_by_organization', CASE WHEN o.id IS NULL THEN NULL ELSE jsonb_build_object('id', o.id, 'name', o.name, 'logo_url', o.logo_url) END
+    ) AS gig,
+    CASE WHEN search_query IS NULL THEN NULL ELSE ts_rank(g.search_vector, search_query) END AS relevance_score,
+    CASE WHEN search_query IS NULL THEN NULL
+      ELSE ts_headline('english', g.title, search_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS title_highlight,
+    CASE WHEN search_query IS NULL THEN NULL
+      ELSE ts_headline('english', g.description, search_query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END AS snippet,
+    CASE WHEN origin IS NULL OR g.geo_point IS NULL THEN NULL
+      ELSE extensions.ST_Distance(g.geo_point, origin) / 1000
+    END AS distance_km
+  FROM public.gigs g
+  LEFT JOIN public.users u ON u.id = g.posted_by_user_id
+  LEFT JOIN public.organization_profiles o ON o.id = g.posted_by_organization_id
+  WHERE g.published_at IS NOT NULL
+  AND (p_published_after IS NULL OR g.published_at > p_published_after)
+  AND (search_query IS NULL OR g.search_vector @@ search_query)
+  AND (
+    CASE
+      WHEN p_status IS NOT NULL THEN g.status = p_status
+      WHEN p_include_expired THEN g.status IN ('open', 'closed')
+      ELSE (
+        g.status = 'open' AND
+        (g.application_deadline IS NULL OR g.application_deadline >= CURRENT_DATE) AND
+        (g.expires_at IS NULL OR g.expires_at > timezone('utc'::text, now())) AND
+        COALESCE(g.end_date, g.start_date) >= CURRENT_DATE
+      )
+    END
+  )
+  -- Radius search only matches gigs that have been geocoded
+  AND (origin IS NULL OR p_radius_km IS NULL OR extensions.ST_DWithin(g.geo_point, origin, p_radius_km * 1000))
+  AND (p_instruments IS NULL OR cardinality(p_instruments) = 0 OR g.instruments_needed && p_instruments)
+  AND (p_genres IS NULL OR cardinality(p_genres) = 0 OR g.genres && p_genres)
+  AND (p_compensation_type IS NULL OR g.compensation_type = p_compensation_type)
+  AND (p_pay_min IS NULL OR g.pay_amount_min >= p_pay_min)
+  AND (p_pay_max IS NULL OR g.pay_amount_max <= p_pay_max)
+  -- Escape LIKE wildcards so a typed % or _ matches literally
+  AND (p_location IS NULL OR g.city ILIKE '%' || replace(replace(replace(p_location, '\', '\\'), '%', '\%'), '_', '\_') || '%')
+  AND (p_gig_type IS NULL OR g.gig_type = p_gig_type)
+  AND (p_start_date IS NULL OR g.start_date >= p_start_date)
+  AND (p_end_date IS NULL OR g.start_date <= p_end_date)
+  ORDER BY
+    CASE WHEN origin IS NULL OR g.geo_point IS NULL THEN NULL ELSE extensions.ST_Distance(g.geo_point, origin) END ASC NULLS LAST,
+    CASE WHEN search_query IS NULL THEN 0 ELSE ts_rank(g.search_vector, search_query) END DESC,
+    g.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+
+-- Function to record gigs published since each saved search was last checked
+-- Runs as the caller: users refresh only their own searches, the service role refreshes everyone's.
+-- The service role bypasses RLS and search_gigs() returns drafts and unpublished gigs too, so each
+-- result is checked against the public gig visibility rules here. search_gigs() returns at most
+-- 100 rows, so results are read a page at a time. A search whose filters can't be read (e.g. a
+-- non-numeric pay) is skipped with a warning instead of failing the refresh for everyone.
+CREATE OR REPLACE FUNCTION public.refresh_saved_search_matches()
+RETURNS INTEGER AS $$
+DECLARE
+  search RECORD;
+  checked_at TIMESTAMP WITH TIME ZONE := timezone('utc'::text, now());
+  page_size CONSTANT INTEGER := 100;
+  page INTEGER;
+  found_count INTEGER;
+  inserted_count INTEGER;
+  search_count INTEGER;
+  total_count INTEGER := 0;
+BEGIN
+  FOR search IN
+    SELECT s.id, s.filters, s.last_checked_at
+    FROM public.saved_searches s
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      page := 0;
+      search_count := 0;
+      LOOP
+        WITH found AS (
+          SELECT (r.gig ->> 'id')::UUID AS gig_id
+          FROM public.search_gigs(
+            p_query := NULLIF(search.filters ->> 'searchQuery', ''),
+            p_instruments := ARRAY(SELECT jsonb_array_elements_text(COALESCE(search.filters -> 'instruments', '[]'::jsonb))),
+            p_genres := ARRAY(SELECT jsonb_array_elements_text(COALESCE(search.filters -> 'genres', '[]'::jsonb))),
+            p_compensation_type := NULLIF(search.filters ->> 'compensationType', ''),
+            p_pay_min := (search.filters ->> 'payRateMin')::NUMERIC,
+            p_pay_max := (search.filters ->> 'payRateMax')::NUMERIC,
+            p_location := NULLIF(search.filters ->> 'location', ''),
+            p_gig_type := NULLIF(search.filters ->> 'gigType', ''),
+            p_start_date := NULLIF(search.filters ->> 'startDate', '')::DATE,
+            p_end_date := NULLIF(search.filters ->> 'endDate', '')::DATE,
+            p_status := NULLIF(search.filters ->> 'status', ''),
+            p_include_expired := COALESCE((search.filters ->> 'includeExpired')::BOOLEAN, false),
+            p_latitude := (search.filters ->> 'nearLatitude')::DOUBLE PRECISION,
+            p_longitude := (search.filters ->> 'nearLongitude')::DOUBLE PRECISION,
+            p_radius_km := (search.filters ->> 'radiusKm')::NUMERIC,
+            p_published_after := search.last_checked_at,
+            p_limit := page_size,
+            p_offset := page * page_size
+          ) r
+        ),
+        inserted AS (
+          INSERT INTO public.saved_search_matches (saved_search_id, gig_id)
+          SELECT search.id, g.id
+          FROM found
+          JOIN public.gigs g ON g.id = found.gig_id
+          -- Same rules as the "Authenticated users can view published gigs" policy
+          WHERE g.published_at IS NOT NULL
+          AND g.published_at <= checked_at
+          AND g.status IN ('open', 'closed', 'filled')
+          ON CONFLICT (saved_search_id, gig_id) DO NOTHING
+          RETURNING 1
+        )
+        SELECT (SELECT COUNT(*) FROM found), (SELECT COUNT(*) FROM inserted)
+        INTO found_count, inserted_count;
+
+        search_count := search_count + inserted_count;
+        EXIT WHEN found_count < page_size;
+        page := page + 1;
+      END LOOP;
+
+      UPDATE public.saved_searches
+      SET last_checked_at = checked_at
+      WHERE id = search.id;
+
+      total_count := total_count + search_count;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping saved search %: %', search.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN total_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant permissions
+GRANT ALL ON public.saved_searches TO authenticated;
+GRANT ALL ON public.saved_search_matches TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_gigs(TEXT, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, TEXT, TEXT, DATE, DATE, TEXT, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.refresh_saved_search_matches() TO authenticated, service_role;
+
+COMMENT ON TABLE public.saved_searches IS 'Named GigFilters combinations saved by musicians';
+COMMENT ON TABLE public.saved_search_matches IS 'Gigs published after a saved search was last checked';
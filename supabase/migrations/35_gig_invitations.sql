@@ -0,0 +1,122 @@
+-- Invitations from gig posters to musicians recommended for a gig
+-- The poster (or any org admin of the posting organization) invites a musician to apply;
+-- the invitation is marked applied automatically once the musician applies
+
+CREATE TABLE IF NOT EXISTS public.gig_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  gig_id UUID REFERENCES public.gigs(id) ON DELETE CASCADE NOT NULL,
+  invited_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  invited_by_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+
+  -- Invitation content
+  message TEXT CHECK (message IS NULL OR length(message) <= 1000),
+
+  -- Invitation status
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'declined')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  -- One invitation per musician per gig
+  CONSTRAINT unique_gig_invitation UNIQUE (gig_id, invited_user_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_gig_invitations_gig_id ON public.gig_invitations(gig_id);
+CREATE INDEX IF NOT EXISTS idx_gig_invitations_invited_user ON public.gig_invitations(invited_user_id, created_at DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.gig_invitations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for gig_invitations table
+CREATE POLICY "Invited musicians can view own invitations" ON public.gig_invitations
+  FOR SELECT
+  USING (auth.uid() = invited_user_id);
+
+CREATE POLICY "Gig posters can view invitations" ON public.gig_invitations
+  FOR SELECT
+  USING (public.can_manage_gig(gig_id, auth.uid()));
+
+-- Only open or draft gigs can send invitations, and never to the inviter themselves
+CREATE POLICY "Gig posters can invite musicians" ON public.gig_invitations
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = invited_by_user_id AND
+    invited_user_id != auth.uid() AND
+    status = 'pending' AND
+    public.can_manage_gig(gig_id, auth.uid()) AND
+    EXISTS (
+      SELECT 1 FROM public.gigs g
+      WHERE g.id = gig_invitations.gig_id
+      AND g.status IN ('draft', 'open')
+    )
+  );
+
+CREATE POLICY "Gig posters can withdraw invitations" ON public.gig_invitations
+  FOR DELETE
+  USING (public.can_manage_gig(gig_id, auth.uid()) AND status = 'pending');
+
+-- Musicians can only decline; applying marks the invitation through the trigger below
+CREATE POLICY "Invited musicians can decline invitations" ON public.gig_invitations
+  FOR UPDATE
+  USING (auth.uid() = invited_user_id)
+  WITH CHECK (auth.uid() = invited_user_id AND status = 'declined');
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_gig_invitations
+  BEFORE UPDATE ON public.gig_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to stamp responded_at when a musician answers an invitation
+CREATE OR REPLACE FUNCTION public.stamp_gig_invitation_response()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status != 'pending' THEN
+    NEW.responded_at = timezone('utc'::text, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_gig_invitation_response_trigger
+  BEFORE UPDATE ON public.gig_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_gig_invitation_response();
+
+-- Function to mark an invitation applied when the invited musician applies (or re-applies)
+CREATE OR REPLACE FUNCTION public.mark_gig_invitation_applied()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'submitted' THEN
+    UPDATE public.gig_invitations
+    SET status = 'applied'
+    WHERE gig_id = NEW.gig_id
+    AND invited_user_id = NEW.applicant_user_id
+    AND status != 'applied';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER mark_gig_invitation_applied_on_insert
+  AFTER INSERT ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_gig_invitation_applied();
+
+CREATE TRIGGER mark_gig_invitation_applied_on_update
+  AFTER UPDATE OF status ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_gig_invitation_applied();
+
+-- Grant permissions
+GRANT ALL ON public.gig_invitations TO authenticated;
+
+COMMENT ON TABLE public.gig_invitations IS 'Invitations from gig posters asking recommended musicians to apply';
+COMMENT ON COLUMN public.gig_invitations.status IS 'pending until the musician applies (applied) or declines (declined)';
@@ -0,0 +1,375 @@
+-- Booking requests: direct offers to a musician without posting a public gig
+-- A user (optionally on behalf of an organization they administer) sends a dated offer to a musician
+-- who is available for hire. Either side can counter in turn; every set of terms is kept as a revision.
+-- Accepting creates a confirmed engagement that shows on both parties' calendars.
+
+CREATE TABLE IF NOT EXISTS public.booking_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- Parties
+  requester_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  requester_organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE SET NULL,
+  musician_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Current terms (the latest revision)
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  event_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  venue_name TEXT,
+  venue_address TEXT,
+  city TEXT,
+  fee_amount DECIMAL(10,2) CHECK (fee_amount IS NULL OR fee_amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  pay_rate_type TEXT CHECK (pay_rate_type IN ('hourly', 'daily', 'per_gig', 'flat_fee', 'percentage')),
+  terms TEXT,
+  message TEXT, -- Note from whoever proposed the current terms
+
+  -- Negotiation state
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'countered', 'accepted', 'declined', 'cancelled')),
+  awaiting_response_from TEXT NOT NULL DEFAULT 'musician' CHECK (awaiting_response_from IN ('musician', 'requester')),
+  current_revision INTEGER NOT NULL DEFAULT 1,
+  responded_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CONSTRAINT booking_request_not_self CHECK (requester_user_id != musician_user_id)
+);
+
+-- Every set of terms proposed during the negotiation, oldest first
+CREATE TABLE IF NOT EXISTS public.booking_request_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  booking_request_id UUID REFERENCES public.booking_requests(id) ON DELETE CASCADE NOT NULL,
+  proposed_by_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  proposed_by TEXT NOT NULL CHECK (proposed_by IN ('musician', 'requester')),
+  revision_number INTEGER NOT NULL,
+
+  -- Proposed terms
+  title TEXT NOT NULL,
+  event_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  venue_name TEXT,
+  venue_address TEXT,
+  city TEXT,
+  fee_amount DECIMAL(10,2),
+  currency TEXT NOT NULL,
+  pay_rate_type TEXT,
+  terms TEXT,
+  message TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CONSTRAINT unique_booking_request_revision UNIQUE (booking_request_id, revision_number)
+);
+
+-- Confirmed engagements (one per accepted booking request)
+CREATE TABLE IF NOT EXISTS public.engagements (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  booking_request_id UUID REFERENCES public.booking_requests(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  musician_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  organizer_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE SET NULL,
+
+  -- Agreed terms
+  title TEXT NOT NULL,
+  event_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  venue_name TEXT,
+  venue_address TEXT,
+  city TEXT,
+  fee_amount DECIMAL(10,2),
+  currency TEXT NOT NULL,
+  pay_rate_type TEXT,
+  terms TEXT,
+
+  -- Engagement status
+  status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'cancelled')),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_booking_requests_musician ON public.booking_requests(musician_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_booking_requests_requester ON public.booking_requests(requester_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_booking_requests_organization ON public.booking_requests(requester_organization_id) WHERE requester_organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_booking_request_revisions_request ON public.booking_request_revisions(booking_request_id, revision_number);
+CREATE INDEX IF NOT EXISTS idx_engagements_musician_date ON public.engagements(musician_user_id, event_date);
+CREATE INDEX IF NOT EXISTS idx_engagements_organizer_date ON public.engagements(organizer_user_id, event_date);
+CREATE INDEX IF NOT EXISTS idx_engagements_organization_date ON public.engagements(organization_id, event_date) WHERE organization_id IS NOT NULL;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.booking_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.booking_request_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.engagements ENABLE ROW LEVEL SECURITY;
+
+-- Helper to check which side of a booking request a user is on ('musician', 'requester' or NULL)
+-- Org admins act for the requesting organization alongside the user who sent the request
+CREATE OR REPLACE FUNCTION public.booking_request_side(p_request_id UUID, p_user_id UUID DEFAULT auth.uid())
+RETURNS TEXT AS $$
+DECLARE
+  request public.booking_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO request FROM public.booking_requests WHERE id = p_request_id;
+
+  IF NOT FOUND OR p_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF request.musician_user_id = p_user_id THEN
+    RETURN 'musician';
+  END IF;
+
+  IF request.requester_user_id = p_user_id OR (
+    request.requester_organization_id IS NOT NULL AND
+    public.is_organization_admin(request.requester_organization_id, p_user_id)
+  ) THEN
+    RETURN 'requester';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- RLS Policies for booking_requests table
+-- Spelled out rather than via booking_request_side so a freshly inserted row can be returned
+CREATE POLICY "Booking parties can view booking requests" ON public.booking_requests
+  FOR SELECT
+  USING (
+    auth.uid() = musician_user_id OR
+    auth.uid() = requester_user_id OR
+    (requester_organization_id IS NOT NULL AND public.is_organization_admin(requester_organization_id, auth.uid()))
+  );
+
+-- Requests start as a fresh offer to a musician who is available for hire
+CREATE POLICY "Users can send booking requests" ON public.booking_requests
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = requester_user_id AND
+    status = 'pending' AND
+    awaiting_response_from = 'musician' AND
+    current_revision = 1 AND
+    (requester_organization_id IS NULL OR public.is_organization_admin(requester_organization_id, auth.uid())) AND
+    EXISTS (
+      SELECT 1 FROM public.individual_profiles ip
+      WHERE ip.user_id = booking_requests.musician_user_id
+      AND ip.available_for_hire = true
+    )
+  );
+
+-- Negotiation happens through respond_to_booking_request; there are no direct update or delete policies
+
+-- RLS Policies for booking_request_revisions table
+CREATE POLICY "Booking parties can view revisions" ON public.booking_request_revisions
+  FOR SELECT
+  USING (public.booking_request_side(booking_request_id, auth.uid()) IS NOT NULL);
+
+-- RLS Policies for engagements table
+CREATE POLICY "Engagement parties can view engagements" ON public.engagements
+  FOR SELECT
+  USING (
+    auth.uid() = musician_user_id OR
+    auth.uid() = organizer_user_id OR
+    (organization_id IS NOT NULL AND public.is_organization_admin(organization_id, auth.uid()))
+  );
+
+-- Create triggers for updated_at
+CREATE TRIGGER set_updated_at_booking_requests
+  BEFORE UPDATE ON public.booking_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_updated_at_engagements
+  BEFORE UPDATE ON public.engagements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to record the opening offer as revision 1
+CREATE OR REPLACE FUNCTION public.record_initial_booking_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.booking_request_revisions (
+    booking_request_id, proposed_by_user_id, proposed_by, revision_number,
+    title, event_date, start_time, end_time, venue_name, venue_address, city,
+    fee_amount, currency, pay_rate_type, terms, message
+  ) VALUES (
+    NEW.id, NEW.requester_user_id, 'requester', 1,
+    NEW.title, NEW.event_date, NEW.start_time, NEW.end_time, NEW.venue_name, NEW.venue_address, NEW.city,
+    NEW.fee_amount, NEW.currency, NEW.pay_rate_type, NEW.terms, NEW.message
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_initial_booking_revision_trigger
+  AFTER INSERT ON public.booking_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_initial_booking_revision();
+
+-- Function to accept, decline, counter or cancel a booking request
+-- Accept, decline and counter are only open to the side the request is waiting on; cancel is for the requester.
+-- p_terms holds the changed terms for a counter offer (same keys as the booking_requests columns)
+CREATE OR REPLACE FUNCTION public.respond_to_booking_request(
+  p_request_id UUID,
+  p_action TEXT,
+  p_terms JSONB DEFAULT NULL,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS public.booking_requests AS $$
+DECLARE
+  request public.booking_requests%ROWTYPE;
+  side TEXT;
+BEGIN
+  IF p_action NOT IN ('accept', 'decline', 'counter', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid booking action: %', p_action;
+  END IF;
+
+  SELECT * INTO request FROM public.booking_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking request not found';
+  END IF;
+
+  side := public.booking_request_side(p_request_id, auth.uid());
+  IF side IS NULL THEN
+    RAISE EXCEPTION 'You are not part of this booking request';
+  END IF;
+
+  IF request.status NOT IN ('pending', 'countered') THEN
+    RAISE EXCEPTION 'This booking request is already %', request.status;
+  END IF;
+
+  IF p_action = 'cancel' THEN
+    IF side != 'requester' THEN
+      RAISE EXCEPTION 'Only the requester can cancel a booking request';
+    END IF;
+
+    UPDATE public.booking_requests
+    SET status = 'cancelled', responded_at = timezone('utc'::text, now())
+    WHERE id = p_request_id
+    RETURNING * INTO request;
+
+    RETURN request;
+  END IF;
+
+  IF side != request.awaiting_response_from THEN
+    RAISE EXCEPTION 'This booking request is waiting on the other party';
+  END IF;
+
+  IF p_action = 'decline' THEN
+    UPDATE public.booking_requests
+    SET status = 'declined', responded_at = timezone('utc'::text, now())
+    WHERE id = p_request_id
+    RETURNING * INTO request;
+
+  ELSIF p_action = 'counter' THEN
+    IF p_terms IS NULL OR p_terms = '{}'::jsonb THEN
+      RAISE EXCEPTION 'A counter offer needs at least one changed term';
+    END IF;
+
+    UPDATE public.booking_requests
+    SET
+      title = COALESCE(NULLIF(trim(p_terms ->> 'title'), ''), title),
+      event_date = COALESCE((p_terms ->> 'event_date')::DATE, event_date),
+      start_time = CASE WHEN p_terms ? 'start_time' THEN (p_terms ->> 'start_time')::TIME ELSE start_time END,
+      end_time = CASE WHEN p_terms ? 'end_time' THEN (p_terms ->> 'end_time')::TIME ELSE end_time END,
+      venue_name = CASE WHEN p_terms ? 'venue_name' THEN p_terms ->> 'venue_name' ELSE venue_name END,
+      venue_address = CASE WHEN p_terms ? 'venue_address' THEN p_terms ->> 'venue_address' ELSE venue_address END,
+      city = CASE WHEN p_terms ? 'city' THEN p_terms ->> 'city' ELSE city END,
+      fee_amount = CASE WHEN p_terms ? 'fee_amount' THEN (p_terms ->> 'fee_amount')::DECIMAL ELSE fee_amount END,
+      currency = COALESCE(NULLIF(p_terms ->> 'currency', ''), currency),
+      pay_rate_type = CASE WHEN p_terms ? 'pay_rate_type' THEN p_terms ->> 'pay_rate_type' ELSE pay_rate_type END,
+      terms = CASE WHEN p_terms ? 'terms' THEN p_terms ->> 'terms' ELSE terms END,
+      message = NULLIF(trim(p_message), ''),
+      status = 'countered',
+      awaiting_response_from = CASE WHEN side = 'musician' THEN 'requester' ELSE 'musician' END,
+      current_revision = current_revision + 1,
+      responded_at = timezone('utc'::text, now())
+    WHERE id = p_request_id
+    RETURNING * INTO request;
+
+    INSERT INTO public.booking_request_revisions (
+      booking_request_id, proposed_by_user_id, proposed_by, revision_number,
+      title, event_date, start_time, end_time, venue_name, venue_address, city,
+      fee_amount, currency, pay_rate_type, terms, message
+    ) VALUES (
+      request.id, auth.uid(), side, request.current_revision,
+      request.title, request.event_date, request.start_time, request.end_time, request.venue_name,
+      request.venue_address, request.city, request.fee_amount, request.currency, request.pay_rate_type,
+      request.terms, request.message
+    );
+
+  ELSE
+    UPDATE public.booking_requests
+    SET status = 'accepted', responded_at = timezone('utc'::text, now())
+    WHERE id = p_request_id
+    RETURNING * INTO request;
+
+    INSERT INTO public.engagements (
+      booking_request_id, musician_user_id, organizer_user_id, organization_id,
+      title, event_date, start_time, end_time, venue_name, venue_address, city,
+      fee_amount, currency, pay_rate_type, terms
+    ) VALUES (
+      request.id, request.musician_user_id, request.requester_user_id, request.requester_organization_id,
+      request.title, request.event_date, request.start_time, request.end_time, request.venue_name,
+      request.venue_address, request.city, request.fee_amount, request.currency, request.pay_rate_type,
+      request.terms
+    );
+  END IF;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to call off a confirmed engagement; open to either party (org admins act for the organizer)
+CREATE OR REPLACE FUNCTION public.cancel_engagement(p_engagement_id UUID)
+RETURNS public.engagements AS $$
+DECLARE
+  engagement public.engagements%ROWTYPE;
+BEGIN
+  SELECT * INTO engagement FROM public.engagements WHERE id = p_engagement_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    engagement.musician_user_id = auth.uid() OR
+    engagement.organizer_user_id = auth.uid() OR
+    (engagement.organization_id IS NOT NULL AND public.is_organization_admin(engagement.organization_id, auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF engagement.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This booking is already cancelled';
+  END IF;
+
+  UPDATE public.engagements
+  SET status = 'cancelled'
+  WHERE id = p_engagement_id
+  RETURNING * INTO engagement;
+
+  RETURN engagement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant permissions
+GRANT ALL ON public.booking_requests TO authenticated;
+GRANT ALL ON public.booking_request_revisions TO authenticated;
+GRANT ALL ON public.engagements TO authenticated;
+GRANT EXECUTE ON FUNCTION public.booking_request_side(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_booking_request(UUID, TEXT, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_engagement(UUID) TO authenticated;
+
+COMMENT ON TABLE public.booking_requests IS 'Direct booking offers from a user or organization to a musician';
+COMMENT ON TABLE public.booking_request_revisions IS 'History of the terms proposed during a booking negotiation';
+COMMENT ON TABLE public.engagements IS 'Confirmed bookings shown on both the musician''s and the organizer''s calendar';
+COMMENT ON COLUMN public.booking_requests.awaiting_response_from IS 'Which side can accept, decline or counter next';
@@ -0,0 +1,246 @@
+-- Structured availability for musicians
+-- individual_profiles.availability (and organization_profiles.availability) hold recurring weekly hours:
+--   { "timezone": "America/New_York", "weekly": [{ "day": 5, "start": "18:00", "end": "24:00" }] }
+-- where day is 0 (Sunday) to 6 (Saturday) and times are local HH:MM in that timezone.
+-- Date-specific time off lives in availability_blackouts. find_free_musicians answers
+-- "who is free on date X between T1 and T2" using weekly hours, blackouts and confirmed engagements.
+
+-- Shape check for the availability JSONB (timezone names are validated by the app)
+CREATE OR REPLACE FUNCTION public.is_valid_availability(p_availability JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT jsonb_typeof(p_availability) = 'object'
+  AND (NOT p_availability ? 'timezone' OR jsonb_typeof(p_availability->'timezone') IN ('string', 'null'))
+  AND (
+    NOT p_availability ? 'weekly' OR (
+      jsonb_typeof(p_availability->'weekly') = 'array' AND
+      NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_availability->'weekly') slot
+        WHERE NOT (
+          jsonb_typeof(slot->'day') = 'number' AND
+          slot->>'day' IN ('0', '1', '2', '3', '4', '5', '6') AND
+          COALESCE(slot->>'start', '') ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$' AND
+          COALESCE(slot->>'end', '') ~ '^(([01][0-9]|2[0-3]):[0-5][0-9]|24:00)$' AND
+          slot->>'start' < slot->>'end'
+        )
+      )
+    )
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.individual_profiles
+  DROP CONSTRAINT IF EXISTS individual_profiles_availability_valid;
+ALTER TABLE public.individual_profiles
+  ADD CONSTRAINT individual_profiles_availability_valid CHECK (public.is_valid_availability(availability));
+
+ALTER TABLE public.organization_profiles
+  DROP CONSTRAINT IF EXISTS organization_profiles_availability_valid;
+ALTER TABLE public.organization_profiles
+  ADD CONSTRAINT organization_profiles_availability_valid CHECK (public.is_valid_availability(availability));
+
+-- Create availability_blackouts table
+-- A blackout runs from starts_on start_time to ends_on end_time in the musician's timezone;
+-- without times it covers whole days
+CREATE TABLE IF NOT EXISTS public.availability_blackouts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Period
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+
+  -- Details
+  note TEXT CHECK (note IS NULL OR length(note) <= 200),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CONSTRAINT availability_blackouts_valid_period CHECK (
+    ends_on > starts_on OR (
+      ends_on = starts_on AND
+      (start_time IS NULL OR end_time IS NULL OR end_time > start_time)
+    )
+  )
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_availability_blackouts_user_dates ON public.availability_blackouts(user_id, starts_on, ends_on);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.availability_blackouts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for availability_blackouts table
+-- Blackouts are shown on public profiles, like the rest of the availability calendar
+CREATE POLICY "Authenticated users can view blackouts" ON public.availability_blackouts
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage their own blackouts" ON public.availability_blackouts
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER set_updated_at_availability_blackouts
+  BEFORE UPDATE ON public.availability_blackouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Whether weekly hours cover every moment of a local time range (which may cross midnight)
+CREATE OR REPLACE FUNCTION public.availability_covers(
+  p_availability JSONB,
+  p_local_start TIMESTAMP,
+  p_local_end TIMESTAMP
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  day_start TIMESTAMP := date_trunc('day', p_local_start);
+  segment_start INTERVAL;
+  segment_end INTERVAL;
+BEGIN
+  WHILE day_start < p_local_end LOOP
+    segment_start := GREATEST(p_local_start, day_start) - day_start;
+    segment_end := LEAST(p_local_end, day_start + INTERVAL '1 day') - day_start;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(p_availability->'weekly', '[]'::jsonb)) slot
+      WHERE (slot->>'day')::INTEGER = EXTRACT(DOW FROM day_start)::INTEGER
+      AND (slot->>'start')::INTERVAL <= segment_start
+      AND (slot->>'end')::INTERVAL >= segment_end
+    ) THEN
+      RETURN false;
+    END IF;
+
+    day_start := day_start + INTERVAL '1 day';
+  END LOOP;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Availability of one musician for a set on p_date from p_start_time to p_end_time
+-- Times are wall-clock in p_timezone (default: the musician's own timezone). A set ending at or before
+-- its start runs past midnight; with no start time the whole day is checked, with no end time only the start.
+-- Returns 'free' (inside weekly hours), 'unscheduled' (no weekly hours set), 'outside_hours', 'blackout' or 'booked'
+CREATE OR REPLACE FUNCTION public.musician_availability_status(
+  p_user_id UUID,
+  p_date DATE,
+  p_start_time TIME DEFAULT NULL,
+  p_end_time TIME DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_availability JSONB;
+  v_musician_tz TEXT;
+  v_event_tz TEXT;
+  v_starts_at TIMESTAMP WITH TIME ZONE;
+  v_ends_at TIMESTAMP WITH TIME ZONE;
+  v_local_start TIMESTAMP;
+  v_local_end TIMESTAMP;
+BEGIN
+  SELECT COALESCE(ip.availability, '{}'::jsonb) INTO v_availability
+  FROM public.individual_profiles ip
+  WHERE ip.user_id = p_user_id;
+
+  v_availability := COALESCE(v_availability, '{}'::jsonb);
+
+  -- Unknown zone names fall back rather than raising mid-query
+  v_musician_tz := v_availability->>'timezone';
+  IF v_musician_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_musician_tz) THEN
+    v_musician_tz := 'UTC';
+  END IF;
+  v_event_tz := p_timezone;
+  IF v_event_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_event_tz) THEN
+    v_event_tz := v_musician_tz;
+  END IF;
+
+  v_starts_at := (p_date + COALESCE(p_start_time, TIME '00:00')) AT TIME ZONE v_event_tz;
+  v_ends_at := CASE
+    WHEN p_start_time IS NULL THEN (p_date + 1)::TIMESTAMP AT TIME ZONE v_event_tz
+    WHEN p_end_time IS NULL THEN v_starts_at + INTERVAL '1 minute'
+    WHEN p_end_time <= p_start_time THEN (p_date + 1 + p_end_time) AT TIME ZONE v_event_tz
+    ELSE (p_date + p_end_time) AT TIME ZONE v_event_tz
+  END;
+
+  v_local_start := v_starts_at AT TIME ZONE v_musician_tz;
+  v_local_end := v_ends_at AT TIME ZONE v_musician_tz;
+
+  IF EXISTS (
+    SELECT 1 FROM public.engagements e
+    WHERE e.musician_user_id = p_user_id
+    AND e.status = 'confirmed'
+    AND e.event_date BETWEEN v_local_start::DATE - 1 AND v_local_end::DATE
+    AND (e.event_date + COALESCE(e.start_time, TIME '00:00')) < v_local_end
+    AND (CASE
+      WHEN e.start_time IS NULL OR e.end_time IS NULL THEN (e.event_date + 1)::TIMESTAMP
+      WHEN e.end_time <= e.start_time THEN e.event_date + 1 + e.end_time
+      ELSE e.event_date + e.end_time
+    END) > v_local_start
+  ) THEN
+    RETURN 'booked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.availability_blackouts b
+    WHERE b.user_id = p_user_id
+    AND b.starts_on <= v_local_end::DATE
+    AND b.ends_on >= v_local_start::DATE
+    AND (b.starts_on + COALESCE(b.start_time, TIME '00:00')) < v_local_end
+    AND (CASE WHEN b.end_time IS NULL THEN (b.ends_on + 1)::TIMESTAMP ELSE b.ends_on + b.end_time END) > v_local_start
+  ) THEN
+    RETURN 'blackout';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(v_availability->'weekly', '[]'::jsonb)) = 0 THEN
+    RETURN 'unscheduled';
+  END IF;
+
+  IF public.availability_covers(v_availability, v_local_start, v_local_end) THEN
+    RETURN 'free';
+  END IF;
+
+  RETURN 'outside_hours';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Who is free for a set: musicians (optionally limited to p_user_ids) whose status is 'free',
+-- plus 'unscheduled' ones unless p_include_unscheduled is false. Musicians with set hours come first.
+CREATE OR REPLACE FUNCTION public.find_free_musicians(
+  p_date DATE,
+  p_start_time TIME DEFAULT NULL,
+  p_end_time TIME DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_user_ids UUID[] DEFAULT NULL,
+  p_include_unscheduled BOOLEAN DEFAULT true,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  user_id UUID,
+  status TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT s.user_id, s.status
+  FROM (
+    SELECT ip.user_id, public.musician_availability_status(ip.user_id, p_date, p_start_time, p_end_time, p_timezone) AS status
+    FROM public.individual_profiles ip
+    WHERE (p_user_ids IS NULL OR ip.user_id = ANY(p_user_ids))
+  ) s
+  WHERE s.status = 'free' OR (p_include_unscheduled AND s.status = 'unscheduled')
+  ORDER BY (s.status = 'free') DESC, s.user_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Grant permissions
+GRANT ALL ON public.availability_blackouts TO authenticated;
+GRANT EXECUTE ON FUNCTION public.musician_availability_status(UUID, DATE, TIME, TIME, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.find_free_musicians(DATE, TIME, TIME, TEXT, UUID[], BOOLEAN, INTEGER) TO authenticated;
+
+COMMENT ON TABLE public.availability_blackouts IS 'Dates (or date-time ranges) a musician is unavailable, in their own timezone';
+COMMENT ON FUNCTION public.musician_availability_status IS 'free, unscheduled, outside_hours, blackout or booked for a set on a given date';
+COMMENT ON FUNCTION public.find_free_musicians IS 'Musicians free for a set on a given date, those with matching weekly hours first';
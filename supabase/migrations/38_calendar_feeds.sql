@@ -0,0 +1,64 @@
+-- Subscribable iCalendar feeds
+-- Each user can have one secret feed token; /api/calendar/<token>.ics serves their engagements,
+-- hired gigs (with rehearsals) and upcoming performances. Rotating the token revokes the old URL.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+
+  -- Secret part of the feed URL (64 hex characters)
+  token TEXT NOT NULL UNIQUE,
+
+  -- Usage
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for calendar_feeds table
+-- Tokens are issued by rotate_calendar_feed_token; the feed route looks them up with the service role
+CREATE POLICY "Users can view own calendar feed" ON public.calendar_feeds
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke own calendar feed" ON public.calendar_feeds
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER set_updated_at_calendar_feeds
+  BEFORE UPDATE ON public.calendar_feeds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Issue a new feed token for the current user, replacing (and so revoking) any existing one
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS TEXT AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_token TEXT := replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.calendar_feeds (user_id, token)
+  VALUES (v_user_id, v_token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token, last_accessed_at = NULL;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Grant permissions
+GRANT SELECT, DELETE ON public.calendar_feeds TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rotate_calendar_feed_token() TO authenticated;
+
+COMMENT ON TABLE public.calendar_feeds IS 'Secret tokens for per-user iCalendar subscription feeds';
+COMMENT ON FUNCTION public.rotate_calendar_feed_token IS 'Create or replace the current user''s calendar feed token';
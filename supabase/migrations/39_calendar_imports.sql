@@ -0,0 +1,110 @@
+-- Import busy time from external calendars into availability blackouts
+-- A musician uploads an .ics file or gives a feed URL; busy events are expanded (recurrences
+-- within a horizon), merged where they overlap and stored as blackouts owned by the import.
+-- Re-importing the same file name or URL replaces that import's blackouts, so nothing is duplicated.
+
+CREATE TABLE IF NOT EXISTS public.calendar_imports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Identity of the source: the feed URL, or 'file:' + the uploaded file name
+  source_key TEXT NOT NULL CHECK (length(source_key) <= 2048),
+  name TEXT NOT NULL CHECK (length(name) <= 200),
+  source_url TEXT CHECK (source_url IS NULL OR length(source_url) <= 2048), -- Set for feeds, which can be refreshed
+
+  -- Last run
+  last_imported_at TIMESTAMP WITH TIME ZONE,
+  blackout_count INTEGER DEFAULT 0 NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  UNIQUE(user_id, source_key)
+);
+
+-- Blackouts created by an import belong to it and go away with it
+ALTER TABLE public.availability_blackouts
+  ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES public.calendar_imports(id) ON DELETE CASCADE;
+ALTER TABLE public.availability_blackouts
+  ADD COLUMN IF NOT EXISTS external_uid TEXT;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_calendar_imports_user_id ON public.calendar_imports(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_availability_blackouts_import_uid
+  ON public.availability_blackouts(import_id, external_uid)
+  WHERE import_id IS NOT NULL;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.calendar_imports ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for calendar_imports table
+-- Source URLs are often secret feed addresses, so imports are private to their owner
+CREATE POLICY "Users can view own calendar imports" ON public.calendar_imports
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own calendar imports" ON public.calendar_imports
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER set_updated_at_calendar_imports
+  BEFORE UPDATE ON public.calendar_imports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Record an import for the current user and replace its blackouts in one transaction
+-- p_blackouts is an array of { external_uid, starts_on, ends_on, start_time, end_time }
+CREATE OR REPLACE FUNCTION public.replace_calendar_import(
+  p_source_key TEXT,
+  p_name TEXT,
+  p_source_url TEXT,
+  p_blackouts JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_import_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.calendar_imports (user_id, source_key, name, source_url, last_imported_at, blackout_count)
+  VALUES (
+    v_user_id,
+    p_source_key,
+    p_name,
+    p_source_url,
+    timezone('utc'::text, now()),
+    jsonb_array_length(COALESCE(p_blackouts, '[]'::jsonb))
+  )
+  ON CONFLICT (user_id, source_key) DO UPDATE
+  SET name = EXCLUDED.name,
+      source_url = EXCLUDED.source_url,
+      last_imported_at = EXCLUDED.last_imported_at,
+      blackout_count = EXCLUDED.blackout_count
+  RETURNING id INTO v_import_id;
+
+  DELETE FROM public.availability_blackouts WHERE import_id = v_import_id;
+
+  INSERT INTO public.availability_blackouts (user_id, import_id, external_uid, starts_on, ends_on, start_time, end_time)
+  SELECT v_user_id, v_import_id, b.external_uid, b.starts_on, b.ends_on, b.start_time, b.end_time
+  FROM jsonb_to_recordset(COALESCE(p_blackouts, '[]'::jsonb))
+    AS b(external_uid TEXT, starts_on DATE, ends_on DATE, start_time TIME, end_time TIME)
+  ON CONFLICT (import_id, external_uid) WHERE import_id IS NOT NULL DO NOTHING;
+
+  RETURN v_import_id;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY INVOKER SET search_path = public;
+
+-- Grant permissions
+GRANT ALL ON public.calendar_imports TO authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_calendar_import(TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+COMMENT ON TABLE public.calendar_imports IS 'External calendars (uploaded files or feed URLs) imported as availability blackouts';
+COMMENT ON COLUMN public.availability_blackouts.import_id IS 'Calendar import that created this blackout; null for blackouts added by hand';
+COMMENT ON COLUMN public.availability_blackouts.external_uid IS 'Stable key of the imported busy period within its import';
+COMMENT ON FUNCTION public.replace_calendar_import IS 'Upsert a calendar import for the current user and replace its blackouts';
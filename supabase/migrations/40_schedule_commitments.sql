@@ -0,0 +1,110 @@
+-- Musician schedules for conflict detection
+-- get_schedule_commitments lists what a musician has committed to between two dates: confirmed
+-- engagements, gigs they were hired for (with rehearsals) and availability blackouts. The app checks
+-- a gig or booking against it before applying, accepting or hiring, and shows clashes on the Schedule tab of /bookings.
+-- Engagements and hired gigs are private, so other users only see when the musician is busy.
+
+CREATE OR REPLACE FUNCTION public.get_schedule_commitments(
+  p_user_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (
+  kind TEXT, -- 'engagement', 'gig', 'rehearsal' or 'blackout'
+  source_id UUID, -- Engagement, gig or blackout id; null on someone else's engagements and gigs
+  title TEXT, -- Null on someone else's engagements and gigs
+  starts_on DATE,
+  ends_on DATE,
+  start_time TIME,
+  end_time TIME,
+  latitude DECIMAL, -- Venue coordinates of the musician's own in-person gigs
+  longitude DECIMAL
+) AS $$
+  WITH params AS (
+    SELECT
+      auth.uid() IS NOT NULL AND auth.uid() = p_user_id AS is_self,
+      p_from AS range_start,
+      -- Keep the range bounded; a year and a bit covers every caller
+      LEAST(p_to, p_from + 400) AS range_end
+    WHERE auth.uid() IS NOT NULL
+  ),
+  hired_gigs AS (
+    SELECT g.*
+    FROM public.gig_applications a
+    JOIN public.gigs g ON g.id = a.gig_id
+    WHERE a.applicant_user_id = p_user_id
+    AND a.status = 'hired'
+    AND g.status <> 'cancelled'
+  )
+  SELECT
+    'engagement'::TEXT,
+    CASE WHEN params.is_self THEN e.id END,
+    CASE WHEN params.is_self THEN e.title END,
+    e.event_date,
+    e.event_date,
+    e.start_time,
+    e.end_time,
+    NULL::DECIMAL,
+    NULL::DECIMAL
+  FROM public.engagements e, params
+  WHERE e.musician_user_id = p_user_id
+  AND e.status = 'confirmed'
+  AND e.event_date BETWEEN params.range_start AND params.range_end
+
+  UNION ALL
+
+  SELECT
+    'gig'::TEXT,
+    CASE WHEN params.is_self THEN g.id END,
+    CASE WHEN params.is_self THEN g.title END,
+    g.start_date,
+    COALESCE(g.end_date, g.start_date),
+    g.start_time,
+    g.end_time,
+    CASE WHEN params.is_self AND NOT g.is_remote THEN g.latitude END,
+    CASE WHEN params.is_self AND NOT g.is_remote THEN g.longitude END
+  FROM hired_gigs g, params
+  WHERE g.start_date <= params.range_end
+  AND COALESCE(g.end_date, g.start_date) >= params.range_start
+
+  UNION ALL
+
+  SELECT
+    'rehearsal'::TEXT,
+    CASE WHEN params.is_self THEN g.id END,
+    CASE WHEN params.is_self THEN g.title END,
+    r.day,
+    r.day,
+    NULL::TIME,
+    NULL::TIME,
+    NULL::DECIMAL,
+    NULL::DECIMAL
+  FROM hired_gigs g
+  CROSS JOIN LATERAL unnest(COALESCE(g.rehearsal_dates, ARRAY[]::DATE[])) AS r(day), params
+  WHERE r.day BETWEEN params.range_start AND params.range_end
+
+  UNION ALL
+
+  -- Blackouts (and their notes) are already visible on public profiles
+  SELECT
+    'blackout'::TEXT,
+    b.id,
+    b.note,
+    b.starts_on,
+    b.ends_on,
+    b.start_time,
+    b.end_time,
+    NULL::DECIMAL,
+    NULL::DECIMAL
+  FROM public.availability_blackouts b, params
+  WHERE b.user_id = p_user_id
+  AND b.starts_on <= params.range_end
+  AND b.ends_on >= params.range_start
+
+  ORDER BY 4, 6 NULLS FIRST;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.get_schedule_commitments(UUID, DATE, DATE) TO authenticated;
+
+COMMENT ON FUNCTION public.get_schedule_commitments IS 'A musician''s engagements, hired gigs, rehearsals and blackouts between two dates; details only for their own schedule';
@@ -0,0 +1,237 @@
+-- Events: upcoming public performances
+-- /events used to list rows from past_performances, which are a musician's own history. An event is a
+-- dated, public listing with a venue (optionally a venue organization on Bookd), a lineup of performers,
+-- tickets and capacity. Events are posted by a user, optionally on behalf of an organization they
+-- administer, and listed upcoming, this weekend or near a point through search_events.
+
+CREATE TABLE IF NOT EXISTS public.events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- Organizer (who posted the event)
+  created_by_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE SET NULL, -- Hosting organization
+
+  -- Basic event information
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  description TEXT,
+  event_type TEXT CHECK (event_type IN ('concert', 'recital', 'opera', 'musical_theater', 'jazz', 'chamber', 'orchestra', 'solo', 'open_mic', 'festival', 'other')),
+  genres TEXT[],
+  image_url TEXT,
+
+  -- Venue (venue_name is kept even when linked so the listing survives the venue leaving Bookd)
+  venue_name TEXT,
+  venue_organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE SET NULL,
+  venue_address TEXT,
+  city TEXT,
+  state_province TEXT,
+  country TEXT,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  geo_point extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+      THEN extensions.ST_SetSRID(extensions.ST_MakePoint(longitude::DOUBLE PRECISION, latitude::DOUBLE PRECISION), 4326)::extensions.geography
+    END
+  ) STORED,
+
+  -- Date and time
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA zone of the venue; times are shown in it
+
+  -- Tickets
+  ticket_url TEXT,
+  price_min DECIMAL(10,2) CHECK (price_min IS NULL OR price_min >= 0),
+  price_max DECIMAL(10,2) CHECK (price_max IS NULL OR price_max >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+
+  -- Event status
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+  cancellation_reason TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  -- Constraints
+  CONSTRAINT valid_event_time_range CHECK (ends_at IS NULL OR starts_at <= ends_at),
+  CONSTRAINT valid_event_price_range CHECK (price_min IS NULL OR price_max IS NULL OR price_min <= price_max)
+);
+
+-- Who is on the bill, in billing order; performers on Bookd are linked, anyone else is just a name
+CREATE TABLE IF NOT EXISTS public.event_performers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  performer_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  performer_organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE SET NULL,
+
+  -- Billing
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  role TEXT, -- e.g. 'Headliner', 'Support', 'Guest'
+  position INTEGER NOT NULL DEFAULT 0,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CONSTRAINT event_performer_single_link CHECK (performer_user_id IS NULL OR performer_organization_id IS NULL)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_events_starts_at ON public.events(starts_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_events_created_by ON public.events(created_by_user_id, starts_at DESC);
+CREATE INDEX IF NOT EXISTS idx_events_organization ON public.events(organization_id, starts_at DESC) WHERE organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_events_venue_organization ON public.events(venue_organization_id, starts_at DESC) WHERE venue_organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_events_geo_point ON public.events USING GIST(geo_point);
+CREATE INDEX IF NOT EXISTS idx_events_genres ON public.events USING GIN(genres);
+CREATE INDEX IF NOT EXISTS idx_event_performers_event ON public.event_performers(event_id, position);
+CREATE INDEX IF NOT EXISTS idx_event_performers_user ON public.event_performers(performer_user_id) WHERE performer_user_id IS NOT NULL;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_performers ENABLE ROW LEVEL SECURITY;
+
+-- Helper to check whether a user can edit an event: whoever posted it, or an admin of the hosting organization
+CREATE OR REPLACE FUNCTION public.can_manage_event(p_event_id UUID, p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = p_event_id
+    AND (
+      e.created_by_user_id = p_user_id OR
+      (e.organization_id IS NOT NULL AND public.is_organization_admin(e.organization_id, p_user_id))
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- RLS Policies for events table
+-- Events are public listings, cancelled ones included so links keep working
+CREATE POLICY "Anyone can view events" ON public.events
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create events" ON public.events
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by_user_id AND
+    (organization_id IS NULL OR public.is_organization_admin(organization_id, auth.uid()))
+  );
+
+CREATE POLICY "Organizers can update events" ON public.events
+  FOR UPDATE
+  USING (
+    auth.uid() = created_by_user_id OR
+    (organization_id IS NOT NULL AND public.is_organization_admin(organization_id, auth.uid()))
+  )
+  -- Events can only be moved to organizations the editor administers
+  WITH CHECK (organization_id IS NULL OR public.is_organization_admin(organization_id, auth.uid()));
+
+CREATE POLICY "Organizers can delete events" ON public.events
+  FOR DELETE
+  USING (
+    auth.uid() = created_by_user_id OR
+    (organization_id IS NOT NULL AND public.is_organization_admin(organization_id, auth.uid()))
+  );
+
+-- RLS Policies for event_performers table
+CREATE POLICY "Anyone can view event lineups" ON public.event_performers
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Organizers can add performers" ON public.event_performers
+  FOR INSERT
+  WITH CHECK (public.can_manage_event(event_id, auth.uid()));
+
+CREATE POLICY "Organizers can update performers" ON public.event_performers
+  FOR UPDATE
+  USING (public.can_manage_event(event_id, auth.uid()));
+
+CREATE POLICY "Organizers can remove performers" ON public.event_performers
+  FOR DELETE
+  USING (public.can_manage_event(event_id, auth.uid()));
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_events
+  BEFORE UPDATE ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to list scheduled events that haven't finished, soonest first (nearest first with an origin)
+-- An event with no end time is treated as running for three hours
+CREATE OR REPLACE FUNCTION public.search_events(
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_genre TEXT DEFAULT NULL,
+  p_event_type TEXT DEFAULT NULL,
+  p_free_only BOOLEAN DEFAULT false,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  event JSONB,
+  distance_km DOUBLE PRECISION
+) AS $$
+DECLARE
+  origin extensions.geography;
+  range_start TIMESTAMP WITH TIME ZONE := COALESCE(p_from, now());
+BEGIN
+  IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+    origin := extensions.ST_SetSRID(extensions.ST_MakePoint(p_longitude, p_latitude), 4326)::extensions.geography;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (to_jsonb(e) - 'geo_point') || jsonb_build_object(
+      'organization', CASE WHEN o.id IS NULL THEN NULL ELSE jsonb_build_object('id', o.id, 'name', o.name, 'logo_url', o.logo_url) END,
+      'venue_organization', CASE WHEN v.id IS NULL THEN NULL ELSE jsonb_build_object('id', v.id, 'name', v.name, 'logo_url', v.logo_url) END,
+      'lineup', COALESCE((
+        SELECT jsonb_agg(to_jsonb(p) || jsonb_build_object(
+          'performer_user', CASE WHEN pu.id IS NULL THEN NULL ELSE jsonb_build_object('id', pu.id, 'full_name', pu.full_name, 'avatar_url', pu.avatar_url) END,
+          'performer_organization', CASE WHEN po.id IS NULL THEN NULL ELSE jsonb_build_object('id', po.id, 'name', po.name, 'logo_url', po.logo_url) END
+        ) ORDER BY p.position, p.created_at)
+        FROM public.event_performers p
+        LEFT JOIN public.users pu ON pu.id = p.performer_user_id
+        LEFT JOIN public.organization_profiles po ON po.id = p.performer_organization_id
+        WHERE p.event_id = e.id
+      ), '[]'::jsonb)
+    ) AS event,
+    CASE WHEN origin IS NULL OR e.geo_point IS NULL THEN NULL
+      ELSE extensions.ST_Distance(e.geo_point, origin) / 1000
+    END AS distance_km
+  FROM public.events e
+  LEFT JOIN public.organization_profiles o ON o.id = e.organization_id
+  LEFT JOIN public.organization_profiles v ON v.id = e.venue_organization_id
+  WHERE e.status = 'scheduled'
+  AND COALESCE(e.ends_at, e.starts_at + INTERVAL '3 hours') >= range_start
+  AND (p_to IS NULL OR e.starts_at < p_to)
+  -- Radius search only matches events that have been geocoded
+  AND (origin IS NULL OR p_radius_km IS NULL OR extensions.ST_DWithin(e.geo_point, origin, p_radius_km * 1000))
+  AND (p_genre IS NULL OR e.genres @> ARRAY[p_genre])
+  AND (p_event_type IS NULL OR e.event_type = p_event_type)
+  AND (NOT p_free_only OR COALESCE(e.price_max, e.price_min) = 0)
+  ORDER BY
+    CASE WHEN origin IS NULL OR e.geo_point IS NULL THEN NULL ELSE extensions.ST_Distance(e.geo_point, origin) END ASC NULLS LAST,
+    e.starts_at ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Grant permissions
+GRANT ALL ON public.events TO authenticated;
+GRANT ALL ON public.event_performers TO authenticated;
+GRANT SELECT ON public.events TO anon;
+GRANT SELECT ON public.event_performers TO anon;
+GRANT EXECUTE ON FUNCTION public.can_manage_event(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_events(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, NUMERIC, INTEGER, INTEGER) TO authenticated, anon;
+
+COMMENT ON TABLE public.events IS 'Upcoming public events (concerts, recitals, open mics...) with venue, tickets and capacity';
+COMMENT ON TABLE public.event_performers IS 'Lineup of an event in billing order; linked to Bookd users or organizations when possible';
+COMMENT ON FUNCTION public.search_events IS 'Scheduled events that have not finished, filtered by date range, genre, type, price and radius';
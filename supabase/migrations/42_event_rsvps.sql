@@ -0,0 +1,213 @@
+-- Event RSVPs and reminders
+-- Anyone signed in can mark an upcoming event as Going or Interested. Counts on events are kept in
+-- sync by triggers, organizers see who is coming, and attendees get an in-app notification the day
+-- before. Reminders are written by send_event_reminders(), called from /api/cron/event-reminders.
+
+-- Denormalized counts, maintained by update_event_rsvp_counts()
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS going_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS interested_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.event_rsvps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- References
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- RSVP
+  status TEXT NOT NULL CHECK (status IN ('going', 'interested')),
+  reminder_sent_at TIMESTAMP WITH TIME ZONE, -- Set once the day-before reminder has been written
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  -- One RSVP per person per event
+  UNIQUE(event_id, user_id)
+);
+
+-- In-app notifications, one row per recipient. Only SECURITY DEFINER jobs and triggers write them.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- Recipient
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Content
+  type TEXT NOT NULL, -- e.g. 'event_reminder'
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT, -- In-app path to open, e.g. /events/<id>
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- State
+  read_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_event ON public.event_rsvps(event_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_user ON public.event_rsvps(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_pending_reminder ON public.event_rsvps(event_id) WHERE reminder_sent_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.event_rsvps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for event_rsvps table
+-- People see their own RSVPs; organizers see everyone's so they can view the attendee list
+CREATE POLICY "Users can view own RSVPs" ON public.event_rsvps
+  FOR SELECT
+  USING (auth.uid() = user_id OR public.can_manage_event(event_id, auth.uid()));
+
+-- Only scheduled events that have not finished take RSVPs
+CREATE POLICY "Users can RSVP to upcoming events" ON public.event_rsvps
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_rsvps.event_id
+      AND e.status = 'scheduled'
+      AND COALESCE(e.ends_at, e.starts_at + INTERVAL '3 hours') > now()
+    )
+  );
+
+-- Only status can change (see the column grant below); reminder_sent_at is the job's
+CREATE POLICY "Users can update own RSVPs" ON public.event_rsvps
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own RSVPs" ON public.event_rsvps
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for notifications table
+CREATE POLICY "Users can view own notifications" ON public.notifications
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark own notifications read" ON public.notifications
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications" ON public.notifications
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_event_rsvps
+  BEFORE UPDATE ON public.event_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to keep going_count / interested_count in sync, including switches between the two
+-- SECURITY DEFINER because attendees cannot update events themselves
+CREATE OR REPLACE FUNCTION public.update_event_rsvp_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.events
+    SET
+      going_count = going_count - CASE WHEN OLD.status = 'going' THEN 1 ELSE 0 END,
+      interested_count = interested_count - CASE WHEN OLD.status = 'interested' THEN 1 ELSE 0 END
+    WHERE id = OLD.event_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE public.events
+    SET
+      going_count = going_count + CASE WHEN NEW.status = 'going' THEN 1 ELSE 0 END,
+      interested_count = interested_count + CASE WHEN NEW.status = 'interested' THEN 1 ELSE 0 END
+    WHERE id = NEW.event_id;
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_event_rsvp_counts_on_insert
+  AFTER INSERT ON public.event_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_event_rsvp_counts();
+
+CREATE TRIGGER update_event_rsvp_counts_on_update
+  AFTER UPDATE OF status ON public.event_rsvps
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.update_event_rsvp_counts();
+
+CREATE TRIGGER update_event_rsvp_counts_on_delete
+  AFTER DELETE ON public.event_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_event_rsvp_counts();
+
+-- Function to write a reminder for every RSVP to an event starting in the next 24 hours
+-- Meant to run hourly; reminder_sent_at keeps each person from being reminded twice
+CREATE OR REPLACE FUNCTION public.send_event_reminders()
+RETURNS JSONB AS $$
+DECLARE
+  run_started_at TIMESTAMP WITH TIME ZONE := timezone('utc'::text, now());
+  due RECORD;
+  reminded_count INTEGER := 0;
+BEGIN
+  FOR due IN
+    SELECT r.id, r.user_id, r.status, e.id AS event_id, e.title, e.starts_at, e.venue_name
+    FROM public.event_rsvps r
+    JOIN public.events e ON e.id = r.event_id
+    WHERE r.reminder_sent_at IS NULL
+    AND e.status = 'scheduled'
+    AND e.starts_at > run_started_at
+    AND e.starts_at <= run_started_at + INTERVAL '24 hours'
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    INSERT INTO public.notifications (user_id, type, title, body, link, data)
+    VALUES (
+      due.user_id,
+      'event_reminder',
+      due.title || ' is tomorrow',
+      CASE WHEN due.status = 'going'
+        THEN 'You said you''re going'
+        ELSE 'You marked this event as interesting'
+      END || COALESCE(' · ' || due.venue_name, ''),
+      '/events/' || due.event_id,
+      jsonb_build_object('event_id', due.event_id, 'starts_at', due.starts_at, 'rsvp_status', due.status)
+    );
+
+    UPDATE public.event_rsvps
+    SET reminder_sent_at = run_started_at
+    WHERE id = due.id;
+
+    reminded_count := reminded_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'run_at', run_started_at,
+    'reminded_count', reminded_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler (service role) may run the job
+REVOKE ALL ON FUNCTION public.send_event_reminders() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.send_event_reminders() FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.send_event_reminders() TO service_role;
+
+-- Grant permissions
+GRANT ALL ON public.event_rsvps TO authenticated;
+-- Column grants only narrow UPDATE once the default table-wide grant is gone
+REVOKE UPDATE ON public.event_rsvps FROM authenticated;
+GRANT UPDATE (status) ON public.event_rsvps TO authenticated;
+GRANT SELECT, UPDATE, DELETE ON public.notifications TO authenticated;
+
+COMMENT ON TABLE public.event_rsvps IS 'Going / Interested RSVPs to events; counts are mirrored on events';
+COMMENT ON TABLE public.notifications IS 'Persistent in-app notifications, written by triggers and scheduled jobs';
+COMMENT ON FUNCTION public.send_event_reminders IS 'Writes a day-before reminder notification for each RSVP to an event starting within 24 hours';
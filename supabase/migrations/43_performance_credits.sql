@@ -0,0 +1,214 @@
+-- Performance credits: multi-performer lineups for past performances
+-- A past_performances or organization_performances row belongs to one owner. Credits let the owner
+-- tag the other Bookd musicians and organizations who took part, each with a role ("Principal
+-- Cello", "Sound Engineer"). A credit stays pending until the tagged person (or an admin of the
+-- tagged organization) confirms it; confirmed credits show on the participant's own profile.
+
+CREATE TABLE IF NOT EXISTS public.performance_credits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- The performance being credited (exactly one)
+  past_performance_id UUID REFERENCES public.past_performances(id) ON DELETE CASCADE,
+  organization_performance_id UUID REFERENCES public.organization_performances(id) ON DELETE CASCADE,
+
+  -- Who is credited (exactly one)
+  credited_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  credited_organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE CASCADE,
+
+  -- Credit details
+  role TEXT, -- e.g. 'Principal Cello', 'Sound Engineer'
+  position INTEGER NOT NULL DEFAULT 0, -- Order in the lineup
+
+  -- Confirmation
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'declined')),
+  added_by_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  -- Constraints
+  CONSTRAINT performance_credit_single_performance CHECK (
+    (past_performance_id IS NOT NULL)::INTEGER + (organization_performance_id IS NOT NULL)::INTEGER = 1
+  ),
+  CONSTRAINT performance_credit_single_party CHECK (
+    (credited_user_id IS NOT NULL)::INTEGER + (credited_organization_id IS NOT NULL)::INTEGER = 1
+  )
+);
+
+-- Create indexes for better performance
+-- Each party is credited at most once per performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_performance_credits_past_user
+  ON public.performance_credits(past_performance_id, credited_user_id) WHERE past_performance_id IS NOT NULL AND credited_user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_performance_credits_past_org
+  ON public.performance_credits(past_performance_id, credited_organization_id) WHERE past_performance_id IS NOT NULL AND credited_organization_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_performance_credits_org_perf_user
+  ON public.performance_credits(organization_performance_id, credited_user_id) WHERE organization_performance_id IS NOT NULL AND credited_user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_performance_credits_org_perf_org
+  ON public.performance_credits(organization_performance_id, credited_organization_id) WHERE organization_performance_id IS NOT NULL AND credited_organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_performance_credits_user ON public.performance_credits(credited_user_id, status) WHERE credited_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_performance_credits_org ON public.performance_credits(credited_organization_id, status) WHERE credited_organization_id IS NOT NULL;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.performance_credits ENABLE ROW LEVEL SECURITY;
+
+-- Helper to check whether a user owns the performance a credit is attached to
+CREATE OR REPLACE FUNCTION public.can_manage_performance_credits(
+  p_past_performance_id UUID,
+  p_organization_performance_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_past_performance_id IS NOT NULL THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.past_performances pp
+      WHERE pp.id = p_past_performance_id AND pp.user_id = p_user_id
+    );
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.organization_performances op
+    WHERE op.id = p_organization_performance_id
+    AND public.is_organization_admin(op.organization_id, p_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Helper to check whether a user answers for the credited party (themselves, or an organization they administer)
+CREATE OR REPLACE FUNCTION public.can_respond_to_performance_credit(
+  p_credited_user_id UUID,
+  p_credited_organization_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN p_credited_user_id = p_user_id OR
+    (p_credited_organization_id IS NOT NULL AND public.is_organization_admin(p_credited_organization_id, p_user_id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- RLS Policies for performance_credits table
+-- Confirmed credits are public like the performances themselves; pending and declined ones are
+-- only visible to the performance owner and the tagged party
+CREATE POLICY "Anyone can view confirmed credits" ON public.performance_credits
+  FOR SELECT
+  USING (
+    status = 'confirmed' OR
+    public.can_manage_performance_credits(past_performance_id, organization_performance_id, auth.uid()) OR
+    public.can_respond_to_performance_credit(credited_user_id, credited_organization_id, auth.uid())
+  );
+
+CREATE POLICY "Performance owners can add credits" ON public.performance_credits
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = added_by_user_id AND
+    status = 'pending' AND
+    public.can_manage_performance_credits(past_performance_id, organization_performance_id, auth.uid())
+  );
+
+-- Owners edit roles and order; tagged parties confirm or decline (enforced by handle_performance_credit_update)
+CREATE POLICY "Owners and tagged parties can update credits" ON public.performance_credits
+  FOR UPDATE
+  USING (
+    public.can_manage_performance_credits(past_performance_id, organization_performance_id, auth.uid()) OR
+    public.can_respond_to_performance_credit(credited_user_id, credited_organization_id, auth.uid())
+  );
+
+-- Either side can remove a credit
+CREATE POLICY "Owners and tagged parties can remove credits" ON public.performance_credits
+  FOR DELETE
+  USING (
+    public.can_manage_performance_credits(past_performance_id, organization_performance_id, auth.uid()) OR
+    public.can_respond_to_performance_credit(credited_user_id, credited_organization_id, auth.uid())
+  );
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_performance_credits
+  BEFORE UPDATE ON public.performance_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to keep each side to its own columns: only the tagged party changes status, only the
+-- owner changes role and order, and nobody moves a credit to another performance or party
+CREATE OR REPLACE FUNCTION public.handle_performance_credit_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.past_performance_id IS DISTINCT FROM OLD.past_performance_id OR
+     NEW.organization_performance_id IS DISTINCT FROM OLD.organization_performance_id OR
+     NEW.credited_user_id IS DISTINCT FROM OLD.credited_user_id OR
+     NEW.credited_organization_id IS DISTINCT FROM OLD.credited_organization_id THEN
+    RAISE EXCEPTION 'A credit cannot be moved to another performance or person';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT public.can_respond_to_performance_credit(OLD.credited_user_id, OLD.credited_organization_id, auth.uid()) THEN
+      RAISE EXCEPTION 'Only the credited musician or organization can confirm a credit';
+    END IF;
+    NEW.responded_at := timezone('utc'::text, now());
+  END IF;
+
+  IF (NEW.role IS DISTINCT FROM OLD.role OR NEW.position IS DISTINCT FROM OLD.position) AND
+     NOT public.can_manage_performance_credits(OLD.past_performance_id, OLD.organization_performance_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the performance owner can change a credit''s role';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER handle_performance_credit_update
+  BEFORE UPDATE ON public.performance_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_performance_credit_update();
+
+-- Function to tell a tagged musician (or the admins of a tagged organization) about a new credit
+CREATE OR REPLACE FUNCTION public.notify_performance_credit()
+RETURNS TRIGGER AS $$
+DECLARE
+  performance_title TEXT;
+  added_by_name TEXT;
+BEGIN
+  IF NEW.past_performance_id IS NOT NULL THEN
+    SELECT title INTO performance_title FROM public.past_performances WHERE id = NEW.past_performance_id;
+  ELSE
+    SELECT title INTO performance_title FROM public.organization_performances WHERE id = NEW.organization_performance_id;
+  END IF;
+
+  SELECT COALESCE(full_name, 'A Bookd member') INTO added_by_name FROM public.users WHERE id = NEW.added_by_user_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, data)
+  SELECT
+    recipient.user_id,
+    'performance_credit',
+    COALESCE(added_by_name, 'A Bookd member') || ' credited you on ' || COALESCE(performance_title, 'a performance'),
+    CASE WHEN NEW.role IS NOT NULL THEN 'Role: ' || NEW.role || '. ' ELSE '' END || 'Confirm it to show it on your profile.',
+    '/profile',
+    jsonb_build_object('credit_id', NEW.id, 'credited_organization_id', NEW.credited_organization_id)
+  FROM (
+    SELECT NEW.credited_user_id AS user_id WHERE NEW.credited_user_id IS NOT NULL
+    UNION
+    SELECT oa.user_id FROM public.org_admins oa
+    WHERE oa.organization_id = NEW.credited_organization_id
+    AND oa.is_active = true
+    AND oa.invitation_accepted = true
+  ) recipient
+  WHERE recipient.user_id IS DISTINCT FROM NEW.added_by_user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_performance_credit_on_insert
+  AFTER INSERT ON public.performance_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_performance_credit();
+
+-- Grant permissions
+GRANT ALL ON public.performance_credits TO authenticated;
+GRANT SELECT ON public.performance_credits TO anon;
+GRANT EXECUTE ON FUNCTION public.can_manage_performance_credits(UUID, UUID, UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.can_respond_to_performance_credit(UUID, UUID, UUID) TO authenticated, anon;
+
+COMMENT ON TABLE public.performance_credits IS 'Lineup credits on past and organization performances, confirmed by the credited musician or organization';
@@ -0,0 +1,263 @@
+-- Venue links: tie free-text venues to venue organizations on Bookd
+-- past_performances.venue, organization_performances.venue and gigs.venue_name are free text, so the
+-- same hall turns up under many spellings. Each table gains an optional venue_organization_id that
+-- points at an organization_profiles row with organization_type = 'venue'; the text stays as typed
+-- (and as the fallback for venues that aren't on Bookd). Names are matched with trigrams, both for
+-- suggestions while typing and for a one-off backfill that proposes links for existing rows.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Trigram index for fuzzy venue name matching
+CREATE INDEX IF NOT EXISTS idx_organization_profiles_venue_name_trgm
+  ON public.organization_profiles USING GIN (name gin_trgm_ops)
+  WHERE organization_type = 'venue';
+
+-- 1) Link columns
+ALTER TABLE public.past_performances
+  ADD COLUMN IF NOT EXISTS venue_organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.organization_performances
+  ADD COLUMN IF NOT EXISTS venue_organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.gigs
+  ADD COLUMN IF NOT EXISTS venue_organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_past_performances_venue_organization
+  ON public.past_performances(venue_organization_id, performance_date DESC) WHERE venue_organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_org_performances_venue_organization
+  ON public.organization_performances(venue_organization_id, performance_date DESC) WHERE venue_organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_gigs_venue_organization
+  ON public.gigs(venue_organization_id, start_date DESC) WHERE venue_organization_id IS NOT NULL;
+
+-- Function to make sure a venue link points at a venue, shared by all three tables
+CREATE OR REPLACE FUNCTION public.validate_venue_organization_link()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.venue_organization_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.organization_profiles
+    WHERE id = NEW.venue_organization_id AND organization_type = 'venue'
+  ) THEN
+    RAISE EXCEPTION 'Linked venue must be a venue organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_venue_link_past_performances
+  BEFORE INSERT OR UPDATE OF venue_organization_id ON public.past_performances
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_venue_organization_link();
+
+CREATE TRIGGER validate_venue_link_organization_performances
+  BEFORE INSERT OR UPDATE OF venue_organization_id ON public.organization_performances
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_venue_organization_link();
+
+CREATE TRIGGER validate_venue_link_gigs
+  BEFORE INSERT OR UPDATE OF venue_organization_id ON public.gigs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_venue_organization_link();
+
+-- 2) Fuzzy venue search for suggestions while typing. Runs as the caller, so it only returns venues
+-- the caller can already see. word_similarity lets a partially typed name ("carneg") match.
+CREATE OR REPLACE FUNCTION public.search_venues(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  state_province TEXT,
+  country TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  capacity INTEGER,
+  similarity REAL
+) AS $$
+  SELECT
+    op.id, op.name, op.address, op.city, op.state_province, op.country,
+    op.latitude, op.longitude, op.capacity,
+    GREATEST(similarity(op.name, btrim(p_query)), word_similarity(btrim(p_query), op.name)) AS similarity
+  FROM public.organization_profiles op
+  WHERE op.organization_type = 'venue'
+  AND op.active = true
+  AND length(btrim(p_query)) >= 2
+  AND (op.name % btrim(p_query) OR btrim(p_query) <% op.name OR op.name ILIKE '%' || btrim(p_query) || '%')
+  ORDER BY similarity DESC, op.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- 3) Suggested links for rows typed before venues could be linked
+CREATE TABLE IF NOT EXISTS public.venue_link_suggestions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- The row whose free-text venue was matched
+  source_type TEXT NOT NULL CHECK (source_type IN ('past_performance', 'organization_performance', 'gig')),
+  source_id UUID NOT NULL,
+  venue_text TEXT NOT NULL, -- The text as it was when matched
+
+  -- The suggested venue
+  venue_organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE CASCADE NOT NULL,
+  similarity REAL NOT NULL,
+
+  -- Review
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'dismissed')),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  UNIQUE(source_type, source_id, venue_organization_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_venue_link_suggestions_source
+  ON public.venue_link_suggestions(source_type, source_id) WHERE status = 'pending';
+
+ALTER TABLE public.venue_link_suggestions ENABLE ROW LEVEL SECURITY;
+
+-- Helper to check whether a user may edit the venue of a performance or gig
+CREATE OR REPLACE FUNCTION public.can_edit_venue_link(
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_source_type = 'past_performance' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.past_performances WHERE id = p_source_id AND user_id = p_user_id
+    );
+  ELSIF p_source_type = 'organization_performance' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.organization_performances op
+      WHERE op.id = p_source_id AND public.is_organization_admin(op.organization_id, p_user_id)
+    );
+  ELSIF p_source_type = 'gig' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.gigs g
+      WHERE g.id = p_source_id
+      AND (g.posted_by_user_id = p_user_id OR
+        (g.posted_by_organization_id IS NOT NULL AND public.is_organization_admin(g.posted_by_organization_id, p_user_id)))
+    );
+  END IF;
+
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- RLS Policies for venue_link_suggestions table
+-- Owners see suggestions for their own rows; they resolve them through resolve_venue_link_suggestion
+CREATE POLICY "Owners can view their venue link suggestions" ON public.venue_link_suggestions
+  FOR SELECT
+  USING (public.can_edit_venue_link(source_type, source_id, auth.uid()));
+
+-- Function to propose links for unlinked rows whose venue text closely matches a venue's name.
+-- Only the best match per row is suggested, and rows already suggested for are skipped, so the
+-- backfill can be re-run as venues join without repeating itself.
+CREATE OR REPLACE FUNCTION public.suggest_venue_links(p_min_similarity REAL DEFAULT 0.45)
+RETURNS JSONB AS $$
+DECLARE
+  suggested INTEGER;
+BEGIN
+  WITH sources AS (
+    SELECT 'past_performance'::TEXT AS source_type, pp.id AS source_id, btrim(pp.venue) AS venue_text
+    FROM public.past_performances pp
+    WHERE pp.venue_organization_id IS NULL AND length(btrim(COALESCE(pp.venue, ''))) >= 3
+    UNION ALL
+    SELECT 'organization_performance', op.id, btrim(op.venue)
+    FROM public.organization_performances op
+    WHERE op.venue_organization_id IS NULL AND length(btrim(COALESCE(op.venue, ''))) >= 3
+    UNION ALL
+    SELECT 'gig', g.id, btrim(g.venue_name)
+    FROM public.gigs g
+    WHERE g.venue_organization_id IS NULL AND length(btrim(COALESCE(g.venue_name, ''))) >= 3
+  ),
+  best AS (
+    SELECT DISTINCT ON (s.source_type, s.source_id)
+      s.source_type, s.source_id, s.venue_text, v.id AS venue_organization_id,
+      similarity(v.name, s.venue_text) AS similarity
+    FROM sources s
+    JOIN public.organization_profiles v
+      ON v.organization_type = 'venue' AND v.active = true AND v.name % s.venue_text
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.venue_link_suggestions vls
+      WHERE vls.source_type = s.source_type AND vls.source_id = s.source_id
+    )
+    ORDER BY s.source_type, s.source_id, similarity(v.name, s.venue_text) DESC
+  ),
+  inserted AS (
+    INSERT INTO public.venue_link_suggestions (source_type, source_id, venue_text, venue_organization_id, similarity)
+    SELECT source_type, source_id, venue_text, venue_organization_id, similarity
+    FROM best
+    WHERE similarity >= p_min_similarity
+    ON CONFLICT (source_type, source_id, venue_organization_id) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO suggested FROM inserted;
+
+  RETURN jsonb_build_object(
+    'run_at', timezone('utc'::text, now()),
+    'suggested_count', suggested
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function for an owner to accept (link the row) or dismiss a suggestion
+CREATE OR REPLACE FUNCTION public.resolve_venue_link_suggestion(
+  p_suggestion_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  suggestion public.venue_link_suggestions%ROWTYPE;
+BEGIN
+  SELECT * INTO suggestion FROM public.venue_link_suggestions
+  WHERE id = p_suggestion_id AND status = 'pending';
+
+  IF NOT FOUND OR NOT public.can_edit_venue_link(suggestion.source_type, suggestion.source_id, auth.uid()) THEN
+    RETURN false;
+  END IF;
+
+  IF p_accept THEN
+    IF suggestion.source_type = 'past_performance' THEN
+      UPDATE public.past_performances SET venue_organization_id = suggestion.venue_organization_id WHERE id = suggestion.source_id;
+    ELSIF suggestion.source_type = 'organization_performance' THEN
+      UPDATE public.organization_performances SET venue_organization_id = suggestion.venue_organization_id WHERE id = suggestion.source_id;
+    ELSE
+      UPDATE public.gigs SET venue_organization_id = suggestion.venue_organization_id WHERE id = suggestion.source_id;
+    END IF;
+  END IF;
+
+  -- Accepting one suggestion settles the row, so any others for it are dismissed
+  UPDATE public.venue_link_suggestions
+  SET
+    status = CASE WHEN id = suggestion.id AND p_accept THEN 'accepted' ELSE 'dismissed' END,
+    resolved_at = timezone('utc'::text, now())
+  WHERE status = 'pending'
+  AND (id = suggestion.id OR (p_accept AND source_type = suggestion.source_type AND source_id = suggestion.source_id));
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.search_venues(TEXT, INTEGER) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.can_edit_venue_link(TEXT, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_venue_link_suggestion(UUID, BOOLEAN) TO authenticated;
+GRANT SELECT ON public.venue_link_suggestions TO authenticated;
+
+-- The backfill is run by operators, not from the app
+REVOKE ALL ON FUNCTION public.suggest_venue_links(REAL) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.suggest_venue_links(REAL) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.suggest_venue_links(REAL) TO service_role;
+
+-- One-off backfill of suggestions for rows entered before venue linking existed
+SELECT public.suggest_venue_links();
+
+COMMENT ON COLUMN public.past_performances.venue_organization_id IS 'Venue organization the free-text venue refers to, if it is on Bookd';
+COMMENT ON COLUMN public.organization_performances.venue_organization_id IS 'Venue organization the free-text venue refers to, if it is on Bookd';
+COMMENT ON COLUMN public.gigs.venue_organization_id IS 'Venue organization the free-text venue_name refers to, if it is on Bookd';
+COMMENT ON TABLE public.venue_link_suggestions IS 'Fuzzy matches between free-text venues and venue organizations, awaiting the row owner''s review';
@@ -0,0 +1,430 @@
+-- Notification center: fill the notifications table (created in 42) from social and gig activity
+-- Triggers notify people when someone follows them, likes their post, comments on their post or
+-- replies to their comment, when a gig they applied to changes, and when their application moves.
+-- Followers also hear about new posts, gigs and events from the accounts they follow, subject to
+-- follows.notifications_enabled and the per-kind switches in follows.notification_types.
+
+-- 1) Who caused the notification, so the bell can show their avatar
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS actor_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_type_actor
+  ON public.notifications(user_id, type, actor_user_id, created_at DESC);
+
+-- Function to write one notification. Nobody is notified about their own actions.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT DEFAULT NULL,
+  p_link TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::jsonb,
+  p_actor_user_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id IS NOT DISTINCT FROM p_actor_user_id THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, data, actor_user_id)
+  VALUES (p_user_id, p_type, p_title, p_body, p_link, COALESCE(p_data, '{}'::jsonb), p_actor_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to notify everyone following a user or organization who wants this kind of update.
+-- p_kind is a key of follows.notification_types ('posts', 'gigs' or 'events'); missing keys count as on.
+CREATE OR REPLACE FUNCTION public.notify_followers(
+  p_followed_user_id UUID,
+  p_followed_organization_id UUID,
+  p_kind TEXT,
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT DEFAULT NULL,
+  p_link TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::jsonb,
+  p_actor_user_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, title, body, link, data, actor_user_id)
+  SELECT DISTINCT f.follower_user_id, p_type, p_title, p_body, p_link, COALESCE(p_data, '{}'::jsonb), p_actor_user_id
+  FROM public.follows f
+  WHERE f.status = 'active'
+  AND COALESCE(f.notifications_enabled, true)
+  AND COALESCE((f.notification_types ->> p_kind)::BOOLEAN, true)
+  AND (
+    (p_followed_organization_id IS NOT NULL AND f.followed_organization_id = p_followed_organization_id) OR
+    (p_followed_organization_id IS NULL AND f.followed_user_id = p_followed_user_id)
+  )
+  AND f.follower_user_id IS DISTINCT FROM p_actor_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Short display name for a user in notification titles
+CREATE OR REPLACE FUNCTION public.notification_actor_name(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT NULLIF(btrim(full_name), '') FROM public.users WHERE id = p_user_id),
+    'Someone'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2) New followers (toggle_follow_user inserts the follow row)
+CREATE OR REPLACE FUNCTION public.notify_new_follower()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.followed_user_id IS NULL OR NEW.status != 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Following, unfollowing and following again shouldn't notify twice in a day
+  IF EXISTS (
+    SELECT 1 FROM public.notifications
+    WHERE user_id = NEW.followed_user_id
+    AND type = 'new_follower'
+    AND actor_user_id = NEW.follower_user_id
+    AND created_at > timezone('utc'::text, now()) - INTERVAL '1 day'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.followed_user_id,
+    'new_follower',
+    public.notification_actor_name(NEW.follower_user_id) || ' started following you',
+    NULL,
+    '/profile/' || NEW.follower_user_id,
+    jsonb_build_object('follow_id', NEW.id),
+    NEW.follower_user_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_new_follower_on_insert
+  AFTER INSERT ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_follower();
+
+-- 3) Likes (toggle_post_like inserts the like row)
+CREATE OR REPLACE FUNCTION public.notify_post_like()
+RETURNS TRIGGER AS $$
+DECLARE
+  post RECORD;
+BEGIN
+  SELECT id, user_id, title, content INTO post FROM public.posts WHERE id = NEW.post_id;
+  IF post.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Switching reactions deletes and re-inserts; one unread notification per liker is enough
+  IF EXISTS (
+    SELECT 1 FROM public.notifications
+    WHERE user_id = post.user_id
+    AND type = 'post_like'
+    AND actor_user_id = NEW.user_id
+    AND data ->> 'post_id' = NEW.post_id::TEXT
+    AND read_at IS NULL
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    post.user_id,
+    'post_like',
+    public.notification_actor_name(NEW.user_id) || ' liked your post',
+    left(COALESCE(post.title, post.content), 140),
+    '/home',
+    jsonb_build_object('post_id', NEW.post_id, 'reaction_type', NEW.reaction_type),
+    NEW.user_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_post_like_on_insert
+  AFTER INSERT ON public.post_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_post_like();
+
+-- 4) Comments: replies notify the parent comment's author, top-level comments the post's author
+CREATE OR REPLACE FUNCTION public.notify_post_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  recipient_id UUID;
+  post_author_id UUID;
+  actor_name TEXT := public.notification_actor_name(NEW.user_id);
+BEGIN
+  SELECT user_id INTO post_author_id FROM public.posts WHERE id = NEW.post_id;
+
+  IF NEW.parent_comment_id IS NOT NULL THEN
+    SELECT user_id INTO recipient_id FROM public.post_comments WHERE id = NEW.parent_comment_id;
+
+    PERFORM public.create_notification(
+      recipient_id,
+      'comment_reply',
+      actor_name || ' replied to your comment',
+      left(NEW.content, 140),
+      '/home',
+      jsonb_build_object('post_id', NEW.post_id, 'comment_id', NEW.id, 'parent_comment_id', NEW.parent_comment_id),
+      NEW.user_id
+    );
+  END IF;
+
+  -- The post's author hears about every comment, unless they were just told about it as a reply
+  IF post_author_id IS DISTINCT FROM recipient_id THEN
+    PERFORM public.create_notification(
+      post_author_id,
+      'post_comment',
+      actor_name || ' commented on your post',
+      left(NEW.content, 140),
+      '/home',
+      jsonb_build_object('post_id', NEW.post_id, 'comment_id', NEW.id),
+      NEW.user_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_post_comment_on_insert
+  AFTER INSERT ON public.post_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_post_comment();
+
+-- 5) New posts from followed accounts
+CREATE OR REPLACE FUNCTION public.notify_followers_of_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT COALESCE(NEW.is_published, true) OR NEW.visibility NOT IN ('public', 'followers') THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.notify_followers(
+    NEW.user_id,
+    NEW.organization_id,
+    'posts',
+    'followed_post',
+    COALESCE(
+      (SELECT name FROM public.organization_profiles WHERE id = NEW.organization_id),
+      public.notification_actor_name(NEW.user_id)
+    ) || ' shared a new post',
+    left(COALESCE(NEW.title, NEW.content), 140),
+    '/home',
+    jsonb_build_object('post_id', NEW.id),
+    NEW.user_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_followers_of_post_on_insert
+  AFTER INSERT ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_followers_of_post();
+
+-- 6) Gigs: followers hear when a gig is published; applicants hear when it changes
+CREATE OR REPLACE FUNCTION public.notify_gig_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  poster_name TEXT;
+  change_summary TEXT;
+  actor_id UUID := COALESCE(auth.uid(), NEW.posted_by_user_id);
+BEGIN
+  poster_name := COALESCE(
+    (SELECT name FROM public.organization_profiles WHERE id = NEW.posted_by_organization_id),
+    public.notification_actor_name(NEW.posted_by_user_id)
+  );
+
+  -- Published: on insert as open, or on leaving draft
+  IF NEW.status = 'open' AND (TG_OP = 'INSERT' OR OLD.status = 'draft') THEN
+    PERFORM public.notify_followers(
+      NEW.posted_by_user_id,
+      NEW.posted_by_organization_id,
+      'gigs',
+      'followed_gig',
+      poster_name || ' posted a gig: ' || NEW.title,
+      concat_ws(' · ', NEW.city, to_char(NEW.start_date, 'Mon DD, YYYY')),
+      '/gigs/' || NEW.id,
+      jsonb_build_object('gig_id', NEW.id),
+      actor_id
+    );
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Changes applicants need to know about
+  IF NEW.status = 'cancelled' AND OLD.status != 'cancelled' THEN
+    change_summary := 'This gig was cancelled' || COALESCE(': ' || NEW.cancellation_reason, '.');
+  ELSIF NEW.start_date IS DISTINCT FROM OLD.start_date OR
+        NEW.end_date IS DISTINCT FROM OLD.end_date OR
+        NEW.start_time IS DISTINCT FROM OLD.start_time OR
+        NEW.end_time IS DISTINCT FROM OLD.end_time THEN
+    change_summary := 'The date or time changed.';
+  ELSIF NEW.venue_name IS DISTINCT FROM OLD.venue_name OR
+        NEW.venue_address IS DISTINCT FROM OLD.venue_address OR
+        NEW.city IS DISTINCT FROM OLD.city THEN
+    change_summary := 'The venue changed.';
+  ELSIF NEW.pay_amount_min IS DISTINCT FROM OLD.pay_amount_min OR
+        NEW.pay_amount_max IS DISTINCT FROM OLD.pay_amount_max OR
+        NEW.pay_rate_type IS DISTINCT FROM OLD.pay_rate_type THEN
+    change_summary := 'The pay changed.';
+  END IF;
+
+  IF change_summary IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, data, actor_user_id)
+    SELECT ga.applicant_user_id,
+      'gig_updated',
+      'Update to ' || NEW.title,
+      change_summary,
+      '/gigs/' || NEW.id,
+      jsonb_build_object('gig_id', NEW.id, 'application_id', ga.id),
+      actor_id
+    FROM public.gig_applications ga
+    WHERE ga.gig_id = NEW.id
+    AND ga.status NOT IN ('withdrawn', 'rejected')
+    AND ga.applicant_user_id IS DISTINCT FROM actor_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_gig_changes_on_insert
+  AFTER INSERT ON public.gigs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_gig_changes();
+
+CREATE TRIGGER notify_gig_changes_on_update
+  AFTER UPDATE ON public.gigs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_gig_changes();
+
+-- 7) Applications: posters hear about new applicants; applicants hear when they're reviewed
+CREATE OR REPLACE FUNCTION public.notify_gig_application()
+RETURNS TRIGGER AS $$
+DECLARE
+  gig RECORD;
+BEGIN
+  SELECT id, title, posted_by_user_id, posted_by_organization_id INTO gig FROM public.gigs WHERE id = NEW.gig_id;
+
+  IF TG_OP = 'INSERT' THEN
+    -- The poster, or every active admin of the posting organization
+    INSERT INTO public.notifications (user_id, type, title, body, link, data, actor_user_id)
+    SELECT recipient.user_id,
+      'gig_application',
+      public.notification_actor_name(NEW.applicant_user_id) || ' applied to ' || gig.title,
+      left(NEW.message, 140),
+      '/gigs/mine',
+      jsonb_build_object('gig_id', gig.id, 'application_id', NEW.id),
+      NEW.applicant_user_id
+    FROM (
+      SELECT gig.posted_by_user_id AS user_id WHERE gig.posted_by_organization_id IS NULL
+      UNION
+      SELECT oa.user_id FROM public.org_admins oa
+      WHERE oa.organization_id = gig.posted_by_organization_id
+      AND oa.is_active = true
+      AND oa.invitation_accepted = true
+    ) recipient
+    WHERE recipient.user_id IS NOT NULL
+    AND recipient.user_id != NEW.applicant_user_id;
+
+    RETURN NEW;
+  END IF;
+
+  -- Withdrawals are the applicant's own doing
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('shortlisted', 'hired', 'rejected') THEN
+    PERFORM public.create_notification(
+      NEW.applicant_user_id,
+      'application_status',
+      CASE NEW.status
+        WHEN 'hired' THEN 'You were hired for ' || gig.title
+        WHEN 'shortlisted' THEN 'You were shortlisted for ' || gig.title
+        ELSE 'Update on your application to ' || gig.title
+      END,
+      CASE WHEN NEW.status = 'rejected' THEN 'The poster has moved forward with other musicians.' END,
+      '/gigs/' || gig.id,
+      jsonb_build_object('gig_id', gig.id, 'application_id', NEW.id, 'status', NEW.status),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_gig_application_on_insert
+  AFTER INSERT ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_gig_application();
+
+CREATE TRIGGER notify_gig_application_on_update
+  AFTER UPDATE OF status ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_gig_application();
+
+-- 8) New events from followed accounts
+CREATE OR REPLACE FUNCTION public.notify_followers_of_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status != 'scheduled' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.notify_followers(
+    NEW.created_by_user_id,
+    NEW.organization_id,
+    'events',
+    'followed_event',
+    COALESCE(
+      (SELECT name FROM public.organization_profiles WHERE id = NEW.organization_id),
+      public.notification_actor_name(NEW.created_by_user_id)
+    ) || ' announced ' || NEW.title,
+    concat_ws(' · ', NEW.venue_name, NEW.city),
+    '/events/' || NEW.id,
+    jsonb_build_object('event_id', NEW.id),
+    NEW.created_by_user_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_followers_of_event_on_insert
+  AFTER INSERT ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_followers_of_event();
+
+-- Function to mark every unread notification read, returning how many changed
+CREATE OR REPLACE FUNCTION public.mark_all_notifications_read()
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE public.notifications
+  SET read_at = timezone('utc'::text, now())
+  WHERE user_id = auth.uid()
+  AND read_at IS NULL;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.mark_all_notifications_read() TO authenticated;
+
+-- Notifications are only written by the triggers above
+REVOKE ALL ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, UUID) FROM authenticated;
+REVOKE ALL ON FUNCTION public.notify_followers(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.notify_followers(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, UUID) FROM authenticated;
+
+COMMENT ON COLUMN public.notifications.actor_user_id IS 'User whose action caused the notification, if any';
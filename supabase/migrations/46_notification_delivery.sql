@@ -0,0 +1,368 @@
+-- Notification delivery channels: fan each notification out to in-app, Web Push and email
+-- Every user has a per-type, per-channel preference matrix (missing rows fall back to the defaults
+-- below), quiet hours in their own time zone, and can batch email into hourly or daily digests.
+-- Triggers queue push and email deliveries when a notification is written; the
+-- /api/cron/notification-deliveries job claims due deliveries and sends them.
+
+-- 1) Per-type, per-channel switches. Only rows that differ from the defaults need to exist.
+CREATE TABLE IF NOT EXISTS public.notification_channel_preferences (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  notification_type TEXT NOT NULL, -- notifications.type, e.g. 'gig_application'
+  channel TEXT NOT NULL CHECK (channel IN ('in_app', 'push', 'email')),
+  enabled BOOLEAN NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  UNIQUE(user_id, notification_type, channel)
+);
+
+-- Function to check a time zone name before it is stored, so delivery scheduling never fails on it
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE p_timezone;
+  RETURN true;
+EXCEPTION WHEN OTHERS THEN
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 2) Quiet hours and digest batching, one row per user (no row means send everything immediately)
+CREATE TABLE IF NOT EXISTS public.notification_settings (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+
+  -- Push and email held back during this local-time window; it may wrap past midnight (22:00-07:00)
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC' CHECK (public.is_valid_timezone(timezone)),
+
+  -- Email batching; push is never batched
+  digest_frequency TEXT NOT NULL DEFAULT 'immediate' CHECK (digest_frequency IN ('immediate', 'hourly', 'daily')),
+  daily_digest_time TIME NOT NULL DEFAULT '08:00',
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- 3) Browser push subscriptions (one per browser/device)
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- PushSubscription.toJSON() from the browser
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL, -- base64url P-256 public key of the browser
+  auth TEXT NOT NULL, -- base64url auth secret
+
+  user_agent TEXT,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- 4) Whether the notification shows in the bell and on /notifications. Stored rather than filtered
+-- at read time so switching a type off doesn't retroactively hide what was already delivered.
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS in_app BOOLEAN NOT NULL DEFAULT true;
+
+-- 5) Outgoing push and email, one row per notification per channel
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('push', 'email')),
+
+  -- Delivery state
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'failed')),
+  deliver_after TIMESTAMP WITH TIME ZONE NOT NULL, -- Pushed back by quiet hours and digest batching
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  UNIQUE(notification_id, channel)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_notification_channel_preferences_user ON public.notification_channel_preferences(user_id);
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_in_app ON public.notifications(user_id, created_at DESC) WHERE in_app;
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due ON public.notification_deliveries(deliver_after) WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user ON public.notification_deliveries(user_id, created_at DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.notification_channel_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notification_channel_preferences table
+CREATE POLICY "Users can view own channel preferences" ON public.notification_channel_preferences
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own channel preferences" ON public.notification_channel_preferences
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own channel preferences" ON public.notification_channel_preferences
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own channel preferences" ON public.notification_channel_preferences
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for notification_settings table
+CREATE POLICY "Users can view own notification settings" ON public.notification_settings
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own notification settings" ON public.notification_settings
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification settings" ON public.notification_settings
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for push_subscriptions table (registered through register_push_subscription)
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own push subscriptions" ON public.push_subscriptions
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- notification_deliveries has no policies: only the delivery job (service role) reads or writes it
+
+-- Create triggers for updated_at
+CREATE TRIGGER set_updated_at_notification_channel_preferences
+  BEFORE UPDATE ON public.notification_channel_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_updated_at_notification_settings
+  BEFORE UPDATE ON public.notification_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_updated_at_push_subscriptions
+  BEFORE UPDATE ON public.push_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function with the default for a type/channel pair when the user hasn't chosen.
+-- Keep in sync with DEFAULT_CHANNEL_PREFERENCES in src/services/client/notification_preferences.ts.
+CREATE OR REPLACE FUNCTION public.notification_channel_default(p_type TEXT, p_channel TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_channel
+    WHEN 'in_app' THEN true
+    -- Push for things that involve you directly
+    WHEN 'push' THEN p_type IN (
+      'post_comment', 'comment_reply', 'gig_updated', 'gig_application',
+      'application_status', 'event_reminder', 'performance_credit'
+    )
+    -- Email only for work: gigs, applications, reminders and credits
+    WHEN 'email' THEN p_type IN (
+      'gig_updated', 'gig_application', 'application_status', 'event_reminder', 'performance_credit'
+    )
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function to resolve one cell of a user's preference matrix
+CREATE OR REPLACE FUNCTION public.notification_channel_enabled(p_user_id UUID, p_type TEXT, p_channel TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (
+      SELECT enabled FROM public.notification_channel_preferences
+      WHERE user_id = p_user_id AND notification_type = p_type AND channel = p_channel
+    ),
+    public.notification_channel_default(p_type, p_channel)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to work out when a delivery may go out: email waits for the next hourly or daily digest
+-- if the user batches, and anything landing inside quiet hours waits until they end
+CREATE OR REPLACE FUNCTION public.notification_delivery_after(p_user_id UUID, p_channel TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  settings RECORD;
+  local_now TIMESTAMP;
+  deliver_local TIMESTAMP;
+  deliver_time TIME;
+BEGIN
+  SELECT * INTO settings FROM public.notification_settings WHERE user_id = p_user_id;
+  IF NOT FOUND THEN
+    RETURN timezone('utc'::text, now());
+  END IF;
+
+  local_now := now() AT TIME ZONE settings.timezone;
+  deliver_local := local_now;
+
+  IF p_channel = 'email' AND settings.digest_frequency = 'hourly' THEN
+    deliver_local := date_trunc('hour', local_now) + INTERVAL '1 hour';
+  ELSIF p_channel = 'email' AND settings.digest_frequency = 'daily' THEN
+    deliver_local := date_trunc('day', local_now) + settings.daily_digest_time::INTERVAL;
+    IF deliver_local <= local_now THEN
+      deliver_local := deliver_local + INTERVAL '1 day';
+    END IF;
+  END IF;
+
+  IF settings.quiet_hours_start IS NOT NULL
+  AND settings.quiet_hours_end IS NOT NULL
+  AND settings.quiet_hours_start <> settings.quiet_hours_end THEN
+    deliver_time := deliver_local::TIME;
+
+    IF settings.quiet_hours_start < settings.quiet_hours_end THEN
+      -- Same-day window, e.g. 13:00-15:00
+      IF deliver_time >= settings.quiet_hours_start AND deliver_time < settings.quiet_hours_end THEN
+        deliver_local := date_trunc('day', deliver_local) + settings.quiet_hours_end::INTERVAL;
+      END IF;
+    ELSIF deliver_time >= settings.quiet_hours_start THEN
+      -- Late evening of an overnight window: wait for tomorrow morning
+      deliver_local := date_trunc('day', deliver_local) + INTERVAL '1 day' + settings.quiet_hours_end::INTERVAL;
+    ELSIF deliver_time < settings.quiet_hours_end THEN
+      -- Early morning of an overnight window
+      deliver_local := date_trunc('day', deliver_local) + settings.quiet_hours_end::INTERVAL;
+    END IF;
+  END IF;
+
+  RETURN deliver_local AT TIME ZONE settings.timezone;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to apply the in-app switch as a notification is written
+CREATE OR REPLACE FUNCTION public.apply_in_app_preference()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.in_app := public.notification_channel_enabled(NEW.user_id, NEW.type, 'in_app');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_in_app_preference_on_insert
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_in_app_preference();
+
+-- Function to queue push and email for a new notification. Push is only queued when the user
+-- has a subscribed browser; email addresses are checked by the sender.
+CREATE OR REPLACE FUNCTION public.queue_notification_deliveries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.notification_channel_enabled(NEW.user_id, NEW.type, 'push')
+  AND EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = NEW.user_id) THEN
+    INSERT INTO public.notification_deliveries (notification_id, user_id, channel, deliver_after)
+    VALUES (NEW.id, NEW.user_id, 'push', public.notification_delivery_after(NEW.user_id, 'push'));
+  END IF;
+
+  IF public.notification_channel_enabled(NEW.user_id, NEW.type, 'email') THEN
+    INSERT INTO public.notification_deliveries (notification_id, user_id, channel, deliver_after)
+    VALUES (NEW.id, NEW.user_id, 'email', public.notification_delivery_after(NEW.user_id, 'email'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_notification_deliveries_on_insert
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_notification_deliveries();
+
+-- Function to save this browser's push subscription for the current user. Push services are
+-- public https hosts; names that resolve to private addresses are refused again when sending.
+-- An endpoint registered to someone else is never moved over: the browser subscribes afresh.
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  p_endpoint TEXT,
+  p_p256dh TEXT,
+  p_auth TEXT,
+  p_user_agent TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  subscription_id UUID;
+  endpoint_host TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  endpoint_host := lower(substring(p_endpoint FROM '^https://([A-Za-z0-9.-]+)(?::[0-9]+)?(?:/|$)'));
+  IF endpoint_host IS NULL
+    OR endpoint_host NOT LIKE '%.%'
+    OR endpoint_host LIKE '%.localhost'
+    OR endpoint_host ~ '^[0-9.]+$' THEN
+    RAISE EXCEPTION 'Push endpoints must be https URLs on a public host';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE SET
+    p256dh = EXCLUDED.p256dh,
+    auth = EXCLUDED.auth,
+    user_agent = EXCLUDED.user_agent,
+    failure_count = 0
+  WHERE push_subscriptions.user_id = EXCLUDED.user_id
+  RETURNING id INTO subscription_id;
+
+  IF subscription_id IS NULL THEN
+    RAISE EXCEPTION 'This push subscription is registered to another account';
+  END IF;
+
+  RETURN subscription_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function for the delivery job to claim due deliveries. Rows stuck in 'sending' (a crashed run)
+-- are picked up again after 15 minutes; SKIP LOCKED keeps overlapping runs from double-sending.
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(p_limit INTEGER DEFAULT 200)
+RETURNS SETOF public.notification_deliveries AS $$
+  UPDATE public.notification_deliveries d
+  SET
+    status = 'sending',
+    attempts = d.attempts + 1,
+    claimed_at = timezone('utc'::text, now())
+  WHERE d.id IN (
+    SELECT id FROM public.notification_deliveries
+    WHERE (status = 'pending' AND deliver_after <= timezone('utc'::text, now()))
+    OR (status = 'sending' AND claimed_at < timezone('utc'::text, now()) - INTERVAL '15 minutes')
+    ORDER BY deliver_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.notification_channel_preferences TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.notification_settings TO authenticated;
+GRANT SELECT, DELETE ON public.push_subscriptions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.register_push_subscription(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Deliveries are only claimed by the scheduled job
+REVOKE ALL ON FUNCTION public.claim_notification_deliveries(INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.claim_notification_deliveries(INTEGER) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_notification_deliveries(INTEGER) TO service_role;
+
+COMMENT ON TABLE public.notification_channel_preferences IS 'Per-type, per-channel notification switches; missing rows use notification_channel_default';
+COMMENT ON TABLE public.notification_settings IS 'Quiet hours and email digest batching for each user';
+COMMENT ON TABLE public.push_subscriptions IS 'Web Push subscriptions, one per browser';
+COMMENT ON TABLE public.notification_deliveries IS 'Queued push and email deliveries for notifications, sent by /api/cron/notification-deliveries';
+COMMENT ON COLUMN public.notifications.in_app IS 'Whether the recipient wanted this type in-app when it was written';
+COMMENT ON FUNCTION public.claim_notification_deliveries IS 'Marks due push and email deliveries as sending and returns them to the delivery job';
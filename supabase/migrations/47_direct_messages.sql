@@ -0,0 +1,511 @@
+-- Direct messages: one-to-one and small group conversations, plus threads with an organization
+-- Participants see a conversation and its messages through RLS; new messages and read receipts
+-- reach open threads through Supabase Realtime (typing indicators use Realtime broadcast and
+-- never touch the database). Attachments are uploaded to Cloudinary by the client and stored as
+-- metadata on the message.
+
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  kind TEXT NOT NULL DEFAULT 'direct' CHECK (kind IN ('direct', 'group', 'organization')),
+  title TEXT, -- Groups only; direct threads are named after the other person
+  organization_id UUID REFERENCES public.organization_profiles(id) ON DELETE CASCADE, -- 'organization' threads
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+
+  -- Keeps one direct thread per pair and one organization thread per member: sorted user ids for
+  -- 'direct', "org:<organization_id>:<user_id>" for 'organization', NULL for groups
+  direct_key TEXT UNIQUE,
+
+  last_message_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CONSTRAINT conversations_organization_check CHECK ((kind = 'organization') = (organization_id IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS public.conversation_participants (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  last_read_at TIMESTAMP WITH TIME ZONE, -- Read receipts: everything up to here has been seen
+  left_at TIMESTAMP WITH TIME ZONE, -- Set when someone leaves a group; they keep no access
+
+  -- Timestamps
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  UNIQUE(conversation_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  sender_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+
+  body TEXT NOT NULL DEFAULT '' CHECK (char_length(body) <= 5000),
+  -- [{ url, public_id, resource_type, format, bytes, original_filename, width?, height? }]
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(attachments) = 'array' AND jsonb_array_length(attachments) <= 10),
+
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE, -- Soft delete so replies keep their place in the thread
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+  CONSTRAINT messages_not_empty CHECK (btrim(body) <> '' OR jsonb_array_length(attachments) > 0 OR deleted_at IS NOT NULL)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_conversations_last_message ON public.conversations(last_message_at DESC NULLS LAST);
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user ON public.conversation_participants(user_id) WHERE left_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_messages_conversation ON public.messages(conversation_id, created_at DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Function to check membership without recursing through the participants policy
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id UUID, p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id
+    AND user_id = p_user_id
+    AND left_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- RLS Policies for conversations table (created through the functions below)
+CREATE POLICY "Participants can view conversations" ON public.conversations
+  FOR SELECT
+  USING (public.is_conversation_participant(id, auth.uid()));
+
+-- RLS Policies for conversation_participants table
+CREATE POLICY "Participants can view who is in their conversations" ON public.conversation_participants
+  FOR SELECT
+  USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+-- Only last_read_at is writable (see the column grant below)
+CREATE POLICY "Participants can update own read position" ON public.conversation_participants
+  FOR UPDATE
+  USING (auth.uid() = user_id AND left_at IS NULL)
+  WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for messages table
+CREATE POLICY "Participants can view messages" ON public.messages
+  FOR SELECT
+  USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Participants can send messages" ON public.messages
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_user_id AND
+    public.is_conversation_participant(conversation_id, auth.uid())
+  );
+
+CREATE POLICY "Senders can edit own messages" ON public.messages
+  FOR UPDATE
+  USING (auth.uid() = sender_user_id)
+  WITH CHECK (auth.uid() = sender_user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_conversations
+  BEFORE UPDATE ON public.conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to bump the conversation, mark it read for the sender, and notify everyone else.
+-- Recipients get one 'new_message' notification per conversation until they read it.
+CREATE OR REPLACE FUNCTION public.handle_new_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  conversation RECORD;
+  recipient RECORD;
+  sender_name TEXT;
+  preview TEXT;
+BEGIN
+  SELECT c.*, o.name AS organization_name INTO conversation
+  FROM public.conversations c
+  LEFT JOIN public.organization_profiles o ON o.id = c.organization_id
+  WHERE c.id = NEW.conversation_id;
+
+  UPDATE public.conversations SET last_message_at = NEW.created_at WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET last_read_at = NEW.created_at
+  WHERE conversation_id = NEW.conversation_id AND user_id = NEW.sender_user_id;
+
+  IF NEW.sender_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  sender_name := public.notification_actor_name(NEW.sender_user_id);
+  preview := CASE
+    WHEN btrim(NEW.body) <> '' THEN left(NEW.body, 140)
+    ELSE 'Sent an attachment'
+  END;
+
+  FOR recipient IN
+    SELECT user_id FROM public.conversation_participants
+    WHERE conversation_id = NEW.conversation_id
+    AND left_at IS NULL
+    AND user_id <> NEW.sender_user_id
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.notifications
+      WHERE user_id = recipient.user_id
+      AND type = 'new_message'
+      AND read_at IS NULL
+      AND data ->> 'conversation_id' = NEW.conversation_id::TEXT
+    ) THEN
+      PERFORM public.create_notification(
+        recipient.user_id,
+        'new_message',
+        CASE
+          WHEN conversation.kind = 'group' THEN sender_name || ' in ' || COALESCE(NULLIF(conversation.title, ''), 'a group')
+          -- Admins answer on behalf of the organization
+          WHEN conversation.kind = 'organization' AND NEW.sender_user_id IS DISTINCT FROM conversation.created_by
+            THEN 'New message from ' || conversation.organization_name
+          ELSE 'New message from ' || sender_name
+        END,
+        preview,
+        '/messages/' || NEW.conversation_id,
+        jsonb_build_object('conversation_id', NEW.conversation_id, 'message_id', NEW.id),
+        NEW.sender_user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER handle_new_message_on_insert
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_message();
+
+-- Function to keep edits honest: only body changes, edited_at and deleted_at are set here,
+-- and deleting clears content for good
+CREATE OR REPLACE FUNCTION public.handle_message_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  NEW.id := OLD.id;
+  NEW.conversation_id := OLD.conversation_id;
+  NEW.sender_user_id := OLD.sender_user_id;
+  NEW.attachments := OLD.attachments;
+  NEW.created_at := OLD.created_at;
+  NEW.edited_at := OLD.edited_at;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := timezone('utc'::text, now());
+    NEW.body := '';
+    NEW.attachments := '[]'::jsonb;
+  ELSIF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.edited_at := timezone('utc'::text, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only content columns, so ON DELETE SET NULL of the sender still goes through
+CREATE TRIGGER handle_message_edit_on_update
+  BEFORE UPDATE OF body, attachments, edited_at, deleted_at ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_message_edit();
+
+-- Function to open (or reuse) the one-to-one thread with another user
+CREATE OR REPLACE FUNCTION public.start_direct_conversation(p_other_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  v_key TEXT;
+  v_conversation_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_other_user_id IS NULL OR p_other_user_id = me THEN
+    RAISE EXCEPTION 'Choose someone else to message';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = p_other_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  v_key := LEAST(me::TEXT, p_other_user_id::TEXT) || ':' || GREATEST(me::TEXT, p_other_user_id::TEXT);
+
+  SELECT id INTO v_conversation_id FROM public.conversations WHERE direct_key = v_key;
+
+  IF v_conversation_id IS NULL THEN
+    INSERT INTO public.conversations (kind, created_by, direct_key)
+    VALUES ('direct', me, v_key)
+    ON CONFLICT (direct_key) DO NOTHING
+    RETURNING id INTO v_conversation_id;
+
+    -- Lost a race with the other person opening the same thread
+    IF v_conversation_id IS NULL THEN
+      SELECT id INTO v_conversation_id FROM public.conversations WHERE direct_key = v_key;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+    VALUES (v_conversation_id, me, 'member'), (v_conversation_id, p_other_user_id, 'member')
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to open (or reuse) the caller's thread with an organization's admins. Admins added
+-- to the organization later join existing threads the next time anyone opens them.
+CREATE OR REPLACE FUNCTION public.start_organization_conversation(p_organization_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  v_key TEXT;
+  v_conversation_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.organization_profiles WHERE id = p_organization_id) THEN
+    RAISE EXCEPTION 'Organization not found';
+  END IF;
+
+  IF public.is_organization_admin(p_organization_id, me) THEN
+    RAISE EXCEPTION 'You manage this organization';
+  END IF;
+
+  v_key := 'org:' || p_organization_id || ':' || me;
+
+  INSERT INTO public.conversations (kind, organization_id, created_by, direct_key)
+  VALUES ('organization', p_organization_id, me, v_key)
+  ON CONFLICT (direct_key) DO UPDATE SET direct_key = EXCLUDED.direct_key
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  SELECT v_conversation_id, me, 'owner'
+  UNION
+  SELECT v_conversation_id, a.user_id, 'member'
+  FROM public.org_admins a
+  WHERE a.organization_id = p_organization_id
+  AND a.is_active = true
+  AND a.invitation_accepted = true
+  AND a.user_id <> me
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to start a small group conversation with the caller as owner.
+-- The size limit matches MAX_GROUP_PARTICIPANTS in src/services/client/messages.ts.
+CREATE OR REPLACE FUNCTION public.create_group_conversation(p_title TEXT, p_user_ids UUID[])
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  members UUID[];
+  v_conversation_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT u.id), '{}') INTO members
+  FROM public.users u
+  WHERE u.id = ANY(p_user_ids) AND u.id <> me;
+
+  IF array_length(members, 1) IS NULL OR array_length(members, 1) < 2 THEN
+    RAISE EXCEPTION 'A group needs at least two other people';
+  END IF;
+
+  IF array_length(members, 1) > 19 THEN
+    RAISE EXCEPTION 'Groups can have at most 20 people';
+  END IF;
+
+  INSERT INTO public.conversations (kind, title, created_by)
+  VALUES ('group', NULLIF(btrim(p_title), ''), me)
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  SELECT v_conversation_id, me, 'owner'
+  UNION ALL
+  SELECT v_conversation_id, unnest(members), 'member';
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to leave a group. One-to-one and organization threads can't be left, only ignored.
+CREATE OR REPLACE FUNCTION public.leave_conversation(p_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = p_conversation_id AND kind = 'group') THEN
+    RAISE EXCEPTION 'Only group conversations can be left';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET left_at = timezone('utc'::text, now())
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND left_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to mark a conversation read up to now, clearing its message notification too
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.conversation_participants
+  SET last_read_at = timezone('utc'::text, now())
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND left_at IS NULL;
+
+  UPDATE public.notifications
+  SET read_at = timezone('utc'::text, now())
+  WHERE user_id = auth.uid()
+  AND type = 'new_message'
+  AND read_at IS NULL
+  AND data ->> 'conversation_id' = p_conversation_id::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function for the inbox: the caller's conversations, newest activity first, with the latest
+-- message, unread count and the other participants
+CREATE OR REPLACE FUNCTION public.get_my_conversations(p_limit INTEGER DEFAULT 50, p_before TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  kind TEXT,
+  title TEXT,
+  organization_id UUID,
+  organization_name TEXT,
+  organization_logo_url TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_body TEXT,
+  last_message_sender_id UUID,
+  last_message_has_attachments BOOLEAN,
+  unread_count INTEGER,
+  participants JSONB
+) AS $$
+  SELECT
+    c.id,
+    c.kind,
+    c.title,
+    c.organization_id,
+    o.name,
+    o.logo_url,
+    c.last_message_at,
+    last_message.body,
+    last_message.sender_user_id,
+    COALESCE(jsonb_array_length(last_message.attachments) > 0, false),
+    (
+      SELECT COUNT(*)::INTEGER FROM public.messages m
+      WHERE m.conversation_id = c.id
+      AND m.deleted_at IS NULL
+      AND m.sender_user_id IS DISTINCT FROM auth.uid()
+      AND (me.last_read_at IS NULL OR m.created_at > me.last_read_at)
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'full_name', u.full_name,
+        'avatar_url', u.avatar_url,
+        'last_read_at', p.last_read_at
+      ) ORDER BY u.full_name), '[]'::jsonb)
+      FROM public.conversation_participants p
+      JOIN public.users u ON u.id = p.user_id
+      WHERE p.conversation_id = c.id
+      AND p.left_at IS NULL
+      AND p.user_id <> auth.uid()
+    )
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  LEFT JOIN public.organization_profiles o ON o.id = c.organization_id
+  LEFT JOIN LATERAL (
+    SELECT m.body, m.sender_user_id, m.attachments
+    FROM public.messages m
+    WHERE m.conversation_id = c.id AND m.deleted_at IS NULL
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE me.user_id = auth.uid()
+  AND me.left_at IS NULL
+  -- Threads nobody has written in yet only show up for whoever opened them
+  AND (c.last_message_at IS NOT NULL OR c.created_by = auth.uid())
+  AND (p_before IS NULL OR COALESCE(c.last_message_at, c.created_at) < p_before)
+  ORDER BY COALESCE(c.last_message_at, c.created_at) DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function for the header badge: conversations with messages the caller hasn't read
+CREATE OR REPLACE FUNCTION public.count_unread_conversations()
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  WHERE me.user_id = auth.uid()
+  AND me.left_at IS NULL
+  AND c.last_message_at IS NOT NULL
+  AND (me.last_read_at IS NULL OR c.last_message_at > me.last_read_at);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Direct messages are a new notification type: push on, email off by default
+CREATE OR REPLACE FUNCTION public.notification_channel_default(p_type TEXT, p_channel TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_channel
+    WHEN 'in_app' THEN true
+    -- Push for things that involve you directly
+    WHEN 'push' THEN p_type IN (
+      'post_comment', 'comment_reply', 'gig_updated', 'gig_application',
+      'application_status', 'event_reminder', 'performance_credit', 'new_message'
+    )
+    -- Email only for work: gigs, applications, reminders and credits
+    WHEN 'email' THEN p_type IN (
+      'gig_updated', 'gig_application', 'application_status', 'event_reminder', 'performance_credit'
+    )
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Live delivery: Realtime sends inserts and updates to subscribed participants (RLS applies)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
+
+-- Grant permissions
+GRANT SELECT ON public.conversations TO authenticated;
+GRANT SELECT ON public.conversation_participants TO authenticated;
+-- Column grants only narrow UPDATE once the default table-wide grant is gone
+REVOKE UPDATE ON public.conversation_participants FROM authenticated;
+GRANT UPDATE (last_read_at) ON public.conversation_participants TO authenticated;
+GRANT SELECT, INSERT ON public.messages TO authenticated;
+REVOKE UPDATE ON public.messages FROM authenticated;
+GRANT UPDATE (body, deleted_at) ON public.messages TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_conversation_participant(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_direct_conversation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_organization_conversation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_group_conversation(TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_conversation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_conversations(INTEGER, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.count_unread_conversations() TO authenticated;
+
+COMMENT ON TABLE public.conversations IS 'Direct message threads: one-to-one, small groups, and members talking to an organization';
+COMMENT ON TABLE public.conversation_participants IS 'Who is in each conversation and how far they have read';
+COMMENT ON TABLE public.messages IS 'Direct messages; attachments are Cloudinary upload metadata';
+COMMENT ON COLUMN public.conversations.direct_key IS 'Dedupe key for one-to-one and organization threads';
+COMMENT ON FUNCTION public.get_my_conversations IS 'Inbox for the current user with last message, unread count and participants';
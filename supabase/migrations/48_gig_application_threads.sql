@@ -0,0 +1,426 @@
+-- Gig application threads
+-- Every application gets a conversation between the applicant and the poster (or the posting
+-- organization's admins). Status changes post system messages into the thread, posters can keep
+-- reusable message templates, and the older one-way gig_application_messages are moved into the
+-- threads.
+
+-- Application threads are a fourth kind of conversation, one per application
+ALTER TABLE public.conversations DROP CONSTRAINT IF EXISTS conversations_kind_check;
+ALTER TABLE public.conversations
+  ADD CONSTRAINT conversations_kind_check CHECK (kind IN ('direct', 'group', 'organization', 'application'));
+
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS gig_application_id UUID UNIQUE REFERENCES public.gig_applications(id) ON DELETE CASCADE;
+
+ALTER TABLE public.conversations
+  ADD CONSTRAINT conversations_application_check CHECK ((kind = 'application') = (gig_application_id IS NOT NULL));
+
+-- System messages ("Ana was shortlisted") have no sender and can't be sent by users
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'user' CHECK (kind IN ('user', 'system')),
+  ADD COLUMN IF NOT EXISTS system_event TEXT; -- 'applied' or the new application status
+
+DROP POLICY IF EXISTS "Participants can send messages" ON public.messages;
+CREATE POLICY "Participants can send messages" ON public.messages
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_user_id AND
+    kind = 'user' AND
+    public.is_conversation_participant(conversation_id, auth.uid())
+  );
+
+-- Reusable replies for posters, e.g. "Thanks for applying, {first_name}!"
+CREATE TABLE IF NOT EXISTS public.message_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 80),
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 5000), -- May use {first_name}, {applicant_name}, {gig_title}, {gig_date}
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_message_templates_user ON public.message_templates(user_id, title);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for message_templates table
+CREATE POLICY "Users can view own message templates" ON public.message_templates
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own message templates" ON public.message_templates
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own message templates" ON public.message_templates
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own message templates" ON public.message_templates
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER set_updated_at_message_templates
+  BEFORE UPDATE ON public.message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to get (or create) an application's thread and bring its participants up to date:
+-- the applicant, plus the poster or every active admin of the posting organization. Admins who
+-- join the organization later are added the next time the thread is opened or written to.
+CREATE OR REPLACE FUNCTION public.ensure_application_conversation(p_application_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_application RECORD;
+  v_conversation_id UUID;
+BEGIN
+  SELECT ga.id, ga.applicant_user_id, g.posted_by_user_id, g.posted_by_organization_id
+  INTO v_application
+  FROM public.gig_applications ga
+  JOIN public.gigs g ON g.id = ga.gig_id
+  WHERE ga.id = p_application_id;
+
+  IF v_application.id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  INSERT INTO public.conversations (kind, gig_application_id, created_by)
+  VALUES ('application', p_application_id, v_application.applicant_user_id)
+  ON CONFLICT (gig_application_id) DO UPDATE SET gig_application_id = EXCLUDED.gig_application_id
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  SELECT v_conversation_id, v_application.applicant_user_id, 'member'
+  UNION
+  SELECT v_conversation_id, poster.user_id, 'owner'
+  FROM (
+    SELECT v_application.posted_by_user_id AS user_id WHERE v_application.posted_by_organization_id IS NULL
+    UNION
+    SELECT oa.user_id FROM public.org_admins oa
+    WHERE oa.organization_id = v_application.posted_by_organization_id
+    AND oa.is_active = true
+    AND oa.invitation_accepted = true
+  ) poster
+  WHERE poster.user_id IS NOT NULL
+  AND poster.user_id <> v_application.applicant_user_id
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function for the applicant or a reviewer to open an application's thread
+CREATE OR REPLACE FUNCTION public.open_application_conversation(p_application_id UUID)
+RETURNS UUID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.gig_applications ga
+    WHERE ga.id = p_application_id
+    AND (ga.applicant_user_id = auth.uid() OR public.can_manage_gig(ga.gig_id, auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'You do not have access to this application';
+  END IF;
+
+  RETURN public.ensure_application_conversation(p_application_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to bump the conversation, mark it read for the sender, and notify everyone else.
+-- Replaces the version in migration 47: application threads are titled after the gig, and the
+-- person whose action produced a system message has already seen it.
+CREATE OR REPLACE FUNCTION public.handle_new_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  conversation RECORD;
+  recipient RECORD;
+  sender_name TEXT;
+  preview TEXT;
+BEGIN
+  SELECT c.*, o.name AS organization_name, g.title AS gig_title INTO conversation
+  FROM public.conversations c
+  LEFT JOIN public.organization_profiles o ON o.id = c.organization_id
+  LEFT JOIN public.gig_applications ga ON ga.id = c.gig_application_id
+  LEFT JOIN public.gigs g ON g.id = ga.gig_id
+  WHERE c.id = NEW.conversation_id;
+
+  UPDATE public.conversations SET last_message_at = NEW.created_at WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET last_read_at = NEW.created_at
+  WHERE conversation_id = NEW.conversation_id AND user_id = COALESCE(NEW.sender_user_id, auth.uid());
+
+  -- Status changes already send an application_status notification
+  IF NEW.sender_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  sender_name := public.notification_actor_name(NEW.sender_user_id);
+  preview := CASE
+    WHEN btrim(NEW.body) <> '' THEN left(NEW.body, 140)
+    ELSE 'Sent an attachment'
+  END;
+
+  FOR recipient IN
+    SELECT user_id FROM public.conversation_participants
+    WHERE conversation_id = NEW.conversation_id
+    AND left_at IS NULL
+    AND user_id <> NEW.sender_user_id
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.notifications
+      WHERE user_id = recipient.user_id
+      AND type = 'new_message'
+      AND read_at IS NULL
+      AND data ->> 'conversation_id' = NEW.conversation_id::TEXT
+    ) THEN
+      PERFORM public.create_notification(
+        recipient.user_id,
+        'new_message',
+        CASE
+          WHEN conversation.kind = 'group' THEN sender_name || ' in ' || COALESCE(NULLIF(conversation.title, ''), 'a group')
+          -- Admins answer on behalf of the organization
+          WHEN conversation.kind = 'organization' AND NEW.sender_user_id IS DISTINCT FROM conversation.created_by
+            THEN 'New message from ' || conversation.organization_name
+          WHEN conversation.kind = 'application' THEN sender_name || ' about ' || conversation.gig_title
+          ELSE 'New message from ' || sender_name
+        END,
+        preview,
+        '/messages/' || NEW.conversation_id,
+        jsonb_build_object('conversation_id', NEW.conversation_id, 'message_id', NEW.id),
+        NEW.sender_user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to record application events in the thread
+CREATE OR REPLACE FUNCTION public.post_application_status_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  applicant_name TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  applicant_name := public.notification_actor_name(NEW.applicant_user_id);
+
+  INSERT INTO public.messages (conversation_id, kind, system_event, body)
+  VALUES (
+    public.ensure_application_conversation(NEW.id),
+    'system',
+    CASE WHEN TG_OP = 'INSERT' THEN 'applied' ELSE NEW.status END,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN applicant_name || ' applied'
+      WHEN NEW.status = 'shortlisted' THEN applicant_name || ' was shortlisted'
+      WHEN NEW.status = 'hired' THEN applicant_name || ' was hired'
+      WHEN NEW.status = 'rejected' THEN applicant_name || ' was not selected'
+      WHEN NEW.status = 'withdrawn' THEN applicant_name || ' withdrew their application'
+      WHEN OLD.status = 'withdrawn' THEN applicant_name || ' applied again'
+      ELSE applicant_name || '''s application was moved back to new'
+    END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER post_application_status_message_on_insert
+  AFTER INSERT ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_application_status_message();
+
+CREATE TRIGGER post_application_status_message_on_update
+  AFTER UPDATE OF status ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_application_status_message();
+
+-- Function to send the same message to several applicants of a gig
+-- Replaces the version in migration 28: each copy now goes into the applicant's thread
+CREATE OR REPLACE FUNCTION public.message_gig_applicants(
+  p_application_ids UUID[],
+  p_body TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_application_id UUID;
+  sent_count INTEGER := 0;
+BEGIN
+  IF p_body IS NULL OR length(trim(p_body)) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.gig_applications ga
+    WHERE ga.id = ANY(p_application_ids)
+    AND NOT public.can_manage_gig(ga.gig_id, auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to message these applicants';
+  END IF;
+
+  FOR v_application_id IN
+    SELECT ga.id FROM public.gig_applications ga
+    WHERE ga.id = ANY(p_application_ids)
+    AND ga.status != 'withdrawn'
+  LOOP
+    INSERT INTO public.messages (conversation_id, sender_user_id, body)
+    VALUES (public.ensure_application_conversation(v_application_id), auth.uid(), trim(p_body));
+    sent_count := sent_count + 1;
+  END LOOP;
+
+  RETURN sent_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move existing poster messages into threads. The insert trigger is paused so nobody is notified
+-- again about old messages; conversation and read positions are filled in afterwards.
+DO $$
+DECLARE
+  v_application_id UUID;
+BEGIN
+  FOR v_application_id IN SELECT DISTINCT application_id FROM public.gig_application_messages LOOP
+    PERFORM public.ensure_application_conversation(v_application_id);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.messages DISABLE TRIGGER handle_new_message_on_insert;
+
+INSERT INTO public.messages (conversation_id, sender_user_id, body, created_at)
+SELECT c.id, gam.sender_user_id, gam.body, gam.created_at
+FROM public.gig_application_messages gam
+JOIN public.conversations c ON c.gig_application_id = gam.application_id;
+
+ALTER TABLE public.messages ENABLE TRIGGER handle_new_message_on_insert;
+
+-- New messages go to the threads from now on
+DROP POLICY IF EXISTS "Gig posters can message applicants" ON public.gig_application_messages;
+
+UPDATE public.conversations c
+SET last_message_at = latest.created_at
+FROM (
+  SELECT application_id, MAX(created_at) AS created_at
+  FROM public.gig_application_messages
+  GROUP BY application_id
+) latest
+WHERE c.gig_application_id = latest.application_id;
+
+-- Posters have seen what they sent; applicants have seen what they marked read
+UPDATE public.conversation_participants p
+SET last_read_at = CASE
+  WHEN p.role = 'owner' THEN c.last_message_at
+  ELSE (
+    SELECT MAX(gam.created_at) FROM public.gig_application_messages gam
+    WHERE gam.application_id = c.gig_application_id
+    AND gam.read_at IS NOT NULL
+  )
+END
+FROM public.conversations c
+WHERE c.id = p.conversation_id
+AND c.kind = 'application'
+AND c.last_message_at IS NOT NULL;
+
+-- Function for the inbox: the caller's conversations, newest activity first, with the latest
+-- message, unread count and the other participants. Replaces the version in migration 47 to add
+-- the gig behind application threads.
+DROP FUNCTION IF EXISTS public.get_my_conversations(INTEGER, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.get_my_conversations(p_limit INTEGER DEFAULT 50, p_before TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  kind TEXT,
+  title TEXT,
+  organization_id UUID,
+  organization_name TEXT,
+  organization_logo_url TEXT,
+  gig_application_id UUID,
+  gig_id UUID,
+  gig_title TEXT,
+  application_status TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_body TEXT,
+  last_message_sender_id UUID,
+  last_message_has_attachments BOOLEAN,
+  unread_count INTEGER,
+  participants JSONB
+) AS $$
+  SELECT
+    c.id,
+    c.kind,
+    c.title,
+    c.organization_id,
+    o.name,
+    o.logo_url,
+    c.gig_application_id,
+    g.id,
+    g.title,
+    ga.status,
+    c.last_message_at,
+    last_message.body,
+    last_message.sender_user_id,
+    COALESCE(jsonb_array_length(last_message.attachments) > 0, false),
+    (
+      SELECT COUNT(*)::INTEGER FROM public.messages m
+      WHERE m.conversation_id = c.id
+      AND m.deleted_at IS NULL
+      AND m.sender_user_id IS DISTINCT FROM auth.uid()
+      AND (me.last_read_at IS NULL OR m.created_at > me.last_read_at)
+    ),
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', u.id,
+        'full_name', u.full_name,
+        'avatar_url', u.avatar_url,
+        'last_read_at', p.last_read_at
+      ) ORDER BY u.full_name), '[]'::jsonb)
+      FROM public.conversation_participants p
+      JOIN public.users u ON u.id = p.user_id
+      WHERE p.conversation_id = c.id
+      AND p.left_at IS NULL
+      AND p.user_id <> auth.uid()
+    )
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  LEFT JOIN public.organization_profiles o ON o.id = c.organization_id
+  LEFT JOIN public.gig_applications ga ON ga.id = c.gig_application_id
+  LEFT JOIN public.gigs g ON g.id = ga.gig_id
+  LEFT JOIN LATERAL (
+    SELECT m.body, m.sender_user_id, m.attachments
+    FROM public.messages m
+    WHERE m.conversation_id = c.id AND m.deleted_at IS NULL
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE me.user_id = auth.uid()
+  AND me.left_at IS NULL
+  -- Threads nobody has written in yet only show up for whoever opened them
+  AND (c.last_message_at IS NOT NULL OR c.created_by = auth.uid())
+  AND (p_before IS NULL OR COALESCE(c.last_message_at, c.created_at) < p_before)
+  ORDER BY COALESCE(c.last_message_at, c.created_at) DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper: only reachable through the functions and triggers above
+REVOKE ALL ON FUNCTION public.ensure_application_conversation(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.ensure_application_conversation(UUID) FROM authenticated;
+
+-- Grant permissions
+GRANT ALL ON public.message_templates TO authenticated;
+GRANT EXECUTE ON FUNCTION public.open_application_conversation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_conversations(INTEGER, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+COMMENT ON TABLE public.message_templates IS 'Reusable message text posters can drop into application threads';
+COMMENT ON COLUMN public.conversations.gig_application_id IS 'The application an ''application'' thread belongs to';
+COMMENT ON COLUMN public.messages.system_event IS 'For system messages: applied, shortlisted, hired, rejected, withdrawn or submitted';
+COMMENT ON TABLE public.gig_application_messages IS 'Superseded by application threads (migration 48); kept read-only for history';
+COMMENT ON FUNCTION public.get_my_conversations IS 'Inbox for the current user with last message, unread count and participants';
@@ -0,0 +1,725 @@
+-- User safety: blocking, muting, rate limits and reports
+-- A block or mute is the blocker's own follows row with status 'blocked' or 'muted' (it replaces
+-- any follow they had). Blocks work both ways: neither person sees the other's posts or comments,
+-- can follow the other, or can message the other one-to-one, and their accounts and profiles are
+-- hidden from each other, which also takes them out of /network. Mutes are private: the muted person's posts and comments just stop showing up
+-- for whoever muted them. Rate limits cap how fast one person can send messages, comment, follow
+-- and report. Reports land in public.reports for moderators to work through.
+
+-- 1) Helpers
+-- Follows made, kept for the follow rate limit. Unfollowing deletes the follows row, so counting
+-- follows alone would let someone follow, unfollow and follow again without limit.
+CREATE TABLE IF NOT EXISTS public.follow_attempts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_attempts_user_created ON public.follow_attempts(user_id, created_at);
+
+-- Only enforce_rate_limit() reads and writes it
+ALTER TABLE public.follow_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p_user_a IS NOT NULL AND p_user_b IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE status = 'blocked'
+    AND (
+      (follower_user_id = p_user_a AND followed_user_id = p_user_b) OR
+      (follower_user_id = p_user_b AND followed_user_id = p_user_a)
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether p_viewer_id should not see content written by p_author_id: blocked either way, or muted
+CREATE OR REPLACE FUNCTION public.is_content_hidden(p_author_id UUID, p_viewer_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN AS $$
+  SELECT p_author_id IS NOT NULL AND p_viewer_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE (follower_user_id = p_viewer_id AND followed_user_id = p_author_id AND status IN ('blocked', 'muted'))
+    OR (follower_user_id = p_author_id AND followed_user_id = p_viewer_id AND status = 'blocked')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Raises when the caller has done p_action too often lately, so it can sit in a WITH CHECK and
+-- still give the client a readable error. Returns true otherwise.
+CREATE OR REPLACE FUNCTION public.enforce_rate_limit(p_action TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  me UUID := auth.uid();
+  v_limit INTEGER;
+  v_window INTERVAL;
+  v_recent INTEGER;
+  v_error TEXT;
+BEGIN
+  IF me IS NULL THEN
+    RETURN true;
+  END IF;
+
+  CASE p_action
+    WHEN 'message' THEN
+      v_limit := 30;
+      v_window := INTERVAL '1 minute';
+      v_error := 'You''re sending messages too quickly. Wait a moment and try again.';
+      SELECT COUNT(*) INTO v_recent FROM public.messages
+      WHERE sender_user_id = me AND created_at > now() - v_window;
+    WHEN 'comment' THEN
+      v_limit := 10;
+      v_window := INTERVAL '1 minute';
+      v_error := 'You''re commenting too quickly. Wait a moment and try again.';
+      SELECT COUNT(*) INTO v_recent FROM public.post_comments
+      WHERE user_id = me AND created_at > now() - v_window;
+    WHEN 'follow' THEN
+      v_limit := 100;
+      v_window := INTERVAL '1 hour';
+      v_error := 'You''ve followed a lot of accounts in the last hour. Try again later.';
+      DELETE FROM public.follow_attempts WHERE user_id = me AND created_at <= now() - v_window;
+      SELECT COUNT(*) INTO v_recent FROM public.follow_attempts WHERE user_id = me;
+    WHEN 'report' THEN
+      v_limit := 20;
+      v_window := INTERVAL '1 hour';
+      v_error := 'You''ve sent a lot of reports in the last hour. Try again later.';
+      SELECT COUNT(*) INTO v_recent FROM public.reports
+      WHERE reporter_user_id = me AND created_at > now() - v_window;
+    ELSE
+      RAISE EXCEPTION 'Unknown rate limit: %', p_action;
+  END CASE;
+
+  IF v_recent >= v_limit THEN
+    RAISE EXCEPTION '%', v_error USING HINT = 'rate_limited';
+  END IF;
+
+  IF p_action = 'follow' THEN
+    INSERT INTO public.follow_attempts (user_id) VALUES (me);
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 2) Reports
+CREATE TABLE IF NOT EXISTS public.reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+
+  -- What was reported; target_id points at users, posts, post_comments or messages
+  target_type TEXT NOT NULL CHECK (target_type IN ('user', 'post', 'comment', 'message')),
+  target_id UUID NOT NULL,
+  reported_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL, -- The account behind the target
+  content_snapshot TEXT, -- The text as it was when reported, in case it is edited or deleted
+
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'inappropriate', 'impersonation', 'scam', 'other')),
+  details TEXT CHECK (char_length(details) <= 2000),
+
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'actioned', 'dismissed')),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_status_created ON public.reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_reports_reporter ON public.reports(reporter_user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reports_reported_user ON public.reports(reported_user_id);
+CREATE INDEX IF NOT EXISTS idx_reports_target ON public.reports(target_type, target_id);
+
+-- One unresolved report per person per target
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_one_open_per_reporter
+  ON public.reports(reporter_user_id, target_type, target_id)
+  WHERE status IN ('open', 'reviewing');
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+-- Reports are filed through report_content(); reporters can follow their own
+CREATE POLICY "Users can view own reports" ON public.reports
+  FOR SELECT
+  USING (auth.uid() = reporter_user_id);
+
+CREATE TRIGGER set_updated_at_reports
+  BEFORE UPDATE ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to report a user, post, comment or message the caller can see
+CREATE OR REPLACE FUNCTION public.report_content(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  v_reported_user_id UUID;
+  v_snapshot TEXT;
+  v_report_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.enforce_rate_limit('report');
+
+  CASE p_target_type
+    WHEN 'user' THEN
+      SELECT id, full_name INTO v_reported_user_id, v_snapshot FROM public.users WHERE id = p_target_id;
+    WHEN 'post' THEN
+      SELECT user_id, concat_ws(E'\n', title, content) INTO v_reported_user_id, v_snapshot
+      FROM public.posts WHERE id = p_target_id;
+    WHEN 'comment' THEN
+      SELECT user_id, content INTO v_reported_user_id, v_snapshot
+      FROM public.post_comments WHERE id = p_target_id;
+    WHEN 'message' THEN
+      SELECT sender_user_id, body INTO v_reported_user_id, v_snapshot
+      FROM public.messages m
+      WHERE m.id = p_target_id AND public.is_conversation_participant(m.conversation_id, me);
+    ELSE
+      RAISE EXCEPTION 'Unknown report type: %', p_target_type;
+  END CASE;
+
+  IF v_reported_user_id IS NULL THEN
+    RAISE EXCEPTION 'Could not find what you are reporting';
+  END IF;
+
+  IF v_reported_user_id = me THEN
+    RAISE EXCEPTION 'You cannot report yourself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE reporter_user_id = me AND target_type = p_target_type AND target_id = p_target_id
+    AND status IN ('open', 'reviewing')
+  ) THEN
+    RAISE EXCEPTION 'You have already reported this. We will let you know what happens.';
+  END IF;
+
+  INSERT INTO public.reports (reporter_user_id, target_type, target_id, reported_user_id, content_snapshot, reason, details)
+  VALUES (me, p_target_type, p_target_id, v_reported_user_id, v_snapshot, p_reason, NULLIF(btrim(p_details), ''))
+  RETURNING id INTO v_report_id;
+
+  RETURN v_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3) Blocking and muting
+-- Follows can't be created or reactivated across a block, including through toggle_follow_user.
+-- Turning your own block row back into a follow is allowed; that is the blocker's call.
+CREATE OR REPLACE FUNCTION public.prevent_blocked_follow()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'active' AND NEW.followed_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_user_id = NEW.followed_user_id
+    AND followed_user_id = NEW.follower_user_id
+    AND status = 'blocked'
+  ) THEN
+    RAISE EXCEPTION 'You can''t follow this account';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_blocked_follow_trigger
+  BEFORE INSERT OR UPDATE OF status ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_blocked_follow();
+
+-- Function to block a user: replaces the caller's follow and removes theirs
+CREATE OR REPLACE FUNCTION public.block_user(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  me UUID := auth.uid();
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_user_id IS NULL OR p_user_id = me THEN
+    RAISE EXCEPTION 'You cannot block yourself';
+  END IF;
+
+  DELETE FROM public.follows
+  WHERE follower_user_id = p_user_id AND followed_user_id = me;
+
+  INSERT INTO public.follows (follower_user_id, followed_user_id, status, is_mutual)
+  VALUES (me, p_user_id, 'blocked', false)
+  ON CONFLICT (follower_user_id, followed_user_id)
+  DO UPDATE SET status = 'blocked', is_mutual = false;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to lift a block. The caller does not follow them again automatically.
+CREATE OR REPLACE FUNCTION public.unblock_user(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM public.follows
+  WHERE follower_user_id = auth.uid()
+  AND followed_user_id = p_user_id
+  AND status = 'blocked';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to mute a user: replaces the caller's follow, without touching theirs
+CREATE OR REPLACE FUNCTION public.mute_user(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  me UUID := auth.uid();
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_user_id IS NULL OR p_user_id = me THEN
+    RAISE EXCEPTION 'You cannot mute yourself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_user_id = me AND followed_user_id = p_user_id AND status = 'blocked'
+  ) THEN
+    RAISE EXCEPTION 'Unblock this account before muting it';
+  END IF;
+
+  INSERT INTO public.follows (follower_user_id, followed_user_id, status, is_mutual)
+  VALUES (me, p_user_id, 'muted', false)
+  ON CONFLICT (follower_user_id, followed_user_id)
+  DO UPDATE SET status = 'muted', is_mutual = false;
+
+  UPDATE public.follows
+  SET is_mutual = false
+  WHERE follower_user_id = p_user_id AND followed_user_id = me;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.unmute_user(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM public.follows
+  WHERE follower_user_id = auth.uid()
+  AND followed_user_id = p_user_id
+  AND status = 'muted';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Everyone the caller has blocked or been blocked by
+CREATE OR REPLACE FUNCTION public.get_blocked_user_ids()
+RETURNS SETOF UUID AS $$
+  SELECT followed_user_id FROM public.follows
+  WHERE follower_user_id = auth.uid() AND status = 'blocked' AND followed_user_id IS NOT NULL
+  UNION
+  SELECT follower_user_id FROM public.follows
+  WHERE followed_user_id = auth.uid() AND status = 'blocked';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replaces the version in migration 10: follows are rate limited, a blocked row can't be toggled
+-- away (use unblock_user), and following someone you muted unmutes them
+CREATE OR REPLACE FUNCTION public.toggle_follow_user(target_user_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  existing_follow RECORD;
+  is_now_following BOOLEAN := false;
+BEGIN
+  -- Check if follow relationship already exists
+  SELECT * INTO existing_follow
+  FROM public.follows
+  WHERE follower_user_id = auth.uid()
+  AND followed_user_id = target_user_id;
+
+  IF existing_follow.id IS NOT NULL AND existing_follow.status = 'blocked' THEN
+    RAISE EXCEPTION 'Unblock this account before following it';
+  ELSIF existing_follow.id IS NOT NULL AND existing_follow.status = 'muted' THEN
+    PERFORM public.enforce_rate_limit('follow');
+    UPDATE public.follows SET status = 'active' WHERE id = existing_follow.id;
+    is_now_following := true;
+  ELSIF existing_follow.id IS NOT NULL THEN
+    -- Unfollow: Remove the relationship
+    DELETE FROM public.follows WHERE id = existing_follow.id;
+    is_now_following := false;
+  ELSE
+    -- Follow: Create new relationship
+    PERFORM public.enforce_rate_limit('follow');
+    INSERT INTO public.follows (follower_user_id, followed_user_id)
+    VALUES (auth.uid(), target_user_id);
+    is_now_following := true;
+  END IF;
+
+  RETURN is_now_following;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaces the version in migration 10 to rate limit new follows
+CREATE OR REPLACE FUNCTION public.toggle_follow_organization(target_org_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  existing_follow RECORD;
+  is_now_following BOOLEAN := false;
+BEGIN
+  -- Check if follow relationship already exists
+  SELECT * INTO existing_follow
+  FROM public.follows
+  WHERE follower_user_id = auth.uid()
+  AND followed_organization_id = target_org_id;
+
+  IF existing_follow.id IS NOT NULL THEN
+    -- Unfollow: Remove the relationship
+    DELETE FROM public.follows WHERE id = existing_follow.id;
+    is_now_following := false;
+  ELSE
+    -- Follow: Create new relationship
+    PERFORM public.enforce_rate_limit('follow');
+    INSERT INTO public.follows (follower_user_id, followed_organization_id)
+    VALUES (auth.uid(), target_org_id);
+    is_now_following := true;
+  END IF;
+
+  RETURN is_now_following;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4) RLS. Restrictive policies are ANDed with the existing permissive ones, so they narrow every
+-- read and write path without rewriting those policies.
+CREATE POLICY "Blocked users cannot view each other's accounts" ON public.users
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (NOT public.is_blocked_between(id, auth.uid()));
+
+CREATE POLICY "Blocked users cannot view each other's profiles" ON public.individual_profiles
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (NOT public.is_blocked_between(user_id, auth.uid()));
+
+CREATE POLICY "Blocked users cannot view each other's posts" ON public.posts
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (NOT public.is_blocked_between(user_id, auth.uid()));
+
+CREATE POLICY "Blocked users cannot view each other's comments" ON public.post_comments
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (NOT public.is_blocked_between(user_id, auth.uid()));
+
+CREATE POLICY "Comments respect blocks and rate limits" ON public.post_comments
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1 FROM public.posts p
+      WHERE p.id = post_comments.post_id
+      AND public.is_blocked_between(p.user_id, auth.uid())
+    ) AND
+    public.enforce_rate_limit('comment')
+  );
+
+CREATE POLICY "Follows are rate limited" ON public.follows
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (status <> 'active' OR public.enforce_rate_limit('follow'));
+
+-- One-to-one and application threads go quiet across a block; groups carry on
+CREATE POLICY "Messages respect blocks and rate limits" ON public.messages
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1
+      FROM public.conversations c
+      JOIN public.conversation_participants cp ON cp.conversation_id = c.id
+      WHERE c.id = messages.conversation_id
+      AND c.kind IN ('direct', 'application')
+      AND cp.left_at IS NULL
+      AND cp.user_id <> auth.uid()
+      AND public.is_blocked_between(cp.user_id, auth.uid())
+    ) AND
+    public.enforce_rate_limit('message')
+  );
+
+-- 5) Functions that bypass RLS
+-- Replaces the version in migration 11 to leave out posts across a block and from muted accounts
+CREATE OR REPLACE FUNCTION public.get_user_feed(
+  p_user_id UUID DEFAULT auth.uid(),
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  organization_id UUID,
+  content TEXT,
+  title TEXT,
+  post_type TEXT,
+  visibility TEXT,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_liked BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.organization_id,
+    p.content,
+    p.title,
+    p.post_type,
+    p.visibility,
+    p.likes_count,
+    p.comments_count,
+    p.created_at,
+    EXISTS(
+      SELECT 1 FROM public.post_likes pl
+      WHERE pl.post_id = p.id AND pl.user_id = p_user_id
+    ) as is_liked
+  FROM public.posts p
+  WHERE p.is_published = true
+  AND (
+    -- User's own posts
+    p.user_id = p_user_id OR
+    -- Organization posts from orgs user admins
+    (p.organization_id IS NOT NULL AND public.is_organization_admin(p.organization_id, p_user_id)) OR
+    -- Public posts
+    p.visibility = 'public' OR
+    -- Posts from followed users/organizations
+    (p.visibility = 'followers' AND (
+      (p.user_id IS NOT NULL AND public.is_following_user(p.user_id, p_user_id)) OR
+      (p.organization_id IS NOT NULL AND public.is_following_organization(p.organization_id, p_user_id))
+    ))
+  )
+  -- Blocked either way or muted; the client may pass a NULL p_user_id, so fall back to the caller
+  AND NOT public.is_content_hidden(p.user_id, COALESCE(p_user_id, auth.uid()))
+  AND NOT public.is_blocked_between(p.user_id, auth.uid())
+  ORDER BY p.created_at DESC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaces the version in migration 09 to leave out comments across a block and from muted
+-- accounts (replies under a hidden comment go with it)
+CREATE OR REPLACE FUNCTION public.get_post_comments_tree(p_post_id UUID, p_limit INTEGER DEFAULT 50, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  post_id UUID,
+  parent_comment_id UUID,
+  content TEXT,
+  likes_count INTEGER,
+  replies_count INTEGER,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  level INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH RECURSIVE comment_tree AS (
+    -- Base case: top-level comments
+    SELECT
+      c.id, c.user_id, c.post_id, c.parent_comment_id, c.content,
+      c.likes_count, c.replies_count, c.is_edited, c.created_at,
+      0 as level
+    FROM public.post_comments c
+    WHERE c.post_id = p_post_id
+    AND c.parent_comment_id IS NULL
+    AND c.is_deleted = false
+    AND NOT public.is_content_hidden(c.user_id, auth.uid())
+
+    UNION ALL
+
+    -- Recursive case: replies to comments
+    SELECT
+      c.id, c.user_id, c.post_id, c.parent_comment_id, c.content,
+      c.likes_count, c.replies_count, c.is_edited, c.created_at,
+      ct.level + 1
+    FROM public.post_comments c
+    INNER JOIN comment_tree ct ON c.parent_comment_id = ct.id
+    WHERE c.is_deleted = false
+    AND NOT public.is_content_hidden(c.user_id, auth.uid())
+  )
+  SELECT * FROM comment_tree
+  ORDER BY level, created_at ASC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaces the version in migration 45: nobody is notified about their own actions, or about
+-- anything done by someone on the other side of a block
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT DEFAULT NULL,
+  p_link TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::jsonb,
+  p_actor_user_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id IS NOT DISTINCT FROM p_actor_user_id THEN
+    RETURN;
+  END IF;
+
+  IF public.is_blocked_between(p_user_id, p_actor_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, data, actor_user_id)
+  VALUES (p_user_id, p_type, p_title, p_body, p_link, COALESCE(p_data, '{}'::jsonb), p_actor_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replaces the version in migration 47 to refuse threads across a block
+CREATE OR REPLACE FUNCTION public.start_direct_conversation(p_other_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  v_key TEXT;
+  v_conversation_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_other_user_id IS NULL OR p_other_user_id = me THEN
+    RAISE EXCEPTION 'Choose someone else to message';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = p_other_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF public.is_blocked_between(me, p_other_user_id) THEN
+    RAISE EXCEPTION 'You can''t message this account';
+  END IF;
+
+  v_key := LEAST(me::TEXT, p_other_user_id::TEXT) || ':' || GREATEST(me::TEXT, p_other_user_id::TEXT);
+
+  SELECT id INTO v_conversation_id FROM public.conversations WHERE direct_key = v_key;
+
+  IF v_conversation_id IS NULL THEN
+    INSERT INTO public.conversations (kind, created_by, direct_key)
+    VALUES ('direct', me, v_key)
+    ON CONFLICT (direct_key) DO NOTHING
+    RETURNING id INTO v_conversation_id;
+
+    -- Lost a race with the other person opening the same thread
+    IF v_conversation_id IS NULL THEN
+      SELECT id INTO v_conversation_id FROM public.conversations WHERE direct_key = v_key;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+    VALUES (v_conversation_id, me, 'member'), (v_conversation_id, p_other_user_id, 'member')
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replaces the version in migration 47 so nobody is put in a new group with someone across a block
+CREATE OR REPLACE FUNCTION public.create_group_conversation(p_title TEXT, p_user_ids UUID[])
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  members UUID[];
+  v_conversation_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT u.id), '{}') INTO members
+  FROM public.users u
+  WHERE u.id = ANY(p_user_ids) AND u.id <> me;
+
+  IF array_length(members, 1) IS NULL OR array_length(members, 1) < 2 THEN
+    RAISE EXCEPTION 'A group needs at least two other people';
+  END IF;
+
+  IF array_length(members, 1) > 19 THEN
+    RAISE EXCEPTION 'Groups can have at most 20 people';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(members) AS member_id
+    WHERE public.is_blocked_between(me, member_id)
+  ) THEN
+    RAISE EXCEPTION 'Some of these people can''t be added to a group with you';
+  END IF;
+
+  INSERT INTO public.conversations (kind, title, created_by)
+  VALUES ('group', NULLIF(btrim(p_title), ''), me)
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  SELECT v_conversation_id, me, 'owner'
+  UNION ALL
+  SELECT v_conversation_id, unnest(members), 'member';
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replaces the version in migration 48 to skip applicants across a block
+CREATE OR REPLACE FUNCTION public.message_gig_applicants(
+  p_application_ids UUID[],
+  p_body TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_application_id UUID;
+  sent_count INTEGER := 0;
+BEGIN
+  IF p_body IS NULL OR length(trim(p_body)) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.gig_applications ga
+    WHERE ga.id = ANY(p_application_ids)
+    AND NOT public.can_manage_gig(ga.gig_id, auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to message these applicants';
+  END IF;
+
+  FOR v_application_id IN
+    SELECT ga.id FROM public.gig_applications ga
+    WHERE ga.id = ANY(p_application_ids)
+    AND ga.status != 'withdrawn'
+    AND NOT public.is_blocked_between(ga.applicant_user_id, auth.uid())
+  LOOP
+    INSERT INTO public.messages (conversation_id, sender_user_id, body)
+    VALUES (public.ensure_application_conversation(v_application_id), auth.uid(), trim(p_body));
+    sent_count := sent_count + 1;
+  END LOOP;
+
+  RETURN sent_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant permissions
+GRANT SELECT ON public.reports TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_blocked_between(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_content_hidden(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enforce_rate_limit(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.report_content(TEXT, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.block_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unblock_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mute_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unmute_user(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_blocked_user_ids() TO authenticated;
+
+COMMENT ON TABLE public.follow_attempts IS 'Follows made in the last hour, counted by the follow rate limit';
+COMMENT ON TABLE public.reports IS 'Reports of users, posts, comments and messages awaiting moderation';
+COMMENT ON COLUMN public.reports.content_snapshot IS 'The reported text as it was when the report was filed';
+COMMENT ON FUNCTION public.is_blocked_between IS 'True when either user has blocked the other';
+COMMENT ON FUNCTION public.enforce_rate_limit IS 'Raises when the caller exceeds the limit for message, comment, follow or report';
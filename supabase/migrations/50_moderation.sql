@@ -0,0 +1,820 @@
+-- Moderation: platform admins, the moderation queue and its audit log
+-- Platform admins are listed in public.platform_admins, which only the service role can write:
+--   INSERT INTO public.platform_admins (user_id) VALUES ('<user id>');
+-- The queue is everything with open reports (migration 49) plus posts, comments and gigs whose
+-- is_flagged is set. Admins work through it at /admin/moderation: they dismiss, hide or delete the
+-- content and can warn or suspend its author. Every decision is written to moderation_actions,
+-- the reports on that content are closed with an outcome, and the reporters are notified.
+-- Hidden content stays visible to its author and to admins only. Suspended accounts can still
+-- sign in and read, but can't post, comment, message, post gigs or apply to them.
+
+-- 1) Platform admins
+CREATE TABLE IF NOT EXISTS public.platform_admins (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+  granted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.platform_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_platform_admin(p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN AS $$
+  SELECT p_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.platform_admins WHERE user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Platform admins can view platform admins" ON public.platform_admins
+  FOR SELECT
+  USING (public.is_platform_admin());
+
+-- 2) Moderation state on content and accounts
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.post_comments ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.gigs ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_posts_flagged ON public.posts(updated_at) WHERE is_flagged = true;
+CREATE INDEX IF NOT EXISTS idx_post_comments_flagged ON public.post_comments(updated_at) WHERE is_flagged = true;
+CREATE INDEX IF NOT EXISTS idx_gigs_flagged ON public.gigs(updated_at) WHERE is_flagged = true;
+
+-- Authors can still edit their posts, comments and gigs, and anyone who may update a comment can
+-- flag it, but only admins can hide content, clear a flag or sign off on it
+CREATE OR REPLACE FUNCTION public.protect_moderation_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_platform_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at
+  OR NEW.moderator_id IS DISTINCT FROM OLD.moderator_id
+  OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at
+  OR (OLD.is_flagged AND NOT COALESCE(NEW.is_flagged, false)) THEN
+    RAISE EXCEPTION 'Only moderators can change moderation status';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_moderation_fields_posts
+  BEFORE UPDATE ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_moderation_fields();
+
+CREATE TRIGGER protect_moderation_fields_post_comments
+  BEFORE UPDATE ON public.post_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_moderation_fields();
+
+CREATE TRIGGER protect_moderation_fields_gigs
+  BEFORE UPDATE ON public.gigs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_moderation_fields();
+
+-- "Users can update own profile" covers every column, so keep people from lifting their own suspension
+CREATE OR REPLACE FUNCTION public.protect_user_suspension()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.suspended_until IS DISTINCT FROM OLD.suspended_until
+  AND auth.uid() IS NOT NULL
+  AND NOT public.is_platform_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can change a suspension';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_user_suspension_trigger
+  BEFORE UPDATE OF suspended_until ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_user_suspension();
+
+-- Raises while the caller is suspended, so it can sit in a WITH CHECK and still give the client a
+-- readable error. Returns true otherwise.
+CREATE OR REPLACE FUNCTION public.enforce_not_suspended()
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT suspended_until INTO v_until FROM public.users WHERE id = auth.uid();
+
+  IF v_until IS NOT NULL AND v_until > timezone('utc'::text, now()) THEN
+    RAISE EXCEPTION 'Your account is suspended until %', to_char(v_until, 'FMMonth FMDD, YYYY')
+      USING HINT = 'suspended';
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3) Audit log
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  moderator_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+
+  -- What was moderated; target_id points at users, posts, post_comments, gigs or messages
+  target_type TEXT NOT NULL CHECK (target_type IN ('user', 'post', 'comment', 'gig', 'message')),
+  target_id UUID NOT NULL,
+  subject_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL, -- The author of the target
+  content_snapshot TEXT, -- The text at the time, since hide and delete change or remove it
+
+  action TEXT NOT NULL CHECK (action IN ('dismiss', 'hide', 'delete', 'warn', 'suspend', 'unsuspend')),
+  note TEXT CHECK (char_length(note) <= 2000), -- Shown to the author with warnings, removals and suspensions
+  suspended_until TIMESTAMP WITH TIME ZONE, -- 'suspend' only
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_created ON public.moderation_actions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_target ON public.moderation_actions(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_subject ON public.moderation_actions(subject_user_id, created_at DESC);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by moderate_content() and lift_suspension(); nobody edits the log
+CREATE POLICY "Platform admins can view moderation actions" ON public.moderation_actions
+  FOR SELECT
+  USING (public.is_platform_admin());
+
+-- 4) Reports: gigs can be reported too, and resolved reports say what happened
+ALTER TABLE public.reports DROP CONSTRAINT IF EXISTS reports_target_type_check;
+ALTER TABLE public.reports ADD CONSTRAINT reports_target_type_check
+  CHECK (target_type IN ('user', 'post', 'comment', 'gig', 'message'));
+
+ALTER TABLE public.reports
+  ADD COLUMN IF NOT EXISTS outcome TEXT CHECK (outcome IN (
+    'no_violation', 'content_hidden', 'content_removed', 'author_warned', 'author_suspended'
+  )),
+  ADD COLUMN IF NOT EXISTS moderation_action_id UUID REFERENCES public.moderation_actions(id) ON DELETE SET NULL;
+
+CREATE POLICY "Platform admins can view reports" ON public.reports
+  FOR SELECT
+  USING (public.is_platform_admin());
+
+-- Replaces the version in migration 49 to accept gigs, which are reported against whoever posted
+-- them (the organization's owner for organization gigs)
+CREATE OR REPLACE FUNCTION public.report_content(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  v_reported_user_id UUID;
+  v_snapshot TEXT;
+  v_report_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM public.enforce_rate_limit('report');
+
+  CASE p_target_type
+    WHEN 'user' THEN
+      SELECT id, full_name INTO v_reported_user_id, v_snapshot FROM public.users WHERE id = p_target_id;
+    WHEN 'post' THEN
+      SELECT user_id, concat_ws(E'\n', title, content) INTO v_reported_user_id, v_snapshot
+      FROM public.posts WHERE id = p_target_id;
+    WHEN 'comment' THEN
+      SELECT user_id, content INTO v_reported_user_id, v_snapshot
+      FROM public.post_comments WHERE id = p_target_id;
+    WHEN 'gig' THEN
+      SELECT public.get_gig_author_id(g.id), concat_ws(E'\n', g.title, g.description)
+      INTO v_reported_user_id, v_snapshot
+      FROM public.gigs g WHERE g.id = p_target_id;
+    WHEN 'message' THEN
+      SELECT sender_user_id, body INTO v_reported_user_id, v_snapshot
+      FROM public.messages m
+      WHERE m.id = p_target_id AND public.is_conversation_participant(m.conversation_id, me);
+    ELSE
+      RAISE EXCEPTION 'Unknown report type: %', p_target_type;
+  END CASE;
+
+  IF v_reported_user_id IS NULL THEN
+    RAISE EXCEPTION 'Could not find what you are reporting';
+  END IF;
+
+  IF v_reported_user_id = me THEN
+    RAISE EXCEPTION 'You cannot report yourself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE reporter_user_id = me AND target_type = p_target_type AND target_id = p_target_id
+    AND status IN ('open', 'reviewing')
+  ) THEN
+    RAISE EXCEPTION 'You have already reported this. We will let you know what happens.';
+  END IF;
+
+  INSERT INTO public.reports (reporter_user_id, target_type, target_id, reported_user_id, content_snapshot, reason, details)
+  VALUES (me, p_target_type, p_target_id, v_reported_user_id, v_snapshot, p_reason, NULLIF(btrim(p_details), ''))
+  RETURNING id INTO v_report_id;
+
+  RETURN v_report_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The person answerable for a gig: its poster, or the owner of the organization that posted it
+CREATE OR REPLACE FUNCTION public.get_gig_author_id(p_gig_id UUID)
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    g.posted_by_user_id,
+    (
+      SELECT oa.user_id FROM public.org_admins oa
+      WHERE oa.organization_id = g.posted_by_organization_id AND oa.role = 'owner'
+      ORDER BY oa.created_at
+      LIMIT 1
+    )
+  )
+  FROM public.gigs g
+  WHERE g.id = p_gig_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 5) The queue. One row per piece of content, newest reports merged; admins only.
+CREATE OR REPLACE FUNCTION public.get_moderation_queue(p_limit INTEGER DEFAULT 50, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+  target_type TEXT,
+  target_id UUID,
+  author_user_id UUID,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  author_suspended_until TIMESTAMP WITH TIME ZONE,
+  author_prior_actions INTEGER,
+  content TEXT,
+  context TEXT,
+  is_hidden BOOLEAN,
+  is_removed BOOLEAN,
+  flagged_reason TEXT,
+  report_count INTEGER,
+  report_reasons TEXT[],
+  report_details TEXT[],
+  first_flagged_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH reported AS (
+    SELECT
+      r.target_type,
+      r.target_id,
+      COUNT(*)::INTEGER AS report_count,
+      array_agg(DISTINCT r.reason) AS reasons,
+      array_remove(array_agg(r.details ORDER BY r.created_at), NULL) AS details,
+      MIN(r.created_at) AS first_at,
+      (array_agg(r.content_snapshot ORDER BY r.created_at DESC))[1] AS snapshot,
+      (array_agg(r.reported_user_id ORDER BY r.created_at DESC))[1] AS reported_user_id
+    FROM public.reports r
+    WHERE r.status IN ('open', 'reviewing')
+    GROUP BY r.target_type, r.target_id
+  ),
+  flagged AS (
+    SELECT 'post'::TEXT AS target_type, p.id AS target_id, p.flagged_reason, p.updated_at AS flagged_at
+    FROM public.posts p WHERE p.is_flagged = true
+    UNION ALL
+    SELECT 'comment', c.id, c.flagged_reason, c.updated_at
+    FROM public.post_comments c WHERE c.is_flagged = true
+    UNION ALL
+    SELECT 'gig', g.id, g.flagged_reason, g.updated_at
+    FROM public.gigs g WHERE g.is_flagged = true
+  ),
+  items AS (
+    SELECT
+      COALESCE(rp.target_type, f.target_type) AS target_type,
+      COALESCE(rp.target_id, f.target_id) AS target_id,
+      f.flagged_reason,
+      COALESCE(rp.report_count, 0) AS report_count,
+      COALESCE(rp.reasons, '{}'::TEXT[]) AS reasons,
+      COALESCE(rp.details, '{}'::TEXT[]) AS details,
+      LEAST(rp.first_at, f.flagged_at) AS first_at,
+      rp.snapshot,
+      rp.reported_user_id
+    FROM reported rp
+    FULL OUTER JOIN flagged f ON f.target_type = rp.target_type AND f.target_id = rp.target_id
+  )
+  SELECT
+    i.target_type,
+    i.target_id,
+    u.id,
+    u.full_name,
+    u.avatar_url,
+    u.suspended_until,
+    (
+      SELECT COUNT(*)::INTEGER FROM public.moderation_actions ma
+      WHERE ma.subject_user_id = u.id AND ma.action IN ('hide', 'delete', 'warn', 'suspend')
+    ),
+    COALESCE(d.content, i.snapshot),
+    d.context,
+    COALESCE(d.is_hidden, false),
+    d.author_user_id IS NULL,
+    i.flagged_reason,
+    i.report_count,
+    i.reasons,
+    i.details,
+    i.first_at
+  FROM items i
+  LEFT JOIN LATERAL (
+    SELECT p.user_id AS author_user_id, concat_ws(E'\n', p.title, p.content) AS content,
+      NULL::TEXT AS context, p.hidden_at IS NOT NULL AS is_hidden
+    FROM public.posts p
+    WHERE i.target_type = 'post' AND p.id = i.target_id
+    UNION ALL
+    -- Comments come with the post they were left on
+    SELECT c.user_id, c.content, left(concat_ws(E'\n', p.title, p.content), 500), c.hidden_at IS NOT NULL
+    FROM public.post_comments c
+    JOIN public.posts p ON p.id = c.post_id
+    WHERE i.target_type = 'comment' AND c.id = i.target_id AND c.is_deleted = false
+    UNION ALL
+    SELECT public.get_gig_author_id(g.id), concat_ws(E'\n', g.title, g.description), NULL, g.hidden_at IS NOT NULL
+    FROM public.gigs g
+    WHERE i.target_type = 'gig' AND g.id = i.target_id
+    UNION ALL
+    -- Messages come with the few before them in the thread
+    SELECT m.sender_user_id, m.body, (
+      SELECT string_agg(concat(COALESCE(pu.full_name, 'Someone'), ': ', prev.body), E'\n' ORDER BY prev.created_at)
+      FROM (
+        SELECT pm.sender_user_id, pm.body, pm.created_at FROM public.messages pm
+        WHERE pm.conversation_id = m.conversation_id
+        AND pm.created_at < m.created_at
+        AND pm.deleted_at IS NULL
+        ORDER BY pm.created_at DESC
+        LIMIT 3
+      ) prev
+      LEFT JOIN public.users pu ON pu.id = prev.sender_user_id
+    ), false
+    FROM public.messages m
+    WHERE i.target_type = 'message' AND m.id = i.target_id AND m.deleted_at IS NULL
+    UNION ALL
+    SELECT us.id, us.full_name, ip.bio, false
+    FROM public.users us
+    LEFT JOIN public.individual_profiles ip ON ip.user_id = us.id
+    WHERE i.target_type = 'user' AND us.id = i.target_id
+  ) d ON true
+  LEFT JOIN public.users u ON u.id = COALESCE(d.author_user_id, i.reported_user_id)
+  WHERE public.is_platform_admin()
+  ORDER BY i.report_count DESC, i.first_at ASC
+  LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 6) Acting on the queue
+-- p_action is what happens to the content: 'dismiss' leaves it up, 'hide' keeps it for its author
+-- only, 'delete' removes it. Accounts can only be dismissed and messages can't be hidden.
+-- p_author_action optionally warns or suspends the author for p_suspend_days. p_note is shown to
+-- the author. Returns the logged action for the content.
+CREATE OR REPLACE FUNCTION public.moderate_content(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_action TEXT,
+  p_author_action TEXT DEFAULT NULL,
+  p_suspend_days INTEGER DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  v_now TIMESTAMP WITH TIME ZONE := timezone('utc'::text, now());
+  v_note TEXT := NULLIF(btrim(p_note), '');
+  v_label TEXT;
+  v_author_id UUID;
+  v_snapshot TEXT;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_action_id UUID;
+  v_status TEXT;
+  v_outcome TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  v_reporter_id UUID;
+BEGIN
+  IF NOT public.is_platform_admin(me) THEN
+    RAISE EXCEPTION 'Only platform admins can moderate content';
+  END IF;
+
+  IF p_action NOT IN ('dismiss', 'hide', 'delete') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  IF p_author_action IS NOT NULL AND p_author_action NOT IN ('warn', 'suspend') THEN
+    RAISE EXCEPTION 'Unknown author action: %', p_author_action;
+  END IF;
+
+  IF p_author_action = 'suspend' AND COALESCE(p_suspend_days, 0) < 1 THEN
+    RAISE EXCEPTION 'Choose how many days to suspend the author for';
+  END IF;
+
+  IF p_target_type = 'user' AND p_action <> 'dismiss' THEN
+    RAISE EXCEPTION 'Accounts can''t be hidden or deleted; warn or suspend them instead';
+  END IF;
+
+  IF p_target_type = 'message' AND p_action = 'hide' THEN
+    RAISE EXCEPTION 'Messages can be deleted but not hidden';
+  END IF;
+
+  v_label := CASE p_target_type WHEN 'user' THEN 'account' ELSE p_target_type END;
+
+  CASE p_target_type
+    WHEN 'user' THEN
+      SELECT id, full_name INTO v_author_id, v_snapshot FROM public.users WHERE id = p_target_id;
+
+    WHEN 'post' THEN
+      SELECT user_id, concat_ws(E'\n', title, content) INTO v_author_id, v_snapshot
+      FROM public.posts WHERE id = p_target_id;
+
+      IF p_action = 'delete' THEN
+        DELETE FROM public.posts WHERE id = p_target_id;
+      ELSE
+        UPDATE public.posts
+        SET is_flagged = false,
+            hidden_at = CASE WHEN p_action = 'hide' THEN COALESCE(hidden_at, v_now) ELSE hidden_at END,
+            moderator_id = me,
+            moderated_at = v_now
+        WHERE id = p_target_id;
+      END IF;
+
+    WHEN 'comment' THEN
+      SELECT user_id, content INTO v_author_id, v_snapshot
+      FROM public.post_comments WHERE id = p_target_id;
+
+      -- Same rule as soft_delete_comment: keep the row while it has live replies
+      IF p_action = 'delete' AND EXISTS (
+        SELECT 1 FROM public.post_comments WHERE parent_comment_id = p_target_id AND is_deleted = false
+      ) THEN
+        UPDATE public.post_comments
+        SET is_deleted = true, content = '[removed by a moderator]', is_flagged = false,
+            moderator_id = me, moderated_at = v_now
+        WHERE id = p_target_id;
+      ELSIF p_action = 'delete' THEN
+        DELETE FROM public.post_comments WHERE id = p_target_id;
+      ELSE
+        UPDATE public.post_comments
+        SET is_flagged = false,
+            hidden_at = CASE WHEN p_action = 'hide' THEN COALESCE(hidden_at, v_now) ELSE hidden_at END,
+            moderator_id = me,
+            moderated_at = v_now
+        WHERE id = p_target_id;
+      END IF;
+
+    WHEN 'gig' THEN
+      SELECT public.get_gig_author_id(id), concat_ws(E'\n', title, description) INTO v_author_id, v_snapshot
+      FROM public.gigs WHERE id = p_target_id;
+
+      IF p_action = 'delete' THEN
+        DELETE FROM public.gigs WHERE id = p_target_id;
+      ELSE
+        UPDATE public.gigs
+        SET is_flagged = false,
+            hidden_at = CASE WHEN p_action = 'hide' THEN COALESCE(hidden_at, v_now) ELSE hidden_at END,
+            moderator_id = me,
+            moderated_at = v_now
+        WHERE id = p_target_id;
+      END IF;
+
+    WHEN 'message' THEN
+      SELECT sender_user_id, body INTO v_author_id, v_snapshot
+      FROM public.messages WHERE id = p_target_id;
+
+      -- handle_message_edit clears the body and attachments
+      IF p_action = 'delete' THEN
+        UPDATE public.messages SET deleted_at = v_now WHERE id = p_target_id AND deleted_at IS NULL;
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown moderation target: %', p_target_type;
+  END CASE;
+
+  -- The author may have deleted it already; the reports still need an answer
+  IF v_author_id IS NULL THEN
+    SELECT reported_user_id, content_snapshot INTO v_author_id, v_snapshot
+    FROM public.reports
+    WHERE target_type = p_target_type AND target_id = p_target_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_author_id IS NULL AND v_snapshot IS NULL THEN
+    RAISE EXCEPTION 'Could not find anything to moderate';
+  END IF;
+
+  INSERT INTO public.moderation_actions (moderator_user_id, target_type, target_id, subject_user_id, content_snapshot, action, note)
+  VALUES (me, p_target_type, p_target_id, v_author_id, v_snapshot, p_action, v_note)
+  RETURNING id INTO v_action_id;
+
+  IF p_author_action IS NOT NULL AND v_author_id IS NOT NULL THEN
+    IF p_author_action = 'suspend' THEN
+      v_until := v_now + make_interval(days => p_suspend_days);
+
+      UPDATE public.users
+      SET suspended_until = GREATEST(COALESCE(suspended_until, v_now), v_until)
+      WHERE id = v_author_id
+      RETURNING suspended_until INTO v_until;
+    END IF;
+
+    INSERT INTO public.moderation_actions (moderator_user_id, target_type, target_id, subject_user_id, action, note, suspended_until)
+    VALUES (me, p_target_type, p_target_id, v_author_id, p_author_action, v_note, v_until);
+  END IF;
+
+  -- One notice to the author covering everything that was done
+  IF p_action <> 'dismiss' OR p_author_action IS NOT NULL THEN
+    v_title := CASE
+      WHEN p_author_action = 'suspend' THEN
+        format('Your account is suspended until %s', to_char(v_until, 'FMMonth FMDD, YYYY'))
+      WHEN p_author_action = 'warn' THEN 'You received a warning from our moderators'
+      WHEN p_action = 'hide' THEN format('Your %s was hidden by our moderators', v_label)
+      ELSE format('Your %s was removed by our moderators', v_label)
+    END;
+    v_body := concat_ws(' ',
+      CASE p_action
+        WHEN 'hide' THEN format('We hid your %s because it breaks our community guidelines. Only you can still see it.', v_label)
+        WHEN 'delete' THEN format('We removed your %s because it breaks our community guidelines.', v_label)
+      END,
+      v_note
+    );
+
+    PERFORM public.create_notification(
+      v_author_id,
+      'moderation_notice',
+      v_title,
+      NULLIF(v_body, ''),
+      NULL,
+      jsonb_build_object('moderation_action_id', v_action_id, 'target_type', p_target_type, 'target_id', p_target_id)
+    );
+  END IF;
+
+  -- Close the reports and tell each reporter how it went (not who decided or what they wrote)
+  v_status := CASE WHEN p_action = 'dismiss' AND p_author_action IS NULL THEN 'dismissed' ELSE 'actioned' END;
+  v_outcome := CASE
+    WHEN p_author_action = 'suspend' THEN 'author_suspended'
+    WHEN p_action = 'delete' THEN 'content_removed'
+    WHEN p_action = 'hide' THEN 'content_hidden'
+    WHEN p_author_action = 'warn' THEN 'author_warned'
+    ELSE 'no_violation'
+  END;
+
+  FOR v_reporter_id IN
+    UPDATE public.reports
+    SET status = v_status, outcome = v_outcome, moderation_action_id = v_action_id, resolved_at = v_now
+    WHERE target_type = p_target_type AND target_id = p_target_id AND status IN ('open', 'reviewing')
+    RETURNING reporter_user_id
+  LOOP
+    PERFORM public.create_notification(
+      v_reporter_id,
+      'report_update',
+      'We reviewed your report',
+      CASE v_outcome
+        WHEN 'no_violation' THEN format('The %s you reported doesn''t break our community guidelines, so we''ve left it up.', v_label)
+        ELSE format('Thanks for letting us know. We''ve taken action on the %s you reported.', v_label)
+      END,
+      '/reports',
+      jsonb_build_object('outcome', v_outcome, 'target_type', p_target_type)
+    );
+  END LOOP;
+
+  RETURN v_action_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to end a suspension early
+CREATE OR REPLACE FUNCTION public.lift_suspension(p_user_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  v_action_id UUID;
+BEGIN
+  IF NOT public.is_platform_admin(me) THEN
+    RAISE EXCEPTION 'Only platform admins can lift suspensions';
+  END IF;
+
+  UPDATE public.users
+  SET suspended_until = NULL
+  WHERE id = p_user_id AND suspended_until > timezone('utc'::text, now());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This account is not suspended';
+  END IF;
+
+  INSERT INTO public.moderation_actions (moderator_user_id, target_type, target_id, subject_user_id, action, note)
+  VALUES (me, 'user', p_user_id, p_user_id, 'unsuspend', NULLIF(btrim(p_note), ''))
+  RETURNING id INTO v_action_id;
+
+  PERFORM public.create_notification(
+    p_user_id,
+    'moderation_notice',
+    'Your account is no longer suspended',
+    NULLIF(btrim(p_note), ''),
+    NULL,
+    jsonb_build_object('moderation_action_id', v_action_id)
+  );
+
+  RETURN v_action_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7) RLS. Restrictive, like the block policies in migration 49.
+CREATE POLICY "Hidden posts are visible to their authors and admins" ON public.posts
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (hidden_at IS NULL OR user_id = auth.uid() OR public.is_platform_admin());
+
+CREATE POLICY "Hidden comments are visible to their authors and admins" ON public.post_comments
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (hidden_at IS NULL OR user_id = auth.uid() OR public.is_platform_admin());
+
+CREATE POLICY "Hidden gigs are visible to their posters and admins" ON public.gigs
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (
+    hidden_at IS NULL OR
+    auth.uid() = posted_by_user_id OR
+    (posted_by_organization_id IS NOT NULL AND public.is_organization_admin(posted_by_organization_id, auth.uid())) OR
+    public.is_platform_admin()
+  );
+
+CREATE POLICY "Suspended users cannot post" ON public.posts
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (public.enforce_not_suspended());
+
+CREATE POLICY "Suspended users cannot comment" ON public.post_comments
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (public.enforce_not_suspended());
+
+CREATE POLICY "Suspended users cannot send messages" ON public.messages
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (public.enforce_not_suspended());
+
+CREATE POLICY "Suspended users cannot post gigs" ON public.gigs
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (public.enforce_not_suspended());
+
+CREATE POLICY "Suspended users cannot apply to gigs" ON public.gig_applications
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (public.enforce_not_suspended());
+
+-- Editing is posting too: otherwise a suspended user could rewrite what they already published
+CREATE POLICY "Suspended users cannot edit posts" ON public.posts
+  AS RESTRICTIVE
+  FOR UPDATE
+  WITH CHECK (public.enforce_not_suspended());
+
+CREATE POLICY "Suspended users cannot edit gigs" ON public.gigs
+  AS RESTRICTIVE
+  FOR UPDATE
+  WITH CHECK (public.enforce_not_suspended());
+
+CREATE POLICY "Suspended users cannot edit applications" ON public.gig_applications
+  AS RESTRICTIVE
+  FOR UPDATE
+  WITH CHECK (public.enforce_not_suspended());
+
+-- 8) Functions that bypass RLS
+-- Replaces the version in migration 49 to leave out hidden posts (other than the caller's own)
+CREATE OR REPLACE FUNCTION public.get_user_feed(
+  p_user_id UUID DEFAULT auth.uid(),
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  organization_id UUID,
+  content TEXT,
+  title TEXT,
+  post_type TEXT,
+  visibility TEXT,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_liked BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.organization_id,
+    p.content,
+    p.title,
+    p.post_type,
+    p.visibility,
+    p.likes_count,
+    p.comments_count,
+    p.created_at,
+    EXISTS(
+      SELECT 1 FROM public.post_likes pl
+      WHERE pl.post_id = p.id AND pl.user_id = p_user_id
+    ) as is_liked
+  FROM public.posts p
+  WHERE p.is_published = true
+  AND (p.hidden_at IS NULL OR p.user_id = auth.uid())
+  AND (
+    -- User's own posts
+    p.user_id = p_user_id OR
+    -- Organization posts from orgs user admins
+    (p.organization_id IS NOT NULL AND public.is_organization_admin(p.organization_id, p_user_id)) OR
+    -- Public posts
+    p.visibility = 'public' OR
+    -- Posts from followed users/organizations
+    (p.visibility = 'followers' AND (
+      (p.user_id IS NOT NULL AND public.is_following_user(p.user_id, p_user_id)) OR
+      (p.organization_id IS NOT NULL AND public.is_following_organization(p.organization_id, p_user_id))
+    ))
+  )
+  -- Blocked either way or muted; the client may pass a NULL p_user_id, so fall back to the caller
+  AND NOT public.is_content_hidden(p.user_id, COALESCE(p_user_id, auth.uid()))
+  AND NOT public.is_blocked_between(p.user_id, auth.uid())
+  ORDER BY p.created_at DESC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaces the version in migration 49 to leave out hidden comments (other than the caller's own)
+CREATE OR REPLACE FUNCTION public.get_post_comments_tree(p_post_id UUID, p_limit INTEGER DEFAULT 50, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  post_id UUID,
+  parent_comment_id UUID,
+  content TEXT,
+  likes_count INTEGER,
+  replies_count INTEGER,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  level INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH RECURSIVE comment_tree AS (
+    -- Base case: top-level comments
+    SELECT
+      c.id, c.user_id, c.post_id, c.parent_comment_id, c.content,
+      c.likes_count, c.replies_count, c.is_edited, c.created_at,
+      0 as level
+    FROM public.post_comments c
+    WHERE c.post_id = p_post_id
+    AND c.parent_comment_id IS NULL
+    AND c.is_deleted = false
+    AND (c.hidden_at IS NULL OR c.user_id = auth.uid())
+    AND NOT public.is_content_hidden(c.user_id, auth.uid())
+
+    UNION ALL
+
+    -- Recursive case: replies to comments
+    SELECT
+      c.id, c.user_id, c.post_id, c.parent_comment_id, c.content,
+      c.likes_count, c.replies_count, c.is_edited, c.created_at,
+      ct.level + 1
+    FROM public.post_comments c
+    INNER JOIN comment_tree ct ON c.parent_comment_id = ct.id
+    WHERE c.is_deleted = false
+    AND (c.hidden_at IS NULL OR c.user_id = auth.uid())
+    AND NOT public.is_content_hidden(c.user_id, auth.uid())
+  )
+  SELECT * FROM comment_tree
+  ORDER BY level, created_at ASC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Moderation notices and report outcomes are new notification types: push for both, and email
+-- for notices since they can mean a suspension
+CREATE OR REPLACE FUNCTION public.notification_channel_default(p_type TEXT, p_channel TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_channel
+    WHEN 'in_app' THEN true
+    -- Push for things that involve you directly
+    WHEN 'push' THEN p_type IN (
+      'post_comment', 'comment_reply', 'gig_updated', 'gig_application',
+      'application_status', 'event_reminder', 'performance_credit', 'new_message',
+      'moderation_notice', 'report_update'
+    )
+    -- Email only for work: gigs, applications, reminders and credits; and moderation notices
+    WHEN 'email' THEN p_type IN (
+      'gig_updated', 'gig_application', 'application_status', 'event_reminder', 'performance_credit',
+      'moderation_notice'
+    )
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Grant permissions
+GRANT SELECT ON public.platform_admins TO authenticated;
+GRANT SELECT ON public.moderation_actions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_platform_admin(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enforce_not_suspended() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_gig_author_id(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_moderation_queue(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_content(TEXT, UUID, TEXT, TEXT, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.lift_suspension(UUID, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.platform_admins IS 'Accounts that can moderate the platform; written by the service role only';
+COMMENT ON TABLE public.moderation_actions IS 'Audit log of every moderation decision';
+COMMENT ON COLUMN public.users.suspended_until IS 'While in the future the account cannot post, comment, message or apply';
+COMMENT ON COLUMN public.reports.outcome IS 'What the moderators did, shown to the reporter once resolved';
+COMMENT ON FUNCTION public.moderate_content IS 'Dismiss, hide or delete flagged content, optionally warn or suspend its author, and resolve its reports';
+COMMENT ON FUNCTION public.get_moderation_queue IS 'Flagged and reported content awaiting a decision, with context; platform admins only';
@@ -0,0 +1,86 @@
+-- Saved searches skip gigs hidden by moderators
+-- The daily digest cron runs refresh_saved_search_matches() as the service role, where RLS is off,
+-- so the hidden gig policy from migration 50 has to be applied here as well.
+
+-- Replaces the version in migration 34 to skip hidden gigs
+CREATE OR REPLACE FUNCTION public.refresh_saved_search_matches()
+RETURNS INTEGER AS $$
+DECLARE
+  search RECORD;
+  checked_at TIMESTAMP WITH TIME ZONE := timezone('utc'::text, now());
+  page_size CONSTANT INTEGER := 100;
+  page INTEGER;
+  found_count INTEGER;
+  inserted_count INTEGER;
+  search_count INTEGER;
+  total_count INTEGER := 0;
+BEGIN
+  FOR search IN
+    SELECT s.id, s.filters, s.last_checked_at
+    FROM public.saved_searches s
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      page := 0;
+      search_count := 0;
+      LOOP
+        WITH found AS (
+          SELECT (r.gig ->> 'id')::UUID AS gig_id
+          FROM public.search_gigs(
+            p_query := NULLIF(search.filters ->> 'searchQuery', ''),
+            p_instruments := ARRAY(SELECT jsonb_array_elements_text(COALESCE(search.filters -> 'instruments', '[]'::jsonb))),
+            p_genres := ARRAY(SELECT jsonb_array_elements_text(COALESCE(search.filters -> 'genres', '[]'::jsonb))),
+            p_compensation_type := NULLIF(search.filters ->> 'compensationType', ''),
+            p_pay_min := (search.filters ->> 'payRateMin')::NUMERIC,
+            p_pay_max := (search.filters ->> 'payRateMax')::NUMERIC,
+            p_location := NULLIF(search.filters ->> 'location', ''),
+            p_gig_type := NULLIF(search.filters ->> 'gigType', ''),
+            p_start_date := NULLIF(search.filters ->> 'startDate', '')::DATE,
+            p_end_date := NULLIF(search.filters ->> 'endDate', '')::DATE,
+            p_status := NULLIF(search.filters ->> 'status', ''),
+            p_include_expired := COALESCE((search.filters ->> 'includeExpired')::BOOLEAN, false),
+            p_latitude := (search.filters ->> 'nearLatitude')::DOUBLE PRECISION,
+            p_longitude := (search.filters ->> 'nearLongitude')::DOUBLE PRECISION,
+            p_radius_km := (search.filters ->> 'radiusKm')::NUMERIC,
+            p_published_after := search.last_checked_at,
+            p_limit := page_size,
+            p_offset := page * page_size
+          ) r
+        ),
+        inserted AS (
+          INSERT INTO public.saved_search_matches (saved_search_id, gig_id)
+          SELECT search.id, g.id
+          FROM found
+          JOIN public.gigs g ON g.id = found.gig_id
+          -- Same rules as the "Authenticated users can view published gigs" and hidden gig policies
+          WHERE g.published_at IS NOT NULL
+          AND g.published_at <= checked_at
+          AND g.status IN ('open', 'closed', 'filled')
+          AND g.hidden_at IS NULL
+          ON CONFLICT (saved_search_id, gig_id) DO NOTHING
+          RETURNING 1
+        )
+        SELECT (SELECT COUNT(*) FROM found), (SELECT COUNT(*) FROM inserted)
+        INTO found_count, inserted_count;
+
+        search_count := search_count + inserted_count;
+        EXIT WHEN found_count < page_size;
+        page := page + 1;
+      END LOOP;
+
+      UPDATE public.saved_searches
+      SET last_checked_at = checked_at
+      WHERE id = search.id;
+
+      total_count := total_count + search_count;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping saved search %: %', search.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN total_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.refresh_saved_search_matches() TO authenticated, service_role;